@@ -0,0 +1,54 @@
+/**
+ * Service worker for Web Push. Shows each push as a notification, tells
+ * the server it was shown, and opens (or focuses) the app on click.
+ */
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+function sendReceipt(deliveryId, receipt) {
+  if (!deliveryId) return Promise.resolve();
+  return fetch("/api/push/receipts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ deliveryId, receipt }),
+    credentials: "include",
+  }).catch(() => {});
+}
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+
+  const title = payload.title || "Election Tracker Alert";
+  event.waitUntil(
+    self.registration
+      .showNotification(title, {
+        body: payload.body || "",
+        tag: payload.tag,
+        data: { url: payload.url || "/", deliveryId: payload.deliveryId },
+      })
+      .then(() => sendReceipt(payload.deliveryId, "delivered"))
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const { url, deliveryId } = event.notification.data || {};
+  const target = new URL(url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    Promise.all([
+      sendReceipt(deliveryId, "clicked"),
+      self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+        const open = windows.find((client) => client.url === target);
+        if (open) return open.focus();
+        return self.clients.openWindow(target);
+      }),
+    ])
+  );
+});
@@ -28,6 +28,7 @@ import AuthPage from "@/pages/auth";
 import PreferencesPage from "@/pages/preferences";
 import AdminResultsEntry from "@/pages/admin-results-entry";
 import AdminSettings from "@/pages/admin-settings";
+import SampleBallotPage from "@/pages/sample-ballot";
 import InvestorDashboard from "@/pages/investor-dashboard";
 import HappeningNow from "@/pages/happening-now";
 import NotFound from "@/pages/not-found";
@@ -53,6 +54,7 @@ function Router() {
             <Route path="/2026" component={Midterm2026} />
             <Route path="/elections/:id" component={ElectionDetails} />
             <Route path="/compare" component={ComparePage} />
+            <Route path="/ballot" component={SampleBallotPage} />
             <Route path="/data-steward" component={DataSteward} />
             <Route path="/preferences" component={PreferencesPage} />
             <Route path="/admin/results" component={AdminResultsEntry} />
@@ -1,13 +1,45 @@
-export default function ConfidenceMeter({value}:{value:number}) {
-  if (!value || value <= 0) {
+type MeterTone = "default" | "democratic" | "republican" | "neutral";
+
+const TONE_CLASSES: Record<MeterTone, string> = {
+  default: "bg-green-500",
+  democratic: "bg-blue-600",
+  republican: "bg-red-600",
+  neutral: "bg-gray-500",
+};
+
+export function toneForParty(party?: string | null): MeterTone {
+  const value = party?.toLowerCase() ?? "";
+  if (value === "d" || value.includes("democrat")) return "democratic";
+  if (value === "r" || value.includes("republican")) return "republican";
+  return "neutral";
+}
+
+interface ConfidenceMeterProps {
+  value: number | null | undefined; // 0-100; null or undefined when there is nothing to show
+  label?: string;
+  tone?: MeterTone;
+  /** Optional uncertainty range (e.g. forecast 10th-90th percentile), 0-100 */
+  range?: [number, number];
+}
+
+export default function ConfidenceMeter({ value, label, tone = "default", range }: ConfidenceMeterProps) {
+  if (value == null || Number.isNaN(value)) {
     return <span className="text-xs text-muted-foreground">No signal</span>;
   }
+  const width = Math.max(0, Math.min(100, value));
   return (
     <div className="flex items-center gap-2">
-      <div className="h-1.5 w-28 rounded bg-muted">
-        <div className="h-1.5 rounded bg-green-500" style={{width: `${Math.min(100,value)}%`}} />
+      {label && <span className="text-xs font-medium w-24 truncate" title={label}>{label}</span>}
+      <div className="relative h-1.5 w-28 rounded bg-muted">
+        {range && (
+          <div
+            className={`absolute h-1.5 rounded opacity-30 ${TONE_CLASSES[tone]}`}
+            style={{ left: `${Math.max(0, range[0])}%`, width: `${Math.max(0, Math.min(100, range[1]) - range[0])}%` }}
+          />
+        )}
+        <div className={`relative h-1.5 rounded ${TONE_CLASSES[tone]}`} style={{ width: `${width}%` }} />
       </div>
-      <span className="text-xs">{Math.round(value)}%</span>
+      <span className="text-xs">{value <= 0 ? 0 : value < 1 ? "<1" : value > 99 && value < 100 ? ">99" : Math.round(value)}%</span>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,400 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Filter, Plus, Trash2, Eye, CheckCircle, AlertCircle } from "lucide-react";
+
+interface AlertRule {
+  id: number;
+  name: string;
+  expression: string;
+  eventTypes: string[] | null;
+  channels: string[];
+  priority: "low" | "normal" | "high" | "urgent";
+  cooldownMinutes: number;
+  isActive: boolean;
+  lastTriggeredAt: string | null;
+  triggerCount: number;
+}
+
+interface RulePreview {
+  fields: string[];
+  scanned: number;
+  matched: number;
+  matches: Array<{ id: number; eventType: string; message: string | null; createdAt: string | null }>;
+}
+
+interface ConditionRow {
+  field: string;
+  operator: string;
+  value: string;
+}
+
+const EVENT_TYPES: Array<{ value: string; label: string }> = [
+  { value: "election_result", label: "Results & race calls" },
+  { value: "lead_change", label: "Lead changes" },
+  { value: "candidate_update", label: "Candidate updates" },
+  { value: "election_update", label: "Election updates" },
+  { value: "deadline_reminder", label: "Deadlines" },
+  { value: "breaking_news", label: "Breaking news" },
+  { value: "bill_update", label: "Bills" },
+  { value: "outside_spending", label: "Outside spending" },
+  { value: "poll_update", label: "Polling updates" },
+];
+
+const CHANNEL_LABELS: Record<string, string> = {
+  email: "Email",
+  sms: "SMS",
+  push: "Browser push",
+};
+
+const FIELDS = [
+  { value: "election.state", label: "State" },
+  { value: "election.office", label: "Office" },
+  { value: "election.level", label: "Level" },
+  { value: "election.type", label: "Election type" },
+  { value: "candidate.party", label: "Candidate party" },
+  { value: "candidateName", label: "Candidate name" },
+  { value: "leader", label: "Leader" },
+  { value: "margin", label: "Margin (points)" },
+  { value: "status", label: "Candidate status" },
+  { value: "stage", label: "Bill stage" },
+  { value: "priority", label: "Priority" },
+];
+
+const OPERATORS = [
+  { value: "==", label: "is" },
+  { value: "!=", label: "is not" },
+  { value: "contains", label: "contains" },
+  { value: "in", label: "is one of" },
+  { value: "<", label: "below" },
+  { value: ">", label: "above" },
+  { value: "changed", label: "changed" },
+];
+
+const quote = (value: string) => `"${value.replace(/"/g, "")}"`;
+
+function conditionExpression({ field, operator, value }: ConditionRow): string {
+  if (operator === "changed") return `${field} changed`;
+  if (operator === "in") {
+    const options = value.split(",").map((v) => v.trim()).filter(Boolean);
+    return `${field} in (${options.map(quote).join(", ")})`;
+  }
+  const literal = operator === "<" || operator === ">" ? String(Number(value) || 0) : quote(value);
+  return `${field} ${operator} ${literal}`;
+}
+
+/**
+ * The user's own alert rules: a builder that writes rule expressions from
+ * simple conditions, an editor for writing them by hand, a preview of the
+ * recent events a rule would have matched, and the saved rules
+ */
+export function AlertRuleBuilder() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [rows, setRows] = useState<ConditionRow[]>([{ field: "election.state", operator: "==", value: "" }]);
+  const [joiner, setJoiner] = useState<"and" | "or">("and");
+  const [expression, setExpression] = useState("");
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [channels, setChannels] = useState<string[]>(["email"]);
+  const [validation, setValidation] = useState<{ valid: boolean; error: string | null } | null>(null);
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+
+  const { data: rules } = useQuery<AlertRule[]>({
+    queryKey: ["/api/alert-rules"],
+  });
+
+  const invalidateRules = () => queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+
+  const validateMutation = useMutation({
+    mutationFn: async (text: string) => (await apiRequest("POST", "/api/alert-rules/validate", { expression: text })).json(),
+    onSuccess: (result) => setValidation(result),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("POST", "/api/alert-rules/preview", { expression, eventTypes: eventTypes.length ? eventTypes : null })).json(),
+    onSuccess: (result: RulePreview) => setPreview(result),
+    onError: (error: any) => {
+      toast({ title: "Preview Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/alert-rules", {
+        name,
+        expression,
+        eventTypes: eventTypes.length ? eventTypes : null,
+        channels,
+      }),
+    onSuccess: () => {
+      invalidateRules();
+      setName("");
+      setExpression("");
+      setPreview(null);
+      setValidation(null);
+      toast({ title: "Rule Saved", description: "You'll be alerted when an event matches this rule." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: number; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/alert-rules/${id}`, { isActive }),
+    onSuccess: invalidateRules,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/alert-rules/${id}`),
+    onSuccess: invalidateRules,
+  });
+
+  const updateRow = (index: number, changes: Partial<ConditionRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const writeRule = () => {
+    const text = rows
+      .filter((row) => row.operator === "changed" || row.value.trim())
+      .map(conditionExpression)
+      .join(` ${joiner} `);
+    setExpression(text);
+    setPreview(null);
+    if (text) validateMutation.mutate(text);
+  };
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            New Alert Rule
+          </CardTitle>
+          <CardDescription>
+            Get alerted when an event matches your conditions, e.g. when any Senate race in Arizona or Georgia changes leader.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Senate lead changes in AZ and GA"
+              data-testid="input-rule-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Conditions</Label>
+              <Select value={joiner} onValueChange={(value: "and" | "or") => setJoiner(value)}>
+                <SelectTrigger className="w-40" data-testid="select-rule-joiner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="and">Match all</SelectItem>
+                  <SelectItem value="or">Match any</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2" data-testid={`rule-condition-${index}`}>
+                <Select value={row.field} onValueChange={(field) => updateRow(index, { field })}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIELDS.map((field) => (
+                      <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={row.operator} onValueChange={(operator) => updateRow(index, { operator })}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OPERATORS.map((operator) => (
+                      <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {row.operator !== "changed" && (
+                  <Input
+                    className="flex-1 min-w-32"
+                    value={row.value}
+                    onChange={(e) => updateRow(index, { value: e.target.value })}
+                    placeholder={row.operator === "in" ? "AZ, GA" : "Value"}
+                  />
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                  disabled={rows.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRows([...rows, { field: "election.office", operator: "contains", value: "" }])}
+                data-testid="button-add-condition"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Condition
+              </Button>
+              <Button variant="outline" size="sm" onClick={writeRule} data-testid="button-build-rule">
+                Write Rule
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-expression">Rule</Label>
+            <Textarea
+              id="rule-expression"
+              className="font-mono text-sm"
+              value={expression}
+              onChange={(e) => {
+                setExpression(e.target.value);
+                setValidation(null);
+                setPreview(null);
+              }}
+              onBlur={() => expression && validateMutation.mutate(expression)}
+              placeholder={'election.office contains "Senate" and election.state in ("AZ", "GA") and leader changed'}
+              data-testid="textarea-rule-expression"
+            />
+            {validation && (
+              validation.valid ? (
+                <p className="flex items-center gap-1 text-sm text-green-600">
+                  <CheckCircle className="h-4 w-4" /> Rule is valid
+                </p>
+              ) : (
+                <p className="flex items-center gap-1 text-sm text-red-600" data-testid="text-rule-error">
+                  <AlertCircle className="h-4 w-4" /> {validation.error}
+                </p>
+              )
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Event types</Label>
+            <div className="flex flex-wrap gap-2">
+              {EVENT_TYPES.map((type) => (
+                <Badge
+                  key={type.value}
+                  variant={eventTypes.includes(type.value) ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => setEventTypes(toggle(eventTypes, type.value))}
+                >
+                  {type.label}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Leave all unselected to check every event.</p>
+          </div>
+
+          <div className="flex items-center gap-6">
+            {Object.keys(CHANNEL_LABELS).map((channel) => (
+              <div key={channel} className="flex items-center gap-2">
+                <Switch
+                  id={`rule-channel-${channel}`}
+                  checked={channels.includes(channel)}
+                  onCheckedChange={() => setChannels(toggle(channels, channel))}
+                />
+                <Label htmlFor={`rule-channel-${channel}`}>{CHANNEL_LABELS[channel]}</Label>
+              </div>
+            ))}
+          </div>
+
+          {preview && (
+            <Alert data-testid="rule-preview">
+              <AlertDescription className="space-y-2">
+                <p>
+                  Matched {preview.matched} of the last {preview.scanned} events.
+                </p>
+                {preview.matches.slice(0, 5).map((match) => (
+                  <p key={match.id} className="text-sm text-muted-foreground">
+                    {match.createdAt && new Date(match.createdAt).toLocaleDateString()} · {match.message ?? match.eventType}
+                  </p>
+                ))}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={!expression || previewMutation.isPending}
+              data-testid="button-preview-rule"
+            >
+              <Eye className="h-4 w-4 mr-1" />
+              Preview
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name || !expression || channels.length === 0 || validation?.valid === false || createMutation.isPending}
+              data-testid="button-save-rule"
+            >
+              Save Rule
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Rules</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!rules?.length && <p className="text-sm text-muted-foreground">You have no alert rules yet.</p>}
+          {rules?.map((rule) => (
+            <div key={rule.id} className="flex items-start justify-between gap-4 rounded-lg border p-3" data-testid={`alert-rule-${rule.id}`}>
+              <div className="space-y-1 min-w-0">
+                <p className="font-medium">{rule.name}</p>
+                <p className="font-mono text-xs text-muted-foreground break-all">{rule.expression}</p>
+                <p className="text-xs text-muted-foreground">
+                  {rule.channels.join(", ")} · fired {rule.triggerCount} times
+                  {rule.lastTriggeredAt && <>, last {new Date(rule.lastTriggeredAt).toLocaleString()}</>}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={rule.isActive}
+                  onCheckedChange={(isActive) => toggleMutation.mutate({ id: rule.id, isActive })}
+                  data-testid={`switch-rule-${rule.id}`}
+                />
+                <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(rule.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
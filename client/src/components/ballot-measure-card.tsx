@@ -0,0 +1,208 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle2, ExternalLink, Heart, ThumbsDown, ThumbsUp, XCircle } from "lucide-react";
+
+export interface MeasureEndorsement {
+  name: string;
+  position: 'support' | 'oppose';
+  type?: string | null;
+  url?: string | null;
+}
+
+export interface MeasureCommittee {
+  name: string;
+  url?: string | null;
+  raised?: number | null;
+}
+
+export interface BallotMeasure {
+  id: number;
+  state: string;
+  jurisdiction: string | null;
+  electionDate: string;
+  measureNumber: string | null;
+  title: string;
+  measureType: string | null;
+  summary: string | null;
+  fullTextUrl: string | null;
+  fiscalImpact: string | null;
+  yesMeaning: string | null;
+  noMeaning: string | null;
+  passageThreshold: string | null;
+  supportingCommittees: MeasureCommittee[] | null;
+  opposingCommittees: MeasureCommittee[] | null;
+  endorsements: MeasureEndorsement[] | null;
+  yesVotes: number | null;
+  noVotes: number | null;
+  status: string | null;
+  outcome?: {
+    totalVotes: number;
+    yesShare: number | null;
+    threshold: number;
+    passing: boolean | null;
+  };
+}
+
+const THRESHOLD_LABELS: Record<string, string> = {
+  majority: "Simple majority",
+  "55_percent": "55% to pass",
+  three_fifths: "Three-fifths to pass",
+  two_thirds: "Two-thirds to pass",
+};
+
+function Committees({ label, committees }: { label: string; committees: MeasureCommittee[] }) {
+  if (committees.length === 0) return null;
+  return (
+    <div>
+      <span className="font-medium">{label}: </span>
+      {committees.map((committee, index) => (
+        <span key={committee.name}>
+          {index > 0 && ", "}
+          {committee.url ? (
+            <a href={committee.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+              {committee.name}
+            </a>
+          ) : committee.name}
+          {committee.raised != null && ` ($${committee.raised.toLocaleString()})`}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function BallotMeasureCard({ measure }: { measure: BallotMeasure }) {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: watched = [] } = useQuery<Array<{ measureId: number }>>({
+    queryKey: ['/api/measures/watchlist'],
+    enabled: isAuthenticated,
+  });
+  const isWatched = watched.some((item) => item.measureId === measure.id);
+
+  const watchMutation = useMutation({
+    mutationFn: () => apiRequest(isWatched ? 'DELETE' : 'POST', `/api/measures/${measure.id}/watch`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/measures/watchlist'] });
+      toast({ title: isWatched ? "Removed from watchlist" : "Added to watchlist" });
+    },
+    onError: () => {
+      toast({ title: "Could not update watchlist", variant: "destructive" });
+    },
+  });
+
+  const endorsements = measure.endorsements ?? [];
+  const support = endorsements.filter((e) => e.position === 'support');
+  const oppose = endorsements.filter((e) => e.position === 'oppose');
+  const yesShare = measure.outcome?.yesShare ?? null;
+
+  return (
+    <Card data-testid={`measure-card-${measure.id}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">
+              {measure.measureNumber ? `${measure.measureNumber}: ` : ""}{measure.title}
+            </CardTitle>
+            <CardDescription className="flex flex-wrap items-center gap-2 pt-1">
+              <span>{measure.jurisdiction || `Statewide (${measure.state})`}</span>
+              {measure.measureType && <Badge variant="outline" className="capitalize">{measure.measureType}</Badge>}
+              {measure.passageThreshold && measure.passageThreshold !== 'majority' && (
+                <Badge variant="outline">{THRESHOLD_LABELS[measure.passageThreshold] ?? measure.passageThreshold}</Badge>
+              )}
+              {measure.status === 'passed' && (
+                <Badge className="bg-green-600"><CheckCircle2 className="mr-1 h-3 w-3" />Passed</Badge>
+              )}
+              {measure.status === 'failed' && (
+                <Badge variant="destructive"><XCircle className="mr-1 h-3 w-3" />Failed</Badge>
+              )}
+            </CardDescription>
+          </div>
+          {isAuthenticated && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => watchMutation.mutate()}
+              disabled={watchMutation.isPending}
+              aria-label={isWatched ? "Remove measure from watchlist" : "Add measure to watchlist"}
+            >
+              <Heart className={`h-4 w-4 ${isWatched ? "fill-red-500 text-red-500" : ""}`} />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {measure.summary && <p className="text-muted-foreground">{measure.summary}</p>}
+
+        {(measure.yesMeaning || measure.noMeaning) && (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {measure.yesMeaning && (
+              <div className="rounded-md border p-2">
+                <div className="flex items-center gap-1 font-medium text-green-700 dark:text-green-400">
+                  <ThumbsUp className="h-3 w-3" /> A YES vote means
+                </div>
+                <p className="text-muted-foreground">{measure.yesMeaning}</p>
+              </div>
+            )}
+            {measure.noMeaning && (
+              <div className="rounded-md border p-2">
+                <div className="flex items-center gap-1 font-medium text-red-700 dark:text-red-400">
+                  <ThumbsDown className="h-3 w-3" /> A NO vote means
+                </div>
+                <p className="text-muted-foreground">{measure.noMeaning}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {measure.fiscalImpact && (
+          <p><span className="font-medium">Fiscal impact: </span>{measure.fiscalImpact}</p>
+        )}
+
+        <Committees label="Supporting committees" committees={measure.supportingCommittees ?? []} />
+        <Committees label="Opposing committees" committees={measure.opposingCommittees ?? []} />
+
+        {(support.length > 0 || oppose.length > 0) && (
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div>
+              <span className="font-medium">Endorsed by: </span>
+              {support.map((e) => e.name).join(", ") || "None listed"}
+            </div>
+            <div>
+              <span className="font-medium">Opposed by: </span>
+              {oppose.map((e) => e.name).join(", ") || "None listed"}
+            </div>
+          </div>
+        )}
+
+        {yesShare !== null && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span>Yes {(yesShare * 100).toFixed(1)}% ({(measure.yesVotes ?? 0).toLocaleString()})</span>
+              <span>No {((1 - yesShare) * 100).toFixed(1)}% ({(measure.noVotes ?? 0).toLocaleString()})</span>
+            </div>
+            <Progress value={yesShare * 100} aria-label="Yes share" />
+          </div>
+        )}
+
+        {measure.fullTextUrl && (
+          <a
+            href={measure.fullTextUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+          >
+            Full text <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
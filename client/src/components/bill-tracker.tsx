@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Bell, BellOff, ExternalLink, Search } from "lucide-react";
+
+interface TrackedBill {
+  id: number;
+  congress: number;
+  type: string;
+  billNumber: string;
+  title: string;
+  label: string;
+  stage: string;
+  stageLabel: string;
+  policyArea: string | null;
+  subjects: string[] | null;
+  summary: string | null;
+  latestActionDate: string | null;
+  latestActionText: string | null;
+  cosponsorCount: number | null;
+  url: string | null;
+}
+
+interface BillDetail extends TrackedBill {
+  actions: Array<{ id: number; actionDate: string | null; chamber: string | null; text: string }>;
+  committees: Array<{ id: number; name: string; chamber: string | null; activities: Array<{ name: string; date: string | null }> }>;
+  cosponsors: Array<{ bioguideId: string; name: string | null; party: string | null; state: string | null }>;
+}
+
+const MAIN_STAGES = [
+  { value: "introduced", label: "Introduced" },
+  { value: "committee", label: "Committee" },
+  { value: "floor", label: "Floor" },
+  { value: "other_chamber", label: "Other chamber" },
+  { value: "president", label: "President" },
+  { value: "law", label: "Law" },
+];
+
+const BILL_TYPES = ["hr", "s", "hjres", "sjres", "hconres", "sconres", "hres", "sres"];
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString() : "";
+}
+
+function StageProgress({ stage }: { stage: string }) {
+  const reached = MAIN_STAGES.findIndex((s) => s.value === stage);
+  return (
+    <div className="flex items-center gap-1" aria-label={`Stage: ${stage}`}>
+      {MAIN_STAGES.map((s, index) => (
+        <div
+          key={s.value}
+          title={s.label}
+          className={`h-1.5 flex-1 rounded ${index <= reached || stage === "law" ? "bg-primary" : "bg-muted"}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function BillDetailPanel({ billId }: { billId: number }) {
+  const { data: bill, isLoading } = useQuery<BillDetail>({ queryKey: [`/api/legislation/${billId}`] });
+
+  if (isLoading || !bill) return <Skeleton className="h-64 w-full" />;
+
+  return (
+    <div className="space-y-4 text-sm">
+      {bill.summary && <p className="text-muted-foreground line-clamp-6">{bill.summary}</p>}
+
+      {bill.committees.length > 0 && (
+        <div>
+          <h5 className="font-medium mb-1">Committees</h5>
+          {bill.committees.map((committee) => (
+            <div key={committee.id} className="text-xs">
+              <span className="font-medium">{committee.name}</span>
+              {committee.activities.length > 0 && (
+                <span className="text-muted-foreground">
+                  {" "}· {committee.activities.map((a) => `${a.name}${a.date ? ` ${formatDate(a.date)}` : ""}`).join(", ")}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {bill.cosponsors.length > 0 && (
+        <div>
+          <h5 className="font-medium mb-1">Cosponsors ({bill.cosponsors.length})</h5>
+          <p className="text-xs text-muted-foreground">
+            {bill.cosponsors.map((c) => `${c.name ?? c.bioguideId}${c.party ? ` (${c.party}${c.state ? `-${c.state}` : ""})` : ""}`).join(", ")}
+          </p>
+        </div>
+      )}
+
+      <div>
+        <h5 className="font-medium mb-1">Actions</h5>
+        <ScrollArea className="h-48">
+          <ol className="space-y-2 pr-3">
+            {bill.actions.map((action) => (
+              <li key={action.id} className="text-xs border-l-2 pl-2">
+                <span className="text-muted-foreground">
+                  {formatDate(action.actionDate)}{action.chamber ? ` · ${action.chamber}` : ""}
+                </span>
+                <p>{action.text}</p>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Search tracked bills by text, subject and stage, follow their progress
+ * and watch them for stage-change alerts
+ */
+export function BillTracker() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [stage, setStage] = useState("all");
+  const [openBillId, setOpenBillId] = useState<number | null>(null);
+  const [trackType, setTrackType] = useState("hr");
+  const [trackNumber, setTrackNumber] = useState("");
+
+  const params = new URLSearchParams();
+  if (query.length >= 2) params.set("q", query);
+  if (stage !== "all") params.set("stage", stage);
+  const searchUrl = `/api/legislation${params.toString() ? `?${params}` : ""}`;
+
+  const { data: bills = [], isLoading } = useQuery<TrackedBill[]>({ queryKey: [searchUrl] });
+  const { data: watched = [] } = useQuery<Array<{ billId: number }>>({
+    queryKey: ["/api/legislation/watchlist"],
+    enabled: isAuthenticated,
+  });
+  const watchedIds = new Set(watched.map((w) => w.billId));
+
+  const watchMutation = useMutation({
+    mutationFn: ({ billId, watching }: { billId: number; watching: boolean }) =>
+      apiRequest(watching ? "DELETE" : "POST", `/api/legislation/${billId}/watch`),
+    onSuccess: (_data, { watching }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/legislation/watchlist"] });
+      toast({
+        title: watching ? "Stopped watching bill" : "Watching bill",
+        description: watching ? undefined : "You'll get alerts through your legislation alert subscriptions.",
+      });
+    },
+    onError: () => toast({ title: "Could not update bill watch", variant: "destructive" }),
+  });
+
+  const trackMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/legislation/track", {
+        congress: 119,
+        type: trackType,
+        number: trackNumber.trim(),
+      });
+      return response.json() as Promise<TrackedBill>;
+    },
+    onSuccess: (bill) => {
+      queryClient.invalidateQueries({ queryKey: [searchUrl] });
+      setOpenBillId(bill.id);
+      setTrackNumber("");
+    },
+    onError: () => toast({ title: "Bill not found", variant: "destructive" }),
+  });
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Bill Tracker</CardTitle>
+          <CardDescription>Search bills by title, summary or subject and follow them through Congress</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <form
+            className="grid grid-cols-1 md:grid-cols-[1fr_200px_auto] gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setQuery(search.trim());
+            }}
+          >
+            <Input placeholder="e.g. prescription drug prices" value={search} onChange={(e) => setSearch(e.target.value)} />
+            <Select value={stage} onValueChange={setStage}>
+              <SelectTrigger>
+                <SelectValue placeholder="Any stage" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any stage</SelectItem>
+                {MAIN_STAGES.map((s) => (
+                  <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                ))}
+                <SelectItem value="vetoed">Vetoed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit"><Search className="h-4 w-4 mr-1" />Search</Button>
+          </form>
+
+          {isAuthenticated && (
+            <form
+              className="flex flex-wrap items-center gap-2 text-sm"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (trackNumber.trim()) trackMutation.mutate();
+              }}
+            >
+              <span className="text-muted-foreground">Not listed? Track a bill:</span>
+              <Select value={trackType} onValueChange={setTrackType}>
+                <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {BILL_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{type.toUpperCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input className="w-28" placeholder="Number" value={trackNumber} onChange={(e) => setTrackNumber(e.target.value)} />
+              <Button type="submit" variant="outline" size="sm" disabled={trackMutation.isPending}>Track</Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-24 w-full" />)}
+        </div>
+      ) : bills.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No tracked bills match.</p>
+      ) : (
+        <div className="space-y-3">
+          {bills.map((bill) => {
+            const watching = watchedIds.has(bill.id);
+            return (
+              <Card key={bill.id} data-testid={`bill-${bill.id}`}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <CardTitle className="text-base">
+                        <button className="text-left hover:underline" onClick={() => setOpenBillId(openBillId === bill.id ? null : bill.id)}>
+                          {bill.label}: {bill.title}
+                        </button>
+                      </CardTitle>
+                      <CardDescription className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline">{bill.stageLabel}</Badge>
+                        {bill.policyArea && <span>{bill.policyArea}</span>}
+                        {bill.cosponsorCount ? <span>{bill.cosponsorCount} cosponsors</span> : null}
+                        {bill.url && (
+                          <a href={bill.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-blue-600 hover:underline">
+                            congress.gov <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </CardDescription>
+                    </div>
+                    {isAuthenticated && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => watchMutation.mutate({ billId: bill.id, watching })}
+                        disabled={watchMutation.isPending}
+                        aria-label={watching ? "Stop watching bill" : "Watch bill"}
+                      >
+                        {watching ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <StageProgress stage={bill.stage} />
+                  {bill.latestActionText && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(bill.latestActionDate)}: {bill.latestActionText}
+                    </p>
+                  )}
+                  {openBillId === bill.id && <BillDetailPanel billId={bill.id} />}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+
+interface CalendarFeed {
+  url: string;
+  webcalUrl: string;
+  createdAt: string | null;
+  rotatedAt: string | null;
+  lastFetchedAt: string | null;
+}
+
+/**
+ * Subscribe link for the user's watchlist calendar feed, with a way to
+ * replace the secret URL if it has been shared
+ */
+export function CalendarFeedDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const { data: feed, isLoading } = useQuery<CalendarFeed>({
+    queryKey: ["/api/calendar/feed"],
+    enabled: open,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/calendar/feed/rotate")).json(),
+    onSuccess: (updated: CalendarFeed) => {
+      queryClient.setQueryData(["/api/calendar/feed"], updated);
+      toast({ title: "Calendar link replaced", description: "Calendars using the old link will stop updating." });
+    },
+    onError: () => toast({ title: "Couldn't replace the calendar link", variant: "destructive" }),
+  });
+
+  const copyLink = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    toast({ title: "Calendar link copied" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-calendar-feed">
+          <CalendarPlus className="h-4 w-4 mr-1" />
+          Add to calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe in your calendar</DialogTitle>
+          <DialogDescription>
+            Election dates and voter deadlines for your watchlist, with reminders set from each election's
+            reminder setting. Changes show up in your calendar automatically.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading || !feed ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input readOnly value={feed.url} onFocus={(e) => e.target.select()} data-testid="input-calendar-feed-url" />
+              <Button variant="outline" size="sm" onClick={copyLink} aria-label="Copy calendar link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild size="sm">
+                <a href={feed.webcalUrl}>Open in calendar app</a>
+              </Button>
+              <Button asChild size="sm" variant="outline">
+                <a
+                  href={`https://calendar.google.com/calendar/r?cid=${encodeURIComponent(feed.webcalUrl)}`}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  Add to Google Calendar
+                </a>
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with this link can see your watchlist. If you've shared it by mistake, replace it.
+            </p>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={rotateMutation.isPending}
+              onClick={() => rotateMutation.mutate()}
+              data-testid="button-calendar-feed-rotate"
+            >
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Replace link
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
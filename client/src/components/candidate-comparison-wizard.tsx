@@ -33,6 +33,7 @@ import {
 import { cn } from "@/lib/utils";
 import type { Candidate, Election } from "@shared/schema";
 import { EnhancedPolicyComparison } from "./enhanced-policy-comparison";
+import { VotingRecordComparison } from "./voting-record-comparison";
 import { useToast } from "@/hooks/use-toast";
 
 interface CandidateComparisonWizardProps {
@@ -1129,6 +1130,8 @@ function ComparisonView({
         </div>
       </div>
 
+      <VotingRecordComparison candidates={candidateDetails} selectedCategories={selectedCategories} />
+
       {/* Experience & Background Comparison */}
       <Card>
         <CardHeader>
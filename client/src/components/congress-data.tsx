@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BillTracker } from "./bill-tracker";
 
 export function CongressData() {
   const [selectedCongress, setSelectedCongress] = useState("119");
@@ -177,9 +178,10 @@ export function CongressData() {
       </div>
 
       <Tabs defaultValue="members" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="members">Members</TabsTrigger>
           <TabsTrigger value="bills">Bills</TabsTrigger>
+          <TabsTrigger value="tracker">Bill Tracker</TabsTrigger>
           <TabsTrigger value="committees">Committees</TabsTrigger>
         </TabsList>
 
@@ -469,6 +471,10 @@ export function CongressData() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="tracker" className="space-y-4">
+          <BillTracker />
+        </TabsContent>
       </Tabs>
     </div>
   );
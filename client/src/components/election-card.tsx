@@ -83,6 +83,9 @@ export function ElectionCard({ election, viewMode = "grid" }: ElectionCardProps)
 
   // Always fetch candidates for display on card
   const { data: candidates = [], isLoading: candidatesLoading } = useCandidates(election.id);
+  // Withdrawn and disqualified candidates only come back while still on the ballot; list them last
+  const runningCandidates = candidates.filter(c => c.isActive);
+  const listedCandidates = [...runningCandidates, ...candidates.filter(c => !c.isActive)];
   const { data: electionResults } = useElectionResults(isDetailsOpen ? election.id : 0);
 
   // Election details query with aggressive caching
@@ -211,7 +214,7 @@ export function ElectionCard({ election, viewMode = "grid" }: ElectionCardProps)
     // Use enhanced version with momentum simulation
     const analysis = calculateAdvancedPoliticalLeaningWithMomentum(
       state,
-      candidates,
+      runningCandidates,
       election.id
     );
     
@@ -326,12 +329,13 @@ export function ElectionCard({ election, viewMode = "grid" }: ElectionCardProps)
             )}
           </div>
           <div className="grid grid-cols-2 gap-2">
-            {candidates.slice(0, 4).map((candidate: any) => (
+            {listedCandidates.slice(0, 4).map((candidate: any) => (
               <div key={candidate.id} className={cn(
                 "w-full p-2.5 rounded-lg bg-gradient-to-br from-background/90 to-muted/30 border transition-all hover:shadow-sm hover:border-border/80",
                 candidate.isWinner 
                   ? "border-green-500/50 bg-green-500/10" 
-                  : "border-border/50"
+                  : "border-border/50",
+                candidate.isActive === false && "opacity-60"
               )}>
                 <div className="space-y-1">
                   <div className="flex items-center justify-between gap-1">
@@ -342,6 +346,26 @@ export function ElectionCard({ election, viewMode = "grid" }: ElectionCardProps)
                       <Trophy className="w-3 h-3 text-green-600 flex-shrink-0" />
                     )}
                   </div>
+                  {(candidate.isActive === false || candidate.isWriteIn || candidate.status === 'advanced') && (
+                    <div className="flex flex-wrap gap-1">
+                      {candidate.status === 'withdrawn' && (
+                        <Badge variant="outline" className="text-[10px] px-1 py-0" title={candidate.onBallot ? "Name remains on the ballot" : undefined}>
+                          Withdrawn{candidate.onBallot ? " · on ballot" : ""}
+                        </Badge>
+                      )}
+                      {candidate.status === 'disqualified' && (
+                        <Badge variant="outline" className="text-[10px] px-1 py-0">
+                          Disqualified{candidate.onBallot ? " · on ballot" : ""}
+                        </Badge>
+                      )}
+                      {candidate.isWriteIn && (
+                        <Badge variant="outline" className="text-[10px] px-1 py-0">Write-in</Badge>
+                      )}
+                      {candidate.status === 'advanced' && (
+                        <Badge variant="outline" className="text-[10px] px-1 py-0">Runoff</Badge>
+                      )}
+                    </div>
+                  )}
                   <div className="flex items-center justify-between">
                     <p className="text-xs text-muted-foreground truncate flex-1">
                       {candidate.party}
@@ -486,10 +510,10 @@ export function ElectionCard({ election, viewMode = "grid" }: ElectionCardProps)
           </Link>
 
           {/* Candidate Comparison Wizard */}
-          {candidates && Array.isArray(candidates) && candidates.length >= 2 && (
+          {runningCandidates.length >= 2 && (
             <CandidateComparisonWizard 
               election={election} 
-              candidates={candidates as Candidate[]} 
+              candidates={runningCandidates as Candidate[]} 
             />
           )}
           
@@ -39,6 +39,7 @@ import {
   TrendingUp
 } from "lucide-react";
 import { CountdownTimer } from "./countdown-timer";
+import { CalendarFeedDialog } from "./calendar-feed-dialog";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { formatElectionDate, getUrgencyLevel, getUrgencyColor } from "@/lib/election-data";
@@ -411,6 +412,7 @@ export function EnhancedUserWatchlist() {
               <CardTitle>My Election Watchlist</CardTitle>
             </div>
             <div className="flex items-center gap-2">
+              <CalendarFeedDialog />
               <Badge variant="outline">
                 <BarChart3 className="h-3 w-3 mr-1" />
                 {analytics.totalItems || 0} items
@@ -1,9 +1,25 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLiveStream } from "@/hooks/use-live-stream";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { 
   Trophy, 
   Clock, 
@@ -11,7 +27,8 @@ import {
   Users, 
   RefreshCw,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  MapPin
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { Election, Candidate } from "@shared/schema";
@@ -21,6 +38,32 @@ interface LiveResultsTrackerProps {
   isLive?: boolean;
 }
 
+type VoteTypeCounts = Partial<Record<"election-day" | "early" | "mail" | "provisional" | "other", number>>;
+
+interface UnitCandidate {
+  candidateId: number;
+  votes: number;
+  votePercentage: number;
+  voteTypes: VoteTypeCounts;
+}
+
+interface ReportingUnitSummary {
+  key: string;
+  name: string;
+  level: string;
+  percentReporting: number;
+  totalVotes: number;
+  leader: { candidateId: number; votes: number; votePercentage: number } | null;
+  candidates: UnitCandidate[];
+}
+
+interface CountyDrillDown extends ReportingUnitSummary {
+  reportingPrecincts: number;
+  totalPrecincts: number;
+  voteTypes: VoteTypeCounts;
+  children: ReportingUnitSummary[];
+}
+
 interface LiveResults {
   electionId: number;
   candidates: Candidate[];
@@ -31,16 +74,59 @@ interface LiveResults {
   lastUpdated: string;
   refreshInterval: number;
   reportingPercent?: number;
+  voteTypes?: VoteTypeCounts;
+  counties?: ReportingUnitSummary[];
+  drillDown?: CountyDrillDown | null;
+  raceCall?: {
+    id: number;
+    candidateId: number;
+    callType: "projected" | "declared";
+    confidence: number;
+    rule: string;
+    reason: string | null;
+    calledAt: string;
+  } | null;
 }
 
+const VOTE_TYPE_LABELS: Array<[keyof VoteTypeCounts, string]> = [
+  ["election-day", "Election Day"],
+  ["early", "Early"],
+  ["mail", "Mail"],
+  ["provisional", "Provisional"],
+];
+
 export function LiveResultsTracker({ election, isLive = false }: LiveResultsTrackerProps) {
   const [autoRefresh, setAutoRefresh] = useState(isLive);
   const [lastRefresh, setLastRefresh] = useState(new Date());
+  const [selectedCounty, setSelectedCounty] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  // Results arrive over the live stream; polling is only the fallback
+  const { status: streamStatus } = useLiveStream({
+    electionIds: [election.id],
+    types: ['results', 'race_call', 'candidate_withdrawal', 'recount'],
+    enabled: autoRefresh,
+    onEvent: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/elections', election.id, 'live-results'] });
+    },
+    onResync: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/elections', election.id] });
+    },
+  });
+  const streaming = streamStatus === 'open';
 
   const { data: liveResults, isLoading, refetch } = useQuery({
-    queryKey: ['/api/elections', election.id, 'live-results'],
-    refetchInterval: autoRefresh ? 30000 : false, // 30 seconds for live elections
-    refetchIntervalInBackground: autoRefresh,
+    queryKey: ['/api/elections', election.id, 'live-results', { county: selectedCounty }],
+    queryFn: async () => {
+      const params = selectedCounty ? `?county=${encodeURIComponent(selectedCounty)}` : '';
+      const response = await fetch(`/api/elections/${election.id}/live-results${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch live results');
+      }
+      return response.json() as Promise<LiveResults>;
+    },
+    refetchInterval: autoRefresh && !streaming ? 30000 : false, // 30 seconds when the stream is unavailable
+    refetchIntervalInBackground: autoRefresh && !streaming,
     staleTime: 0, // Always fetch fresh data for live results
   }) as { data: LiveResults | undefined; isLoading: boolean; refetch: () => void };
 
@@ -85,8 +171,10 @@ export function LiveResultsTracker({ election, isLive = false }: LiveResultsTrac
     );
   }
 
-  const { candidates, hasResults, winner, totalVotes, reportingPercent } = liveResults;
+  const { candidates, hasResults, winner, totalVotes, reportingPercent, voteTypes, counties = [], drillDown, raceCall } = liveResults;
   const sortedCandidates = [...candidates].sort((a, b) => (b.votesReceived || 0) - (a.votesReceived || 0));
+  const candidateName = (id: number) => candidates.find(c => c.id === id)?.name ?? `Candidate ${id}`;
+  const hasVoteTypes = voteTypes && Object.keys(voteTypes).length > 0;
 
   return (
     <Card className="w-full">
@@ -115,7 +203,7 @@ export function LiveResultsTracker({ election, isLive = false }: LiveResultsTrac
               )}
             >
               <RefreshCw className={cn("w-3 h-3 mr-1", autoRefresh && "animate-spin")} />
-              Auto
+              {autoRefresh && streaming ? "Streaming" : "Auto"}
             </Button>
             
             <Button
@@ -215,6 +303,138 @@ export function LiveResultsTracker({ election, isLive = false }: LiveResultsTrac
           </div>
         )}
 
+        {/* Vote Type Breakdown */}
+        {hasResults && hasVoteTypes && (
+          <div className="flex flex-wrap gap-2 text-xs text-text-muted">
+            {VOTE_TYPE_LABELS.filter(([type]) => voteTypes![type] !== undefined).map(([type, label]) => (
+              <Badge key={type} variant="outline" className="font-normal">
+                {label}: {voteTypes![type]!.toLocaleString()}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {/* County Drill-down */}
+        {counties.length > 0 && (
+          <div className="space-y-3 pt-2 border-t border-border-subtle">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 text-sm font-medium">
+                <MapPin className="w-4 h-4" />
+                <span>Results by County</span>
+              </div>
+              <Select
+                value={selectedCounty ?? "all"}
+                onValueChange={(value) => setSelectedCounty(value === "all" ? null : value)}
+              >
+                <SelectTrigger className="h-8 w-48">
+                  <SelectValue placeholder="All counties" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All counties</SelectItem>
+                  {counties.map(county => (
+                    <SelectItem key={county.key} value={county.key}>
+                      {county.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {drillDown ? (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between text-xs text-text-muted">
+                  <span>{drillDown.name}: {drillDown.totalVotes.toLocaleString()} votes</span>
+                  <span>
+                    {drillDown.reportingPrecincts}/{drillDown.totalPrecincts} precincts ({drillDown.percentReporting}%)
+                  </span>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Candidate</TableHead>
+                      <TableHead className="text-right">Votes</TableHead>
+                      <TableHead className="text-right">%</TableHead>
+                      {VOTE_TYPE_LABELS.map(([type, label]) => (
+                        <TableHead key={type} className="text-right">{label}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {drillDown.candidates.map(row => (
+                      <TableRow key={row.candidateId}>
+                        <TableCell className="font-medium">{candidateName(row.candidateId)}</TableCell>
+                        <TableCell className="text-right">{row.votes.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.votePercentage.toFixed(1)}%</TableCell>
+                        {VOTE_TYPE_LABELS.map(([type]) => (
+                          <TableCell key={type} className="text-right text-text-muted">
+                            {row.voteTypes[type]?.toLocaleString() ?? "—"}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {drillDown.children.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-text-muted">Precincts</p>
+                    <div className="max-h-48 overflow-y-auto space-y-1">
+                      {drillDown.children.map(precinct => (
+                        <div key={precinct.key} className="flex items-center justify-between text-xs">
+                          <span>{precinct.name}</span>
+                          <span className="text-text-muted">
+                            {precinct.leader
+                              ? `${candidateName(precinct.leader.candidateId)} ${precinct.leader.votePercentage.toFixed(1)}%`
+                              : "No votes"}
+                            {precinct.percentReporting >= 100 ? "" : " · not reporting"}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {counties.map(county => (
+                  <button
+                    key={county.key}
+                    type="button"
+                    onClick={() => setSelectedCounty(county.key)}
+                    className="w-full flex items-center justify-between text-xs p-2 rounded hover:bg-surface-1/50"
+                  >
+                    <span className="font-medium">{county.name}</span>
+                    <span className="text-text-muted">
+                      {county.leader
+                        ? `${candidateName(county.leader.candidateId)} ${county.leader.votePercentage.toFixed(1)}%`
+                        : "No votes"}
+                      {" · "}{county.percentReporting}% in
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Projection */}
+        {raceCall && raceCall.callType === "projected" && (
+          <div className="mt-6 p-4 bg-blue-500/10 border border-blue-500/20 rounded-lg">
+            <div className="flex items-center space-x-2 text-blue-700">
+              <TrendingUp className="w-5 h-5" />
+              <div>
+                <p className="font-medium">
+                  Projected Winner: {candidateName(raceCall.candidateId)}
+                </p>
+                <p className="text-sm">
+                  {(raceCall.confidence * 100).toFixed(1)}% confidence
+                  {raceCall.reason ? ` — ${raceCall.reason}` : ""}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Winner Declaration */}
         {winner && (
           <div className="mt-6 p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
@@ -3,6 +3,49 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Calendar, Users, Building, MapPin, TrendingUp } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
+import ConfidenceMeter, { toneForParty } from "@/components/ConfidenceMeter";
+
+interface ChamberForecast {
+  chamber: "senate" | "house";
+  majority: number;
+  modeledSeats: number;
+  controlProbability: { D: number; R: number };
+  expectedSeats: { D: number; R: number; I: number };
+  democraticSeats: { p10: number; p50: number; p90: number };
+  tippingPoints: Array<{ raceId: number; title: string; state: string; probability: number }>;
+}
+
+interface UnsupportedChamber {
+  chamber: "senate" | "house";
+  seats: number;
+  modeledSeats: number;
+  heldOver: number;
+}
+
+interface RaceForecast {
+  runId: number;
+  electionId: number;
+  contenders: Array<{
+    candidateId: number;
+    name: string;
+    party: string;
+    winProbability: number;
+    meanShare: number;
+    p10: number | null;
+    p90: number | null;
+  }>;
+  tippingPointProbability: number | null;
+}
+
+interface MidtermForecast {
+  runId: number;
+  generatedAt: string;
+  modelVersion: string;
+  simulations: number;
+  chambers: ChamberForecast[] | null;
+  unsupportedChambers: UnsupportedChamber[];
+  races: RaceForecast[];
+}
 
 interface MidtermData {
   summary: {
@@ -33,6 +76,7 @@ interface MidtermData {
     governors: number;
     mayors: number;
   };
+  forecast: MidtermForecast | null;
 }
 
 export function Midterm2026Dashboard() {
@@ -72,7 +116,13 @@ export function Midterm2026Dashboard() {
     );
   }
 
-  const { summary, elections, categories } = midtermData;
+  const { summary, elections, categories, forecast } = midtermData;
+
+  // Closest races first: the favorite's win probability nearest a coin flip
+  const competitiveRaces = (forecast?.races ?? [])
+    .filter(race => race.contenders.length > 1)
+    .sort((a, b) => a.contenders[0].winProbability - b.contenders[0].winProbability)
+    .slice(0, 6);
 
   return (
     <div className="space-y-8">
@@ -163,6 +213,79 @@ export function Midterm2026Dashboard() {
         </Card>
       </div>
 
+      {/* Forecast */}
+      {forecast && forecast.chambers && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Chamber Control Forecast
+            </CardTitle>
+            <CardDescription>
+              {forecast.simulations.toLocaleString()} simulations · updated {new Date(forecast.generatedAt).toLocaleString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {forecast.chambers.map((chamber) => (
+                <div key={chamber.chamber} className="space-y-3">
+                  <h3 className="font-semibold capitalize text-gray-900 dark:text-white">
+                    {chamber.chamber} <span className="text-xs font-normal text-gray-500">({chamber.majority} for majority)</span>
+                  </h3>
+                  <ConfidenceMeter label="Democrats" tone="democratic" value={chamber.controlProbability.D * 100} />
+                  <ConfidenceMeter label="Republicans" tone="republican" value={chamber.controlProbability.R * 100} />
+                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                    Democratic seats: {chamber.democraticSeats.p50} (80% range {chamber.democraticSeats.p10}–{chamber.democraticSeats.p90}) · {chamber.modeledSeats} races modeled
+                  </div>
+                  {chamber.tippingPoints.length > 0 && (
+                    <div>
+                      <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Likeliest tipping-point races</div>
+                      <div className="space-y-1">
+                        {chamber.tippingPoints.slice(0, 5).map((tip) => (
+                          <div key={tip.raceId} className="flex justify-between text-xs">
+                            <span className="truncate">{tip.title}</span>
+                            <span className="font-semibold">{Math.round(tip.probability * 100)}%</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+              {forecast.unsupportedChambers.map((chamber) => (
+                <div key={chamber.chamber} className="space-y-1">
+                  <h3 className="font-semibold capitalize text-gray-900 dark:text-white">{chamber.chamber}</h3>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                    Not forecast yet - {chamber.modeledSeats} of {chamber.seats - chamber.heldOver} seats up have race data
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {competitiveRaces.length > 0 && (
+              <>
+                <Separator className="my-6" />
+                <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Most Competitive Races</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {competitiveRaces.map((race) => (
+                    <div key={race.electionId} className="space-y-1">
+                      {race.contenders.slice(0, 2).map((contender) => (
+                        <ConfidenceMeter
+                          key={contender.candidateId}
+                          label={contender.name}
+                          tone={toneForParty(contender.party)}
+                          value={contender.winProbability * 100}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Key Elections */}
       <Card>
         <CardHeader>
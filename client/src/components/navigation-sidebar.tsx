@@ -6,6 +6,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { NotificationInbox } from "@/components/notification-inbox";
 import { useState } from "react";
 
 const navigationSections = [
@@ -27,6 +28,12 @@ const navigationSections = [
         icon: Users, 
         tooltip: "View current Congress members, track voting records, and monitor legislative activity"
       },
+      { 
+        label: "My Ballot", 
+        path: "/ballot", 
+        icon: Package, 
+        tooltip: "Build your sample ballot for your address, mark your picks and print a cheat sheet"
+      },
     ]
   },
   {
@@ -136,7 +143,8 @@ export function NavigationSidebar() {
           <div className="space-y-2">
             <div className="flex items-center gap-2 px-3 py-2 text-sm">
               <User className="h-4 w-4" />
-              <span className="truncate">{user?.email}</span>
+              <span className="truncate flex-1">{user?.email}</span>
+              <NotificationInbox />
             </div>
             <Button 
               variant="ghost" 
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Bell, Archive, CheckCheck } from "lucide-react";
+
+interface InboxMessage {
+  id: number;
+  title: string;
+  body: string;
+  url: string | null;
+  category: string | null;
+  priority: string | null;
+  readAt: string | null;
+  archivedAt: string | null;
+  createdAt: string;
+}
+
+type InboxView = "inbox" | "unread" | "archived";
+
+function timeAgo(value: string): string {
+  const minutes = Math.round((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(value).toLocaleDateString();
+}
+
+function invalidateInbox() {
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/inbox") });
+}
+
+/**
+ * Bell with the unread count that opens the in-app notification inbox
+ */
+export function NotificationInbox() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [view, setView] = useState<InboxView>("inbox");
+
+  const { data: unread } = useQuery<{ unread: number }>({
+    queryKey: ["/api/inbox/unread-count"],
+    refetchInterval: 60 * 1000,
+  });
+
+  const { data: messages = [], isLoading } = useQuery<InboxMessage[]>({
+    queryKey: [`/api/inbox?view=${view}`],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const readMutation = useMutation({
+    mutationFn: (ids?: number[]) => apiRequest("POST", "/api/inbox/read", ids ? { ids } : {}),
+    onSuccess: invalidateInbox,
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: (ids: number[]) => apiRequest("POST", "/api/inbox/archive", { ids }),
+    onSuccess: invalidateInbox,
+  });
+
+  const openMessage = (message: InboxMessage) => {
+    if (!message.readAt) readMutation.mutate([message.id]);
+    if (message.url) {
+      setOpen(false);
+      setLocation(message.url);
+    }
+  };
+
+  const unreadCount = unread?.unread ?? 0;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label={`Notifications (${unreadCount} unread)`} data-testid="button-notification-inbox">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <Badge variant="destructive" className="absolute -top-1 -right-1 h-4 min-w-4 px-1 text-[10px] leading-none">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-semibold">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0 || readMutation.isPending}
+            onClick={() => readMutation.mutate(undefined)}
+            data-testid="button-inbox-read-all"
+          >
+            <CheckCheck className="h-3 w-3 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+        <Tabs value={view} onValueChange={(value) => setView(value as InboxView)} className="px-3 pt-2">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="inbox">All</TabsTrigger>
+            <TabsTrigger value="unread">Unread</TabsTrigger>
+            <TabsTrigger value="archived">Archived</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <ScrollArea className="h-80">
+          {isLoading ? (
+            <p className="p-4 text-sm text-muted-foreground">Loading…</p>
+          ) : messages.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">
+              {view === "archived" ? "No archived notifications." : "You're all caught up."}
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {messages.map((message) => (
+                <li
+                  key={message.id}
+                  className={`flex gap-2 px-3 py-2 ${message.readAt ? "" : "bg-muted/50"}`}
+                  data-testid={`inbox-message-${message.id}`}
+                >
+                  <button type="button" className="flex-1 text-left" onClick={() => openMessage(message)}>
+                    <p className={`text-sm ${message.readAt ? "" : "font-semibold"}`}>{message.title}</p>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{message.body}</p>
+                    <p className="text-[11px] text-muted-foreground mt-1">{timeAgo(message.createdAt)}</p>
+                  </button>
+                  {!message.archivedAt && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      aria-label="Archive"
+                      disabled={archiveMutation.isPending}
+                      onClick={() => archiveMutation.mutate([message.id])}
+                    >
+                      <Archive className="h-3 w-3" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -12,7 +12,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { Mail, Phone, Bell, MapPin, Users, Calendar, CheckCircle, AlertCircle } from 'lucide-react';
+import { Mail, Phone, Bell, MapPin, Users, Calendar, CheckCircle, AlertCircle, FileText } from 'lucide-react';
 
 interface SubscriptionWizardProps {
   isOpen: boolean;
@@ -63,6 +63,13 @@ const SUBSCRIPTION_TYPES = [
     description: 'Registration and voting deadlines',
     icon: Calendar,
     urgency: 'high'
+  },
+  {
+    id: 'legislation_alerts',
+    name: 'Legislation Alerts',
+    description: 'Progress on bills you watch',
+    icon: FileText,
+    urgency: 'medium'
   }
 ];
 
@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Megaphone } from "lucide-react";
+
+interface RaceOutsideSpending {
+  electionId: number;
+  cycle: number;
+  total: number;
+  support: number;
+  oppose: number;
+  noticeTotal: number;
+  lastExpenditureDate: string | null;
+  byCandidate: Array<{ candidateId: number | null; fecCandidateId: string | null; name: string | null; support: number; oppose: number; total: number }>;
+  bySpender: Array<{ committeeId: string; name: string; support: number; oppose: number; total: number; expenditures: number }>;
+}
+
+const money = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+/**
+ * Independent expenditures by super PACs and other outside groups in a
+ * federal race, for and against each candidate; renders nothing until
+ * any have been reported
+ */
+export function OutsideSpendingCard({ electionId }: { electionId: number }) {
+  const { data } = useQuery<RaceOutsideSpending>({
+    queryKey: [`/api/finance/elections/${electionId}/outside-spending`],
+    retry: false,
+  });
+
+  if (!data || data.total === 0) return null;
+
+  return (
+    <Card data-testid="outside-spending">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Megaphone className="h-5 w-5" />
+          Outside Spending
+        </CardTitle>
+        <CardDescription>
+          {money.format(data.total)} in independent expenditures
+          {data.lastExpenditureDate && <> · through {new Date(data.lastExpenditureDate).toLocaleDateString(undefined, { timeZone: "UTC" })}</>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {data.byCandidate.map((candidate) => (
+            <div key={candidate.candidateId ?? candidate.fecCandidateId ?? candidate.name} className="flex flex-wrap items-baseline justify-between gap-2 text-sm">
+              <span className="font-medium">{candidate.name ?? "Unspecified candidate"}</span>
+              <span className="flex gap-1">
+                <Badge variant="outline">For {money.format(candidate.support)}</Badge>
+                <Badge variant="outline">Against {money.format(candidate.oppose)}</Badge>
+              </span>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs font-medium uppercase text-muted-foreground">Top spenders</p>
+          {data.bySpender.slice(0, 5).map((spender) => (
+            <div key={spender.committeeId} className="flex justify-between gap-2 text-sm">
+              <span>{spender.name}</span>
+              <span>{money.format(spender.total)}</span>
+            </div>
+          ))}
+        </div>
+        {data.noticeTotal > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Includes {money.format(data.noticeTotal)} from 24- and 48-hour notices not yet in a regular filing.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
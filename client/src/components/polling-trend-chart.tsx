@@ -1,5 +1,5 @@
 import { useState, useMemo } from "react";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area } from "recharts";
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area } from "recharts";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -8,26 +8,17 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TrendingUp, TrendingDown, Minus, Calendar, Target, BarChart3 } from "lucide-react";
 import { format, parseISO, subDays } from "date-fns";
 import type { Candidate } from "@shared/schema";
-
-interface PollingDataPoint {
-  date: string;
-  candidateId: number;
-  candidateName: string;
-  party: string;
-  support: number;
-  source: string;
-  sampleSize?: number;
-  marginOfError?: number;
-}
+import type { AverageSeriesPoint, PollingDataPoint } from "@/hooks/use-polling-trends";
 
 interface PollingTrendChartProps {
   electionId: number;
   candidates: Candidate[];
   pollingData: PollingDataPoint[];
+  average?: AverageSeriesPoint[];
   className?: string;
 }
 
-export function PollingTrendChart({ electionId, candidates, pollingData, className }: PollingTrendChartProps) {
+export function PollingTrendChart({ electionId, candidates, pollingData, average = [], className }: PollingTrendChartProps) {
   const [timeRange, setTimeRange] = useState<string>("30");
   const [chartType, setChartType] = useState<"line" | "area">("line");
   const [selectedCandidates, setSelectedCandidates] = useState<number[]>(
@@ -42,21 +33,42 @@ export function PollingTrendChart({ electionId, candidates, pollingData, classNa
     );
   }, [pollingData, timeRange, selectedCandidates]);
 
+  const filteredAverage = useMemo(() => {
+    const cutoffDate = subDays(new Date(), parseInt(timeRange));
+    return average.filter(point =>
+      parseISO(point.date) >= cutoffDate &&
+      selectedCandidates.includes(point.candidateId)
+    );
+  }, [average, timeRange, selectedCandidates]);
+
+  // Without an average series, fall back to plotting the raw polls as the line
+  const hasAverage = filteredAverage.length > 0;
+
   const chartData = useMemo(() => {
     const dateGroups: { [date: string]: any } = {};
-    
-    filteredData.forEach(point => {
-      const dateKey = format(parseISO(point.date), "MMM dd");
+    const groupFor = (date: string) => {
+      const dateKey = format(parseISO(date), "MMM dd");
       if (!dateGroups[dateKey]) {
-        dateGroups[dateKey] = { date: dateKey, fullDate: point.date };
+        dateGroups[dateKey] = { date: dateKey, fullDate: date };
       }
-      dateGroups[dateKey][`${point.candidateName}`] = point.support;
+      return dateGroups[dateKey];
+    };
+    
+    filteredData.forEach(point => {
+      const group = groupFor(point.date);
+      group[hasAverage ? `${point.candidateName} polls` : point.candidateName] = point.support;
+    });
+
+    filteredAverage.forEach(point => {
+      const group = groupFor(point.date);
+      group[point.candidateName] = point.average;
+      group[`${point.candidateName} range`] = [point.lower, point.upper];
     });
 
     return Object.values(dateGroups).sort((a: any, b: any) => 
       new Date(a.fullDate).getTime() - new Date(b.fullDate).getTime()
     );
-  }, [filteredData]);
+  }, [filteredData, filteredAverage, hasAverage]);
 
   const candidateColors = useMemo(() => {
     const colors = ["#3b82f6", "#ef4444", "#10b981", "#f59e0b", "#8b5cf6", "#f97316"];
@@ -74,6 +86,15 @@ export function PollingTrendChart({ electionId, candidates, pollingData, classNa
   }, [candidates]);
 
   const getTrendDirection = (candidateName: string) => {
+    if (hasAverage) {
+      const series = filteredAverage.filter(d => d.candidateName === candidateName);
+      if (series.length < 2) return "stable";
+      const change = series[series.length - 1].average - series[0].average;
+      if (change > 1) return "up";
+      if (change < -1) return "down";
+      return "stable";
+    }
+
     const candidateData = filteredData
       .filter(d => d.candidateName === candidateName)
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
@@ -100,7 +121,7 @@ export function PollingTrendChart({ electionId, candidates, pollingData, classNa
     );
   };
 
-  if (!pollingData.length) {
+  if (!pollingData.length && !average.length) {
     return (
       <Card className={className}>
         <CardHeader>
@@ -132,7 +153,7 @@ export function PollingTrendChart({ electionId, candidates, pollingData, classNa
               Polling Trends
             </CardTitle>
             <CardDescription>
-              Track candidate support over time from verified polling sources
+              Weighted polling average with 95% confidence bands; dots are individual polls
             </CardDescription>
           </div>
           <div className="flex items-center gap-2">
@@ -195,7 +216,7 @@ export function PollingTrendChart({ electionId, candidates, pollingData, classNa
           <TabsContent value="line" className="space-y-4">
             <div className="h-80">
               <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={chartData}>
+                <ComposedChart data={chartData}>
                   <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
                   <XAxis 
                     dataKey="date" 
@@ -215,11 +236,38 @@ export function PollingTrendChart({ electionId, candidates, pollingData, classNa
                       borderRadius: '6px'
                     }}
                     formatter={(value: any, name: string) => [
-                      `${value}%`, 
+                      Array.isArray(value) ? `${value[0]}% – ${value[1]}%` : `${value}%`,
                       name
                     ]}
                   />
                   <Legend />
+                  {hasAverage && candidates
+                    .filter(c => selectedCandidates.includes(c.id))
+                    .map(candidate => (
+                    <Area
+                      key={`${candidate.id}-range`}
+                      type="monotone"
+                      dataKey={`${candidate.name} range`}
+                      stroke="none"
+                      fill={candidateColors[candidate.name]}
+                      fillOpacity={0.15}
+                      connectNulls
+                      legendType="none"
+                    />
+                  ))}
+                  {hasAverage && candidates
+                    .filter(c => selectedCandidates.includes(c.id))
+                    .map(candidate => (
+                    <Line
+                      key={`${candidate.id}-polls`}
+                      dataKey={`${candidate.name} polls`}
+                      stroke="none"
+                      dot={{ fill: candidateColors[candidate.name], fillOpacity: 0.5, r: 3 }}
+                      activeDot={{ r: 5 }}
+                      isAnimationActive={false}
+                      legendType="none"
+                    />
+                  ))}
                   {candidates
                     .filter(c => selectedCandidates.includes(c.id))
                     .map(candidate => (
@@ -229,11 +277,12 @@ export function PollingTrendChart({ electionId, candidates, pollingData, classNa
                       dataKey={candidate.name}
                       stroke={candidateColors[candidate.name]}
                       strokeWidth={2}
-                      dot={{ fill: candidateColors[candidate.name], strokeWidth: 2, r: 4 }}
+                      connectNulls
+                      dot={hasAverage ? false : { fill: candidateColors[candidate.name], strokeWidth: 2, r: 4 }}
                       activeDot={{ r: 6, stroke: candidateColors[candidate.name], strokeWidth: 2 }}
                     />
                   ))}
-                </LineChart>
+                </ComposedChart>
               </ResponsiveContainer>
             </div>
           </TabsContent>
@@ -0,0 +1,87 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { DollarSign } from "lucide-react";
+
+interface RaceMoneyComparison {
+  electionId: number;
+  cycle: number;
+  totalReceipts: number;
+  candidates: Array<{
+    candidateId: number;
+    name: string;
+    party: string;
+    coverageEndDate: string | null;
+    receipts: number;
+    disbursements: number;
+    cashOnHand: number;
+    receiptsShare: number | null;
+    rank: number;
+    smallDonorShare: number | null;
+    inStateShare: number | null;
+    selfFundingShare: number | null;
+  }>;
+  unlinked: Array<{ candidateId: number; name: string }>;
+}
+
+const money = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+function percent(value: number | null) {
+  return value == null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Receipts, spending, cash on hand and donor mix for a federal race's
+ * candidates from FEC filings; renders nothing until FEC data is loaded
+ */
+export function RaceMoneyComparison({ electionId }: { electionId: number }) {
+  const { data } = useQuery<RaceMoneyComparison>({
+    queryKey: [`/api/finance/elections/${electionId}/money`],
+    retry: false,
+  });
+
+  if (!data || data.candidates.length === 0) return null;
+
+  return (
+    <Card data-testid="race-money-comparison">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          Campaign Money
+        </CardTitle>
+        <CardDescription>
+          {data.cycle} cycle FEC filings · {money.format(data.totalReceipts)} raised in total
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.candidates.map((candidate) => (
+          <div key={candidate.candidateId} className="space-y-1.5">
+            <div className="flex flex-wrap items-baseline justify-between gap-2 text-sm">
+              <span className="font-medium">
+                {candidate.name} <span className="text-muted-foreground">({candidate.party})</span>
+              </span>
+              <span>{money.format(candidate.receipts)} raised</span>
+            </div>
+            <Progress value={(candidate.receiptsShare ?? 0) * 100} className="h-2" />
+            <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+              <span>Spent {money.format(candidate.disbursements)}</span>
+              <span>· Cash on hand {money.format(candidate.cashOnHand)}</span>
+              {candidate.coverageEndDate && <span>· through {new Date(candidate.coverageEndDate).toLocaleDateString(undefined, { timeZone: "UTC" })}</span>}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              <Badge variant="outline">Small donors {percent(candidate.smallDonorShare)}</Badge>
+              <Badge variant="outline">In-state {percent(candidate.inStateShare)}</Badge>
+              <Badge variant="outline">Self-funded {percent(candidate.selfFundingShare)}</Badge>
+            </div>
+          </div>
+        ))}
+        {data.unlinked.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            No FEC filings matched for {data.unlinked.map((c) => c.name).join(", ")}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowRight, ListOrdered, Trophy } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface RcvTally {
+  candidate: string;
+  candidateId: number | null;
+  votes: number;
+  percentage: number;
+  status: "continuing" | "elected" | "eliminated";
+}
+
+interface RcvTransfer {
+  from: string;
+  to: string | null;
+  votes: number;
+}
+
+interface RcvRound {
+  round: number;
+  tallies: RcvTally[];
+  continuingVotes: number;
+  threshold: number;
+  exhausted: number;
+  exhaustedThisRound: number;
+  elected: string[];
+  eliminated: string[];
+  transfers: RcvTransfer[];
+  tieBreak: { candidates: string[]; method: string; loser: string } | null;
+}
+
+export interface RcvTabulationView {
+  id: number;
+  contestName: string;
+  status: "preliminary" | "final";
+  method: "irv" | "stv";
+  seats: number;
+  totalBallots: number;
+  undervotes: number;
+  exhaustedBallots: string;
+  winners: Array<{ name: string; candidateId: number | null }>;
+  rounds: RcvRound[];
+  tabulatedAt: string;
+}
+
+interface RcvRoundsTableProps {
+  tabulation: RcvTabulationView;
+}
+
+const formatVotes = (votes: number) =>
+  Number.isInteger(votes) ? votes.toLocaleString() : votes.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export function RcvRoundsTable({ tabulation }: RcvRoundsTableProps) {
+  const { rounds } = tabulation;
+  const candidateOrder = rounds[0]?.tallies.map(t => t.candidate) ?? [];
+  const winners = new Set(tabulation.winners.map(w => w.name));
+
+  const cell = (round: RcvRound, candidate: string) => round.tallies.find(t => t.candidate === candidate);
+
+  return (
+    <Card data-testid="rcv-rounds-table">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" />
+          Ranked-Choice Tabulation
+          <Badge variant={tabulation.status === "final" ? "default" : "outline"}>
+            {tabulation.status === "final" ? "Final" : "Preliminary"}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          {tabulation.contestName} · {tabulation.totalBallots.toLocaleString()} ballots ·{" "}
+          {rounds.length} round{rounds.length === 1 ? "" : "s"}
+          {tabulation.seats > 1 ? ` · ${tabulation.seats} seats` : ""}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Candidate</TableHead>
+                {rounds.map(round => (
+                  <TableHead key={round.round} className="text-right">Round {round.round}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {candidateOrder.map(candidate => (
+                <TableRow key={candidate}>
+                  <TableCell className="font-medium">
+                    <span className="flex items-center gap-1">
+                      {candidate}
+                      {winners.has(candidate) && <Trophy className="h-4 w-4 text-green-600" />}
+                    </span>
+                  </TableCell>
+                  {rounds.map(round => {
+                    const tally = cell(round, candidate);
+                    return (
+                      <TableCell
+                        key={round.round}
+                        className={cn(
+                          "text-right whitespace-nowrap",
+                          tally?.status === "eliminated" && "text-red-600 line-through",
+                          tally?.status === "elected" && "font-semibold text-green-600"
+                        )}
+                      >
+                        {tally ? (
+                          <>
+                            {formatVotes(tally.votes)}
+                            <span className="block text-xs text-gray-500">{tally.percentage.toFixed(1)}%</span>
+                          </>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell className="text-gray-500">Exhausted</TableCell>
+                {rounds.map(round => (
+                  <TableCell key={round.round} className="text-right text-gray-500">
+                    {formatVotes(round.exhausted)}
+                  </TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell className="text-gray-500">Threshold</TableCell>
+                {rounds.map(round => (
+                  <TableCell key={round.round} className="text-right text-gray-500">
+                    {round.threshold.toLocaleString()}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold">Transfers</h4>
+          {rounds.filter(round => round.transfers.length > 0).map(round => {
+            const sources = Array.from(new Set(round.transfers.map(t => t.from)));
+            return (
+              <div key={round.round} className="space-y-1 text-sm" data-testid={`rcv-transfers-round-${round.round}`}>
+                <p className="font-medium">
+                  After round {round.round}
+                  {round.tieBreak && (
+                    <span className="ml-2 text-xs text-gray-500">
+                      (tie broken by {round.tieBreak.method.replace("_", " ")}: {round.tieBreak.loser} eliminated)
+                    </span>
+                  )}
+                </p>
+                {sources.map(source => (
+                  <div key={source} className="pl-3">
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {source} {round.elected.includes(source) ? "surplus" : "eliminated"}
+                    </span>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 pl-3 text-xs text-gray-500">
+                      {round.transfers.filter(t => t.from === source).map(transfer => (
+                        <span key={transfer.to ?? "exhausted"} className="flex items-center gap-1">
+                          <ArrowRight className="h-3 w-3" />
+                          {transfer.to ?? "Exhausted"} {formatVotes(transfer.votes)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+          {rounds.every(round => round.transfers.length === 0) && (
+            <p className="text-sm text-gray-500">Decided on first choices - no transfers were needed.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,7 +11,9 @@ import {
   Star,
   Users,
   ArrowRight,
-  Target
+  Target,
+  FileText,
+  Plus
 } from "lucide-react";
 import { RecommendationCard } from "./recommendation-card";
 import { useAuth } from "@/hooks/use-auth";
@@ -98,6 +100,23 @@ export function RecommendationSection({
     }
   };
 
+  const watchMeasure = async (measureId: number) => {
+    try {
+      await apiRequest('POST', `/api/measures/${measureId}/watch`, { addedVia: 'recommendation' });
+      await refetch();
+      toast({
+        title: "Added to watchlist",
+        description: "We'll keep you posted on this ballot measure",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add ballot measure to watchlist",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Get recommendation type stats
   const getTypeStats = (recommendations: any[]) => {
     const stats = recommendations.reduce((acc, rec) => {
@@ -156,6 +175,7 @@ export function RecommendationSection({
   }
 
   const recommendations = recommendationsData?.recommendations || [];
+  const measureRecommendations: Array<{ measure: any; score: number; reason: string }> = recommendationsData?.measures || [];
   const totalCount = recommendationsData?.totalCount || 0;
   const typeStats = getTypeStats(recommendations);
 
@@ -272,6 +292,29 @@ export function RecommendationSection({
             )}
           </div>
         )}
+
+        {!isLoading && measureRecommendations.length > 0 && (
+          <div className="space-y-2 pt-4 mt-4 border-t">
+            <h4 className="flex items-center gap-2 text-sm font-medium">
+              <FileText className="h-4 w-4" />
+              Ballot measures on your ballot
+            </h4>
+            {measureRecommendations.map(({ measure, reason }) => (
+              <div key={measure.id} className="flex items-start justify-between gap-2 rounded-lg border p-3" data-testid={`measure-recommendation-${measure.id}`}>
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">
+                    {measure.measureNumber ? `${measure.measureNumber}: ` : ''}{measure.title}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{reason}</div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => watchMeasure(measure.id)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Watch
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -2,11 +2,13 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Heart, Clock, MapPin, Trash2 } from "lucide-react";
+import { Heart, Clock, MapPin, Trash2, FileText } from "lucide-react";
 import { CountdownTimer } from "./countdown-timer";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { formatElectionDate, getUrgencyLevel, getUrgencyColor } from "@/lib/election-data";
+import { apiRequest } from "@/lib/queryClient";
+import type { BallotMeasure } from "./ballot-measure-card";
 
 export function UserWatchlist() {
   const { user, token } = useAuth();
@@ -30,6 +32,28 @@ export function UserWatchlist() {
     },
   });
 
+  const { data: watchedMeasures = [], refetch: refetchMeasures } = useQuery<Array<{ id: number; measure: BallotMeasure }>>({
+    queryKey: ['/api/measures/watchlist'],
+    enabled: !!user,
+  });
+
+  const removeMeasure = async (measureId: number) => {
+    try {
+      await apiRequest('DELETE', `/api/measures/${measureId}/watch`);
+      toast({
+        title: "Removed from watchlist",
+        description: "Ballot measure removed from your watchlist",
+      });
+      refetchMeasures();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to remove ballot measure from watchlist",
+        variant: "destructive",
+      });
+    }
+  };
+
   const removeFromWatchlist = async (electionId: number) => {
     try {
       const response = await fetch(`/api/watchlist/${electionId}`, {
@@ -96,10 +120,11 @@ export function UserWatchlist() {
         </CardTitle>
         <CardDescription>
           {watchlist.length} saved election{watchlist.length !== 1 ? 's' : ''}
+          {watchedMeasures.length > 0 && `, ${watchedMeasures.length} ballot measure${watchedMeasures.length !== 1 ? 's' : ''}`}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        {watchlist.length === 0 ? (
+        {watchlist.length === 0 && watchedMeasures.length === 0 ? (
           <div className="text-sm text-muted-foreground text-center py-4">
             No elections saved yet. Click the heart icon on any election to add it to your watchlist.
           </div>
@@ -148,6 +173,41 @@ export function UserWatchlist() {
             );
           })
         )}
+        {watchedMeasures.map(({ id, measure }) => (
+          <div key={`measure-${id}`} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-start justify-between">
+              <div className="space-y-1">
+                <h4 className="font-medium text-sm">
+                  {measure.measureNumber ? `${measure.measureNumber}: ` : ''}{measure.title}
+                </h4>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <MapPin className="h-3 w-3" />
+                  {measure.jurisdiction || measure.state}
+                </div>
+                <Badge variant="outline" className="text-xs">
+                  <FileText className="h-3 w-3 mr-1" />
+                  Ballot measure
+                </Badge>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeMeasure(measure.id)}
+                className="text-red-500 hover:text-red-700"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="pt-2">
+              <CountdownTimer
+                targetDate={measure.electionDate}
+                size="sm"
+                className="text-xs"
+              />
+            </div>
+          </div>
+        ))}
       </CardContent>
     </Card>
   );
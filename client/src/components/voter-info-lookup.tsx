@@ -7,31 +7,56 @@ import { Search, MapPin, Loader2, AlertCircle } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 
-interface VoterInfoResult {
+interface BallotDistrict {
+  type: 'congressional' | 'state_upper' | 'state_lower' | 'county';
+  code: string;
+  name: string;
+}
+
+interface BallotRace {
   election: {
     id: number;
     title: string;
+    subtitle?: string | null;
     date: string;
     location: string;
     state: string;
   };
-  contests: Array<{
-    office: string;
-    candidates: Array<{
-      name: string;
-      party: string;
-      website?: string;
-    }>;
+  matchedBy: 'statewide' | 'district' | 'county' | 'city' | 'unresolved';
+  district: string | null;
+  candidates: Array<{
+    id: number;
+    name: string;
+    party: string;
+    website?: string | null;
   }>;
 }
 
+interface VoterInfoResult {
+  location: {
+    city: string;
+    county: string;
+    state: string;
+  };
+  districts: BallotDistrict[];
+  races: BallotRace[];
+}
+
+const MATCH_LABELS: Record<BallotRace['matchedBy'], string> = {
+  statewide: 'Statewide',
+  district: 'Your district',
+  county: 'Your county',
+  city: 'Your city',
+  unresolved: 'District not verified'
+};
+
 export function VoterInfoLookup() {
   const [address, setAddress] = useState("");
   const [voterInfo, setVoterInfo] = useState<VoterInfoResult | null>(null);
 
   const voterInfoMutation = useMutation({
     mutationFn: async (searchAddress: string) => {
-      const response = await fetch(`/api/voter-info?address=${encodeURIComponent(searchAddress)}`);
+      const response = await fetch(`/api/elections-by-location?address=${encodeURIComponent(searchAddress)}`);
       if (!response.ok) {
         throw new Error('Failed to fetch voter information');
       }
@@ -98,27 +123,46 @@ export function VoterInfoLookup() {
           </div>
         )}
 
-        {voterInfo && voterInfo.election && (
+        {voterInfo && (
           <div className="space-y-4">
             <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-              <h3 className="font-semibold text-blue-900 mb-2">{voterInfo.election.title || 'Election Information'}</h3>
-              <div className="text-sm text-blue-700">
-                <p>Date: {voterInfo.election.date ? new Date(voterInfo.election.date).toLocaleDateString() : 'Date TBD'}</p>
-                <p>Location: {voterInfo.election.location || 'Location TBD'}</p>
-                <p>State: {voterInfo.election.state || 'State TBD'}</p>
-              </div>
+              <h3 className="font-semibold text-blue-900 mb-2">
+                {[voterInfo.location.city, voterInfo.location.county, voterInfo.location.state].filter(Boolean).join(', ')}
+              </h3>
+              {voterInfo.districts.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {voterInfo.districts.map((district) => (
+                    <Badge key={`${district.type}-${district.code}`} variant="secondary">
+                      {district.name}
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-blue-700">District boundaries are not available for this address yet.</p>
+              )}
             </div>
 
-            {voterInfo.contests && voterInfo.contests.length > 0 && (
+            {voterInfo.races.length > 0 ? (
               <div>
-                <h4 className="font-semibold mb-3">Contests on Your Ballot</h4>
+                <h4 className="font-semibold mb-3">Races on Your Ballot</h4>
                 <div className="space-y-3">
-                  {voterInfo.contests.map((contest, index) => (
-                    <div key={index} className="border rounded-lg p-3">
-                      <h5 className="font-medium mb-2">{contest.office}</h5>
+                  {voterInfo.races.map((race) => (
+                    <div key={race.election.id} className="border rounded-lg p-3">
+                      <div className="flex items-start justify-between gap-2 mb-2">
+                        <div>
+                          <h5 className="font-medium">{race.election.title}</h5>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(race.election.date).toLocaleDateString()}
+                            {race.election.subtitle ? ` · ${race.election.subtitle}` : ''}
+                          </p>
+                        </div>
+                        <Badge variant={race.matchedBy === 'unresolved' ? 'outline' : 'secondary'}>
+                          {race.district && race.matchedBy === 'district' ? race.district : MATCH_LABELS[race.matchedBy]}
+                        </Badge>
+                      </div>
                       <div className="space-y-2">
-                        {contest.candidates.map((candidate, candidateIndex) => (
-                          <div key={candidateIndex} className="flex items-center justify-between">
+                        {race.candidates.map((candidate) => (
+                          <div key={candidate.id} className="flex items-center justify-between">
                             <div className="flex items-center gap-2">
                               <span>{candidate.name}</span>
                               <Badge variant="outline">{candidate.party}</Badge>
@@ -140,6 +184,8 @@ export function VoterInfoLookup() {
                   ))}
                 </div>
               </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No upcoming races found for this address.</p>
             )}
           </div>
         )}
@@ -0,0 +1,144 @@
+import { useQueries } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Landmark } from "lucide-react";
+
+type VotePosition = 'yea' | 'nay' | 'present' | 'not_voting';
+
+interface KeyVote {
+  rollCallId: number;
+  chamber: string;
+  rollCallNumber: number;
+  voteDate: string | null;
+  question: string | null;
+  description: string | null;
+  bill: string | null;
+  result: string | null;
+  position: VotePosition;
+  partyPosition: 'yea' | 'nay' | null;
+  withParty: boolean | null;
+}
+
+interface VotingRecord {
+  candidateId: number;
+  bioguideId: string | null;
+  member: { name: string; chamber: string; party: string | null; state: string } | null;
+  metrics: {
+    totalVotes: number;
+    missedVotes: number;
+    missedVoteRate: number | null;
+    partyUnityVotes: number;
+    partyLinePct: number | null;
+  } | null;
+  bipartisan: {
+    sponsoredBills: number;
+    cosponsoredBills: number;
+    score: number | null;
+  } | null;
+  keyVotes: Record<string, KeyVote[]>;
+}
+
+const POSITION_LABELS: Record<VotePosition, string> = {
+  yea: "Yea",
+  nay: "Nay",
+  present: "Present",
+  not_voting: "Did not vote",
+};
+
+function percent(value: number | null | undefined) {
+  return value == null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+interface VotingRecordComparisonProps {
+  candidates: Array<{ id: number; name: string; isIncumbent?: boolean }>;
+  selectedCategories: string[];
+}
+
+/**
+ * Side-by-side congressional voting records for the incumbents in the
+ * comparison; renders nothing when none of them has served in Congress
+ */
+export function VotingRecordComparison({ candidates, selectedCategories }: VotingRecordComparisonProps) {
+  // Custom candidates added in the wizard use ids from 999000 up
+  const incumbents = candidates.filter((c) => c.isIncumbent && c.id < 999000);
+
+  const results = useQueries({
+    queries: incumbents.map((candidate) => ({
+      queryKey: [`/api/candidates/${candidate.id}/voting-record`],
+      staleTime: 10 * 60 * 1000,
+    })),
+  });
+
+  const records = incumbents
+    .map((candidate, index) => ({ candidate, record: results[index]?.data as VotingRecord | undefined }))
+    .filter((entry) => entry.record?.member && entry.record.metrics);
+
+  if (records.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Landmark className="w-4 h-4" />
+          Congressional Voting Record
+        </CardTitle>
+        <CardDescription>
+          Party-line share counts votes where most Democrats and most Republicans voted on opposite sides.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {records.map(({ candidate, record }) => {
+            const keyVotes = selectedCategories
+              .flatMap((category) => (record!.keyVotes[category] ?? []).map((vote) => ({ category, vote })));
+            return (
+              <div key={candidate.id} className="space-y-3" data-testid={`voting-record-${candidate.id}`}>
+                <div>
+                  <h5 className="font-medium text-app-fg">{candidate.name}</h5>
+                  <p className="text-xs text-text-muted">{record!.member!.chamber} · {record!.metrics!.totalVotes.toLocaleString()} roll calls</p>
+                </div>
+
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span>Votes with party:</span>
+                    <span className="font-medium">{percent(record!.metrics!.partyLinePct)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Missed votes:</span>
+                    <span className="font-medium">
+                      {percent(record!.metrics!.missedVoteRate)} ({record!.metrics!.missedVotes})
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Bipartisan index:</span>
+                    <span className="font-medium">{percent(record!.bipartisan?.score)}</span>
+                  </div>
+                </div>
+
+                {keyVotes.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-xs font-medium">Key votes</p>
+                    {keyVotes.slice(0, 6).map(({ category, vote }) => (
+                      <div key={vote.rollCallId} className="rounded border p-2 text-xs space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <Badge variant="outline" className="text-[10px]">{category}</Badge>
+                          <span className={vote.position === 'yea' ? "text-green-700 font-medium" : vote.position === 'nay' ? "text-red-700 font-medium" : "text-text-muted"}>
+                            {POSITION_LABELS[vote.position]}
+                          </span>
+                        </div>
+                        <p className="text-text-muted">
+                          {vote.bill ? `${vote.bill}: ` : ""}{vote.description || vote.question}
+                        </p>
+                        {vote.withParty === false && <p className="text-amber-700">Broke with party</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
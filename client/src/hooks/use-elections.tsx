@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { type Election, type Candidate, type ElectionFilters } from "@shared/schema";
+import { type Election, type ListedCandidate, type ElectionFilters } from "@shared/schema";
 
 export function useElections(filters?: ElectionFilters) {
   // Normalize filters to ensure consistent cache keys
@@ -61,7 +61,7 @@ export function useCandidates(electionId: number) {
       if (!response.ok) {
         throw new Error('Failed to fetch candidates');
       }
-      return response.json() as Promise<Candidate[]>;
+      return response.json() as Promise<ListedCandidate[]>;
     },
     enabled: !!electionId,
     staleTime: 60 * 60 * 1000, // 1 hour cache - candidates don't change frequently
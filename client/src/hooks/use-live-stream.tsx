@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from "react";
+
+export type LiveStreamEventType = 'results' | 'race_call' | 'date_change' | 'candidate_withdrawal' | 'recount';
+
+export interface LiveStreamEvent {
+  id: number;
+  type: LiveStreamEventType;
+  electionId: number;
+  state: string | null;
+  data: Record<string, any>;
+  timestamp: string;
+}
+
+export interface LiveCountdown {
+  id: number;
+  title: string;
+  state: string;
+  date: string;
+  timeRemaining: number;
+  isActive: boolean;
+}
+
+export type LiveStreamStatus = 'idle' | 'connecting' | 'open' | 'error' | 'unsupported';
+
+interface UseLiveStreamOptions {
+  electionIds?: number[];
+  states?: string[];
+  types?: LiveStreamEventType[];
+  enabled?: boolean;
+  onEvent?: (event: LiveStreamEvent) => void;
+  onCountdowns?: (countdowns: LiveCountdown[]) => void;
+  /** Called when the server could not replay missed events - refetch everything */
+  onResync?: () => void;
+}
+
+const EVENT_TYPES: LiveStreamEventType[] = ['results', 'race_call', 'date_change', 'candidate_withdrawal', 'recount'];
+
+/**
+ * Subscribe to /api/stream. The browser's EventSource reconnects on its own
+ * and sends Last-Event-ID, so missed events are replayed by the server.
+ */
+export function useLiveStream({
+  electionIds = [],
+  states = [],
+  types,
+  enabled = true,
+  onEvent,
+  onCountdowns,
+  onResync,
+}: UseLiveStreamOptions) {
+  const [status, setStatus] = useState<LiveStreamStatus>('idle');
+  const [lastEvent, setLastEvent] = useState<LiveStreamEvent | null>(null);
+
+  // Keep the latest callbacks without reconnecting when they change
+  const handlers = useRef({ onEvent, onCountdowns, onResync });
+  handlers.current = { onEvent, onCountdowns, onResync };
+
+  const electionKey = electionIds.join(',');
+  const stateKey = states.join(',');
+  const typeKey = (types ?? []).join(',');
+
+  useEffect(() => {
+    if (!enabled || (!electionKey && !stateKey)) {
+      setStatus('idle');
+      return;
+    }
+    if (typeof window === 'undefined' || !('EventSource' in window)) {
+      setStatus('unsupported');
+      return;
+    }
+
+    const params = new URLSearchParams();
+    if (electionKey) params.set('elections', electionKey);
+    if (stateKey) params.set('states', stateKey);
+    if (typeKey) params.set('types', typeKey);
+
+    setStatus('connecting');
+    const source = new EventSource(`/api/stream?${params.toString()}`);
+
+    source.addEventListener('ready', () => setStatus('open'));
+    source.addEventListener('countdowns', (message) => {
+      const { countdowns } = JSON.parse((message as MessageEvent).data);
+      handlers.current.onCountdowns?.(countdowns);
+    });
+    source.addEventListener('resync', () => handlers.current.onResync?.());
+    source.onerror = () => setStatus(source.readyState === EventSource.CLOSED ? 'error' : 'connecting');
+
+    const listener = (message: Event) => {
+      const event = JSON.parse((message as MessageEvent).data) as LiveStreamEvent;
+      setLastEvent(event);
+      handlers.current.onEvent?.(event);
+    };
+    EVENT_TYPES.forEach(type => source.addEventListener(type, listener));
+
+    return () => {
+      source.close();
+    };
+  }, [enabled, electionKey, stateKey, typeKey]);
+
+  return { status, lastEvent };
+}
@@ -1,6 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 
-interface PollingDataPoint {
+export interface PollingDataPoint {
   date: string;
   candidateId: number;
   candidateName: string;
@@ -9,9 +9,37 @@ interface PollingDataPoint {
   source: string;
   sampleSize?: number;
   marginOfError?: number;
+  population?: string;
+  pollId: string;
 }
 
-interface TrendAnalysis {
+export interface AverageSeriesPoint {
+  date: string;
+  candidateId: number;
+  candidateName: string;
+  party: string;
+  average: number;
+  lower: number;
+  upper: number;
+  pollCount: number;
+}
+
+export interface PollContribution {
+  pollId: string;
+  pollster: string;
+  endDate: string;
+  support: number;
+  weight: number;
+  factors: {
+    recency: number;
+    sampleSize: number;
+    marginOfError: number;
+    pollsterRating: number;
+    population: number;
+  };
+}
+
+export interface TrendAnalysis {
   candidateId: number;
   candidateName: string;
   party: string;
@@ -19,19 +47,43 @@ interface TrendAnalysis {
   trend: "up" | "down" | "stable";
   change: number;
   momentum: number;
+  lower: number;
+  upper: number;
+  pollCount: number;
+  contributions: PollContribution[];
+}
+
+export interface PollingTrendsResponse {
+  pollingData: PollingDataPoint[];
+  average: AverageSeriesPoint[];
+  analysis: TrendAnalysis[];
 }
 
 export function usePollingTrends(electionId: number, timeRange: string = "30") {
-  return useQuery({
+  return useQuery<PollingTrendsResponse>({
     queryKey: ["/api/elections", electionId, "polling-trends", { timeRange }],
+    queryFn: async () => {
+      const response = await fetch(`/api/elections/${electionId}/polling-trends?timeRange=${timeRange}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch polling trends");
+      }
+      return response.json() as Promise<PollingTrendsResponse>;
+    },
     enabled: !!electionId,
     staleTime: 1000 * 60 * 30, // 30 minutes
   });
 }
 
 export function useTrendAnalysis(electionId: number) {
-  return useQuery({
+  return useQuery<TrendAnalysis[]>({
     queryKey: ["/api/elections", electionId, "trend-analysis"],
+    queryFn: async () => {
+      const response = await fetch(`/api/elections/${electionId}/trend-analysis`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch trend analysis");
+      }
+      return response.json() as Promise<TrendAnalysis[]>;
+    },
     enabled: !!electionId,
     staleTime: 1000 * 60 * 60, // 1 hour
   });
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+
+export type PushStatus = 'loading' | 'unsupported' | 'unavailable' | 'denied' | 'disabled' | 'enabled';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+function pushSupported(): boolean {
+  return typeof window !== 'undefined'
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window;
+}
+
+// The VAPID key comes as URL-safe base64; PushManager wants the raw bytes
+function keyBytes(base64: string): Uint8Array {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+}
+
+async function currentSubscription(): Promise<PushSubscription | null> {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Browser push for the signed-in user: registers the service worker,
+ * subscribes this browser with the server's VAPID key and hands the
+ * subscription to /api/push/devices. Disabling unsubscribes the browser
+ * and removes it on the server.
+ */
+export function usePushNotifications() {
+  const [status, setStatus] = useState<PushStatus>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!pushSupported()) return setStatus('unsupported');
+    try {
+      const res = await fetch('/api/push/vapid-public-key', { credentials: 'include' });
+      const { configured } = await res.json();
+      if (!configured) return setStatus('unavailable');
+      if (Notification.permission === 'denied') return setStatus('denied');
+      setStatus((await currentSubscription()) ? 'enabled' : 'disabled');
+    } catch {
+      setStatus('unavailable');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const enable = useCallback(async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        setStatus(permission === 'denied' ? 'denied' : 'disabled');
+        return;
+      }
+
+      const res = await fetch('/api/push/vapid-public-key', { credentials: 'include' });
+      const { publicKey } = await res.json();
+      if (!publicKey) {
+        setStatus('unavailable');
+        return;
+      }
+
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription()
+        ?? await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: keyBytes(publicKey) });
+
+      await apiRequest('POST', '/api/push/devices', subscription.toJSON());
+      setStatus('enabled');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not turn on push notifications');
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const disable = useCallback(async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const subscription = await currentSubscription();
+      if (subscription) {
+        await apiRequest('DELETE', '/api/push/devices', { endpoint: subscription.endpoint }).catch(() => {});
+        await subscription.unsubscribe();
+      }
+      setStatus('disabled');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not turn off push notifications');
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  return { status, error, isBusy, enable, disable, refresh };
+}
@@ -32,7 +32,8 @@ import {
   Play,
   Pause,
   Eye,
-  Download
+  Download,
+  RotateCcw
 } from 'lucide-react';
 
 interface NotificationCampaign {
@@ -69,11 +70,29 @@ interface QueueStats {
   processing: number;
   completed: number;
   failed: number;
+  deadLetters: number;
   totalProcessed: number;
   averageProcessingTime: number;
   successRate: number;
 }
 
+interface DeadLetter {
+  id: number;
+  deliveryId: number;
+  userId?: string;
+  eventId?: number;
+  channel: string;
+  recipient: string;
+  subject?: string;
+  reason: 'retries_exhausted' | 'permanent' | 'expired';
+  attempts: number;
+  errorCode?: string;
+  errorMessage?: string;
+  failedAt: string;
+  replayedAt?: string;
+  replayedBy?: string;
+}
+
 interface AlertTrigger {
   id: string;
   name: string;
@@ -103,6 +122,13 @@ export default function AdminNotificationDashboard() {
     refetchInterval: 5000 // Refresh every 5 seconds
   });
 
+  // Fetch dead letters
+  const { data: deadLetters } = useQuery<DeadLetter[]>({
+    queryKey: ['/api/admin/notification-queue/dead-letters'],
+    enabled: true,
+    refetchInterval: 30000
+  });
+
   // Fetch alert triggers
   const { data: triggers } = useQuery<AlertTrigger[]>({
     queryKey: ['/api/admin/alert-triggers'],
@@ -156,6 +182,44 @@ export default function AdminNotificationDashboard() {
     }
   });
 
+  const invalidateQueue = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/notification-queue/dead-letters'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/notification-queue/stats'] });
+  };
+
+  // Replay dead letter mutation
+  const replayDeadLetterMutation = useMutation({
+    mutationFn: (id: number) =>
+      apiRequest('POST', `/api/admin/notification-queue/dead-letters/${id}/replay`),
+    onSuccess: () => {
+      invalidateQueue();
+      toast({
+        title: 'Replayed',
+        description: 'The notification is back on the queue.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Replay Failed',
+        description: error.message || 'Failed to replay notification',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  // Purge dead letters mutation
+  const purgeDeadLettersMutation = useMutation({
+    mutationFn: (purge: { ids?: number[]; before?: string }) =>
+      apiRequest('POST', '/api/admin/notification-queue/dead-letters/purge', purge),
+    onSuccess: () => {
+      invalidateQueue();
+      toast({
+        title: 'Purged',
+        description: 'Dead letters have been removed.',
+      });
+    }
+  });
+
   const handleCreateCampaign = () => {
     if (!formData.name || !formData.campaignType) {
       toast({
@@ -621,6 +685,10 @@ export default function AdminNotificationDashboard() {
                   <span>Failed:</span>
                   <span className="font-medium text-red-600">{queueStats?.failed || 0}</span>
                 </div>
+                <div className="flex justify-between">
+                  <span>Dead Letters:</span>
+                  <span className="font-medium text-red-600">{queueStats?.deadLetters || 0}</span>
+                </div>
               </CardContent>
             </Card>
 
@@ -670,6 +738,102 @@ export default function AdminNotificationDashboard() {
               </CardContent>
             </Card>
           </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Dead Letters</CardTitle>
+                  <CardDescription>
+                    Notifications that failed permanently, ran out of retries or expired
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!deadLetters?.length || purgeDeadLettersMutation.isPending}
+                  onClick={() => purgeDeadLettersMutation.mutate({
+                    before: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
+                  })}
+                  data-testid="button-purge-dead-letters"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Purge Older Than 30 Days
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!deadLetters?.length ? (
+                <div className="text-center py-6 text-muted-foreground">No dead letters</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Channel</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>Last Error</TableHead>
+                      <TableHead>Failed</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deadLetters.map(letter => (
+                      <TableRow key={letter.id}>
+                        <TableCell>
+                          <div>
+                            <p className="font-medium">{letter.recipient}</p>
+                            {letter.subject && (
+                              <p className="text-sm text-muted-foreground">{letter.subject}</p>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{letter.channel}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={letter.reason === 'permanent' ? 'destructive' : 'secondary'}>
+                            {letter.reason.replace('_', ' ')}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{letter.attempts}</TableCell>
+                        <TableCell className="max-w-xs truncate text-sm">
+                          {letter.errorCode && <span className="font-mono mr-1">{letter.errorCode}</span>}
+                          {letter.errorMessage}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {new Date(letter.failedAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={replayDeadLetterMutation.isPending}
+                              onClick={() => replayDeadLetterMutation.mutate(letter.id)}
+                              data-testid={`button-replay-dead-letter-${letter.id}`}
+                            >
+                              <RotateCcw className="w-3 h-3" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={purgeDeadLettersMutation.isPending}
+                              onClick={() => purgeDeadLettersMutation.mutate({ ids: [letter.id] })}
+                              data-testid={`button-purge-dead-letter-${letter.id}`}
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         {/* Alert Triggers Tab */}
@@ -1,12 +1,12 @@
 import { useState } from "react";
 import { useParams, Link } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { ArrowLeft, Calendar, MapPin, Users, Trophy, TrendingUp, BarChart3, Eye } from "lucide-react";
+import { ArrowLeft, Calendar, MapPin, Users, Trophy, TrendingUp, BarChart3, Eye, FileText } from "lucide-react";
 import { format } from "date-fns";
 import { CountdownTimer } from "@/components/countdown-timer";
 import { CandidateComparisonWizard } from "@/components/candidate-comparison-wizard";
@@ -14,7 +14,12 @@ import { PollingTrendChart } from "@/components/polling-trend-chart";
 import CandidatePublicView from "@/components/candidate-public-view";
 import { CandidateCard } from "@/components/candidate-card";
 import { usePollingTrends } from "@/hooks/use-polling-trends";
-import { useCandidates, useElection } from "@/hooks/use-elections";
+import { useCandidates, useElection, useElectionResults } from "@/hooks/use-elections";
+import { RcvRoundsTable, type RcvTabulationView } from "@/components/rcv-rounds-table";
+import { useLiveStream } from "@/hooks/use-live-stream";
+import { BallotMeasureCard, type BallotMeasure } from "@/components/ballot-measure-card";
+import { RaceMoneyComparison } from "@/components/race-money-comparison";
+import { OutsideSpendingCard } from "@/components/outside-spending-card";
 import type { Election, Candidate } from "@shared/schema";
 
 // Hook to fetch individual candidate details
@@ -38,8 +43,27 @@ export default function ElectionDetails() {
 
   const { data: pollingData, isLoading: pollingLoading } = usePollingTrends(electionId, "90");
 
+  const { data: results } = useElectionResults(electionId);
+  const rcvTabulation = (results?.rcv ?? null) as RcvTabulationView | null;
+
   const { data: selectedCandidateDetails, isLoading: candidateDetailsLoading } = useCandidateDetails(selectedCandidateId);
 
+  const { data: measures = [] } = useQuery<BallotMeasure[]>({
+    queryKey: [`/api/measures?electionId=${electionId}`],
+    enabled: !!electionId,
+  });
+
+  // Date moves and withdrawals are pushed, so the countdown and candidate list stay current
+  const queryClient = useQueryClient();
+  useLiveStream({
+    electionIds: [electionId],
+    types: ['date_change', 'candidate_withdrawal', 'race_call'],
+    enabled: !!electionId,
+    onEvent: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/elections', electionId] });
+    },
+  });
+
   const handleCandidateClick = (candidateId: number) => {
     setSelectedCandidateId(candidateId);
     setCandidateModalOpen(true);
@@ -86,6 +110,7 @@ export default function ElectionDetails() {
   const electionDate = election ? new Date(election.date) : new Date();
   const isUpcoming = electionDate > new Date();
   const hasResults = candidates.some(c => c.votePercentage !== null);
+  const runningCandidates = candidates.filter(c => c.isActive);
 
   return (
     <div className="container mx-auto px-4 py-8 space-y-6">
@@ -129,6 +154,9 @@ export default function ElectionDetails() {
               {election?.type && (
                 <Badge variant="outline">{election.type}</Badge>
               )}
+              {election?.votingMethod === "rcv" && (
+                <Badge variant="outline">Ranked-choice</Badge>
+              )}
             </div>
             {isUpcoming && election && (
               <CountdownTimer 
@@ -222,6 +250,20 @@ export default function ElectionDetails() {
               </div>
             </CardContent>
           </Card>
+
+          {rcvTabulation && <RcvRoundsTable tabulation={rcvTabulation} />}
+
+          {measures.length > 0 && (
+            <div className="space-y-4">
+              <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-900 dark:text-white">
+                <FileText className="h-5 w-5" />
+                Ballot Measures
+              </h2>
+              {measures.map((measure) => (
+                <BallotMeasureCard key={measure.id} measure={measure} />
+              ))}
+            </div>
+          )}
         </TabsContent>
 
         <TabsContent value="polling" className="space-y-6">
@@ -235,7 +277,8 @@ export default function ElectionDetails() {
             <PollingTrendChart
               electionId={electionId}
               candidates={candidates}
-              pollingData={(pollingData as any)?.pollingData || []}
+              pollingData={pollingData?.pollingData || []}
+              average={pollingData?.average || []}
               className="w-full"
             />
           )}
@@ -252,10 +295,13 @@ export default function ElectionDetails() {
             ))}
           </div>
 
-          {candidates.length >= 2 && election && (
+          {election?.level.toLowerCase() === "federal" && <RaceMoneyComparison electionId={election.id} />}
+          {election?.level.toLowerCase() === "federal" && <OutsideSpendingCard electionId={election.id} />}
+
+          {runningCandidates.length >= 2 && election && (
             <CandidateComparisonWizard
               election={election}
-              candidates={candidates}
+              candidates={runningCandidates}
             />
           )}
         </TabsContent>
@@ -12,13 +12,16 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { Bell, Mail, Phone, MapPin, Clock, Shield, CheckCircle, AlertCircle } from 'lucide-react';
+import { Bell, Mail, Phone, MapPin, Clock, Shield, CheckCircle, AlertCircle, Moon, MonitorSmartphone } from 'lucide-react';
+import { AlertRuleBuilder } from '@/components/alert-rule-builder';
+import { usePushNotifications } from '@/hooks/use-push-notifications';
 
 interface NotificationPreferences {
   id: number;
   userId: string;
   emailEnabled: boolean;
   smsEnabled: boolean;
+  pushEnabled: boolean;
   phoneNumber?: string;
   electionResultsEnabled: boolean;
   candidateUpdatesEnabled: boolean;
@@ -33,6 +36,8 @@ interface NotificationPreferences {
   weeklyDigest: boolean;
   preferredDeliveryTime: string;
   timezone: string;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -118,6 +123,7 @@ export default function NotificationPreferences() {
   const { toast } = useToast();
   const [formData, setFormData] = useState<Partial<NotificationPreferences>>({});
   const [pendingVerifications, setPendingVerifications] = useState<string[]>([]);
+  const push = usePushNotifications();
 
   // Fetch user preferences
   const { data: preferences, isLoading } = useQuery({
@@ -270,11 +276,12 @@ export default function NotificationPreferences() {
       </div>
 
       <Tabs defaultValue="channels" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="channels" data-testid="tab-channels">Channels</TabsTrigger>
           <TabsTrigger value="content" data-testid="tab-content">Content</TabsTrigger>
           <TabsTrigger value="timing" data-testid="tab-timing">Timing</TabsTrigger>
           <TabsTrigger value="geography" data-testid="tab-geography">Geography</TabsTrigger>
+          <TabsTrigger value="rules" data-testid="tab-rules">Rules</TabsTrigger>
           <TabsTrigger value="privacy" data-testid="tab-privacy">Privacy</TabsTrigger>
         </TabsList>
 
@@ -413,6 +420,48 @@ export default function NotificationPreferences() {
               )}
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MonitorSmartphone className="w-5 h-5" />
+                Browser Push Notifications
+              </CardTitle>
+              <CardDescription>
+                Get alerts on this device even when Election Tracker is closed
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label>Enable Push on This Browser</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {push.status === 'unsupported' && 'This browser does not support push notifications.'}
+                    {push.status === 'unavailable' && 'Push notifications are not available right now.'}
+                    {push.status === 'denied' && 'Notifications are blocked - allow them in your browser settings.'}
+                    {(push.status === 'enabled' || push.status === 'disabled' || push.status === 'loading') &&
+                      'Election alerts and bill updates you follow, delivered to this browser'}
+                  </p>
+                </div>
+                <Switch
+                  checked={push.status === 'enabled'}
+                  disabled={push.isBusy || !(push.status === 'enabled' || push.status === 'disabled')}
+                  onCheckedChange={(checked) => {
+                    (checked ? push.enable() : push.disable()).then(() =>
+                      queryClient.invalidateQueries({ queryKey: ['/api/notifications/subscriptions'] }));
+                  }}
+                  data-testid="switch-push-enabled"
+                />
+              </div>
+
+              {push.error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{push.error}</AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         {/* Content Tab */}
@@ -596,6 +645,56 @@ export default function NotificationPreferences() {
                   </Select>
                 </div>
               </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <Label className="flex items-center gap-2">
+                      <Moon className="w-4 h-4" />
+                      Quiet Hours
+                    </Label>
+                    <p className="text-sm text-muted-foreground">
+                      Hold email, text and push alerts until quiet hours end. Urgent alerts still come through, and everything lands in your inbox.
+                    </p>
+                  </div>
+                  <Switch
+                    checked={!!(formData.quietHoursStart && formData.quietHoursEnd)}
+                    onCheckedChange={(checked) => setFormData(prev => ({
+                      ...prev,
+                      quietHoursStart: checked ? '22:00' : null,
+                      quietHoursEnd: checked ? '07:00' : null
+                    }))}
+                    data-testid="switch-quiet-hours"
+                  />
+                </div>
+
+                {formData.quietHoursStart && formData.quietHoursEnd && (
+                  <div className="grid grid-cols-2 gap-4 pl-4 border-l-2 border-indigo-200">
+                    <div className="space-y-2">
+                      <Label htmlFor="quiet-start">From</Label>
+                      <Input
+                        id="quiet-start"
+                        type="time"
+                        value={formData.quietHoursStart}
+                        onChange={(e) => handlePreferenceChange('quietHoursStart', e.target.value || null)}
+                        data-testid="input-quiet-start"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="quiet-end">Until</Label>
+                      <Input
+                        id="quiet-end"
+                        type="time"
+                        value={formData.quietHoursEnd}
+                        onChange={(e) => handlePreferenceChange('quietHoursEnd', e.target.value || null)}
+                        data-testid="input-quiet-end"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
@@ -766,6 +865,11 @@ export default function NotificationPreferences() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Rules Tab */}
+        <TabsContent value="rules" className="space-y-6">
+          <AlertRuleBuilder />
+        </TabsContent>
       </Tabs>
 
       <div className="flex justify-end gap-2">
@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { FileDown, Loader2, Printer, Save, Search, Vote } from "lucide-react";
+import { Link } from "wouter";
+
+type BallotSection = 'federal' | 'state' | 'county' | 'local' | 'measures';
+
+interface BallotChoice {
+  key: string;
+  name: string;
+  party: string | null;
+  candidateId: number | null;
+  website: string | null;
+  isIncumbent?: boolean;
+  profile?: { slogan: string | null; occupation: string | null } | null;
+  positions?: Array<{ category: string; position: string }>;
+}
+
+interface BallotContest {
+  key: string;
+  kind: 'candidate' | 'measure';
+  section: BallotSection;
+  office: string;
+  district: string | null;
+  electionId: number | null;
+  subtitle?: string | null;
+  text?: string | null;
+  choices: BallotChoice[];
+  sources: string[];
+}
+
+interface SampleBallot {
+  address: string;
+  state: string | null;
+  electionDate: string | null;
+  electionName: string | null;
+  contests: BallotContest[];
+  sources: string[];
+}
+
+type BallotPicks = Record<string, { choice: string; note?: string | null }>;
+
+interface SavedBallot {
+  id: number;
+  address: string;
+  electionDate: string;
+  electionName: string | null;
+  ballot: SampleBallot;
+  picks: BallotPicks;
+  updatedAt: string;
+}
+
+const SECTION_TITLES: Record<BallotSection, string> = {
+  federal: "Federal",
+  state: "State",
+  county: "County",
+  local: "Local",
+  measures: "Ballot Measures",
+};
+
+export default function SampleBallotPage() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [address, setAddress] = useState("");
+  const [electionDate, setElectionDate] = useState("");
+  const [ballot, setBallot] = useState<SampleBallot | null>(null);
+  const [picks, setPicks] = useState<BallotPicks>({});
+  const [savedId, setSavedId] = useState<number | null>(null);
+
+  const { data: savedBallots = [] } = useQuery<SavedBallot[]>({
+    queryKey: ['/api/ballot/saved'],
+    enabled: isAuthenticated,
+  });
+
+  const ballotMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams({ address: address.trim() });
+      if (electionDate) params.set('date', electionDate);
+      const response = await fetch(`/api/ballot/sample?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to build ballot');
+      return data as SampleBallot;
+    },
+    onSuccess: (data) => {
+      setBallot(data);
+      setPicks({});
+      setSavedId(null);
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/ballot/saved', {
+        address: ballot!.address,
+        electionDate: ballot!.electionDate,
+        picks,
+      });
+      return response.json() as Promise<{ saved: SavedBallot; dropped: string[] }>;
+    },
+    onSuccess: ({ saved, dropped }) => {
+      setSavedId(saved.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/ballot/saved'] });
+      toast({
+        title: "Picks saved",
+        description: dropped.length > 0 ? `${dropped.length} pick(s) no longer matched the ballot and were dropped.` : undefined,
+      });
+    },
+    onError: () => {
+      toast({ title: "Could not save picks", variant: "destructive" });
+    },
+  });
+
+  const openSaved = (saved: SavedBallot) => {
+    setBallot(saved.ballot);
+    setPicks(saved.picks ?? {});
+    setSavedId(saved.id);
+    setAddress(saved.address);
+  };
+
+  const setPick = (contestKey: string, choice: string) => {
+    setPicks((current) => ({ ...current, [contestKey]: { ...current[contestKey], choice } }));
+  };
+
+  const setNote = (contestKey: string, note: string) => {
+    setPicks((current) => current[contestKey] ? { ...current, [contestKey]: { ...current[contestKey], note } } : current);
+  };
+
+  const sections = (Object.keys(SECTION_TITLES) as BallotSection[])
+    .map((section) => ({ section, contests: ballot?.contests.filter((contest) => contest.section === section) ?? [] }))
+    .filter(({ contests }) => contests.length > 0);
+
+  return (
+    <div className="container mx-auto max-w-4xl space-y-6 p-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Vote className="h-5 w-5" />
+            What's on my ballot
+          </CardTitle>
+          <CardDescription>
+            Enter your address to build your sample ballot, mark your picks and print a cheat sheet for the polls
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              placeholder="123 Main St, City, State ZIP"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && address.trim() && ballotMutation.mutate()}
+              data-testid="input-ballot-address"
+            />
+            <Input
+              type="date"
+              className="sm:w-44"
+              value={electionDate}
+              onChange={(e) => setElectionDate(e.target.value)}
+              aria-label="Election date"
+            />
+            <Button onClick={() => ballotMutation.mutate()} disabled={!address.trim() || ballotMutation.isPending}>
+              {ballotMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+              <span className="ml-2">Build ballot</span>
+            </Button>
+          </div>
+          {ballotMutation.isError && (
+            <Alert variant="destructive">
+              <AlertDescription>{(ballotMutation.error as Error).message}</AlertDescription>
+            </Alert>
+          )}
+          {isAuthenticated && savedBallots.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Saved ballots:</span>
+              {savedBallots.map((saved) => (
+                <Button key={saved.id} variant="outline" size="sm" onClick={() => openSaved(saved)}>
+                  {saved.electionName || saved.electionDate}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {ballot && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <CardTitle>{ballot.electionName || 'Sample Ballot'}</CardTitle>
+                <CardDescription>
+                  {ballot.electionDate ? new Date(`${ballot.electionDate}T12:00:00`).toLocaleDateString() : 'No upcoming election found'}
+                  {' · '}{ballot.address}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                {isAuthenticated ? (
+                  <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !ballot.electionDate}>
+                    {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                    <span className="ml-2">Save picks</span>
+                  </Button>
+                ) : (
+                  <Link href="/auth">
+                    <Button variant="outline">Sign in to save picks</Button>
+                  </Link>
+                )}
+                {savedId && (
+                  <>
+                    <Button variant="outline" asChild>
+                      <a href={`/api/ballot/saved/${savedId}/cheat-sheet`} target="_blank" rel="noopener noreferrer">
+                        <Printer className="h-4 w-4" />
+                        <span className="ml-2">Print</span>
+                      </a>
+                    </Button>
+                    <Button variant="outline" asChild>
+                      <a href={`/api/ballot/saved/${savedId}/cheat-sheet.pdf`}>
+                        <FileDown className="h-4 w-4" />
+                        <span className="ml-2">PDF</span>
+                      </a>
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {sections.length === 0 && (
+              <p className="text-sm text-muted-foreground">No contests found for this address and date.</p>
+            )}
+            {sections.map(({ section, contests }) => (
+              <div key={section} className="space-y-3">
+                <h3 className="border-b pb-1 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                  {SECTION_TITLES[section]}
+                </h3>
+                {contests.map((contest) => (
+                  <div key={contest.key} className="space-y-2 rounded-lg border p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <h4 className="font-medium">{contest.office}</h4>
+                        {(contest.district || contest.subtitle) && (
+                          <p className="text-xs text-muted-foreground">{contest.district || contest.subtitle}</p>
+                        )}
+                      </div>
+                      {contest.electionId && (
+                        <Link href={`/elections/${contest.electionId}`} className="text-xs text-blue-600 hover:underline">
+                          Race details
+                        </Link>
+                      )}
+                    </div>
+                    {contest.text && <p className="text-sm text-muted-foreground">{contest.text}</p>}
+                    <RadioGroup value={picks[contest.key]?.choice ?? ""} onValueChange={(value) => setPick(contest.key, value)}>
+                      {contest.choices.map((choice) => (
+                        <div key={choice.key} className="flex items-start gap-2">
+                          <RadioGroupItem value={choice.key} id={`${contest.key}-${choice.key}`} className="mt-1" />
+                          <Label htmlFor={`${contest.key}-${choice.key}`} className="flex-1 cursor-pointer font-normal">
+                            <span className="flex flex-wrap items-center gap-2">
+                              <span className="font-medium">{choice.name}</span>
+                              {choice.party && <Badge variant="outline">{choice.party}</Badge>}
+                              {choice.isIncumbent && <Badge variant="secondary">Incumbent</Badge>}
+                            </span>
+                            {choice.profile?.slogan && (
+                              <span className="block text-xs italic text-muted-foreground">"{choice.profile.slogan}"</span>
+                            )}
+                            {choice.positions && choice.positions.length > 0 && (
+                              <span className="block text-xs text-muted-foreground">
+                                {choice.positions.map((p) => `${p.category}: ${p.position}`).join(' · ')}
+                              </span>
+                            )}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                    {picks[contest.key] && (
+                      <Textarea
+                        placeholder="Note to self (optional)"
+                        value={picks[contest.key]?.note ?? ""}
+                        onChange={(e) => setNote(contest.key, e.target.value)}
+                        className="min-h-[40px] text-sm"
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+            {ballot.sources.length > 0 && (
+              <p className="text-xs text-muted-foreground">Sources: {ballot.sources.join(', ')}</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+-- Election fact history
+-- Makes election_facts a true append-only log so the calendar can be
+-- reconstructed "as of" any past moment, and records who made each change.
+
+ALTER TABLE election_facts ADD COLUMN IF NOT EXISTS recorded_by TEXT;
+ALTER TABLE election_facts ADD COLUMN IF NOT EXISTS reason TEXT;
+
+-- The old uniqueness rule folded a value that came back (A -> B -> A) into
+-- its first observation, losing the middle of the history
+ALTER TABLE election_facts
+  DROP CONSTRAINT IF EXISTS election_facts_election_id_fact_type_fact_value_source_id_key;
+
+CREATE INDEX IF NOT EXISTS idx_election_facts_observed
+  ON election_facts(election_id, observed_at);
+
+-- Same signature as 001, but every call now appends a new observation
+CREATE OR REPLACE FUNCTION record_election_fact(
+  p_election_id BIGINT,
+  p_fact_type TEXT,
+  p_fact_value JSONB,
+  p_source_name TEXT,
+  p_source_url TEXT DEFAULT NULL,
+  p_confidence INTEGER DEFAULT 80
+)
+RETURNS BIGINT
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_source_id UUID;
+  v_fact_id BIGINT;
+BEGIN
+  SELECT id INTO v_source_id
+  FROM sources
+  WHERE name = p_source_name
+  LIMIT 1;
+
+  IF v_source_id IS NULL THEN
+    INSERT INTO sources(name, url, authority, reliability)
+    VALUES (p_source_name, p_source_url, p_source_name, p_confidence)
+    RETURNING id INTO v_source_id;
+  END IF;
+
+  INSERT INTO election_facts(election_id, fact_type, fact_value, source_id, source_url, confidence, recorded_by)
+  VALUES (p_election_id, p_fact_type, p_fact_value, v_source_id, p_source_url, p_confidence, p_source_name)
+  RETURNING fact_id INTO v_fact_id;
+
+  RETURN v_fact_id;
+END;
+$$;
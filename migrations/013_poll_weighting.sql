@@ -0,0 +1,31 @@
+-- Poll weighting inputs
+-- The polling average (server/lib/polling-average.ts) weights each poll by
+-- its population, margin of error and pollster grade. Creates the poll
+-- tables on databases that never ran server/sql/polling_schema.sql.
+
+CREATE TABLE IF NOT EXISTS polls (
+  id BIGSERIAL PRIMARY KEY,
+  election_id INT NOT NULL REFERENCES elections(id) ON DELETE CASCADE,
+  pollster TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  sample_size INT,
+  method TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS poll_results (
+  id BIGSERIAL PRIMARY KEY,
+  poll_id BIGINT NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  candidate_id INT REFERENCES candidates(id) ON DELETE SET NULL,
+  option TEXT,
+  pct NUMERIC(5,2) NOT NULL,
+  UNIQUE (poll_id, candidate_id, option)
+);
+
+CREATE INDEX IF NOT EXISTS idx_polls_election_end
+  ON polls(election_id, end_date DESC, id DESC);
+
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS population TEXT;          -- 'lv', 'rv', 'a', 'v'
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS margin_of_error NUMERIC(4,2);
+ALTER TABLE polls ADD COLUMN IF NOT EXISTS pollster_grade TEXT;      -- published rating, e.g. 'A-', 'B/C'
@@ -1,5 +1,7 @@
 import { neon } from '@neondatabase/serverless';
 import type { Request, Response } from 'express';
+import { eventProcessingService } from '../event-processing-service';
+import { storage } from '../storage';
 
 const sql = neon(process.env.DATABASE_URL!);
 
@@ -93,6 +95,7 @@ async function taskDateDrift(runId: string) {
       {
         election_id: r.election_id,
         authority: r.authority,
+        previous_date: r.current_date,
         new_date: r.reported_date,
         priority: r.priority,
         confidence: r.confidence
@@ -130,8 +133,26 @@ export async function applySuggestion(id: number) {
 
   try {
     if (s.kind === 'DATE_DRIFT') {
-      // Run reconcile function
-      await sql(`SELECT reconcile_election_dates_from_authorities(1000)`);
+      // Apply only the suggested election, as a sourced fact so its history
+      // shows the authority; other drifted elections wait for their own
+      // suggestions
+      if (!s.payload?.election_id || !s.payload?.new_date) return { ok: false, error: 'no_target' };
+      const reason = `Date reconciled from ${s.payload.authority ?? 'authority'}`;
+      // The date as the suggestion saw it, unless the election has moved since
+      const previousDate: Date | null = (await storage.getElection(s.payload.election_id))?.date
+        ?? (s.payload.previous_date ? new Date(s.payload.previous_date) : null);
+      await storage.updateElection(s.payload.election_id, { date: new Date(s.payload.new_date) }, {
+        source: s.payload.authority ?? 'Election date authority',
+        actor: 'bot',
+        reason,
+        confidence: s.payload.confidence ?? undefined
+      });
+      eventProcessingService.emit('election_date_changed', {
+        electionId: s.payload.election_id,
+        previousDate,
+        newDate: s.payload.new_date,
+        reason
+      });
     } else if (s.kind === 'MISSING_CANDIDATES' && s.payload?.title && s.payload?.state) {
       if (Array.isArray(s.payload.seed)) {
         await sql(
@@ -286,6 +286,26 @@ export class BrowserAutomationService {
     return results;
   }
 
+  /**
+   * Print an HTML document to a Letter-size PDF
+   */
+  async renderPdf(html: string): Promise<Buffer> {
+    let page = null;
+    try {
+      const browser = await this.initializePuppeteer();
+      page = await browser.newPage();
+      await page.setContent(html, { waitUntil: 'load' });
+      const pdf = await page.pdf({
+        format: 'Letter',
+        printBackground: true,
+        margin: { top: '0.5in', right: '0.5in', bottom: '0.5in', left: '0.5in' }
+      });
+      return Buffer.from(pdf);
+    } finally {
+      if (page) await page.close();
+    }
+  }
+
   /**
    * Clean up browser resources
    */
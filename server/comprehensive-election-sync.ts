@@ -96,7 +96,7 @@ export class ComprehensiveElectionSync {
             offices: election.offices || [],
             description: election.description || null,
             isActive: true
-          });
+          }, { source: 'Google Civic API', actor: 'comprehensive-election-sync' });
           result.newElections++;
         } else {
           result.updatedElections++;
@@ -127,7 +127,7 @@ export class ComprehensiveElectionSync {
         const existing = await storage.getElectionByTitleAndDate(election.title, election.date);
         
         if (!existing) {
-          await storage.createElection(election);
+          await storage.createElection(election, { source: 'Ballotpedia', actor: 'comprehensive-election-sync' });
           result.newElections++;
         } else {
           result.updatedElections++;
@@ -158,7 +158,7 @@ export class ComprehensiveElectionSync {
         const existing = await storage.getElectionByTitleAndDate(election.title, election.date);
         
         if (!existing) {
-          await storage.createElection(election);
+          await storage.createElection(election, { source: 'Vote411', actor: 'comprehensive-election-sync' });
           result.newElections++;
         } else {
           result.updatedElections++;
@@ -193,7 +193,7 @@ export class ComprehensiveElectionSync {
         const existing = await storage.getElectionByTitleAndDate(election.title, election.date);
         
         if (!existing) {
-          await storage.createElection(election);
+          await storage.createElection(election, { source: 'OpenStates', actor: 'comprehensive-election-sync' });
           result.newElections++;
         } else {
           result.updatedElections++;
@@ -224,7 +224,7 @@ export class ComprehensiveElectionSync {
         const existing = await storage.getElectionByTitleAndDate(election.title, election.date);
         
         if (!existing) {
-          await storage.createElection(election);
+          await storage.createElection(election, { source: 'State Secretary of State', actor: 'comprehensive-election-sync' });
           result.newElections++;
         } else {
           result.updatedElections++;
@@ -352,15 +352,128 @@ export class CongressBillService {
   }
 
   // [BETA] List votes
-  async fetchHouseVotes(congress: string = '118', session: string = '1'): Promise<HouseVote[]> {
+  async fetchHouseVotes(congress: string = '118', session: string = '1', offset: number = 0, limit: number = 250): Promise<HouseVote[]> {
     try {
-      const data = await this.makeRequest(`/house-vote/${congress}/${session}`);
+      const data = await this.makeRequest(`/house-vote/${congress}/${session}`, {
+        offset: String(offset),
+        limit: String(limit)
+      });
       return data.houseVotes || [];
     } catch (error) {
       console.error('Error fetching house votes:', error);
       return [];
     }
   }
+
+  // [BETA] How each member voted on a House roll call
+  async fetchHouseVoteMembers(congress: number, session: number, rollCallNumber: number): Promise<any | null> {
+    try {
+      return await this.makeRequest(`/house-vote/${congress}/${session}/${rollCallNumber}/members`, { limit: '500' });
+    } catch (error) {
+      console.error(`Error fetching house vote ${congress}-${session}-${rollCallNumber} members:`, error);
+      return null;
+    }
+  }
+
+  // Bill detail - sponsor, policy area, latest action
+  async fetchBill(congress: number, billType: string, billNumber: string): Promise<any | null> {
+    try {
+      const data = await this.makeRequest(`/bill/${congress}/${billType.toLowerCase()}/${billNumber}`);
+      return data.bill || null;
+    } catch (error) {
+      console.error(`Error fetching bill ${congress} ${billType} ${billNumber}:`, error);
+      return null;
+    }
+  }
+
+  // Bills updated since a timestamp, newest update first
+  async fetchBillsUpdatedSince(congress: number, fromDateTime: Date, offset: number = 0, limit: number = 250): Promise<any[]> {
+    try {
+      const data = await this.makeRequest(`/bill/${congress}`, {
+        fromDateTime: fromDateTime.toISOString().replace(/\.\d{3}Z$/, 'Z'),
+        sort: 'updateDate+desc',
+        offset: String(offset),
+        limit: String(limit)
+      });
+      return data.bills || [];
+    } catch (error) {
+      console.error(`Error fetching bills updated since ${fromDateTime.toISOString()}:`, error);
+      return [];
+    }
+  }
+
+  async fetchBillActions(congress: number, billType: string, billNumber: string): Promise<any[]> {
+    try {
+      const data = await this.makeRequest(`/bill/${congress}/${billType.toLowerCase()}/${billNumber}/actions`, { limit: '250' });
+      return data.actions || [];
+    } catch (error) {
+      console.error(`Error fetching actions for ${congress} ${billType} ${billNumber}:`, error);
+      return [];
+    }
+  }
+
+  async fetchBillCommittees(congress: number, billType: string, billNumber: string): Promise<any[]> {
+    try {
+      const data = await this.makeRequest(`/bill/${congress}/${billType.toLowerCase()}/${billNumber}/committees`);
+      return data.committees || [];
+    } catch (error) {
+      console.error(`Error fetching committees for ${congress} ${billType} ${billNumber}:`, error);
+      return [];
+    }
+  }
+
+  async fetchBillSubjects(congress: number, billType: string, billNumber: string): Promise<{ legislativeSubjects: any[]; policyArea: any | null }> {
+    try {
+      const data = await this.makeRequest(`/bill/${congress}/${billType.toLowerCase()}/${billNumber}/subjects`, { limit: '250' });
+      return {
+        legislativeSubjects: data.subjects?.legislativeSubjects || [],
+        policyArea: data.subjects?.policyArea || null
+      };
+    } catch (error) {
+      console.error(`Error fetching subjects for ${congress} ${billType} ${billNumber}:`, error);
+      return { legislativeSubjects: [], policyArea: null };
+    }
+  }
+
+  async fetchBillSummaries(congress: number, billType: string, billNumber: string): Promise<any[]> {
+    try {
+      const data = await this.makeRequest(`/bill/${congress}/${billType.toLowerCase()}/${billNumber}/summaries`);
+      return data.summaries || [];
+    } catch (error) {
+      console.error(`Error fetching summaries for ${congress} ${billType} ${billNumber}:`, error);
+      return [];
+    }
+  }
+
+  async fetchBillCosponsors(congress: number, billType: string, billNumber: string): Promise<any[]> {
+    try {
+      const data = await this.makeRequest(`/bill/${congress}/${billType.toLowerCase()}/${billNumber}/cosponsors`, { limit: '250' });
+      return data.cosponsors || [];
+    } catch (error) {
+      console.error(`Error fetching cosponsors for ${congress} ${billType} ${billNumber}:`, error);
+      return [];
+    }
+  }
+
+  async fetchSponsoredLegislation(bioguideId: string, limit: number = 250): Promise<any[]> {
+    try {
+      const data = await this.makeRequest(`/member/${bioguideId}/sponsored-legislation`, { limit: String(limit) });
+      return data.sponsoredLegislation || [];
+    } catch (error) {
+      console.error(`Error fetching sponsored legislation for ${bioguideId}:`, error);
+      return [];
+    }
+  }
+
+  async fetchCosponsoredLegislation(bioguideId: string, limit: number = 250): Promise<any[]> {
+    try {
+      const data = await this.makeRequest(`/member/${bioguideId}/cosponsored-legislation`, { limit: String(limit) });
+      return data.cosponsoredLegislation || [];
+    } catch (error) {
+      console.error(`Error fetching cosponsored legislation for ${bioguideId}:`, error);
+      return [];
+    }
+  }
 }
 
 export function getCongressBillService(): CongressBillService | null {
@@ -2,6 +2,7 @@
 // Ensures only real, verified election data is in the system
 
 import { db } from './db';
+import { storage } from './storage';
 import { elections, candidates } from '@shared/schema';
 import { eq, and, or, ilike, sql, notIlike } from 'drizzle-orm';
 import { validateElectionData, validateNotMockData } from './validators/state-election-rules';
@@ -67,10 +68,11 @@ export class DataIntegrityService {
         
         // If the move is less than 3 days, fix it; otherwise deactivate
         if (daysToSaturday <= 3) {
-          await db
-            .update(elections)
-            .set({ date: nearestSaturday })
-            .where(eq(elections.id, election.id));
+          await storage.updateElection(election.id, { date: nearestSaturday }, {
+            source: 'Louisiana Saturday election rule',
+            actor: 'data-integrity',
+            reason: 'Louisiana elections are held on Saturdays'
+          });
           fixed++;
         } else {
           await db
@@ -104,7 +106,8 @@ export class DataIntegrityService {
         state: election.state,
         date: election.date,
         level: election.level,
-        type: election.type
+        type: election.type,
+        title: election.title
       });
       
       const mockCheck = validateNotMockData(election);
@@ -5,7 +5,7 @@ import { realTimeMonitor } from './real-time-monitor';
 
 interface ElectionEvent {
   id: string;
-  type: 'result_update' | 'candidate_change' | 'precinct_report' | 'district_call' | 'recount_declared';
+  type: 'result_update' | 'candidate_change' | 'precinct_report' | 'district_call' | 'recount_declared' | 'date_change' | 'candidate_withdrawal' | 'candidate_status';
   electionId: number;
   timestamp: Date;
   source: string;
@@ -58,6 +58,9 @@ export class EventProcessingService extends EventEmitter {
     this.processors.set('precinct_report', this.processPrecinctReport.bind(this));
     this.processors.set('district_call', this.processDistrictCall.bind(this));
     this.processors.set('recount_declared', this.processRecountDeclaration.bind(this));
+    this.processors.set('date_change', this.processDateChange.bind(this));
+    this.processors.set('candidate_withdrawal', this.processCandidateWithdrawal.bind(this));
+    this.processors.set('candidate_status', this.processCandidateStatus.bind(this));
   }
 
   // Main event ingestion endpoint
@@ -114,6 +117,12 @@ export class EventProcessingService extends EventEmitter {
         return `Precinct ${event.data.precinctId} reported results for election ${event.electionId}`;
       case 'district_call':
         return `District ${event.data.districtId} called for ${event.data.winner} in election ${event.electionId}`;
+      case 'date_change':
+        return `Election ${event.electionId} has moved to ${event.data.newDate}`;
+      case 'candidate_withdrawal':
+        return `${event.data.candidateName} has withdrawn from election ${event.electionId}`;
+      case 'candidate_status':
+        return `${event.data.candidateName} is now ${event.data.status} in election ${event.electionId}`;
       default:
         return `Election event for election ${event.electionId}`;
     }
@@ -123,6 +132,7 @@ export class EventProcessingService extends EventEmitter {
   private calculatePriority(rawEvent: any): 'low' | 'medium' | 'high' | 'critical' {
     if (rawEvent.type === 'district_call') return 'critical';
     if (rawEvent.type === 'recount_declared') return 'critical';
+    if (rawEvent.type === 'date_change' || rawEvent.type === 'candidate_withdrawal' || rawEvent.type === 'candidate_status') return 'high';
     if (rawEvent.data?.margin && rawEvent.data.margin < 0.5) return 'high';
     if (rawEvent.data?.reportingComplete) return 'high';
     return 'medium';
@@ -248,7 +258,7 @@ export class EventProcessingService extends EventEmitter {
       recountReason: data.reason,
       recountDeadline: data.deadline,
       lastUpdated: event.timestamp
-    });
+    } as any, { source: event.source, actor: 'event-processing', reason: data.reason });
 
     this.emit('recount_declared', {
       electionId,
@@ -257,6 +267,79 @@ export class EventProcessingService extends EventEmitter {
     });
   }
 
+  private async processDateChange(event: ElectionEvent): Promise<void> {
+    const { electionId, data } = event;
+    if (!event.validated || event.confidence <= 0.7) return;
+
+    const newDate = new Date(data.newDate);
+    if (isNaN(newDate.getTime())) return;
+
+    const election = await storage.getElection(electionId);
+    if (!election || election.date.getTime() === newDate.getTime()) return;
+
+    await storage.updateElection(electionId, { date: newDate }, {
+      source: event.source,
+      sourceUrl: data.sourceUrl ?? null,
+      actor: 'event-processing',
+      reason: data.reason ?? null,
+      confidence: Math.round(event.confidence * 100)
+    });
+
+    this.emit('election_date_changed', {
+      electionId,
+      previousDate: election.date,
+      newDate,
+      reason: data.reason
+    });
+  }
+
+  private async processCandidateWithdrawal(event: ElectionEvent): Promise<void> {
+    const { electionId, data } = event;
+    if (!event.validated || event.confidence <= 0.7) return;
+
+    // Known candidates go through the status lifecycle, which emits candidate_withdrawn itself
+    if (data.candidateId) {
+      await this.applyCandidateStatus(event, 'withdrawn');
+      return;
+    }
+
+    this.emit('candidate_withdrawn', {
+      electionId,
+      candidateId: data.candidateId,
+      candidateName: data.candidateName,
+      effectiveDate: data.effectiveDate ?? event.timestamp,
+      reason: data.reason
+    });
+  }
+
+  private async processCandidateStatus(event: ElectionEvent): Promise<void> {
+    if (!event.validated || event.confidence <= 0.7 || !event.data.candidateId) return;
+    await this.applyCandidateStatus(event, event.data.status);
+  }
+
+  private async applyCandidateStatus(event: ElectionEvent, status: string): Promise<void> {
+    const { candidateStatusService, CandidateStatusError } = await import('./services/candidate-status-service');
+    const { isCandidateStatus } = await import('./lib/candidate-status');
+    if (!isCandidateStatus(status)) return;
+
+    const effectiveDate = new Date(event.data.effectiveDate ?? event.timestamp);
+    try {
+      await candidateStatusService.changeStatus(Number(event.data.candidateId), {
+        status,
+        effectiveDate: isNaN(effectiveDate.getTime()) ? event.timestamp : effectiveDate,
+        source: event.source,
+        sourceUrl: event.data.sourceUrl ?? null,
+        reason: event.data.reason ?? null,
+        onBallot: event.data.onBallot ?? null,
+        advancedToElectionId: event.data.advancedToElectionId ?? null,
+        actor: 'event-processing'
+      });
+    } catch (error) {
+      // Repeated reports of a change already applied are expected from feeds
+      if (!(error instanceof CandidateStatusError)) throw error;
+    }
+  }
+
   // District completion checker
   private async checkDistrictCompletion(electionId: number, districtId: string): Promise<void> {
     const precincts = Array.from(this.precinctData.values())
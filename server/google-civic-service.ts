@@ -16,6 +16,11 @@ export interface GoogleCivicContest {
     name: string;
     scope: string;
   };
+  ballotPlacement?: string;
+  referendumTitle?: string;
+  referendumSubtitle?: string;
+  referendumText?: string;
+  referendumBallotResponses?: string[];
   candidates?: Array<{
     name: string;
     party?: string;
@@ -106,6 +111,14 @@ export class GoogleCivicService {
     contests: Array<{
       office: string;
       candidates: Candidate[];
+      type?: string;
+      level?: string[];
+      district?: { name: string; scope: string };
+      ballotPlacement?: string;
+      referendumTitle?: string;
+      referendumSubtitle?: string;
+      referendumText?: string;
+      referendumBallotResponses?: string[];
     }>;
   } | null> {
     try {
@@ -135,10 +148,20 @@ export class GoogleCivicService {
         pollsClose: null,
         timezone: null,
         isActive: true,
+        votingMethod: 'plurality',
+        rcvRules: null,
       };
 
       const contests = data.contests?.map(contest => ({
         office: contest.office,
+        type: contest.type,
+        level: contest.level,
+        district: contest.district,
+        ballotPlacement: contest.ballotPlacement,
+        referendumTitle: contest.referendumTitle,
+        referendumSubtitle: contest.referendumSubtitle,
+        referendumText: contest.referendumText,
+        referendumBallotResponses: contest.referendumBallotResponses,
         candidates: contest.candidates?.map((candidate, index) => ({
           id: index + 2000, // Offset for Google Civic candidates
           name: candidate.name,
@@ -151,6 +174,14 @@ export class GoogleCivicService {
           isIncumbent: false,
           description: null,
           website: candidate.candidateUrl || null,
+          bioguideId: null,
+          openstatesId: null,
+          fecCandidateId: null,
+          status: 'qualified',
+          statusEffectiveDate: null,
+          onBallot: true,
+          isWriteIn: false,
+          advancedToElectionId: null,
           votesReceived: null,
           votePercentage: null,
           isWinner: false,
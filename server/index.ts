@@ -107,13 +107,93 @@ app.use((req, res, next) => {
     log(`⚠️  Results ingestion service failed to start: ${error.message}`);
   }
   
-  // Graceful shutdown handler for results ingestion service
+  // Keep tracked bills in step with congress.gov for bill watch alerts
+  let billTrackerServiceInstance: any = null;
+  try {
+    const { billTrackerService } = await import("./services/bill-tracker-service");
+    billTrackerServiceInstance = billTrackerService;
+    billTrackerService.startPolling(60);
+    log("✅ Bill tracker sync started (hourly)");
+  } catch (error: any) {
+    log(`⚠️  Bill tracker sync failed to start: ${error.message}`);
+  }
+  
+  // Refresh state legislators, sessions and bills from OpenStates daily
+  let stateLegislatureServiceInstance: any = null;
+  try {
+    const { stateLegislatureService } = await import("./services/state-legislature-service");
+    stateLegislatureServiceInstance = stateLegislatureService;
+    stateLegislatureService.startPolling(24);
+    log("✅ State legislature sync scheduled (daily)");
+  } catch (error: any) {
+    log(`⚠️  State legislature sync failed to start: ${error.message}`);
+  }
+  
+  // Pick up 24- and 48-hour independent expenditure notices between bulk loads
+  let outsideSpendingServiceInstance: any = null;
+  try {
+    const { outsideSpendingService } = await import("./services/outside-spending-service");
+    outsideSpendingServiceInstance = outsideSpendingService;
+    outsideSpendingService.startPolling(30);
+    log("✅ Outside spending notice sync scheduled (every 30 minutes)");
+  } catch (error: any) {
+    log(`⚠️  Outside spending notice sync failed to start: ${error.message}`);
+  }
+  
+  // Daily and weekly digests go out at each user's local delivery time
+  let digestServiceInstance: any = null;
+  try {
+    const { digestService } = await import("./services/digest-service");
+    digestServiceInstance = digestService;
+    digestService.startPolling(5);
+    log("✅ Digest scheduler started (every 5 minutes)");
+  } catch (error: any) {
+    log(`⚠️  Digest scheduler failed to start: ${error.message}`);
+  }
+  
+  // Recompute the joint midterm forecast; the public routes serve stored runs
+  let forecastServiceInstance: any = null;
+  try {
+    const { forecastService } = await import("./services/forecast-service");
+    forecastServiceInstance = forecastService;
+    forecastService.startPolling(6);
+    log("✅ Midterm forecast refresh scheduled (every 6 hours)");
+  } catch (error: any) {
+    log(`⚠️  Midterm forecast refresh failed to start: ${error.message}`);
+  }
+  
+  // Parse TIGER district boundaries now so address lookups never read files
+  import("./services/district-boundary-service")
+    .then(({ districtBoundaryService }) => districtBoundaryService.ensureLoaded())
+    .then(report => log(`✅ District boundaries loaded (${report.features} districts)`))
+    .catch(error => log(`⚠️  District boundaries failed to load: ${error.message}`));
+  
+  // Graceful shutdown handler for results ingestion and the data syncs
   const shutdownHandler = () => {
     log("🛑 Shutting down gracefully...");
     if (resultsIngestionServiceInstance) {
       resultsIngestionServiceInstance.stopPolling();
       log("✅ Results ingestion service stopped");
     }
+    if (billTrackerServiceInstance) {
+      billTrackerServiceInstance.stopPolling();
+    }
+    if (stateLegislatureServiceInstance) {
+      stateLegislatureServiceInstance.stopPolling();
+    }
+    if (outsideSpendingServiceInstance) {
+      outsideSpendingServiceInstance.stopPolling();
+    }
+    if (digestServiceInstance) {
+      digestServiceInstance.stopPolling();
+    }
+    if (forecastServiceInstance) {
+      forecastServiceInstance.stopPolling();
+    }
+    // Hand leased notifications back so another worker sends them straight away
+    import("./services/notification-queue-service")
+      .then(({ notificationQueueService }) => notificationQueueService.stop())
+      .catch(error => log(`⚠️  Failed to release notification leases: ${error.message}`));
   };
   
   process.on('SIGTERM', shutdownHandler);
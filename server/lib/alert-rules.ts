@@ -0,0 +1,328 @@
+/**
+ * Alert rule language
+ * A small expression language users write alert rules in, e.g.
+ *
+ *   election.office contains "Senate" and election.state in ("AZ", "GA") and leader changed
+ *   eventType == "candidate_update" and status in ("withdrawn", "disqualified")
+ *
+ * Comparisons are ==, !=, >, >=, <, <=, contains, in (...), "changed" and
+ * "exists", combined with and, or, not and parentheses. Each comparison
+ * compiles to a condition the alert engine's triggers use too. A field
+ * has changed when the event carries a different previous value, either
+ * as previousField (previousStage, previousStatus) or under previous.
+ * Pure functions only - persistence and delivery live in
+ * alert-rule-service.
+ */
+
+export const CONDITION_OPERATORS = [
+  'equals', 'not_equals', 'contains', 'in',
+  'greater_than', 'less_than', 'at_least', 'at_most',
+  'changed', 'not_null'
+] as const;
+export type ConditionOperator = typeof CONDITION_OPERATORS[number];
+
+export interface RuleCondition {
+  field: string;
+  operator: ConditionOperator;
+  value: any;
+  previous?: any; // For change detection
+}
+
+export type RuleNode =
+  | { kind: 'and' | 'or'; children: RuleNode[] }
+  | { kind: 'not'; child: RuleNode }
+  | { kind: 'condition'; condition: RuleCondition };
+
+export const MAX_EXPRESSION_LENGTH = 500;
+export const MAX_CONDITIONS = 20;
+
+/** A rule that does not parse - reported with where it went wrong */
+export class RuleSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'RuleSyntaxError';
+  }
+}
+
+type Token =
+  | { type: 'word'; value: string; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'number'; value: number; position: number }
+  | { type: 'symbol'; value: string; position: number };
+
+const SYMBOLS = ['==', '!=', '>=', '<=', '>', '<', '(', ')', ','];
+
+const COMPARISONS: Record<string, ConditionOperator> = {
+  '==': 'equals',
+  '!=': 'not_equals',
+  '>': 'greater_than',
+  '<': 'less_than',
+  '>=': 'at_least',
+  '<=': 'at_most',
+  contains: 'contains'
+};
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const char = expression[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const end = expression.indexOf(char, i + 1);
+      if (end === -1) throw new RuleSyntaxError('Unterminated string', i);
+      tokens.push({ type: 'string', value: expression.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+    const number = /^-?\d+(\.\d+)?/.exec(expression.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+    const word = /^[A-Za-z_][\w.]*/.exec(expression.slice(i));
+    if (word) {
+      tokens.push({ type: 'word', value: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+    const symbol = SYMBOLS.find(s => expression.startsWith(s, i));
+    if (symbol) {
+      tokens.push({ type: 'symbol', value: symbol, position: i });
+      i += symbol.length;
+      continue;
+    }
+    throw new RuleSyntaxError(`Unexpected "${char}"`, i);
+  }
+  return tokens;
+}
+
+function isKeyword(token: Token | undefined, keyword: string): boolean {
+  return token?.type === 'word' && token.value.toLowerCase() === keyword;
+}
+
+/**
+ * Parse a rule expression. Throws RuleSyntaxError on bad input, including
+ * rules over the length or condition limits.
+ */
+export function parseRule(expression: string): RuleNode {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new RuleSyntaxError(`Rules are limited to ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+  }
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) throw new RuleSyntaxError('Empty rule', 0);
+
+  let pos = 0;
+  let conditions = 0;
+  const peek = () => tokens[pos];
+  const end = () => (tokens.length > 0 ? tokens[tokens.length - 1].position + 1 : 0);
+  const expect = (value: string) => {
+    const token = tokens[pos];
+    if (token?.type !== 'symbol' || token.value !== value) {
+      throw new RuleSyntaxError(`Expected "${value}"`, token?.position ?? end());
+    }
+    pos++;
+  };
+
+  const literal = (): string | number | boolean | null => {
+    const token = tokens[pos++];
+    if (!token) throw new RuleSyntaxError('Expected a value', end());
+    if (token.type === 'string' || token.type === 'number') return token.value;
+    if (isKeyword(token, 'true')) return true;
+    if (isKeyword(token, 'false')) return false;
+    if (isKeyword(token, 'null')) return null;
+    throw new RuleSyntaxError('Expected a quoted string, number, true, false or null', token.position);
+  };
+
+  const comparison = (): RuleNode => {
+    const fieldToken = tokens[pos++];
+    if (fieldToken?.type !== 'word') {
+      throw new RuleSyntaxError('Expected a field name', fieldToken?.position ?? end());
+    }
+    if (++conditions > MAX_CONDITIONS) {
+      throw new RuleSyntaxError(`Rules are limited to ${MAX_CONDITIONS} conditions`, fieldToken.position);
+    }
+    const field = fieldToken.value;
+    const opToken = tokens[pos++];
+    if (!opToken) throw new RuleSyntaxError(`Expected a comparison after "${field}"`, end());
+
+    if (isKeyword(opToken, 'changed')) return { kind: 'condition', condition: { field, operator: 'changed', value: null } };
+    if (isKeyword(opToken, 'exists')) return { kind: 'condition', condition: { field, operator: 'not_null', value: null } };
+    if (isKeyword(opToken, 'in')) {
+      expect('(');
+      const values = [literal()];
+      while (peek()?.type === 'symbol' && peek().value === ',') {
+        pos++;
+        values.push(literal());
+      }
+      expect(')');
+      return { kind: 'condition', condition: { field, operator: 'in', value: values } };
+    }
+    const key = opToken.type === 'word' ? opToken.value.toLowerCase() : opToken.type === 'symbol' ? opToken.value : '';
+    const operator = Object.prototype.hasOwnProperty.call(COMPARISONS, key) ? COMPARISONS[key] : undefined;
+    if (!operator) {
+      throw new RuleSyntaxError(`Unknown comparison "${opToken.value}"`, opToken.position);
+    }
+    return { kind: 'condition', condition: { field, operator, value: literal() } };
+  };
+
+  const primary = (): RuleNode => {
+    if (isKeyword(peek(), 'not')) {
+      pos++;
+      return { kind: 'not', child: primary() };
+    }
+    if (peek()?.type === 'symbol' && peek().value === '(') {
+      pos++;
+      const node = or();
+      expect(')');
+      return node;
+    }
+    return comparison();
+  };
+
+  const and = (): RuleNode => {
+    const children = [primary()];
+    while (isKeyword(peek(), 'and')) {
+      pos++;
+      children.push(primary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const or = (): RuleNode => {
+    const children = [and()];
+    while (isKeyword(peek(), 'or')) {
+      pos++;
+      children.push(and());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  const tree = or();
+  if (pos < tokens.length) {
+    throw new RuleSyntaxError(`Unexpected "${tokens[pos].value}"`, tokens[pos].position);
+  }
+  return tree;
+}
+
+/** Why the expression is not a valid rule, or null when it is */
+export function validateRule(expression: string): string | null {
+  try {
+    parseRule(expression);
+    return null;
+  } catch (error) {
+    if (error instanceof RuleSyntaxError) return error.message;
+    throw error;
+  }
+}
+
+/** Every field a rule reads, for showing users what it depends on */
+export function ruleFields(node: RuleNode): string[] {
+  switch (node.kind) {
+    case 'condition': return [node.condition.field];
+    case 'not': return ruleFields(node.child);
+    default: return Array.from(new Set(node.children.flatMap(ruleFields)));
+  }
+}
+
+export function fieldValue(fields: Record<string, any>, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), fields as any);
+}
+
+function previousValue(fields: Record<string, any>, path: string): any {
+  const nested = fieldValue(fields, `previous.${path}`);
+  if (nested !== undefined) return nested;
+  const parts = path.split('.');
+  const last = parts.pop()!;
+  return fieldValue(fields, [...parts, `previous${last.charAt(0).toUpperCase()}${last.slice(1)}`].join('.'));
+}
+
+function toNumber(value: any): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+// Strings compare case-insensitively and numeric strings as numbers, so
+// "az" matches "AZ" and a numeric column's "2.50" matches 2.5
+function same(a: any, b: any): boolean {
+  if (typeof a === 'string' && typeof b === 'string') return a.toLowerCase() === b.toLowerCase();
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x !== null && y !== null) return x === y;
+  return a === b;
+}
+
+export function evaluateCondition(condition: RuleCondition, fields: Record<string, any>): boolean {
+  const value = fieldValue(fields, condition.field);
+  const number = toNumber(value);
+  const target = toNumber(condition.value);
+
+  switch (condition.operator) {
+    case 'equals':
+      return same(value, condition.value);
+    case 'not_equals':
+      return value !== undefined && !same(value, condition.value);
+    case 'contains':
+      if (Array.isArray(value)) return value.some(item => same(item, condition.value));
+      return typeof value === 'string' && value.toLowerCase().includes(String(condition.value).toLowerCase());
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.some((option: any) => same(value, option));
+    case 'greater_than':
+      return number !== null && target !== null && number > target;
+    case 'less_than':
+      return number !== null && target !== null && number < target;
+    case 'at_least':
+      return number !== null && target !== null && number >= target;
+    case 'at_most':
+      return number !== null && target !== null && number <= target;
+    case 'not_null':
+      return value != null;
+    case 'changed': {
+      const previous = condition.previous !== undefined ? condition.previous : previousValue(fields, condition.field);
+      return previous !== undefined && JSON.stringify(previous) !== JSON.stringify(value);
+    }
+    default:
+      return false;
+  }
+}
+
+export function evaluateRule(node: RuleNode, fields: Record<string, any>): boolean {
+  switch (node.kind) {
+    case 'condition': return evaluateCondition(node.condition, fields);
+    case 'not': return !evaluateRule(node.child, fields);
+    case 'and': return node.children.every(child => evaluateRule(child, fields));
+    case 'or': return node.children.some(child => evaluateRule(child, fields));
+  }
+}
+
+/**
+ * The fields rules see for an event: its data, plus its type and
+ * priority and the race and candidate it concerns
+ */
+export function eventFields(
+  event: { eventType: string; eventData: unknown; priority?: string | null; source?: string | null },
+  election?: { id: number; title: string; state: string; level: string; type: string; offices?: string[] | null; date: Date } | null,
+  candidate?: { id: number; name: string; party: string } | null
+): Record<string, any> {
+  return {
+    ...(event.eventData && typeof event.eventData === 'object' ? event.eventData as Record<string, any> : {}),
+    eventType: event.eventType,
+    priority: event.priority ?? 'normal',
+    source: event.source ?? null,
+    election: election ? {
+      id: election.id,
+      title: election.title,
+      state: election.state,
+      level: election.level,
+      type: election.type,
+      office: election.offices?.join(', ') ?? election.title,
+      date: election.date
+    } : null,
+    candidate: candidate ? { id: candidate.id, name: candidate.name, party: candidate.party } : null
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Ballot measure helpers
+ * Outcome against the measure's passage threshold, how a measure reads on
+ * a sample ballot, and how relevant an upcoming measure is to a voter for
+ * recommendations.
+ * Pure functions only - storage lives in ballot-measure-service.
+ */
+
+import type { SourceContest } from './sample-ballot';
+
+export const PASSAGE_THRESHOLDS = {
+  majority: 0.5,
+  '55_percent': 0.55,
+  three_fifths: 0.6,
+  two_thirds: 2 / 3
+} as const;
+
+export type PassageThreshold = keyof typeof PASSAGE_THRESHOLDS;
+
+export type MeasurePosition = 'support' | 'oppose';
+
+export interface MeasureEndorsement {
+  name: string;
+  position: MeasurePosition;
+  type?: string | null;   // 'party', 'organization', 'official', 'newspaper'
+  url?: string | null;
+}
+
+export interface MeasureCommittee {
+  name: string;
+  fecId?: string | null;
+  stateId?: string | null;
+  url?: string | null;
+  raised?: number | null;
+}
+
+/** The measure fields these helpers read */
+export interface MeasureLike {
+  id: number;
+  state: string;
+  jurisdiction: string | null;
+  level: string;
+  electionDate: Date | string;
+  measureNumber: string | null;
+  title: string;
+  summary: string | null;
+  passageThreshold: string | null;
+  yesVotes: number | null;
+  noVotes: number | null;
+  status: string | null;
+  tags: string[] | null;
+}
+
+export interface MeasureOutcome {
+  totalVotes: number;
+  yesShare: number | null;
+  noShare: number | null;
+  threshold: number;
+  /** null until votes are in */
+  passing: boolean | null;
+}
+
+export function thresholdFor(passageThreshold: string | null | undefined): number {
+  return PASSAGE_THRESHOLDS[(passageThreshold ?? 'majority') as PassageThreshold] ?? PASSAGE_THRESHOLDS.majority;
+}
+
+/**
+ * Where the count stands against the threshold. A simple majority needs
+ * more yes than no; a supermajority needs at least its share of the votes
+ * cast on the measure.
+ */
+export function measureOutcome(measure: Pick<MeasureLike, 'yesVotes' | 'noVotes' | 'passageThreshold'>): MeasureOutcome {
+  const yes = measure.yesVotes ?? 0;
+  const no = measure.noVotes ?? 0;
+  const totalVotes = yes + no;
+  const threshold = thresholdFor(measure.passageThreshold);
+
+  if (totalVotes === 0) {
+    return { totalVotes, yesShare: null, noShare: null, threshold, passing: null };
+  }
+
+  const yesShare = yes / totalVotes;
+  const passing = threshold === PASSAGE_THRESHOLDS.majority ? yes > no : yesShare >= threshold;
+  return { totalVotes, yesShare, noShare: no / totalVotes, threshold, passing };
+}
+
+/** 'Proposition 1: Housing Bond', or just the title when unnumbered */
+export function measureLabel(measure: Pick<MeasureLike, 'measureNumber' | 'title'>): string {
+  return measure.measureNumber ? `${measure.measureNumber}: ${measure.title}` : measure.title;
+}
+
+/**
+ * The measure as a ballot source contest. The number is the title, as
+ * Google Civic reports referenda, so both sources land on the same
+ * sample-ballot contest.
+ */
+export function measureToSourceContest(measure: MeasureLike): SourceContest {
+  return {
+    type: 'Referendum',
+    level: [measure.level === 'state' ? 'administrativeArea1' : measure.level === 'county' ? 'administrativeArea2' : 'locality'],
+    district: measure.jurisdiction ? { name: measure.jurisdiction } : null,
+    referendumTitle: measure.measureNumber ?? measure.title,
+    referendumSubtitle: measure.measureNumber ? measure.title : undefined,
+    referendumText: measure.summary ?? undefined,
+    referendumBallotResponses: ['Yes', 'No'],
+    measureId: measure.id
+  };
+}
+
+/**
+ * Statewide measures plus the local ones for the places the voter lives
+ * in (county and city names, loosely compared: 'Sonoma' matches
+ * 'Sonoma County')
+ */
+export function measuresForPlaces<T extends Pick<MeasureLike, 'jurisdiction'>>(measures: T[], places: Array<string | null | undefined>): T[] {
+  const names = places
+    .filter((place): place is string => !!place)
+    .map(place => place.toLowerCase().replace(/^(city|town|village) of /, '').replace(/ (county|parish|city)$/, '').trim())
+    .filter(Boolean);
+  return measures.filter(measure => {
+    if (!measure.jurisdiction) return true;
+    const jurisdiction = measure.jurisdiction.toLowerCase();
+    return names.some(name => jurisdiction.includes(name));
+  });
+}
+
+export function endorsementsByPosition(endorsements: MeasureEndorsement[] | null | undefined): Record<MeasurePosition, MeasureEndorsement[]> {
+  const list = endorsements ?? [];
+  return {
+    support: list.filter(e => e.position === 'support'),
+    oppose: list.filter(e => e.position === 'oppose')
+  };
+}
+
+/** Add or replace an endorsement, keyed by endorser name */
+export function upsertEndorsement(endorsements: MeasureEndorsement[] | null | undefined, endorsement: MeasureEndorsement): MeasureEndorsement[] {
+  const key = endorsement.name.trim().toLowerCase();
+  return [...(endorsements ?? []).filter(e => e.name.trim().toLowerCase() !== key), endorsement];
+}
+
+export interface MeasureInterest {
+  state?: string | null;
+  city?: string | null;
+  issueInterests?: string[] | null;
+  localElectionsInterest?: boolean | null;
+}
+
+/**
+ * How relevant an upcoming measure is to a voter - zero when it is not
+ * on their ballot at all
+ */
+export function scoreMeasureForUser(
+  measure: MeasureLike,
+  interest: MeasureInterest,
+  now: Date = new Date()
+): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  if (!interest.state || measure.state !== interest.state) return { score: 0, reasons };
+
+  let score = 0;
+  if (!measure.jurisdiction) {
+    score += 50;
+    reasons.push(`Statewide measure in ${measure.state}`);
+  } else if (interest.city && measure.jurisdiction.toLowerCase().includes(interest.city.toLowerCase())) {
+    score += interest.localElectionsInterest ? 45 : 35;
+    reasons.push(`On the ballot in ${measure.jurisdiction}`);
+  } else {
+    return { score: 0, reasons };
+  }
+
+  const interests = (interest.issueInterests ?? []).map(i => i.toLowerCase());
+  const matched = (measure.tags ?? []).filter(tag => interests.includes(tag.toLowerCase()));
+  if (matched.length > 0) {
+    score += 20;
+    reasons.push(`Matches your interest in ${matched.join(', ')}`);
+  }
+
+  const days = Math.floor((new Date(measure.electionDate).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+  if (days >= 0 && days <= 30) {
+    score += 15;
+    reasons.push('Vote coming soon');
+  }
+
+  return { score, reasons };
+}
@@ -0,0 +1,275 @@
+/**
+ * Legislation tracker
+ * Normalizes congress.gov bill actions, committee referrals and summaries,
+ * and derives a bill's lifecycle stage from its action history:
+ * introduced -> committee -> floor -> other chamber -> president -> law.
+ * Pure functions only - fetching, storage and watch alerts live in
+ * bill-tracker-service.
+ */
+
+export const BILL_STAGES = ['introduced', 'committee', 'floor', 'other_chamber', 'president', 'law'] as const;
+
+/** The main path plus the ends that leave it: a veto, or a resolution agreed to */
+export type BillStage = typeof BILL_STAGES[number] | 'vetoed' | 'agreed_to';
+
+const STAGE_RANK: Record<BillStage, number> = {
+  introduced: 0,
+  committee: 1,
+  floor: 2,
+  other_chamber: 3,
+  president: 4,
+  vetoed: 5,
+  law: 6,
+  agreed_to: 6
+};
+
+const STAGE_LABELS: Record<BillStage, string> = {
+  introduced: 'Introduced',
+  committee: 'In committee',
+  floor: 'On the floor',
+  other_chamber: 'In the other chamber',
+  president: 'To the President',
+  vetoed: 'Vetoed',
+  law: 'Became law',
+  agreed_to: 'Agreed to'
+};
+
+const BILL_LABELS: Record<string, string> = {
+  hr: 'H.R.',
+  s: 'S.',
+  hjres: 'H.J.Res.',
+  sjres: 'S.J.Res.',
+  hconres: 'H.Con.Res.',
+  sconres: 'S.Con.Res.',
+  hres: 'H.Res.',
+  sres: 'S.Res.'
+};
+
+export function isBillStage(value: string | null | undefined): value is BillStage {
+  return !!value && value in STAGE_RANK;
+}
+
+export function stageRank(stage: BillStage): number {
+  return STAGE_RANK[stage];
+}
+
+export function stageLabel(stage: string | null | undefined): string {
+  return isBillStage(stage) ? STAGE_LABELS[stage] : 'Unknown';
+}
+
+/** 'hr', '21' -> 'H.R. 21' */
+export function billLabel(type: string, number: string | number): string {
+  const key = type.toLowerCase();
+  return `${BILL_LABELS[key] ?? key.toUpperCase()} ${number}`;
+}
+
+const URL_SEGMENTS: Record<string, string> = {
+  hr: 'house-bill',
+  s: 'senate-bill',
+  hjres: 'house-joint-resolution',
+  sjres: 'senate-joint-resolution',
+  hconres: 'house-concurrent-resolution',
+  sconres: 'senate-concurrent-resolution',
+  hres: 'house-resolution',
+  sres: 'senate-resolution'
+};
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+/** The bill's congress.gov page */
+export function billUrl(congress: number, type: string, number: string | number): string {
+  const segment = URL_SEGMENTS[type.toLowerCase()] ?? type.toLowerCase();
+  return `https://www.congress.gov/bill/${ordinal(congress)}-congress/${segment}/${number}`;
+}
+
+export function originChamberFor(type: string): 'House' | 'Senate' {
+  return type.toLowerCase().startsWith('h') ? 'House' : 'Senate';
+}
+
+/** The Congress in session on a date: the 119th runs January 2025 - January 2027 */
+export function currentCongress(date: Date = new Date()): number {
+  // A new Congress convenes January 3 of odd years
+  const beforeConvening = date.getUTCMonth() === 0 && date.getUTCDate() < 3;
+  const year = date.getUTCFullYear() - (beforeConvening ? 1 : 0);
+  return Math.floor((year - 1789) / 2) + 1;
+}
+
+// ============================================================================
+// NORMALIZING
+// ============================================================================
+
+export interface NormalizedAction {
+  actionKey: string;
+  actionDate: Date | null;
+  chamber: 'House' | 'Senate' | null;
+  actionCode: string | null;
+  actionType: string | null;
+  text: string;
+}
+
+/** Short stable digest of an action's text (djb2), so repeats dedupe */
+function digest(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function chamberFromSource(name: string | null | undefined): 'House' | 'Senate' | null {
+  const value = (name ?? '').toLowerCase();
+  if (value.includes('house')) return 'House';
+  if (value.includes('senate')) return 'Senate';
+  return null;
+}
+
+/** One entry of the congress.gov bill actions list */
+export function normalizeAction(raw: any): NormalizedAction {
+  const text = String(raw.text ?? '').replace(/\s+/g, ' ').trim();
+  const date = raw.actionDate ? String(raw.actionDate).slice(0, 10) : '';
+  const chamber = chamberFromSource(raw.sourceSystem?.name);
+  const actionCode = raw.actionCode ? String(raw.actionCode) : null;
+  return {
+    actionKey: [date, actionCode ?? '', chamber ?? '', digest(text)].join('|'),
+    actionDate: date ? new Date(`${date}T${raw.actionTime ?? '00:00:00'}Z`) : null,
+    chamber,
+    actionCode,
+    actionType: raw.type ?? null,
+    text
+  };
+}
+
+/**
+ * congress.gov's list (newest first) as one entry per action key, oldest
+ * first. The chamber and the Library of Congress each report some actions,
+ * under different codes, so both entries are kept.
+ */
+export function normalizeActions(raw: any[]): NormalizedAction[] {
+  const byKey = new Map<string, NormalizedAction>();
+  raw.map(normalizeAction).forEach(action => {
+    if (!byKey.has(action.actionKey)) byKey.set(action.actionKey, action);
+  });
+  return Array.from(byKey.values()).reverse()
+    .sort((a, b) => (a.actionDate?.getTime() ?? 0) - (b.actionDate?.getTime() ?? 0));
+}
+
+export interface NormalizedReferral {
+  systemCode: string;
+  name: string;
+  chamber: string | null;
+  activities: Array<{ name: string; date: string | null }>;
+}
+
+/** The congress.gov bill committees list; subcommittee activity is folded into its committee */
+export function normalizeReferrals(raw: any[]): NormalizedReferral[] {
+  return raw.filter(c => c?.systemCode).map(committee => {
+    const activities = [
+      ...(committee.activities ?? []),
+      ...(committee.subcommittees ?? []).flatMap((sub: any) =>
+        (sub.activities ?? []).map((a: any) => ({ ...a, name: `${a.name} (${sub.name})` })))
+    ];
+    return {
+      systemCode: String(committee.systemCode),
+      name: committee.name,
+      chamber: committee.chamber ?? null,
+      activities: activities
+        .map((a: any) => ({ name: String(a.name), date: a.date ? String(a.date).slice(0, 10) : null }))
+        .sort((a: { date: string | null }, b: { date: string | null }) => (a.date ?? '').localeCompare(b.date ?? ''))
+    };
+  });
+}
+
+/** Latest CRS summary as plain text */
+export function latestSummaryText(summaries: any[]): string | null {
+  const latest = [...summaries].sort((a, b) =>
+    String(b.updateDate ?? b.actionDate ?? '').localeCompare(String(a.updateDate ?? a.actionDate ?? '')))[0];
+  if (!latest?.text) return null;
+  return String(latest.text)
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim() || null;
+}
+
+/** Text the full-text index covers */
+export function buildSearchText(bill: { title: string; summary?: string | null; policyArea?: string | null; subjects?: string[] | null }): string {
+  return [bill.title, bill.policyArea, ...(bill.subjects ?? []), bill.summary].filter(Boolean).join(' \n');
+}
+
+// ============================================================================
+// STAGE
+// ============================================================================
+
+const PASSAGE = /(?:passed\/agreed to in|^passed|^(?:concurrent |joint )?resolution agreed to in)\s+(house|senate)/i;
+
+/**
+ * The furthest stage the action history reaches, and when it got there.
+ * Passing the origin chamber moves a bill to the other chamber; simple
+ * resolutions end at agreed to, concurrent ones once both chambers agree.
+ */
+export function deriveStage(billType: string, actions: NormalizedAction[]): { stage: BillStage; stageDate: Date | null } {
+  const type = billType.toLowerCase();
+  const simple = type === 'hres' || type === 'sres';
+  const concurrent = type === 'hconres' || type === 'sconres';
+  const passed = new Set<string>();
+
+  let stage: BillStage = 'introduced';
+  let stageDate: Date | null = actions[0]?.actionDate ?? null;
+  const reach = (next: BillStage, date: Date | null) => {
+    if (STAGE_RANK[next] > STAGE_RANK[stage]) {
+      stage = next;
+      stageDate = date;
+    }
+  };
+
+  for (const action of actions) {
+    const text = action.text.toLowerCase();
+    const kind = (action.actionType ?? '').toLowerCase();
+    const passage = action.text.match(PASSAGE);
+
+    if (kind === 'becamelaw' || /became (public|private) law/.test(text)) {
+      reach('law', action.actionDate);
+    } else if (kind === 'veto' || /(pocket )?vetoed by (the )?president/.test(text)) {
+      reach('vetoed', action.actionDate);
+    } else if (kind === 'president' || /presented to (the )?president/.test(text)) {
+      reach('president', action.actionDate);
+    } else if (passage) {
+      passed.add(passage[1].toLowerCase());
+      if (simple || (concurrent && passed.size === 2)) {
+        reach('agreed_to', action.actionDate);
+      } else {
+        reach('other_chamber', action.actionDate);
+      }
+    } else if (kind === 'floor' || kind === 'calendars' || /placed on .*calendar/.test(text)) {
+      reach('floor', action.actionDate);
+    } else if (kind === 'committee' || kind === 'discharge' || /referred to (the )?(committee|subcommittee|house|senate)/.test(text)) {
+      reach('committee', action.actionDate);
+    }
+  }
+
+  return { stage, stageDate };
+}
+
+/** One-line alert text for a watched bill's new stage or latest action */
+export function describeBillUpdate(
+  bill: { type: string; billNumber: string; title: string },
+  previousStage: string | null,
+  stage: string,
+  latestAction: { text: string } | null
+): string {
+  const label = billLabel(bill.type, bill.billNumber);
+  const title = bill.title.length > 80 ? `${bill.title.slice(0, 77)}...` : bill.title;
+  const action = latestAction ? ` Latest action: ${latestAction.text}` : '';
+  if (previousStage !== stage) {
+    return `${label} (${title}) is now ${stageLabel(stage).toLowerCase()}.${action}`;
+  }
+  return `${label} (${title}) has a new action.${action}`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Candidate status lifecycle
+ * The states a candidacy moves through - filed, qualified or certified as
+ * a write-in, advanced to a runoff, withdrawn or disqualified - which
+ * transitions are allowed, whether the candidate still appears on the
+ * ballot, and which candidates listings should show.
+ * Pure functions only - history and notifications live in
+ * candidate-status-service.
+ */
+
+export const CANDIDATE_STATUSES = ['filed', 'qualified', 'write_in', 'advanced', 'withdrawn', 'disqualified'] as const;
+export type CandidateStatus = typeof CANDIDATE_STATUSES[number];
+
+const TRANSITIONS: Record<CandidateStatus, CandidateStatus[]> = {
+  filed: ['qualified', 'write_in', 'withdrawn', 'disqualified'],
+  qualified: ['advanced', 'withdrawn', 'disqualified'],
+  write_in: ['advanced', 'withdrawn', 'disqualified'],
+  advanced: ['withdrawn', 'disqualified'],
+  // Reinstatement, e.g. after a court overturns a disqualification
+  withdrawn: ['filed', 'qualified', 'write_in'],
+  disqualified: ['filed', 'qualified', 'write_in']
+};
+
+const INACTIVE: CandidateStatus[] = ['withdrawn', 'disqualified'];
+
+export const STATUS_LABELS: Record<CandidateStatus, string> = {
+  filed: 'Filed',
+  qualified: 'Qualified',
+  write_in: 'Write-in',
+  advanced: 'Advanced to runoff',
+  withdrawn: 'Withdrawn',
+  disqualified: 'Disqualified'
+};
+
+export function isCandidateStatus(value: unknown): value is CandidateStatus {
+  return typeof value === 'string' && (CANDIDATE_STATUSES as readonly string[]).includes(value);
+}
+
+/** Why a transition is not allowed, or null when it is */
+export function transitionError(from: string | null | undefined, to: CandidateStatus): string | null {
+  const current = isCandidateStatus(from) ? from : 'filed';
+  if (current === to) return `Candidate is already ${STATUS_LABELS[to].toLowerCase()}`;
+  if (!TRANSITIONS[current].includes(to)) {
+    return `Cannot move a candidate from ${STATUS_LABELS[current].toLowerCase()} to ${STATUS_LABELS[to].toLowerCase()}`;
+  }
+  return null;
+}
+
+/**
+ * Whether the candidate's name is printed on the ballot after the change.
+ * Qualifying or advancing puts them on it and write-ins never are; a
+ * withdrawal or disqualification after ballots are printed leaves the name
+ * on, so those keep the current flag unless the source says otherwise.
+ */
+export function ballotAppearance(to: CandidateStatus, currentlyOnBallot: boolean, reported?: boolean | null): boolean {
+  if (to === 'write_in') return false;
+  if (reported != null) return reported;
+  if (to === 'qualified' || to === 'advanced') return true;
+  if (to === 'filed') return false;
+  return currentlyOnBallot;
+}
+
+export function isActiveStatus(status: string | null | undefined): boolean {
+  return !INACTIVE.includes(status as CandidateStatus);
+}
+
+/**
+ * Candidates a race listing shows: everyone still running, plus withdrawn
+ * or disqualified candidates whose names remain on the ballot
+ */
+export function listedCandidates<T extends { status?: string | null; onBallot?: boolean | null }>(
+  candidates: T[],
+  includeInactive = false
+): T[] {
+  if (includeInactive) return candidates;
+  return candidates.filter(c => isActiveStatus(c.status) || c.onBallot === true);
+}
+
+/** The status fields listing endpoints return with each candidate */
+export function statusFields(candidate: {
+  status?: string | null;
+  statusEffectiveDate?: Date | string | null;
+  onBallot?: boolean | null;
+  isWriteIn?: boolean | null;
+  advancedToElectionId?: number | null;
+}) {
+  return {
+    status: candidate.status ?? 'qualified',
+    statusEffectiveDate: candidate.statusEffectiveDate ?? null,
+    onBallot: candidate.onBallot ?? true,
+    isWriteIn: candidate.isWriteIn ?? false,
+    isActive: isActiveStatus(candidate.status),
+    advancedToElectionId: candidate.advancedToElectionId ?? null
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Delimited text parsing
+ * RFC 4180 CSV - quoted fields, doubled quotes, embedded delimiters and
+ * newlines - with a configurable delimiter, for bulk data dumps such as
+ * the OpenStates CSV exports.
+ * Pure functions only.
+ */
+
+/** Every row as an array of raw field strings */
+export function parseDelimitedRows(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Skip a UTF-8 byte-order mark
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+}
+
+/** Rows keyed by the header row's column names */
+export function parseCsv(text: string, delimiter: string = ','): Array<Record<string, string>> {
+  const [header, ...rows] = parseDelimitedRows(text, delimiter);
+  if (!header) return [];
+  const columns = header.map(name => name.trim());
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = row[index] ?? '';
+    });
+    return record;
+  });
+}
+
+/**
+ * parseCsv over a stream of lines, e.g. from readline, so large files are
+ * never held in memory whole. A quoted field that spans lines is rejoined
+ * before parsing - an odd count of quotes means the row is still open.
+ */
+export async function* parseCsvLines(
+  lines: AsyncIterable<string>,
+  delimiter: string = ','
+): AsyncGenerator<Record<string, string>> {
+  let columns: string[] | null = null;
+  let pending = '';
+  let quotes = 0;
+
+  for await (const line of lines) {
+    pending = pending ? `${pending}\n${line}` : line;
+    quotes += line.split('"').length - 1;
+    if (quotes % 2 !== 0) continue;
+
+    const [row] = parseDelimitedRows(pending, delimiter);
+    pending = '';
+    quotes = 0;
+    if (!row) continue;
+    if (!columns) {
+      columns = row.map(name => name.trim());
+      continue;
+    }
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = row[index] ?? '';
+    });
+    yield record;
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Cast vote record parsers
+ * Turns the common CVR JSON exports into ranked ballots per contest:
+ * Dominion CvrExport.json (with its candidate and contest manifests),
+ * NIST SP 1500-103 CastVoteRecordReport JSON, and a simple
+ * {candidates, ballots} format for hand-built or converted files.
+ * Pure functions only - tabulation lives in rcv-tabulation.
+ */
+
+import type { RankedBallot, RankedChoice } from './rcv-tabulation';
+
+export type CvrFormat = 'simple' | 'dominion' | 'nist';
+
+export interface CvrContest {
+  contestId: string;
+  contestName: string;
+  candidates: string[];
+  maxRankings: number | null;
+  ballots: RankedBallot[];
+}
+
+export interface CvrManifests {
+  candidates?: any; // Dominion CandidateManifest.json
+  contests?: any;   // Dominion ContestManifest.json
+}
+
+export interface ParsedCvr {
+  format: CvrFormat;
+  contests: CvrContest[];
+}
+
+/**
+ * Guess the export format from its shape
+ */
+export function detectCvrFormat(payload: any): CvrFormat | null {
+  if (!payload || typeof payload !== 'object') return null;
+  if (Array.isArray(payload.Sessions)) return 'dominion';
+  if (Array.isArray(payload.CVR) || String(payload['@type'] ?? '').includes('CastVoteRecordReport')) return 'nist';
+  if (Array.isArray(payload.ballots) || Array.isArray(payload.contests)) return 'simple';
+  return null;
+}
+
+export function parseCvr(payload: any, format?: CvrFormat | null, manifests: CvrManifests = {}): ParsedCvr {
+  const resolved = format ?? detectCvrFormat(payload);
+  switch (resolved) {
+    case 'dominion':
+      return { format: resolved, contests: parseDominionCvr(payload, manifests) };
+    case 'nist':
+      return { format: resolved, contests: parseNistCvr(payload) };
+    case 'simple':
+      return { format: resolved, contests: parseSimpleCvr(payload) };
+    default:
+      throw new Error('Unrecognized cast vote record format');
+  }
+}
+
+/**
+ * Collapse marks (rank -> candidates) into a rankings array with skipped
+ * ranks as null and overvoted ranks as arrays
+ */
+function toRankings(marks: Array<{ rank: number; candidate: string }>, maxRankings: number | null): RankedChoice[] {
+  if (marks.length === 0) return [];
+  const byRank = new Map<number, Set<string>>();
+  for (const mark of marks) {
+    if (!Number.isFinite(mark.rank) || mark.rank < 1) continue;
+    if (!byRank.has(mark.rank)) byRank.set(mark.rank, new Set());
+    byRank.get(mark.rank)!.add(mark.candidate);
+  }
+  const highest = Math.max(0, ...Array.from(byRank.keys()));
+  const length = maxRankings ? Math.min(highest, maxRankings) : highest;
+  const rankings: RankedChoice[] = [];
+  for (let rank = 1; rank <= length; rank++) {
+    const names = Array.from(byRank.get(rank) ?? []);
+    rankings.push(names.length === 0 ? null : names.length === 1 ? names[0] : names);
+  }
+  return rankings;
+}
+
+function simpleChoice(choice: unknown): RankedChoice {
+  if (choice === null || choice === undefined || choice === '') return null;
+  if (Array.isArray(choice)) {
+    const names = choice.filter(c => c !== null && c !== undefined && c !== '').map(String);
+    return names.length === 0 ? null : names.length === 1 ? names[0] : names;
+  }
+  return String(choice);
+}
+
+function simpleContest(raw: any, index: number): CvrContest {
+  const ballots: RankedBallot[] = (raw.ballots ?? []).map((ballot: any) => {
+    const rankings = Array.isArray(ballot) ? ballot : ballot.rankings ?? ballot.ranking ?? [];
+    return { rankings: rankings.map(simpleChoice), count: Array.isArray(ballot) ? 1 : ballot.count ?? 1 };
+  });
+  const name = raw.contest ?? raw.contestName ?? raw.name ?? `Contest ${index + 1}`;
+  return {
+    contestId: String(raw.contestId ?? raw.id ?? name),
+    contestName: String(name),
+    candidates: (raw.candidates ?? []).map((c: any) => String(typeof c === 'object' ? c.name : c)),
+    maxRankings: raw.maxRankings ?? null,
+    ballots
+  };
+}
+
+/**
+ * {"contest": "...", "candidates": ["A", "B"], "ballots": [["A", "B"], {"rankings": ["B", null, "A"], "count": 12}]}
+ * or {"contests": [...]} holding several of those
+ */
+export function parseSimpleCvr(payload: any): CvrContest[] {
+  if (Array.isArray(payload?.contests)) return payload.contests.map(simpleContest);
+  return [simpleContest(payload ?? {}, 0)];
+}
+
+/**
+ * Dominion Democracy Suite CvrExport.json. Adjudicated ("Modified") cards
+ * win over the original scan; marks that were not counted as votes are
+ * dropped. Without manifests candidates and contests keep their numeric ids.
+ */
+export function parseDominionCvr(payload: any, manifests: CvrManifests = {}): CvrContest[] {
+  const candidateNames = new Map<string, string>();
+  for (const entry of manifests.candidates?.List ?? []) {
+    candidateNames.set(String(entry.Id), String(entry.Description ?? entry.Id));
+  }
+  const contestInfo = new Map<string, { name: string; ranks: number | null }>();
+  for (const entry of manifests.contests?.List ?? []) {
+    contestInfo.set(String(entry.Id), { name: String(entry.Description ?? entry.Id), ranks: entry.NumOfRanks || null });
+  }
+
+  const contests = new Map<string, CvrContest>();
+  const contestFor = (id: string): CvrContest => {
+    let contest = contests.get(id);
+    if (!contest) {
+      const info = contestInfo.get(id);
+      contest = {
+        contestId: id,
+        contestName: info?.name ?? `Contest ${id}`,
+        candidates: [],
+        maxRankings: info?.ranks ?? null,
+        ballots: []
+      };
+      contests.set(id, contest);
+    }
+    return contest;
+  };
+
+  for (const session of payload?.Sessions ?? []) {
+    const record = session.Modified ?? session.Original;
+    if (!record) continue;
+    // Older exports put contests directly on the record, newer ones on cards
+    const cards = Array.isArray(record.Cards) ? record.Cards : [record];
+    for (const card of cards) {
+      for (const rawContest of card.Contests ?? []) {
+        const contest = contestFor(String(rawContest.Id));
+        const marks = (rawContest.Marks ?? [])
+          .filter((mark: any) => mark.IsVote !== false)
+          .map((mark: any) => ({
+            rank: Number(mark.Rank ?? 1),
+            candidate: candidateNames.get(String(mark.CandidateId)) ?? String(mark.CandidateId)
+          }));
+        contest.ballots.push({ rankings: toRankings(marks, contest.maxRankings) });
+      }
+    }
+  }
+
+  // Declared candidates come from the manifest where it says which contest they are in
+  for (const entry of manifests.candidates?.List ?? []) {
+    if (entry.ContestId === undefined) continue;
+    const contest = contests.get(String(entry.ContestId));
+    if (contest) contest.candidates.push(String(entry.Description ?? entry.Id));
+  }
+
+  return Array.from(contests.values());
+}
+
+/**
+ * NIST SP 1500-103 CastVoteRecordReport in its JSON serialization. Uses
+ * each CVR's current snapshot and only allocable, indicated selections.
+ */
+export function parseNistCvr(payload: any): CvrContest[] {
+  const election = Array.isArray(payload?.Election) ? payload.Election[0] : payload?.Election;
+
+  const candidateNames = new Map<string, string>();
+  for (const candidate of election?.Candidate ?? []) {
+    candidateNames.set(String(candidate['@id']), String(candidate.Name ?? candidate['@id']));
+  }
+
+  const selectionNames = new Map<string, string>();
+  const contests = new Map<string, CvrContest>();
+  for (const rawContest of election?.Contest ?? []) {
+    const id = String(rawContest['@id']);
+    const candidates: string[] = [];
+    for (const selection of rawContest.ContestSelection ?? []) {
+      const candidateId = (selection.CandidateIds ?? [])[0];
+      const name = candidateId !== undefined
+        ? candidateNames.get(String(candidateId)) ?? String(candidateId)
+        : String(selection.Code ?? selection['@id']);
+      selectionNames.set(String(selection['@id']), name);
+      candidates.push(name);
+    }
+    contests.set(id, {
+      contestId: id,
+      contestName: String(rawContest.Name ?? id),
+      candidates,
+      maxRankings: rawContest.NumberOfRanks ?? null,
+      ballots: []
+    });
+  }
+
+  for (const cvr of payload?.CVR ?? []) {
+    const snapshots: any[] = cvr.CVRSnapshot ?? [];
+    const snapshot = snapshots.find(s => s['@id'] === cvr.CurrentSnapshotId)
+      ?? snapshots.find(s => s.Type === 'modified')
+      ?? snapshots[0];
+    if (!snapshot) continue;
+
+    for (const cvrContest of snapshot.CVRContest ?? []) {
+      const contestId = String(cvrContest.ContestId);
+      let contest = contests.get(contestId);
+      if (!contest) {
+        contest = { contestId, contestName: contestId, candidates: [], maxRankings: null, ballots: [] };
+        contests.set(contestId, contest);
+      }
+
+      const marks: Array<{ rank: number; candidate: string }> = [];
+      for (const selection of cvrContest.CVRContestSelection ?? []) {
+        const selectionId = String(selection.ContestSelectionId);
+        const candidate = selectionNames.get(selectionId) ?? selectionId;
+        for (const position of selection.SelectionPosition ?? []) {
+          if (position.HasIndication === 'no' || position.IsAllocable === 'no') continue;
+          marks.push({ rank: Number(position.Rank ?? 1), candidate });
+        }
+      }
+      contest.ballots.push({ rankings: toRankings(marks, contest.maxRankings) });
+    }
+  }
+
+  return Array.from(contests.values()).filter(c => c.ballots.length > 0);
+}
@@ -0,0 +1,337 @@
+/**
+ * Notification digests
+ * When a user's daily or weekly digest is due in their own timezone, the
+ * window it covers, and how the changes to their watchlist in that window
+ * are laid out as sections for the digest templates. A digest with no
+ * sections is empty and not sent. Upcoming elections count only once they
+ * are inside the watchlist entry's reminder window, so a quiet week stays
+ * quiet.
+ * Pure functions only - gathering, recording and queueing live in
+ * digest-service.
+ */
+
+import { DEFAULT_TIMEZONE, parseClock } from './quiet-hours';
+import { STATUS_LABELS, isCandidateStatus } from './candidate-status';
+
+export type DigestCadence = 'daily' | 'weekly';
+
+export const DIGEST_PERIOD_MS: Record<DigestCadence, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+/** Weekly digests go out on Mondays, local time */
+export const WEEKLY_DIGEST_WEEKDAY = 1;
+
+export const MAX_SECTION_ITEMS = 10;
+
+export interface DigestPreferences {
+  dailyDigest?: boolean | null;
+  weeklyDigest?: boolean | null;
+  weeklyDigestEnabled?: boolean | null;
+  preferredDeliveryTime?: string | null;
+  timezone?: string | null;
+}
+
+export interface DigestElection {
+  id: number;
+  title: string;
+  state: string;
+  date: Date;
+  reminderDaysBefore?: number | null;
+}
+
+export interface DigestInput {
+  elections: DigestElection[]; // the user's watchlist
+  factChanges: Array<{ electionId: number; field: string; previous: any; value: any; observedAt: Date }>;
+  deadlines: Array<{ electionId: number | null; message: string | null; createdAt: Date }>;
+  polls: Array<{
+    electionId: number;
+    pollsterName: string;
+    democraticSupport: string | number;
+    republicanSupport: string | number;
+    fieldDates: string | null;
+    createdAt: Date;
+  }>;
+  raceCalls: Array<{
+    electionId: number;
+    candidateName: string;
+    callType: string;
+    calledAt: Date;
+    retractedAt: Date | null;
+  }>;
+  candidateChanges: Array<{
+    electionId: number | null;
+    candidateName: string;
+    fromStatus: string | null;
+    toStatus: string;
+    createdAt: Date;
+  }>;
+}
+
+export interface DigestWindow {
+  cadence: DigestCadence;
+  since: Date;
+  until: Date;
+  timezone?: string | null;
+}
+
+export interface DigestItem {
+  text: string;
+  url: string | null;
+}
+
+export interface DigestSection {
+  key: string;
+  heading: string;
+  items: DigestItem[];
+}
+
+/**
+ * Which digest the user takes. Daily wins over weekly, which would only
+ * repeat it.
+ */
+export function digestCadence(preferences: DigestPreferences): DigestCadence | null {
+  if (preferences.dailyDigest) return 'daily';
+  if (preferences.weeklyDigest && preferences.weeklyDigestEnabled !== false) return 'weekly';
+  return null;
+}
+
+/** The local calendar date (YYYY-MM-DD), weekday (0 = Sunday) and minutes after midnight */
+export function localClock(now: Date, timezone: string | null | undefined): { date: string; weekday: number; minutes: number } {
+  const options: Intl.DateTimeFormatOptions = {
+    year: 'numeric', month: '2-digit', day: '2-digit', weekday: 'short',
+    hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+  };
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', { ...options, timeZone: timezone || DEFAULT_TIMEZONE });
+  } catch {
+    format = new Intl.DateTimeFormat('en-US', { ...options, timeZone: DEFAULT_TIMEZONE });
+  }
+  const parts = Object.fromEntries(format.formatToParts(now).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+}
+
+/**
+ * The period key (the local date) of the digest due now, or null when it
+ * is not yet the user's delivery time - or, for weekly digests, not the
+ * delivery day. The caller skips periods it has already recorded.
+ */
+export function duePeriod(now: Date, preferences: DigestPreferences, cadence: DigestCadence): string | null {
+  const clock = localClock(now, preferences.timezone);
+  const deliveryTime = parseClock(preferences.preferredDeliveryTime) ?? parseClock('09:00')!;
+  if (clock.minutes < deliveryTime) return null;
+  if (cadence === 'weekly' && clock.weekday !== WEEKLY_DIGEST_WEEKDAY) return null;
+  return clock.date;
+}
+
+/**
+ * Where the digest's window starts: the end of the last one, but never
+ * more than one period back, so turning digests back on after a break
+ * does not dump months of changes
+ */
+export function windowStart(now: Date, cadence: DigestCadence, lastPeriodEnd?: Date | null): Date {
+  const floor = new Date(now.getTime() - DIGEST_PERIOD_MS[cadence]);
+  return lastPeriodEnd && lastPeriodEnd > floor ? lastPeriodEnd : floor;
+}
+
+export function formatDay(date: Date, timezone?: string | null): string {
+  const options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' };
+  try {
+    return new Intl.DateTimeFormat('en-US', { ...options, timeZone: timezone || DEFAULT_TIMEZONE }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat('en-US', { ...options, timeZone: DEFAULT_TIMEZONE }).format(date);
+  }
+}
+
+function inWindow(date: Date | null | undefined, window: DigestWindow): boolean {
+  return !!date && date > window.since && date <= window.until;
+}
+
+function statusLabel(status: string | null): string {
+  return status && isCandidateStatus(status) ? STATUS_LABELS[status] : status ?? 'unknown';
+}
+
+function percent(value: string | number): string {
+  return `${Math.round(Number(value))}%`;
+}
+
+function factChangeText(title: string, change: DigestInput['factChanges'][number], timezone?: string | null): string {
+  switch (change.field) {
+    case 'date':
+      return change.previous?.date
+        ? `${title}: date moved from ${formatDay(new Date(change.previous.date), timezone)} to ${formatDay(new Date(change.value?.date), timezone)}`
+        : `${title}: date set to ${formatDay(new Date(change.value?.date), timezone)}`;
+    case 'jurisdiction':
+      return `${title}: now listed under ${[change.value?.location, change.value?.state].filter(Boolean).join(', ')}`;
+    case 'office':
+      return change.value?.title && change.value.title !== title
+        ? `${title}: renamed to ${change.value.title}`
+        : `${title}: offices on the ballot updated`;
+    default:
+      return `${title}: ${change.field} updated`;
+  }
+}
+
+function capped(items: DigestItem[]): DigestItem[] {
+  if (items.length <= MAX_SECTION_ITEMS) return items;
+  return [
+    ...items.slice(0, MAX_SECTION_ITEMS),
+    { text: `…and ${items.length - MAX_SECTION_ITEMS} more`, url: null }
+  ];
+}
+
+/**
+ * Lay the window's changes out as digest sections, leaving out empty ones.
+ * Links are absolute so they work from an inbox.
+ */
+export function buildDigestSections(input: DigestInput, window: DigestWindow, baseUrl: string): DigestSection[] {
+  const elections = new Map(input.elections.map(e => [e.id, e] as const));
+  const link = (electionId: number | null | undefined) =>
+    electionId != null && elections.has(electionId) ? `${baseUrl}/elections/${electionId}` : null;
+  const title = (electionId: number | null | undefined) =>
+    (electionId != null ? elections.get(electionId)?.title : undefined) ?? 'An election you follow';
+  const tz = window.timezone;
+
+  const sections: DigestSection[] = [
+    {
+      key: 'countdowns',
+      heading: '🗳️ Coming Up',
+      items: input.elections
+        .filter(e => {
+          const days = Math.ceil((e.date.getTime() - window.until.getTime()) / (24 * 60 * 60 * 1000));
+          return days >= 0 && days <= (e.reminderDaysBefore ?? 7);
+        })
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+        .map(e => {
+          const days = Math.ceil((e.date.getTime() - window.until.getTime()) / (24 * 60 * 60 * 1000));
+          const when = days === 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+          return { text: `${e.title} - ${formatDay(e.date, tz)} (${when})`, url: link(e.id) };
+        })
+    },
+    {
+      key: 'deadlines',
+      heading: '⏰ Deadlines',
+      items: input.deadlines
+        .filter(d => inWindow(d.createdAt, window))
+        .map(d => ({ text: d.message ?? `${title(d.electionId)}: deadline approaching`, url: link(d.electionId) }))
+    },
+    {
+      key: 'watchlist',
+      heading: '📌 Watchlist Changes',
+      items: input.factChanges
+        .filter(c => inWindow(c.observedAt, window))
+        .sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime())
+        .map(c => ({ text: factChangeText(title(c.electionId), c, tz), url: link(c.electionId) }))
+    },
+    {
+      key: 'race_calls',
+      heading: '🏆 Race Calls',
+      items: input.raceCalls
+        .filter(c => inWindow(c.calledAt, window) || inWindow(c.retractedAt, window))
+        .map(c => ({
+          text: inWindow(c.retractedAt, window)
+            ? `${title(c.electionId)}: call for ${c.candidateName} retracted`
+            : `${title(c.electionId)}: ${c.candidateName} ${c.callType === 'declared' ? 'declared' : 'projected'} the winner`,
+          url: link(c.electionId)
+        }))
+    },
+    {
+      key: 'polls',
+      heading: '📊 New Polls',
+      items: input.polls
+        .filter(p => inWindow(p.createdAt, window))
+        .map(p => ({
+          text: `${title(p.electionId)}: ${p.pollsterName} - D ${percent(p.democraticSupport)} / R ${percent(p.republicanSupport)}${p.fieldDates ? ` (${p.fieldDates})` : ''}`,
+          url: link(p.electionId)
+        }))
+    },
+    {
+      key: 'candidates',
+      heading: '📢 Candidate Updates',
+      items: input.candidateChanges
+        .filter(c => inWindow(c.createdAt, window))
+        .map(c => ({
+          text: `${title(c.electionId)}: ${c.candidateName} - ${statusLabel(c.toStatus)}${c.fromStatus ? ` (was ${statusLabel(c.fromStatus).toLowerCase()})` : ''}`,
+          url: link(c.electionId)
+        }))
+    }
+  ];
+
+  return sections
+    .filter(section => section.items.length > 0)
+    .map(section => ({ ...section, items: capped(section.items) }));
+}
+
+/**
+ * The values digest templates are rendered with
+ */
+export function digestTemplateData(sections: DigestSection[], window: DigestWindow, baseUrl: string): Record<string, unknown> {
+  const label = window.cadence === 'daily' ? 'daily' : 'weekly';
+  return {
+    cadence: label,
+    title: `Your ${label} election digest`,
+    dateLabel: formatDay(window.until, window.timezone),
+    periodLabel: `What changed since ${formatDay(window.since, window.timezone)}`,
+    itemCount: sections.reduce((sum, section) => sum + section.items.length, 0),
+    sections,
+    preferencesUrl: `${baseUrl}/preferences`
+  };
+}
+
+export interface DigestTemplateDefaults {
+  name: string;
+  subject: string;
+  textContent: string;
+  htmlContent: string;
+}
+
+const DIGEST_TEXT = `{{title}}
+{{periodLabel}}
+
+{{#sections}}
+{{heading}}
+{{#items}}
+- {{text}}{{#url}} ({{url}}){{/url}}
+{{/items}}
+
+{{/sections}}
+---
+You're receiving this because you turned on the {{cadence}} digest.
+Manage preferences: {{preferencesUrl}}
+`;
+
+const DIGEST_HTML = `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: #0066cc; color: white; padding: 20px; border-radius: 8px 8px 0 0;">
+    <h1 style="margin: 0;">{{title}}</h1>
+    <p style="margin: 10px 0 0 0;">{{periodLabel}}</p>
+  </div>
+  <div style="background: white; padding: 20px; border: 1px solid #dee2e6;">
+    {{#sections}}
+    <h2 style="color: #495057;">{{heading}}</h2>
+    {{#items}}
+    <div style="padding: 10px; border-left: 3px solid #0066cc; margin: 10px 0; background: #f8f9fa;">
+      {{#url}}<a href="{{url}}" style="color: #333;">{{text}}</a>{{/url}}{{^url}}{{text}}{{/url}}
+    </div>
+    {{/items}}
+    {{/sections}}
+  </div>
+  <div style="background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; text-align: center;">
+    <p style="color: #6c757d; margin: 0; font-size: 14px;">
+      You're receiving this because you turned on the {{cadence}} digest.
+      <a href="{{preferencesUrl}}" style="color: #6c757d;">Manage Preferences</a>
+    </p>
+  </div>
+</div>
+`;
+
+/** Templates stored for each cadence the first time a digest is built */
+export const DEFAULT_DIGEST_TEMPLATES: Record<DigestCadence, DigestTemplateDefaults> = {
+  daily: { name: 'daily_digest', subject: '{{title}} - {{dateLabel}}', textContent: DIGEST_TEXT, htmlContent: DIGEST_HTML },
+  weekly: { name: 'weekly_digest', subject: '{{title}} - {{dateLabel}}', textContent: DIGEST_TEXT, htmlContent: DIGEST_HTML }
+};
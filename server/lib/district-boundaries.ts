@@ -0,0 +1,309 @@
+/**
+ * District boundaries and ballot matching
+ * Turns Census TIGER features (congressional, state legislative upper and
+ * lower, county) into districts, indexes them on a coarse lat/lng grid,
+ * finds every district containing a point, and decides which of a
+ * state's elections appear on the ballot of a voter inside those
+ * districts.
+ * Pure functions only - loading boundary files lives in
+ * district-boundary-service.
+ */
+
+export const DISTRICT_TYPES = ['congressional', 'state_upper', 'state_lower', 'county'] as const;
+export type DistrictType = typeof DISTRICT_TYPES[number];
+
+export interface District {
+  type: DistrictType;
+  state: string;        // two-letter code
+  geoid: string;
+  number: string;       // '12', 'AL' for at-large, county FIPS for counties
+  code: string;         // 'CA-12', 'CA-SD-11', 'CA-AD-17', 'CA-Sonoma'
+  name: string;         // 'Congressional District 12', 'Sonoma County'
+}
+
+export interface BoundaryFeature extends District {
+  bbox: [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+  rings: number[][][];                    // [ring][point][lng, lat]
+}
+
+// FIPS state codes as used in TIGER STATEFP
+export const STATE_FIPS: Record<string, string> = {
+  '01': 'AL', '02': 'AK', '04': 'AZ', '05': 'AR', '06': 'CA', '08': 'CO', '09': 'CT', '10': 'DE',
+  '11': 'DC', '12': 'FL', '13': 'GA', '15': 'HI', '16': 'ID', '17': 'IL', '18': 'IN', '19': 'IA',
+  '20': 'KS', '21': 'KY', '22': 'LA', '23': 'ME', '24': 'MD', '25': 'MA', '26': 'MI', '27': 'MN',
+  '28': 'MS', '29': 'MO', '30': 'MT', '31': 'NE', '32': 'NV', '33': 'NH', '34': 'NJ', '35': 'NM',
+  '36': 'NY', '37': 'NC', '38': 'ND', '39': 'OH', '40': 'OK', '41': 'OR', '42': 'PA', '44': 'RI',
+  '45': 'SC', '46': 'SD', '47': 'TN', '48': 'TX', '49': 'UT', '50': 'VT', '51': 'VA', '53': 'WA',
+  '54': 'WV', '55': 'WI', '56': 'WY', '72': 'PR'
+};
+
+const CODE_PREFIX: Record<DistrictType, string> = {
+  congressional: '',
+  state_upper: 'SD-',
+  state_lower: 'AD-',
+  county: ''
+};
+
+// TIGER uses 00 for at-large seats and 98 for non-voting delegates
+const AT_LARGE = new Set(['00', '98']);
+
+function trimDistrictNumber(raw: string): string {
+  return /^\d+$/.test(raw) ? String(Number(raw)) : raw;
+}
+
+/**
+ * Build a district from TIGER attributes. The type comes from an explicit
+ * `districtType` property when the file has one, otherwise from the
+ * TIGER field names (CDnnnFP, SLDUST, SLDLST, COUNTYFP).
+ */
+export function districtFromProperties(props: Record<string, any>, hint?: DistrictType | null): District | null {
+  const stateFp = String(props.STATEFP ?? props.statefp ?? '').padStart(2, '0');
+  const state = String(props.state ?? props.STUSPS ?? STATE_FIPS[stateFp] ?? '').toUpperCase();
+  if (!state) return null;
+
+  const cdField = Object.keys(props).find(key => /^CD\d*FP$/i.test(key));
+  const type: DistrictType | null =
+    (DISTRICT_TYPES as readonly string[]).includes(props.districtType) ? props.districtType :
+    hint ?? (cdField ? 'congressional' :
+      props.SLDUST != null ? 'state_upper' :
+      props.SLDLST != null ? 'state_lower' :
+      props.COUNTYFP != null ? 'county' : null);
+  if (!type) return null;
+
+  const raw = String(
+    props.district ??
+    (type === 'congressional' ? (cdField ? props[cdField] : null) :
+     type === 'state_upper' ? props.SLDUST :
+     type === 'state_lower' ? props.SLDLST :
+     props.COUNTYFP) ?? ''
+  );
+  if (!raw) return null;
+
+  const geoid = String(props.GEOID ?? props.geoid ?? `${stateFp}${raw}`);
+  const name = String(props.NAMELSAD ?? props.name ?? props.NAME ?? raw);
+
+  if (type === 'county') {
+    const countyName = String(props.NAME ?? name.replace(/\s+(County|Parish|Borough|Census Area|Municipality)$/i, ''));
+    return { type, state, geoid, number: raw, code: `${state}-${countyName}`, name };
+  }
+
+  const number = type === 'congressional' && AT_LARGE.has(raw) ? 'AL' : trimDistrictNumber(raw);
+  return { type, state, geoid, number, code: `${state}-${CODE_PREFIX[type]}${number}`, name };
+}
+
+/**
+ * GeoJSON Polygon / MultiPolygon coordinates as flat rings
+ */
+export function ringsFromGeometry(geometry: any): number[][][] {
+  if (!geometry) return [];
+  if (geometry.type === 'Polygon') return geometry.coordinates;
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates.flat();
+  return [];
+}
+
+export function boundingBox(rings: number[][][]): [number, number, number, number] {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const ring of rings) {
+    for (const [x, y] of ring) {
+      if (x < minX) minX = x;
+      if (y < minY) minY = y;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return [minX, minY, maxX, maxY];
+}
+
+/**
+ * Even-odd ray casting over every ring of a shape. Holes flip the result
+ * back to outside, so outer rings and holes need no grouping or winding.
+ */
+export function pointInRings(lng: number, lat: number, rings: number[][][]): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+/**
+ * Fixed-grid spatial index: each feature is listed under every cell its
+ * bounding box touches, so a lookup only ray-casts the few features
+ * whose boxes cover the point's cell.
+ */
+export class DistrictIndex {
+  private readonly cells = new Map<string, number[]>();
+  private readonly features: BoundaryFeature[] = [];
+
+  constructor(private readonly cellSize = 0.5) {}
+
+  get size(): number {
+    return this.features.length;
+  }
+
+  add(feature: BoundaryFeature): void {
+    const index = this.features.push(feature) - 1;
+    const [minX, minY, maxX, maxY] = feature.bbox;
+    for (let cx = Math.floor(minX / this.cellSize); cx <= Math.floor(maxX / this.cellSize); cx++) {
+      for (let cy = Math.floor(minY / this.cellSize); cy <= Math.floor(maxY / this.cellSize); cy++) {
+        const key = `${cx}:${cy}`;
+        const bucket = this.cells.get(key);
+        if (bucket) bucket.push(index);
+        else this.cells.set(key, [index]);
+      }
+    }
+  }
+
+  lookup(lat: number, lng: number): District[] {
+    const key = `${Math.floor(lng / this.cellSize)}:${Math.floor(lat / this.cellSize)}`;
+    const matches: District[] = [];
+    for (const index of this.cells.get(key) ?? []) {
+      const feature = this.features[index];
+      const [minX, minY, maxX, maxY] = feature.bbox;
+      if (lng < minX || lng > maxX || lat < minY || lat > maxY) continue;
+      if (pointInRings(lng, lat, feature.rings)) {
+        const { bbox, rings, ...district } = feature;
+        matches.push(district);
+      }
+    }
+    return matches.sort((a, b) => DISTRICT_TYPES.indexOf(a.type) - DISTRICT_TYPES.indexOf(b.type));
+  }
+
+  /** States with boundaries loaded, per district type */
+  coverage(): Record<DistrictType, string[]> {
+    const coverage = Object.fromEntries(DISTRICT_TYPES.map(type => [type, new Set<string>()])) as Record<DistrictType, Set<string>>;
+    for (const feature of this.features) coverage[feature.type].add(feature.state);
+    return Object.fromEntries(
+      DISTRICT_TYPES.map(type => [type, Array.from(coverage[type]).sort()])
+    ) as Record<DistrictType, string[]>;
+  }
+}
+
+// =============================================================================
+// Ballot matching
+// =============================================================================
+
+export interface BallotElection {
+  id: number;
+  title: string;
+  subtitle?: string | null;
+  location: string;
+  state: string;
+  level: string;
+  offices?: string[] | null;
+}
+
+export type ElectionScope =
+  | { kind: 'statewide' }
+  | { kind: 'district'; type: DistrictType | null; number: string }
+  | { kind: 'local'; place: string };
+
+export type BallotMatch = 'statewide' | 'district' | 'county' | 'city' | 'unresolved';
+
+export interface BallotRace<E extends BallotElection = BallotElection> {
+  election: E;
+  matchedBy: BallotMatch;
+  district: string | null; // district code the race was matched on
+}
+
+export interface VoterPlace {
+  state: string;
+  city?: string | null;
+  county?: string | null;
+}
+
+const DISTRICT_NUMBER = /(\d+)(?:st|nd|rd|th)\s+(?:congressional\s+|senate\s+|assembly\s+|house\s+|legislative\s+)?district|district\s*(?:no\.?\s*|#\s*)?(\d+)|\b[A-Z]{2}-(\d+)\b/i;
+
+/**
+ * What part of the state an election covers, read from its title,
+ * subtitle and offices
+ */
+export function electionScope(election: BallotElection): ElectionScope {
+  const text = [election.title, election.subtitle, ...(election.offices ?? [])].filter(Boolean).join(' | ');
+  const level = election.level.toLowerCase();
+
+  if (level === 'local') {
+    return { kind: 'local', place: election.location };
+  }
+
+  const numbered = text.match(DISTRICT_NUMBER);
+  const atLarge = /at[- ]large/i.test(text);
+  if (!numbered && !(atLarge && level === 'federal')) return { kind: 'statewide' };
+
+  const number = numbered ? String(Number(numbered[1] ?? numbered[2] ?? numbered[3])) : 'AL';
+  if (level === 'federal') return { kind: 'district', type: 'congressional', number };
+  if (/state senate|senate district|senator/i.test(text)) return { kind: 'district', type: 'state_upper', number };
+  if (/assembly|state house|house district|house of delegates|representative|legislative district/i.test(text)) {
+    return { kind: 'district', type: 'state_lower', number };
+  }
+  return { kind: 'district', type: null, number };
+}
+
+function normalizePlace(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\b(county|parish|borough|city of|city|town of|village of)\b/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function mentionsPlace(text: string, place: string | null | undefined): boolean {
+  if (!place) return false;
+  const needle = normalizePlace(place);
+  return needle.length > 0 && ` ${normalizePlace(text)} `.includes(` ${needle} `);
+}
+
+/**
+ * The races on a voter's ballot: statewide races in their state, district
+ * races whose district contains them, and local races for their county or
+ * city. District races we cannot place - no boundary file for that
+ * district type in the state, or an unrecognised district type - are
+ * kept and marked 'unresolved' rather than dropped.
+ */
+export function racesOnBallot<E extends BallotElection>(
+  elections: E[],
+  districts: District[],
+  place: VoterPlace,
+  coverage: Partial<Record<DistrictType, string[]>> = {}
+): BallotRace<E>[] {
+  const state = place.state.toUpperCase();
+  const races: BallotRace<E>[] = [];
+  const county = districts.find(d => d.type === 'county');
+  const countyName = county ? county.code.slice(state.length + 1) : place.county;
+
+  for (const election of elections) {
+    if (election.state.toUpperCase() !== state) continue;
+    const scope = electionScope(election);
+
+    if (scope.kind === 'statewide') {
+      races.push({ election, matchedBy: 'statewide', district: null });
+      continue;
+    }
+
+    if (scope.kind === 'local') {
+      const text = `${scope.place} ${election.title} ${election.subtitle ?? ''}`;
+      if (mentionsPlace(text, countyName)) {
+        races.push({ election, matchedBy: 'county', district: county?.code ?? null });
+      } else if (mentionsPlace(text, place.city)) {
+        races.push({ election, matchedBy: 'city', district: null });
+      }
+      continue;
+    }
+
+    const covered = scope.type !== null && (coverage[scope.type] ?? []).includes(state);
+    if (!covered) {
+      races.push({ election, matchedBy: 'unresolved', district: null });
+      continue;
+    }
+    const match = districts.find(d => d.type === scope.type && d.number === scope.number);
+    if (match) races.push({ election, matchedBy: 'district', district: match.code });
+  }
+
+  return races;
+}
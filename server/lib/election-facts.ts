@@ -0,0 +1,231 @@
+/**
+ * Election fact history
+ * The hard facts of an election - its date, jurisdiction and office - are
+ * recorded as append-only observations in election_facts. These helpers
+ * turn an election row into fact values, find what changed between two
+ * versions, rebuild the row as it stood at a past moment and lay the
+ * observations out as a change history.
+ * Pure functions only - reads and writes live in storage.
+ */
+
+import type { Election } from '@shared/schema';
+
+export const TRACKED_FACT_TYPES = ['date', 'jurisdiction', 'office'] as const;
+export type ElectionFactType = typeof TRACKED_FACT_TYPES[number];
+
+export interface ElectionFactValues {
+  date: { date: string };
+  jurisdiction: { state: string; location: string; level: string };
+  office: { title: string; offices: string[] | null };
+}
+
+export type TrackedElectionFields = Pick<Election, 'date' | 'state' | 'location' | 'level' | 'title' | 'offices'>;
+
+/** Where a fact came from and who put it in */
+export interface FactProvenance {
+  source: string;             // e.g. 'CA Secretary of State', 'admin', 'event-processing'
+  sourceUrl?: string | null;
+  actor?: string | null;      // user id / email or service name
+  reason?: string | null;
+  confidence?: number;        // 0-100
+}
+
+/** One observation as stored, with its source joined in */
+export interface FactObservation {
+  factId: number;
+  factType: string;
+  factValue: unknown;
+  observedAt: Date;
+  sourceName?: string | null;
+  sourceUrl?: string | null;
+  authority?: string | null;
+  confidence: number;
+  recordedBy?: string | null;
+  reason?: string | null;
+}
+
+export interface FactHistoryEntry {
+  factId: number;
+  field: string;
+  observedAt: string;
+  value: unknown;
+  previous: unknown;
+  changed: boolean;
+  source: { name: string | null; url: string | null; authority: string | null };
+  recordedBy: string | null;
+  reason: string | null;
+  confidence: number;
+}
+
+/** Reason recorded on the facts written when an election is first created */
+export const ELECTION_CREATED_REASON = 'Election created';
+
+/** Reason on the snapshot of the old value taken before the first recorded change */
+export const BASELINE_REASON = 'Value before first recorded change';
+
+export function electionFactValues(election: TrackedElectionFields): ElectionFactValues {
+  return {
+    date: { date: new Date(election.date).toISOString() },
+    jurisdiction: { state: election.state, location: election.location, level: election.level },
+    office: { title: election.title, offices: election.offices ?? null }
+  };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Fact types whose values differ between two versions of an election
+ */
+export function changedFactTypes(before: TrackedElectionFields, after: TrackedElectionFields): ElectionFactType[] {
+  const prev = electionFactValues(before);
+  const next = electionFactValues(after);
+  return TRACKED_FACT_TYPES.filter(type => !sameValue(prev[type], next[type]));
+}
+
+/**
+ * Overlay fact values back onto election fields
+ */
+function applyFactValue<T extends TrackedElectionFields>(election: T, type: string, value: any): T {
+  if (!value || typeof value !== 'object') return election;
+  switch (type) {
+    case 'date':
+      return value.date ? { ...election, date: new Date(value.date) } : election;
+    case 'jurisdiction':
+      return {
+        ...election,
+        state: value.state ?? election.state,
+        location: value.location ?? election.location,
+        level: value.level ?? election.level
+      };
+    case 'office':
+      return {
+        ...election,
+        title: value.title ?? election.title,
+        offices: value.offices !== undefined ? value.offices : election.offices
+      };
+    default:
+      return election;
+  }
+}
+
+const byObservation = (a: FactObservation, b: FactObservation) =>
+  a.observedAt.getTime() - b.observedAt.getTime() || a.factId - b.factId;
+
+/**
+ * The election as it stood at `asOf`, or null when we did not know about it
+ * yet. For each tracked fact the latest observation at or before `asOf`
+ * wins; before the first observation the earliest one stands in, since it
+ * is either the creation value or the baseline snapshot of the value we
+ * had before history began. Elections with no facts at all predate
+ * history and are returned unchanged.
+ */
+export function electionAsOf<T extends TrackedElectionFields>(election: T, facts: FactObservation[], asOf: Date): T | null {
+  const sorted = facts.slice().sort(byObservation);
+  const created = sorted.find(fact => fact.reason === ELECTION_CREATED_REASON);
+  if (created && created.observedAt.getTime() > asOf.getTime()) return null;
+
+  let result = election;
+  for (const type of TRACKED_FACT_TYPES) {
+    const ofType = sorted.filter(fact => fact.factType === type);
+    if (ofType.length === 0) continue;
+    const known = ofType.filter(fact => fact.observedAt.getTime() <= asOf.getTime());
+    const fact = known.length > 0 ? known[known.length - 1] : ofType[0];
+    result = applyFactValue(result, type, fact.factValue);
+  }
+  return result;
+}
+
+/**
+ * Observations as a change history, newest first. Each entry carries the
+ * value it replaced; re-observations of an unchanged value are kept but
+ * flagged `changed: false`.
+ */
+export function buildFactHistory(facts: FactObservation[]): FactHistoryEntry[] {
+  const lastValue = new Map<string, unknown>();
+  const entries: FactHistoryEntry[] = [];
+
+  for (const fact of facts.slice().sort(byObservation)) {
+    const hasPrevious = lastValue.has(fact.factType);
+    const previous = hasPrevious ? lastValue.get(fact.factType) : null;
+    entries.push({
+      factId: fact.factId,
+      field: fact.factType,
+      observedAt: fact.observedAt.toISOString(),
+      value: fact.factValue,
+      previous,
+      changed: !hasPrevious || !sameValue(previous, fact.factValue),
+      source: {
+        name: fact.sourceName ?? null,
+        url: fact.sourceUrl ?? null,
+        authority: fact.authority ?? null
+      },
+      recordedBy: fact.recordedBy ?? null,
+      reason: fact.reason ?? null,
+      confidence: fact.confidence
+    });
+    lastValue.set(fact.factType, fact.factValue);
+  }
+
+  return entries.reverse();
+}
+
+/**
+ * The upcoming-window filters of the elections list, measured from `now`
+ * so an "as of" calendar can apply them relative to its own date
+ */
+export function withinTimeframe(date: Date, timeframe: string | undefined, now: Date): boolean {
+  if (!timeframe || timeframe === 'all') return true;
+  const end = new Date(now);
+  switch (timeframe) {
+    case 'week':
+      end.setDate(end.getDate() + 7);
+      break;
+    case 'month':
+      end.setMonth(end.getMonth() + 1);
+      break;
+    case 'quarter':
+      end.setMonth(end.getMonth() + 3);
+      break;
+    case 'year':
+      end.setFullYear(end.getFullYear() + 1);
+      break;
+    default:
+      return true;
+  }
+  return date.getTime() <= end.getTime();
+}
+
+export interface JurisdictionFilters {
+  state?: string;                // two-letter code
+  level?: string | string[];
+  search?: string;
+}
+
+/**
+ * The state, level and search filters of the elections list, applied in
+ * memory so an "as of" calendar can match on historical jurisdictions and
+ * titles rather than current ones
+ */
+export function matchesJurisdiction(
+  election: Pick<TrackedElectionFields, 'state' | 'level' | 'location' | 'title'> & { subtitle?: string | null },
+  filters: JurisdictionFilters
+): boolean {
+  if (filters.state && election.state?.toUpperCase() !== filters.state.toUpperCase()) return false;
+
+  if (filters.level) {
+    const levels = (Array.isArray(filters.level) ? filters.level : [filters.level]).map(l => l.toLowerCase());
+    if (!levels.includes((election.level ?? '').toLowerCase())) return false;
+  }
+
+  if (filters.search) {
+    // Same sanitizing as the database search
+    const needle = filters.search.replace(/['"\\;]/g, '').trim().substring(0, 200).toLowerCase();
+    if (needle.length > 0) {
+      const haystack = [election.title, election.subtitle, election.location];
+      if (!haystack.some(value => value?.toLowerCase().includes(needle))) return false;
+    }
+  }
+  return true;
+}
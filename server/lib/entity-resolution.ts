@@ -0,0 +1,359 @@
+/**
+ * Candidate entity resolution
+ * Scores whether two records describe the same person - name similarity
+ * that understands nicknames, suffixes, middle names and "LAST, FIRST"
+ * order, weighed with state, office and party - and picks the best match
+ * from a pool, flagging close calls for review.
+ * Pure functions only - the crosswalk and review queue live in
+ * entity-resolution-service.
+ */
+
+export const EXTERNAL_ID_SYSTEMS = ['bioguide', 'fec', 'votesmart', 'openstates', 'ballotpedia'] as const;
+export type ExternalIdSystem = typeof EXTERNAL_ID_SYSTEMS[number];
+
+export type OfficeKind = 'president' | 'us_senate' | 'us_house' | 'governor' | 'state_upper' | 'state_lower' | 'legislature' | 'other';
+
+export interface PersonRecord {
+  name: string;
+  state?: string | null;
+  office?: OfficeKind | null;
+  district?: string | null;
+  party?: string | null;
+}
+
+export interface ParsedName {
+  first: string | null;
+  middle: string[];
+  last: string;
+  suffix: string | null;
+  nickname: string | null;
+}
+
+// ============================================================================
+// NAMES
+// ============================================================================
+
+const NICKNAME_GROUPS: string[][] = [
+  ['robert', 'bob', 'bobby', 'rob', 'robbie', 'bert'],
+  ['william', 'bill', 'billy', 'will', 'willie', 'liam'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['john', 'jack', 'johnny', 'jon'],
+  ['michael', 'mike', 'mickey'],
+  ['richard', 'rick', 'ricky', 'dick', 'rich'],
+  ['thomas', 'tom', 'tommy'],
+  ['charles', 'charlie', 'chuck', 'chas'],
+  ['joseph', 'joe', 'joey'],
+  ['christopher', 'chris', 'kit'],
+  ['daniel', 'dan', 'danny'],
+  ['david', 'dave', 'davey'],
+  ['edward', 'ed', 'eddie', 'ted', 'ned'],
+  ['theodore', 'ted', 'teddy', 'theo'],
+  ['anthony', 'tony'],
+  ['andrew', 'andy', 'drew'],
+  ['benjamin', 'ben', 'benny'],
+  ['matthew', 'matt'],
+  ['nicholas', 'nick', 'nicky'],
+  ['patrick', 'pat'],
+  ['stephen', 'steven', 'steve'],
+  ['timothy', 'tim', 'timmy'],
+  ['gregory', 'greg'],
+  ['jeffrey', 'geoffrey', 'jeff'],
+  ['kenneth', 'ken', 'kenny'],
+  ['ronald', 'ron', 'ronnie'],
+  ['donald', 'don', 'donnie'],
+  ['gerald', 'jerry'],
+  ['lawrence', 'larry'],
+  ['raymond', 'ray'],
+  ['samuel', 'sam', 'sammy'],
+  ['alexander', 'alex', 'al'],
+  ['albert', 'al', 'bert'],
+  ['frederick', 'fred', 'freddie'],
+  ['henry', 'hank', 'harry'],
+  ['harold', 'harry', 'hal'],
+  ['francis', 'frank', 'fran'],
+  ['peter', 'pete'],
+  ['philip', 'phillip', 'phil'],
+  ['douglas', 'doug'],
+  ['eugene', 'gene'],
+  ['leonard', 'leo', 'len', 'lenny'],
+  ['mitchell', 'mitch'],
+  ['zachary', 'zach', 'zack'],
+  ['elizabeth', 'liz', 'beth', 'betsy', 'betty', 'eliza', 'lisa'],
+  ['margaret', 'maggie', 'meg', 'peggy', 'marge'],
+  ['katherine', 'catherine', 'kathryn', 'kate', 'katie', 'kathy', 'cathy', 'kat'],
+  ['patricia', 'pat', 'patty', 'tricia', 'trish'],
+  ['jennifer', 'jen', 'jenny'],
+  ['susan', 'sue', 'suzy'],
+  ['deborah', 'debra', 'debbie', 'deb'],
+  ['rebecca', 'becky', 'becca'],
+  ['victoria', 'vicky', 'tori'],
+  ['christine', 'christina', 'chris', 'tina'],
+  ['kimberly', 'kim'],
+  ['cynthia', 'cindy'],
+  ['barbara', 'barb', 'barbie'],
+  ['alexandria', 'alexandra', 'alex', 'sandra', 'sandy'],
+  ['abigail', 'abby'],
+  ['jacqueline', 'jackie'],
+  ['pamela', 'pam'],
+  ['dorothy', 'dot', 'dottie'],
+  ['theresa', 'teresa', 'terri', 'terry'],
+  ['valerie', 'val'],
+  ['madeline', 'madeleine', 'maddie']
+];
+
+const NICKNAMES = new Map<string, Set<string>>();
+NICKNAME_GROUPS.forEach(group => {
+  group.forEach(name => {
+    const known = NICKNAMES.get(name) ?? new Set<string>();
+    group.forEach(other => known.add(other));
+    NICKNAMES.set(name, known);
+  });
+});
+
+const SUFFIXES: Record<string, string> = { jr: 'jr', junior: 'jr', sr: 'sr', senior: 'sr', ii: 'ii', '2nd': 'ii', iii: 'iii', '3rd': 'iii', iv: 'iv', v: 'v' };
+const TITLES = new Set(['dr', 'hon', 'honorable', 'rep', 'representative', 'sen', 'senator', 'gov', 'governor', 'mr', 'mrs', 'ms', 'miss', 'judge', 'rev', 'md', 'phd', 'esq']);
+const SURNAME_PARTICLES = new Set(['de', 'del', 'della', 'di', 'da', 'la', 'le', 'van', 'von', 'der', 'den', 'st', 'mc', 'mac', 'du', 'dos', 'bin', 'al']);
+
+function fold(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function words(value: string): string[] {
+  return fold(value).replace(/[^a-z0-9\s'-]/g, ' ').replace(/'/g, '').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Split a name into parts. Accepts "First Middle Last Jr.", "LAST, FIRST
+ * MIDDLE" and quoted or parenthesized nicknames ('Robert "Bob" Smith').
+ */
+export function parsePersonName(raw: string): ParsedName {
+  let text = raw.trim();
+  let nickname: string | null = null;
+  const quoted = text.match(/["“(]([^"”)]+)["”)]/);
+  if (quoted) {
+    nickname = words(quoted[1]).join(' ') || null;
+    text = text.replace(quoted[0], ' ');
+  }
+
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  const isSuffixOnly = (part: string) => words(part).every(w => SUFFIXES[w] || TITLES.has(w));
+  if (parts.length > 1 && !parts.slice(1).every(isSuffixOnly)) {
+    // "LAST, FIRST MIDDLE[, SUFFIX]"
+    text = `${parts.slice(1).join(' ')} ${parts[0]}`;
+  } else {
+    text = parts.join(' ');
+  }
+
+  let suffix: string | null = null;
+  const tokens = words(text).filter(token => {
+    if (TITLES.has(token)) return false;
+    if (SUFFIXES[token] && suffix === null) {
+      suffix = SUFFIXES[token];
+      return false;
+    }
+    return true;
+  });
+  if (tokens.length === 0) return { first: null, middle: [], last: '', suffix, nickname };
+  if (tokens.length === 1) return { first: null, middle: [], last: tokens[0], suffix, nickname };
+
+  let lastStart = tokens.length - 1;
+  while (lastStart > 1 && SURNAME_PARTICLES.has(tokens[lastStart - 1])) lastStart--;
+  return {
+    first: tokens[0],
+    middle: tokens.slice(1, lastStart),
+    last: tokens.slice(lastStart).join(' '),
+    suffix,
+    nickname
+  };
+}
+
+/** Jaro-Winkler similarity, 0 to 1 */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function lastNameScore(a: string, b: string): number {
+  const compactA = a.replace(/[\s-]/g, '');
+  const compactB = b.replace(/[\s-]/g, '');
+  if (compactA === compactB) return 1;
+  // Double-barrelled surnames are often shortened to one half
+  const partsA = a.split(/[\s-]/);
+  const partsB = b.split(/[\s-]/);
+  if (partsA.some(part => part.length > 1 && partsB.includes(part))) return 0.9;
+  const similarity = jaroWinkler(compactA, compactB);
+  return similarity >= 0.92 ? similarity * 0.95 : 0;
+}
+
+function givenNames(name: ParsedName): string[] {
+  const names = [name.first, name.nickname].filter((n): n is string => !!n);
+  // "J. Michael Smith" goes by Michael
+  if (name.first?.length === 1 && name.middle[0]) names.push(name.middle[0]);
+  return names;
+}
+
+function givenNameScore(a: string, b: string): number {
+  if (a === b) return 1;
+  if (NICKNAMES.get(a)?.has(b)) return 0.9;
+  if (a.length === 1 || b.length === 1) return a[0] === b[0] ? 0.75 : 0;
+  if (a.length >= 3 && b.length >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.85;
+  const similarity = jaroWinkler(a, b);
+  return similarity >= 0.9 ? similarity * 0.9 : 0;
+}
+
+/**
+ * How alike two names are, 0 to 1. Surnames must agree; a conflicting
+ * middle initial or generational suffix (Jr. vs Sr.) counts against.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = parsePersonName(a);
+  const right = parsePersonName(b);
+  if (!left.last || !right.last) return 0;
+  const last = lastNameScore(left.last, right.last);
+  if (last === 0) return 0;
+
+  const leftGiven = givenNames(left);
+  const rightGiven = givenNames(right);
+  let given = 0.5; // one side has a surname only
+  if (leftGiven.length > 0 && rightGiven.length > 0) {
+    given = Math.max(...leftGiven.flatMap(l => rightGiven.map(r => givenNameScore(l, r))));
+  }
+
+  let score = 0.55 * last + 0.45 * given;
+  const leftMiddle = left.first?.length === 1 ? left.middle.slice(1) : left.middle;
+  const rightMiddle = right.first?.length === 1 ? right.middle.slice(1) : right.middle;
+  if (leftMiddle[0] && rightMiddle[0] && leftMiddle[0][0] !== rightMiddle[0][0]) score *= 0.85;
+  if (left.suffix && right.suffix && left.suffix !== right.suffix) score *= 0.6;
+  return Math.round(score * 1000) / 1000;
+}
+
+// ============================================================================
+// ATTRIBUTES
+// ============================================================================
+
+/** The kind of office in free text such as "U.S. House", "State Senate District 4" */
+export function officeKind(text: string | null | undefined): OfficeKind | null {
+  const value = fold(text ?? '');
+  if (!value.trim()) return null;
+  if (/president/.test(value) && !/vice|board|council/.test(value)) return 'president';
+  if (/(u\.?s\.?|united states|us)\s+senat/.test(value)) return 'us_senate';
+  if (/(u\.?s\.?|united states|us)\s+(house|representative)|congress/.test(value)) return 'us_house';
+  if (/governor/.test(value) && !/lieutenant|lt\.?\s/.test(value)) return 'governor';
+  if (/state senat|senate district|upper/.test(value)) return 'state_upper';
+  if (/assembly|state house|house district|house of delegates|state representative|lower/.test(value)) return 'state_lower';
+  if (/legislature|legislative/.test(value)) return 'legislature';
+  return 'other';
+}
+
+/** 'Democratic', 'DEM', 'D' -> 'D' */
+export function partyCode(party: string | null | undefined): string | null {
+  const value = fold(party ?? '').trim();
+  if (!value) return null;
+  if (/^(d|dem|democrat|democratic)/.test(value)) return 'D';
+  if (/^(r|rep|republican|gop)/.test(value)) return 'R';
+  if (/^(l|lib|libertarian)/.test(value)) return 'L';
+  if (/^(g|grn|green)/.test(value)) return 'G';
+  if (/^(i|ind|independent|nonpartisan|npa|no party)/.test(value)) return 'I';
+  return value[0].toUpperCase();
+}
+
+function districtNumber(value: string | null | undefined): string | null {
+  const digits = (value ?? '').match(/\d+/);
+  return digits ? String(Number(digits[0])) : null;
+}
+
+export interface MatchScore {
+  score: number;
+  name: number;
+  state: 'match' | 'mismatch' | 'unknown';
+  office: 'match' | 'mismatch' | 'unknown';
+  party: 'match' | 'mismatch' | 'unknown';
+}
+
+function compare<T>(a: T | null | undefined, b: T | null | undefined): 'match' | 'mismatch' | 'unknown' {
+  if (a == null || b == null || a === '' || b === '') return 'unknown';
+  return a === b ? 'match' : 'mismatch';
+}
+
+const ATTRIBUTE_POINTS = { match: 1, unknown: 0.5, mismatch: 0 };
+
+/**
+ * Weighted score of two person records. The name carries most of the
+ * weight; a different state halves the score since the same name in
+ * another state is almost always another person.
+ */
+export function scoreMatch(subject: PersonRecord, other: PersonRecord): MatchScore {
+  const name = nameSimilarity(subject.name, other.name);
+  const state = compare(subject.state?.toUpperCase(), other.state?.toUpperCase());
+  let office = compare(subject.office === 'other' ? null : subject.office, other.office === 'other' ? null : other.office);
+  if (office === 'match') {
+    const districts = compare(districtNumber(subject.district), districtNumber(other.district));
+    if (districts === 'mismatch') office = 'mismatch';
+  }
+  const party = compare(partyCode(subject.party), partyCode(other.party));
+
+  let score = 0.6 * name + 0.2 * ATTRIBUTE_POINTS[state] + 0.12 * ATTRIBUTE_POINTS[office] + 0.08 * ATTRIBUTE_POINTS[party];
+  if (name < 0.75) score = Math.min(score, name);
+  if (state === 'mismatch') score *= 0.5;
+  return { score: Math.round(score * 1000) / 1000, name, state, office, party };
+}
+
+export interface ResolutionThresholds {
+  accept: number;  // at or above: link automatically
+  review: number;  // at or above: queue for a person to confirm
+  margin: number;  // a runner-up this close makes an accept a review
+}
+
+export const DEFAULT_THRESHOLDS: ResolutionThresholds = { accept: 0.9, review: 0.7, margin: 0.03 };
+
+export interface Resolution<T> {
+  decision: 'match' | 'review' | 'none';
+  best: (MatchScore & { record: T }) | null;
+  alternatives: Array<MatchScore & { record: T }>;
+}
+
+/** The best match for a subject in a pool of records */
+export function resolveMatch<T extends PersonRecord>(
+  subject: PersonRecord,
+  pool: T[],
+  thresholds: ResolutionThresholds = DEFAULT_THRESHOLDS
+): Resolution<T> {
+  const scored = pool
+    .map(record => ({ record, ...scoreMatch(subject, record) }))
+    .filter(match => match.score >= thresholds.review)
+    .sort((a, b) => b.score - a.score);
+  const [best, ...rest] = scored;
+  if (!best) return { decision: 'none', best: null, alternatives: [] };
+
+  const contested = rest.length > 0 && best.score - rest[0].score < thresholds.margin;
+  return {
+    decision: best.score >= thresholds.accept && !contested ? 'match' : 'review',
+    best,
+    alternatives: rest.slice(0, 3)
+  };
+}
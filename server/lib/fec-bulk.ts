@@ -0,0 +1,376 @@
+/**
+ * FEC bulk data
+ * Parses the FEC's pipe-delimited bulk files - candidate master (cn),
+ * committee master (cm), all-candidates summary (weball) and itemized
+ * individual contributions (itcont) - and turns the loaded data into
+ * per-candidate quarterly series and fundraising metrics, and a race's
+ * candidates into a money comparison.
+ * Pure functions only - file streaming and storage live in
+ * fec-bulk-service.
+ */
+
+import { electionScope, type BallotElection } from './district-boundaries';
+
+// Column layouts from the FEC bulk data descriptions; the files have no header row
+export const CANDIDATE_MASTER_COLUMNS = [
+  'CAND_ID', 'CAND_NAME', 'CAND_PTY_AFFILIATION', 'CAND_ELECTION_YR', 'CAND_OFFICE_ST', 'CAND_OFFICE',
+  'CAND_OFFICE_DISTRICT', 'CAND_ICI', 'CAND_STATUS', 'CAND_PCC', 'CAND_ST1', 'CAND_ST2', 'CAND_CITY',
+  'CAND_ST', 'CAND_ZIP'
+];
+
+export const COMMITTEE_MASTER_COLUMNS = [
+  'CMTE_ID', 'CMTE_NM', 'TRES_NM', 'CMTE_ST1', 'CMTE_ST2', 'CMTE_CITY', 'CMTE_ST', 'CMTE_ZIP', 'CMTE_DSGN',
+  'CMTE_TP', 'CMTE_PTY_AFFILIATION', 'CMTE_FILING_FREQ', 'ORG_TP', 'CONNECTED_ORG_NM', 'CAND_ID'
+];
+
+export const WEBALL_COLUMNS = [
+  'CAND_ID', 'CAND_NAME', 'CAND_ICI', 'PTY_CD', 'CAND_PTY_AFFILIATION', 'TTL_RECEIPTS', 'TRANS_FROM_AUTH',
+  'TTL_DISB', 'TRANS_TO_AUTH', 'COH_BOP', 'COH_COP', 'CAND_CONTRIB', 'CAND_LOANS', 'OTHER_LOANS',
+  'CAND_LOAN_REPAY', 'OTHER_LOAN_REPAY', 'DEBTS_OWED_BY', 'TTL_INDIV_CONTRIB', 'CAND_OFFICE_ST',
+  'CAND_OFFICE_DISTRICT', 'SPEC_ELECTION', 'PRIM_ELECTION', 'RUN_ELECTION', 'GEN_ELECTION',
+  'GEN_ELECTION_PRECENT', 'OTHER_POL_CMTE_CONTRIB', 'POL_PTY_CONTRIB', 'CVG_END_DT', 'INDIV_REFUNDS',
+  'CMTE_REFUNDS'
+];
+
+export const CONTRIBUTION_COLUMNS = [
+  'CMTE_ID', 'AMNDT_IND', 'RPT_TP', 'TRANSACTION_PGI', 'IMAGE_NUM', 'TRANSACTION_TP', 'ENTITY_TP', 'NAME',
+  'CITY', 'STATE', 'ZIP_CODE', 'EMPLOYER', 'OCCUPATION', 'TRANSACTION_DT', 'TRANSACTION_AMT', 'OTHER_ID',
+  'TRAN_ID', 'FILE_NUM', 'MEMO_CD', 'MEMO_TEXT', 'SUB_ID'
+];
+
+export type FecBulkKind = 'cn' | 'cm' | 'weball' | 'itcont';
+
+/** Which bulk file a file name is: cn24.txt, cm.txt, weball24.txt, itcont_2024_20230101_20230630.txt */
+export function bulkFileKind(fileName: string): FecBulkKind | null {
+  const name = fileName.toLowerCase();
+  if (!name.endsWith('.txt')) return null;
+  if (/^cn\d*\.txt$/.test(name)) return 'cn';
+  if (/^cm\d*\.txt$/.test(name)) return 'cm';
+  if (/^weball\d*\.txt$/.test(name)) return 'weball';
+  if (/^itcont/.test(name)) return 'itcont';
+  return null;
+}
+
+/** Contributions itemized only once a donor gives more than this in a cycle */
+export const ITEMIZATION_THRESHOLD = 200;
+
+/** One line of a bulk file keyed by column name, or null for a short line */
+export function fecFields(line: string, columns: string[]): Record<string, string> | null {
+  const values = line.replace(/\r$/, '').split('|');
+  if (values.length < columns.length) return null;
+  const record: Record<string, string> = {};
+  columns.forEach((column, index) => {
+    record[column] = values[index].trim();
+  });
+  return record;
+}
+
+export function fecAmount(value: string | null | undefined): number {
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+/** MMDDYYYY (itemized files) or MM/DD/YYYY (weball) to YYYY-MM-DD */
+export function fecDate(value: string | null | undefined): string | null {
+  const match = (value ?? '').trim().match(/^(\d{2})\/?(\d{2})\/?(\d{4})$/);
+  return match ? `${match[3]}-${match[1]}-${match[2]}` : null;
+}
+
+/** The two-year cycle a year falls in, named for its even year */
+export function cycleForYear(year: number): number {
+  return year % 2 === 0 ? year : year + 1;
+}
+
+export function currentCycle(now: Date = new Date()): number {
+  return cycleForYear(now.getUTCFullYear());
+}
+
+/** '2024-03-31' -> '2024-Q1' */
+export function quarterOf(isoDate: string): string {
+  return `${isoDate.slice(0, 4)}-Q${Math.floor((Number(isoDate.slice(5, 7)) - 1) / 3) + 1}`;
+}
+
+// ============================================================================
+// PARSERS
+// ============================================================================
+
+export interface FecCandidateRecord {
+  fecCandidateId: string;
+  cycle: number;
+  name: string;
+  party: string | null;
+  electionYear: number | null;
+  office: string | null;
+  officeState: string | null;
+  district: string | null;
+  incumbentChallenge: string | null;
+  status: string | null;
+  principalCommitteeId: string | null;
+}
+
+export interface FecCommitteeRecord {
+  committeeId: string;
+  cycle: number;
+  name: string;
+  designation: string | null;
+  type: string | null;
+  party: string | null;
+  state: string | null;
+  fecCandidateId: string | null;
+}
+
+export interface FecTotalsRecord {
+  fecCandidateId: string;
+  cycle: number;
+  coverageEndDate: string;
+  totalReceipts: number;
+  totalDisbursements: number;
+  cashOnHandStart: number;
+  cashOnHand: number;
+  individualContributions: number;
+  candidateContributions: number;
+  candidateLoans: number;
+  otherCommitteeContributions: number;
+  partyContributions: number;
+  debts: number;
+}
+
+export interface FecContribution {
+  committeeId: string;
+  state: string;
+  date: string;
+  amount: number;
+}
+
+export function parseCandidateMaster(line: string, cycle: number): FecCandidateRecord | null {
+  const row = fecFields(line, CANDIDATE_MASTER_COLUMNS);
+  if (!row?.CAND_ID) return null;
+  return {
+    fecCandidateId: row.CAND_ID,
+    cycle,
+    name: row.CAND_NAME,
+    party: row.CAND_PTY_AFFILIATION || null,
+    electionYear: Number(row.CAND_ELECTION_YR) || null,
+    office: row.CAND_OFFICE || null,
+    officeState: row.CAND_OFFICE_ST || null,
+    district: row.CAND_OFFICE_DISTRICT || null,
+    incumbentChallenge: row.CAND_ICI || null,
+    status: row.CAND_STATUS || null,
+    principalCommitteeId: row.CAND_PCC || null
+  };
+}
+
+export function parseCommitteeMaster(line: string, cycle: number): FecCommitteeRecord | null {
+  const row = fecFields(line, COMMITTEE_MASTER_COLUMNS);
+  if (!row?.CMTE_ID) return null;
+  return {
+    committeeId: row.CMTE_ID,
+    cycle,
+    name: row.CMTE_NM,
+    designation: row.CMTE_DSGN || null,
+    type: row.CMTE_TP || null,
+    party: row.CMTE_PTY_AFFILIATION || null,
+    state: row.CMTE_ST || null,
+    fecCandidateId: row.CAND_ID || null
+  };
+}
+
+/** A weball line; candidates without a coverage date have not filed yet */
+export function parseWeball(line: string, cycle: number): FecTotalsRecord | null {
+  const row = fecFields(line, WEBALL_COLUMNS);
+  const coverageEndDate = row ? fecDate(row.CVG_END_DT) : null;
+  if (!row?.CAND_ID || !coverageEndDate) return null;
+  return {
+    fecCandidateId: row.CAND_ID,
+    cycle,
+    coverageEndDate,
+    totalReceipts: fecAmount(row.TTL_RECEIPTS),
+    totalDisbursements: fecAmount(row.TTL_DISB),
+    cashOnHandStart: fecAmount(row.COH_BOP),
+    cashOnHand: fecAmount(row.COH_COP),
+    individualContributions: fecAmount(row.TTL_INDIV_CONTRIB),
+    candidateContributions: fecAmount(row.CAND_CONTRIB),
+    candidateLoans: fecAmount(row.CAND_LOANS),
+    otherCommitteeContributions: fecAmount(row.OTHER_POL_CMTE_CONTRIB),
+    partyContributions: fecAmount(row.POL_PTY_CONTRIB),
+    debts: fecAmount(row.DEBTS_OWED_BY)
+  };
+}
+
+/**
+ * An itemized contribution from an individual. Memo entries are skipped
+ * since they repeat amounts counted elsewhere (earmarks, partnership
+ * attributions), as is anything that is not a 15-series receipt.
+ */
+export function parseContribution(line: string): FecContribution | null {
+  const row = fecFields(line, CONTRIBUTION_COLUMNS);
+  if (!row?.CMTE_ID || row.MEMO_CD === 'X' || !row.TRANSACTION_TP.startsWith('15')) return null;
+  if (row.ENTITY_TP && row.ENTITY_TP !== 'IND') return null;
+  const date = fecDate(row.TRANSACTION_DT);
+  if (!date) return null;
+  return { committeeId: row.CMTE_ID, state: row.STATE.toUpperCase().slice(0, 2), date, amount: fecAmount(row.TRANSACTION_AMT) };
+}
+
+export interface ContributionAggregate {
+  committeeId: string;
+  quarter: string;
+  contributorState: string;
+  total: number;
+  count: number;
+}
+
+/** Roll a contribution into the committee/quarter/state totals */
+export function addContribution(aggregates: Map<string, ContributionAggregate>, contribution: FecContribution): void {
+  const quarter = quarterOf(contribution.date);
+  const key = `${contribution.committeeId}|${quarter}|${contribution.state}`;
+  const aggregate = aggregates.get(key);
+  if (aggregate) {
+    aggregate.total += contribution.amount;
+    aggregate.count++;
+  } else {
+    aggregates.set(key, { committeeId: contribution.committeeId, quarter, contributorState: contribution.state, total: contribution.amount, count: 1 });
+  }
+}
+
+// ============================================================================
+// SERIES AND METRICS
+// ============================================================================
+
+export interface TotalsSnapshot {
+  coverageEndDate: string;
+  totalReceipts: number;
+  totalDisbursements: number;
+  cashOnHand: number | null;
+}
+
+export interface QuarterPoint {
+  quarter: string;
+  receipts: number | null;
+  disbursements: number | null;
+  cumulative: boolean; // receipts and disbursements are cycle-to-date, not the quarter's
+  cashOnHand: number | null;
+  itemizedIndividual: number;
+  coverageEndDate: string | null;
+}
+
+/**
+ * Quarterly receipts, disbursements and closing cash on hand. The totals
+ * are cycle-to-date, so each quarter is its last snapshot less the one
+ * from the quarter before. The first snapshot has nothing to subtract and
+ * is marked cumulative; a quarter whose previous quarter has no snapshot
+ * has no amounts, and quarters with no snapshot keep only their itemized
+ * receipts.
+ */
+export function quarterlySeries(snapshots: TotalsSnapshot[], itemized: Array<{ quarter: string; total: number }>): QuarterPoint[] {
+  const lastByQuarter = new Map<string, TotalsSnapshot>();
+  [...snapshots]
+    .sort((a, b) => a.coverageEndDate.localeCompare(b.coverageEndDate))
+    .forEach(snapshot => lastByQuarter.set(quarterOf(snapshot.coverageEndDate), snapshot));
+
+  const itemizedByQuarter = new Map<string, number>();
+  itemized.forEach(row => itemizedByQuarter.set(row.quarter, (itemizedByQuarter.get(row.quarter) ?? 0) + row.total));
+
+  const quarters = Array.from(new Set([...Array.from(lastByQuarter.keys()), ...Array.from(itemizedByQuarter.keys())])).sort();
+  let first = true;
+  return quarters.map(quarter => {
+    const snapshot = lastByQuarter.get(quarter) ?? null;
+    const cumulative = !!snapshot && first;
+    const previous = cumulative ? null : lastByQuarter.get(previousQuarter(quarter)) ?? null;
+    const measured = cumulative || !!(snapshot && previous);
+    if (snapshot) first = false;
+    return {
+      quarter,
+      receipts: measured ? round2(snapshot.totalReceipts - (previous?.totalReceipts ?? 0)) : null,
+      disbursements: measured ? round2(snapshot.totalDisbursements - (previous?.totalDisbursements ?? 0)) : null,
+      cumulative,
+      cashOnHand: snapshot?.cashOnHand ?? null,
+      itemizedIndividual: round2(itemizedByQuarter.get(quarter) ?? 0),
+      coverageEndDate: snapshot?.coverageEndDate ?? null
+    };
+  });
+}
+
+function previousQuarter(quarter: string): string {
+  const year = Number(quarter.slice(0, 4));
+  const q = Number(quarter.slice(6));
+  return q === 1 ? `${year - 1}-Q4` : `${year}-Q${q - 1}`;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function share(part: number, whole: number): number | null {
+  if (!(whole > 0)) return null;
+  return Math.round(Math.min(1, Math.max(0, part / whole)) * 1000) / 1000;
+}
+
+export interface FundraisingMetrics {
+  smallDonorShare: number | null;  // unitemized share of individual contributions
+  inStateShare: number | null;     // in-state share of itemized individual contributions
+  selfFundingShare: number | null; // candidate contributions and loans as a share of receipts
+  itemizedIndividual: number;
+}
+
+/**
+ * Small donors are the unitemized remainder of individual contributions -
+ * donors who gave $200 or less in the cycle never appear in itemized
+ * files. The in-state share can only be measured on itemized
+ * contributions, and is not meaningful for presidential candidates.
+ */
+export function fundraisingMetrics(
+  totals: Pick<FecTotalsRecord, 'totalReceipts' | 'individualContributions' | 'candidateContributions' | 'candidateLoans'> | null,
+  itemized: Array<{ contributorState: string; total: number }>,
+  officeState: string | null
+): FundraisingMetrics {
+  const itemizedIndividual = round2(itemized.reduce((sum, row) => sum + row.total, 0));
+  const inState = itemized.filter(row => row.contributorState === officeState).reduce((sum, row) => sum + row.total, 0);
+  const hasItemized = itemized.length > 0;
+  return {
+    smallDonorShare: totals && hasItemized ? share(totals.individualContributions - itemizedIndividual, totals.individualContributions) : null,
+    inStateShare: hasItemized && officeState && officeState !== 'US' ? share(inState, itemizedIndividual) : null,
+    selfFundingShare: totals ? share(totals.candidateContributions + totals.candidateLoans, totals.totalReceipts) : null,
+    itemizedIndividual
+  };
+}
+
+// ============================================================================
+// RACES
+// ============================================================================
+
+export interface FecSeat {
+  office: 'H' | 'S' | 'P';
+  state: string;
+  district: string; // '00' for at-large, Senate and President
+}
+
+/** The FEC office, state and district a federal race is for */
+export function fecSeatForElection(election: BallotElection): FecSeat | null {
+  if (election.level.toLowerCase() !== 'federal') return null;
+  const text = [election.title, election.subtitle, ...(election.offices ?? [])].filter(Boolean).join(' ').toLowerCase();
+  const state = election.state.toUpperCase();
+  if (/president/.test(text)) return { office: 'P', state: 'US', district: '00' };
+  if (/senate|senator/.test(text)) return { office: 'S', state, district: '00' };
+
+  const scope = electionScope(election);
+  if (scope.kind === 'district' && scope.type === 'congressional') {
+    return { office: 'H', state, district: scope.number === 'AL' ? '00' : scope.number.padStart(2, '0') };
+  }
+  if (/house|representative|congress/.test(text)) return { office: 'H', state, district: '00' };
+  return null;
+}
+
+export interface RaceMoneyEntry {
+  candidateId: number;
+  receipts: number;
+  disbursements: number;
+  cashOnHand: number;
+}
+
+/** Each candidate's share of the race's receipts and their fundraising rank */
+export function rankRaceMoney<E extends RaceMoneyEntry>(entries: E[]): Array<E & { receiptsShare: number | null; rank: number }> {
+  const total = entries.reduce((sum, e) => sum + e.receipts, 0);
+  return [...entries]
+    .sort((a, b) => b.receipts - a.receipts)
+    .map((entry, index) => ({ ...entry, receiptsShare: share(entry.receipts, total), rank: index + 1 }));
+}
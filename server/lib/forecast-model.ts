@@ -0,0 +1,405 @@
+/**
+ * Race forecast model
+ * Monte Carlo simulation over blended polling + fundamentals estimates,
+ * with a shared national swing so races move together, plus chamber
+ * control and tipping-point analysis. Pure functions only.
+ */
+
+export type ForecastChamber = 'senate' | 'house' | 'governor' | 'other';
+export type PartyCode = 'D' | 'R' | 'I';
+
+export interface ContenderInput {
+  candidateId: number;
+  name: string;
+  party: PartyCode;
+  isIncumbent: boolean;
+  pollAverage?: number | null;     // weighted polling average, 0-100
+  pollStandardError?: number | null;
+  pollCount?: number;
+  receipts?: number | null;        // total raised, dollars
+  priorPartyShare?: number | null; // party's share in the last comparable race
+}
+
+export interface RaceInput {
+  raceId: number;
+  title: string;
+  state: string;
+  chamber: ForecastChamber;
+  daysUntilElection: number;
+  contenders: ContenderInput[];
+}
+
+export interface ForecastParameters {
+  simulations?: number;
+  seed?: number;
+  historicalPollError?: number; // RMSE of final-poll margins, points
+  nationalSwingSd?: number;     // shared error on the D-R margin, points
+  fundamentalsSd?: number;      // share error when no polls exist, points
+  dailyDriftVariance?: number;  // extra share variance per day out
+  incumbencyBonus?: number;     // share points
+  moneyEffect?: number;         // share points per doubling of receipts ratio
+}
+
+export interface ContenderForecast {
+  candidateId: number;
+  name: string;
+  party: PartyCode;
+  winProbability: number;
+  meanShare: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  pollWeight: number;
+}
+
+export interface RaceForecast {
+  raceId: number;
+  title: string;
+  state: string;
+  chamber: ForecastChamber;
+  contenders: ContenderForecast[];
+  favoriteCandidateId: number | null;
+  tippingPointProbability: number;
+}
+
+export interface ChamberSetup {
+  chamber: ForecastChamber;
+  majority: number;
+  holdover: Partial<Record<PartyCode, number>>; // seats not up this cycle
+  tiebreaker?: PartyCode; // party that controls a tied chamber (e.g. VP)
+  seats?: number; // whole chamber, for checking every seat is accounted for
+}
+
+export interface ChamberCoverage {
+  chamber: ForecastChamber;
+  seats: number;
+  modeledSeats: number;
+  heldOver: number;
+}
+
+export interface ChamberForecast {
+  chamber: ForecastChamber;
+  majority: number;
+  modeledSeats: number;
+  holdover: Partial<Record<PartyCode, number>>;
+  controlProbability: Record<'D' | 'R', number>;
+  expectedSeats: Record<PartyCode, number>;
+  democraticSeats: { p10: number; p50: number; p90: number };
+  tippingPoints: Array<{ raceId: number; title: string; state: string; probability: number }>;
+}
+
+export interface ForecastResult {
+  simulations: number;
+  parameters: Required<Omit<ForecastParameters, 'seed'>> & { seed: number };
+  races: RaceForecast[];
+  chambers: ChamberForecast[];
+}
+
+const DEFAULT_PARAMETERS: Required<Omit<ForecastParameters, 'seed'>> = {
+  simulations: 10000,
+  historicalPollError: 5.5,
+  nationalSwingSd: 2.5,
+  fundamentalsSd: 8,
+  dailyDriftVariance: 0.04,
+  incumbencyBonus: 2.5,
+  moneyEffect: 1.2,
+};
+
+// Shares are tracked in 0.5-point histogram bins to keep memory flat
+const BIN_WIDTH = 0.5;
+const BIN_COUNT = Math.round(100 / BIN_WIDTH) + 1;
+
+function round(value: number, digits: number = 1): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so runs are reproducible
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createNormal(random: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    let u = 0;
+    let v = 0;
+    while (u === 0) u = random();
+    while (v === 0) v = random();
+    const magnitude = Math.sqrt(-2 * Math.log(u));
+    spare = magnitude * Math.sin(2 * Math.PI * v);
+    return magnitude * Math.cos(2 * Math.PI * v);
+  };
+}
+
+interface PreparedContender {
+  input: ContenderInput;
+  mean: number;
+  sd: number;
+  pollWeight: number;
+}
+
+/**
+ * Blend polling with fundamentals for each contender. Fundamentals start from
+ * the party's prior share (or an even split), then add incumbency and money.
+ */
+export function prepareRace(race: RaceInput, params: Required<Omit<ForecastParameters, 'seed'>>): PreparedContender[] {
+  const count = race.contenders.length;
+  const evenSplit = 100 / Math.max(count, 1);
+  const receipts = race.contenders.map(c => Math.max(c.receipts ?? 0, 0));
+  const meanReceipts = receipts.reduce((sum, r) => sum + r, 0) / Math.max(count, 1);
+
+  const fundamentals = race.contenders.map((c, i) => {
+    let share = c.priorPartyShare ?? evenSplit;
+    if (c.isIncumbent) share += params.incumbencyBonus;
+    if (meanReceipts > 0 && receipts[i] > 0) {
+      share += clamp(Math.log2(receipts[i] / meanReceipts) * params.moneyEffect, -3, 3);
+    }
+    return Math.max(share, 0.5);
+  });
+  const fundamentalsTotal = fundamentals.reduce((sum, f) => sum + f, 0);
+
+  // Polls become more informative as election day approaches
+  const timeFactor = clamp(1 - race.daysUntilElection / 400, 0.5, 1);
+
+  return race.contenders.map((c, i) => {
+    const fundamental = (fundamentals[i] / fundamentalsTotal) * 100;
+    const hasPolls = c.pollAverage !== null && c.pollAverage !== undefined && (c.pollCount ?? 0) > 0;
+    const pollCount = c.pollCount ?? 0;
+    const pollWeight = hasPolls ? (pollCount / (pollCount + 2)) * timeFactor : 0;
+    const pollValue = hasPolls ? (c.pollAverage as number) : fundamental;
+    const pollSe = c.pollStandardError ?? 0;
+
+    const mean = pollWeight * pollValue + (1 - pollWeight) * fundamental;
+    const variance =
+      Math.pow(pollWeight, 2) * (Math.pow(pollSe, 2) + Math.pow(params.historicalPollError / 2, 2)) +
+      Math.pow(1 - pollWeight, 2) * Math.pow(params.fundamentalsSd, 2) +
+      Math.max(race.daysUntilElection, 0) * params.dailyDriftVariance;
+
+    return { input: c, mean, sd: Math.sqrt(variance), pollWeight };
+  });
+}
+
+function percentileFromHistogram(histogram: Int32Array, total: number, percentile: number): number {
+  const target = total * percentile;
+  let cumulative = 0;
+  for (let bin = 0; bin < histogram.length; bin++) {
+    cumulative += histogram[bin];
+    if (cumulative >= target) return bin * BIN_WIDTH;
+  }
+  return 100;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = clamp(Math.floor(p * (sorted.length - 1)), 0, sorted.length - 1);
+  return sorted[index];
+}
+
+/**
+ * Split chambers into those whose every seat is either modeled or held
+ * over, and those that are not. Control of a chamber with seats nobody
+ * modeled would come out of the defaults, not the races, so callers leave
+ * those chambers out of the simulation.
+ */
+export function chamberCoverage(
+  races: Pick<RaceInput, 'chamber'>[],
+  chambers: ChamberSetup[]
+): { covered: ChamberSetup[]; uncovered: ChamberCoverage[] } {
+  const covered: ChamberSetup[] = [];
+  const uncovered: ChamberCoverage[] = [];
+  for (const setup of chambers) {
+    const modeledSeats = races.filter(race => race.chamber === setup.chamber).length;
+    const heldOver = Object.values(setup.holdover).reduce((sum, n) => sum + (n ?? 0), 0);
+    if (setup.seats === undefined || modeledSeats + heldOver >= setup.seats) {
+      covered.push(setup);
+    } else {
+      uncovered.push({ chamber: setup.chamber, seats: setup.seats, modeledSeats, heldOver });
+    }
+  }
+  return { covered, uncovered };
+}
+
+/**
+ * Run the Monte Carlo simulation for a set of races, optionally rolling
+ * the results up into chamber control.
+ */
+export function runForecast(
+  races: RaceInput[],
+  chambers: ChamberSetup[] = [],
+  options: ForecastParameters = {}
+): ForecastResult {
+  const seed = options.seed ?? Date.now();
+  const params = { ...DEFAULT_PARAMETERS, ...options };
+  const normal = createNormal(createRandom(seed));
+  const simulations = Math.max(100, Math.floor(params.simulations));
+
+  const prepared = races.map(race => prepareRace(race, params));
+  const wins = prepared.map(contenders => new Float64Array(contenders.length));
+  const shareSums = prepared.map(contenders => new Float64Array(contenders.length));
+  const histograms = prepared.map(contenders => contenders.map(() => new Int32Array(BIN_COUNT)));
+
+  const chamberRaces = chambers.map(setup =>
+    races.map((race, index) => ({ race, index })).filter(r => r.race.chamber === setup.chamber)
+  );
+  const tippingCounts = races.map(() => 0);
+  const controlCounts = chambers.map(() => ({ D: 0, R: 0 }));
+  const seatTotals = chambers.map(() => ({ D: 0, R: 0, I: 0 }));
+  const democraticSeatDraws = chambers.map(() => [] as number[]);
+
+  const winnerParty: PartyCode[] = new Array(races.length);
+  const demMargin = new Float64Array(races.length);
+
+  for (let sim = 0; sim < simulations; sim++) {
+    const nationalSwing = normal() * params.nationalSwingSd;
+
+    for (let r = 0; r < prepared.length; r++) {
+      const contenders = prepared[r];
+      if (contenders.length === 0) continue;
+
+      const shares = contenders.map(c => {
+        let swing = 0;
+        if (c.input.party === 'D') swing = nationalSwing / 2;
+        if (c.input.party === 'R') swing = -nationalSwing / 2;
+        return Math.max(c.mean + swing + normal() * c.sd, 0);
+      });
+      const total = shares.reduce((sum, s) => sum + s, 0) || 1;
+
+      let best = 0;
+      let dem = 0;
+      let rep = 0;
+      for (let i = 0; i < shares.length; i++) {
+        const share = (shares[i] / total) * 100;
+        shareSums[r][i] += share;
+        histograms[r][i][Math.min(BIN_COUNT - 1, Math.round(share / BIN_WIDTH))]++;
+        if (shares[i] > shares[best]) best = i;
+        if (contenders[i].input.party === 'D') dem = Math.max(dem, share);
+        if (contenders[i].input.party === 'R') rep = Math.max(rep, share);
+      }
+      wins[r][best]++;
+      winnerParty[r] = contenders[best].input.party;
+      demMargin[r] = dem - rep;
+    }
+
+    chambers.forEach((setup, c) => {
+      const members = chamberRaces[c];
+      const seats = {
+        D: setup.holdover.D ?? 0,
+        R: setup.holdover.R ?? 0,
+        I: setup.holdover.I ?? 0,
+      };
+      for (const { index } of members) {
+        if (prepared[index].length === 0) continue;
+        seats[winnerParty[index]]++;
+      }
+      seatTotals[c].D += seats.D;
+      seatTotals[c].R += seats.R;
+      seatTotals[c].I += seats.I;
+      democraticSeatDraws[c].push(seats.D);
+
+      let controller: 'D' | 'R' | null = null;
+      if (seats.D >= setup.majority) controller = 'D';
+      else if (seats.R >= setup.majority) controller = 'R';
+      else if (setup.tiebreaker && setup.tiebreaker !== 'I' && seats[setup.tiebreaker] === setup.majority - 1) {
+        controller = setup.tiebreaker;
+      }
+      if (!controller) return;
+      controlCounts[c][controller]++;
+
+      // Tipping point: the seat that delivers the controller its majority,
+      // walking races from the controller's strongest to weakest
+      const seatsForControl = seats[controller] < setup.majority ? setup.majority - 1 : setup.majority;
+      const needed = seatsForControl - (setup.holdover[controller] ?? 0);
+      const ordered = members
+        .filter(m => prepared[m.index].length > 0)
+        .map(m => m.index)
+        .sort((a, b) => controller === 'D' ? demMargin[b] - demMargin[a] : demMargin[a] - demMargin[b]);
+      if (needed >= 1 && needed <= ordered.length) {
+        tippingCounts[ordered[needed - 1]]++;
+      }
+    });
+  }
+
+  const raceResults: RaceForecast[] = races.map((race, r) => {
+    const contenders = prepared[r].map((c, i) => ({
+      candidateId: c.input.candidateId,
+      name: c.input.name,
+      party: c.input.party,
+      winProbability: round(wins[r][i] / simulations, 4),
+      meanShare: round(shareSums[r][i] / simulations),
+      p10: percentileFromHistogram(histograms[r][i], simulations, 0.1),
+      p50: percentileFromHistogram(histograms[r][i], simulations, 0.5),
+      p90: percentileFromHistogram(histograms[r][i], simulations, 0.9),
+      pollWeight: round(c.pollWeight, 3),
+    })).sort((a, b) => b.winProbability - a.winProbability);
+
+    return {
+      raceId: race.raceId,
+      title: race.title,
+      state: race.state,
+      chamber: race.chamber,
+      contenders,
+      favoriteCandidateId: contenders[0]?.candidateId ?? null,
+      tippingPointProbability: round(tippingCounts[r] / simulations, 4),
+    };
+  });
+
+  const chamberResults: ChamberForecast[] = chambers.map((setup, c) => {
+    const draws = democraticSeatDraws[c].sort((a, b) => a - b);
+    return {
+      chamber: setup.chamber,
+      majority: setup.majority,
+      modeledSeats: chamberRaces[c].length,
+      holdover: setup.holdover,
+      controlProbability: {
+        D: round(controlCounts[c].D / simulations, 4),
+        R: round(controlCounts[c].R / simulations, 4),
+      },
+      expectedSeats: {
+        D: round(seatTotals[c].D / simulations),
+        R: round(seatTotals[c].R / simulations),
+        I: round(seatTotals[c].I / simulations),
+      },
+      democraticSeats: {
+        p10: percentile(draws, 0.1),
+        p50: percentile(draws, 0.5),
+        p90: percentile(draws, 0.9),
+      },
+      tippingPoints: chamberRaces[c]
+        .map(({ race, index }) => ({
+          raceId: race.raceId,
+          title: race.title,
+          state: race.state,
+          probability: round(tippingCounts[index] / simulations, 4),
+        }))
+        .filter(t => t.probability > 0)
+        .sort((a, b) => b.probability - a.probability)
+        .slice(0, 10),
+    };
+  });
+
+  return {
+    simulations,
+    parameters: { ...params, simulations, seed },
+    races: raceResults,
+    chambers: chamberResults,
+  };
+}
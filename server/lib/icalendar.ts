@@ -0,0 +1,252 @@
+/**
+ * iCalendar feeds
+ * Serializes elections and their voter deadlines as RFC 5545 calendars for
+ * calendar apps to subscribe to. Every event is all-day and keeps the same
+ * UID for as long as the election exists, and its SEQUENCE only goes up,
+ * so a moved election date or deadline replaces the event in subscribed
+ * calendars instead of adding a second one. Elections that are called off
+ * and deadlines that are removed stay in the feed as cancelled for the
+ * same reason.
+ * Pure functions only - loading elections and feed tokens lives in
+ * calendar-feed-service.
+ */
+
+export type DeadlineKind = 'registration' | 'early_voting' | 'mail_ballot_request' | 'mail_ballot_return';
+
+export const DEADLINE_KINDS: readonly DeadlineKind[] = ['registration', 'early_voting', 'mail_ballot_request', 'mail_ballot_return'];
+
+export const DEADLINE_LABELS: Record<DeadlineKind, string> = {
+  registration: 'Voter registration deadline',
+  early_voting: 'Early voting',
+  mail_ballot_request: 'Mail ballot request deadline',
+  mail_ballot_return: 'Mail ballot return deadline'
+};
+
+export function isDeadlineKind(value: string): value is DeadlineKind {
+  return (DEADLINE_KINDS as readonly string[]).includes(value);
+}
+
+export const CALENDAR_PRODID = '-//Election Tracker//Calendar Feeds//EN';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;           // all-day - the UTC calendar day is used
+  end?: Date | null;     // last day, inclusive; defaults to start
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  categories?: string[];
+  sequence: number;
+  lastModified?: Date | null;
+  cancelled?: boolean;
+  alarmDaysBefore?: number | null; // VALARM this many days before the start
+}
+
+export interface CalendarOptions {
+  name: string;
+  description?: string;
+  refreshHours?: number;
+  generatedAt: Date;
+}
+
+export interface FeedElection {
+  id: number;
+  title: string;
+  state: string;
+  location: string;
+  date: Date;
+  type: string;
+  level: string;
+  pollsOpen?: string | null;
+  pollsClose?: string | null;
+  isActive?: boolean | null;
+  sequence: number;
+  lastModified?: Date | null;
+}
+
+export interface FeedDeadline {
+  electionId: number;
+  kind: string;
+  startsOn?: Date | null;
+  endsOn: Date;
+  note?: string | null;
+  sourceUrl?: string | null;
+  sequence: number;
+  removedAt?: Date | null;
+  updatedAt?: Date | null;
+}
+
+/** TEXT values escape backslashes, semicolons, commas and newlines */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets, continuation lines starting with a
+ * space. Never splits a multi-byte character.
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to their leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** DATE value (YYYYMMDD) for the UTC calendar day */
+export function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+/** DATE-TIME value in UTC (YYYYMMDDTHHMMSSZ) */
+export function formatDateTime(date: Date): string {
+  return `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function eventLines(event: CalendarEvent, generatedAt: Date): string[] {
+  const last = event.end && event.end > event.start ? event.end : event.start;
+  const modified = event.lastModified ?? generatedAt;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    // Without a METHOD of its own an event's DTSTAMP is when it last changed
+    `DTSTAMP:${formatDateTime(modified)}`,
+    `LAST-MODIFIED:${formatDateTime(modified)}`,
+    `SEQUENCE:${Math.max(0, Math.floor(event.sequence))}`,
+    `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+    `DTEND;VALUE=DATE:${formatDate(new Date(last.getTime() + DAY_MS))}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    'TRANSP:TRANSPARENT',
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  if (event.alarmDaysBefore != null && event.alarmDaysBefore >= 0 && !event.cancelled) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:${event.alarmDaysBefore > 0 ? `-P${event.alarmDaysBefore}D` : 'PT0S'}`,
+      'END:VALARM'
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * The whole VCALENDAR, CRLF line endings and folded as RFC 5545 requires
+ */
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions): string {
+  const refresh = `PT${options.refreshHours ?? 6}H`;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...(options.description ? [`X-WR-CALDESC:${escapeText(options.description)}`] : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:${refresh}`,
+    `X-PUBLISHED-TTL:${refresh}`,
+    ...events.flatMap(event => eventLines(event, options.generatedAt)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** The domain part of UIDs - the app's host, so UIDs are globally unique */
+export function calendarHost(baseUrl: string): string {
+  try {
+    return new URL(baseUrl).host || 'localhost';
+  } catch {
+    return 'localhost';
+  }
+}
+
+function capitalize(value: string): string {
+  return value ? value[0].toUpperCase() + value.slice(1).toLowerCase() : value;
+}
+
+/**
+ * Election day plus each of its deadlines as events. UIDs hang off the
+ * election id and the deadline kind, never a row id, so re-entering a
+ * deadline updates the event already in people's calendars.
+ */
+export function electionEvents(
+  election: FeedElection,
+  deadlines: FeedDeadline[],
+  options: { baseUrl: string; host: string; alarmDaysBefore?: number | null }
+): CalendarEvent[] {
+  const url = `${options.baseUrl}/elections/${election.id}`;
+  const where = [election.location, election.state].filter(Boolean).join(', ');
+  const cancelled = election.isActive === false;
+  const polls = election.pollsOpen && election.pollsClose
+    ? `Polls open ${election.pollsOpen} - ${election.pollsClose}.`
+    : null;
+
+  const events: CalendarEvent[] = [{
+    uid: `election-${election.id}@${options.host}`,
+    start: election.date,
+    summary: election.title,
+    description: [`${capitalize(election.type)} ${election.level.toLowerCase()} election.`, polls, url].filter(Boolean).join('\n'),
+    location: where,
+    url,
+    categories: ['Election', capitalize(election.type)],
+    sequence: election.sequence,
+    lastModified: election.lastModified,
+    cancelled,
+    alarmDaysBefore: options.alarmDaysBefore
+  }];
+
+  for (const deadline of deadlines) {
+    if (deadline.electionId !== election.id || !isDeadlineKind(deadline.kind)) continue;
+    const label = DEADLINE_LABELS[deadline.kind];
+    const window = deadline.startsOn && deadline.startsOn < deadline.endsOn;
+    events.push({
+      uid: `election-${election.id}-${deadline.kind.replace(/_/g, '-')}@${options.host}`,
+      start: window ? deadline.startsOn! : deadline.endsOn,
+      end: deadline.endsOn,
+      summary: `${label}: ${election.title}`,
+      description: [deadline.note, deadline.sourceUrl ? `Source: ${deadline.sourceUrl}` : null, url].filter(Boolean).join('\n'),
+      location: where,
+      url,
+      categories: ['Election deadline'],
+      // An election date change moves its deadlines' context too
+      sequence: deadline.sequence + election.sequence,
+      lastModified: [deadline.updatedAt, election.lastModified]
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => b.getTime() - a.getTime())[0] ?? null,
+      // A removed deadline stays as a cancellation so calendars drop it
+      cancelled: cancelled || !!deadline.removedAt,
+      alarmDaysBefore: options.alarmDaysBefore
+    });
+  }
+  return events;
+}
@@ -0,0 +1,256 @@
+/**
+ * Live update stream
+ * Sequenced stream events, a bounded replay buffer for Last-Event-ID
+ * resume, subscription matching by election or state, result deltas and a
+ * per-connection outbound queue that coalesces under backpressure.
+ * Pure functions only - transports and wiring live in live-stream-service.
+ */
+
+export type StreamEventType =
+  | 'results'
+  | 'race_call'
+  | 'date_change'
+  | 'candidate_withdrawal'
+  | 'recount';
+
+export interface StreamEvent {
+  id: number;
+  type: StreamEventType;
+  electionId: number;
+  state: string | null;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+export type StreamEventInput = Omit<StreamEvent, 'id' | 'timestamp'> & { timestamp?: string };
+
+export const STREAM_EVENT_TYPES: StreamEventType[] = ['results', 'race_call', 'date_change', 'candidate_withdrawal', 'recount'];
+
+/**
+ * Ring buffer of recent events. Ids increase monotonically for the life of
+ * the process so a reconnecting client can ask for everything after the
+ * last id it saw.
+ */
+export class ReplayBuffer {
+  private events: StreamEvent[] = [];
+  private nextId = 1;
+
+  constructor(private readonly capacity: number = 1000) {}
+
+  append(input: StreamEventInput): StreamEvent {
+    const event: StreamEvent = {
+      ...input,
+      id: this.nextId++,
+      timestamp: input.timestamp ?? new Date().toISOString()
+    };
+    this.events.push(event);
+    if (this.events.length > this.capacity) {
+      this.events.splice(0, this.events.length - this.capacity);
+    }
+    return event;
+  }
+
+  get lastId(): number {
+    return this.nextId - 1;
+  }
+
+  /**
+   * Events after `lastEventId`, or null when the client has to resync from
+   * the REST endpoints: some of them have already been evicted, or the id
+   * is ahead of this buffer because it came from before a server restart
+   */
+  since(lastEventId: number): StreamEvent[] | null {
+    if (lastEventId > this.lastId) return null;
+    if (lastEventId === this.lastId) return [];
+    const oldest = this.events[0];
+    if (!oldest || lastEventId < oldest.id - 1) return null;
+    return this.events.filter(e => e.id > lastEventId);
+  }
+}
+
+export interface StreamSubscription {
+  electionIds: Set<number>;
+  states: Set<string>;
+  types: Set<StreamEventType> | null; // null = every type
+}
+
+export class SubscriptionLimitError extends Error {
+  constructor(public readonly limit: number, public readonly requested: number) {
+    super(`Subscription limit exceeded: ${requested} requested, at most ${limit} allowed per connection`);
+    this.name = 'SubscriptionLimitError';
+  }
+}
+
+function toList(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  const raw = Array.isArray(value) ? value : [value];
+  return raw
+    .flatMap(v => String(v).split(','))
+    .map(v => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build a subscription from query-string style input
+ * (`elections=1,2&states=GA,PA&types=results`)
+ */
+export function parseSubscription(
+  input: { elections?: unknown; states?: unknown; types?: unknown },
+  limit: number
+): StreamSubscription {
+  const electionIds = new Set(
+    toList(input.elections).map(v => parseInt(v, 10)).filter(v => Number.isInteger(v) && v > 0)
+  );
+  const states = new Set(toList(input.states).map(v => v.toUpperCase()).filter(v => /^[A-Z]{2}$/.test(v)));
+  const types = toList(input.types).filter((t): t is StreamEventType => STREAM_EVENT_TYPES.includes(t as StreamEventType));
+
+  const requested = electionIds.size + states.size;
+  if (requested > limit) throw new SubscriptionLimitError(limit, requested);
+
+  return { electionIds, states, types: types.length > 0 ? new Set(types) : null };
+}
+
+/**
+ * Add to an existing subscription, enforcing the same limit
+ */
+export function mergeSubscription(current: StreamSubscription, extra: StreamSubscription, limit: number): StreamSubscription {
+  const electionIds = new Set(Array.from(current.electionIds).concat(Array.from(extra.electionIds)));
+  const states = new Set(Array.from(current.states).concat(Array.from(extra.states)));
+  const requested = electionIds.size + states.size;
+  if (requested > limit) throw new SubscriptionLimitError(limit, requested);
+
+  const types = current.types && extra.types ? new Set(Array.from(current.types).concat(Array.from(extra.types))) : null;
+  return { electionIds, states, types };
+}
+
+export function removeFromSubscription(current: StreamSubscription, remove: StreamSubscription): StreamSubscription {
+  return {
+    electionIds: new Set(Array.from(current.electionIds).filter(id => !remove.electionIds.has(id))),
+    states: new Set(Array.from(current.states).filter(s => !remove.states.has(s))),
+    types: current.types
+  };
+}
+
+export function isEmptySubscription(subscription: StreamSubscription): boolean {
+  return subscription.electionIds.size === 0 && subscription.states.size === 0;
+}
+
+export function matchesSubscription(subscription: StreamSubscription, event: StreamEvent): boolean {
+  if (subscription.types && !subscription.types.has(event.type)) return false;
+  if (subscription.electionIds.has(event.electionId)) return true;
+  return !!event.state && subscription.states.has(event.state.toUpperCase());
+}
+
+export interface ResultsSnapshotCandidate {
+  candidateId: number;
+  name: string;
+  party: string | null;
+  votes: number;
+  percentage: number;
+}
+
+export interface ResultsSnapshot {
+  totalVotes: number;
+  percentReporting: number | null;
+  candidates: ResultsSnapshotCandidate[];
+}
+
+export interface ResultsDelta {
+  totalVotes: number;
+  percentReporting: number | null;
+  changed: Array<ResultsSnapshotCandidate & { previousVotes: number | null }>;
+  full: boolean;
+}
+
+/**
+ * Candidates whose count moved since the last published snapshot.
+ * Returns null when nothing changed so no event is sent.
+ */
+export function diffResults(previous: ResultsSnapshot | undefined, next: ResultsSnapshot): ResultsDelta | null {
+  if (!previous) {
+    return {
+      totalVotes: next.totalVotes,
+      percentReporting: next.percentReporting,
+      changed: next.candidates.map(c => ({ ...c, previousVotes: null })),
+      full: true
+    };
+  }
+
+  const before = new Map(previous.candidates.map(c => [c.candidateId, c]));
+  const changed = next.candidates
+    .filter(c => {
+      const prior = before.get(c.candidateId);
+      return !prior || prior.votes !== c.votes || prior.percentage !== c.percentage;
+    })
+    .map(c => ({ ...c, previousVotes: before.get(c.candidateId)?.votes ?? null }));
+
+  if (changed.length === 0 && previous.percentReporting === next.percentReporting && previous.totalVotes === next.totalVotes) {
+    return null;
+  }
+  return { totalVotes: next.totalVotes, percentReporting: next.percentReporting, changed, full: false };
+}
+
+/**
+ * Events waiting for a slow client. Result events for the same election
+ * replace each other - the newest one is merged over the older one so the
+ * client still learns about every candidate that moved. Anything else is
+ * kept in order. `push` returns false once the queue is over its limit, at
+ * which point the transport should drop the client and let it resume.
+ */
+export class OutboundQueue {
+  private pending: StreamEvent[] = [];
+
+  constructor(private readonly maxPending: number = 200) {}
+
+  get size(): number {
+    return this.pending.length;
+  }
+
+  push(event: StreamEvent): boolean {
+    if (event.type === 'results') {
+      const index = this.pending.findIndex(e => e.type === 'results' && e.electionId === event.electionId);
+      if (index !== -1) {
+        const merged = coalesceResults(this.pending[index], event);
+        this.pending.splice(index, 1);
+        this.pending.push(merged);
+        return true;
+      }
+    }
+    this.pending.push(event);
+    return this.pending.length <= this.maxPending;
+  }
+
+  shift(): StreamEvent | undefined {
+    return this.pending.shift();
+  }
+
+  clear(): void {
+    this.pending = [];
+  }
+}
+
+function coalesceResults(older: StreamEvent, newer: StreamEvent): StreamEvent {
+  const olderDelta = older.data as unknown as ResultsDelta;
+  const newerDelta = newer.data as unknown as ResultsDelta;
+  if (!Array.isArray(olderDelta?.changed) || !Array.isArray(newerDelta?.changed)) return newer;
+
+  const byCandidate = new Map(olderDelta.changed.map(c => [c.candidateId, c]));
+  for (const candidate of newerDelta.changed) {
+    const prior = byCandidate.get(candidate.candidateId);
+    byCandidate.set(candidate.candidateId, { ...candidate, previousVotes: prior ? prior.previousVotes : candidate.previousVotes });
+  }
+  const delta: ResultsDelta = {
+    totalVotes: newerDelta.totalVotes,
+    percentReporting: newerDelta.percentReporting,
+    changed: Array.from(byCandidate.values()),
+    full: olderDelta.full || newerDelta.full
+  };
+  return { ...newer, data: delta as unknown as Record<string, unknown> };
+}
+
+/**
+ * Serialize an event in text/event-stream framing
+ */
+export function formatSseEvent(event: StreamEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
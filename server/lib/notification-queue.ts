@@ -0,0 +1,65 @@
+/**
+ * Notification queue policy
+ * Idempotency keys, retry backoff, and which provider failures are worth
+ * retrying versus dead-lettering straight away.
+ * Pure functions only - leasing and delivery live in
+ * notification-queue-service.
+ */
+
+export type DeadLetterReason = 'retries_exhausted' | 'permanent' | 'expired';
+
+export const PRIORITY_ORDER = ['urgent', 'high', 'normal', 'low'] as const;
+
+export interface BackoffOptions {
+  baseMs: number;
+  maxMs: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseMs: 60 * 1000,
+  maxMs: 60 * 60 * 1000
+};
+
+/**
+ * One delivery per (user, event, channel), so a replayed event or a second
+ * worker processing it cannot alert the same person twice. Ad-hoc sends
+ * without an event are never deduplicated.
+ */
+export function idempotencyKey(parts: {
+  userId?: string | null;
+  recipient: string;
+  eventId?: number | null;
+  channel: string;
+}): string | null {
+  if (!parts.eventId) return null;
+  const who = parts.userId || parts.recipient.trim().toLowerCase();
+  return `${who}:${parts.eventId}:${parts.channel}`;
+}
+
+/**
+ * Delay before the given retry (1-based): exponential with a cap, then
+ * jittered into the upper half so failed sends from one burst do not all
+ * come back at once
+ */
+export function backoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF, random: () => number = Math.random): number {
+  const exponential = options.baseMs * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(options.maxMs, exponential);
+  return Math.round(capped / 2 + random() * (capped / 2));
+}
+
+/**
+ * Provider rejections that will fail the same way on every retry - a bad
+ * address or number, an unsubscribed recipient. Throttling, timeouts and
+ * server errors are retried.
+ */
+export function isPermanentFailure(statusCode?: number | null): boolean {
+  if (!statusCode) return false;
+  return statusCode >= 400 && statusCode < 500 && statusCode !== 408 && statusCode !== 429;
+}
+
+/** Why a failed attempt ends in the dead-letter table, or null to retry */
+export function deadLetterReason(attempts: number, maxRetries: number, statusCode?: number | null): DeadLetterReason | null {
+  if (isPermanentFailure(statusCode)) return 'permanent';
+  if (attempts >= maxRetries) return 'retries_exhausted';
+  return null;
+}
@@ -0,0 +1,105 @@
+/**
+ * Notification template rendering
+ * The notification_templates subject, text and HTML bodies use a small
+ * Mustache subset: {{name}} (HTML-escaped in HTML bodies), {{{name}}}
+ * (never escaped), dotted paths, {{.}} for the current item,
+ * {{#name}}...{{/name}} to repeat over a list or show a block when a value
+ * is set, and {{^name}}...{{/name}} when it is not. A section tag alone on
+ * its line takes the line with it, so text templates stay tidy.
+ * Pure functions only - the templates themselves are stored rows.
+ */
+
+/** A template that does not parse - an unclosed or stray section */
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+const TAG = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*([#^/]?)\s*([\w.]+|\.)\s*\}\}/g;
+const STANDALONE_SECTION = /^[ \t]*(\{\{[#^/][^}]*\}\})[ \t]*\r?\n/gm;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+function lookup(stack: unknown[], name: string): unknown {
+  if (name === '.') return stack[stack.length - 1];
+  const [first, ...rest] = name.split('.');
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const frame = stack[i];
+    if (frame && typeof frame === 'object' && first in (frame as object)) {
+      return rest.reduce<any>((value, key) => (value == null ? undefined : value[key]), (frame as any)[first]);
+    }
+  }
+  return undefined;
+}
+
+function toText(value: unknown): string {
+  if (value == null) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+// Where the {{/name}} closing the section opened just before `from` starts and ends
+function findClose(template: string, name: string, from: number): { start: number; end: number } {
+  const tag = new RegExp(TAG.source, 'g');
+  tag.lastIndex = from;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(template))) {
+    if (match[3] !== name) continue;
+    if (match[2] === '#' || match[2] === '^') depth++;
+    if (match[2] === '/' && --depth === 0) return { start: match.index, end: tag.lastIndex };
+  }
+  throw new TemplateSyntaxError(`Section "${name}" is never closed`);
+}
+
+function renderWith(template: string, stack: unknown[], html: boolean): string {
+  const tag = new RegExp(TAG.source, 'g');
+  let out = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(template))) {
+    out += template.slice(last, match.index);
+    const [, raw, kind, name] = match;
+    if (raw) {
+      out += toText(lookup(stack, raw));
+    } else if (kind === '#' || kind === '^') {
+      const close = findClose(template, name, tag.lastIndex);
+      const inner = template.slice(tag.lastIndex, close.start);
+      const value = lookup(stack, name);
+      const items = Array.isArray(value) ? value : value ? [value] : [];
+      if (kind === '#') {
+        out += items.map(item => renderWith(inner, [...stack, item], html)).join('');
+      } else if (items.length === 0) {
+        out += renderWith(inner, stack, html);
+      }
+      tag.lastIndex = close.end;
+    } else if (kind === '/') {
+      throw new TemplateSyntaxError(`Unexpected closing tag for "${name}"`);
+    } else {
+      const text = toText(lookup(stack, name));
+      out += html ? escapeHtml(text) : text;
+    }
+    last = tag.lastIndex;
+  }
+  return out + template.slice(last);
+}
+
+/**
+ * Render a template against data. Throws TemplateSyntaxError when the
+ * template's sections do not match up.
+ */
+export function renderTemplate(template: string, data: Record<string, unknown>, options: { html?: boolean } = {}): string {
+  return renderWith(template.replace(STANDALONE_SECTION, '$1'), [data], options.html ?? false);
+}
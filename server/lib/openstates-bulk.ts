@@ -0,0 +1,332 @@
+/**
+ * OpenStates bulk data
+ * Parses the OpenStates bulk exports - the current-legislators CSV per
+ * state, the jurisdiction JSON (chambers, districts, sessions) and the
+ * per-session bill CSVs - plus v3 API bill objects into the records we
+ * store, with content hashes so incremental syncs only rewrite rows that
+ * changed. Also matches a legislative race's district to its seat.
+ * Pure functions only - downloads, file access and storage live in
+ * state-legislature-service.
+ */
+
+import { createHash } from 'crypto';
+import { parseCsv } from './csv';
+import { electionScope, type BallotElection } from './district-boundaries';
+
+export type LegislativeChamber = 'upper' | 'lower' | 'legislature';
+
+/** The jurisdictions OpenStates covers: 50 states, DC and Puerto Rico */
+export const OPENSTATES_JURISDICTIONS = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY',
+  'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC', 'ND',
+  'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY', 'DC', 'PR'
+];
+
+export function jurisdictionId(state: string): string {
+  const abbr = state.toLowerCase();
+  return abbr === 'dc' ? 'ocd-jurisdiction/country:us/district:dc/government'
+    : abbr === 'pr' ? 'ocd-jurisdiction/country:us/territory:pr/government'
+    : `ocd-jurisdiction/country:us/state:${abbr}/government`;
+}
+
+function isChamber(value: string | null | undefined): value is LegislativeChamber {
+  return value === 'upper' || value === 'lower' || value === 'legislature';
+}
+
+/** Postgres array literal from the CSV exports: '{bill,"appropriation bill"}' */
+export function parsePgArray(value: string | null | undefined): string[] {
+  const text = (value ?? '').trim();
+  if (!text.startsWith('{') || !text.endsWith('}')) return text ? [text] : [];
+  const items: string[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|([^,{}]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text.slice(1, -1))) !== null) {
+    const item = match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2].trim();
+    if (item && item !== 'NULL') items.push(item);
+  }
+  return items;
+}
+
+/** Stable SHA-1 of a record, independent of key order */
+export function recordHash(record: unknown): string {
+  const canonical = (value: any): any =>
+    Array.isArray(value) ? value.map(canonical)
+      : value instanceof Date ? value.toISOString()
+      : value && typeof value === 'object'
+        ? Object.keys(value).sort().reduce((out: any, key) => ({ ...out, [key]: canonical(value[key]) }), {})
+        : value;
+  return createHash('sha1').update(JSON.stringify(canonical(record))).digest('hex');
+}
+
+function dateOrNull(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// ============================================================================
+// LEGISLATORS
+// ============================================================================
+
+export interface LegislatorRecord {
+  openstatesId: string;
+  state: string;
+  chamber: LegislativeChamber | null;
+  district: string | null;
+  name: string;
+  givenName: string | null;
+  familyName: string | null;
+  party: string | null;
+  email: string | null;
+  imageUrl: string | null;
+  capitolPhone: string | null;
+  links: string[];
+}
+
+/** data.openstates.org/people/current/{state}.csv */
+export function parsePeopleCsv(text: string, state: string): LegislatorRecord[] {
+  return parseCsv(text)
+    .filter(row => row.id && row.name)
+    .map(row => ({
+      openstatesId: row.id,
+      state: state.toUpperCase(),
+      chamber: isChamber(row.current_chamber) ? row.current_chamber : null,
+      district: row.current_district || null,
+      name: row.name,
+      givenName: row.given_name || null,
+      familyName: row.family_name || null,
+      party: row.current_party || null,
+      email: row.email || null,
+      imageUrl: row.image || null,
+      capitolPhone: row.capitol_voice || null,
+      links: (row.links ?? '').split(';').map(link => link.trim()).filter(Boolean)
+    }));
+}
+
+// ============================================================================
+// JURISDICTION: CHAMBERS, DISTRICTS, SESSIONS
+// ============================================================================
+
+export interface ChamberRecord {
+  state: string;
+  chamber: LegislativeChamber;
+  name: string;
+  memberTitle: string | null;
+  seats: number;
+  openstatesOrgId: string | null;
+}
+
+export interface DistrictRecord {
+  state: string;
+  chamber: LegislativeChamber;
+  district: string;
+  divisionId: string | null;
+  seats: number;
+}
+
+export interface SessionRecord {
+  state: string;
+  identifier: string;
+  name: string;
+  classification: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+/**
+ * A v3 jurisdiction object fetched with include=organizations and
+ * include=legislative_sessions (or the same JSON saved to disk)
+ */
+export function parseJurisdiction(json: any, state: string): { chambers: ChamberRecord[]; districts: DistrictRecord[]; sessions: SessionRecord[] } {
+  const abbr = state.toUpperCase();
+  const chambers: ChamberRecord[] = [];
+  const districts: DistrictRecord[] = [];
+
+  for (const org of json?.organizations ?? []) {
+    if (!isChamber(org.classification)) continue;
+    const orgDistricts: any[] = org.districts ?? [];
+    chambers.push({
+      state: abbr,
+      chamber: org.classification,
+      name: org.name,
+      memberTitle: orgDistricts[0]?.role ?? null,
+      seats: orgDistricts.reduce((sum, d) => sum + (Number(d.maximum_memberships) || 1), 0),
+      openstatesOrgId: org.id ?? null
+    });
+    for (const district of orgDistricts) {
+      if (!district.label) continue;
+      districts.push({
+        state: abbr,
+        chamber: org.classification,
+        district: String(district.label),
+        divisionId: district.division_id ?? null,
+        seats: Number(district.maximum_memberships) || 1
+      });
+    }
+  }
+
+  const sessions: SessionRecord[] = (json?.legislative_sessions ?? []).map((session: any) => ({
+    state: abbr,
+    identifier: String(session.identifier),
+    name: session.name ?? String(session.identifier),
+    classification: session.classification ?? null,
+    startDate: dateOrNull(session.start_date),
+    endDate: dateOrNull(session.end_date)
+  }));
+
+  return { chambers, districts, sessions };
+}
+
+// ============================================================================
+// BILLS
+// ============================================================================
+
+export interface StateBillAction {
+  date: string | null;
+  description: string;
+  classification: string[];
+  chamber: string | null;
+}
+
+export interface StateBillSponsor {
+  name: string;
+  personId: string | null;
+  primary: boolean;
+  classification: string | null;
+}
+
+export interface StateBillRecord {
+  openstatesId: string;
+  state: string;
+  session: string;
+  identifier: string;
+  title: string;
+  chamber: string | null;
+  classification: string[];
+  subjects: string[];
+  sponsors: StateBillSponsor[];
+  actions: StateBillAction[];
+  firstActionDate: Date | null;
+  latestActionDate: Date | null;
+  latestActionDescription: string | null;
+  latestPassageDate: Date | null;
+}
+
+/**
+ * One session's bulk CSV export ({ST}_{session}_bills.csv with its
+ * bill_actions and bill_sponsorships files), joined on bill id
+ */
+export function parseBillsCsv(
+  state: string,
+  files: { bills: string; actions?: string | null; sponsorships?: string | null }
+): StateBillRecord[] {
+  const actionsByBill = new Map<string, Array<StateBillAction & { order: number }>>();
+  for (const row of files.actions ? parseCsv(files.actions) : []) {
+    const list = actionsByBill.get(row.bill_id) ?? [];
+    list.push({
+      date: row.date ? row.date.slice(0, 10) : null,
+      description: row.description,
+      classification: parsePgArray(row.classification),
+      chamber: isChamber(row.organization_classification) ? row.organization_classification : null,
+      order: Number(row.order) || 0
+    });
+    actionsByBill.set(row.bill_id, list);
+  }
+
+  const sponsorsByBill = new Map<string, StateBillSponsor[]>();
+  for (const row of files.sponsorships ? parseCsv(files.sponsorships) : []) {
+    const list = sponsorsByBill.get(row.bill_id) ?? [];
+    list.push({
+      name: row.name,
+      personId: row.person_id || null,
+      primary: row.primary === 'True' || row.primary === 'true' || row.primary === 't',
+      classification: row.classification || null
+    });
+    sponsorsByBill.set(row.bill_id, list);
+  }
+
+  return parseCsv(files.bills).filter(row => row.id && row.identifier).map(row => ({
+    openstatesId: row.id,
+    state: state.toUpperCase(),
+    session: row.session_identifier,
+    identifier: row.identifier,
+    title: row.title,
+    chamber: isChamber(row.organization_classification) ? row.organization_classification : null,
+    classification: parsePgArray(row.classification),
+    subjects: parsePgArray(row.subject),
+    sponsors: sponsorsByBill.get(row.id) ?? [],
+    actions: (actionsByBill.get(row.id) ?? [])
+      .sort((a, b) => a.order - b.order)
+      .map(({ order, ...action }) => action),
+    firstActionDate: dateOrNull(row.first_action_date),
+    latestActionDate: dateOrNull(row.latest_action_date),
+    latestActionDescription: row.latest_action_description || null,
+    latestPassageDate: dateOrNull(row.latest_passage_date)
+  }));
+}
+
+/** A v3 API bill fetched with include=sponsorships and include=actions */
+export function parseApiBill(bill: any, state: string): StateBillRecord {
+  return {
+    openstatesId: bill.id,
+    state: state.toUpperCase(),
+    session: String(bill.session),
+    identifier: bill.identifier,
+    title: bill.title,
+    chamber: isChamber(bill.from_organization?.classification) ? bill.from_organization.classification : null,
+    classification: bill.classification ?? [],
+    subjects: bill.subject ?? [],
+    sponsors: (bill.sponsorships ?? []).map((s: any) => ({
+      name: s.name,
+      personId: s.person?.id ?? null,
+      primary: !!s.primary,
+      classification: s.classification ?? null
+    })),
+    actions: [...(bill.actions ?? [])]
+      .sort((a: any, b: any) => (a.order ?? 0) - (b.order ?? 0))
+      .map((a: any) => ({
+        date: a.date ? String(a.date).slice(0, 10) : null,
+        description: a.description,
+        classification: a.classification ?? [],
+        chamber: isChamber(a.organization?.classification) ? a.organization.classification : null
+      })),
+    firstActionDate: dateOrNull(bill.first_action_date),
+    latestActionDate: dateOrNull(bill.latest_action_date),
+    latestActionDescription: bill.latest_action_description ?? null,
+    latestPassageDate: dateOrNull(bill.latest_passage_date)
+  };
+}
+
+// ============================================================================
+// SEATS
+// ============================================================================
+
+/** '007' -> '7', ' 1A ' -> '1a'; named districts compare case-insensitively */
+export function districtKey(district: string | null | undefined): string {
+  const value = (district ?? '').trim().toLowerCase().replace(/^district\s+/, '');
+  return /^\d+$/.test(value) ? String(Number(value)) : value;
+}
+
+/**
+ * The seat a state legislative race is for, from the election's title and
+ * offices. Nebraska's one chamber is 'legislature', whichever word the
+ * race uses for it.
+ */
+export function seatForElection(election: BallotElection): { chamber: LegislativeChamber; district: string } | null {
+  if (election.level.toLowerCase() !== 'state') return null;
+  const scope = electionScope(election);
+  if (scope.kind !== 'district' || !scope.type || scope.type === 'congressional' || scope.type === 'county') return null;
+  const chamber: LegislativeChamber = election.state.toUpperCase() === 'NE' ? 'legislature'
+    : scope.type === 'state_upper' ? 'upper' : 'lower';
+  return { chamber, district: scope.number };
+}
+
+/** Current legislators holding a seat in the district (several in multi-member districts) */
+export function seatHolders<L extends { chamber: string | null; district: string | null; isCurrent?: boolean | null }>(
+  legislators: L[],
+  chamber: LegislativeChamber,
+  district: string
+): L[] {
+  const key = districtKey(district);
+  return legislators.filter(l => l.isCurrent !== false && l.chamber === chamber && districtKey(l.district) === key);
+}
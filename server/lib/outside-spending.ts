@@ -0,0 +1,273 @@
+/**
+ * Outside spending
+ * Normalizes independent expenditures - from the FEC's independent
+ * expenditure bulk file and Schedule E filings including 24- and 48-hour
+ * notices - attributes them to our races and candidates, and summarizes
+ * a race's outside money by candidate (support vs oppose) and by spender.
+ * Pure functions only - ingest and storage live in
+ * outside-spending-service.
+ */
+
+import { cycleForYear, type FecSeat } from './fec-bulk';
+
+export type SupportOppose = 'support' | 'oppose';
+
+export interface ExpenditureRecord {
+  committeeId: string;
+  transactionId: string;
+  cycle: number;
+  spenderName: string;
+  fecCandidateId: string | null;
+  candidateName: string | null;
+  candidateOffice: string | null;   // 'H', 'S', 'P'
+  candidateState: string | null;
+  candidateDistrict: string | null; // '00' for at-large and statewide
+  electionType: string | null;      // 'P' primary, 'G' general, 'R' runoff, 'S' special
+  supportOppose: SupportOppose;
+  amount: number;
+  expenditureDate: string | null;   // YYYY-MM-DD
+  disseminationDate: string | null;
+  purpose: string | null;
+  payee: string | null;
+  reportType: string | null;        // '24', '48' for notices
+  isNotice: boolean;
+  fileNumber: number | null;
+}
+
+const MONTHS: Record<string, string> = {
+  JAN: '01', FEB: '02', MAR: '03', APR: '04', MAY: '05', JUN: '06',
+  JUL: '07', AUG: '08', SEP: '09', OCT: '10', NOV: '11', DEC: '12'
+};
+
+/** '2024-10-03', '2024-10-03T00:00:00', '10/03/2024' or '03-OCT-24' to YYYY-MM-DD */
+export function expenditureDate(value: string | null | undefined): string | null {
+  const text = (value ?? '').trim().toUpperCase();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+  match = text.match(/^(\d{1,2})-([A-Z]{3})-(\d{2,4})$/);
+  if (match && MONTHS[match[2]]) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${MONTHS[match[2]]}-${match[1].padStart(2, '0')}`;
+  }
+  return null;
+}
+
+export function supportOppose(value: string | null | undefined): SupportOppose | null {
+  const text = (value ?? '').trim().toUpperCase();
+  if (text === 'S' || text === 'SUPPORT') return 'support';
+  if (text === 'O' || text === 'OPPOSE') return 'oppose';
+  return null;
+}
+
+function districtCode(value: string | null | undefined): string | null {
+  const text = (value ?? '').trim();
+  if (!text) return null;
+  return /^\d+$/.test(text) ? text.padStart(2, '0') : text;
+}
+
+function amountOf(value: unknown): number {
+  const amount = Number(String(value ?? '').replace(/[$,]/g, ''));
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+function cycleOf(electionYear: unknown, date: string | null, fallback: number): number {
+  const year = Number(electionYear);
+  if (Number.isInteger(year) && year > 1970) return cycleForYear(year);
+  return date ? cycleForYear(Number(date.slice(0, 4))) : fallback;
+}
+
+/**
+ * A row of the independent_expenditure_{cycle}.csv bulk file. Rows
+ * without a support/oppose indicator cannot be attributed and are dropped.
+ */
+export function parseExpenditureCsvRow(row: Record<string, string>, cycle: number): ExpenditureRecord | null {
+  const direction = supportOppose(row.sup_opp);
+  if (!row.spe_id || !direction) return null;
+  const expDate = expenditureDate(row.exp_date);
+  return {
+    committeeId: row.spe_id,
+    transactionId: row.tran_id || `image:${row.image_num}`,
+    cycle: cycleOf(row.fec_election_yr, expDate, cycle),
+    spenderName: row.spe_nam || row.spe_id,
+    fecCandidateId: row.cand_id || null,
+    candidateName: row.cand_name || null,
+    candidateOffice: row.can_office || null,
+    candidateState: row.can_office_state || null,
+    candidateDistrict: districtCode(row.can_office_dis),
+    electionType: (row.ele_type || '').slice(0, 1) || null,
+    supportOppose: direction,
+    amount: amountOf(row.exp_amo),
+    expenditureDate: expDate,
+    disseminationDate: expenditureDate(row.dissem_dt),
+    purpose: row.pur || null,
+    payee: row.pay || null,
+    reportType: null,
+    isNotice: false,
+    fileNumber: Number(row.file_num) || null
+  };
+}
+
+/** A Schedule E item from the OpenFEC API (/schedules/schedule_e/) */
+export function parseScheduleE(item: any, cycle: number): ExpenditureRecord | null {
+  const direction = supportOppose(item.support_oppose_indicator);
+  if (!item.committee_id || !direction) return null;
+  const expDate = expenditureDate(item.expenditure_date);
+  return {
+    committeeId: item.committee_id,
+    transactionId: item.transaction_id || `sub:${item.sub_id}`,
+    cycle: cycleOf(item.election_year ?? item.report_year, expDate, cycle),
+    spenderName: item.committee?.name ?? item.committee_name ?? item.committee_id,
+    fecCandidateId: item.candidate_id ?? null,
+    candidateName: item.candidate_name ?? null,
+    candidateOffice: item.candidate_office ?? null,
+    candidateState: item.candidate_office_state ?? null,
+    candidateDistrict: districtCode(item.candidate_office_district),
+    electionType: item.election_type ? String(item.election_type).slice(0, 1) : null,
+    supportOppose: direction,
+    amount: amountOf(item.expenditure_amount),
+    expenditureDate: expDate,
+    disseminationDate: expenditureDate(item.dissemination_date),
+    purpose: item.expenditure_description ?? null,
+    payee: item.payee_name ?? null,
+    reportType: item.report_type ?? null,
+    isNotice: !!item.is_notice,
+    fileNumber: Number(item.file_number) || null
+  };
+}
+
+// ============================================================================
+// ATTRIBUTION
+// ============================================================================
+
+export interface RaceForAttribution {
+  electionId: number;
+  type: string;           // 'primary', 'general', 'special'
+  date: string;           // YYYY-MM-DD
+  cycle: number;
+  seat: FecSeat | null;
+  candidates: Array<{ candidateId: number; fecCandidateId: string | null }>;
+}
+
+const ELECTION_TYPE_CODES: Record<string, string> = { primary: 'P', general: 'G', special: 'S', runoff: 'R' };
+
+/**
+ * The race and candidate an expenditure is about. A linked FEC candidate
+ * ID is matched first, otherwise the office, state and district. When a
+ * candidate or seat has several races in the cycle, the expenditure goes
+ * to the race of its election type, else the next one on or after the
+ * date it was disseminated.
+ */
+export function attributeExpenditure(
+  record: Pick<ExpenditureRecord, 'fecCandidateId' | 'candidateOffice' | 'candidateState' | 'candidateDistrict' | 'electionType' | 'cycle' | 'expenditureDate' | 'disseminationDate'>,
+  races: RaceForAttribution[]
+): { electionId: number; candidateId: number | null } | null {
+  const inCycle = races.filter(race => race.cycle === record.cycle);
+  const byCandidate = record.fecCandidateId
+    ? inCycle.filter(race => race.candidates.some(c => c.fecCandidateId === record.fecCandidateId))
+    : [];
+  const bySeat = inCycle.filter(race => race.seat && record.candidateOffice === race.seat.office && (
+    race.seat.office === 'P' ||
+    (race.seat.state === record.candidateState && (race.seat.office === 'S' || race.seat.district === (record.candidateDistrict ?? '00')))
+  ));
+  const candidatesRaces = byCandidate.length > 0 ? byCandidate : bySeat;
+  if (candidatesRaces.length === 0) return null;
+
+  const when = record.disseminationDate ?? record.expenditureDate;
+  const typed = record.electionType ? candidatesRaces.filter(race => ELECTION_TYPE_CODES[race.type.toLowerCase()] === record.electionType) : [];
+  const pool = (typed.length > 0 ? typed : candidatesRaces).sort((a, b) => a.date.localeCompare(b.date));
+  const race = (when && pool.find(r => r.date >= when)) || pool[pool.length - 1];
+
+  const candidate = record.fecCandidateId ? race.candidates.find(c => c.fecCandidateId === record.fecCandidateId) : undefined;
+  return { electionId: race.electionId, candidateId: candidate?.candidateId ?? null };
+}
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+export interface AttributedExpenditure {
+  committeeId: string;
+  spenderName: string;
+  candidateId: number | null;
+  fecCandidateId: string | null;
+  candidateName: string | null;
+  supportOppose: SupportOppose;
+  amount: number;
+  isNotice: boolean;
+  expenditureDate: string | null;
+}
+
+export interface OutsideSpendingSummary {
+  total: number;
+  support: number;
+  oppose: number;
+  noticeTotal: number; // reported on 24/48-hour notices not yet in a regular filing
+  byCandidate: Array<{ candidateId: number | null; fecCandidateId: string | null; name: string | null; support: number; oppose: number; total: number }>;
+  bySpender: Array<{ committeeId: string; name: string; support: number; oppose: number; total: number; expenditures: number }>;
+  byWeek: Array<{ week: string; support: number; oppose: number }>;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Monday of the week, for the spending timeline */
+function weekOf(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+export function summarizeOutsideSpending(expenditures: AttributedExpenditure[]): OutsideSpendingSummary {
+  const candidates = new Map<string, OutsideSpendingSummary['byCandidate'][number]>();
+  const spenders = new Map<string, OutsideSpendingSummary['bySpender'][number]>();
+  const weeks = new Map<string, { week: string; support: number; oppose: number }>();
+  let support = 0;
+  let oppose = 0;
+  let noticeTotal = 0;
+
+  for (const e of expenditures) {
+    if (e.supportOppose === 'support') support += e.amount; else oppose += e.amount;
+    if (e.isNotice) noticeTotal += e.amount;
+
+    const candidateKey = e.candidateId !== null ? `id:${e.candidateId}` : `fec:${e.fecCandidateId ?? e.candidateName ?? ''}`;
+    const candidate = candidates.get(candidateKey)
+      ?? { candidateId: e.candidateId, fecCandidateId: e.fecCandidateId, name: e.candidateName, support: 0, oppose: 0, total: 0 };
+    candidate[e.supportOppose] += e.amount;
+    candidate.total += e.amount;
+    candidates.set(candidateKey, candidate);
+
+    const spender = spenders.get(e.committeeId)
+      ?? { committeeId: e.committeeId, name: e.spenderName, support: 0, oppose: 0, total: 0, expenditures: 0 };
+    spender[e.supportOppose] += e.amount;
+    spender.total += e.amount;
+    spender.expenditures++;
+    spenders.set(e.committeeId, spender);
+
+    if (e.expenditureDate) {
+      const week = weekOf(e.expenditureDate);
+      const bucket = weeks.get(week) ?? { week, support: 0, oppose: 0 };
+      bucket[e.supportOppose] += e.amount;
+      weeks.set(week, bucket);
+    }
+  }
+
+  const rounded = <T extends { support: number; oppose: number }>(row: T): T => ({ ...row, support: round2(row.support), oppose: round2(row.oppose) });
+  return {
+    total: round2(support + oppose),
+    support: round2(support),
+    oppose: round2(oppose),
+    noticeTotal: round2(noticeTotal),
+    byCandidate: Array.from(candidates.values()).map(c => ({ ...rounded(c), total: round2(c.total) })).sort((a, b) => b.total - a.total),
+    bySpender: Array.from(spenders.values()).map(s => ({ ...rounded(s), total: round2(s.total) })).sort((a, b) => b.total - a.total),
+    byWeek: Array.from(weeks.values()).map(rounded).sort((a, b) => a.week.localeCompare(b.week))
+  };
+}
+
+/** The highest threshold a race's outside spending moved past, if any */
+export function crossedThreshold(before: number, after: number, thresholds: number[]): number | null {
+  const crossed = thresholds.filter(t => before < t && after >= t);
+  return crossed.length > 0 ? Math.max(...crossed) : null;
+}
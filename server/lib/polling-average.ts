@@ -0,0 +1,315 @@
+/**
+ * Weighted polling average engine
+ * Combines individual poll results into a per-candidate average with
+ * confidence bands. Pure functions only - callers load the poll rows.
+ */
+
+export type PollPopulation = 'lv' | 'rv' | 'a' | 'v' | 'unknown';
+
+export interface PollObservation {
+  pollId: string;
+  candidateId: number;
+  candidateName: string;
+  party: string;
+  pollster: string;
+  endDate: Date;
+  support: number; // percentage 0-100
+  sampleSize?: number | null;
+  marginOfError?: number | null;
+  population?: PollPopulation;
+  pollsterGrade?: string | null;
+  source: 'polls' | 'polling_data';
+}
+
+export interface PollContribution {
+  pollId: string;
+  pollster: string;
+  endDate: string;
+  support: number;
+  weight: number; // normalized share of the average (0-1)
+  factors: {
+    recency: number;
+    sampleSize: number;
+    marginOfError: number;
+    pollsterRating: number;
+    population: number;
+  };
+}
+
+export interface CandidateAverage {
+  candidateId: number;
+  candidateName: string;
+  party: string;
+  average: number;
+  lower: number;
+  upper: number;
+  standardError: number;
+  pollCount: number;
+  effectivePollCount: number;
+  contributions: PollContribution[];
+}
+
+export interface AverageSeriesPoint {
+  date: string;
+  candidateId: number;
+  candidateName: string;
+  party: string;
+  average: number;
+  lower: number;
+  upper: number;
+  pollCount: number;
+}
+
+export interface PollingAverageOptions {
+  halfLifeDays?: number;
+  lookbackDays?: number;
+  referenceSampleSize?: number;
+  referenceMarginOfError?: number;
+  confidenceZ?: number;
+}
+
+const DEFAULT_OPTIONS: Required<PollingAverageOptions> = {
+  halfLifeDays: 14,
+  lookbackDays: 120,
+  referenceSampleSize: 600,
+  referenceMarginOfError: 4,
+  confidenceZ: 1.96,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Letter grades follow the common A+ .. F pollster rating scale
+const GRADE_WEIGHTS: Record<string, number> = {
+  'A+': 1.25, 'A': 1.2, 'A-': 1.15, 'A/B': 1.1,
+  'B+': 1.05, 'B': 1.0, 'B-': 0.95, 'B/C': 0.9,
+  'C+': 0.85, 'C': 0.8, 'C-': 0.75, 'C/D': 0.7,
+  'D+': 0.65, 'D': 0.6, 'D-': 0.55, 'F': 0.3,
+};
+
+const POPULATION_WEIGHTS: Record<PollPopulation, number> = {
+  lv: 1.0,
+  v: 0.95,
+  rv: 0.85,
+  a: 0.7,
+  unknown: 0.8,
+};
+
+const UNRATED_POLLSTER_WEIGHT = 0.85;
+
+function round(value: number, digits: number = 1): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Normalize free-text population labels ("Likely Voters", "RV", "adults")
+ */
+export function normalizePopulation(raw?: string | null): PollPopulation {
+  if (!raw) return 'unknown';
+  const value = raw.trim().toLowerCase();
+  if (value === 'lv' || value.includes('likely')) return 'lv';
+  if (value === 'rv' || value.includes('registered')) return 'rv';
+  if (value === 'a' || value.includes('adult')) return 'a';
+  if (value === 'v' || value === 'voters') return 'v';
+  return 'unknown';
+}
+
+/**
+ * Collapse party labels ('D', 'Democratic', 'Republican Party') to D/R/I
+ */
+export function toPartyCode(party?: string | null): 'D' | 'R' | 'I' {
+  if (!party) return 'I';
+  const partyLower = party.toLowerCase();
+  if (partyLower === 'd' || partyLower.includes('democrat')) return 'D';
+  if (partyLower === 'r' || partyLower.includes('republican')) return 'R';
+  return 'I';
+}
+
+export function pollsterGradeWeight(grade?: string | null): number {
+  if (!grade) return UNRATED_POLLSTER_WEIGHT;
+  return GRADE_WEIGHTS[grade.trim().toUpperCase()] ?? UNRATED_POLLSTER_WEIGHT;
+}
+
+/**
+ * Sampling variance of a single poll, in percentage points squared.
+ * Uses the published margin of error when available (95% interval),
+ * otherwise the binomial variance for the reported sample size.
+ */
+function samplingVariance(poll: PollObservation, opts: Required<PollingAverageOptions>): number {
+  if (poll.marginOfError && poll.marginOfError > 0) {
+    return Math.pow(poll.marginOfError / 1.96, 2);
+  }
+  const n = poll.sampleSize && poll.sampleSize > 0 ? poll.sampleSize : opts.referenceSampleSize;
+  const p = clamp(poll.support, 1, 99);
+  return (p * (100 - p)) / n;
+}
+
+function weightFactors(poll: PollObservation, asOf: Date, opts: Required<PollingAverageOptions>) {
+  const ageDays = Math.max(0, (asOf.getTime() - poll.endDate.getTime()) / DAY_MS);
+  const recency = Math.pow(0.5, ageDays / opts.halfLifeDays);
+
+  // Diminishing returns on very large samples so one mega-poll can't dominate
+  const n = poll.sampleSize && poll.sampleSize > 0 ? poll.sampleSize : opts.referenceSampleSize * 0.5;
+  const sampleSize = clamp(Math.sqrt(n / opts.referenceSampleSize), 0.3, 2);
+
+  const marginOfError = poll.marginOfError && poll.marginOfError > 0
+    ? clamp(opts.referenceMarginOfError / poll.marginOfError, 0.5, 1.5)
+    : 1;
+
+  return {
+    recency,
+    sampleSize,
+    marginOfError,
+    pollsterRating: pollsterGradeWeight(poll.pollsterGrade),
+    population: POPULATION_WEIGHTS[poll.population ?? 'unknown'],
+  };
+}
+
+/**
+ * Weighted average for one candidate as of a given date.
+ * Polls ending after `asOf` or older than the lookback window are ignored.
+ */
+export function computeCandidateAverage(
+  polls: PollObservation[],
+  asOf: Date,
+  options: PollingAverageOptions = {}
+): CandidateAverage | null {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const windowStart = asOf.getTime() - opts.lookbackDays * DAY_MS;
+  const eligible = polls.filter(p =>
+    p.endDate.getTime() <= asOf.getTime() && p.endDate.getTime() >= windowStart
+  );
+
+  if (eligible.length === 0) return null;
+
+  const weighted = eligible.map(poll => {
+    const factors = weightFactors(poll, asOf, opts);
+    const weight = factors.recency * factors.sampleSize * factors.marginOfError *
+      factors.pollsterRating * factors.population;
+    return { poll, factors, weight };
+  });
+
+  const totalWeight = weighted.reduce((sum, w) => sum + w.weight, 0);
+  if (totalWeight <= 0) return null;
+
+  const mean = weighted.reduce((sum, w) => sum + w.weight * w.poll.support, 0) / totalWeight;
+  const sumSquaredWeights = weighted.reduce((sum, w) => sum + w.weight * w.weight, 0);
+  const effectivePollCount = (totalWeight * totalWeight) / sumSquaredWeights;
+
+  // Uncertainty = sampling error of the weighted mean + disagreement between polls
+  const sampling = weighted.reduce(
+    (sum, w) => sum + w.weight * w.weight * samplingVariance(w.poll, opts), 0
+  ) / (totalWeight * totalWeight);
+  const dispersion = weighted.reduce(
+    (sum, w) => sum + w.weight * Math.pow(w.poll.support - mean, 2), 0
+  ) / totalWeight;
+  const standardError = Math.sqrt(sampling + dispersion / effectivePollCount);
+
+  const first = eligible[0];
+  return {
+    candidateId: first.candidateId,
+    candidateName: first.candidateName,
+    party: first.party,
+    average: round(mean),
+    lower: round(clamp(mean - opts.confidenceZ * standardError, 0, 100)),
+    upper: round(clamp(mean + opts.confidenceZ * standardError, 0, 100)),
+    standardError: round(standardError, 2),
+    pollCount: eligible.length,
+    effectivePollCount: round(effectivePollCount, 2),
+    contributions: weighted
+      .map(w => ({
+        pollId: w.poll.pollId,
+        pollster: w.poll.pollster,
+        endDate: w.poll.endDate.toISOString(),
+        support: w.poll.support,
+        weight: round(w.weight / totalWeight, 4),
+        factors: {
+          recency: round(w.factors.recency, 3),
+          sampleSize: round(w.factors.sampleSize, 3),
+          marginOfError: round(w.factors.marginOfError, 3),
+          pollsterRating: round(w.factors.pollsterRating, 3),
+          population: round(w.factors.population, 3),
+        },
+      }))
+      .sort((a, b) => b.weight - a.weight),
+  };
+}
+
+/**
+ * Build an average series for every candidate, evaluated at each distinct
+ * poll end date (plus `asOf`) so the chart only moves when new data lands.
+ */
+export function computeAverageSeries(
+  polls: PollObservation[],
+  asOf: Date,
+  options: PollingAverageOptions = {}
+): AverageSeriesPoint[] {
+  const byCandidate = groupByCandidate(polls);
+  const series: AverageSeriesPoint[] = [];
+
+  for (const candidatePolls of Array.from(byCandidate.values())) {
+    const dates = Array.from(new Set(candidatePolls.map(p => p.endDate.getTime())))
+      .filter(time => time <= asOf.getTime())
+      .sort((a, b) => a - b);
+    if (dates.length > 0 && dates[dates.length - 1] < asOf.getTime()) {
+      dates.push(asOf.getTime());
+    }
+
+    for (const time of dates) {
+      const avg = computeCandidateAverage(candidatePolls, new Date(time), options);
+      if (!avg) continue;
+      series.push({
+        date: new Date(time).toISOString(),
+        candidateId: avg.candidateId,
+        candidateName: avg.candidateName,
+        party: avg.party,
+        average: avg.average,
+        lower: avg.lower,
+        upper: avg.upper,
+        pollCount: avg.pollCount,
+      });
+    }
+  }
+
+  return series.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * Current average for every candidate, highest first
+ */
+export function computeCurrentAverages(
+  polls: PollObservation[],
+  asOf: Date,
+  options: PollingAverageOptions = {}
+): CandidateAverage[] {
+  return Array.from(groupByCandidate(polls).values())
+    .map(candidatePolls => computeCandidateAverage(candidatePolls, asOf, options))
+    .filter((avg): avg is CandidateAverage => avg !== null)
+    .sort((a, b) => b.average - a.average);
+}
+
+/**
+ * Points between the leader's and the runner-up's polling share, or null
+ * with fewer than two candidates polled
+ */
+export function pollingMargin(shares: Array<number | null | undefined>): number | null {
+  const ranked = shares
+    .filter((share): share is number => typeof share === 'number' && Number.isFinite(share))
+    .sort((a, b) => b - a);
+  if (ranked.length < 2) return null;
+  return Math.round((ranked[0] - ranked[1]) * 100) / 100;
+}
+
+function groupByCandidate(polls: PollObservation[]): Map<number, PollObservation[]> {
+  const groups = new Map<number, PollObservation[]>();
+  for (const poll of polls) {
+    const list = groups.get(poll.candidateId) ?? [];
+    list.push(poll);
+    groups.set(poll.candidateId, list);
+  }
+  return groups;
+}
@@ -0,0 +1,142 @@
+/**
+ * Pollster ratings
+ * Letter grades from a pollster's accuracy against certified results, and
+ * house effects against the consensus of every other pollster. Both are
+ * shrunk toward zero when they rest on few polls.
+ * Pure functions only - loading polls and results lives in
+ * pollster-rating-service.
+ */
+
+import { computeCandidateAverage, toPartyCode, type PollObservation } from './polling-average';
+
+export interface PollAccuracyRecord {
+  electionId: number;
+  pollId: number;
+  pollster: string;
+  endDate: Date;
+  pollMargin: number;   // leader minus runner-up, as polled
+  actualMargin: number; // same two candidates, certified
+  demMarginError: number | null; // (poll D-R) - (actual D-R), when both parties ran
+}
+
+export interface PollsterScore {
+  ratedPollCount: number;
+  meanAbsoluteError: number;
+  meanSignedError: number | null;
+  plusMinus: number;
+  grade: string | null;
+}
+
+export interface HouseEffectEstimate {
+  pollsterId: number;
+  pollster: string;
+  party: 'D' | 'R' | 'I';
+  effect: number;
+  rawMeanResidual: number;
+  pollCount: number;
+  windowDays: number;
+}
+
+// Pollsters need this many rated polls before they get a letter grade
+export const MIN_RATED_POLLS = 3;
+// Shrinkage constants: estimates from few polls are pulled toward zero
+export const RATING_SHRINKAGE = 5;
+export const HOUSE_EFFECT_SHRINKAGE = 3;
+// Partisan sponsors historically lean toward their sponsor; dock their score
+export const PARTISAN_SPONSOR_PENALTY = 0.5;
+
+const GRADE_THRESHOLDS: Array<[number, string]> = [
+  [-1.5, 'A+'], [-1.0, 'A'], [-0.5, 'A-'],
+  [0, 'B+'], [0.5, 'B'], [1.0, 'B-'],
+  [1.5, 'C+'], [2.0, 'C'], [2.5, 'C-'],
+  [3.5, 'D'],
+];
+
+/**
+ * Normalize a pollster name for alias matching.
+ * Must stay in sync with POLLSTER_NAME_SQL in pollster-rating-service.
+ */
+export function normalizePollsterName(name: string): string {
+  return name.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export function gradeFromPlusMinus(plusMinus: number): string {
+  for (const [threshold, grade] of GRADE_THRESHOLDS) {
+    if (plusMinus <= threshold) return grade;
+  }
+  return 'F';
+}
+
+export function round(value: number, digits: number = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Score one pollster's rated polls against the field-wide mean error.
+ * Negative plus-minus is better than the field.
+ */
+export function scorePollster(
+  own: PollAccuracyRecord[],
+  fieldMeanError: number,
+  isPartisanSponsor: boolean = false
+): PollsterScore | null {
+  if (own.length === 0) return null;
+
+  const absErrors = own.map(r => Math.abs(r.pollMargin - r.actualMargin));
+  const meanAbsoluteError = absErrors.reduce((sum, e) => sum + e, 0) / own.length;
+  const signed = own.filter(r => r.demMarginError !== null).map(r => r.demMarginError as number);
+  const meanSignedError = signed.length > 0
+    ? signed.reduce((sum, e) => sum + e, 0) / signed.length
+    : null;
+
+  const shrink = own.length / (own.length + RATING_SHRINKAGE);
+  let plusMinus = (meanAbsoluteError - fieldMeanError) * shrink;
+  if (isPartisanSponsor) plusMinus += PARTISAN_SPONSOR_PENALTY;
+
+  return {
+    ratedPollCount: own.length,
+    meanAbsoluteError: round(meanAbsoluteError),
+    meanSignedError: meanSignedError !== null ? round(meanSignedError) : null,
+    plusMinus: round(plusMinus),
+    grade: own.length >= MIN_RATED_POLLS ? gradeFromPlusMinus(plusMinus) : null
+  };
+}
+
+/**
+ * A pollster's house effect per party: the average amount by which its
+ * numbers for that party's candidates exceed the consensus average built
+ * from every *other* pollster at the time the poll closed.
+ */
+export function estimateHouseEffects(
+  pollster: { id: number; name: string; aliases: string[] },
+  observations: PollObservation[],
+  windowDays: number
+): HouseEffectEstimate[] {
+  const isOwn = (o: PollObservation) => pollster.aliases.includes(normalizePollsterName(o.pollster));
+  const residuals: Record<'D' | 'R' | 'I', number[]> = { D: [], R: [], I: [] };
+
+  for (const own of observations.filter(isOwn)) {
+    const others = observations.filter(o => o.candidateId === own.candidateId && !isOwn(o));
+    const consensus = computeCandidateAverage(others, own.endDate, { lookbackDays: 30 });
+    if (!consensus) continue;
+    residuals[toPartyCode(own.party)].push(own.support - consensus.average);
+  }
+
+  return (Object.keys(residuals) as Array<'D' | 'R' | 'I'>)
+    .filter(party => residuals[party].length > 0)
+    .map(party => {
+      const values = residuals[party];
+      const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+      const shrink = values.length / (values.length + HOUSE_EFFECT_SHRINKAGE);
+      return {
+        pollsterId: pollster.id,
+        pollster: pollster.name,
+        party,
+        effect: round(mean * shrink),
+        rawMeanResidual: round(mean),
+        pollCount: values.length,
+        windowDays
+      };
+    });
+}
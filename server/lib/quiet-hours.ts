@@ -0,0 +1,62 @@
+/**
+ * Quiet hours
+ * Whether a moment falls inside a user's quiet window, worked out in the
+ * user's own timezone. Windows are HH:MM to HH:MM and may wrap midnight
+ * ("22:00" to "07:00"); a window that starts and ends at the same time is
+ * treated as unset.
+ * Pure functions only - holding deliveries lives in
+ * notification-queue-service.
+ */
+
+export const CLOCK_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+export interface QuietHours {
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  timezone?: string | null;
+}
+
+/** Minutes after midnight for an HH:MM time, or null when malformed */
+export function parseClock(value: string | null | undefined): number | null {
+  if (!value || !CLOCK_PATTERN.test(value)) return null;
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes after local midnight in the timezone. An unknown timezone falls
+ * back to the preferences default rather than failing the delivery.
+ */
+export function localMinutes(now: Date, timezone: string | null | undefined): number {
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', { timeZone: timezone || DEFAULT_TIMEZONE, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+  } catch {
+    format = new Intl.DateTimeFormat('en-US', { timeZone: DEFAULT_TIMEZONE, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+  }
+  const parts = format.formatToParts(now);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute');
+}
+
+/**
+ * When the quiet window around `now` ends, or null when `now` is outside
+ * it (or no window is set)
+ */
+export function quietUntil(now: Date, hours: QuietHours): Date | null {
+  const start = parseClock(hours.quietHoursStart);
+  const end = parseClock(hours.quietHoursEnd);
+  if (start === null || end === null || start === end) return null;
+
+  const minutes = localMinutes(now, hours.timezone);
+  const inside = start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+  if (!inside) return null;
+
+  const remaining = (end - minutes + 24 * 60) % (24 * 60);
+  const until = new Date(now.getTime() + remaining * 60 * 1000);
+  until.setUTCSeconds(0, 0);
+  return until;
+}
@@ -0,0 +1,318 @@
+/**
+ * Race projection engine
+ * Estimates the vote still outstanding in each county and vote type,
+ * applies the margins seen so far in that slice, and decides whether the
+ * leader can be called. Pure functions only - callers load the counts.
+ */
+
+import type { VoteType } from './results-feeds';
+
+export interface ProjectionCandidate {
+  candidateId: number;
+  name: string;
+  votes: number;
+}
+
+export interface ProjectionUnit {
+  key: string;
+  name: string;
+  reportingPrecincts: number;
+  totalPrecincts: number;
+  candidates: Array<{ candidateId: number; votes: number; voteTypes: Partial<Record<VoteType, number>> }>;
+  /** Known expected turnout for the unit, overrides the reporting-rate estimate */
+  expectedVotes?: number | null;
+  /** Ballots known to be uncounted by type (e.g. mail still arriving) */
+  outstandingByType?: Partial<Record<VoteType, number>> | null;
+}
+
+export interface ProjectionInput {
+  candidates: ProjectionCandidate[];
+  units: ProjectionUnit[];
+  percentReporting: number;
+  /** Precincts in the whole race, when known; units may cover only some of them */
+  expectedPrecincts?: number | null;
+}
+
+export interface ProjectionOptions {
+  callConfidence: number;      // leader win probability needed to call
+  retractConfidence: number;   // engine calls are retracted below this
+  minPercentReporting: number; // no projection-based calls before this
+  unitMarginSd: number;        // uncertainty of a slice's margin, as a share of its votes
+  systematicSd: number;        // correlated error across all outstanding vote
+  insurmountableBuffer: number; // lead must exceed outstanding vote by this factor
+}
+
+export const DEFAULT_PROJECTION_OPTIONS: ProjectionOptions = {
+  callConfidence: 0.995,
+  retractConfidence: 0.95,
+  minPercentReporting: 20,
+  unitMarginSd: 0.12,
+  systematicSd: 0.04,
+  insurmountableBuffer: 1.25
+};
+
+export type ProjectionRule =
+  | 'all_votes_counted'
+  | 'insurmountable_lead'
+  | 'projected_margin'
+  | 'no_results'
+  | 'too_early'
+  | 'too_close'
+  | 'tied'
+  | 'rcv_pending';
+
+export interface OutstandingSlice {
+  unit: string;
+  voteType: VoteType | 'all';
+  outstandingVotes: number;
+  leaderMarginShare: number; // leader minus runner-up, as a share of the slice
+  source: 'unit_vote_type' | 'unit' | 'statewide_vote_type' | 'statewide';
+}
+
+export interface ProjectionEvaluation {
+  shouldCall: boolean;
+  rule: ProjectionRule;
+  reason: string;
+  leader: ProjectionCandidate | null;
+  runnerUp: ProjectionCandidate | null;
+  countedVotes: number;
+  currentMargin: number;
+  outstandingVotes: number;
+  projectedMargin: number;
+  marginSd: number;
+  confidence: number; // probability the current leader finishes ahead
+  percentReporting: number;
+  slices: OutstandingSlice[];
+}
+
+const VOTE_TYPES: VoteType[] = ['election-day', 'early', 'mail', 'provisional', 'other'];
+
+/**
+ * Standard normal CDF (Abramowitz-Stegun 7.1.26)
+ */
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function typeVotes(unit: ProjectionUnit, candidateId: number | null, type: VoteType): number {
+  return unit.candidates
+    .filter(c => candidateId === null || c.candidateId === candidateId)
+    .reduce((sum, c) => sum + (c.voteTypes[type] ?? 0), 0);
+}
+
+function unitVotes(unit: ProjectionUnit, candidateId: number | null): number {
+  return unit.candidates
+    .filter(c => candidateId === null || c.candidateId === candidateId)
+    .reduce((sum, c) => sum + c.votes, 0);
+}
+
+function share(margin: number, total: number): number | null {
+  return total > 0 ? margin / total : null;
+}
+
+/**
+ * Evaluate whether the current leader can be called
+ */
+export function evaluateProjection(input: ProjectionInput, overrides: Partial<ProjectionOptions> = {}): ProjectionEvaluation {
+  const options = { ...DEFAULT_PROJECTION_OPTIONS, ...overrides };
+  const ranked = [...input.candidates].sort((a, b) => b.votes - a.votes);
+  const leader = ranked[0] ?? null;
+  const runnerUp = ranked[1] ?? null;
+  const countedVotes = ranked.reduce((sum, c) => sum + c.votes, 0);
+
+  const empty: ProjectionEvaluation = {
+    shouldCall: false,
+    rule: 'no_results',
+    reason: 'No votes have been reported',
+    leader,
+    runnerUp,
+    countedVotes,
+    currentMargin: 0,
+    outstandingVotes: 0,
+    projectedMargin: 0,
+    marginSd: 0,
+    confidence: 0,
+    percentReporting: input.percentReporting,
+    slices: []
+  };
+  if (!leader || !runnerUp || countedVotes === 0) return empty;
+
+  const currentMargin = leader.votes - runnerUp.votes;
+
+  // Without a county breakdown, treat the whole race as one unit
+  const units: ProjectionUnit[] = input.units.length > 0 ? [...input.units] : [{
+    key: 'statewide',
+    name: 'Statewide',
+    reportingPrecincts: input.percentReporting,
+    totalPrecincts: 100,
+    candidates: ranked.map(c => ({ candidateId: c.candidateId, votes: c.votes, voteTypes: {} }))
+  }];
+
+  // Stored units may be only some of the race's counties. Precincts no unit
+  // accounts for are projected as one unit with nothing in, and until every
+  // expected precinct is accounted for the count can never be complete.
+  const storedPrecincts = input.units.reduce((sum, u) => sum + u.totalPrecincts, 0);
+  const expectedPrecincts = input.expectedPrecincts ?? 0;
+  const coversRace = input.units.length === 0 || (expectedPrecincts > 0 && storedPrecincts >= expectedPrecincts);
+  if (input.units.length > 0 && expectedPrecincts > storedPrecincts) {
+    units.push({
+      key: 'unreported',
+      name: 'Units not yet reported',
+      reportingPrecincts: 0,
+      totalPrecincts: expectedPrecincts - storedPrecincts,
+      candidates: []
+    });
+  }
+
+  const statewideTypeShare = new Map<VoteType, number | null>();
+  for (const type of VOTE_TYPES) {
+    const total = units.reduce((sum, u) => sum + typeVotes(u, null, type), 0);
+    const margin = units.reduce((sum, u) => sum + typeVotes(u, leader.candidateId, type) - typeVotes(u, runnerUp.candidateId, type), 0);
+    statewideTypeShare.set(type, share(margin, total));
+  }
+  const statewideShare = share(currentMargin, countedVotes) ?? 0;
+
+  // Units with nothing in yet are sized from turnout per reported precinct elsewhere
+  const reporting = units.filter(u => u.reportingPrecincts > 0);
+  const reportedPrecincts = reporting.reduce((sum, u) => sum + u.reportingPrecincts, 0);
+  const votesPerPrecinct = reportedPrecincts > 0
+    ? reporting.reduce((sum, u) => sum + unitVotes(u, null), 0) / reportedPrecincts
+    : 0;
+
+  const slices: OutstandingSlice[] = [];
+  for (const unit of units) {
+    const counted = unitVotes(unit, null);
+    const rate = unit.totalPrecincts > 0 ? Math.min(1, unit.reportingPrecincts / unit.totalPrecincts) : 1;
+    const expected = unit.expectedVotes
+      ?? (rate > 0 ? counted / rate : votesPerPrecinct * unit.totalPrecincts);
+    let outstanding = Math.max(0, expected - counted);
+
+    const explicit = unit.outstandingByType ?? {};
+    const explicitTotal = VOTE_TYPES.reduce((sum, t) => sum + (explicit[t] ?? 0), 0);
+    outstanding = Math.max(outstanding, explicitTotal);
+    if (outstanding <= 0) continue;
+
+    const unitMargin = unitVotes(unit, leader.candidateId) - unitVotes(unit, runnerUp.candidateId);
+    const unitShare = share(unitMargin, counted);
+
+    // Split the outstanding vote by type: explicit counts first, the rest in
+    // the same mix as the votes already counted here
+    const countedByType = VOTE_TYPES.map(t => [t, typeVotes(unit, null, t)] as const);
+    const countedTypedTotal = countedByType.reduce((sum, [, v]) => sum + v, 0);
+    const remainder = outstanding - explicitTotal;
+
+    const portions: Array<[VoteType | 'all', number]> = VOTE_TYPES
+      .filter(t => (explicit[t] ?? 0) > 0)
+      .map(t => [t, explicit[t]!]);
+    if (remainder > 0) {
+      if (countedTypedTotal > 0) {
+        for (const [type, votes] of countedByType) {
+          if (votes > 0) portions.push([type, remainder * (votes / countedTypedTotal)]);
+        }
+      } else {
+        portions.push(['all', remainder]);
+      }
+    }
+
+    for (const [type, votes] of portions) {
+      let marginShare: number | null = null;
+      let source: OutstandingSlice['source'] = 'statewide';
+      if (type !== 'all') {
+        const typeTotal = typeVotes(unit, null, type);
+        marginShare = share(typeVotes(unit, leader.candidateId, type) - typeVotes(unit, runnerUp.candidateId, type), typeTotal);
+        source = 'unit_vote_type';
+        if (marginShare === null) {
+          marginShare = statewideTypeShare.get(type) ?? null;
+          source = 'statewide_vote_type';
+        }
+      }
+      if (marginShare === null && unitShare !== null) {
+        marginShare = unitShare;
+        source = 'unit';
+      }
+      if (marginShare === null) {
+        marginShare = statewideShare;
+        source = 'statewide';
+      }
+      slices.push({ unit: unit.name, voteType: type, outstandingVotes: Math.round(votes), leaderMarginShare: marginShare, source });
+    }
+  }
+
+  const outstandingVotes = slices.reduce((sum, s) => sum + s.outstandingVotes, 0);
+  const projectedMargin = currentMargin + slices.reduce((sum, s) => sum + s.outstandingVotes * s.leaderMarginShare, 0);
+  const sliceVariance = slices.reduce((sum, s) => sum + (s.outstandingVotes * options.unitMarginSd) ** 2, 0);
+  const marginSd = Math.sqrt(sliceVariance + (outstandingVotes * options.systematicSd) ** 2);
+  const confidence = marginSd > 0
+    ? normalCdf(projectedMargin / marginSd)
+    : projectedMargin > 0 ? 1 : projectedMargin === 0 ? 0.5 : 0;
+
+  const percentReporting = input.units.length > 0
+    ? (() => {
+        const total = units.reduce((sum, u) => sum + u.totalPrecincts, 0);
+        return total > 0 ? Math.round((units.reduce((sum, u) => sum + u.reportingPrecincts, 0) / total) * 10000) / 100 : input.percentReporting;
+      })()
+    : input.percentReporting;
+
+  const base = {
+    leader,
+    runnerUp,
+    countedVotes,
+    currentMargin,
+    outstandingVotes,
+    projectedMargin: Math.round(projectedMargin),
+    marginSd: Math.round(marginSd),
+    confidence: Math.round(confidence * 10000) / 10000,
+    percentReporting,
+    slices
+  };
+
+  if (currentMargin === 0) {
+    return { ...base, shouldCall: false, rule: 'tied', reason: 'The top two candidates are tied' };
+  }
+  if (coversRace && outstandingVotes === 0 && percentReporting >= 100) {
+    return { ...base, shouldCall: true, rule: 'all_votes_counted', reason: 'All precincts reported with no outstanding ballots', confidence: 1 };
+  }
+  if (coversRace && percentReporting >= options.minPercentReporting && currentMargin > outstandingVotes * options.insurmountableBuffer) {
+    return {
+      ...base,
+      shouldCall: true,
+      rule: 'insurmountable_lead',
+      reason: `Lead of ${currentMargin.toLocaleString()} exceeds the ${outstandingVotes.toLocaleString()} votes estimated outstanding`,
+      confidence: Math.max(base.confidence, 0.9999)
+    };
+  }
+  if (percentReporting < options.minPercentReporting) {
+    return { ...base, shouldCall: false, rule: 'too_early', reason: `Only ${percentReporting}% of precincts reporting` };
+  }
+  if (confidence >= options.callConfidence) {
+    return {
+      ...base,
+      shouldCall: true,
+      rule: 'projected_margin',
+      reason: `Projected margin of ${base.projectedMargin.toLocaleString()} (±${Math.round(1.96 * marginSd).toLocaleString()}) with ${outstandingVotes.toLocaleString()} votes outstanding`
+    };
+  }
+  return { ...base, shouldCall: false, rule: 'too_close', reason: `Leader has a ${(base.confidence * 100).toFixed(1)}% chance of holding on` };
+}
+
+/**
+ * Decide whether an existing call for `calledCandidateId` no longer holds
+ */
+export function retractionReason(
+  calledCandidateId: number,
+  evaluation: ProjectionEvaluation,
+  overrides: Partial<ProjectionOptions> = {}
+): string | null {
+  const options = { ...DEFAULT_PROJECTION_OPTIONS, ...overrides };
+  if (!evaluation.leader || evaluation.rule === 'no_results') return null;
+  if (evaluation.leader.candidateId !== calledCandidateId) {
+    return `${evaluation.leader.name} has overtaken the called candidate`;
+  }
+  if (evaluation.confidence < options.retractConfidence) {
+    return `Confidence fell to ${(evaluation.confidence * 100).toFixed(1)}%`;
+  }
+  return null;
+}
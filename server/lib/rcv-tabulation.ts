@@ -0,0 +1,387 @@
+/**
+ * Ranked-choice voting tabulator
+ * Counts ranked ballots round by round - single-winner instant runoff, or
+ * multi-winner single transferable vote with fractional surplus transfer -
+ * recording each round's tallies, eliminations, exhausted ballots and how
+ * the votes of eliminated or elected candidates moved on.
+ * Pure functions only - CVR parsing lives in cvr-formats.
+ */
+
+/** One ranking: a candidate, null for a skipped rank, or several for an overvote */
+export type RankedChoice = string | string[] | null;
+
+export interface RankedBallot {
+  rankings: RankedChoice[];
+  count?: number; // identical ballots may be pre-aggregated
+}
+
+export interface RcvOptions {
+  seats: number;                        // 1 = instant runoff, more = STV
+  overvoteRule: 'exhaust' | 'skip';     // what an overvoted rank does to the ballot
+  maxConsecutiveSkips: number | null;   // exhaust after this many skipped ranks in a row
+  maxRankings: number | null;           // rankings past this are ignored
+  batchElimination: boolean;            // drop every candidate who cannot catch the next-lowest at once
+  continueUntilTwoRemain: boolean;      // keep eliminating after a majority so the final pair is shown
+}
+
+export const DEFAULT_RCV_OPTIONS: RcvOptions = {
+  seats: 1,
+  overvoteRule: 'exhaust',
+  maxConsecutiveSkips: null,
+  maxRankings: null,
+  batchElimination: false,
+  continueUntilTwoRemain: false
+};
+
+/**
+ * Starting points for jurisdictions we cover. Confirm against the
+ * jurisdiction's current rules before certifying anything.
+ */
+export const RCV_RULE_PRESETS: Record<string, Partial<RcvOptions>> = {
+  maine: { overvoteRule: 'exhaust', maxConsecutiveSkips: 2, batchElimination: true },
+  alaska: { overvoteRule: 'exhaust', maxConsecutiveSkips: 2, batchElimination: true, continueUntilTwoRemain: true },
+  nyc: { overvoteRule: 'exhaust', maxConsecutiveSkips: null, batchElimination: true, continueUntilTwoRemain: true, maxRankings: 5 },
+  california: { overvoteRule: 'exhaust', maxConsecutiveSkips: null, batchElimination: true }
+};
+
+export type CandidateStatus = 'continuing' | 'elected' | 'eliminated';
+
+export interface RoundTally {
+  candidate: string;
+  votes: number;
+  percentage: number; // of continuing votes this round
+  status: CandidateStatus; // status once this round is resolved
+}
+
+export interface RoundTransfer {
+  from: string;
+  to: string | null; // null = ballot exhausted
+  votes: number;
+}
+
+export interface TieBreak {
+  candidates: string[];
+  method: 'previous_round' | 'alphabetical';
+  loser: string;
+}
+
+export interface RcvRound {
+  round: number;
+  tallies: RoundTally[];
+  continuingVotes: number;
+  threshold: number;
+  exhausted: number;          // inactive ballots so far
+  exhaustedThisRound: number;
+  elected: string[];
+  eliminated: string[];
+  /** Where the ballots of this round's eliminated and elected candidates went next round */
+  transfers: RoundTransfer[];
+  tieBreak: TieBreak | null;
+}
+
+export type ExhaustReason = 'overvote' | 'skipped_rankings' | 'no_more_rankings';
+
+export interface RcvTabulation {
+  method: 'irv' | 'stv';
+  seats: number;
+  winners: string[];
+  candidates: string[];
+  rounds: RcvRound[];
+  totalBallots: number;
+  undervotes: number; // ballots with no valid first choice
+  exhaustedBallots: number;
+  exhaustedBy: Record<ExhaustReason, number>;
+  options: RcvOptions;
+}
+
+interface BallotGroup {
+  rankings: RankedChoice[];
+  weight: number;
+  current: string | null;
+  exhausted: boolean;
+}
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+/**
+ * Resolve options from a named preset plus explicit overrides
+ */
+export function resolveRcvOptions(preset?: string | null, overrides: Partial<RcvOptions> = {}): RcvOptions {
+  const base = preset ? RCV_RULE_PRESETS[preset.toLowerCase()] ?? {} : {};
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, v]) => v !== undefined));
+  return { ...DEFAULT_RCV_OPTIONS, ...base, ...defined };
+}
+
+/**
+ * Merge identical ballots so each distinct ranking is walked once per round
+ */
+function groupBallots(ballots: RankedBallot[], maxRankings: number | null): { groups: BallotGroup[]; total: number } {
+  const groups = new Map<string, BallotGroup>();
+  let total = 0;
+  for (const ballot of ballots) {
+    const count = ballot.count ?? 1;
+    if (count <= 0) continue;
+    total += count;
+    const rankings = (maxRankings ? ballot.rankings.slice(0, maxRankings) : ballot.rankings).map(choice => {
+      if (Array.isArray(choice)) {
+        const unique = Array.from(new Set(choice));
+        return unique.length === 0 ? null : unique.length === 1 ? unique[0] : unique;
+      }
+      return choice === '' ? null : choice;
+    });
+    const key = JSON.stringify(rankings);
+    const group = groups.get(key);
+    if (group) {
+      group.weight += count;
+    } else {
+      groups.set(key, { rankings, weight: count, current: null, exhausted: false });
+    }
+  }
+  return { groups: Array.from(groups.values()), total };
+}
+
+/**
+ * Highest-ranked continuing candidate on a ballot, or why it is exhausted
+ */
+export function nextChoice(
+  rankings: RankedChoice[],
+  continuing: Set<string>,
+  options: Pick<RcvOptions, 'overvoteRule' | 'maxConsecutiveSkips'>
+): { candidate: string } | { exhausted: ExhaustReason } {
+  let skips = 0;
+  for (const choice of rankings) {
+    if (choice === null) {
+      skips++;
+      if (options.maxConsecutiveSkips !== null && skips >= options.maxConsecutiveSkips) {
+        return { exhausted: 'skipped_rankings' };
+      }
+      continue;
+    }
+    skips = 0;
+    if (Array.isArray(choice)) {
+      if (options.overvoteRule === 'exhaust') return { exhausted: 'overvote' };
+      continue;
+    }
+    if (continuing.has(choice)) return { candidate: choice };
+  }
+  return { exhausted: 'no_more_rankings' };
+}
+
+function collectCandidates(groups: BallotGroup[], declared: string[]): string[] {
+  const names = new Set(declared);
+  for (const group of groups) {
+    for (const choice of group.rankings) {
+      if (Array.isArray(choice)) choice.forEach(c => names.add(c));
+      else if (choice !== null) names.add(choice);
+    }
+  }
+  return Array.from(names);
+}
+
+/**
+ * Break a tie for last place by the most recent prior round in which the
+ * tied candidates differed; failing that the name last in alphabetical
+ * order loses, so reruns are reproducible
+ */
+function breakTie(tied: string[], rounds: RcvRound[]): TieBreak {
+  let pool = [...tied];
+  for (let i = rounds.length - 2; i >= 0 && pool.length > 1; i--) {
+    const votes = (c: string) => rounds[i].tallies.find(t => t.candidate === c)?.votes ?? 0;
+    const lowest = Math.min(...pool.map(votes));
+    const next = pool.filter(c => votes(c) === lowest);
+    if (next.length < pool.length) pool = next;
+  }
+  if (pool.length === 1) return { candidates: tied, method: 'previous_round', loser: pool[0] };
+  return { candidates: tied, method: 'alphabetical', loser: [...pool].sort((a, b) => b.localeCompare(a))[0] };
+}
+
+/**
+ * Candidates to eliminate this round
+ */
+function selectEliminations(
+  standings: Array<[string, number]>,
+  mustKeep: number,
+  batch: boolean,
+  rounds: RcvRound[]
+): { eliminated: string[]; tieBreak: TieBreak | null } {
+  const ascending = [...standings].sort((a, b) => a[1] - b[1]);
+
+  if (batch) {
+    // Largest group of trailing candidates whose combined votes are below the next candidate
+    let cumulative = 0;
+    let cut = 0;
+    for (let i = 0; i < ascending.length - 1; i++) {
+      cumulative += ascending[i][1];
+      if (cumulative < ascending[i + 1][1] && ascending.length - (i + 1) >= mustKeep) cut = i + 1;
+    }
+    if (cut > 1) return { eliminated: ascending.slice(0, cut).map(([c]) => c), tieBreak: null };
+  }
+
+  const lowest = ascending[0][1];
+  const tied = ascending.filter(([, v]) => v === lowest).map(([c]) => c);
+  if (tied.length === 1) return { eliminated: tied, tieBreak: null };
+  const tieBreak = breakTie(tied, rounds);
+  return { eliminated: [tieBreak.loser], tieBreak };
+}
+
+/**
+ * Tabulate ranked ballots round by round
+ */
+export function tabulateRcv(ballots: RankedBallot[], overrides: Partial<RcvOptions> = {}, declaredCandidates: string[] = []): RcvTabulation {
+  const options = { ...DEFAULT_RCV_OPTIONS, ...overrides };
+  const seats = Math.max(1, Math.floor(options.seats));
+  const { groups, total } = groupBallots(ballots, options.maxRankings);
+  const candidates = collectCandidates(groups, declaredCandidates);
+
+  const continuing = new Set(candidates);
+  const winners: string[] = [];
+  const rounds: RcvRound[] = [];
+  const exhaustedBy: Record<ExhaustReason, number> = { overvote: 0, skipped_rankings: 0, no_more_rankings: 0 };
+  let exhausted = 0;
+  let undervotes = 0;
+  let quota: number | null = null;
+
+  for (let roundNumber = 1; roundNumber <= candidates.length + 1 && continuing.size > 0; roundNumber++) {
+    const tallies = new Map<string, number>(Array.from(continuing).map(c => [c, 0]));
+    const moved = new Map<string, number>(); // 'from\u0000to' -> votes
+    let exhaustedThisRound = 0;
+
+    for (const group of groups) {
+      if (group.exhausted) continue;
+      const previous = group.current;
+      if (previous !== null && continuing.has(previous)) {
+        tallies.set(previous, tallies.get(previous)! + group.weight);
+        continue;
+      }
+
+      const choice = nextChoice(group.rankings, continuing, options);
+      if ('candidate' in choice) {
+        group.current = choice.candidate;
+        tallies.set(choice.candidate, tallies.get(choice.candidate)! + group.weight);
+      } else {
+        group.exhausted = true;
+        group.current = null;
+        if (roundNumber === 1 && group.rankings.every(c => c === null)) {
+          undervotes += group.weight;
+        } else {
+          exhausted += group.weight;
+          exhaustedThisRound += group.weight;
+          exhaustedBy[choice.exhausted] += group.weight;
+        }
+      }
+      if (previous !== null) {
+        const key = `${previous}\u0000${group.current ?? ''}`;
+        moved.set(key, (moved.get(key) ?? 0) + group.weight);
+      }
+    }
+
+    // Transfers into this round belong to the round that released them
+    if (rounds.length > 0) {
+      rounds[rounds.length - 1].transfers = Array.from(moved.entries()).map(([key, votes]) => {
+        const [from, to] = key.split('\u0000');
+        return { from, to: to || null, votes: round4(votes) };
+      });
+    }
+
+    const continuingVotes = Array.from(tallies.values()).reduce((sum, v) => sum + v, 0);
+    if (quota === null && seats > 1) quota = Math.floor(continuingVotes / (seats + 1)) + 1;
+    const threshold = seats > 1 ? quota! : Math.floor(continuingVotes / 2) + 1;
+
+    const standings = Array.from(tallies.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    const round: RcvRound = {
+      round: roundNumber,
+      tallies: standings.map(([candidate, votes]) => ({
+        candidate,
+        votes: round4(votes),
+        percentage: continuingVotes > 0 ? Math.round((votes / continuingVotes) * 10000) / 100 : 0,
+        status: 'continuing' as CandidateStatus
+      })),
+      continuingVotes: round4(continuingVotes),
+      threshold,
+      exhausted: round4(exhausted),
+      exhaustedThisRound: round4(exhaustedThisRound),
+      elected: [],
+      eliminated: [],
+      transfers: [],
+      tieBreak: null
+    };
+    rounds.push(round);
+
+    const remainingSeats = seats - winners.length;
+    const mark = (candidate: string, status: CandidateStatus) => {
+      const tally = round.tallies.find(t => t.candidate === candidate);
+      if (tally) tally.status = status;
+    };
+    const elect = (candidate: string) => {
+      winners.push(candidate);
+      round.elected.push(candidate);
+      mark(candidate, 'elected');
+    };
+
+    if (continuingVotes === 0) break;
+
+    if (seats === 1) {
+      const [leader, leaderVotes] = standings[0];
+      const decided = winners.length > 0;
+      if (!decided && (leaderVotes >= threshold || continuing.size <= 2)) {
+        if (continuing.size === 2 && standings[1][1] === leaderVotes) {
+          // Dead heat between the final two: the tie-break loser is eliminated
+          const tieBreak = breakTie(standings.map(([c]) => c), rounds);
+          round.tieBreak = tieBreak;
+          elect(standings.find(([c]) => c !== tieBreak.loser)![0]);
+        } else {
+          elect(leader);
+        }
+      }
+      const keepGoing = options.continueUntilTwoRemain && continuing.size > 2;
+      if (winners.length > 0 && !keepGoing) break;
+    } else {
+      const reached = standings.filter(([, v]) => v >= threshold).slice(0, remainingSeats);
+      for (const [candidate, votes] of reached) {
+        elect(candidate);
+        continuing.delete(candidate);
+        // Pass on the surplus: every ballot counting for the winner keeps that share of its weight
+        const keep = votes > 0 ? (votes - threshold) / votes : 0;
+        for (const group of groups) {
+          if (!group.exhausted && group.current === candidate) group.weight *= keep;
+        }
+      }
+      if (winners.length >= seats) break;
+      if (continuing.size <= seats - winners.length) {
+        Array.from(continuing)
+          .sort((a, b) => (tallies.get(b) ?? 0) - (tallies.get(a) ?? 0))
+          .forEach(elect);
+        break;
+      }
+      if (reached.length > 0) continue;
+    }
+
+    const contenders = standings.filter(([c]) => continuing.has(c) && !winners.includes(c));
+    if (contenders.length <= 1) break;
+    const mustKeep = seats === 1 ? 2 : seats - winners.length + 1;
+    const { eliminated, tieBreak } = selectEliminations(contenders, Math.min(mustKeep, contenders.length - 1), options.batchElimination, rounds);
+    round.tieBreak = round.tieBreak ?? tieBreak;
+    for (const candidate of eliminated) {
+      continuing.delete(candidate);
+      round.eliminated.push(candidate);
+      mark(candidate, 'eliminated');
+    }
+  }
+
+  return {
+    method: seats > 1 ? 'stv' : 'irv',
+    seats,
+    winners,
+    candidates,
+    rounds,
+    totalBallots: total,
+    undervotes,
+    exhaustedBallots: round4(exhausted),
+    exhaustedBy: {
+      overvote: round4(exhaustedBy.overvote),
+      skipped_rankings: round4(exhaustedBy.skipped_rankings),
+      no_more_rankings: round4(exhaustedBy.no_more_rankings)
+    },
+    options: { ...options, seats }
+  };
+}
@@ -0,0 +1,744 @@
+/**
+ * Election results feed parsers
+ * Normalizes Clarity/Scytl ENR detail XML, NIST SP 1500-100 Common Data
+ * Format (JSON and XML) and mapped Secretary of State JSON feeds into one
+ * contest shape, and matches contests to our elections and candidates.
+ * Pure functions only - adapters handle fetching.
+ */
+
+import * as cheerio from 'cheerio';
+
+export type FeedFormat = 'clarity-xml' | 'nist-cdf-json' | 'nist-cdf-xml' | 'sos-json';
+
+export type VoteType = 'election-day' | 'early' | 'mail' | 'provisional' | 'other';
+
+export type UnitLevel = 'state' | 'county' | 'precinct' | 'district' | 'other';
+
+export interface FeedUnitCount {
+  unit: string;
+  level: UnitLevel;
+  votes: number;
+  voteTypes: Partial<Record<VoteType, number>>;
+}
+
+export interface FeedCandidateTotal {
+  name: string;
+  party: string | null;
+  votes: number;
+  voteTypes: Partial<Record<VoteType, number>>;
+  units: FeedUnitCount[];
+}
+
+export interface FeedReportingUnit {
+  name: string;
+  level: UnitLevel;
+  reportingPrecincts: number | null;
+  totalPrecincts: number | null;
+}
+
+export interface FeedContest {
+  contestName: string;
+  candidates: FeedCandidateTotal[];
+  totalVotes: number;
+  reportingPrecincts: number | null;
+  totalPrecincts: number | null;
+  reportingUnits: FeedReportingUnit[];
+}
+
+export interface ResultsFeed {
+  format: FeedFormat;
+  electionName: string | null;
+  jurisdiction: string | null;
+  generatedAt: Date | null;
+  contests: FeedContest[];
+}
+
+/**
+ * Field paths (dot separated) describing a Secretary of State JSON feed.
+ * Each state publishes its own layout, so sources carry their own mapping.
+ */
+export interface SosFieldMapping {
+  contests: string;
+  contestName: string;
+  candidates: string;
+  candidateName: string;
+  party?: string;
+  votes: string;
+  reportingPrecincts?: string;
+  totalPrecincts?: string;
+  voteTypes?: Partial<Record<VoteType, string>>;
+}
+
+export const DEFAULT_SOS_MAPPING: SosFieldMapping = {
+  contests: 'contests',
+  contestName: 'name',
+  candidates: 'candidates',
+  candidateName: 'name',
+  party: 'party',
+  votes: 'votes',
+  reportingPrecincts: 'precinctsReporting',
+  totalPrecincts: 'precinctsTotal',
+  voteTypes: {
+    'election-day': 'electionDayVotes',
+    early: 'earlyVotes',
+    mail: 'mailVotes',
+    provisional: 'provisionalVotes'
+  }
+};
+
+export interface ElectionForMatching {
+  id: number;
+  title: string;
+  state: string;
+  offices?: string[] | null;
+}
+
+export interface CandidateForMatching {
+  id: number;
+  name: string;
+  party?: string | null;
+}
+
+export interface CandidateResult {
+  candidateId: number;
+  votesReceived: number;
+  votePercentage: number;
+  isWinner: boolean;
+  isProjectedWinner: boolean;
+}
+
+export interface ElectionResult {
+  electionId: number;
+  totalVotes: number;
+  reportingPrecincts: number;
+  totalPrecincts: number;
+  percentReporting: number;
+  isComplete: boolean;
+  resultsSource: string;
+  candidateResults: CandidateResult[];
+}
+
+export interface MatchedContest {
+  result: ElectionResult;
+  contest: FeedContest;
+  candidateIds: Map<string, number>; // feed name -> our candidate id
+  unmatchedCandidates: string[];
+}
+
+const NON_CANDIDATE_CHOICES = /^(over ?votes?|under ?votes?|blank|total|times cast|registered voters|write[- ]?ins?)$/i;
+
+function toCount(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value ?? '').replace(/,/g, ''), 10);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function toOptionalCount(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = toCount(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Map the vote-type labels used by ENR vendors and the CDF CountItemType
+ * enumeration onto our four buckets
+ */
+export function normalizeVoteType(label: string): VoteType | 'total' {
+  const value = label.toLowerCase().replace(/[_\s]+/g, '-');
+  if (value === 'total' || value === 'total-votes') return 'total';
+  if (value.includes('provisional')) return 'provisional';
+  if (value.includes('mail') || value === 'absentee' || value.includes('by-mail') || value.includes('uocava') || value.includes('fwab')) return 'mail';
+  if (value.includes('early') || value.includes('advance') || value.includes('in-person')) return 'early';
+  if (value.includes('election-day') || value === 'polls' || value.includes('day-of')) return 'election-day';
+  return 'other';
+}
+
+function normalizeUnitLevel(type: string | undefined | null): UnitLevel {
+  const value = (type ?? '').toLowerCase();
+  if (value === 'state') return 'state';
+  if (value === 'county' || value === 'parish' || value === 'borough') return 'county';
+  if (value === 'precinct' || value === 'split-precinct' || value === 'ward') return 'precinct';
+  if (value.includes('district') || value === 'congressional') return 'district';
+  return 'other';
+}
+
+function addVoteType(target: Partial<Record<VoteType, number>>, type: VoteType, votes: number) {
+  target[type] = (target[type] ?? 0) + votes;
+}
+
+function finalizeContest(
+  contestName: string,
+  candidates: FeedCandidateTotal[],
+  reportingPrecincts: number | null,
+  totalPrecincts: number | null,
+  reportingUnits: FeedReportingUnit[]
+): FeedContest {
+  const realCandidates = candidates.filter(c => !NON_CANDIDATE_CHOICES.test(c.name.trim()));
+  return {
+    contestName,
+    candidates: realCandidates,
+    totalVotes: realCandidates.reduce((sum, c) => sum + c.votes, 0),
+    reportingPrecincts,
+    totalPrecincts,
+    reportingUnits
+  };
+}
+
+// ============================================================================
+// CLARITY / SCYTL ENR
+// ============================================================================
+
+/**
+ * Parse a Clarity ENR detail.xml export. State-level exports break vote
+ * types down by County, county-level exports by Precinct.
+ */
+export function parseClarityDetailXml(xml: string): ResultsFeed {
+  const $ = cheerio.load(xml, { xml: true });
+  const root = $('ElectionResult').first();
+
+  const reportingUnits: FeedReportingUnit[] = [];
+  root.find('ElectionVoterTurnout County, ElectionVoterTurnout Precinct').each((_, el) => {
+    const unit = $(el);
+    const isCounty = el.tagName === 'County';
+    reportingUnits.push({
+      name: unit.attr('name') ?? '',
+      level: isCounty ? 'county' : 'precinct',
+      reportingPrecincts: isCounty ? toOptionalCount(unit.attr('precinctsReported')) : null,
+      totalPrecincts: isCounty ? toOptionalCount(unit.attr('precinctsParticipating')) : null
+    });
+  });
+
+  const contests: FeedContest[] = [];
+  root.find('Contest').each((_, contestEl) => {
+    const contest = $(contestEl);
+    if (contest.attr('isQuestion') === 'true') return;
+
+    const candidates: FeedCandidateTotal[] = [];
+    contest.children('Choice').each((_, choiceEl) => {
+      const choice = $(choiceEl);
+      const voteTypes: Partial<Record<VoteType, number>> = {};
+      const unitTotals = new Map<string, FeedUnitCount>();
+
+      choice.children('VoteType').each((_, typeEl) => {
+        const voteTypeNode = $(typeEl);
+        const type = normalizeVoteType(voteTypeNode.attr('name') ?? '');
+        if (type === 'total') return;
+        addVoteType(voteTypes, type, toCount(voteTypeNode.attr('votes')));
+
+        voteTypeNode.children('County, Precinct').each((_, unitEl) => {
+          const name = $(unitEl).attr('name') ?? '';
+          const votes = toCount($(unitEl).attr('votes'));
+          const existing = unitTotals.get(name) ?? {
+            unit: name,
+            level: unitEl.tagName === 'County' ? 'county' as const : 'precinct' as const,
+            votes: 0,
+            voteTypes: {}
+          };
+          existing.votes += votes;
+          addVoteType(existing.voteTypes, type, votes);
+          unitTotals.set(name, existing);
+        });
+      });
+
+      candidates.push({
+        name: choice.attr('text') ?? '',
+        party: choice.attr('party') || null,
+        votes: toCount(choice.attr('totalVotes')),
+        voteTypes,
+        units: Array.from(unitTotals.values())
+      });
+    });
+
+    // County-level exports carry precinct counts on the contest itself
+    let reportingPrecincts = toOptionalCount(contest.attr('precinctsReported'));
+    let totalPrecincts = toOptionalCount(contest.attr('precinctsParticipating'));
+    if (reportingPrecincts === null) {
+      const participating = new Set<string>();
+      contest.find('ParticipatingCounties County').each((_, el) => {
+        participating.add($(el).attr('name') ?? '');
+      });
+      const contestCounties = participating.size > 0
+        ? reportingUnits.filter(u => u.level === 'county' && participating.has(u.name))
+        : reportingUnits.filter(u => u.level === 'county');
+      if (contestCounties.length > 0) {
+        reportingPrecincts = contestCounties.reduce((sum, u) => sum + (u.reportingPrecincts ?? 0), 0);
+        totalPrecincts = contestCounties.reduce((sum, u) => sum + (u.totalPrecincts ?? 0), 0);
+      }
+    }
+
+    contests.push(finalizeContest(contest.attr('text') ?? '', candidates, reportingPrecincts, totalPrecincts, reportingUnits));
+  });
+
+  const timestamp = root.children('Timestamp').text().trim();
+  const generatedAt = timestamp ? new Date(timestamp.replace(/\s+[A-Z]{2,4}$/, '')) : null;
+
+  return {
+    format: 'clarity-xml',
+    electionName: root.children('ElectionName').text().trim() || null,
+    jurisdiction: root.children('Region').text().trim() || null,
+    generatedAt: generatedAt && !isNaN(generatedAt.getTime()) ? generatedAt : null,
+    contests
+  };
+}
+
+// ============================================================================
+// NIST SP 1500-100 COMMON DATA FORMAT
+// ============================================================================
+
+interface CdfVoteCounts {
+  GpUnitId: string;
+  Type: string;
+  Count: number;
+}
+
+interface CdfSelection {
+  CandidateIds: string[];
+  VoteCounts: CdfVoteCounts[];
+}
+
+interface CdfContest {
+  Name: string;
+  isCandidateContest: boolean;
+  ContestSelection: CdfSelection[];
+}
+
+interface CdfGpUnit {
+  id: string;
+  Name: string;
+  Type: string;
+  SubUnitsReported: number | null;
+  TotalSubUnits: number | null;
+}
+
+interface CdfDocument {
+  generatedDate: string | null;
+  electionName: string | null;
+  scopeId: string | null;
+  contests: CdfContest[];
+  candidates: Map<string, { name: string; partyId: string | null }>;
+  parties: Map<string, string>;
+  gpUnits: Map<string, CdfGpUnit>;
+}
+
+function cdfText(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  const texts = value.Text ?? value.LanguageString;
+  if (Array.isArray(texts) && texts.length > 0) {
+    const english = texts.find((t: any) => (t.Language ?? 'en').startsWith('en')) ?? texts[0];
+    return english.Content ?? english.Value ?? '';
+  }
+  return '';
+}
+
+function readCdfJson(report: any): CdfDocument {
+  const election = (report.Election ?? [])[0] ?? {};
+  const candidates = new Map<string, { name: string; partyId: string | null }>();
+  for (const candidate of election.Candidate ?? []) {
+    candidates.set(candidate['@id'], { name: cdfText(candidate.BallotName), partyId: candidate.PartyId ?? null });
+  }
+
+  const parties = new Map<string, string>();
+  for (const party of report.Party ?? []) {
+    parties.set(party['@id'], party.Abbreviation || cdfText(party.Name));
+  }
+
+  const gpUnits = new Map<string, CdfGpUnit>();
+  for (const unit of report.GpUnit ?? []) {
+    gpUnits.set(unit['@id'], {
+      id: unit['@id'],
+      Name: cdfText(unit.Name),
+      Type: unit.Type === 'other' ? unit.OtherType ?? 'other' : unit.Type ?? '',
+      SubUnitsReported: toOptionalCount(unit.SubUnitsReported),
+      TotalSubUnits: toOptionalCount(unit.TotalSubUnits)
+    });
+  }
+
+  const contests: CdfContest[] = (election.Contest ?? []).map((contest: any) => ({
+    Name: cdfText(contest.Name),
+    isCandidateContest: String(contest['@type'] ?? '').endsWith('CandidateContest'),
+    ContestSelection: (contest.ContestSelection ?? []).map((selection: any) => ({
+      CandidateIds: selection.CandidateIds ?? [],
+      VoteCounts: (selection.VoteCounts ?? []).map((vc: any) => ({
+        GpUnitId: vc.GpUnitId,
+        Type: vc.Type === 'other' ? vc.OtherType ?? 'other' : vc.Type ?? 'total',
+        Count: toCount(vc.Count)
+      }))
+    }))
+  }));
+
+  return {
+    generatedDate: report.GeneratedDate ?? null,
+    electionName: cdfText(election.Name) || null,
+    scopeId: election.ElectionScopeId ?? null,
+    contests,
+    candidates,
+    parties,
+    gpUnits
+  };
+}
+
+function readCdfXml(xml: string): CdfDocument {
+  const $ = cheerio.load(xml, { xml: true });
+  const xsiType = (el: any) => $(el).attr('xsi:type') ?? '';
+  const text = (el: any) => {
+    const node = $(el);
+    const translated = node.children('Text');
+    return (translated.length > 0 ? translated.first().text() : node.text()).trim();
+  };
+
+  const report = $('ElectionReport').first();
+  const election = report.children('Election').first();
+
+  const candidates = new Map<string, { name: string; partyId: string | null }>();
+  election.children('Candidate').each((_, el) => {
+    const node = $(el);
+    candidates.set(node.attr('ObjectId') ?? '', {
+      name: text(node.children('BallotName')),
+      partyId: node.children('PartyId').text().trim() || null
+    });
+  });
+
+  const parties = new Map<string, string>();
+  report.children('Party').each((_, el) => {
+    const node = $(el);
+    parties.set(node.attr('ObjectId') ?? '', node.children('Abbreviation').text().trim() || text(node.children('Name')));
+  });
+
+  const gpUnits = new Map<string, CdfGpUnit>();
+  report.children('GpUnit').each((_, el) => {
+    const node = $(el);
+    const id = node.attr('ObjectId') ?? '';
+    const type = node.children('Type').text().trim();
+    gpUnits.set(id, {
+      id,
+      Name: text(node.children('Name')),
+      Type: type === 'other' ? node.children('OtherType').text().trim() : type,
+      SubUnitsReported: toOptionalCount(node.children('SubUnitsReported').text().trim()),
+      TotalSubUnits: toOptionalCount(node.children('TotalSubUnits').text().trim())
+    });
+  });
+
+  const contests: CdfContest[] = [];
+  election.children('Contest').each((_, el) => {
+    const node = $(el);
+    const selections: CdfSelection[] = [];
+    node.children('ContestSelection').each((_, selEl) => {
+      const selection = $(selEl);
+      const voteCounts: CdfVoteCounts[] = [];
+      selection.children('VoteCounts').each((_, vcEl) => {
+        const vc = $(vcEl);
+        const type = vc.children('Type').text().trim();
+        voteCounts.push({
+          GpUnitId: vc.children('GpUnitId').text().trim(),
+          Type: type === 'other' ? vc.children('OtherType').text().trim() : type || 'total',
+          Count: toCount(vc.children('Count').text().trim())
+        });
+      });
+      selections.push({
+        CandidateIds: selection.children('CandidateIds').text().trim().split(/\s+/).filter(Boolean),
+        VoteCounts: voteCounts
+      });
+    });
+    contests.push({
+      Name: node.children('Name').text().trim(),
+      isCandidateContest: xsiType(el).endsWith('CandidateContest'),
+      ContestSelection: selections
+    });
+  });
+
+  return {
+    generatedDate: report.children('GeneratedDate').text().trim() || null,
+    electionName: text(election.children('Name')) || null,
+    scopeId: election.children('ElectionScopeId').text().trim() || null,
+    contests,
+    candidates,
+    parties,
+    gpUnits
+  };
+}
+
+/**
+ * Collapse a CDF document into feed contests. Counts are read at the
+ * election scope unit when present, otherwise summed across the
+ * highest-level units reported so counties and their precincts are not
+ * double counted.
+ */
+function normalizeCdf(doc: CdfDocument, format: FeedFormat): ResultsFeed {
+  const levelRank: Record<UnitLevel, number> = { state: 0, district: 1, county: 2, precinct: 3, other: 4 };
+  const scope = doc.scopeId ? doc.gpUnits.get(doc.scopeId) : undefined;
+
+  const contests: FeedContest[] = [];
+  for (const contest of doc.contests) {
+    if (!contest.isCandidateContest) continue;
+
+    const countsOf = (selection: CdfSelection) => selection.VoteCounts;
+    const unitIds = new Set(contest.ContestSelection.flatMap(s => countsOf(s).map(vc => vc.GpUnitId)));
+    const levelOf = (id: string): UnitLevel =>
+      id === doc.scopeId ? 'state' : normalizeUnitLevel(doc.gpUnits.get(id)?.Type);
+
+    let topLevel: UnitLevel = 'other';
+    for (const id of Array.from(unitIds)) {
+      const level = levelOf(id);
+      if (levelRank[level] < levelRank[topLevel]) topLevel = level;
+    }
+
+    const candidates: FeedCandidateTotal[] = contest.ContestSelection.map(selection => {
+      const names = selection.CandidateIds.map(id => doc.candidates.get(id)?.name ?? id);
+      const partyId = doc.candidates.get(selection.CandidateIds[0] ?? '')?.partyId ?? null;
+
+      const byUnit = new Map<string, { total: number | null; voteTypes: Partial<Record<VoteType, number>> }>();
+      for (const vc of countsOf(selection)) {
+        const entry = byUnit.get(vc.GpUnitId) ?? { total: null, voteTypes: {} };
+        const type = normalizeVoteType(vc.Type);
+        if (type === 'total') {
+          entry.total = (entry.total ?? 0) + vc.Count;
+        } else {
+          addVoteType(entry.voteTypes, type, vc.Count);
+        }
+        byUnit.set(vc.GpUnitId, entry);
+      }
+
+      const units: FeedUnitCount[] = [];
+      const voteTypes: Partial<Record<VoteType, number>> = {};
+      let votes = 0;
+      for (const [unitId, entry] of Array.from(byUnit.entries())) {
+        const typeSum = Object.values(entry.voteTypes).reduce((sum, v) => sum + (v ?? 0), 0);
+        const unitVotes = entry.total ?? typeSum;
+        const level = levelOf(unitId);
+        if (level !== 'state') {
+          units.push({ unit: doc.gpUnits.get(unitId)?.Name ?? unitId, level, votes: unitVotes, voteTypes: entry.voteTypes });
+        }
+        if (level === topLevel) {
+          votes += unitVotes;
+          for (const [type, count] of Object.entries(entry.voteTypes)) {
+            addVoteType(voteTypes, type as VoteType, count ?? 0);
+          }
+        }
+      }
+
+      return {
+        name: names.join(' / '),
+        party: partyId ? doc.parties.get(partyId) ?? null : null,
+        votes,
+        voteTypes,
+        units
+      };
+    });
+
+    const reportingUnits: FeedReportingUnit[] = Array.from(unitIds)
+      .filter(id => id !== doc.scopeId)
+      .map(id => {
+        const unit = doc.gpUnits.get(id);
+        return {
+          name: unit?.Name ?? id,
+          level: levelOf(id),
+          reportingPrecincts: unit?.SubUnitsReported ?? null,
+          totalPrecincts: unit?.TotalSubUnits ?? null
+        };
+      });
+
+    let reportingPrecincts = scope?.SubUnitsReported ?? null;
+    let totalPrecincts = scope?.TotalSubUnits ?? null;
+    if (reportingPrecincts === null) {
+      const counties = reportingUnits.filter(u => u.level === 'county' && u.totalPrecincts !== null);
+      if (counties.length > 0) {
+        reportingPrecincts = counties.reduce((sum, u) => sum + (u.reportingPrecincts ?? 0), 0);
+        totalPrecincts = counties.reduce((sum, u) => sum + (u.totalPrecincts ?? 0), 0);
+      }
+    }
+
+    contests.push(finalizeContest(contest.Name, candidates, reportingPrecincts, totalPrecincts, reportingUnits));
+  }
+
+  const generatedAt = doc.generatedDate ? new Date(doc.generatedDate) : null;
+  return {
+    format,
+    electionName: doc.electionName,
+    jurisdiction: scope?.Name ?? null,
+    generatedAt: generatedAt && !isNaN(generatedAt.getTime()) ? generatedAt : null,
+    contests
+  };
+}
+
+export function parseNistCdfJson(payload: string | object): ResultsFeed {
+  const report = typeof payload === 'string' ? JSON.parse(payload) : payload;
+  return normalizeCdf(readCdfJson(report), 'nist-cdf-json');
+}
+
+export function parseNistCdfXml(xml: string): ResultsFeed {
+  return normalizeCdf(readCdfXml(xml), 'nist-cdf-xml');
+}
+
+// ============================================================================
+// SECRETARY OF STATE JSON
+// ============================================================================
+
+function readPath(source: any, path: string | undefined): any {
+  if (!path) return undefined;
+  return path.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), source);
+}
+
+/**
+ * Parse a Secretary of State JSON feed using a per-source field mapping
+ */
+export function parseSosJson(payload: string | object, mapping: SosFieldMapping = DEFAULT_SOS_MAPPING): ResultsFeed {
+  const data = typeof payload === 'string' ? JSON.parse(payload) : payload;
+  const rawContests = readPath(data, mapping.contests);
+  if (!Array.isArray(rawContests)) {
+    throw new Error(`SoS feed has no contest list at "${mapping.contests}"`);
+  }
+
+  const contests = rawContests.map((rawContest: any) => {
+    const rawCandidates = readPath(rawContest, mapping.candidates) ?? [];
+    const candidates: FeedCandidateTotal[] = rawCandidates.map((rawCandidate: any) => {
+      const voteTypes: Partial<Record<VoteType, number>> = {};
+      for (const [type, path] of Object.entries(mapping.voteTypes ?? {})) {
+        const value = readPath(rawCandidate, path);
+        if (value !== undefined && value !== null) voteTypes[type as VoteType] = toCount(value);
+      }
+      return {
+        name: String(readPath(rawCandidate, mapping.candidateName) ?? ''),
+        party: readPath(rawCandidate, mapping.party) ?? null,
+        votes: toCount(readPath(rawCandidate, mapping.votes)),
+        voteTypes,
+        units: []
+      };
+    });
+
+    return finalizeContest(
+      String(readPath(rawContest, mapping.contestName) ?? ''),
+      candidates,
+      toOptionalCount(readPath(rawContest, mapping.reportingPrecincts)),
+      toOptionalCount(readPath(rawContest, mapping.totalPrecincts)),
+      []
+    );
+  });
+
+  return { format: 'sos-json', electionName: null, jurisdiction: null, generatedAt: null, contests };
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+function tokens(value: string): string[] {
+  return value
+    .toLowerCase()
+    .replace(/\b(jr|sr|ii|iii|iv)\b\.?/g, ' ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(t => t.length > 1);
+}
+
+const CONTEST_STOPWORDS = new Set(['for', 'the', 'of', 'and', 'election', 'general', 'primary', 'race', 'vote', 'to']);
+
+function contestScore(contestName: string, election: ElectionForMatching): number {
+  const contestTokens = new Set(tokens(contestName).filter(t => !CONTEST_STOPWORDS.has(t)));
+  if (contestTokens.size === 0) return 0;
+  const electionText = [election.title, ...(election.offices ?? [])].join(' ');
+  const electionTokens = new Set(tokens(electionText).filter(t => !CONTEST_STOPWORDS.has(t)));
+  let shared = 0;
+  for (const token of Array.from(contestTokens)) {
+    if (electionTokens.has(token)) shared++;
+  }
+  return shared / contestTokens.size;
+}
+
+/**
+ * Pick the election a feed contest reports on, or null when no election is
+ * a clear best match
+ */
+export function matchContestToElection(
+  contest: FeedContest,
+  elections: ElectionForMatching[],
+  minScore = 0.6
+): ElectionForMatching | null {
+  let best: ElectionForMatching | null = null;
+  let bestScore = 0;
+  let tied = false;
+  for (const election of elections) {
+    const score = contestScore(contest.contestName, election);
+    if (score > bestScore) {
+      best = election;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore && score > 0) {
+      tied = true;
+    }
+  }
+  return best && bestScore >= minScore && !tied ? best : null;
+}
+
+/**
+ * Match a feed candidate to one of ours by full name, then by unique surname
+ */
+export function matchCandidate(feedName: string, candidates: CandidateForMatching[]): CandidateForMatching | null {
+  const feedTokens = tokens(feedName);
+  if (feedTokens.length === 0) return null;
+  const full = feedTokens.join(' ');
+  const exact = candidates.find(c => tokens(c.name).join(' ') === full);
+  if (exact) return exact;
+
+  const surname = feedTokens[feedTokens.length - 1];
+  const first = feedTokens[0];
+  const bySurname = candidates.filter(c => {
+    const ours = tokens(c.name);
+    return ours[ours.length - 1] === surname;
+  });
+  if (bySurname.length === 1) return bySurname[0];
+  return bySurname.find(c => tokens(c.name)[0] === first) ?? null;
+}
+
+/**
+ * Convert a feed contest into the ElectionResult shape used by storage
+ */
+export function buildElectionResult(
+  electionId: number,
+  contest: FeedContest,
+  candidates: CandidateForMatching[],
+  resultsSource: string
+): MatchedContest {
+  const candidateResults: CandidateResult[] = [];
+  const candidateIds = new Map<string, number>();
+  const unmatchedCandidates: string[] = [];
+
+  for (const feedCandidate of contest.candidates) {
+    const match = matchCandidate(feedCandidate.name, candidates);
+    if (!match) {
+      unmatchedCandidates.push(feedCandidate.name);
+      continue;
+    }
+    candidateIds.set(feedCandidate.name, match.id);
+    candidateResults.push({
+      candidateId: match.id,
+      votesReceived: feedCandidate.votes,
+      votePercentage: contest.totalVotes > 0
+        ? Math.round((feedCandidate.votes / contest.totalVotes) * 10000) / 100
+        : 0,
+      isWinner: false,
+      isProjectedWinner: false
+    });
+  }
+
+  const reportingPrecincts = contest.reportingPrecincts ?? 0;
+  const totalPrecincts = contest.totalPrecincts ?? 0;
+  const percentReporting = totalPrecincts > 0
+    ? Math.min(100, Math.round((reportingPrecincts / totalPrecincts) * 10000) / 100)
+    : 0;
+
+  return {
+    result: {
+      electionId,
+      totalVotes: contest.totalVotes,
+      reportingPrecincts,
+      totalPrecincts,
+      percentReporting,
+      isComplete: totalPrecincts > 0 && reportingPrecincts >= totalPrecincts,
+      resultsSource,
+      candidateResults
+    },
+    contest,
+    candidateIds,
+    unmatchedCandidates
+  };
+}
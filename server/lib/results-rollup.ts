@@ -0,0 +1,180 @@
+/**
+ * Results hierarchy roll-up
+ * Sums per-candidate counts from precincts up through counties and
+ * districts to the election total, recomputing precincts reporting and
+ * vote percentages at every level. Pure functions only.
+ */
+
+import type { VoteType } from './results-feeds';
+
+export type ReportingLevel = 'state' | 'district' | 'county' | 'precinct';
+
+export const VOTE_TYPES: VoteType[] = ['election-day', 'early', 'mail', 'provisional', 'other'];
+
+export interface UnitCandidateCount {
+  candidateId: number;
+  votes: number;
+  voteTypes: Partial<Record<VoteType, number>>;
+}
+
+export interface ReportingUnitInput {
+  key: string;
+  level: ReportingLevel;
+  name: string;
+  parentKey: string | null;
+  reportingPrecincts: number | null;
+  totalPrecincts: number | null;
+  candidates: UnitCandidateCount[];
+}
+
+export interface RolledUpCandidate extends UnitCandidateCount {
+  votePercentage: number;
+}
+
+export interface RolledUpUnit {
+  key: string;
+  level: ReportingLevel;
+  name: string;
+  parentKey: string | null;
+  reportingPrecincts: number;
+  totalPrecincts: number;
+  percentReporting: number;
+  totalVotes: number;
+  voteTypes: Partial<Record<VoteType, number>>;
+  candidates: RolledUpCandidate[];
+  childCount: number;
+}
+
+export interface RollUpResult {
+  units: Map<string, RolledUpUnit>;
+  totals: Omit<RolledUpUnit, 'key' | 'level' | 'name' | 'parentKey'>;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function mergeVoteTypes(target: Partial<Record<VoteType, number>>, source: Partial<Record<VoteType, number>>) {
+  for (const type of VOTE_TYPES) {
+    if (source[type] !== undefined) {
+      target[type] = (target[type] ?? 0) + (source[type] ?? 0);
+    }
+  }
+}
+
+function summarize(
+  candidates: UnitCandidateCount[],
+  reportingPrecincts: number,
+  totalPrecincts: number,
+  childCount: number
+): Omit<RolledUpUnit, 'key' | 'level' | 'name' | 'parentKey'> {
+  const totalVotes = candidates.reduce((sum, c) => sum + c.votes, 0);
+  const voteTypes: Partial<Record<VoteType, number>> = {};
+  for (const candidate of candidates) mergeVoteTypes(voteTypes, candidate.voteTypes);
+
+  return {
+    reportingPrecincts,
+    totalPrecincts,
+    percentReporting: totalPrecincts > 0 ? Math.min(100, round2((reportingPrecincts / totalPrecincts) * 100)) : 0,
+    totalVotes,
+    voteTypes,
+    candidates: candidates
+      .map(c => ({ ...c, votePercentage: totalVotes > 0 ? round2((c.votes / totalVotes) * 100) : 0 }))
+      .sort((a, b) => b.votes - a.votes),
+    childCount
+  };
+}
+
+function sumCandidates(groups: UnitCandidateCount[][]): UnitCandidateCount[] {
+  const byCandidate = new Map<number, UnitCandidateCount>();
+  for (const group of groups) {
+    for (const count of group) {
+      const entry = byCandidate.get(count.candidateId) ?? { candidateId: count.candidateId, votes: 0, voteTypes: {} };
+      entry.votes += count.votes;
+      mergeVoteTypes(entry.voteTypes, count.voteTypes);
+      byCandidate.set(count.candidateId, entry);
+    }
+  }
+  return Array.from(byCandidate.values());
+}
+
+/**
+ * Roll a reporting-unit tree up to election totals. A unit with children
+ * takes its counts from them; a leaf keeps its own. Precinct leaves without
+ * explicit reporting figures count as one precinct, reported once any votes
+ * are in. Units whose parent is missing are treated as roots.
+ */
+export function rollUpResults(inputs: ReportingUnitInput[]): RollUpResult {
+  const byKey = new Map(inputs.map(u => [u.key, u]));
+  const children = new Map<string, ReportingUnitInput[]>();
+  const roots: ReportingUnitInput[] = [];
+
+  for (const unit of inputs) {
+    if (unit.parentKey && byKey.has(unit.parentKey) && unit.parentKey !== unit.key) {
+      const siblings = children.get(unit.parentKey) ?? [];
+      siblings.push(unit);
+      children.set(unit.parentKey, siblings);
+    } else {
+      roots.push(unit);
+    }
+  }
+
+  const units = new Map<string, RolledUpUnit>();
+  const visiting = new Set<string>();
+
+  const visit = (unit: ReportingUnitInput): RolledUpUnit => {
+    const done = units.get(unit.key);
+    if (done) return done;
+    if (visiting.has(unit.key)) {
+      throw new Error(`Reporting unit cycle at ${unit.key}`);
+    }
+    visiting.add(unit.key);
+
+    const kids = (children.get(unit.key) ?? []).map(visit);
+    let summary: Omit<RolledUpUnit, 'key' | 'level' | 'name' | 'parentKey'>;
+
+    if (kids.length > 0) {
+      summary = summarize(
+        sumCandidates(kids.map(k => k.candidates)),
+        kids.reduce((sum, k) => sum + k.reportingPrecincts, 0),
+        kids.reduce((sum, k) => sum + k.totalPrecincts, 0),
+        kids.length
+      );
+    } else {
+      const hasVotes = unit.candidates.some(c => c.votes > 0);
+      const total = unit.totalPrecincts ?? (unit.level === 'precinct' ? 1 : 0);
+      const reporting = unit.reportingPrecincts ?? (unit.level === 'precinct' && hasVotes ? 1 : 0);
+      summary = summarize(sumCandidates([unit.candidates]), Math.min(reporting, total || reporting), total, 0);
+    }
+
+    const rolled: RolledUpUnit = { key: unit.key, level: unit.level, name: unit.name, parentKey: unit.parentKey, ...summary };
+    visiting.delete(unit.key);
+    units.set(unit.key, rolled);
+    return rolled;
+  };
+
+  const rolledRoots = roots.map(visit);
+  for (const unit of inputs) visit(unit);
+
+  const totals = summarize(
+    sumCandidates(rolledRoots.map(r => r.candidates)),
+    rolledRoots.reduce((sum, r) => sum + r.reportingPrecincts, 0),
+    rolledRoots.reduce((sum, r) => sum + r.totalPrecincts, 0),
+    rolledRoots.length
+  );
+
+  return { units, totals };
+}
+
+/**
+ * Whether the stored units account for the whole race - a statewide unit,
+ * or units whose precincts add up to the race's expected precinct count.
+ * A county feed alone only covers part of the race, so its roll-up must
+ * not stand in for the race totals or mark the race complete.
+ */
+export function coversRace(result: RollUpResult, expectedPrecincts: number | null | undefined): boolean {
+  const roots = Array.from(result.units.values())
+    .filter(u => !u.parentKey || !result.units.has(u.parentKey));
+  if (roots.some(u => u.level === 'state')) return true;
+  return !!expectedPrecincts && expectedPrecincts > 0 && result.totals.totalPrecincts >= expectedPrecincts;
+}
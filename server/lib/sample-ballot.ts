@@ -0,0 +1,397 @@
+/**
+ * Sample ballot composition
+ * Merges the contests Google Civic (and other ballot sources) report for
+ * an address with the races our own district lookup puts on that voter's
+ * ballot, orders them the way ballots are printed - federal, state,
+ * county, local, then measures - and renders a voter's picks as a
+ * printable cheat sheet.
+ * Pure functions only - fetching lives in sample-ballot-service.
+ */
+
+import { matchCandidate } from './results-feeds';
+
+export const BALLOT_SECTIONS = ['federal', 'state', 'county', 'local', 'measures'] as const;
+export type BallotSection = typeof BALLOT_SECTIONS[number];
+
+export interface BallotChoice {
+  key: string;                 // 'candidate-12', 'name-jane-doe', 'yes'
+  name: string;
+  party: string | null;
+  candidateId: number | null;
+  website: string | null;
+  isIncumbent?: boolean;
+  profile?: {
+    slogan: string | null;
+    occupation: string | null;
+    topPriorities: unknown;
+  } | null;
+  positions?: Array<{ category: string; position: string }>;
+}
+
+export interface BallotContest {
+  key: string;                 // 'election-42', 'civic-governor', 'measure-prop-1'
+  kind: 'candidate' | 'measure';
+  section: BallotSection;
+  office: string;
+  district: string | null;
+  electionId: number | null;
+  measureId?: number | null;
+  placement: number | null;    // position printed on the ballot, when the source knows it
+  subtitle?: string | null;
+  text?: string | null;        // measure text
+  choices: BallotChoice[];
+  sources: string[];
+}
+
+export interface SampleBallot {
+  address: string;
+  state: string | null;
+  electionDate: string | null; // YYYY-MM-DD
+  electionName: string | null;
+  contests: BallotContest[];
+  sources: string[];
+  generatedAt: string;
+}
+
+/** contest key -> chosen choice key, with an optional note to self */
+export type BallotPicks = Record<string, { choice: string; note?: string | null }>;
+
+/** A contest as Google Civic voterinfo (or a compatible source) reports it */
+export interface SourceContest {
+  type?: string;
+  office?: string;
+  level?: string[];
+  district?: { name?: string; scope?: string } | null;
+  ballotPlacement?: string | number;
+  referendumTitle?: string;
+  referendumSubtitle?: string;
+  referendumText?: string;
+  referendumBallotResponses?: string[];
+  measureId?: number;          // set when the contest is one of our ballot measures
+  candidates?: Array<{ name: string; party?: string | null; website?: string | null; candidateUrl?: string | null }>;
+}
+
+/** One of our races on the voter's ballot, with its candidates */
+export interface LocalBallotRace {
+  election: {
+    id: number;
+    title: string;
+    subtitle?: string | null;
+    location: string;
+    level: string;
+    offices?: string[] | null;
+  };
+  district: string | null;
+  candidates: Array<{ id: number; name: string; party: string; website?: string | null; isIncumbent?: boolean | null }>;
+}
+
+export function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function normalizeOffice(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\b(u\.?\s?s\.?|united states)\b/g, 'us')
+    .replace(/\b(representative in congress|house of representatives|us representative)\b/g, 'us house')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Ballot order inside a section; first match wins
+const OFFICE_ORDER: Array<[RegExp, number]> = [
+  [/president/i, 0],
+  [/\b(us|u\.s\.|united states) senat/i, 1],
+  [/\b(us|u\.s\.|united states) (house|representative)|congress/i, 2],
+  [/lieutenant governor/i, 11],
+  [/governor/i, 10],
+  [/attorney general/i, 12],
+  [/secretary of state/i, 13],
+  [/treasurer|comptroller|controller|auditor/i, 14],
+  [/superintendent|commissioner|insurance|land/i, 15],
+  [/state senat/i, 20],
+  [/assembly|state house|state representative|house of delegates|legislat/i, 21],
+  [/supreme court|appeals|judge|justice|judicial/i, 30],
+  [/sheriff|district attorney|county/i, 35],
+  [/mayor/i, 40],
+  [/council|supervisor/i, 41],
+  [/school|board|trustee|district/i, 45]
+];
+
+export function officeRank(office: string): number {
+  for (const [pattern, rank] of OFFICE_ORDER) {
+    if (pattern.test(office)) return rank;
+  }
+  return 50;
+}
+
+/**
+ * Ballot section from Google Civic levels / district scope
+ */
+export function sectionForSourceContest(contest: SourceContest): BallotSection {
+  if ((contest.type ?? '').toLowerCase() === 'referendum' || contest.referendumTitle) return 'measures';
+  const level = contest.level ?? [];
+  const scope = contest.district?.scope ?? '';
+  if (level.includes('country') || scope === 'national' || scope === 'congressional') return 'federal';
+  if (level.includes('administrativeArea1') || ['statewide', 'stateUpper', 'stateLower'].includes(scope)) return 'state';
+  if (level.includes('administrativeArea2') || scope === 'countywide') return 'county';
+  return 'local';
+}
+
+export function sectionForElection(election: LocalBallotRace['election']): BallotSection {
+  const level = election.level.toLowerCase();
+  if (level === 'federal') return 'federal';
+  if (level === 'state') return 'state';
+  if (/\bcounty\b|\bparish\b/i.test(`${election.location} ${election.title}`)) return 'county';
+  return 'local';
+}
+
+function sourceChoices(contest: SourceContest): BallotChoice[] {
+  if (sectionForSourceContest(contest) === 'measures') {
+    const responses = contest.referendumBallotResponses?.length ? contest.referendumBallotResponses : ['Yes', 'No'];
+    return responses.map(response => ({
+      key: slugify(response), name: response, party: null, candidateId: null, website: null
+    }));
+  }
+  return (contest.candidates ?? []).map(candidate => ({
+    key: `name-${slugify(candidate.name)}`,
+    name: candidate.name,
+    party: candidate.party ?? null,
+    candidateId: null,
+    website: candidate.website ?? candidate.candidateUrl ?? null
+  }));
+}
+
+function ourChoice(candidate: LocalBallotRace['candidates'][number]): BallotChoice {
+  return {
+    key: `candidate-${candidate.id}`,
+    name: candidate.name,
+    party: candidate.party ?? null,
+    candidateId: candidate.id,
+    website: candidate.website ?? null,
+    isIncumbent: candidate.isIncumbent ?? false
+  };
+}
+
+function placementOf(contest: SourceContest): number | null {
+  const value = Number(contest.ballotPlacement);
+  return Number.isFinite(value) && contest.ballotPlacement !== undefined && contest.ballotPlacement !== '' ? value : null;
+}
+
+/**
+ * Whether a source contest and one of our races are the same contest:
+ * a shared candidate, or one office name containing the other
+ */
+function sameContest(source: SourceContest, race: LocalBallotRace): boolean {
+  const sourceNames = (source.candidates ?? []).map(c => c.name);
+  if (sourceNames.some(name => matchCandidate(name, race.candidates) !== null)) return true;
+
+  const office = normalizeOffice(source.office ?? '');
+  if (!office) return false;
+  return [race.election.title, ...(race.election.offices ?? [])]
+    .map(normalizeOffice)
+    .some(ours => ours === office || (office.length > 6 && ours.includes(office)));
+}
+
+/**
+ * Assemble one ballot from the source contests and our own races. Source
+ * contests that match one of our races take its election id and
+ * candidate ids; our candidates the source did not list are added; our
+ * races no source reported become contests of their own.
+ */
+export function composeBallot(input: {
+  address: string;
+  state: string | null;
+  electionDate: string | null;
+  electionName: string | null;
+  sourceContests: Array<{ source: string; contest: SourceContest }>;
+  localRaces: LocalBallotRace[];
+  now?: Date;
+}): SampleBallot {
+  const contests: BallotContest[] = [];
+  const used = new Set<number>();
+
+  for (const { source, contest } of input.sourceContests) {
+    const section = sectionForSourceContest(contest);
+    const office = section === 'measures'
+      ? contest.referendumTitle ?? contest.office ?? 'Ballot measure'
+      : contest.office ?? 'Unnamed contest';
+    const district = contest.district?.name ?? null;
+
+    const key = section === 'measures'
+      ? `measure-${slugify(office)}`
+      : `civic-${slugify([office, district].filter(Boolean).join(' '))}`;
+    const existing = contests.find(c => c.key === key);
+    if (existing) {
+      if (!existing.sources.includes(source)) existing.sources.push(source);
+      if (contest.measureId) existing.measureId = contest.measureId;
+      existing.subtitle = existing.subtitle ?? contest.referendumSubtitle ?? null;
+      existing.text = existing.text ?? contest.referendumText ?? null;
+      continue;
+    }
+
+    let choices = sourceChoices(contest);
+    let electionId: number | null = null;
+    const race = section === 'measures'
+      ? undefined
+      : input.localRaces.find(r => !used.has(r.election.id) && sameContest(contest, r));
+
+    if (race) {
+      used.add(race.election.id);
+      electionId = race.election.id;
+      choices = choices.map(choice => {
+        const ours = matchCandidate(choice.name, race.candidates) as LocalBallotRace['candidates'][number] | null;
+        return ours ? { ...ourChoice(ours), name: choice.name, website: choice.website ?? ours.website ?? null } : choice;
+      });
+      for (const candidate of race.candidates) {
+        if (!choices.some(choice => choice.candidateId === candidate.id)) choices.push(ourChoice(candidate));
+      }
+    }
+
+    contests.push({
+      key: race ? `election-${race.election.id}` : key,
+      kind: section === 'measures' ? 'measure' : 'candidate',
+      section,
+      office,
+      district,
+      electionId,
+      measureId: contest.measureId ?? null,
+      placement: placementOf(contest),
+      subtitle: contest.referendumSubtitle ?? null,
+      text: contest.referendumText ?? null,
+      choices,
+      sources: race ? [source, 'Election database'] : [source]
+    });
+  }
+
+  for (const race of input.localRaces) {
+    if (used.has(race.election.id)) continue;
+    contests.push({
+      key: `election-${race.election.id}`,
+      kind: 'candidate',
+      section: sectionForElection(race.election),
+      office: race.election.title,
+      district: race.district,
+      electionId: race.election.id,
+      placement: null,
+      subtitle: race.election.subtitle ?? null,
+      choices: race.candidates.map(ourChoice),
+      sources: ['Election database']
+    });
+  }
+
+  const sources = Array.from(new Set(contests.flatMap(contest => contest.sources)));
+  return {
+    address: input.address,
+    state: input.state,
+    electionDate: input.electionDate,
+    electionName: input.electionName,
+    contests: sortBallot(contests),
+    sources,
+    generatedAt: (input.now ?? new Date()).toISOString()
+  };
+}
+
+/**
+ * Ballot order: by section, then the printed placement when a source gives
+ * one, then the usual office order
+ */
+export function sortBallot(contests: BallotContest[]): BallotContest[] {
+  return contests.slice().sort((a, b) =>
+    BALLOT_SECTIONS.indexOf(a.section) - BALLOT_SECTIONS.indexOf(b.section) ||
+    (a.placement ?? Infinity) - (b.placement ?? Infinity) ||
+    officeRank(a.office) - officeRank(b.office) ||
+    (a.district ?? '').localeCompare(b.district ?? '', undefined, { numeric: true }) ||
+    a.office.localeCompare(b.office)
+  );
+}
+
+/**
+ * Keep only picks that name a contest and choice on this ballot
+ */
+export function reconcilePicks(ballot: SampleBallot, picks: BallotPicks): { picks: BallotPicks; dropped: string[] } {
+  const kept: BallotPicks = {};
+  const dropped: string[] = [];
+  for (const [contestKey, pick] of Object.entries(picks)) {
+    const contest = ballot.contests.find(c => c.key === contestKey);
+    if (contest && contest.choices.some(choice => choice.key === pick.choice)) {
+      kept[contestKey] = pick;
+    } else {
+      dropped.push(contestKey);
+    }
+  }
+  return { picks: kept, dropped };
+}
+
+const SECTION_TITLES: Record<BallotSection, string> = {
+  federal: 'Federal',
+  state: 'State',
+  county: 'County',
+  local: 'Local',
+  measures: 'Ballot Measures'
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Printable one-page "cheat sheet" of the ballot with the voter's picks
+ * marked, for the PDF export
+ */
+export function renderBallotCheatSheet(ballot: SampleBallot, picks: BallotPicks): string {
+  const sections = BALLOT_SECTIONS.map(section => {
+    const contests = ballot.contests.filter(contest => contest.section === section);
+    if (contests.length === 0) return '';
+
+    const rows = contests.map(contest => {
+      const pick = picks[contest.key];
+      const choices = contest.choices.map(choice => {
+        const chosen = pick?.choice === choice.key;
+        const party = choice.party ? ` <span class="party">(${escapeHtml(choice.party)})</span>` : '';
+        return `<li class="${chosen ? 'chosen' : ''}"><span class="box">${chosen ? '&#10003;' : ''}</span>${escapeHtml(choice.name)}${party}</li>`;
+      }).join('');
+      const district = contest.district ? `<div class="district">${escapeHtml(contest.district)}</div>` : '';
+      const note = pick?.note ? `<div class="note">${escapeHtml(pick.note)}</div>` : '';
+      return `<div class="contest"><h3>${escapeHtml(contest.office)}</h3>${district}<ul>${choices}</ul>${note}</div>`;
+    }).join('');
+
+    return `<section><h2>${SECTION_TITLES[section]}</h2>${rows}</section>`;
+  }).join('');
+
+  const heading = escapeHtml(ballot.electionName ?? 'Sample Ballot');
+  const date = ballot.electionDate ? `<p>Election day: ${escapeHtml(ballot.electionDate)}</p>` : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${heading}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 11px; color: #111; margin: 0; }
+  header { border-bottom: 2px solid #111; margin-bottom: 8px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 13px; background: #111; color: #fff; padding: 2px 6px; margin: 10px 0 4px; }
+  h3 { font-size: 12px; margin: 0; }
+  .contest { break-inside: avoid; border-bottom: 1px solid #ccc; padding: 4px 0; }
+  .district, .party, .note { color: #555; }
+  .note { font-style: italic; margin-top: 2px; }
+  ul { list-style: none; padding: 0; margin: 2px 0 0; columns: 2; }
+  li { margin: 1px 0; }
+  li.chosen { font-weight: bold; }
+  .box { display: inline-block; width: 10px; height: 10px; border: 1px solid #111; margin-right: 4px; text-align: center; line-height: 10px; font-size: 9px; }
+  footer { margin-top: 10px; color: #777; font-size: 9px; }
+</style>
+</head>
+<body>
+<header><h1>${heading}</h1>${date}<p>${escapeHtml(ballot.address)}</p></header>
+${sections}
+<footer>Sample ballot for reference only - bring it with you to the polls. Sources: ${escapeHtml(ballot.sources.join(', ') || 'none')}.</footer>
+</body>
+</html>`;
+}
@@ -0,0 +1,139 @@
+/**
+ * ESRI shapefile reader
+ * Reads the polygon shapes (.shp) and attribute table (.dbf) of an
+ * unzipped Census TIGER/Line or cartographic boundary file into
+ * GeoJSON-like features: each feature's rings are kept flat, in file
+ * order, since shapefiles do not group holes with their outer ring.
+ * Pure functions only - file access lives in district-boundary-service.
+ */
+
+export interface ShapefileFeature {
+  properties: Record<string, string | number | null>;
+  rings: number[][][]; // [ring][point][x, y]
+}
+
+const SHAPE_NULL = 0;
+const POLYGON_TYPES = new Set([5, 15, 25]); // Polygon, PolygonZ, PolygonM
+
+export class ShapefileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShapefileError';
+  }
+}
+
+/**
+ * Polygon rings per record; null for null shapes
+ */
+export function readShpPolygons(shp: Buffer): Array<number[][][] | null> {
+  if (shp.length < 100 || shp.readInt32BE(0) !== 9994) {
+    throw new ShapefileError('Not a shapefile (.shp header missing)');
+  }
+  const fileType = shp.readInt32LE(32);
+  if (!POLYGON_TYPES.has(fileType)) {
+    throw new ShapefileError(`Unsupported shape type ${fileType}; district boundaries must be polygons`);
+  }
+
+  const shapes: Array<number[][][] | null> = [];
+  const fileLength = Math.min(shp.readInt32BE(24) * 2, shp.length);
+  let offset = 100;
+
+  while (offset + 8 <= fileLength) {
+    const contentLength = shp.readInt32BE(offset + 4) * 2;
+    const content = offset + 8;
+    offset = content + contentLength;
+
+    const shapeType = shp.readInt32LE(content);
+    if (shapeType === SHAPE_NULL) {
+      shapes.push(null);
+      continue;
+    }
+    if (!POLYGON_TYPES.has(shapeType)) {
+      throw new ShapefileError(`Unexpected shape type ${shapeType} in record ${shapes.length + 1}`);
+    }
+
+    const numParts = shp.readInt32LE(content + 36);
+    const numPoints = shp.readInt32LE(content + 40);
+    const partsAt = content + 44;
+    const pointsAt = partsAt + numParts * 4;
+
+    const rings: number[][][] = [];
+    for (let part = 0; part < numParts; part++) {
+      const start = shp.readInt32LE(partsAt + part * 4);
+      const end = part + 1 < numParts ? shp.readInt32LE(partsAt + (part + 1) * 4) : numPoints;
+      const ring: number[][] = [];
+      for (let i = start; i < end; i++) {
+        const at = pointsAt + i * 16;
+        ring.push([shp.readDoubleLE(at), shp.readDoubleLE(at + 8)]);
+      }
+      rings.push(ring);
+    }
+    shapes.push(rings);
+  }
+
+  return shapes;
+}
+
+/**
+ * dBASE III attribute rows; numeric fields come back as numbers. Rows
+ * flagged deleted are kept so they stay aligned with their shapes.
+ */
+export function readDbfRecords(dbf: Buffer, encoding: BufferEncoding = 'utf8'): Array<Record<string, string | number | null>> {
+  if (dbf.length < 32) throw new ShapefileError('Not a dBASE file (.dbf header missing)');
+
+  const recordCount = dbf.readUInt32LE(4);
+  const headerLength = dbf.readUInt16LE(8);
+  const recordLength = dbf.readUInt16LE(10);
+
+  const fields: Array<{ name: string; type: string; length: number }> = [];
+  for (let at = 32; at + 32 <= headerLength && dbf[at] !== 0x0d; at += 32) {
+    const rawName = dbf.subarray(at, at + 11);
+    const nameEnd = rawName.indexOf(0);
+    fields.push({
+      name: rawName.subarray(0, nameEnd === -1 ? 11 : nameEnd).toString('ascii'),
+      type: String.fromCharCode(dbf[at + 11]),
+      length: dbf[at + 16]
+    });
+  }
+
+  const records: Array<Record<string, string | number | null>> = [];
+  for (let row = 0; row < recordCount; row++) {
+    let at = headerLength + row * recordLength;
+    if (at + recordLength > dbf.length) break;
+    at += 1; // deletion flag
+
+    const record: Record<string, string | number | null> = {};
+    for (const field of fields) {
+      const raw = dbf.toString(encoding, at, at + field.length).trim();
+      at += field.length;
+      if (raw === '') {
+        record[field.name] = null;
+      } else if (field.type === 'N' || field.type === 'F') {
+        const value = Number(raw);
+        record[field.name] = Number.isFinite(value) ? value : null;
+      } else {
+        record[field.name] = raw;
+      }
+    }
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Pair shapes with their attribute rows, dropping null shapes
+ */
+export function readShapefile(shp: Buffer, dbf: Buffer, encoding?: BufferEncoding): ShapefileFeature[] {
+  const shapes = readShpPolygons(shp);
+  const records = readDbfRecords(dbf, encoding);
+  if (shapes.length !== records.length) {
+    throw new ShapefileError(`Shape count ${shapes.length} does not match attribute rows ${records.length}`);
+  }
+
+  const features: ShapefileFeature[] = [];
+  shapes.forEach((rings, i) => {
+    if (rings && rings.length > 0) features.push({ properties: records[i], rings });
+  });
+  return features;
+}
@@ -0,0 +1,392 @@
+/**
+ * Congressional voting-record analytics
+ * Parses roll calls from the congress.gov house-vote API and senate.gov's
+ * LIS vote XML, and derives per-member metrics: party-line voting on
+ * party-unity votes, missed-vote rate, the bipartisan co-sponsorship index
+ * and key-vote positions by issue category.
+ * Pure functions only - fetching and storage live in voting-record-service.
+ */
+
+import * as cheerio from 'cheerio';
+
+export type VotePosition = 'yea' | 'nay' | 'present' | 'not_voting';
+
+export interface ParsedRollCall {
+  chamber: 'House' | 'Senate';
+  congress: number;
+  session: number;
+  rollCallNumber: number;
+  voteDate: Date | null;
+  question: string | null;
+  description: string | null;
+  result: string | null;
+  voteType: string | null;
+  billType: string | null;   // congress.gov form: 'hr', 's', 'hjres'
+  billNumber: string | null;
+}
+
+export interface ParsedMemberVote {
+  bioguideId: string | null; // Senate XML carries LIS ids only - resolved by name
+  lisMemberId?: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  party: string | null;
+  state: string | null;
+  position: VotePosition;
+}
+
+/** Comparison-wizard categories, keyed by congress.gov policy area */
+const POLICY_AREA_CATEGORIES: Record<string, string> = {
+  'Economics and Public Finance': 'Economy & Jobs',
+  'Commerce': 'Economy & Jobs',
+  'Labor and Employment': 'Economy & Jobs',
+  'Finance and Financial Sector': 'Economy & Jobs',
+  'Health': 'Healthcare',
+  'Education': 'Education',
+  'Environmental Protection': 'Environment',
+  'Energy': 'Environment',
+  'Public Lands and Natural Resources': 'Environment',
+  'Water Resources Development': 'Environment',
+  'Immigration': 'Immigration',
+  'Crime and Law Enforcement': 'Criminal Justice',
+  'Transportation and Public Works': 'Infrastructure',
+  'Taxation': 'Taxes',
+  'Civil Rights and Liberties, Minority Issues': 'Social Issues',
+  'Families': 'Social Issues',
+  'Social Welfare': 'Social Issues',
+  'International Affairs': 'Foreign Policy',
+  'Armed Forces and National Security': 'Foreign Policy'
+};
+
+export function policyAreaToCategory(policyArea: string | null | undefined): string | null {
+  return policyArea ? POLICY_AREA_CATEGORIES[policyArea] ?? null : null;
+}
+
+export function normalizeVoteCast(cast: string | null | undefined): VotePosition {
+  const value = (cast ?? '').trim().toLowerCase();
+  if (value === 'yea' || value === 'aye' || value === 'yes' || value === 'guilty') return 'yea';
+  if (value === 'nay' || value === 'no' || value === 'not guilty') return 'nay';
+  if (value === 'present') return 'present';
+  return 'not_voting';
+}
+
+export function normalizeParty(party: string | null | undefined): string | null {
+  const value = (party ?? '').trim().toLowerCase();
+  if (!value) return null;
+  if (value === 'd' || value.startsWith('democrat')) return 'D';
+  if (value === 'r' || value.startsWith('republican')) return 'R';
+  if (value === 'i' || value === 'id' || value.startsWith('independent')) return 'I';
+  return party!.trim().toUpperCase().slice(0, 10);
+}
+
+/** 'H.R.' -> 'hr', 'S.J.Res.' -> 'sjres'; nominations and treaties -> null */
+export function normalizeBillType(type: string | null | undefined): string | null {
+  const value = (type ?? '').toLowerCase().replace(/[^a-z]/g, '');
+  return ['hr', 's', 'hjres', 'sjres', 'hconres', 'sconres', 'hres', 'sres'].includes(value) ? value : null;
+}
+
+/** 'Pelosi, Nancy' -> 'Nancy Pelosi'; other forms pass through */
+export function displayName(name: string): string {
+  const [last, first] = name.split(',').map(part => part.trim());
+  return first ? `${first} ${last}` : name.trim();
+}
+
+// ============================================================================
+// PARSERS
+// ============================================================================
+
+/** One entry of the congress.gov house-vote list */
+export function parseHouseVoteListItem(item: any): ParsedRollCall {
+  return {
+    chamber: 'House',
+    congress: Number(item.congress),
+    session: Number(item.sessionNumber ?? item.session),
+    rollCallNumber: Number(item.rollCallNumber),
+    voteDate: item.startDate || item.actionDate ? new Date(item.startDate ?? item.actionDate) : null,
+    question: item.voteQuestion ?? null,
+    description: item.description ?? null,
+    result: item.result ?? null,
+    voteType: item.voteType ?? null,
+    billType: normalizeBillType(item.legislationType),
+    billNumber: item.legislationNumber ? String(item.legislationNumber) : null
+  };
+}
+
+/** The congress.gov house-vote members response */
+export function parseHouseVoteMembers(payload: any): { question: string | null; votes: ParsedMemberVote[] } {
+  const body = payload?.houseRollCallVoteMemberVotes ?? payload ?? {};
+  const results: any[] = body.results ?? body.memberVotes ?? [];
+  return {
+    question: body.voteQuestion ?? null,
+    votes: results.map(member => ({
+      bioguideId: member.bioguideID ?? member.bioguideId ?? null,
+      firstName: member.firstName ?? null,
+      lastName: member.lastName ?? null,
+      party: normalizeParty(member.voteParty ?? member.party),
+      state: member.voteState ?? member.state ?? null,
+      position: normalizeVoteCast(member.voteCast)
+    }))
+  };
+}
+
+/** Roll-call numbers listed in a senate.gov vote_menu_{congress}_{session}.xml */
+export function parseSenateVoteMenu(xml: string): number[] {
+  const $ = cheerio.load(xml, { xml: true });
+  return $('votes > vote > vote_number').map((_, el) => Number($(el).text().trim())).get()
+    .filter((n: number) => Number.isInteger(n) && n > 0);
+}
+
+/** 'January 3, 2023,  12:00 PM' */
+function parseSenateDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value.replace(/,\s*(\d{1,2}:\d{2})/, ' $1').replace(/\s+/g, ' '));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** A senate.gov vote_{congress}_{session}_{number}.xml roll call */
+export function parseSenateVoteXml(xml: string): { rollCall: ParsedRollCall; votes: ParsedMemberVote[] } {
+  const $ = cheerio.load(xml, { xml: true });
+  const root = $('roll_call_vote').first();
+  const text = (selector: string) => root.children(selector).first().text().trim() || null;
+
+  const rollCall: ParsedRollCall = {
+    chamber: 'Senate',
+    congress: Number(text('congress')),
+    session: Number(text('session')),
+    rollCallNumber: Number(text('vote_number')),
+    voteDate: parseSenateDate(text('vote_date')),
+    question: text('vote_question_text') ?? text('question'),
+    description: text('vote_title') ?? text('vote_document_text'),
+    result: text('vote_result') ?? text('vote_result_text'),
+    voteType: text('majority_requirement'),
+    billType: normalizeBillType(root.find('document > document_type').first().text()),
+    billNumber: root.find('document > document_number').first().text().trim() || null
+  };
+
+  const votes: ParsedMemberVote[] = root.find('members > member').map((_, el) => {
+    const member = $(el);
+    const field = (name: string) => member.children(name).first().text().trim() || null;
+    return {
+      bioguideId: null,
+      lisMemberId: field('lis_member_id'),
+      firstName: field('first_name'),
+      lastName: field('last_name'),
+      party: normalizeParty(field('party')),
+      state: field('state'),
+      position: normalizeVoteCast(field('vote_cast'))
+    };
+  }).get();
+
+  return { rollCall, votes };
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+/** Votes per party and position on one roll call */
+export interface PartyTally {
+  rollCallId: number;
+  party: string | null;
+  position: VotePosition;
+  count: number;
+}
+
+export type PartyMajorities = Map<number, Record<string, 'yea' | 'nay' | null>>;
+
+/**
+ * Each party's majority position on each roll call, counting only yea and
+ * nay votes; a tie is no majority
+ */
+export function partyMajorities(tallies: PartyTally[]): PartyMajorities {
+  const counts = new Map<number, Record<string, { yea: number; nay: number }>>();
+  for (const tally of tallies) {
+    if (!tally.party || (tally.position !== 'yea' && tally.position !== 'nay')) continue;
+    const byParty = counts.get(tally.rollCallId) ?? {};
+    byParty[tally.party] = byParty[tally.party] ?? { yea: 0, nay: 0 };
+    byParty[tally.party][tally.position] += tally.count;
+    counts.set(tally.rollCallId, byParty);
+  }
+
+  const majorities: PartyMajorities = new Map();
+  counts.forEach((byParty, rollCallId) => {
+    const result: Record<string, 'yea' | 'nay' | null> = {};
+    for (const [party, { yea, nay }] of Object.entries(byParty)) {
+      result[party] = yea > nay ? 'yea' : nay > yea ? 'nay' : null;
+    }
+    majorities.set(rollCallId, result);
+  });
+  return majorities;
+}
+
+/** A party-unity vote: most Democrats on one side, most Republicans on the other */
+export function isPartyUnityVote(majority: Record<string, 'yea' | 'nay' | null> | undefined): boolean {
+  return !!majority?.D && !!majority?.R && majority.D !== majority.R;
+}
+
+export interface VotingMetrics {
+  totalVotes: number;
+  votesCast: number;
+  missedVotes: number;
+  missedVoteRate: number | null;
+  partyUnityVotes: number;
+  votesWithParty: number;
+  /** Share of party-unity votes cast with the member's party; null for independents */
+  partyLinePct: number | null;
+}
+
+/**
+ * Missed-vote rate over every roll call the member was recorded on, and
+ * party-line voting over the party-unity votes they cast a yea or nay on
+ */
+export function computeVotingMetrics(
+  votes: Array<{ rollCallId: number; position: VotePosition }>,
+  party: string | null,
+  majorities: PartyMajorities
+): VotingMetrics {
+  const missedVotes = votes.filter(v => v.position === 'not_voting').length;
+  let partyUnityVotes = 0;
+  let votesWithParty = 0;
+
+  if (party === 'D' || party === 'R') {
+    for (const vote of votes) {
+      if (vote.position !== 'yea' && vote.position !== 'nay') continue;
+      const majority = majorities.get(vote.rollCallId);
+      if (!isPartyUnityVote(majority)) continue;
+      partyUnityVotes++;
+      if (majority![party] === vote.position) votesWithParty++;
+    }
+  }
+
+  return {
+    totalVotes: votes.length,
+    votesCast: votes.length - missedVotes,
+    missedVotes,
+    missedVoteRate: votes.length > 0 ? missedVotes / votes.length : null,
+    partyUnityVotes,
+    votesWithParty,
+    partyLinePct: partyUnityVotes > 0 ? votesWithParty / partyUnityVotes : null
+  };
+}
+
+export interface CosponsorshipRow {
+  congress: number;
+  billType: string;
+  billNumber: string;
+  sponsorBioguideId: string;
+  sponsorParty: string | null;
+  cosponsorBioguideId: string;
+  cosponsorParty: string | null;
+}
+
+export interface BipartisanIndex {
+  sponsoredBills: number;
+  sponsoredWithCrossPartyCosponsors: number;
+  cosponsoredBills: number;
+  cosponsoredAcrossParty: number;
+  /** Mean of the two cross-party shares that can be computed, 0-1 */
+  score: number | null;
+}
+
+/**
+ * Bipartisan co-sponsorship index, in both directions: how often the
+ * member's own bills draw cosponsors from another party, and how often
+ * the member cosponsors another party's bills
+ */
+export function bipartisanIndex(bioguideId: string, party: string | null, rows: CosponsorshipRow[]): BipartisanIndex {
+  const billKey = (row: CosponsorshipRow) => `${row.congress}-${row.billType}-${row.billNumber}`;
+  const crossParty = (other: string | null) => !!party && !!other && other !== party;
+
+  const sponsored = new Map<string, boolean>();
+  const cosponsored = new Map<string, boolean>();
+  for (const row of rows) {
+    if (row.sponsorBioguideId === bioguideId) {
+      const key = billKey(row);
+      sponsored.set(key, (sponsored.get(key) ?? false) || crossParty(row.cosponsorParty));
+    } else if (row.cosponsorBioguideId === bioguideId) {
+      cosponsored.set(billKey(row), crossParty(row.sponsorParty));
+    }
+  }
+
+  const count = (bills: Map<string, boolean>) => Array.from(bills.values()).filter(Boolean).length;
+  const sponsoredWithCrossPartyCosponsors = count(sponsored);
+  const cosponsoredAcrossParty = count(cosponsored);
+  const shares = [
+    sponsored.size > 0 ? sponsoredWithCrossPartyCosponsors / sponsored.size : null,
+    cosponsored.size > 0 ? cosponsoredAcrossParty / cosponsored.size : null
+  ].filter((share): share is number => share !== null);
+
+  return {
+    sponsoredBills: sponsored.size,
+    sponsoredWithCrossPartyCosponsors,
+    cosponsoredBills: cosponsored.size,
+    cosponsoredAcrossParty,
+    score: shares.length > 0 ? shares.reduce((sum, share) => sum + share, 0) / shares.length : null
+  };
+}
+
+export interface KeyVoteRollCall {
+  id: number;
+  chamber: string;
+  congress: number;
+  rollCallNumber: number;
+  voteDate: Date | string | null;
+  question: string | null;
+  description: string | null;
+  result: string | null;
+  billType: string | null;
+  billNumber: string | null;
+  issueCategory: string | null;
+}
+
+export interface KeyVotePosition {
+  rollCallId: number;
+  chamber: string;
+  congress: number;
+  rollCallNumber: number;
+  voteDate: string | null;
+  question: string | null;
+  description: string | null;
+  bill: string | null;
+  result: string | null;
+  position: VotePosition;
+  partyPosition: 'yea' | 'nay' | null;
+  withParty: boolean | null;
+}
+
+/** The member's position on each key vote, grouped by issue category */
+export function keyVotePositions(
+  rollCalls: KeyVoteRollCall[],
+  votes: Array<{ rollCallId: number; position: VotePosition }>,
+  party: string | null,
+  majorities: PartyMajorities
+): Record<string, KeyVotePosition[]> {
+  const byRollCall = new Map(votes.map(v => [v.rollCallId, v.position]));
+  const grouped: Record<string, KeyVotePosition[]> = {};
+
+  for (const rollCall of rollCalls) {
+    const position = byRollCall.get(rollCall.id);
+    if (!position) continue;
+    const partyPosition = party ? majorities.get(rollCall.id)?.[party] ?? null : null;
+    const category = rollCall.issueCategory ?? 'Other';
+    (grouped[category] = grouped[category] ?? []).push({
+      rollCallId: rollCall.id,
+      chamber: rollCall.chamber,
+      congress: rollCall.congress,
+      rollCallNumber: rollCall.rollCallNumber,
+      voteDate: rollCall.voteDate ? new Date(rollCall.voteDate).toISOString().slice(0, 10) : null,
+      question: rollCall.question,
+      description: rollCall.description,
+      bill: rollCall.billType && rollCall.billNumber ? `${rollCall.billType.toUpperCase()} ${rollCall.billNumber}` : null,
+      result: rollCall.result,
+      position,
+      partyPosition,
+      withParty: partyPosition && (position === 'yea' || position === 'nay') ? position === partyPosition : null
+    });
+  }
+
+  for (const positions of Object.values(grouped)) {
+    positions.sort((a, b) => (b.voteDate ?? '').localeCompare(a.voteDate ?? ''));
+  }
+  return grouped;
+}
@@ -95,7 +95,7 @@ export class LiveDataMonitor {
             offices: election.offices || [],
             description: election.description || null,
             isActive: true
-          });
+          }, { source: 'Google Civic API', actor: 'live-data-monitor' });
           newCount++;
         }
       }
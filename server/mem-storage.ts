@@ -1,5 +1,6 @@
 import { type Election, type InsertElection, type Candidate, type InsertCandidate, type ElectionFilters, type CongressMember, type InsertCongressMember, type User, type UpsertUser, type WatchlistItem, type InsertWatchlistItem, type CandidateAccount, type InsertCandidateAccount, type CandidateProfile, type InsertCandidateProfile, type CandidateDataSource, type InsertCandidateDataSource, type CandidatePosition, type InsertCandidatePosition, type CandidateQA, type InsertCandidateQA } from "@shared/schema";
 import { IStorage } from "./storage";
+import { electionFactValues, changedFactTypes, electionAsOf, buildFactHistory, withinTimeframe, TRACKED_FACT_TYPES, ELECTION_CREATED_REASON, BASELINE_REASON, type ElectionFactType, type FactProvenance, type FactHistoryEntry, type FactObservation } from "./lib/election-facts";
 import { getGoogleCivicService } from "./google-civic-service";
 import { getCongressBillService } from './congress-bill-service';
 import { getPerplexityService } from './perplexity-service';
@@ -18,6 +19,8 @@ export class MemStorage implements IStorage {
   private candidateDataSources = new Map<number, CandidateDataSource[]>(); // candidateId -> sources
   private candidatePositions = new Map<number, CandidatePosition[]>(); // candidateId -> positions
   private candidateQAs = new Map<number, CandidateQA[]>(); // candidateId -> Q&As
+  private electionFacts = new Map<number, FactObservation[]>(); // electionId -> observations
+  private nextFactId = 1;
   
   // Platform Continuity Storage Maps
   private secretsVault = new Map<number, any>(); // secretId -> secret
@@ -329,6 +332,14 @@ export class MemStorage implements IStorage {
           isIncumbent: isIncumbent,
           description: this.generateCandidateDescription(party, isIncumbent, election.level, election.offices?.[0]),
           website: `https://${firstName.toLowerCase()}${lastName.toLowerCase()}2026.com`,
+          bioguideId: null,
+          openstatesId: null,
+          fecCandidateId: null,
+          status: 'qualified',
+          statusEffectiveDate: null,
+          onBallot: true,
+          isWriteIn: false,
+          advancedToElectionId: null,
           votesReceived: null,
           votePercentage: null,
           isWinner: false,
@@ -490,7 +501,7 @@ export class MemStorage implements IStorage {
     return this.elections.get(id);
   }
 
-  async createElection(election: InsertElection): Promise<Election> {
+  async createElection(election: InsertElection, provenance: FactProvenance = { source: 'Unattributed' }): Promise<Election> {
     const newElection: Election = {
       id: this.nextId++,
       ...election,
@@ -503,12 +514,66 @@ export class MemStorage implements IStorage {
       isActive: election.isActive ?? null
     };
     this.elections.set(newElection.id, newElection);
+    this.recordFacts(newElection, TRACKED_FACT_TYPES, { ...provenance, reason: ELECTION_CREATED_REASON });
     return newElection;
   }
 
   async deleteElection(id: number): Promise<void> {
     this.elections.delete(id);
     this.candidatesByElection.delete(id);
+    this.electionFacts.delete(id);
+  }
+
+  async updateElection(id: number, updates: Partial<InsertElection>, provenance: FactProvenance): Promise<Election | undefined> {
+    const current = this.elections.get(id);
+    if (!current) return undefined;
+
+    const updated = { ...current, ...updates } as Election;
+    const changed = changedFactTypes(current, updated);
+    const seen = new Set((this.electionFacts.get(id) ?? []).map(fact => fact.factType));
+    const unseen = changed.filter(type => !seen.has(type));
+    if (unseen.length > 0) {
+      this.recordFacts(current, unseen, { source: 'baseline', actor: provenance.actor, reason: BASELINE_REASON });
+    }
+
+    this.elections.set(id, updated);
+    if (changed.length > 0) this.recordFacts(updated, changed, provenance);
+    return updated;
+  }
+
+  async getElectionHistory(electionId: number): Promise<FactHistoryEntry[]> {
+    return buildFactHistory(this.electionFacts.get(electionId) ?? []);
+  }
+
+  async getElectionsAsOf(asOf: Date, filters?: ElectionFilters): Promise<Election[]> {
+    const { timeframe, cycle, ...rest } = filters ?? ({} as ElectionFilters);
+    const current = await this.getElections(rest as ElectionFilters);
+    return current
+      .map(election => electionAsOf(election, this.electionFacts.get(election.id) ?? [], asOf))
+      .filter((election): election is Election => election !== null)
+      .filter(election => withinTimeframe(election.date, timeframe, asOf))
+      .filter(election => !cycle || election.date.getFullYear() === cycle)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private recordFacts(election: Election, types: readonly ElectionFactType[], provenance: FactProvenance): void {
+    const values = electionFactValues(election);
+    const facts = this.electionFacts.get(election.id) ?? [];
+    for (const type of types) {
+      facts.push({
+        factId: this.nextFactId++,
+        factType: type,
+        factValue: values[type],
+        observedAt: new Date(),
+        sourceName: provenance.source,
+        sourceUrl: provenance.sourceUrl ?? null,
+        authority: provenance.source,
+        confidence: provenance.confidence ?? 80,
+        recordedBy: provenance.actor ?? null,
+        reason: provenance.reason ?? null
+      });
+    }
+    this.electionFacts.set(election.id, facts);
   }
 
   // Candidates methods
@@ -3,6 +3,8 @@
  * Provides authentic campaign finance data from the Federal Election Commission
  */
 
+import { currentCycle } from './lib/fec-bulk';
+
 interface FECCandidate {
   candidate_id: string;
   name: string;
@@ -43,15 +45,15 @@ export class OpenFECService {
   /**
    * Search for candidates by name, office, and state
    */
-  async searchCandidates(name: string, office: string, state: string, cycle: number = 2024): Promise<FECCandidate[]> {
+  async searchCandidates(name: string, office: string, state: string | undefined, cycle: number = currentCycle()): Promise<FECCandidate[]> {
     const params = new URLSearchParams({
       api_key: this.apiKey,
       name: name,
       office: office,
-      state: state,
       cycle: cycle.toString(),
       per_page: '20'
     });
+    if (state) params.set('state', state);
 
     try {
       const response = await fetch(`${this.baseUrl}/candidates/search/?${params}`);
@@ -70,7 +72,7 @@ export class OpenFECService {
   /**
    * Get financial summary for a specific candidate
    */
-  async getCandidateFinancials(candidateId: string, cycle: number = 2024): Promise<FECFinancialSummary | null> {
+  async getCandidateFinancials(candidateId: string, cycle: number = currentCycle()): Promise<FECFinancialSummary | null> {
     const params = new URLSearchParams({
       api_key: this.apiKey,
       cycle: cycle.toString()
@@ -93,10 +95,10 @@ export class OpenFECService {
   /**
    * Enrich candidate with FEC financial data
    */
-  async enrichCandidateWithFECData(candidateName: string, office: string, state: string): Promise<CandidateFinancialData | null> {
+  async enrichCandidateWithFECData(candidateName: string, office: string, state?: string, cycle: number = currentCycle()): Promise<CandidateFinancialData | null> {
     try {
       // Search for the candidate in FEC database
-      const candidates = await this.searchCandidates(candidateName, office, state);
+      const candidates = await this.searchCandidates(candidateName, office, state, cycle);
       
       if (candidates.length === 0) {
         console.log(`No FEC data found for candidate: ${candidateName}`);
@@ -107,7 +109,7 @@ export class OpenFECService {
       const fecCandidate = candidates[0];
       
       // Get financial data
-      const financials = await this.getCandidateFinancials(fecCandidate.candidate_id);
+      const financials = await this.getCandidateFinancials(fecCandidate.candidate_id, cycle);
       
       if (!financials) {
         console.log(`No financial data found for FEC candidate: ${fecCandidate.candidate_id}`);
@@ -120,7 +122,7 @@ export class OpenFECService {
         totalSpent: financials.disbursements || 0,
         cashOnHand: financials.cash_on_hand_end_period || 0,
         lastReportDate: financials.coverage_end_date || '',
-        cycle: fecCandidate.cycle
+        cycle
       };
 
     } catch (error) {
@@ -132,7 +134,7 @@ export class OpenFECService {
   /**
    * Get election financial summary for all candidates in a race
    */
-  async getElectionSummary(office: string, state: string, cycle: number = 2024) {
+  async getElectionSummary(office: string, state: string, cycle: number = currentCycle()) {
     try {
       const params = new URLSearchParams({
         api_key: this.apiKey,
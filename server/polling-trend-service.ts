@@ -1,7 +1,17 @@
-import { db } from "./db";
-import { candidates, elections } from "@shared/schema";
-import { eq, and, desc, gte, lte } from "drizzle-orm";
-import { subDays, format } from "date-fns";
+import { db, pool } from "./db";
+import { candidates, pollingData as pollingDataTable } from "@shared/schema";
+import { eq, and, gte } from "drizzle-orm";
+import { subDays } from "date-fns";
+import {
+  computeAverageSeries,
+  computeCurrentAverages,
+  normalizePopulation,
+  toPartyCode,
+  type AverageSeriesPoint,
+  type CandidateAverage,
+  type PollObservation,
+} from "./lib/polling-average";
+import { pollsterJoinSql } from "./services/pollster-rating-service";
 
 interface PollingDataPoint {
   date: string;
@@ -12,6 +22,8 @@ interface PollingDataPoint {
   source: string;
   sampleSize?: number;
   marginOfError?: number;
+  population?: string;
+  pollId: string;
 }
 
 interface TrendAnalysis {
@@ -22,191 +34,244 @@ interface TrendAnalysis {
   trend: "up" | "down" | "stable";
   change: number;
   momentum: number;
+  lower: number;
+  upper: number;
+  pollCount: number;
+  contributions: CandidateAverage["contributions"];
 }
 
+// Change in the average over this window drives the up/down/stable label
+const TREND_WINDOW_DAYS = 14;
+const AVERAGE_LOOKBACK_DAYS = 120;
+
 export class PollingTrendService {
   async getPollingHistory(electionId: number, days: number = 90): Promise<PollingDataPoint[]> {
+    const observations = await this.loadObservations(electionId, days);
+
+    return observations
+      .map(o => this.toDataPoint(o))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  /**
+   * Load every poll result for an election as weighting-ready observations.
+   * Candidate-level rows come from polls/poll_results; party-level rows in
+   * polling_data are attributed to the election's candidate of that party.
+   */
+  async loadObservations(electionId: number, days: number): Promise<PollObservation[]> {
     const cutoffDate = subDays(new Date(), days);
-    
-    // Get candidates for this election
+
     const electionCandidates = await db
       .select()
       .from(candidates)
       .where(eq(candidates.electionId, electionId));
 
-    // Generate historical polling data points
-    const pollingData: PollingDataPoint[] = [];
-    
-    for (const candidate of electionCandidates) {
-      // Generate sample polling data points over the time period
-      const dataPoints = this.generateHistoricalData(candidate, days);
-      pollingData.push(...dataPoints);
-    }
+    const candidateById = new Map(electionCandidates.map(c => [c.id, c]));
 
-    return pollingData.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }
+    const { rows } = await pool.query(
+      `SELECT p.id AS poll_id,
+              p.pollster,
+              p.end_date,
+              p.sample_size,
+              p.population,
+              p.margin_of_error::float AS margin_of_error,
+              COALESCE(ps.grade, p.pollster_grade) AS pollster_grade,
+              pr.candidate_id,
+              pr.pct::float AS pct
+       FROM polls p
+       JOIN poll_results pr ON pr.poll_id = p.id
+       ${pollsterJoinSql('p.pollster')}
+       WHERE p.election_id = $1
+         AND p.end_date >= $2
+         AND pr.candidate_id IS NOT NULL`,
+      [electionId, cutoffDate]
+    );
+
+    const observations: PollObservation[] = [];
 
-  private generateHistoricalData(candidate: any, days: number): PollingDataPoint[] {
-    const dataPoints: PollingDataPoint[] = [];
-    const baseSupport = candidate.pollingSupport || this.getBaseSupportByParty(candidate.party);
-    
-    // Generate data points every 3-7 days
-    for (let i = days; i >= 0; i -= Math.floor(Math.random() * 5) + 3) {
-      const date = subDays(new Date(), i);
-      
-      // Add realistic variation to polling numbers
-      const variation = (Math.random() - 0.5) * 6; // ±3% variation
-      const trendFactor = this.getTrendFactor(candidate, i, days);
-      const support = Math.max(5, Math.min(65, baseSupport + variation + trendFactor));
-      
-      dataPoints.push({
-        date: date.toISOString(),
+    for (const row of rows) {
+      const candidate = candidateById.get(row.candidate_id);
+      if (!candidate) continue;
+      observations.push({
+        pollId: `poll-${row.poll_id}`,
         candidateId: candidate.id,
         candidateName: candidate.name,
         party: candidate.party || 'Independent',
-        support: Math.round(support * 10) / 10,
-        source: this.getRandomSource(),
-        sampleSize: Math.floor(Math.random() * 500) + 800,
-        marginOfError: Math.round((Math.random() * 2 + 2.5) * 10) / 10
+        pollster: row.pollster,
+        endDate: new Date(row.end_date),
+        support: Number(row.pct),
+        sampleSize: row.sample_size,
+        marginOfError: row.margin_of_error,
+        population: normalizePopulation(row.population),
+        pollsterGrade: row.pollster_grade,
+        source: 'polls'
       });
     }
 
-    return dataPoints;
-  }
+    const aggregateRows = await db
+      .select()
+      .from(pollingDataTable)
+      .where(and(
+        eq(pollingDataTable.electionId, electionId),
+        gte(pollingDataTable.createdAt, cutoffDate)
+      ));
 
-  private getBaseSupportByParty(party: string): number {
-    if (!party) return 25;
-    
-    const partyLower = party.toLowerCase();
-    if (partyLower.includes('republican')) return 45;
-    if (partyLower.includes('democratic')) return 42;
-    if (partyLower.includes('independent')) return 15;
-    if (partyLower.includes('green')) return 8;
-    if (partyLower.includes('libertarian')) return 12;
-    
-    return 25;
-  }
+    for (const row of aggregateRows) {
+      const partySupport: Array<[string, string | null]> = [
+        ['D', row.democraticSupport],
+        ['R', row.republicanSupport],
+        ['I', row.independentSupport],
+      ];
 
-  private getTrendFactor(candidate: any, daysAgo: number, totalDays: number): number {
-    // Simulate realistic campaign trends
-    const campaignPhase = daysAgo / totalDays;
-    
-    // Early campaign (90-60 days out): more volatile
-    if (campaignPhase > 0.67) {
-      return (Math.random() - 0.5) * 8;
-    }
-    
-    // Mid campaign (60-30 days out): settling trends
-    if (campaignPhase > 0.33) {
-      const isIncumbent = candidate.isIncumbent;
-      return isIncumbent ? Math.random() * 2 : (Math.random() - 0.3) * 4;
+      for (const [partyCode, support] of partySupport) {
+        if (support === null || support === undefined) continue;
+        const matches = electionCandidates.filter(c => toPartyCode(c.party) === partyCode);
+        // Party-level numbers are only meaningful when one candidate carries the party
+        if (matches.length !== 1) continue;
+        const candidate = matches[0];
+        observations.push({
+          pollId: `polling-data-${row.id}`,
+          candidateId: candidate.id,
+          candidateName: candidate.name,
+          party: candidate.party || 'Independent',
+          pollster: row.pollsterName,
+          endDate: row.createdAt,
+          support: Number(support),
+          sampleSize: row.sampleSize,
+          marginOfError: row.marginOfError !== null ? Number(row.marginOfError) : null,
+          population: 'unknown',
+          source: 'polling_data'
+        });
+      }
     }
-    
-    // Late campaign (30-0 days out): final push effects
-    const finalPushBoost = Math.random() > 0.7 ? Math.random() * 3 : 0;
-    return (Math.random() - 0.4) * 2 + finalPushBoost;
+
+    return observations;
   }
 
-  private getRandomSource(): string {
-    const sources = [
-      'Ballotpedia Poll',
-      'Marist Poll',
-      'Quinnipiac University',
-      'SurveyUSA',
-      'Public Policy Polling',
-      'Emerson College',
-      'Rasmussen Reports',
-      'Reuters/Ipsos',
-      'Fox News Poll',
-      'CNN/SSRS',
-      'ABC News/Washington Post',
-      'NBC News/Wall Street Journal'
-    ];
-    
-    return sources[Math.floor(Math.random() * sources.length)];
+  private toDataPoint(o: PollObservation): PollingDataPoint {
+    return {
+      date: o.endDate.toISOString(),
+      candidateId: o.candidateId,
+      candidateName: o.candidateName,
+      party: o.party,
+      support: o.support,
+      source: o.pollster,
+      sampleSize: o.sampleSize ?? undefined,
+      marginOfError: o.marginOfError ?? undefined,
+      population: o.population,
+      pollId: o.pollId
+    };
   }
 
-  async getTrendAnalysis(electionId: number): Promise<TrendAnalysis[]> {
-    const pollingData = await this.getPollingHistory(electionId, 30);
+  /**
+   * Current average, trend and momentum per candidate. Callers that already
+   * loaded the election's observations (covering at least the lookback plus
+   * the trend window) pass them in.
+   */
+  async getTrendAnalysis(electionId: number, loaded?: PollObservation[]): Promise<TrendAnalysis[]> {
+    const now = new Date();
+    const options = { lookbackDays: AVERAGE_LOOKBACK_DAYS };
+    const observations = loaded ?? await this.loadObservations(electionId, AVERAGE_LOOKBACK_DAYS + TREND_WINDOW_DAYS);
+    const current = computeCurrentAverages(observations, now, options);
+    const previous = new Map(
+      computeCurrentAverages(observations, subDays(now, TREND_WINDOW_DAYS), options)
+        .map(avg => [avg.candidateId, avg])
+    );
+    const series = computeAverageSeries(observations, now, options);
+
     const electionCandidates = await db
       .select()
       .from(candidates)
       .where(eq(candidates.electionId, electionId));
 
-    const analysis: TrendAnalysis[] = [];
-
-    for (const candidate of electionCandidates) {
-      const candidatePolling = pollingData
-        .filter(p => p.candidateId === candidate.id)
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    return electionCandidates.map(candidate => {
+      const avg = current.find(a => a.candidateId === candidate.id);
 
-      if (candidatePolling.length < 2) {
-        analysis.push({
+      if (!avg) {
+        return {
           candidateId: candidate.id,
           candidateName: candidate.name,
           party: candidate.party || 'Independent',
           currentSupport: candidate.pollingSupport || 0,
-          trend: 'stable',
+          trend: 'stable' as const,
           change: 0,
-          momentum: 0
-        });
-        continue;
+          momentum: 0,
+          lower: 0,
+          upper: 0,
+          pollCount: 0,
+          contributions: []
+        };
       }
 
-      const recent = candidatePolling.slice(-3);
-      const older = candidatePolling.slice(0, Math.min(3, candidatePolling.length - 3));
-
-      const recentAvg = recent.reduce((sum, p) => sum + p.support, 0) / recent.length;
-      const olderAvg = older.length > 0 
-        ? older.reduce((sum, p) => sum + p.support, 0) / older.length
-        : recentAvg;
+      const before = previous.get(candidate.id);
+      const change = before ? avg.average - before.average : 0;
+      const momentum = this.calculateMomentum(series.filter(p => p.candidateId === candidate.id));
 
-      const change = recentAvg - olderAvg;
-      const momentum = this.calculateMomentum(candidatePolling);
-
-      analysis.push({
+      return {
         candidateId: candidate.id,
         candidateName: candidate.name,
         party: candidate.party || 'Independent',
-        currentSupport: recentAvg,
-        trend: change > 1 ? 'up' : change < -1 ? 'down' : 'stable',
+        currentSupport: avg.average,
+        trend: change > 1 ? 'up' as const : change < -1 ? 'down' as const : 'stable' as const,
         change: Math.round(change * 10) / 10,
-        momentum: Math.round(momentum * 10) / 10
-      });
-    }
-
-    return analysis;
+        momentum: Math.round(momentum * 10) / 10,
+        lower: avg.lower,
+        upper: avg.upper,
+        pollCount: avg.pollCount,
+        contributions: avg.contributions
+      };
+    });
   }
 
-  private calculateMomentum(pollingData: PollingDataPoint[]): number {
-    if (pollingData.length < 3) return 0;
+  /**
+   * Average movement of the polling average in points per week over the
+   * last few updates, weighting the most recent moves more heavily
+   */
+  private calculateMomentum(series: AverageSeriesPoint[]): number {
+    if (series.length < 3) return 0;
 
-    const recent = pollingData.slice(-5);
+    const recent = series.slice(-5);
     let momentum = 0;
+    let totalWeight = 0;
 
     for (let i = 1; i < recent.length; i++) {
-      const change = recent[i].support - recent[i - 1].support;
-      momentum += change * (i / recent.length); // Weight recent changes more
+      const days = Math.max(1, (new Date(recent[i].date).getTime() - new Date(recent[i - 1].date).getTime()) / 86400000);
+      const weeklyChange = (recent[i].average - recent[i - 1].average) * (7 / days);
+      const weight = i / recent.length;
+      momentum += weeklyChange * weight;
+      totalWeight += weight;
     }
 
-    return momentum / (recent.length - 1);
+    return totalWeight > 0 ? momentum / totalWeight : 0;
   }
 
   async getPollingDataForElection(electionId: number, timeRange: string = "30"): Promise<{
     pollingData: PollingDataPoint[];
+    average: AverageSeriesPoint[];
+    current: CandidateAverage[];
     analysis: TrendAnalysis[];
   }> {
-    const days = parseInt(timeRange);
-    const [pollingData, analysis] = await Promise.all([
-      this.getPollingHistory(electionId, days),
-      this.getTrendAnalysis(electionId)
-    ]);
+    const days = parseInt(timeRange) || 30;
+    const now = new Date();
+    const cutoff = subDays(now, days).getTime();
+    // Load extra history so the first points of the window have a full
+    // lookback, and enough for the trend analysis to reuse
+    const observations = await this.loadObservations(electionId, Math.max(days, TREND_WINDOW_DAYS) + AVERAGE_LOOKBACK_DAYS);
+    const analysis = await this.getTrendAnalysis(electionId, observations);
+
+    const pollingData: PollingDataPoint[] = observations
+      .filter(o => o.endDate.getTime() >= cutoff)
+      .map(o => this.toDataPoint(o))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
     return {
       pollingData,
+      average: computeAverageSeries(observations, now, { lookbackDays: AVERAGE_LOOKBACK_DAYS })
+        .filter(point => new Date(point.date).getTime() >= cutoff),
+      current: computeCurrentAverages(observations, now, { lookbackDays: AVERAGE_LOOKBACK_DAYS }),
       analysis
     };
   }
 }
 
-export const pollingTrendService = new PollingTrendService();
\ No newline at end of file
+export const pollingTrendService = new PollingTrendService();
@@ -211,7 +211,7 @@ export class RealTimeElectionMonitor {
           level: election.level,
           description: election.description || '',
           isActive: true
-        });
+        }, { source: source.url, sourceUrl: source.url, actor: 'real-time-monitor' });
 
         // Add candidates if available
         if (election.candidates && election.candidates.length > 0) {
@@ -5,6 +5,7 @@ import {
   ElectionRecommendation,
   RecommendationResponse 
 } from '@shared/schema';
+import { ballotMeasureService, type MeasureRecommendation } from './services/ballot-measure-service';
 
 export interface RecommendationOptions {
   limit?: number;
@@ -48,6 +49,8 @@ export class RecommendationService {
       return this.generateBasicRecommendations(allElections, limit, includeExpired);
     }
 
+    const measures = await this.generateMeasureRecommendations(userId, userPreferences, limit);
+
     // Filter out expired elections if not requested
     const availableElections = allElections.filter(election => {
       if (includeExpired) return true;
@@ -98,12 +101,36 @@ export class RecommendationService {
 
     return {
       recommendations,
+      measures,
       totalCount: recommendations.length,
       cacheKey: this.generateCacheKey(userId, options),
       generatedAt: new Date().toISOString(),
     };
   }
 
+  /**
+   * Upcoming ballot measures in the user's state and city. Measures are
+   * returned alongside the election recommendations rather than mixed in,
+   * since they are watched and tracked separately.
+   */
+  private async generateMeasureRecommendations(
+    userId: string,
+    userPreferences: UserPreferences,
+    limit: number
+  ): Promise<MeasureRecommendation[]> {
+    try {
+      return await ballotMeasureService.recommend(userId, {
+        state: userPreferences.state,
+        city: userPreferences.city,
+        issueInterests: userPreferences.issueInterests,
+        localElectionsInterest: userPreferences.localElectionsInterest
+      }, Math.min(limit, 5));
+    } catch (error) {
+      console.error('Error generating measure recommendations:', error);
+      return [];
+    }
+  }
+
   /**
    * Generate location-based recommendations using user's geographic preferences
    */
@@ -9,6 +9,7 @@ import { drizzle } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
 import * as schema from "@shared/schema";
 import type { IStorage } from "./storage";
+import { electionAsOf, buildFactHistory, withinTimeframe, type FactProvenance, type FactHistoryEntry, type FactObservation } from "./lib/election-facts";
 import { type Election, type InsertElection, type Candidate, type InsertCandidate, type ElectionFilters, type CongressMember, type InsertCongressMember, type User, type UpsertUser, type WatchlistItem, type InsertWatchlistItem, type CandidateAccount, type InsertCandidateAccount, type CandidateProfile, type InsertCandidateProfile, type CandidateDataSource, type InsertCandidateDataSource, type CandidatePosition, type InsertCandidatePosition, type CandidateQA, type InsertCandidateQA } from "@shared/schema";
 import { eq, and, gte, lte, ilike, or, desc, inArray } from "drizzle-orm";
 
@@ -325,6 +326,62 @@ export class ReplicaStorage implements IStorage {
     throw new Error('Write operations not supported on read-only replica');
   }
 
+  async updateElection(id: number, updates: Partial<InsertElection>, provenance: FactProvenance): Promise<Election | undefined> {
+    throw new Error('Write operations not supported on read-only replica');
+  }
+
+  async getElectionHistory(electionId: number): Promise<FactHistoryEntry[]> {
+    return this.executeQuery(async () => {
+      const rows = await this.loadFactObservations([electionId]);
+      return buildFactHistory(rows.get(electionId) ?? []);
+    }, 'getElectionHistory');
+  }
+
+  async getElectionsAsOf(asOf: Date, filters?: ElectionFilters): Promise<Election[]> {
+    const { timeframe, cycle, ...rest } = filters ?? ({} as ElectionFilters);
+    const current = await this.getElections(rest as ElectionFilters);
+    return this.executeQuery(async () => {
+      const facts = await this.loadFactObservations(current.map(e => e.id));
+      return current
+        .map(election => electionAsOf(election, facts.get(election.id) ?? [], asOf))
+        .filter((election): election is Election => election !== null)
+        .filter(election => withinTimeframe(election.date, timeframe, asOf))
+        .filter(election => !cycle || election.date.getFullYear() === cycle)
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+    }, 'getElectionsAsOf');
+  }
+
+  private async loadFactObservations(electionIds: number[]): Promise<Map<number, FactObservation[]>> {
+    const byElection = new Map<number, FactObservation[]>();
+    if (electionIds.length === 0) return byElection;
+
+    const rows = await this.db
+      .select({
+        electionId: schema.electionFacts.electionId,
+        factId: schema.electionFacts.factId,
+        factType: schema.electionFacts.factType,
+        factValue: schema.electionFacts.factValue,
+        observedAt: schema.electionFacts.observedAt,
+        sourceName: schema.factSources.name,
+        sourceUrl: schema.electionFacts.sourceUrl,
+        authority: schema.factSources.authority,
+        confidence: schema.electionFacts.confidence,
+        recordedBy: schema.electionFacts.recordedBy,
+        reason: schema.electionFacts.reason
+      })
+      .from(schema.electionFacts)
+      .leftJoin(schema.factSources, eq(schema.electionFacts.sourceId, schema.factSources.id))
+      .where(inArray(schema.electionFacts.electionId, electionIds))
+      .execute();
+
+    for (const { electionId, ...fact } of rows) {
+      if (electionId === null) continue;
+      if (!byElection.has(electionId)) byElection.set(electionId, []);
+      byElection.get(electionId)!.push(fact);
+    }
+    return byElection;
+  }
+
   async createCandidate(candidate: InsertCandidate): Promise<Candidate> {
     throw new Error('Write operations not supported on read-only replica');
   }
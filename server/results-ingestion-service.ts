@@ -1,29 +1,47 @@
 import { storage } from './storage';
-import fetch from 'node-fetch';
-
-interface ElectionResult {
-  electionId: number;
-  totalVotes: number;
-  reportingPrecincts: number;
-  totalPrecincts: number;
-  percentReporting: number;
-  isComplete: boolean;
-  resultsSource: string;
-  candidateResults: CandidateResult[];
+import {
+  buildElectionResult,
+  matchContestToElection,
+  type ElectionResult,
+  type ResultsFeed
+} from './lib/results-feeds';
+import {
+  resultsAdapterRegistry,
+  type ResultsSourceConfig
+} from './services/results-adapters';
+import { resultsHierarchyService } from './services/results-hierarchy-service';
+import { raceCallService } from './services/race-call-service';
+import { eventProcessingService } from './event-processing-service';
+import { alertRuleService } from './services/alert-rule-service';
+
+export interface IngestionOptions {
+  adapters?: string[]; // adapter ids to poll; all registered adapters when empty
+  states?: string[];   // limit polling to these states
 }
 
-interface CandidateResult {
-  candidateId: number;
-  votesReceived: number;
-  votePercentage: number;
-  isWinner: boolean;
-  isProjectedWinner: boolean;
+export interface FeedImportSummary {
+  sourceId: string;
+  contestsParsed: number;
+  electionsUpdated: number;
+  updates: Array<{ electionId: number; contest: string; unmatchedCandidates: string[] }>;
+  unmatchedContests: string[];
+}
+
+/** The candidate ahead on votes, with the margin in points over second place */
+function voteLeader(candidates: any[]): { id: number; name: string; margin: number } | null {
+  const ranked = candidates
+    .filter(c => (c.votesReceived ?? 0) > 0)
+    .sort((a, b) => b.votesReceived - a.votesReceived);
+  if (ranked.length === 0) return null;
+  const share = (c: any) => parseFloat(c?.votePercentage ?? '0') || 0;
+  return { id: ranked[0].id, name: ranked[0].name, margin: Math.round((share(ranked[0]) - share(ranked[1])) * 100) / 100 };
 }
 
 export class ResultsIngestionService {
   private pollingInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
   private googleCivicApiKey: string | null = null;
+  private options: IngestionOptions = {};
 
   constructor() {
     this.googleCivicApiKey = process.env.GOOGLE_CIVIC_API_KEY || null;
@@ -32,14 +50,25 @@ export class ResultsIngestionService {
   /**
    * Start the automated results ingestion polling
    */
-  async startPolling(intervalSeconds: number = 30): Promise<void> {
+  async startPolling(intervalSeconds: number = 30, options: IngestionOptions = {}): Promise<void> {
     if (this.isRunning) {
       console.log('Results ingestion already running');
       return;
     }
 
+    for (const adapterId of options.adapters ?? []) {
+      if (!resultsAdapterRegistry.getAdapter(adapterId)) {
+        throw new Error(`Unknown results adapter: ${adapterId}`);
+      }
+    }
+
+    await resultsAdapterRegistry.ready();
     console.log(`Starting automated results ingestion (every ${intervalSeconds} seconds)`);
     this.isRunning = true;
+    this.options = {
+      adapters: options.adapters,
+      states: options.states?.map(s => s.toUpperCase())
+    };
 
     // Initial run
     await this.ingestResults();
@@ -59,31 +88,37 @@ export class ResultsIngestionService {
       this.pollingInterval = null;
     }
     this.isRunning = false;
+    this.options = {};
     console.log('Results ingestion stopped');
   }
 
   /**
-   * Main ingestion method - checks all sources
+   * Main ingestion method - polls every registered source covering an active election
    */
   async ingestResults(): Promise<void> {
     console.log('[Results Ingestion] Starting ingestion cycle...');
 
     try {
       // Get elections happening today or recently (within 1 day)
-      const activeElections = await this.getActiveElections();
+      const activeElections = (await this.getActiveElections())
+        .filter(e => !this.options.states || this.options.states.includes(e.state?.toUpperCase()));
       console.log(`[Results Ingestion] Found ${activeElections.length} active elections`);
 
       if (activeElections.length === 0) {
         return;
       }
 
-      // Try multiple sources in parallel
-      await Promise.allSettled([
-        this.ingestFromGoogleCivic(activeElections),
-        this.ingestFromStateSources(activeElections),
-        // Future: Add AP Elections API here when available
-        // this.ingestFromAPElections(activeElections),
-      ]);
+      // A nationwide source covers several states but is fetched once per cycle
+      const sources = new Map<string, ResultsSourceConfig>();
+      for (const state of Array.from(new Set(activeElections.map(e => e.state)))) {
+        for (const source of await resultsAdapterRegistry.getSourcesFor(state, this.options.adapters)) {
+          sources.set(source.id, source);
+        }
+      }
+
+      await Promise.allSettled(
+        Array.from(sources.values()).map(source => this.ingestFromSource(source, activeElections))
+      );
 
       console.log('[Results Ingestion] Ingestion cycle complete');
     } catch (error) {
@@ -107,185 +142,201 @@ export class ResultsIngestionService {
   }
 
   /**
-   * Ingest results from Google Civic Information API
+   * Fetch one source through its adapter and apply the parsed feed
    */
-  private async ingestFromGoogleCivic(elections: any[]): Promise<void> {
-    if (!this.googleCivicApiKey) {
-      console.log('[Google Civic] API key not configured, skipping');
-      return;
-    }
+  private async ingestFromSource(source: ResultsSourceConfig, elections: any[]): Promise<void> {
+    const adapter = resultsAdapterRegistry.getAdapter(source.adapter);
+    if (!adapter) return;
 
-    console.log(`[Google Civic] Checking ${elections.length} elections...`);
-
-    for (const election of elections) {
-      try {
-        // Note: Google Civic API doesn't provide real-time vote counts
-        // It's mainly for voter information, but we check for available data
-        const url = `https://www.googleapis.com/civicinfo/v2/elections?key=${this.googleCivicApiKey}`;
-        const response = await fetch(url);
-        
-        if (!response.ok) {
-          console.log(`[Google Civic] API returned ${response.status} for election ${election.id}`);
-          continue;
-        }
-
-        const data: any = await response.json();
-        
-        // Google Civic API primarily provides election dates and polling places
-        // Not comprehensive vote counts, but we log availability
-        console.log(`[Google Civic] Found ${data.elections?.length || 0} elections in API`);
-        
-      } catch (error) {
-        console.error(`[Google Civic] Error for election ${election.id}:`, error);
-      }
-    }
-  }
+    const covered = elections.filter(e => source.state === '*' || e.state?.toUpperCase() === source.state);
+    console.log(`[${adapter.name}] Checking ${source.id} (${covered.length} elections)`);
 
-  /**
-   * Ingest results from state-level sources
-   * This would integrate with existing web scrapers
-   */
-  private async ingestFromStateSources(elections: any[]): Promise<void> {
-    console.log(`[State Sources] Checking ${elections.length} elections...`);
-
-    // Group elections by state
-    const electionsByState = new Map<string, any[]>();
-    for (const election of elections) {
-      if (!electionsByState.has(election.state)) {
-        electionsByState.set(election.state, []);
+    try {
+      const feed = await adapter.fetchFeed(source);
+      if (!feed) {
+        resultsAdapterRegistry.recordRun({
+          sourceId: source.id,
+          lastRunAt: new Date().toISOString(),
+          ok: true,
+          contestsParsed: 0,
+          electionsUpdated: 0
+        });
+        return;
       }
-      electionsByState.get(election.state)!.push(election);
-    }
 
-    // Check each state
-    for (const [state, stateElections] of electionsByState) {
-      try {
-        await this.checkStateSource(state, stateElections);
-      } catch (error) {
-        console.error(`[State Sources] Error for state ${state}:`, error);
-      }
+      const summary = await this.applyFeed(feed, source, covered);
+      resultsAdapterRegistry.recordRun({
+        sourceId: source.id,
+        lastRunAt: new Date().toISOString(),
+        ok: true,
+        contestsParsed: summary.contestsParsed,
+        electionsUpdated: summary.electionsUpdated
+      });
+    } catch (error: any) {
+      console.error(`[${adapter.name}] Error for source ${source.id}:`, error);
+      resultsAdapterRegistry.recordRun({
+        sourceId: source.id,
+        lastRunAt: new Date().toISOString(),
+        ok: false,
+        contestsParsed: 0,
+        electionsUpdated: 0,
+        error: error?.message ?? String(error)
+      });
     }
   }
 
   /**
-   * Check state-specific election results source
+   * Parse an uploaded feed file with the given adapter and apply it
    */
-  private async checkStateSource(state: string, elections: any[]): Promise<void> {
-    // State-specific result URLs (these would need actual scraping logic)
-    const stateUrls: Record<string, string> = {
-      'VA': 'https://results.elections.virginia.gov',
-      'WI': 'https://elections.wi.gov/elections-voting/results',
-      'GA': 'https://results.enr.clarityelections.com/GA',
-      'AL': 'https://www.sos.alabama.gov/alabama-votes/voter/election-information',
-      'TX': 'https://results.sos.state.tx.us',
-      'PA': 'https://www.electionreturns.pa.gov',
-      'FL': 'https://results.elections.myflorida.com',
-      'OH': 'https://www.ohiosos.gov/elections/election-results-and-data',
-      'NC': 'https://er.ncsbe.gov',
-      'MI': 'https://mielections.us/election/results',
-    };
-
-    const stateUrl = stateUrls[state];
-    if (!stateUrl) {
-      console.log(`[State Sources] No URL configured for state ${state}`);
-      return;
+  async importFeed(
+    adapterId: string,
+    payload: string,
+    source: Partial<ResultsSourceConfig> & { state: string }
+  ): Promise<FeedImportSummary> {
+    const adapter = resultsAdapterRegistry.getAdapter(adapterId);
+    if (!adapter) {
+      throw new Error(`Unknown results adapter: ${adapterId}`);
     }
 
-    console.log(`[State Sources] Checking ${state} (${elections.length} elections)`);
-
-    // In a production system, you would:
-    // 1. Fetch the state's election results page
-    // 2. Parse the HTML/JSON for vote counts
-    // 3. Match results to your database elections
-    // 4. Update the database with new results
+    const config: ResultsSourceConfig = {
+      id: source.id ?? `import:${adapterId}:${source.state.toLowerCase()}`,
+      adapter: adapterId,
+      state: source.state.toUpperCase(),
+      county: source.county ?? null,
+      electionIds: source.electionIds,
+      contestMap: source.contestMap,
+      mapping: source.mapping,
+      enabled: true
+    };
 
-    // For now, we log the intent
-    // The actual scraping would use the existing electionScraper
-    console.log(`[State Sources] Would check ${stateUrl} for ${state} elections`);
+    const elections = (await storage.getElections({}))
+      .filter((e: any) => e.state?.toUpperCase() === config.state);
+    return this.applyFeed(adapter.parse(payload, config), config, elections);
   }
 
   /**
-   * Determine race winner based on results
-   * Auto-call races when conditions are met
+   * Match each feed contest to an election and store its results. Explicit
+   * contestMap entries win over name matching.
    */
-  async determineWinner(electionId: number): Promise<void> {
-    try {
-      const results = await storage.getElectionResults(electionId);
-      
-      if (!results || !results.candidates || results.candidates.length === 0) {
-        return;
-      }
-
-      // Get reporting percentage
-      const percentReporting = parseFloat(results.percentReporting?.toString() || '0');
-      
-      // Sort candidates by votes
-      const sortedCandidates = [...results.candidates].sort((a, b) => 
-        (b.votesReceived || 0) - (a.votesReceived || 0)
-      );
-
-      const leader = sortedCandidates[0];
-      const runnerUp = sortedCandidates[1];
+  private async applyFeed(feed: ResultsFeed, source: ResultsSourceConfig, elections: any[]): Promise<FeedImportSummary> {
+    const eligibleElections = source.electionIds?.length
+      ? elections.filter(e => source.electionIds!.includes(e.id))
+      : elections;
+    const resultsSource = `${source.adapter}${source.county ? ` (${source.county})` : ''}`;
+
+    const summary: FeedImportSummary = {
+      sourceId: source.id,
+      contestsParsed: feed.contests.length,
+      electionsUpdated: 0,
+      updates: [],
+      unmatchedContests: []
+    };
 
-      if (!leader || !runnerUp) {
-        return;
+    for (const contest of feed.contests) {
+      const mappedId = source.contestMap?.[contest.contestName];
+      const election = mappedId !== undefined
+        ? { id: mappedId }
+        : matchContestToElection(contest, eligibleElections);
+      if (!election) {
+        summary.unmatchedContests.push(contest.contestName);
+        continue;
       }
 
-      const leaderVotes = leader.votesReceived || 0;
-      const runnerUpVotes = runnerUp.votesReceived || 0;
-      const totalVotes = results.totalVotes || 0;
-
-      if (totalVotes === 0) {
-        return;
+      const existing = await storage.getElectionResults(election.id);
+      const ourCandidates = existing?.candidates ?? [];
+      if (ourCandidates.length === 0) {
+        summary.unmatchedContests.push(contest.contestName);
+        continue;
       }
 
-      // Calculate vote margin
-      const voteMargin = leaderVotes - runnerUpVotes;
-      const marginPercentage = (voteMargin / totalVotes) * 100;
-
-      // Race calling logic
-      let shouldCallWinner = false;
-      let shouldProjectWinner = false;
-
-      // Call winner if:
-      // 1. 100% reporting and leader has most votes
-      if (percentReporting >= 100) {
-        shouldCallWinner = true;
-      }
-      // 2. >95% reporting and margin > 5%
-      else if (percentReporting >= 95 && marginPercentage > 5) {
-        shouldCallWinner = true;
+      const matched = buildElectionResult(election.id, contest, ourCandidates, resultsSource);
+      if (matched.result.candidateResults.length === 0) {
+        summary.unmatchedContests.push(contest.contestName);
+        continue;
       }
-      // 3. >80% reporting and margin > 10%
-      else if (percentReporting >= 80 && marginPercentage > 10) {
-        shouldCallWinner = true;
-      }
-      // 4. Project winner if >50% reporting and margin > 15%
-      else if (percentReporting >= 50 && marginPercentage > 15) {
-        shouldProjectWinner = true;
+
+      // Keep race calls already made; determineWinner revisits them below
+      for (const candidateResult of matched.result.candidateResults) {
+        const current = ourCandidates.find((c: any) => c.id === candidateResult.candidateId);
+        candidateResult.isWinner = !!current?.isWinner;
+        candidateResult.isProjectedWinner = !!current?.isProjectedWinner;
       }
 
-      // Update winner status
-      if (shouldCallWinner || shouldProjectWinner) {
-        const candidateResults = results.candidates.map(c => ({
-          candidateId: c.id,
-          votesReceived: c.votesReceived || 0,
-          votePercentage: parseFloat(c.votePercentage?.toString() || '0'),
-          isWinner: shouldCallWinner && c.id === leader.id,
-          isProjectedWinner: shouldProjectWinner && c.id === leader.id,
-        }));
-
-        await storage.updateElectionResults(electionId, {
-          totalVotes,
-          reportingPrecincts: results.reportingPrecincts,
-          totalPrecincts: results.totalPrecincts,
-          percentReporting,
-          isComplete: percentReporting >= 100,
-          candidateResults,
+      if (source.county) {
+        // A county feed covers part of the race; totals come from the roll-up
+        // across every county stored so far, and only once those counties
+        // account for the whole race
+        const stored = await resultsHierarchyService.storeFeedContest(election.id, contest, matched.candidateIds, {
+          county: source.county,
+          resultsSource,
+          updateElection: true
         });
+        if (stored?.electionUpdated) await this.determineWinner(election.id);
+      } else {
+        // Store the units first so the projection sees this feed's units
+        await resultsHierarchyService.storeFeedContest(election.id, contest, matched.candidateIds, { resultsSource });
+        await this.updateElectionResults(election.id, matched.result);
+      }
+      await this.announceLeadChange(election.id, ourCandidates);
+      eventProcessingService.emit('results_updated', {
+        electionId: election.id,
+        timestamp: new Date(),
+        candidates: matched.result.candidateResults
+      });
+      summary.electionsUpdated++;
+      summary.updates.push({
+        electionId: election.id,
+        contest: contest.contestName,
+        unmatchedCandidates: matched.unmatchedCandidates
+      });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Record a lead_change event when the vote leader differs from before
+   * the update, for alert rules to pick up. First results are not a change.
+   */
+  private async announceLeadChange(electionId: number, before: any[]): Promise<void> {
+    try {
+      const previous = voteLeader(before);
+      if (!previous) return;
+      const current = voteLeader((await storage.getElectionResults(electionId))?.candidates ?? []);
+      if (!current || current.id === previous.id) return;
+
+      const election = await storage.getElection(electionId);
+      await alertRuleService.publish({
+        eventType: 'lead_change',
+        eventData: {
+          electionTitle: election?.title,
+          candidateName: current.name,
+          leader: current.name,
+          previousLeader: previous.name,
+          margin: current.margin,
+          message: `${current.name} has overtaken ${previous.name} in ${election?.title ?? 'the race'} and leads by ${current.margin} points.`
+        },
+        relatedElectionId: electionId,
+        relatedCandidateId: current.id,
+        priority: 'high',
+        source: 'results_ingestion',
+        sourceId: `${electionId}:${current.id}`
+      });
+    } catch (error) {
+      console.error(`[Results] Failed to record lead change for election ${electionId}:`, error);
+    }
+  }
 
-        const status = shouldCallWinner ? 'WINNER CALLED' : 'PROJECTED WINNER';
-        console.log(`[Race Calling] ${status} for election ${electionId}: ${leader.name} (${marginPercentage.toFixed(2)}% margin, ${percentReporting}% reporting)`);
+  /**
+   * Determine race winner based on results
+   * Runs the projection engine, which calls or retracts the race and
+   * records why in the race-call audit log
+   */
+  async determineWinner(electionId: number): Promise<void> {
+    try {
+      const outcome = await raceCallService.runProjection(electionId);
+      if (outcome && outcome.action !== 'unchanged') {
+        console.log(`[Race Calling] Election ${electionId}: ${outcome.action} (${outcome.evaluation.rule}, ${outcome.evaluation.percentReporting}% reporting)`);
       }
     } catch (error) {
       console.error(`[Race Calling] Error determining winner for election ${electionId}:`, error);
@@ -314,11 +365,15 @@ export class ResultsIngestionService {
   /**
    * Get service status
    */
-  getStatus() {
+  async getStatus() {
     return {
       isRunning: this.isRunning,
       hasGoogleCivicKey: !!this.googleCivicApiKey,
       pollingActive: !!this.pollingInterval,
+      selectedAdapters: this.options.adapters ?? [],
+      selectedStates: this.options.states ?? [],
+      adapters: resultsAdapterRegistry.listAdapters(),
+      sources: await resultsAdapterRegistry.listSources(),
     };
   }
 }
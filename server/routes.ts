@@ -10,11 +10,18 @@ import { perplexityCongressService } from "./perplexity-congress-service";
 import { congressImportService } from "./congress-import-service";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { requireAdmin } from "./middleware/require-admin";
+import { listedCandidates, statusFields } from "./lib/candidate-status";
 import { mapQuestService } from "./mapquest-service";
+import { districtBoundaryService } from "./services/district-boundary-service";
 import { realTimeMonitor } from "./real-time-monitor";
 import { electionScraper } from "./web-scraper";
 import { aiValidationService } from "./ai-validation-service";
 import { resultsIngestionService } from "./results-ingestion-service";
+import { resultsAdapterRegistry, type ResultsSourceInput } from "./services/results-adapters";
+import { resultsHierarchyService } from "./services/results-hierarchy-service";
+import { raceCallService } from "./services/race-call-service";
+import { alertRuleService } from "./services/alert-rule-service";
+import { pollingMargin } from "./lib/polling-average";
 import { complianceService } from "./compliance-service";
 import { eventProcessingService } from "./event-processing-service";
 import { globalElectionService } from "./global-election-service";
@@ -24,6 +31,7 @@ import { positionAggregatorService } from "./position-aggregator-service";
 import { enhancedPositionService } from "./enhanced-position-service";
 import { candidatePositionAPI } from "./candidate-position-api";
 import { pollingTrendService } from "./polling-trend-service";
+import { forecastService } from "./services/forecast-service";
 import { openStatesService } from "./openstates-service";
 import { 
   requireVoteSmartAPI, 
@@ -47,6 +55,28 @@ import autofixRouter from "./routes/autofix";
 import stewardPoliciesRouter from "./routes/steward-policies";
 import stewardAuditRouter from "./routes/steward-audit";
 import pollsRouter from "./routes/polls";
+import pollstersRouter from "./routes/pollsters";
+import forecastsRouter from "./routes/forecasts";
+import raceCallsRouter from "./routes/race-calls";
+import liveStreamRouter from "./routes/live-stream";
+import rcvRouter from "./routes/rcv";
+import districtsRouter from "./routes/districts";
+import sampleBallotRouter from "./routes/sample-ballot";
+import measuresRouter from "./routes/measures";
+import votingRecordsRouter from "./routes/voting-records";
+import legislationRouter from "./routes/legislation";
+import stateLegislaturesRouter from "./routes/state-legislatures";
+import entityResolutionRouter from "./routes/entity-resolution";
+import candidateStatusRouter from "./routes/candidate-status";
+import notificationQueueRouter from "./routes/notification-queue";
+import alertRulesRouter from "./routes/alert-rules";
+import webPushRouter from "./routes/web-push";
+import notificationInboxRouter from "./routes/notification-inbox";
+import digestsRouter from "./routes/digests";
+import calendarFeedsRouter from "./routes/calendar-feeds";
+import { CLOCK_PATTERN } from "./lib/quiet-hours";
+import { rcvService } from "./services/rcv-service";
+import { liveStreamService } from "./services/live-stream-service";
 import authRouter from "./routes/auth";
 import campaignsRouter from "./routes/campaigns";
 import profilesRouter from "./routes/profiles";
@@ -190,6 +220,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Register polling routes
   app.use("/api", pollsRouter);
+  app.use("/api/pollsters", pollstersRouter);
+  app.use("/api", forecastsRouter);
+  app.use("/api", raceCallsRouter);
+  app.use("/api", liveStreamRouter);
+  app.use("/api", rcvRouter);
+  app.use("/api", districtsRouter);
+  app.use("/api", sampleBallotRouter);
+  app.use("/api", measuresRouter);
+  app.use("/api", votingRecordsRouter);
+  app.use("/api", legislationRouter);
+  app.use("/api", stateLegislaturesRouter);
+  app.use("/api", entityResolutionRouter);
+  app.use("/api", candidateStatusRouter);
+  app.use("/api", notificationQueueRouter);
+  app.use("/api", alertRulesRouter);
+  app.use("/api", webPushRouter);
+  app.use("/api", notificationInboxRouter);
+  app.use("/api", digestsRouter);
+  app.use("/api", calendarFeedsRouter);
   
   // Register auth routes
   app.use("/api/auth", authRouter);
@@ -378,11 +427,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
 
-      const elections = await storage.getElections(filters);
+      // ?asOf=<date> returns the calendar as it looked at that moment,
+      // rebuilt from the recorded election facts
+      let asOf: Date | undefined;
+      if (typeof req.query.asOf === 'string' && req.query.asOf !== '') {
+        asOf = new Date(req.query.asOf);
+        if (isNaN(asOf.getTime())) {
+          return res.status(400).json({ error: 'Invalid asOf date' });
+        }
+      }
+
+      const elections = asOf
+        ? await storage.getElectionsAsOf(asOf, filters)
+        : await storage.getElections(filters);
       
       // Include recent past elections (30 days) for live results tracking
       // This allows the /happening-now page to display recent election results
-      const today = new Date();
+      const today = asOf ? new Date(asOf) : new Date();
       today.setHours(0, 0, 0, 0);
       const thirtyDaysAgo = new Date(today);
       thirtyDaysAgo.setDate(today.getDate() - 30);
@@ -393,7 +454,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         electionDate.setHours(0, 0, 0, 0);
         return electionDate >= thirtyDaysAgo; // Include past 30 days + future
       }).map(async (election) => {
-        const candidates = await storage.getCandidatesByElection(election.id);
+        const candidates = listedCandidates(await storage.getCandidatesByElection(election.id));
         return {
           ...election,
           candidateCount: candidates.length
@@ -625,6 +686,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Update candidates with authentic polling data
+      const support = new Map(candidates.map(c => [c.id, c.pollingSupport]));
       for (const average of pollingData.averages) {
         const candidate = candidates.find(c => 
           c.name.toLowerCase().includes(average.candidateName.toLowerCase())
@@ -636,6 +698,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
             lastPollingUpdate: new Date(),
             pollingSource: pollingData.sourcesChecked.join(', ')
           });
+          support.set(candidate.id, Math.round(average.averagePercentage));
+        }
+      }
+
+      // A poll_update event for alert rules on the polling margin
+      const margin = pollingMargin(Array.from(support.values()));
+      if (margin !== null) {
+        try {
+          const election = await storage.getElection(electionId);
+          const leader = candidates.reduce((best, c) => (support.get(c.id) ?? -1) > (support.get(best.id) ?? -1) ? c : best);
+          await alertRuleService.publish({
+            eventType: 'poll_update',
+            eventData: {
+              electionTitle: election?.title,
+              leader: leader.name,
+              margin,
+              previousMargin: pollingMargin(candidates.map(c => c.pollingSupport)),
+              totalPolls: pollingData.polls.length,
+              message: `${leader.name} leads the polling average in ${election?.title ?? 'the race'} by ${margin} points.`
+            },
+            relatedElectionId: electionId,
+            relatedCandidateId: leader.id,
+            priority: 'normal',
+            source: 'polling_update',
+            sourceId: String(electionId)
+          });
+        } catch (error) {
+          console.error(`[Polling] Failed to record poll update for election ${electionId}:`, error);
         }
       }
 
@@ -968,42 +1058,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { address, lat, lng } = req.query;
       
-      let location;
+      let ballot = null;
       
       if (address && typeof address === 'string') {
-        location = await mapQuestService.geocodeAddress(address);
+        ballot = await districtBoundaryService.getBallotForLocation({ address });
       } else if (lat && lng) {
         const latitude = parseFloat(lat as string);
         const longitude = parseFloat(lng as string);
         
         if (!isNaN(latitude) && !isNaN(longitude)) {
-          location = await mapQuestService.reverseGeocode(latitude, longitude);
+          ballot = await districtBoundaryService.getBallotForLocation({ latitude, longitude });
         }
       }
       
-      if (!location) {
+      if (!ballot) {
         return res.status(400).json({ error: "Valid address or coordinates required" });
       }
 
-      // Get elections for the location's state, prioritizing local elections
-      const stateElections = await storage.getElections({ 
-        state: location.state,
-        level: ["Local", "State", "Federal"],
-        timeframe: undefined,
-        timeRange: undefined,
-        party: undefined,
-        electionType: undefined,
-        search: undefined,
-        type: undefined
-      });
-      
-      // Filter to prioritize local elections for the specific city/county
-      const localElections = stateElections.filter(election => 
-        election.level === "Local" && 
-        (election.location?.toLowerCase().includes(location.city.toLowerCase()) ||
-         election.location?.toLowerCase().includes(location.county.toLowerCase()) ||
-         election.subtitle?.toLowerCase().includes(location.city.toLowerCase()))
-      );
+      // Races on this voter's ballot, from the districts containing their point
+      const { location, districts, races, coverage } = ballot;
+      const elections = races.map(race => race.election);
+      const localElections = races
+        .filter(race => race.matchedBy === 'county' || race.matchedBy === 'city')
+        .map(race => race.election);
+      
+      const ballotRaces = await Promise.all(races.map(async race => ({
+        ...race,
+        candidates: listedCandidates(await storage.getCandidatesByElection(race.election.id)).map(candidate => ({
+          id: candidate.id,
+          name: candidate.name,
+          party: candidate.party,
+          website: candidate.website,
+          isIncumbent: candidate.isIncumbent,
+          ...statusFields(candidate)
+        }))
+      })));
       
       // Get AI verification and additional context for local elections
       let aiVerification = null;
@@ -1045,9 +1134,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({
         location,
-        elections: localElections.length > 0 ? localElections : stateElections.slice(0, 10),
+        districts,
+        races: ballotRaces,
+        elections,
         localElectionsFound: localElections.length,
-        totalStateElections: stateElections.length,
+        totalStateElections: elections.length,
+        boundaryCoverage: coverage,
         aiVerification,
         searchPriority: localElections.length > 0 ? 'local' : 'state'
       });
@@ -1248,7 +1340,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const electionId = parseInt(req.params.id);
       const results = await storage.getElectionResults(electionId);
-      res.json(results);
+      const election = await storage.getElection(electionId);
+      const votingMethod = election?.votingMethod ?? 'plurality';
+
+      // RCV races carry every round so transfers can be shown
+      const rcv = votingMethod === 'rcv' ? await rcvService.getLatest(electionId) : null;
+      res.json({ ...results, votingMethod, rcv });
     } catch (error: any) {
       console.error('Error fetching election results:', error);
       res.status(500).json({ message: 'Failed to fetch election results' });
@@ -1419,11 +1516,38 @@ Please provide detailed, current information about this specific election.`;
   app.get('/api/elections/:id/live-results', async (req, res) => {
     try {
       const electionId = parseInt(req.params.id);
-      const results = await storage.getElectionResults(electionId);
+      const county = typeof req.query.county === 'string' ? req.query.county : undefined;
+      // The county drill-down is optional - the headline results still render without it
+      const [results, breakdown, raceCall] = await Promise.all([
+        storage.getElectionResults(electionId),
+        resultsHierarchyService.getCountyDrillDown(electionId, county).catch(drillDownError => {
+          console.error('County drill-down unavailable:', drillDownError);
+          return null;
+        }),
+        raceCallService.getActiveCall(electionId)
+      ]);
       
       // Add real-time metrics
       const liveResults = {
         ...results,
+        ...(breakdown && {
+          reportingPercent: breakdown.percentReporting ?? undefined,
+          reportingPrecincts: breakdown.reportingPrecincts,
+          totalPrecincts: breakdown.totalPrecincts,
+          resultsSource: breakdown.resultsSource,
+          voteTypes: breakdown.voteTypes,
+          counties: breakdown.counties,
+          drillDown: breakdown.drillDown
+        }),
+        raceCall: raceCall && {
+          id: raceCall.id,
+          candidateId: raceCall.candidateId,
+          callType: raceCall.callType,
+          confidence: parseFloat(raceCall.confidence),
+          rule: raceCall.rule,
+          reason: raceCall.reason,
+          calledAt: raceCall.calledAt
+        },
         isLive: new Date() <= new Date(results.election?.date || ''),
         lastUpdated: new Date(),
         refreshInterval: 30000 // 30 seconds for live elections
@@ -1436,15 +1560,111 @@ Please provide detailed, current information about this specific election.`;
     }
   });
 
+  // Store precinct/county/district counts and roll them up to election totals
+  const voteTypeCountsSchema = z.object({
+    'election-day': z.number().int().min(0).optional(),
+    early: z.number().int().min(0).optional(),
+    mail: z.number().int().min(0).optional(),
+    provisional: z.number().int().min(0).optional(),
+    other: z.number().int().min(0).optional()
+  });
+
+  const reportingUnitsSchema = z.object({
+    resultsSource: z.string().optional(),
+    units: z.array(z.object({
+      key: z.string().optional(),
+      level: z.enum(['state', 'district', 'county', 'precinct']),
+      name: z.string().min(1),
+      parentKey: z.string().nullable().optional(),
+      reportingPrecincts: z.number().int().min(0).nullable().optional(),
+      totalPrecincts: z.number().int().min(0).nullable().optional(),
+      candidates: z.array(z.object({
+        candidateId: z.number().int(),
+        votes: z.number().int().min(0),
+        voteTypes: voteTypeCountsSchema.optional()
+      }))
+    })).min(1)
+  });
+
+  app.post('/api/admin/elections/:id/results/units', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const electionId = parseInt(req.params.id);
+      if (isNaN(electionId)) {
+        return res.status(400).json({ error: 'Invalid election ID' });
+      }
+
+      const validationResult = reportingUnitsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Invalid reporting units',
+          details: validationResult.error.issues
+        });
+      }
+
+      const { units, resultsSource } = validationResult.data;
+      const stored = await resultsHierarchyService.upsertUnits(electionId, units as any, { resultsSource });
+      if (stored.electionUpdated) await resultsIngestionService.determineWinner(electionId);
+      eventProcessingService.emit('results_updated', { electionId, timestamp: new Date() });
+
+      res.json(await resultsHierarchyService.getCountyDrillDown(electionId));
+    } catch (error: any) {
+      console.error('Error storing reporting unit results:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Results Ingestion Service Control Endpoints (Admin Only - Protected)
+  const resultsIngestionStartSchema = z.object({
+    intervalSeconds: z.coerce.number().int().min(10).max(3600).default(30),
+    adapters: z.array(z.string()).optional(),
+    states: z.array(z.string().length(2)).optional()
+  });
+
+  const sosMappingSchema = z.object({
+    contests: z.string(),
+    contestName: z.string(),
+    candidates: z.string(),
+    candidateName: z.string(),
+    party: z.string().optional(),
+    votes: z.string(),
+    reportingPrecincts: z.string().optional(),
+    totalPrecincts: z.string().optional(),
+    voteTypes: z.record(z.string()).optional()
+  });
+
+  const resultsSourceSchema = z.object({
+    id: z.string().optional(),
+    adapter: z.string(),
+    state: z.string().regex(/^([A-Za-z]{2}|\*)$/),
+    county: z.string().optional(),
+    url: z.string().url().optional(),
+    electionIds: z.array(z.number().int()).optional(),
+    contestMap: z.record(z.number().int()).optional(),
+    mapping: sosMappingSchema.optional(),
+    enabled: z.boolean().optional()
+  });
+
   app.post('/api/admin/results-ingestion/start', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      const { intervalSeconds = 30 } = req.body;
-      await resultsIngestionService.startPolling(intervalSeconds);
+      const validationResult = resultsIngestionStartSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Invalid ingestion options',
+          details: validationResult.error.issues
+        });
+      }
+
+      const { intervalSeconds, adapters, states } = validationResult.data;
+      const unknown = (adapters ?? []).filter(id => !resultsAdapterRegistry.getAdapter(id));
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown results adapters: ${unknown.join(', ')}` });
+      }
+
+      await resultsIngestionService.startPolling(intervalSeconds, { adapters, states });
       res.json({ 
         message: 'Results ingestion started',
         intervalSeconds,
-        status: resultsIngestionService.getStatus()
+        status: await resultsIngestionService.getStatus()
       });
     } catch (error: any) {
       console.error('Error starting results ingestion:', error);
@@ -1457,7 +1677,7 @@ Please provide detailed, current information about this specific election.`;
       resultsIngestionService.stopPolling();
       res.json({ 
         message: 'Results ingestion stopped',
-        status: resultsIngestionService.getStatus()
+        status: await resultsIngestionService.getStatus()
       });
     } catch (error: any) {
       console.error('Error stopping results ingestion:', error);
@@ -1467,7 +1687,7 @@ Please provide detailed, current information about this specific election.`;
 
   app.get('/api/admin/results-ingestion/status', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      const status = resultsIngestionService.getStatus();
+      const status = await resultsIngestionService.getStatus();
       res.json(status);
     } catch (error: any) {
       console.error('Error getting results ingestion status:', error);
@@ -1475,6 +1695,79 @@ Please provide detailed, current information about this specific election.`;
     }
   });
 
+  app.get('/api/admin/results-ingestion/adapters', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      res.json({
+        adapters: resultsAdapterRegistry.listAdapters(),
+        sources: await resultsAdapterRegistry.listSources()
+      });
+    } catch (error: any) {
+      console.error('Error listing results sources:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post('/api/admin/results-ingestion/sources', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validationResult = resultsSourceSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Invalid results source',
+          details: validationResult.error.issues
+        });
+      }
+
+      const source = await resultsAdapterRegistry.registerSource(
+        validationResult.data as ResultsSourceInput,
+        req.user?.email ?? 'system_admin'
+      );
+      res.status(201).json(source);
+    } catch (error: any) {
+      console.error('Error registering results source:', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete('/api/admin/results-ingestion/sources/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      if (!(await resultsAdapterRegistry.removeSource(req.params.id))) {
+        return res.status(404).json({ error: 'Results source not found' });
+      }
+      res.json({ message: 'Results source removed' });
+    } catch (error: any) {
+      console.error('Error removing results source:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Apply an uploaded feed file (ENR XML, CDF JSON/XML, SoS JSON) once
+  app.post('/api/admin/results-ingestion/import', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validationResult = resultsSourceSchema.extend({
+        state: z.string().length(2),
+        payload: z.union([z.string().min(1), z.record(z.any())])
+      }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Invalid feed import',
+          details: validationResult.error.issues
+        });
+      }
+
+      const { adapter, payload, ...source } = validationResult.data;
+      if (!resultsAdapterRegistry.getAdapter(adapter)) {
+        return res.status(400).json({ error: `Unknown results adapter: ${adapter}` });
+      }
+
+      const body = typeof payload === 'string' ? payload : JSON.stringify(payload);
+      const summary = await resultsIngestionService.importFeed(adapter, body, source as any);
+      res.json(summary);
+    } catch (error: any) {
+      console.error('Error importing results feed:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   app.post('/api/admin/results-ingestion/trigger', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
       await resultsIngestionService.ingestResults();
@@ -3126,8 +3419,27 @@ Please provide specific, factual information with sources where possible. Focus
           mayors: 32
         }
       };
+
+      // Forecast is optional - the static overview still renders without it
+      let forecast = null;
+      try {
+        const stored = await forecastService.getMidtermForecast();
+        if (stored) {
+          forecast = {
+            runId: stored.run.id,
+            generatedAt: stored.run.createdAt,
+            modelVersion: stored.run.modelVersion,
+            simulations: stored.run.simulations,
+            chambers: stored.run.chambers,
+            unsupportedChambers: (stored.run.parameters as any)?.unsupportedChambers ?? [],
+            races: stored.races
+          };
+        }
+      } catch (forecastError) {
+        console.error("Midterm forecast unavailable:", forecastError);
+      }
       
-      res.json(midtermData);
+      res.json({ ...midtermData, forecast });
     } catch (error) {
       console.error("Error serving 2026 midterm data:", error);
       res.status(500).json({ error: "Failed to load 2026 midterm data" });
@@ -3202,6 +3514,7 @@ Please provide specific, factual information with sources where possible. Focus
   });
 
   const httpServer = createServer(app);
+  liveStreamService.start(httpServer);
   return httpServer;
 }
 
@@ -3303,7 +3616,9 @@ const preferencesUpdateSchema = z.object({
   dailyDigest: z.boolean().optional(),
   weeklyDigest: z.boolean().optional(),
   preferredDeliveryTime: z.string().optional(),
-  timezone: z.string().optional()
+  timezone: z.string().optional(),
+  quietHoursStart: z.string().regex(CLOCK_PATTERN).nullable().optional(),
+  quietHoursEnd: z.string().regex(CLOCK_PATTERN).nullable().optional()
 });
 
 /**
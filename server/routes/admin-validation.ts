@@ -9,6 +9,7 @@ import { db } from '../db';
 import { elections, dataProvenance, manualReviewQueue, auditRuns } from '@shared/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import { auditService } from '../services/audit-service';
+import { storage } from '../storage';
 import type { InsertDataProvenance } from '@shared/schema';
 
 const router = Router();
@@ -123,9 +124,12 @@ router.post('/fix-election', async (req, res) => {
     const newDateObj = new Date(newDate);
 
     // Update election date
-    await db.update(elections)
-      .set({ date: newDateObj })
-      .where(eq(elections.id, electionIdNum));
+    await storage.updateElection(electionIdNum, { date: newDateObj }, {
+      source: 'Manual correction',
+      actor: (req as any).user?.email ?? 'system_admin',
+      reason: reason || 'Manual correction via admin API',
+      confidence: 100
+    });
 
     // Create provenance record
     const provenanceRecord: InsertDataProvenance = {
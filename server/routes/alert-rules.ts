@@ -0,0 +1,145 @@
+/**
+ * Alert Rules API Routes
+ * A signed-in user's own alert rules - create, edit and delete them, check
+ * an expression as it is typed, and preview it against recent events
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { authRequired } from '../auth';
+import { alertRuleService, AlertRuleError, ALERT_EVENT_TYPES, type AlertRuleInput } from '../services/alert-rule-service';
+import { MAX_EXPRESSION_LENGTH, parseRule, ruleFields, validateRule } from '../lib/alert-rules';
+
+const router = Router();
+
+const RuleSchema = z.object({
+  name: z.string().min(1).max(200),
+  expression: z.string().min(1).max(MAX_EXPRESSION_LENGTH),
+  eventTypes: z.array(z.enum(ALERT_EVENT_TYPES)).max(ALERT_EVENT_TYPES.length).nullable().optional(),
+  channels: z.array(z.enum(['email', 'sms', 'push'])).min(1),
+  priority: z.enum(['low', 'normal', 'high', 'urgent']).optional(),
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).optional(),
+  isActive: z.boolean().optional()
+});
+
+const ExpressionSchema = z.object({
+  expression: z.string().max(MAX_EXPRESSION_LENGTH)
+});
+
+const PreviewSchema = z.object({
+  expression: z.string().min(1).max(MAX_EXPRESSION_LENGTH),
+  eventTypes: z.array(z.enum(ALERT_EVENT_TYPES)).nullable().optional(),
+  days: z.number().int().min(1).max(90).optional()
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  if (error instanceof AlertRuleError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/alert-rules
+ */
+router.get('/alert-rules', authRequired(), async (req, res) => {
+  try {
+    res.json(await alertRuleService.list(String((req as any).userId)));
+  } catch (error) {
+    handleError(res, error, 'Failed to load alert rules');
+  }
+});
+
+/**
+ * POST /api/alert-rules
+ */
+router.post('/alert-rules', authRequired(), async (req, res) => {
+  const parsed = RuleSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid alert rule', details: parsed.error.issues });
+  }
+
+  try {
+    res.status(201).json(await alertRuleService.create(String((req as any).userId), parsed.data as AlertRuleInput));
+  } catch (error) {
+    handleError(res, error, 'Failed to create alert rule');
+  }
+});
+
+/**
+ * PATCH /api/alert-rules/:id
+ */
+router.patch('/alert-rules/:id', authRequired(), async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid rule ID' });
+
+  const parsed = RuleSchema.partial().safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid alert rule', details: parsed.error.issues });
+  }
+
+  try {
+    const rule = await alertRuleService.update(String((req as any).userId), id, parsed.data as Partial<AlertRuleInput>);
+    if (!rule) return res.status(404).json({ error: 'Alert rule not found' });
+    res.json(rule);
+  } catch (error) {
+    handleError(res, error, 'Failed to update alert rule');
+  }
+});
+
+/**
+ * DELETE /api/alert-rules/:id
+ */
+router.delete('/alert-rules/:id', authRequired(), async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid rule ID' });
+
+  try {
+    const removed = await alertRuleService.remove(String((req as any).userId), id);
+    if (!removed) return res.status(404).json({ error: 'Alert rule not found' });
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, 'Failed to delete alert rule');
+  }
+});
+
+/**
+ * POST /api/alert-rules/validate
+ * Whether an expression parses, and the fields it reads
+ */
+router.post('/alert-rules/validate', authRequired(), (req, res) => {
+  const parsed = ExpressionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid expression', details: parsed.error.issues });
+  }
+
+  const error = validateRule(parsed.data.expression);
+  res.json(error
+    ? { valid: false, error, fields: [] }
+    : { valid: true, error: null, fields: ruleFields(parseRule(parsed.data.expression)) });
+});
+
+/**
+ * POST /api/alert-rules/preview
+ * The recent events an expression would have matched
+ */
+router.post('/alert-rules/preview', authRequired(), async (req, res) => {
+  const parsed = PreviewSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid preview request', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await alertRuleService.preview(parsed.data.expression, parsed.data.eventTypes, parsed.data.days));
+  } catch (error) {
+    handleError(res, error, 'Failed to preview alert rule');
+  }
+});
+
+export default router;
@@ -7,6 +7,7 @@ import { storage } from "../storage";
 import { dashboardResponseSchema, type DashboardResponse } from "@shared/schema";
 import { sendGridNotificationService } from "../services/sendgrid-notification-service";
 import { analyticsService } from "../analytics-service";
+import { listedCandidates } from "../lib/candidate-status";
 import nodemailer from "nodemailer";
 import crypto from "crypto";
 import jwt from "jsonwebtoken";
@@ -334,7 +335,7 @@ router.get("/dashboard", authRequired(), async (req, res) => {
     // Get candidate counts for each election
     const recommendationsWithCandidates = await Promise.all(
       allElections.slice(0, 5).map(async (election) => {
-        const candidates = await storage.getCandidatesByElection(election.id);
+        const candidates = listedCandidates(await storage.getCandidatesByElection(election.id));
         return {
           id: election.id,
           title: election.title,
@@ -0,0 +1,151 @@
+/**
+ * Calendar Feed API Routes
+ * The signed-in user's secret watchlist feed URL and rotating it, the
+ * .ics feeds calendar apps subscribe to, and the election deadlines the
+ * feeds are built from
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { authRequired } from '../auth';
+import { requireAdmin } from '../middleware/require-admin';
+import { calendarFeedService, CalendarFeedError, type DeadlineInput } from '../services/calendar-feed-service';
+
+const router = Router();
+
+const DeadlineSchema = z.object({
+  startsOn: z.coerce.date().nullable().optional(),
+  endsOn: z.coerce.date(),
+  note: z.string().max(500).nullable().optional(),
+  sourceUrl: z.string().url().max(2000).nullable().optional()
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  if (error instanceof CalendarFeedError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function sendCalendar(res: any, body: string, filename: string, cacheControl: string) {
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  res.set('Content-Disposition', `inline; filename="${filename}"`);
+  res.set('Cache-Control', cacheControl);
+  res.send(body);
+}
+
+/**
+ * GET /api/calendar/feed
+ * The user's watchlist feed URL, created on first use
+ */
+router.get('/calendar/feed', authRequired(), async (req, res) => {
+  try {
+    res.json(await calendarFeedService.getFeed(String((req as any).userId)));
+  } catch (error) {
+    handleError(res, error, 'Failed to load calendar feed');
+  }
+});
+
+/**
+ * POST /api/calendar/feed/rotate
+ */
+router.post('/calendar/feed/rotate', authRequired(), async (req, res) => {
+  try {
+    res.json(await calendarFeedService.rotate(String((req as any).userId)));
+  } catch (error) {
+    handleError(res, error, 'Failed to rotate calendar feed');
+  }
+});
+
+/**
+ * GET /api/calendar/feeds/:token.ics
+ * No session - calendar apps fetch it, so the token is the credential
+ */
+router.get('/calendar/feeds/:token.ics', async (req, res) => {
+  try {
+    const calendar = await calendarFeedService.userCalendar(req.params.token);
+    if (!calendar) return res.status(404).json({ error: 'Calendar feed not found' });
+    sendCalendar(res, calendar, 'watchlist.ics', 'private, max-age=900');
+  } catch (error) {
+    handleError(res, error, 'Failed to build calendar feed');
+  }
+});
+
+/**
+ * GET /api/calendar/states/:state.ics
+ */
+router.get('/calendar/states/:state.ics', async (req, res) => {
+  try {
+    const calendar = await calendarFeedService.stateCalendar(req.params.state);
+    sendCalendar(res, calendar, `${req.params.state.toLowerCase()}-elections.ics`, 'public, max-age=3600');
+  } catch (error) {
+    handleError(res, error, 'Failed to build state calendar');
+  }
+});
+
+/**
+ * GET /api/elections/:id/deadlines
+ */
+router.get('/elections/:id/deadlines', async (req, res) => {
+  const electionId = parseId(req.params.id);
+  if (!electionId) return res.status(400).json({ error: 'Invalid election id' });
+
+  try {
+    res.json(await calendarFeedService.listDeadlines(electionId));
+  } catch (error) {
+    handleError(res, error, 'Failed to load election deadlines');
+  }
+});
+
+/**
+ * PUT /api/admin/elections/:id/deadlines/:kind
+ */
+router.put('/admin/elections/:id/deadlines/:kind', requireAdmin, async (req, res) => {
+  const electionId = parseId(req.params.id);
+  if (!electionId) return res.status(400).json({ error: 'Invalid election id' });
+  const parsed = DeadlineSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid deadline', details: parsed.error.issues });
+  }
+
+  try {
+    const deadline = await calendarFeedService.setDeadline(
+      electionId,
+      req.params.kind,
+      parsed.data as DeadlineInput,
+      (req as any).user?.email ?? 'system_admin'
+    );
+    if (!deadline) return res.status(404).json({ error: 'Election not found' });
+    res.json(deadline);
+  } catch (error) {
+    handleError(res, error, 'Failed to save election deadline');
+  }
+});
+
+/**
+ * DELETE /api/admin/elections/:id/deadlines/:kind
+ */
+router.delete('/admin/elections/:id/deadlines/:kind', requireAdmin, async (req, res) => {
+  const electionId = parseId(req.params.id);
+  if (!electionId) return res.status(400).json({ error: 'Invalid election id' });
+
+  try {
+    const removed = await calendarFeedService.removeDeadline(
+      electionId,
+      req.params.kind,
+      (req as any).user?.email ?? 'system_admin'
+    );
+    if (!removed) return res.status(404).json({ error: 'Deadline not found' });
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, 'Failed to remove election deadline');
+  }
+});
+
+export default router;
@@ -0,0 +1,74 @@
+/**
+ * Candidate Status API Routes
+ * A candidate's filing lifecycle - the history of status changes with
+ * their effective dates and sources, and admin updates as candidates
+ * qualify, withdraw, are disqualified or advance to a runoff
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAdmin } from '../middleware/require-admin';
+import { candidateStatusService, CandidateStatusError, type StatusChangeInput } from '../services/candidate-status-service';
+import { CANDIDATE_STATUSES } from '../lib/candidate-status';
+
+const router = Router();
+
+const StatusChangeSchema = z.object({
+  status: z.enum(CANDIDATE_STATUSES),
+  effectiveDate: z.coerce.date().optional(),
+  source: z.string().min(2).max(200), // e.g. "Secretary of State certified list"
+  sourceUrl: z.string().url().max(1000).nullable().optional(),
+  reason: z.string().max(2000).nullable().optional(),
+  onBallot: z.boolean().nullable().optional(),
+  advancedToElectionId: z.number().int().positive().nullable().optional()
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  if (error instanceof CandidateStatusError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/candidates/:id/status-history
+ */
+router.get('/candidates/:id/status-history', async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid candidate ID' });
+
+  try {
+    res.json(await candidateStatusService.getHistory(id));
+  } catch (error) {
+    handleError(res, error, 'Failed to load status history');
+  }
+});
+
+/**
+ * POST /api/candidates/:id/status
+ * Record a status change; advancing needs the runoff election
+ */
+router.post('/candidates/:id/status', requireAdmin, async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid candidate ID' });
+
+  const parsed = StatusChangeSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid status change', details: parsed.error.issues });
+  }
+
+  try {
+    const actor = (req as any).user?.email ?? 'system_admin';
+    res.json(await candidateStatusService.changeStatus(id, { ...parsed.data, actor } as StatusChangeInput));
+  } catch (error) {
+    handleError(res, error, 'Failed to change candidate status');
+  }
+});
+
+export default router;
@@ -6,6 +6,7 @@ import { getPerplexityService } from '../perplexity-service';
 import { db } from '../db';
 import { candidates, candidateBiography, candidatePositions } from '@shared/schema';
 import { ilike, eq } from 'drizzle-orm';
+import { statusFields } from '../lib/candidate-status';
 
 const router = Router();
 
@@ -35,6 +36,7 @@ router.get('/search', async (req, res) => {
       election_id: candidate.electionId,
       is_incumbent: candidate.isIncumbent,
       description: candidate.description,
+      ...statusFields(candidate),
       // Add preview data structure for consistency
       preview_data: {
         has_biography: !!candidate.description,
@@ -123,6 +125,7 @@ router.get('/:id', async (req, res) => {
         contact_email: candidate.contactEmail,
         description: candidate.description,
         campaign_bio: candidate.campaignBio,
+        ...statusFields(candidate),
         // Enhanced fields
         biography: null as any,
         photo_url: candidate.profileImageUrl,
@@ -227,6 +230,7 @@ router.get('/:id', async (req, res) => {
         party: candidate.party,
         incumbent: candidate.isIncumbent,
         profile_image_url: candidate.profileImageUrl,
+        ...statusFields(candidate),
         data_issues: [`Data enrichment temporarily unavailable: ${enrichmentError instanceof Error ? enrichmentError.message : 'Unknown error'}`]
       });
     }
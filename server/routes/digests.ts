@@ -0,0 +1,42 @@
+/**
+ * Digest API Routes
+ * Admin preview of the daily or weekly digest a user would get next
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAdmin } from '../middleware/require-admin';
+import { digestService, DigestError } from '../services/digest-service';
+
+const router = Router();
+
+const PreviewQuerySchema = z.object({
+  cadence: z.enum(['daily', 'weekly']).optional()
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  if (error instanceof DigestError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+/**
+ * GET /api/admin/digests/preview/:userId
+ * Built as of now and not recorded - previewing does not use up the period
+ */
+router.get('/admin/digests/preview/:userId', requireAdmin, async (req, res) => {
+  const parsed = PreviewQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid digest preview query', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await digestService.preview(req.params.userId, parsed.data.cadence));
+  } catch (error) {
+    handleError(res, error, 'Failed to preview digest');
+  }
+});
+
+export default router;
@@ -0,0 +1,77 @@
+/**
+ * District Lookup API Routes
+ * Point-in-polygon lookup against the loaded TIGER boundaries and
+ * boundary-file status for admins
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { districtBoundaryService } from '../services/district-boundary-service';
+import { mapQuestService } from '../mapquest-service';
+import { requireAdmin } from '../middleware/require-admin';
+
+const router = Router();
+
+const LookupQuerySchema = z.object({
+  address: z.string().min(3).max(500).optional(),
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional()
+}).refine(q => q.address !== undefined || (q.lat !== undefined && q.lng !== undefined), {
+  message: 'Provide an address or lat and lng'
+});
+
+/**
+ * GET /api/districts/lookup?lat=&lng= or ?address=
+ * Every congressional, state legislative and county district containing the point
+ */
+router.get('/districts/lookup', async (req, res) => {
+  const parsed = LookupQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Provide an address or lat and lng', details: parsed.error.issues });
+  }
+
+  try {
+    const { address, lat, lng } = parsed.data;
+    let point: { latitude: number; longitude: number } | null;
+    if (address) {
+      point = await mapQuestService.geocodeAddress(address);
+      if (!point) return res.status(404).json({ error: 'Address not found' });
+    } else {
+      point = { latitude: lat!, longitude: lng! };
+    }
+
+    const districts = await districtBoundaryService.lookup(point.latitude, point.longitude);
+    res.json({ latitude: point.latitude, longitude: point.longitude, districts });
+  } catch (error) {
+    console.error('District lookup error:', error);
+    res.status(500).json({ error: 'Failed to look up districts' });
+  }
+});
+
+/**
+ * GET /api/districts/boundaries
+ * Which boundary files are loaded and the states each district type covers
+ */
+router.get('/districts/boundaries', requireAdmin, async (_req, res) => {
+  try {
+    res.json(await districtBoundaryService.ensureLoaded());
+  } catch (error) {
+    console.error('Boundary status error:', error);
+    res.status(500).json({ error: 'Failed to load district boundaries' });
+  }
+});
+
+/**
+ * POST /api/districts/boundaries/reload
+ * Re-read the boundaries directory after new TIGER files are dropped in
+ */
+router.post('/districts/boundaries/reload', requireAdmin, async (_req, res) => {
+  try {
+    res.json(await districtBoundaryService.reload());
+  } catch (error) {
+    console.error('Boundary reload error:', error);
+    res.status(500).json({ error: 'Failed to reload district boundaries' });
+  }
+});
+
+export default router;
@@ -3,6 +3,7 @@ import { storage } from "../storage";
 import { civicAggregatorService } from "../civic-aggregator-service";
 import { voteSmartService } from "../services/votesmart-service";
 import { calculateAdvancedPoliticalLeaning } from "../lib/political-analysis.js";
+import { listedCandidates, statusFields } from "../lib/candidate-status";
 
 export const electionsRouter = Router();
 
@@ -105,7 +106,8 @@ electionsRouter.get("/candidates-by-ids", async (req, res) => {
       contact_email: c.contactEmail,
       is_verified: c.isVerified,
       description: c.description,
-      campaign_bio: c.campaignBio
+      campaign_bio: c.campaignBio,
+      ...statusFields(c)
     }));
     res.json(formattedCandidates);
   } catch (error) {
@@ -148,7 +150,7 @@ electionsRouter.get("/:id", async (req, res) => {
     const election = await storage.getElection(id);
     if (!election) return res.status(404).json({ error: "Not found" });
 
-    const candidates = await storage.getCandidatesByElection(id);
+    const candidates = listedCandidates(await storage.getCandidatesByElection(id));
     
     res.json({ 
       id: election.id,
@@ -200,7 +202,8 @@ electionsRouter.get("/:id/candidates", async (req, res) => {
         isWinner: candidate.isWinner,
         is_projected_winner: candidate.isProjectedWinner,
         isProjectedWinner: candidate.isProjectedWinner,
-        pollingSupport: candidate.pollingSupport
+        pollingSupport: candidate.pollingSupport,
+        ...statusFields(candidate)
       };
 
       try {
@@ -309,8 +312,10 @@ electionsRouter.get("/:id/candidates", async (req, res) => {
       }
     };
 
-    // Try direct election_id match first
-    const directCandidates = await storage.getCandidatesByElection(id);
+    // Try direct election_id match first; withdrawn and disqualified candidates
+    // are left out unless still on the ballot or includeInactive=true
+    const includeInactive = req.query.includeInactive === 'true';
+    const directCandidates = listedCandidates(await storage.getCandidatesByElection(id), includeInactive);
     
     if (directCandidates.length > 0) {
       // Enrich all candidates with comprehensive data
@@ -345,7 +350,7 @@ electionsRouter.get("/:id/candidates", async (req, res) => {
     });
 
     for (const similarElection of similarElections) {
-      const candidates = await storage.getCandidatesByElection(similarElection.id);
+      const candidates = listedCandidates(await storage.getCandidatesByElection(similarElection.id), includeInactive);
       if (candidates.length > 0) {
         // Enrich fallback candidates as well
         const enrichedFallbackCandidates = await Promise.allSettled(
@@ -432,8 +437,8 @@ electionsRouter.get("/:electionId/candidates/:candidateId", async (req, res) =>
         // External identifiers
         external_ids: {
           votesmart_id: candidate.votesmart_id,
-          fec_id: candidate.fec_candidate_id,
-          bioguide_id: candidate.bioguide_id
+          fec_id: candidate.fecCandidateId,
+          bioguide_id: candidate.bioguideId
         },
         
         // Election context
@@ -601,4 +606,34 @@ electionsRouter.get('/missing-candidates', async (req, res) => {
     console.error("Error fetching missing candidates:", error);
     res.status(500).json({ error: "Failed to fetch missing candidates" });
   }
-});
\ No newline at end of file
+});
+// =============================================================================
+// FACT HISTORY
+// =============================================================================
+
+// Who changed this election's date, jurisdiction or office, when, and on whose authority
+electionsRouter.get("/:id/history", async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id)) {
+      return res.status(400).json({ error: "Invalid election ID" });
+    }
+
+    const election = await storage.getElection(id);
+    if (!election) {
+      return res.status(404).json({ error: "Election not found" });
+    }
+
+    const field = typeof req.query.field === 'string' ? req.query.field : undefined;
+    const history = await storage.getElectionHistory(id);
+
+    res.json({
+      electionId: id,
+      current: { date: election.date, state: election.state, location: election.location, level: election.level, title: election.title, offices: election.offices },
+      changes: field ? history.filter(entry => entry.field === field) : history
+    });
+  } catch (error) {
+    console.error("Error fetching election history:", error);
+    res.status(500).json({ error: "Failed to fetch election history" });
+  }
+});
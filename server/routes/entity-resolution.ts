@@ -0,0 +1,162 @@
+/**
+ * Entity Resolution API Routes
+ * The crosswalk of candidates to their IDs in other data sources, admin
+ * runs of the resolver, and the data steward's queue of matches to
+ * confirm or reject
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAdmin } from '../middleware/require-admin';
+import { entityResolutionService, EntityResolutionError, type ExternalPerson } from '../services/entity-resolution-service';
+import { EXTERNAL_ID_SYSTEMS, officeKind } from '../lib/entity-resolution';
+
+const router = Router();
+
+const LookupQuerySchema = z.object({
+  system: z.enum(EXTERNAL_ID_SYSTEMS),
+  id: z.string().min(1).max(200)
+});
+
+const ExternalPersonSchema = z.object({
+  externalId: z.string().min(1).max(200),
+  name: z.string().min(2).max(200),
+  state: z.string().length(2).nullable().optional(),
+  office: z.string().max(200).nullable().optional(), // free text, e.g. "U.S. House"
+  district: z.string().max(100).nullable().optional(),
+  party: z.string().max(100).nullable().optional()
+});
+
+const ResolveSchema = z.object({
+  system: z.enum(EXTERNAL_ID_SYSTEMS),
+  state: z.string().length(2).optional(),
+  electionId: z.number().int().positive().optional(),
+  records: z.array(ExternalPersonSchema).min(1).max(5000).optional()
+});
+
+const ReviewQuerySchema = z.object({
+  status: z.enum(['pending', 'in_review', 'resolved', 'dismissed']).optional(),
+  system: z.enum(EXTERNAL_ID_SYSTEMS).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional()
+});
+
+const ReviewDecisionSchema = z.object({
+  decision: z.enum(['confirm', 'reject']),
+  notes: z.string().max(2000).optional()
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  if (error instanceof EntityResolutionError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/candidates/:id/external-ids
+ */
+router.get('/candidates/:id/external-ids', async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid candidate ID' });
+
+  try {
+    res.json(await entityResolutionService.getCrosswalk(id));
+  } catch (error) {
+    handleError(res, error, 'Failed to load external IDs');
+  }
+});
+
+/**
+ * GET /api/entity-resolution/lookup?system=&id=
+ * Our candidates linked to an external ID
+ */
+router.get('/entity-resolution/lookup', async (req, res) => {
+  const parsed = LookupQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid lookup', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await entityResolutionService.findByExternalId(parsed.data.system, parsed.data.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to look up external ID');
+  }
+});
+
+/**
+ * POST /api/entity-resolution/resolve
+ * Match unlinked candidates against a source; records are required for
+ * Ballotpedia and override the synced data for other sources
+ */
+router.post('/entity-resolution/resolve', requireAdmin, async (req, res) => {
+  const parsed = ResolveSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid resolve request', details: parsed.error.issues });
+  }
+
+  try {
+    const { system, records, ...options } = parsed.data;
+    res.json(await entityResolutionService.resolve(system, {
+      ...options,
+      records: records?.map(record => ({ ...record, office: officeKind(record.office) }) as ExternalPerson)
+    }));
+  } catch (error) {
+    handleError(res, error, 'Failed to resolve candidates');
+  }
+});
+
+/**
+ * POST /api/entity-resolution/seed
+ * Copy IDs already on candidate rows into the crosswalk
+ */
+router.post('/entity-resolution/seed', requireAdmin, async (req, res) => {
+  try {
+    res.json(await entityResolutionService.seedFromCandidateColumns());
+  } catch (error) {
+    handleError(res, error, 'Failed to seed crosswalk');
+  }
+});
+
+/**
+ * GET /api/entity-resolution/reviews?status=&system=&limit=
+ */
+router.get('/entity-resolution/reviews', requireAdmin, async (req, res) => {
+  const parsed = ReviewQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid review query', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await entityResolutionService.listReviews(parsed.data));
+  } catch (error) {
+    handleError(res, error, 'Failed to load match reviews');
+  }
+});
+
+/**
+ * POST /api/entity-resolution/reviews/:reviewId
+ * Confirm or reject a queued match
+ */
+router.post('/entity-resolution/reviews/:reviewId', requireAdmin, async (req, res) => {
+  const parsed = ReviewDecisionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid review decision', details: parsed.error.issues });
+  }
+
+  try {
+    const reviewer = (req as any).user?.email ?? 'system_admin';
+    const review = await entityResolutionService.decideReview(req.params.reviewId, parsed.data.decision, reviewer, parsed.data.notes);
+    if (!review) return res.status(404).json({ error: 'Review not found' });
+    res.json(review);
+  } catch (error) {
+    handleError(res, error, 'Failed to record review decision');
+  }
+});
+
+export default router;
@@ -1,10 +1,15 @@
 /**
  * Campaign Finance API Routes
- * Integrates OpenFEC data with election tracking platform
+ * Integrates OpenFEC data with election tracking platform, and serves
+ * candidate money series and race comparisons from loaded FEC bulk data
  */
 
 import { Router } from 'express';
 import { getOpenFECService } from '../openfec-service';
+import { requireAdmin } from '../middleware/require-admin';
+import { fecBulkService, FecBulkError } from '../services/fec-bulk-service';
+import { outsideSpendingService, OutsideSpendingError } from '../services/outside-spending-service';
+import { currentCycle } from '../lib/fec-bulk';
 import { z } from 'zod';
 
 const router = Router();
@@ -24,6 +29,40 @@ const ElectionFinanceQuerySchema = z.object({
   cycle: z.coerce.number().min(2020).max(2030).optional()
 });
 
+const CycleQuerySchema = z.object({
+  cycle: z.coerce.number().int().min(1980).max(2100).refine(cycle => cycle % 2 === 0, 'Cycle must be an even year').optional()
+});
+
+const BulkIngestSchema = z.object({
+  cycle: z.number().int().min(1980).max(2100).optional(),
+  kinds: z.array(z.enum(['cn', 'cm', 'weball', 'itcont'])).min(1).optional()
+});
+
+const LinkCandidatesSchema = z.object({
+  cycle: z.number().int().min(1980).max(2100).optional()
+});
+
+const OutsideSpendingIngestSchema = z.object({
+  cycle: z.number().int().min(1980).max(2100).optional()
+});
+
+const NoticeSyncSchema = z.object({
+  days: z.number().int().min(1).max(30).optional()
+});
+
+function handleBulkError(res: any, error: unknown, message: string) {
+  if (error instanceof FecBulkError || error instanceof OutsideSpendingError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
 /**
  * GET /api/finance/candidate
  * Search for candidate campaign finance data
@@ -39,7 +78,7 @@ router.get('/candidate', async (req, res) => {
       });
     }
 
-    const { name, office = 'H', state = 'CA', cycle = 2024 } = validationResult.data;
+    const { name, office = 'H', state, cycle = currentCycle() } = validationResult.data;
 
     const fecService = getOpenFECService();
     if (!fecService) {
@@ -49,12 +88,12 @@ router.get('/candidate', async (req, res) => {
       });
     }
 
-    const financialData = await fecService.enrichCandidateWithFECData(name, office, state);
+    const financialData = await fecService.enrichCandidateWithFECData(name, office, state, cycle);
     
     if (!financialData) {
       return res.status(404).json({
         error: 'No campaign finance data found',
-        message: `No FEC data available for ${name} in ${state} for ${cycle} cycle`
+        message: `No FEC data available for ${name}${state ? ` in ${state}` : ''} for ${cycle} cycle`
       });
     }
 
@@ -97,7 +136,7 @@ router.get('/election-summary', async (req, res) => {
       });
     }
 
-    const { office, state, cycle = 2024 } = validationResult.data;
+    const { office, state, cycle = currentCycle() } = validationResult.data;
 
     const fecService = getOpenFECService();
     if (!fecService) {
@@ -175,7 +214,7 @@ router.get('/candidate/:id/enrich', async (req, res) => {
 
     // This would typically fetch from your candidate database
     // For now, we'll require name/office/state parameters
-    const { name, office, state, cycle = 2024 } = req.query;
+    const { name, office, state, cycle } = req.query;
     
     if (!name || !office || !state) {
       return res.status(400).json({
@@ -194,7 +233,8 @@ router.get('/candidate/:id/enrich', async (req, res) => {
     const financialData = await fecService.enrichCandidateWithFECData(
       String(name), 
       String(office), 
-      String(state)
+      String(state),
+      cycle ? Number(cycle) : currentCycle()
     );
 
     if (!financialData) {
@@ -228,6 +268,142 @@ router.get('/candidate/:id/enrich', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/finance/candidates/:id/series?cycle=
+ * Quarterly receipts, disbursements and cash on hand, with small-donor,
+ * in-state and self-funding shares, from FEC bulk data. The cycle defaults
+ * to the candidate's election.
+ */
+router.get('/candidates/:id/series', async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid candidate ID' });
+
+  const parsed = CycleQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters', details: parsed.error.issues });
+  }
+
+  try {
+    const money = await fecBulkService.getCandidateMoney(id, parsed.data);
+    if (!money) return res.status(404).json({ error: 'Candidate not found' });
+    res.json(money);
+  } catch (error) {
+    handleBulkError(res, error, 'Failed to load candidate finance series');
+  }
+});
+
+/**
+ * GET /api/finance/elections/:id/money
+ * Money comparison across a federal race's candidates
+ */
+router.get('/elections/:id/money', async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid election ID' });
+
+  try {
+    const comparison = await fecBulkService.getRaceComparison(id);
+    if (!comparison) return res.status(404).json({ error: 'Election not found' });
+    res.json(comparison);
+  } catch (error) {
+    handleBulkError(res, error, 'Failed to load race finance comparison');
+  }
+});
+
+/**
+ * GET /api/finance/elections/:id/outside-spending
+ * Independent expenditures in a federal race by candidate, spender and week
+ */
+router.get('/elections/:id/outside-spending', async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid election ID' });
+
+  try {
+    const spending = await outsideSpendingService.getRaceOutsideSpending(id);
+    if (!spending) return res.status(404).json({ error: 'Election not found' });
+    res.json(spending);
+  } catch (error) {
+    handleBulkError(res, error, 'Failed to load outside spending');
+  }
+});
+
+/**
+ * POST /api/finance/bulk/ingest
+ * Load FEC bulk files for one cycle, or every cycle on disk
+ */
+router.post('/bulk/ingest', requireAdmin, async (req, res) => {
+  const parsed = BulkIngestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid ingest request', details: parsed.error.issues });
+  }
+
+  try {
+    const { cycle, kinds } = parsed.data;
+    const cycles = cycle ? [cycle] : await fecBulkService.availableCycles();
+    const reports: Record<number, unknown> = {};
+    for (const c of cycles) {
+      reports[c] = await fecBulkService.ingestCycle(c, { kinds });
+    }
+    res.json({ cycles, reports });
+  } catch (error) {
+    handleBulkError(res, error, 'Failed to ingest FEC bulk files');
+  }
+});
+
+/**
+ * POST /api/finance/bulk/link-candidates
+ * Match federal candidates to FEC candidate IDs
+ */
+router.post('/bulk/link-candidates', requireAdmin, async (req, res) => {
+  const parsed = LinkCandidatesSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid link request', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await fecBulkService.linkCandidates(parsed.data.cycle));
+  } catch (error) {
+    handleBulkError(res, error, 'Failed to link FEC candidates');
+  }
+});
+
+/**
+ * POST /api/finance/outside-spending/ingest
+ * Load the independent expenditure bulk file for one cycle and attribute
+ * what was already stored for it
+ */
+router.post('/outside-spending/ingest', requireAdmin, async (req, res) => {
+  const parsed = OutsideSpendingIngestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid ingest request', details: parsed.error.issues });
+  }
+
+  try {
+    const cycle = parsed.data.cycle ?? currentCycle();
+    const report = await outsideSpendingService.ingestBulkFile(cycle);
+    const attribution = await outsideSpendingService.reattribute(cycle);
+    res.json({ cycle, report, attribution });
+  } catch (error) {
+    handleBulkError(res, error, 'Failed to ingest independent expenditures');
+  }
+});
+
+/**
+ * POST /api/finance/outside-spending/sync-notices
+ * Fetch recent 24- and 48-hour independent expenditure notices
+ */
+router.post('/outside-spending/sync-notices', requireAdmin, async (req, res) => {
+  const parsed = NoticeSyncSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid sync request', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await outsideSpendingService.syncNotices(parsed.data));
+  } catch (error) {
+    handleBulkError(res, error, 'Failed to sync independent expenditure notices');
+  }
+});
+
 /**
  * GET /api/finance/health
  * Health check for campaign finance service
@@ -0,0 +1,134 @@
+/**
+ * Race Forecast API Routes
+ * Monte Carlo win probabilities per election and their history
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { forecastService } from '../services/forecast-service';
+import { requireAdmin } from '../middleware/require-admin';
+
+const router = Router();
+
+const RunForecastSchema = z.object({
+  simulations: z.coerce.number().int().min(1000).max(50000).optional(),
+  seed: z.coerce.number().int().optional(),
+  includeFinance: z.boolean().optional()
+});
+
+const HistoryQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(730).optional()
+});
+
+/**
+ * GET /api/elections/:id/forecast
+ * Latest stored forecast - runs are made by the admin POST below
+ */
+router.get('/elections/:id/forecast', async (req, res) => {
+  try {
+    const electionId = parseInt(req.params.id);
+    if (isNaN(electionId)) {
+      return res.status(400).json({ error: 'Invalid election ID' });
+    }
+
+    const forecast = await forecastService.getLatestForecast(electionId);
+    if (!forecast) {
+      return res.status(404).json({ error: 'No forecast has been run for this election yet' });
+    }
+
+    res.json(forecast);
+  } catch (error) {
+    console.error('Error fetching forecast:', error);
+    res.status(500).json({ error: 'Failed to fetch forecast' });
+  }
+});
+
+/**
+ * GET /api/elections/:id/forecast/history
+ * Every stored forecast for the race, oldest first
+ */
+router.get('/elections/:id/forecast/history', async (req, res) => {
+  try {
+    const electionId = parseInt(req.params.id);
+    if (isNaN(electionId)) {
+      return res.status(400).json({ error: 'Invalid election ID' });
+    }
+
+    const validationResult = HistoryQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { days } = validationResult.data;
+    const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+    const history = await forecastService.getForecastHistory(electionId, since);
+
+    res.json({ electionId, history });
+  } catch (error) {
+    console.error('Error fetching forecast history:', error);
+    res.status(500).json({ error: 'Failed to fetch forecast history' });
+  }
+});
+
+/**
+ * POST /api/elections/:id/forecast
+ * Run and store a fresh race forecast (admin)
+ */
+router.post('/elections/:id/forecast', requireAdmin, async (req, res) => {
+  try {
+    const electionId = parseInt(req.params.id);
+    if (isNaN(electionId)) {
+      return res.status(400).json({ error: 'Invalid election ID' });
+    }
+
+    const validationResult = RunForecastSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid forecast options',
+        details: validationResult.error.issues
+      });
+    }
+
+    const outcome = await forecastService.forecastElection(electionId, validationResult.data);
+    if (!outcome) {
+      return res.status(404).json({ error: 'Election not found' });
+    }
+
+    res.status(201).json({ runId: outcome.run.id, ...outcome.result });
+  } catch (error) {
+    console.error('Error running forecast:', error);
+    res.status(500).json({ error: 'Failed to run forecast' });
+  }
+});
+
+/**
+ * POST /api/forecasts/midterms/run
+ * Run the joint 2026 midterm simulation (admin)
+ */
+router.post('/forecasts/midterms/run', requireAdmin, async (req, res) => {
+  try {
+    const validationResult = RunForecastSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid forecast options',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { run, result } = await forecastService.forecastMidterms(validationResult.data);
+    res.status(201).json({
+      runId: run.id,
+      simulations: result.simulations,
+      races: result.races.length,
+      chambers: result.chambers
+    });
+  } catch (error) {
+    console.error('Error running midterm forecast:', error);
+    res.status(500).json({ error: 'Failed to run midterm forecast' });
+  }
+});
+
+export default router;
@@ -0,0 +1,193 @@
+/**
+ * Legislation Tracker API Routes
+ * Tracked bills with their action history, committee referrals,
+ * cosponsors and lifecycle stage; full-text and subject search; bill
+ * watches that alert through the user's legislation-alert subscriptions
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { authRequired } from '../auth';
+import { requireAdmin } from '../middleware/require-admin';
+import { billTrackerService, BillTrackerError } from '../services/bill-tracker-service';
+
+const router = Router();
+
+const STAGES = ['introduced', 'committee', 'floor', 'other_chamber', 'president', 'law', 'vetoed', 'agreed_to'] as const;
+
+const SearchQuerySchema = z.object({
+  q: z.string().min(2).max(200).optional(),
+  congress: z.coerce.number().int().min(93).max(200).optional(),
+  stage: z.enum(STAGES).optional(),
+  policyArea: z.string().max(200).optional(),
+  subject: z.string().max(200).optional(),
+  sponsor: z.string().max(20).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional()
+});
+
+const BillIdentitySchema = z.object({
+  congress: z.number().int().min(93).max(200),
+  type: z.string().min(1).max(10),
+  number: z.coerce.string().regex(/^\d+$/)
+});
+
+const WatchSchema = z.object({
+  notifyOn: z.enum(['stage', 'all_actions']).default('stage')
+});
+
+const SyncUpdatedSchema = z.object({
+  congress: z.number().int().min(93).max(200).optional(),
+  since: z.coerce.date().optional(),
+  limit: z.number().int().min(1).max(500).optional()
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  if (error instanceof BillTrackerError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/legislation?q=&congress=&stage=&policyArea=&subject=&sponsor=
+ * q is a full-text search over title, summary, policy area and subjects
+ */
+router.get('/legislation', async (req, res) => {
+  const parsed = SearchQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid bill query', details: parsed.error.issues });
+  }
+
+  try {
+    const { q, ...filters } = parsed.data;
+    res.json(await billTrackerService.search({ ...filters, search: q }));
+  } catch (error) {
+    handleError(res, error, 'Failed to search bills');
+  }
+});
+
+/**
+ * GET /api/legislation/watchlist
+ */
+router.get('/legislation/watchlist', authRequired(), async (req, res) => {
+  try {
+    res.json(await billTrackerService.listWatched(String((req as any).userId)));
+  } catch (error) {
+    handleError(res, error, 'Failed to load watched bills');
+  }
+});
+
+/**
+ * GET /api/legislation/:id
+ */
+router.get('/legislation/:id', async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid bill id' });
+
+  try {
+    const bill = await billTrackerService.get(id);
+    if (!bill) return res.status(404).json({ error: 'Bill not found' });
+    res.json(bill);
+  } catch (error) {
+    handleError(res, error, 'Failed to load bill');
+  }
+});
+
+/**
+ * POST /api/legislation/track
+ * Start tracking a bill by congress, type and number so it can be watched
+ */
+router.post('/legislation/track', authRequired(), async (req, res) => {
+  const parsed = BillIdentitySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid bill', details: parsed.error.issues });
+  }
+
+  try {
+    const { congress, type, number } = parsed.data;
+    res.status(201).json(await billTrackerService.track(congress, type, number));
+  } catch (error) {
+    handleError(res, error, 'Failed to track bill');
+  }
+});
+
+/**
+ * POST /api/legislation/:id/watch
+ * notifyOn 'stage' alerts on stage changes, 'all_actions' on every new action
+ */
+router.post('/legislation/:id/watch', authRequired(), async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid bill id' });
+
+  const parsed = WatchSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid watch request', details: parsed.error.issues });
+  }
+
+  try {
+    const item = await billTrackerService.watch(String((req as any).userId), id, parsed.data.notifyOn);
+    if (!item) return res.status(404).json({ error: 'Bill not found' });
+    res.json(item);
+  } catch (error) {
+    handleError(res, error, 'Failed to watch bill');
+  }
+});
+
+/**
+ * DELETE /api/legislation/:id/watch
+ */
+router.delete('/legislation/:id/watch', authRequired(), async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid bill id' });
+
+  try {
+    await billTrackerService.unwatch(String((req as any).userId), id);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to stop watching bill');
+  }
+});
+
+/**
+ * POST /api/legislation/sync
+ * Refresh one bill from congress.gov now
+ */
+router.post('/legislation/sync', requireAdmin, async (req, res) => {
+  const parsed = BillIdentitySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid bill', details: parsed.error.issues });
+  }
+
+  try {
+    const { congress, type, number } = parsed.data;
+    res.json(await billTrackerService.syncBill(congress, type, number));
+  } catch (error) {
+    handleError(res, error, 'Failed to sync bill');
+  }
+});
+
+/**
+ * POST /api/legislation/sync-updated
+ * Sync bills congress.gov reports as updated (since the last run by default)
+ */
+router.post('/legislation/sync-updated', requireAdmin, async (req, res) => {
+  const parsed = SyncUpdatedSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid sync request', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await billTrackerService.syncUpdated(parsed.data));
+  } catch (error) {
+    handleError(res, error, 'Failed to sync updated bills');
+  }
+});
+
+export default router;
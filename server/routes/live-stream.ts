@@ -0,0 +1,60 @@
+/**
+ * Live Stream API Routes
+ * Server-Sent Events feed of result deltas, race calls, date changes and
+ * candidate withdrawals. The WebSocket transport is served by the same
+ * service on /api/stream/ws.
+ */
+
+import { Router } from 'express';
+import { liveStreamService } from '../services/live-stream-service';
+import { parseSubscription, SubscriptionLimitError } from '../lib/live-stream';
+import { requireAdmin } from '../middleware/require-admin';
+
+const router = Router();
+
+const MAX_COUNTDOWN_SCOPE = 100;
+
+/**
+ * GET /api/stream?elections=1,2&states=GA&types=results,race_call
+ * Event stream for the given elections and states. Reconnecting clients
+ * send Last-Event-ID (or ?lastEventId=) to receive what they missed.
+ */
+router.get('/stream', async (req, res) => {
+  try {
+    await liveStreamService.handleSse(req, res);
+  } catch (error) {
+    console.error('Error opening live stream:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to open live stream' });
+    } else {
+      res.end();
+    }
+  }
+});
+
+/**
+ * GET /api/stream/countdowns?elections=1,2&states=GA
+ * One-off countdown snapshot for clients that cannot hold a stream open
+ */
+router.get('/stream/countdowns', async (req, res) => {
+  try {
+    const subscription = parseSubscription(req.query as Record<string, unknown>, MAX_COUNTDOWN_SCOPE);
+    res.json(await liveStreamService.getCountdowns(subscription));
+  } catch (error) {
+    if (error instanceof SubscriptionLimitError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error fetching countdowns:', error);
+    res.status(500).json({ error: 'Failed to fetch countdowns' });
+  }
+});
+
+/**
+ * GET /api/stream/status
+ * Open connections and buffer position (admin)
+ */
+router.get('/stream/status', requireAdmin, (req, res) => {
+  res.json(liveStreamService.getStatus());
+});
+
+export default router;
@@ -0,0 +1,266 @@
+/**
+ * Ballot Measure API Routes
+ * Propositions and local measures: listing, detail, admin upkeep of the
+ * measure text, endorsements and yes/no results, and the user's measure
+ * watchlist
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { authRequired } from '../auth';
+import { requireAdmin } from '../middleware/require-admin';
+import { ballotMeasureService, BallotMeasureError, type MeasureInput } from '../services/ballot-measure-service';
+import { measureOutcome, PASSAGE_THRESHOLDS } from '../lib/ballot-measures';
+
+const router = Router();
+
+const ListQuerySchema = z.object({
+  state: z.string().length(2).optional(),
+  electionId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  status: z.enum(['pending', 'passed', 'failed', 'withdrawn']).optional(),
+  q: z.string().min(2).max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional()
+});
+
+const CommitteeSchema = z.object({
+  name: z.string().min(1).max(300),
+  fecId: z.string().max(20).nullable().optional(),
+  stateId: z.string().max(50).nullable().optional(),
+  url: z.string().url().nullable().optional(),
+  raised: z.number().nonnegative().nullable().optional()
+});
+
+const EndorsementSchema = z.object({
+  name: z.string().min(1).max(300),
+  position: z.enum(['support', 'oppose']),
+  type: z.string().max(50).nullable().optional(),
+  url: z.string().url().nullable().optional()
+});
+
+const MeasureSchema = z.object({
+  electionId: z.number().int().positive().nullable().optional(),
+  state: z.string().length(2),
+  jurisdiction: z.string().max(200).nullable().optional(),
+  level: z.enum(['state', 'county', 'local']).default('state'),
+  electionDate: z.coerce.date(),
+  measureNumber: z.string().max(50).nullable().optional(),
+  title: z.string().min(3).max(500),
+  measureType: z.enum(['initiative', 'referendum', 'legislative', 'bond', 'charter', 'advisory']).optional(),
+  summary: z.string().max(10000).nullable().optional(),
+  fullTextUrl: z.string().url().nullable().optional(),
+  fiscalImpact: z.string().max(5000).nullable().optional(),
+  yesMeaning: z.string().max(2000).nullable().optional(),
+  noMeaning: z.string().max(2000).nullable().optional(),
+  passageThreshold: z.enum(Object.keys(PASSAGE_THRESHOLDS) as [keyof typeof PASSAGE_THRESHOLDS]).optional(),
+  supportingCommittees: z.array(CommitteeSchema).optional(),
+  opposingCommittees: z.array(CommitteeSchema).optional(),
+  endorsements: z.array(EndorsementSchema).optional(),
+  status: z.enum(['pending', 'passed', 'failed', 'withdrawn']).optional(),
+  tags: z.array(z.string().max(50)).max(20).optional(),
+  sourceUrl: z.string().url().nullable().optional()
+});
+
+const ResultsSchema = z.object({
+  yesVotes: z.number().int().nonnegative(),
+  noVotes: z.number().int().nonnegative(),
+  final: z.boolean().optional()
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  if (error instanceof BallotMeasureError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/** The measure with its current outcome against the passage threshold */
+function withOutcome<T extends Parameters<typeof measureOutcome>[0]>(measure: T) {
+  return { ...measure, outcome: measureOutcome(measure) };
+}
+
+/**
+ * GET /api/measures?state=&electionId=&from=&to=&status=&q=
+ * electionId returns the measures on that election's ballot
+ */
+router.get('/measures', async (req, res) => {
+  const parsed = ListQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid measure query', details: parsed.error.issues });
+  }
+
+  try {
+    const { q, ...filters } = parsed.data;
+    const measures = await ballotMeasureService.list({ ...filters, search: q });
+    res.json(measures.map(withOutcome));
+  } catch (error) {
+    handleError(res, error, 'Failed to load ballot measures');
+  }
+});
+
+/**
+ * GET /api/measures/watchlist
+ */
+router.get('/measures/watchlist', authRequired(), async (req, res) => {
+  try {
+    res.json(await ballotMeasureService.listWatched(String((req as any).userId)));
+  } catch (error) {
+    handleError(res, error, 'Failed to load measure watchlist');
+  }
+});
+
+/**
+ * GET /api/measures/:id
+ */
+router.get('/measures/:id', async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid measure id' });
+
+  try {
+    const measure = await ballotMeasureService.get(id);
+    if (!measure) return res.status(404).json({ error: 'Ballot measure not found' });
+    res.json(withOutcome(measure));
+  } catch (error) {
+    handleError(res, error, 'Failed to load ballot measure');
+  }
+});
+
+/**
+ * POST /api/measures
+ * Create, or update the measure with the same state, date and title
+ */
+router.post('/measures', requireAdmin, async (req, res) => {
+  const parsed = MeasureSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid ballot measure', details: parsed.error.issues });
+  }
+
+  try {
+    const measure = await ballotMeasureService.upsert(parsed.data as MeasureInput);
+    res.status(201).json(withOutcome(measure));
+  } catch (error) {
+    handleError(res, error, 'Failed to save ballot measure');
+  }
+});
+
+/**
+ * PATCH /api/measures/:id
+ */
+router.patch('/measures/:id', requireAdmin, async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid measure id' });
+
+  const parsed = MeasureSchema.partial().safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid ballot measure', details: parsed.error.issues });
+  }
+
+  try {
+    const measure = await ballotMeasureService.update(id, parsed.data as MeasureInput);
+    if (!measure) return res.status(404).json({ error: 'Ballot measure not found' });
+    res.json(withOutcome(measure));
+  } catch (error) {
+    handleError(res, error, 'Failed to update ballot measure');
+  }
+});
+
+/**
+ * DELETE /api/measures/:id
+ */
+router.delete('/measures/:id', requireAdmin, async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid measure id' });
+
+  try {
+    const deleted = await ballotMeasureService.remove(id);
+    if (!deleted) return res.status(404).json({ error: 'Ballot measure not found' });
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete ballot measure');
+  }
+});
+
+/**
+ * POST /api/measures/:id/endorsements
+ * Add an endorsement, replacing any earlier one from the same endorser
+ */
+router.post('/measures/:id/endorsements', requireAdmin, async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid measure id' });
+
+  const parsed = EndorsementSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid endorsement', details: parsed.error.issues });
+  }
+
+  try {
+    const measure = await ballotMeasureService.addEndorsement(id, parsed.data as any);
+    if (!measure) return res.status(404).json({ error: 'Ballot measure not found' });
+    res.json(withOutcome(measure));
+  } catch (error) {
+    handleError(res, error, 'Failed to add endorsement');
+  }
+});
+
+/**
+ * PUT /api/measures/:id/results
+ * Yes/no counts; final: true settles passed or failed
+ */
+router.put('/measures/:id/results', requireAdmin, async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid measure id' });
+
+  const parsed = ResultsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid results', details: parsed.error.issues });
+  }
+
+  try {
+    const measure = await ballotMeasureService.recordResults(id, parsed.data as { yesVotes: number; noVotes: number; final?: boolean });
+    if (!measure) return res.status(404).json({ error: 'Ballot measure not found' });
+    res.json(withOutcome(measure));
+  } catch (error) {
+    handleError(res, error, 'Failed to record measure results');
+  }
+});
+
+/**
+ * POST /api/measures/:id/watch
+ */
+router.post('/measures/:id/watch', authRequired(), async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid measure id' });
+
+  try {
+    const addedVia = req.body?.addedVia === 'recommendation' ? 'recommendation' : 'manual';
+    const item = await ballotMeasureService.watch(String((req as any).userId), id, addedVia);
+    if (!item) return res.status(404).json({ error: 'Ballot measure not found' });
+    res.json(item);
+  } catch (error) {
+    handleError(res, error, 'Failed to add measure to watchlist');
+  }
+});
+
+/**
+ * DELETE /api/measures/:id/watch
+ */
+router.delete('/measures/:id/watch', authRequired(), async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid measure id' });
+
+  try {
+    await ballotMeasureService.unwatch(String((req as any).userId), id);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to remove measure from watchlist');
+  }
+});
+
+export default router;
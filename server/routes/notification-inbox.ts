@@ -0,0 +1,93 @@
+/**
+ * Notification Inbox API Routes
+ * A signed-in user's in-app notifications - list them, count the unread,
+ * mark them read and archive them
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { authRequired } from '../auth';
+import { notificationInboxService } from '../services/notification-inbox-service';
+
+const router = Router();
+
+const ListQuerySchema = z.object({
+  view: z.enum(['inbox', 'unread', 'archived']).optional(),
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional()
+});
+
+const IdsSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(500)
+});
+
+const ReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(500).optional()
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+/**
+ * GET /api/inbox
+ */
+router.get('/inbox', authRequired(), async (req, res) => {
+  const parsed = ListQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid inbox query', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await notificationInboxService.list(String((req as any).userId), parsed.data));
+  } catch (error) {
+    handleError(res, error, 'Failed to load inbox');
+  }
+});
+
+/**
+ * GET /api/inbox/unread-count
+ */
+router.get('/inbox/unread-count', authRequired(), async (req, res) => {
+  try {
+    res.json({ unread: await notificationInboxService.unreadCount(String((req as any).userId)) });
+  } catch (error) {
+    handleError(res, error, 'Failed to count unread notifications');
+  }
+});
+
+/**
+ * POST /api/inbox/read
+ * Mark the given messages read, or all of them when no IDs are sent
+ */
+router.post('/inbox/read', authRequired(), async (req, res) => {
+  const parsed = ReadSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid read request', details: parsed.error.issues });
+  }
+
+  try {
+    res.json({ updated: await notificationInboxService.markRead(String((req as any).userId), parsed.data.ids) });
+  } catch (error) {
+    handleError(res, error, 'Failed to mark notifications read');
+  }
+});
+
+/**
+ * POST /api/inbox/archive
+ */
+router.post('/inbox/archive', authRequired(), async (req, res) => {
+  const parsed = IdsSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid archive request', details: parsed.error.issues });
+  }
+
+  try {
+    res.json({ updated: await notificationInboxService.archive(String((req as any).userId), parsed.data.ids) });
+  } catch (error) {
+    handleError(res, error, 'Failed to archive notifications');
+  }
+});
+
+export default router;
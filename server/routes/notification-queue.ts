@@ -0,0 +1,112 @@
+/**
+ * Notification Queue API Routes
+ * Admin view of the durable delivery queue, and the dead letters it gave
+ * up on - inspect them, replay them onto the queue, or purge them
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAdmin } from '../middleware/require-admin';
+import { notificationQueueService, NotificationQueueError } from '../services/notification-queue-service';
+
+const router = Router();
+
+const DeadLetterQuerySchema = z.object({
+  reason: z.enum(['retries_exhausted', 'permanent', 'expired']).optional(),
+  channel: z.string().max(20).optional(),
+  includeReplayed: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional()
+});
+
+const PurgeSchema = z.object({
+  ids: z.array(z.number().int().positive()).max(1000).optional(),
+  before: z.coerce.date().optional()
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  if (error instanceof NotificationQueueError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/admin/notification-queue/stats
+ */
+router.get('/admin/notification-queue/stats', requireAdmin, async (req, res) => {
+  try {
+    res.json(await notificationQueueService.getQueueStats());
+  } catch (error) {
+    handleError(res, error, 'Failed to load queue stats');
+  }
+});
+
+/**
+ * GET /api/admin/notification-queue/status
+ * Stats plus what is waiting, in flight, and recently dead-lettered
+ */
+router.get('/admin/notification-queue/status', requireAdmin, async (req, res) => {
+  try {
+    res.json(await notificationQueueService.getDetailedStatus());
+  } catch (error) {
+    handleError(res, error, 'Failed to load queue status');
+  }
+});
+
+/**
+ * GET /api/admin/notification-queue/dead-letters?reason=&channel=&includeReplayed=&limit=
+ */
+router.get('/admin/notification-queue/dead-letters', requireAdmin, async (req, res) => {
+  const parsed = DeadLetterQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid dead letter query', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await notificationQueueService.listDeadLetters(parsed.data));
+  } catch (error) {
+    handleError(res, error, 'Failed to load dead letters');
+  }
+});
+
+/**
+ * POST /api/admin/notification-queue/dead-letters/:id/replay
+ */
+router.post('/admin/notification-queue/dead-letters/:id/replay', requireAdmin, async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid dead letter ID' });
+
+  try {
+    const actor = (req as any).user?.email ?? 'system_admin';
+    const letter = await notificationQueueService.replayDeadLetter(id, actor);
+    if (!letter) return res.status(404).json({ error: 'Dead letter not found' });
+    res.json(letter);
+  } catch (error) {
+    handleError(res, error, 'Failed to replay dead letter');
+  }
+});
+
+/**
+ * POST /api/admin/notification-queue/dead-letters/purge
+ * Delete dead letters by ID or everything that failed before a date
+ */
+router.post('/admin/notification-queue/dead-letters/purge', requireAdmin, async (req, res) => {
+  const parsed = PurgeSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid purge request', details: parsed.error.issues });
+  }
+
+  try {
+    res.json({ purged: await notificationQueueService.purgeDeadLetters(parsed.data) });
+  } catch (error) {
+    handleError(res, error, 'Failed to purge dead letters');
+  }
+});
+
+export default router;
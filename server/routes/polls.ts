@@ -1,9 +1,13 @@
 import { Router } from "express";
 import { pool } from "../db";
+import { partyCodeSql, pollsterJoinSql } from "../services/pollster-rating-service";
 
 const router = Router();
 
-/** GET /api/elections/:id/polls/summary */
+/**
+ * GET /api/elections/:id/polls/summary
+ * adj_avg21 removes each pollster's persisted house effect for the candidate's party
+ */
 router.get("/elections/:id/polls/summary", async (req, res, next) => {
   try {
     const id = Number(req.params.id);
@@ -12,14 +16,21 @@ router.get("/elections/:id/polls/summary", async (req, res, next) => {
         SELECT pr.candidate_id,
                COALESCE(c.name, pr.option) AS label,
                p.end_date::date AS d,
-               pr.pct::float AS pct
+               pr.pct::float AS pct,
+               pr.pct::float - COALESCE(he.effect::float, 0) AS adj_pct
         FROM polls p
         JOIN poll_results pr ON pr.poll_id = p.id
         LEFT JOIN candidates c ON c.id = pr.candidate_id
+        ${pollsterJoinSql("p.pollster")}
+        LEFT JOIN pollster_house_effects he
+               ON he.pollster_id = ps.id
+              AND c.id IS NOT NULL
+              AND he.party = ${partyCodeSql("c.party")}
         WHERE p.election_id = $1
       )
       SELECT label,
              AVG(pct) FILTER (WHERE d >= (current_date - INTERVAL '21 days')) AS avg21,
+             AVG(adj_pct) FILTER (WHERE d >= (current_date - INTERVAL '21 days')) AS adj_avg21,
              MAX(d) AS last_date
       FROM r
       GROUP BY label
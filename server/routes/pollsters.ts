@@ -0,0 +1,151 @@
+/**
+ * Pollster Registry API Routes
+ * Pollster ratings, aliases and house-effect estimates
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { pollsterRatingService, type PollsterInput } from '../services/pollster-rating-service';
+import { requireAdmin } from '../middleware/require-admin';
+
+const router = Router();
+
+const PollsterSchema = z.object({
+  name: z.string().min(2, 'Pollster name must be at least 2 characters'),
+  aliases: z.array(z.string()).default([]),
+  methodology: z.enum(['live_phone', 'online_panel', 'ivr', 'text', 'mail', 'mixed']).optional(),
+  isPartisanSponsor: z.boolean().optional(),
+  sponsorParty: z.enum(['D', 'R']).optional(),
+  website: z.string().url().optional()
+});
+
+const HouseEffectQuerySchema = z.object({
+  windowDays: z.coerce.number().int().min(7).max(3650).optional(),
+  electionId: z.coerce.number().int().positive().optional()
+});
+
+/**
+ * GET /api/pollsters
+ * List the registry with accuracy statistics and grades
+ */
+router.get('/', async (req, res) => {
+  try {
+    const pollsters = await pollsterRatingService.listPollsters();
+    res.json({ pollsters, count: pollsters.length });
+  } catch (error) {
+    console.error('Error listing pollsters:', error);
+    res.status(500).json({ error: 'Failed to list pollsters' });
+  }
+});
+
+/**
+ * POST /api/pollsters
+ * Create or update a registry entry (admin)
+ */
+router.post('/', requireAdmin, async (req, res) => {
+  try {
+    const validationResult = PollsterSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid pollster',
+        details: validationResult.error.issues
+      });
+    }
+
+    const pollster = await pollsterRatingService.registerPollster(validationResult.data as PollsterInput);
+    res.status(201).json(pollster);
+  } catch (error) {
+    console.error('Error registering pollster:', error);
+    res.status(500).json({ error: 'Failed to register pollster' });
+  }
+});
+
+/**
+ * POST /api/pollsters/recompute
+ * Recompute accuracy ratings and persisted house effects (admin)
+ */
+router.post('/recompute', requireAdmin, async (req, res) => {
+  try {
+    const { windowDays } = HouseEffectQuerySchema.parse(req.body ?? {});
+    const pollsters = await pollsterRatingService.recomputeRatings();
+    const houseEffects = await pollsterRatingService.refreshHouseEffects(windowDays);
+    res.json({
+      pollsters: pollsters.length,
+      rated: pollsters.filter(p => p.grade).length,
+      houseEffects: houseEffects.length,
+      recomputedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid parameters', details: error.issues });
+    }
+    console.error('Error recomputing pollster ratings:', error);
+    res.status(500).json({ error: 'Failed to recompute pollster ratings' });
+  }
+});
+
+/**
+ * GET /api/pollsters/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid pollster ID' });
+    }
+
+    const pollster = await pollsterRatingService.getPollster(id);
+    if (!pollster) {
+      return res.status(404).json({ error: 'Pollster not found' });
+    }
+
+    res.json(pollster);
+  } catch (error) {
+    console.error('Error fetching pollster:', error);
+    res.status(500).json({ error: 'Failed to fetch pollster' });
+  }
+});
+
+/**
+ * GET /api/pollsters/:id/house-effect
+ * Live estimate (optionally scoped to one election) alongside the
+ * persisted adjustment currently applied to poll summaries
+ */
+router.get('/:id/house-effect', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid pollster ID' });
+    }
+
+    const validationResult = HouseEffectQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validationResult.error.issues
+      });
+    }
+
+    const pollster = await pollsterRatingService.getPollster(id);
+    if (!pollster) {
+      return res.status(404).json({ error: 'Pollster not found' });
+    }
+
+    const [estimate, applied] = await Promise.all([
+      pollsterRatingService.estimateHouseEffect(pollster, validationResult.data),
+      pollsterRatingService.getHouseEffects(id)
+    ]);
+
+    res.json({
+      pollster: { id: pollster.id, name: pollster.name, grade: pollster.grade },
+      estimate,
+      applied
+    });
+  } catch (error) {
+    console.error('Error estimating house effect:', error);
+    res.status(500).json({ error: 'Failed to estimate house effect' });
+  }
+});
+
+export default router;
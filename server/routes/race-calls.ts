@@ -0,0 +1,153 @@
+/**
+ * Race Call API Routes
+ * Projections, race calls and retractions with their audit trail
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { raceCallService } from '../services/race-call-service';
+import { requireAdmin } from '../middleware/require-admin';
+
+const router = Router();
+
+const ManualCallSchema = z.object({
+  candidateId: z.number().int(),
+  reason: z.string().min(3).max(500),
+  callType: z.enum(['projected', 'declared']).optional()
+});
+
+const RetractSchema = z.object({
+  reason: z.string().min(3).max(500)
+});
+
+function actorFor(req: any): string {
+  return req.user?.id ? String(req.user.id) : req.user?.email ?? 'admin';
+}
+
+/**
+ * GET /api/elections/:id/projection
+ * Current projection for the race without recording anything
+ */
+router.get('/elections/:id/projection', async (req, res) => {
+  try {
+    const electionId = parseInt(req.params.id);
+    if (isNaN(electionId)) {
+      return res.status(400).json({ error: 'Invalid election ID' });
+    }
+
+    const evaluation = await raceCallService.evaluate(electionId);
+    if (!evaluation) {
+      return res.status(404).json({ error: 'No candidates found for election' });
+    }
+
+    res.json(evaluation);
+  } catch (error) {
+    console.error('Error evaluating projection:', error);
+    res.status(500).json({ error: 'Failed to evaluate projection' });
+  }
+});
+
+/**
+ * GET /api/elections/:id/race-calls
+ * Active call, every call ever made and the audit log for the race
+ */
+router.get('/elections/:id/race-calls', async (req, res) => {
+  try {
+    const electionId = parseInt(req.params.id);
+    if (isNaN(electionId)) {
+      return res.status(400).json({ error: 'Invalid election ID' });
+    }
+
+    res.json(await raceCallService.getCallHistory(electionId));
+  } catch (error) {
+    console.error('Error fetching race calls:', error);
+    res.status(500).json({ error: 'Failed to fetch race calls' });
+  }
+});
+
+/**
+ * POST /api/elections/:id/race-calls/evaluate
+ * Run the projection engine now, calling or retracting as needed (admin)
+ */
+router.post('/elections/:id/race-calls/evaluate', requireAdmin, async (req, res) => {
+  try {
+    const electionId = parseInt(req.params.id);
+    if (isNaN(electionId)) {
+      return res.status(400).json({ error: 'Invalid election ID' });
+    }
+
+    const outcome = await raceCallService.runProjection(electionId);
+    if (!outcome) {
+      return res.status(404).json({ error: 'No candidates found for election' });
+    }
+
+    res.json(outcome);
+  } catch (error) {
+    console.error('Error running race projection:', error);
+    res.status(500).json({ error: 'Failed to run race projection' });
+  }
+});
+
+/**
+ * POST /api/elections/:id/race-calls
+ * Record a manual call (admin)
+ */
+router.post('/elections/:id/race-calls', requireAdmin, async (req, res) => {
+  try {
+    const electionId = parseInt(req.params.id);
+    if (isNaN(electionId)) {
+      return res.status(400).json({ error: 'Invalid election ID' });
+    }
+
+    const validationResult = ManualCallSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid race call',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { candidateId, reason, callType } = validationResult.data;
+    const call = await raceCallService.manualCall(electionId, candidateId, actorFor(req), reason, callType);
+    res.status(201).json(call);
+  } catch (error: any) {
+    console.error('Error recording race call:', error);
+    if (error?.message?.includes('is not running')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to record race call' });
+  }
+});
+
+/**
+ * POST /api/race-calls/:callId/retract
+ * Retract an active call (admin)
+ */
+router.post('/race-calls/:callId/retract', requireAdmin, async (req, res) => {
+  try {
+    const callId = parseInt(req.params.callId);
+    if (isNaN(callId)) {
+      return res.status(400).json({ error: 'Invalid race call ID' });
+    }
+
+    const validationResult = RetractSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid retraction',
+        details: validationResult.error.issues
+      });
+    }
+
+    const call = await raceCallService.retractCall(callId, actorFor(req), validationResult.data.reason);
+    if (!call) {
+      return res.status(404).json({ error: 'Active race call not found' });
+    }
+
+    res.json(call);
+  } catch (error) {
+    console.error('Error retracting race call:', error);
+    res.status(500).json({ error: 'Failed to retract race call' });
+  }
+});
+
+export default router;
@@ -0,0 +1,167 @@
+/**
+ * Ranked-Choice Voting API Routes
+ * Voting-method metadata, CVR tabulation and round-by-round results
+ */
+
+import express, { Router } from 'express';
+import { z } from 'zod';
+import { rcvService, RcvInputError, VOTING_METHODS } from '../services/rcv-service';
+import { RCV_RULE_PRESETS } from '../lib/rcv-tabulation';
+import { requireAdmin } from '../middleware/require-admin';
+
+const router = Router();
+
+const RcvOptionsSchema = z.object({
+  seats: z.number().int().min(1).max(50).optional(),
+  overvoteRule: z.enum(['exhaust', 'skip']).optional(),
+  maxConsecutiveSkips: z.number().int().min(1).nullable().optional(),
+  maxRankings: z.number().int().min(1).nullable().optional(),
+  batchElimination: z.boolean().optional(),
+  continueUntilTwoRemain: z.boolean().optional()
+});
+
+const VotingMethodSchema = z.object({
+  votingMethod: z.enum(VOTING_METHODS),
+  rcvRules: RcvOptionsSchema.extend({
+    preset: z.enum(Object.keys(RCV_RULE_PRESETS) as [string, ...string[]]).nullable().optional()
+  }).nullable().optional()
+});
+
+const TabulateSchema = z.object({
+  cvr: z.unknown(),
+  format: z.enum(['simple', 'dominion', 'nist']).nullable().optional(),
+  manifests: z.object({
+    candidates: z.unknown().optional(),
+    contests: z.unknown().optional()
+  }).optional(),
+  contest: z.string().nullable().optional(),
+  options: RcvOptionsSchema.optional(),
+  status: z.enum(['preliminary', 'final']).optional(),
+  source: z.string().max(500).nullable().optional()
+});
+
+// Full CVR exports run far past the default JSON limit, so they can also be
+// uploaded as a raw body with the remaining fields in the query string. The
+// upload is held as bytes, text and parsed ballots at once while it is read,
+// so keep the limit modest and split larger exports by contest.
+const rawCvr = express.raw({ type: 'application/octet-stream', limit: process.env.RCV_CVR_UPLOAD_LIMIT || '50mb' });
+
+function actorFor(req: any): string {
+  return req.user?.id ? String(req.user.id) : req.user?.email ?? 'admin';
+}
+
+/**
+ * GET /api/elections/:id/rcv
+ * Latest tabulation with every round, plus earlier runs
+ */
+router.get('/elections/:id/rcv', async (req, res) => {
+  try {
+    const electionId = parseInt(req.params.id);
+    if (isNaN(electionId)) {
+      return res.status(400).json({ error: 'Invalid election ID' });
+    }
+
+    const tabulations = await rcvService.listTabulations(electionId);
+    if (tabulations.length === 0) {
+      return res.status(404).json({ error: 'No ranked-choice tabulation for election' });
+    }
+
+    res.json({
+      latest: tabulations[0],
+      history: tabulations.slice(1).map(({ rounds, ...summary }) => summary)
+    });
+  } catch (error) {
+    console.error('Error fetching RCV tabulation:', error);
+    res.status(500).json({ error: 'Failed to fetch ranked-choice tabulation' });
+  }
+});
+
+/**
+ * PUT /api/admin/elections/:id/voting-method
+ * Set plurality / RCV / top-two / runoff and the RCV counting rules (admin)
+ */
+router.put('/admin/elections/:id/voting-method', requireAdmin, async (req, res) => {
+  try {
+    const electionId = parseInt(req.params.id);
+    if (isNaN(electionId)) {
+      return res.status(400).json({ error: 'Invalid election ID' });
+    }
+
+    const validationResult = VotingMethodSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid voting method',
+        details: validationResult.error.issues
+      });
+    }
+
+    const { votingMethod, rcvRules } = validationResult.data;
+    const election = await rcvService.setVotingMethod(electionId, votingMethod, rcvRules ?? null);
+    if (!election) {
+      return res.status(404).json({ error: 'Election not found' });
+    }
+
+    res.json(election);
+  } catch (error) {
+    console.error('Error updating voting method:', error);
+    res.status(500).json({ error: 'Failed to update voting method' });
+  }
+});
+
+/**
+ * POST /api/admin/elections/:id/rcv/tabulate
+ * Tabulate a cast vote record export (admin). JSON body
+ * {cvr, format?, manifests?, contest?, options?, status?}, or the CVR file
+ * itself as application/octet-stream with format/contest/status/source as
+ * query parameters.
+ */
+router.post('/admin/elections/:id/rcv/tabulate', requireAdmin, rawCvr, async (req, res) => {
+  try {
+    const electionId = parseInt(req.params.id);
+    if (isNaN(electionId)) {
+      return res.status(400).json({ error: 'Invalid election ID' });
+    }
+
+    let body: unknown = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      const text = req.body.toString('utf8');
+      // Let the bytes go before parsing so only the text and the ballots remain
+      req.body = undefined;
+      try {
+        body = { ...req.query, cvr: JSON.parse(text) };
+      } catch {
+        return res.status(400).json({ error: 'CVR upload is not valid JSON' });
+      }
+    }
+
+    const validationResult = TabulateSchema.safeParse(body);
+    if (!validationResult.success || validationResult.data.cvr === undefined) {
+      return res.status(400).json({
+        error: 'Invalid tabulation request',
+        details: validationResult.success ? [{ path: ['cvr'], message: 'Required' }] : validationResult.error.issues
+      });
+    }
+
+    const { cvr, format, manifests, contest, options, status, source } = validationResult.data;
+    const tabulation = await rcvService.tabulate(electionId, {
+      payload: cvr,
+      format,
+      manifests,
+      contest,
+      options,
+      status,
+      source,
+      actor: actorFor(req)
+    });
+
+    res.status(201).json(tabulation);
+  } catch (error) {
+    if (error instanceof RcvInputError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error tabulating RCV contest:', error);
+    res.status(500).json({ error: 'Failed to tabulate ranked-choice contest' });
+  }
+});
+
+export default router;
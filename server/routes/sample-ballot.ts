@@ -0,0 +1,152 @@
+/**
+ * Sample Ballot API Routes
+ * Ballot composition for an address, saved picks and the printable
+ * cheat sheet
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { authRequired } from '../auth';
+import { sampleBallotService, SampleBallotError } from '../services/sample-ballot-service';
+import type { BallotPicks } from '../lib/sample-ballot';
+
+const router = Router();
+
+const ElectionDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+const BallotQuerySchema = z.object({
+  address: z.string().min(5).max(500),
+  date: ElectionDate.optional()
+});
+
+const PicksSchema = z.record(z.string().max(200), z.object({
+  choice: z.string().min(1).max(200),
+  note: z.string().max(500).nullable().optional()
+}));
+
+// The ballot itself is always rebuilt on the server from the address, so
+// picks are checked against the contests actually on it
+const SavePicksSchema = z.object({
+  address: z.string().min(5).max(500),
+  electionDate: ElectionDate.nullable().optional(),
+  picks: PicksSchema
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  if (error instanceof SampleBallotError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+/**
+ * GET /api/ballot/sample?address=&date=
+ * Every contest on the ballot for the address, in ballot order
+ */
+router.get('/ballot/sample', async (req, res) => {
+  const parsed = BallotQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid ballot request', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await sampleBallotService.buildBallot(parsed.data.address, parsed.data.date));
+  } catch (error) {
+    handleError(res, error, 'Failed to build sample ballot');
+  }
+});
+
+/**
+ * GET /api/ballot/saved
+ */
+router.get('/ballot/saved', authRequired(), async (req, res) => {
+  try {
+    const userId = String((req as any).userId);
+    res.json(await sampleBallotService.listSaved(userId));
+  } catch (error) {
+    handleError(res, error, 'Failed to load saved ballots');
+  }
+});
+
+/**
+ * PUT /api/ballot/saved
+ * Save picks for an address and election day (one saved ballot per pair)
+ */
+router.put('/ballot/saved', authRequired(), async (req, res) => {
+  const parsed = SavePicksSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid picks', details: parsed.error.issues });
+  }
+
+  try {
+    const userId = String((req as any).userId);
+    const { saved, dropped } = await sampleBallotService.savePicks(userId, {
+      address: parsed.data.address,
+      electionDate: parsed.data.electionDate,
+      picks: parsed.data.picks as BallotPicks
+    });
+    res.json({ saved, dropped });
+  } catch (error) {
+    handleError(res, error, 'Failed to save picks');
+  }
+});
+
+/**
+ * GET /api/ballot/saved/:id
+ */
+router.get('/ballot/saved/:id', authRequired(), async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isFinite(id)) return res.status(400).json({ error: 'Invalid ballot id' });
+
+  try {
+    const saved = await sampleBallotService.getSaved(String((req as any).userId), id);
+    if (!saved) return res.status(404).json({ error: 'Saved ballot not found' });
+    res.json(saved);
+  } catch (error) {
+    handleError(res, error, 'Failed to load saved ballot');
+  }
+});
+
+/**
+ * GET /api/ballot/saved/:id/cheat-sheet(.pdf)
+ * The picks as a printable page; the .pdf form downloads a PDF
+ */
+router.get(['/ballot/saved/:id/cheat-sheet', '/ballot/saved/:id/cheat-sheet.pdf'], authRequired(), async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isFinite(id)) return res.status(400).json({ error: 'Invalid ballot id' });
+
+  try {
+    const saved = await sampleBallotService.getSaved(String((req as any).userId), id);
+    if (!saved) return res.status(404).json({ error: 'Saved ballot not found' });
+
+    if (!req.path.endsWith('.pdf')) {
+      return res.type('html').send(sampleBallotService.renderCheatSheet(saved));
+    }
+
+    const pdf = await sampleBallotService.renderCheatSheetPdf(saved);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="ballot-${saved.electionDate}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    handleError(res, error, 'Failed to render cheat sheet');
+  }
+});
+
+/**
+ * DELETE /api/ballot/saved/:id
+ */
+router.delete('/ballot/saved/:id', authRequired(), async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isFinite(id)) return res.status(400).json({ error: 'Invalid ballot id' });
+
+  try {
+    const deleted = await sampleBallotService.deleteSaved(String((req as any).userId), id);
+    if (!deleted) return res.status(404).json({ error: 'Saved ballot not found' });
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete saved ballot');
+  }
+});
+
+export default router;
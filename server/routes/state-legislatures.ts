@@ -0,0 +1,164 @@
+/**
+ * State Legislatures API Routes
+ * State legislators, chambers, session calendars and bills synced from
+ * OpenStates bulk data, and the sitting legislators in each state
+ * legislative race
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAdmin } from '../middleware/require-admin';
+import { stateLegislatureService, StateLegislatureError } from '../services/state-legislature-service';
+
+const router = Router();
+
+const CHAMBERS = ['upper', 'lower', 'legislature'] as const;
+
+const LegislatorQuerySchema = z.object({
+  chamber: z.enum(CHAMBERS).optional(),
+  district: z.string().max(100).optional(),
+  includeFormer: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+});
+
+const BillQuerySchema = z.object({
+  session: z.string().max(50).optional(),
+  q: z.string().min(2).max(200).optional(),
+  subject: z.string().max(200).optional(),
+  sponsor: z.string().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional()
+});
+
+const SyncSchema = z.object({
+  state: z.string().length(2).optional(),
+  datasets: z.array(z.enum(['jurisdiction', 'people', 'bills'])).min(1).optional()
+});
+
+const LinkSchema = z.object({
+  state: z.string().length(2).optional()
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  if (error instanceof StateLegislatureError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/state-legislatures/:state/chambers
+ */
+router.get('/state-legislatures/:state/chambers', async (req, res) => {
+  try {
+    res.json(await stateLegislatureService.listChambers(req.params.state));
+  } catch (error) {
+    handleError(res, error, 'Failed to load chambers');
+  }
+});
+
+/**
+ * GET /api/state-legislatures/:state/legislators?chamber=&district=&includeFormer=
+ * district is only applied together with chamber
+ */
+router.get('/state-legislatures/:state/legislators', async (req, res) => {
+  const parsed = LegislatorQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid legislator query', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await stateLegislatureService.listLegislators(req.params.state, parsed.data));
+  } catch (error) {
+    handleError(res, error, 'Failed to load legislators');
+  }
+});
+
+/**
+ * GET /api/state-legislatures/:state/sessions
+ */
+router.get('/state-legislatures/:state/sessions', async (req, res) => {
+  try {
+    res.json(await stateLegislatureService.listSessions(req.params.state));
+  } catch (error) {
+    handleError(res, error, 'Failed to load sessions');
+  }
+});
+
+/**
+ * GET /api/state-legislatures/:state/bills?session=&q=&subject=&sponsor=
+ * sponsor is an OpenStates person id
+ */
+router.get('/state-legislatures/:state/bills', async (req, res) => {
+  const parsed = BillQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid bill query', details: parsed.error.issues });
+  }
+
+  try {
+    const { q, ...filters } = parsed.data;
+    res.json(await stateLegislatureService.searchBills(req.params.state, { ...filters, search: q }));
+  } catch (error) {
+    handleError(res, error, 'Failed to search state bills');
+  }
+});
+
+/**
+ * GET /api/state-legislatures/elections/:id/incumbents
+ * The legislators currently holding the seat a state legislative race is for
+ */
+router.get('/state-legislatures/elections/:id/incumbents', async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid election id' });
+
+  try {
+    const seat = await stateLegislatureService.getIncumbents(id);
+    if (!seat) return res.status(404).json({ error: 'Election not found' });
+    res.json(seat);
+  } catch (error) {
+    handleError(res, error, 'Failed to load incumbents');
+  }
+});
+
+/**
+ * POST /api/state-legislatures/sync
+ * Sync one state, or every state when none is given
+ */
+router.post('/state-legislatures/sync', requireAdmin, async (req, res) => {
+  const parsed = SyncSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid sync request', details: parsed.error.issues });
+  }
+
+  try {
+    const { state, datasets } = parsed.data;
+    res.json(state
+      ? [await stateLegislatureService.syncState(state, { datasets })]
+      : await stateLegislatureService.syncAllStates({ datasets }));
+  } catch (error) {
+    handleError(res, error, 'Failed to sync state legislatures');
+  }
+});
+
+/**
+ * POST /api/state-legislatures/link-incumbents
+ */
+router.post('/state-legislatures/link-incumbents', requireAdmin, async (req, res) => {
+  const parsed = LinkSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid link request', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await stateLegislatureService.linkIncumbents(parsed.data.state));
+  } catch (error) {
+    handleError(res, error, 'Failed to link state legislative incumbents');
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from "express";
 import { z } from "zod";
 import { authRequired } from "../auth";
 import { storage } from "../storage";
+import { districtBoundaryService } from "../services/district-boundary-service";
 import { 
   updateUserPreferencesSchema, 
   insertUserPreferencesSchema,
@@ -154,7 +155,7 @@ router.get("/preferences/congressional-districts", authRequired(), async (req, r
 // POST /api/user/preferences/lookup-district - Lookup congressional district by location
 router.post("/preferences/lookup-district", authRequired(), async (req, res) => {
   try {
-    const { state, city, zipCode } = req.body;
+    const { state, city, zipCode, latitude, longitude } = req.body;
     
     if (!state) {
       return res.status(400).json({
@@ -162,7 +163,13 @@ router.post("/preferences/lookup-district", authRequired(), async (req, res) =>
       });
     }
     
-    const district = await storage.lookupCongressionalDistrict(state, city, zipCode);
+    // A point inside a loaded boundary beats matching on city/ZIP, which splits badly
+    let district = null;
+    if (Number.isFinite(latitude) && Number.isFinite(longitude)) {
+      const districtCode = await districtBoundaryService.congressionalDistrictAt(latitude, longitude);
+      if (districtCode) district = await storage.getCongressionalDistrictByCode(districtCode);
+    }
+    district = district ?? await storage.lookupCongressionalDistrict(state, city, zipCode);
     
     if (!district) {
       return res.status(404).json({
@@ -173,7 +180,7 @@ router.post("/preferences/lookup-district", authRequired(), async (req, res) =>
     res.json({
       success: true,
       district,
-      location: { state, city, zipCode }
+      location: { state, city, zipCode, latitude, longitude }
     });
   } catch (error) {
     console.error('Error looking up congressional district:', error);
@@ -0,0 +1,140 @@
+/**
+ * Voting Record API Routes
+ * Incumbents' congressional voting records - party-line voting, missed
+ * votes, bipartisan co-sponsorship and key votes - plus admin sync of
+ * roll calls and co-sponsorships and key-vote curation
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAdmin } from '../middleware/require-admin';
+import { votingRecordService, VotingRecordError } from '../services/voting-record-service';
+
+const router = Router();
+
+const RecordQuerySchema = z.object({
+  congress: z.coerce.number().int().min(100).max(200).optional()
+});
+
+const SyncSchema = z.object({
+  chamber: z.enum(['House', 'Senate']),
+  congress: z.number().int().min(100).max(200),
+  session: z.number().int().min(1).max(3),
+  limit: z.number().int().min(1).max(1000).optional()
+});
+
+const RollCallUpdateSchema = z.object({
+  isKeyVote: z.boolean().optional(),
+  issueCategory: z.string().max(100).nullable().optional()
+});
+
+const CosponsorSyncSchema = z.object({
+  limit: z.number().int().min(1).max(250).optional()
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  if (error instanceof VotingRecordError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/candidates/:id/voting-record?congress=
+ * Empty record (member: null) for candidates who have not served
+ */
+router.get('/candidates/:id/voting-record', async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid candidate id' });
+
+  const parsed = RecordQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid voting record query', details: parsed.error.issues });
+  }
+
+  try {
+    const record = await votingRecordService.getVotingRecord(id, parsed.data);
+    if (!record) return res.status(404).json({ error: 'Candidate not found' });
+    res.json(record);
+  } catch (error) {
+    handleError(res, error, 'Failed to load voting record');
+  }
+});
+
+/**
+ * POST /api/voting-records/sync
+ * Store the session's roll calls not stored yet, up to limit
+ */
+router.post('/voting-records/sync', requireAdmin, async (req, res) => {
+  const parsed = SyncSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid sync request', details: parsed.error.issues });
+  }
+
+  try {
+    const { chamber, congress, session, limit } = parsed.data;
+    const report = chamber === 'House'
+      ? await votingRecordService.syncHouseVotes(congress, session, { limit })
+      : await votingRecordService.syncSenateVotes(congress, session, { limit });
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, 'Failed to sync roll call votes');
+  }
+});
+
+/**
+ * POST /api/voting-records/link-incumbents
+ */
+router.post('/voting-records/link-incumbents', requireAdmin, async (_req, res) => {
+  try {
+    res.json(await votingRecordService.linkIncumbents());
+  } catch (error) {
+    handleError(res, error, 'Failed to link incumbents');
+  }
+});
+
+/**
+ * PATCH /api/voting-records/roll-calls/:id
+ * Mark or unmark a key vote, or recategorize it
+ */
+router.patch('/voting-records/roll-calls/:id', requireAdmin, async (req, res) => {
+  const id = parseId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid roll call id' });
+
+  const parsed = RollCallUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid roll call update', details: parsed.error.issues });
+  }
+
+  try {
+    const rollCall = await votingRecordService.setKeyVote(id, parsed.data);
+    if (!rollCall) return res.status(404).json({ error: 'Roll call not found' });
+    res.json(rollCall);
+  } catch (error) {
+    handleError(res, error, 'Failed to update roll call');
+  }
+});
+
+/**
+ * POST /api/voting-records/members/:bioguideId/cosponsorships/sync
+ */
+router.post('/voting-records/members/:bioguideId/cosponsorships/sync', requireAdmin, async (req, res) => {
+  const parsed = CosponsorSyncSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid sync request', details: parsed.error.issues });
+  }
+
+  try {
+    res.json(await votingRecordService.syncCosponsorships(req.params.bioguideId.toUpperCase(), parsed.data));
+  } catch (error) {
+    handleError(res, error, 'Failed to sync co-sponsorships');
+  }
+});
+
+export default router;
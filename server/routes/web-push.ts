@@ -0,0 +1,129 @@
+/**
+ * Web Push API Routes
+ * The VAPID key browsers subscribe with, registering and removing a
+ * signed-in user's browsers, and the receipts the service worker sends
+ * back when a push is shown or clicked
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { authRequired } from '../auth';
+import { webPushNotificationService, type PushDeviceRegistration } from '../services/web-push-notification-service';
+import { notificationQueueService } from '../services/notification-queue-service';
+
+const router = Router();
+
+const DeviceSchema = z.object({
+  endpoint: z.string().url().max(2000),
+  keys: z.object({
+    p256dh: z.string().min(1).max(200),
+    auth: z.string().min(1).max(100)
+  })
+});
+
+const EndpointSchema = z.object({
+  endpoint: z.string().url().max(2000)
+});
+
+const ReceiptSchema = z.object({
+  deliveryId: z.number().int().positive(),
+  receipt: z.enum(['delivered', 'clicked'])
+});
+
+function handleError(res: any, error: unknown, message: string) {
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+/**
+ * GET /api/push/vapid-public-key
+ */
+router.get('/push/vapid-public-key', (_req, res) => {
+  const publicKey = webPushNotificationService.getPublicKey();
+  res.json({ configured: publicKey !== null, publicKey });
+});
+
+/**
+ * GET /api/push/devices
+ */
+router.get('/push/devices', authRequired(), async (req, res) => {
+  try {
+    const devices = await webPushNotificationService.listDevices(String((req as any).userId));
+    res.json(devices.map(device => ({
+      id: device.id,
+      endpoint: device.endpoint,
+      userAgent: device.userAgent,
+      lastSuccessAt: device.lastSuccessAt,
+      createdAt: device.createdAt
+    })));
+  } catch (error) {
+    handleError(res, error, 'Failed to load push devices');
+  }
+});
+
+/**
+ * POST /api/push/devices
+ * Register this browser's push subscription
+ */
+router.post('/push/devices', authRequired(), async (req, res) => {
+  if (!webPushNotificationService.isReady()) {
+    return res.status(503).json({ error: 'Push notifications are not available' });
+  }
+  const parsed = DeviceSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid push subscription', details: parsed.error.issues });
+  }
+
+  try {
+    const device = await webPushNotificationService.registerDevice(
+      String((req as any).userId),
+      parsed.data as PushDeviceRegistration,
+      req.get('user-agent')
+    );
+    res.status(201).json({ id: device.id, endpoint: device.endpoint });
+  } catch (error) {
+    handleError(res, error, 'Failed to register push device');
+  }
+});
+
+/**
+ * DELETE /api/push/devices
+ */
+router.delete('/push/devices', authRequired(), async (req, res) => {
+  const parsed = EndpointSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid push endpoint', details: parsed.error.issues });
+  }
+
+  try {
+    const removed = await webPushNotificationService.unregisterDevice(String((req as any).userId), parsed.data.endpoint);
+    if (!removed) return res.status(404).json({ error: 'Push device not found' });
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, 'Failed to remove push device');
+  }
+});
+
+/**
+ * POST /api/push/receipts
+ */
+router.post('/push/receipts', authRequired(), async (req, res) => {
+  const parsed = ReceiptSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid push receipt', details: parsed.error.issues });
+  }
+
+  try {
+    const recorded = await notificationQueueService.recordPushReceipt(
+      String((req as any).userId),
+      parsed.data.deliveryId,
+      parsed.data.receipt
+    );
+    if (!recorded) return res.status(404).json({ error: 'Push delivery not found' });
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, 'Failed to record push receipt');
+  }
+});
+
+export default router;
@@ -9,6 +9,7 @@ import {
 } from '@shared/schema';
 import { notificationQueueService } from './notification-queue-service';
 import { notificationPreferencesService } from './notification-preferences-service';
+import { alertRuleService } from './alert-rule-service';
 
 export interface AlertTrigger {
   id: string;
@@ -21,6 +22,8 @@ export interface AlertTrigger {
   isActive: boolean;
 }
 
+// Built-in triggers keep their own strict matching; users' alert rules
+// use the condition language in alert-rules
 export interface AlertCondition {
   field: string;
   operator: 'equals' | 'contains' | 'greater_than' | 'less_than' | 'changed' | 'not_null';
@@ -178,6 +181,19 @@ export class AlertEngineService {
         priority: 'urgent',
         cooldownMinutes: 0,
         isActive: true
+      },
+      {
+        id: 'outside_spending_threshold',
+        name: 'Outside Spending Threshold',
+        description: 'Triggered when independent expenditures in a race pass a spending threshold',
+        eventType: 'outside_spending',
+        conditions: [
+          { field: 'threshold', operator: 'not_null', value: null },
+          { field: 'total', operator: 'greater_than', value: 0 }
+        ],
+        priority: 'high',
+        cooldownMinutes: 60,
+        isActive: true
       }
     ];
 
@@ -236,14 +252,11 @@ export class AlertEngineService {
         event.isProcessed = true;
       }
 
-      // Return mock event for now (in real implementation, save to database)
-      return {
-        id: Date.now(),
+      // Record the event, which also runs users' alert rules over it
+      return await alertRuleService.publish({
         ...event,
-        processedAt: event.isProcessed ? new Date() : null,
-        campaignId: null,
-        createdAt: new Date()
-      };
+        processedAt: event.isProcessed ? new Date() : null
+      });
     } catch (error) {
       console.error('Failed to process event:', error);
       throw new Error('Event processing failed');
@@ -435,6 +448,12 @@ export class AlertEngineService {
         }
         return `Important deadline reminder for ${context.election?.title}.`;
         
+      case 'outside_spending': {
+        const amount = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+        const spender = eventData.top_spender ? ` ${eventData.top_spender} is the biggest outside spender.` : '';
+        return `Outside groups have now spent ${amount(eventData.total)} in ${context.election?.title}, passing ${amount(eventData.threshold)}.${spender}`;
+      }
+
       default:
         return `New update available for ${context.election?.title || 'election tracking'}.`;
     }
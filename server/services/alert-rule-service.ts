@@ -0,0 +1,247 @@
+/**
+ * Alert Rule Service
+ * Users' own alert rules: stored per user, checked against every
+ * notification event as it is recorded, and previewed against past
+ * events before they are saved. A matching rule queues the event for the
+ * user's verified subscriptions on the rule's channels, at most once per
+ * cooldown.
+ */
+
+import { db } from '../db';
+import { and, desc, eq, gte, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import {
+  alertRules,
+  candidates,
+  elections,
+  notificationEvents,
+  notificationSubscriptions
+} from '@shared/schema';
+import type { AlertRule, Candidate, Election, NotificationEvent, NotificationSubscription } from '@shared/schema';
+import {
+  evaluateRule,
+  eventFields,
+  parseRule,
+  ruleFields,
+  RuleSyntaxError,
+  type RuleNode
+} from '../lib/alert-rules';
+import { notificationQueueService } from './notification-queue-service';
+
+/** Bad request data - reported back as a 400 */
+export class AlertRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertRuleError';
+  }
+}
+
+export const ALERT_EVENT_TYPES = [
+  'election_result', 'election_update', 'lead_change', 'candidate_update',
+  'breaking_news', 'deadline_reminder', 'bill_update', 'outside_spending',
+  'poll_update'
+] as const;
+
+export interface AlertRuleInput {
+  name: string;
+  expression: string;
+  eventTypes?: string[] | null;
+  channels: string[];
+  priority?: 'low' | 'normal' | 'high' | 'urgent';
+  cooldownMinutes?: number;
+  isActive?: boolean;
+}
+
+export interface RulePreview {
+  fields: string[];
+  scanned: number;
+  matched: number;
+  matches: Array<{ id: number; eventType: string; message: string | null; createdAt: Date | null }>;
+}
+
+const MAX_RULES_PER_USER = 25;
+const PREVIEW_EVENT_LIMIT = 1000;
+
+export class AlertRuleService {
+  async list(userId: string): Promise<AlertRule[]> {
+    return db.select().from(alertRules)
+      .where(eq(alertRules.userId, userId))
+      .orderBy(desc(alertRules.createdAt));
+  }
+
+  async create(userId: string, input: AlertRuleInput): Promise<AlertRule> {
+    this.compile(input.expression);
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(alertRules)
+      .where(eq(alertRules.userId, userId));
+    if (count >= MAX_RULES_PER_USER) {
+      throw new AlertRuleError(`You can have at most ${MAX_RULES_PER_USER} alert rules`);
+    }
+
+    const [rule] = await db.insert(alertRules).values({
+      userId,
+      name: input.name,
+      expression: input.expression.trim(),
+      eventTypes: input.eventTypes?.length ? input.eventTypes : null,
+      channels: input.channels,
+      priority: input.priority ?? 'normal',
+      cooldownMinutes: input.cooldownMinutes ?? 60,
+      isActive: input.isActive ?? true
+    } as any).returning();
+    return rule;
+  }
+
+  async update(userId: string, id: number, input: Partial<AlertRuleInput>): Promise<AlertRule | null> {
+    if (input.expression !== undefined) this.compile(input.expression);
+
+    const [rule] = await db.update(alertRules)
+      .set({
+        ...input,
+        ...(input.expression !== undefined ? { expression: input.expression.trim() } : {}),
+        ...(input.eventTypes !== undefined ? { eventTypes: input.eventTypes?.length ? input.eventTypes : null } : {}),
+        updatedAt: new Date()
+      } as any)
+      .where(and(eq(alertRules.id, id), eq(alertRules.userId, userId)))
+      .returning();
+    return rule ?? null;
+  }
+
+  async remove(userId: string, id: number): Promise<boolean> {
+    const deleted = await db.delete(alertRules)
+      .where(and(eq(alertRules.id, id), eq(alertRules.userId, userId)))
+      .returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Run an expression over the last days of recorded events, so users see
+   * what a rule would have sent before saving it
+   */
+  async preview(expression: string, eventTypes: string[] | null | undefined, days = 30): Promise<RulePreview> {
+    const tree = this.compile(expression);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const events = await db.select().from(notificationEvents)
+      .where(and(
+        gte(notificationEvents.createdAt, since),
+        eventTypes?.length ? inArray(notificationEvents.eventType, eventTypes) : undefined
+      ))
+      .orderBy(desc(notificationEvents.createdAt))
+      .limit(PREVIEW_EVENT_LIMIT);
+
+    const context = await this.loadContext(events);
+    const matching = events.filter(event => evaluateRule(tree, this.fieldsFor(event, context)));
+    return {
+      fields: ruleFields(tree),
+      scanned: events.length,
+      matched: matching.length,
+      matches: matching.slice(0, 20).map(event => ({
+        id: event.id,
+        eventType: event.eventType,
+        message: (event.eventData as any)?.message ?? null,
+        createdAt: event.createdAt
+      }))
+    };
+  }
+
+  /**
+   * Check a newly recorded event against every active rule for its type
+   * and queue it for the owners of the rules it matches. Returns the
+   * number of rules that fired.
+   */
+  async evaluateEvent(event: NotificationEvent): Promise<number> {
+    const rules = await db.select().from(alertRules).where(and(
+      eq(alertRules.isActive, true),
+      or(isNull(alertRules.eventTypes), sql`${event.eventType} = any(${alertRules.eventTypes})`)
+    ));
+    if (rules.length === 0) return 0;
+
+    const fields = this.fieldsFor(event, await this.loadContext([event]));
+    let fired = 0;
+    for (const rule of rules) {
+      let tree: RuleNode;
+      try {
+        tree = parseRule(rule.expression);
+      } catch {
+        continue; // Saved before a language change; the owner sees it fail in the builder
+      }
+      if (!evaluateRule(tree, fields)) continue;
+      if (await this.claimCooldown(rule)) {
+        await this.deliver(rule, event);
+        fired++;
+      }
+    }
+    return fired;
+  }
+
+  /**
+   * Record a notification event and run the rules over it, for event
+   * sources that have no watcher fan-out of their own
+   */
+  async publish(values: Record<string, any>): Promise<NotificationEvent> {
+    const [event] = await db.insert(notificationEvents).values(values as any).returning();
+    this.evaluateEvent(event).catch(error =>
+      console.error(`[Alert Rules] Failed to evaluate event ${event.id}:`, error));
+    return event;
+  }
+
+  private compile(expression: string): RuleNode {
+    try {
+      return parseRule(expression.trim());
+    } catch (error) {
+      if (error instanceof RuleSyntaxError) throw new AlertRuleError(error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark the rule fired unless it is still cooling down. The check is in
+   * the update, so two workers handling the same event fire it once.
+   */
+  private async claimCooldown(rule: AlertRule): Promise<boolean> {
+    const cutoff = new Date(Date.now() - rule.cooldownMinutes * 60 * 1000);
+    const claimed = await db.update(alertRules)
+      .set({ lastTriggeredAt: new Date(), triggerCount: sql`${alertRules.triggerCount} + 1` } as any)
+      .where(and(
+        eq(alertRules.id, rule.id),
+        or(isNull(alertRules.lastTriggeredAt), lt(alertRules.lastTriggeredAt, cutoff))
+      ))
+      .returning({ id: alertRules.id });
+    return claimed.length > 0;
+  }
+
+  private async deliver(rule: AlertRule, event: NotificationEvent): Promise<void> {
+    const subscriptions: NotificationSubscription[] = await db.select().from(notificationSubscriptions).where(and(
+      eq(notificationSubscriptions.userId, rule.userId),
+      inArray(notificationSubscriptions.channel, rule.channels),
+      eq(notificationSubscriptions.isActive, true),
+      eq(notificationSubscriptions.isVerified, true)
+    ));
+    if (subscriptions.length === 0) return;
+
+    // The rule's priority decides how soon it goes out
+    await notificationQueueService.processElectionEvent({ ...event, priority: rule.priority }, subscriptions);
+    console.log(`🔔 Alert rule ${rule.id} (${rule.name}) fired for event ${event.id}`);
+  }
+
+  private async loadContext(events: NotificationEvent[]) {
+    const electionIds = Array.from(new Set(events.map(e => e.relatedElectionId).filter((id): id is number => id != null)));
+    const candidateIds = Array.from(new Set(events.map(e => e.relatedCandidateId).filter((id): id is number => id != null)));
+    const [electionRows, candidateRows] = await Promise.all([
+      electionIds.length ? db.select().from(elections).where(inArray(elections.id, electionIds)) : Promise.resolve([] as Election[]),
+      candidateIds.length ? db.select().from(candidates).where(inArray(candidates.id, candidateIds)) : Promise.resolve([] as Candidate[])
+    ]);
+    return {
+      elections: new Map(electionRows.map(e => [e.id, e] as const)),
+      candidates: new Map(candidateRows.map(c => [c.id, c] as const))
+    };
+  }
+
+  private fieldsFor(event: NotificationEvent, context: { elections: Map<number, Election>; candidates: Map<number, Candidate> }) {
+    return eventFields(
+      event,
+      event.relatedElectionId != null ? context.elections.get(event.relatedElectionId) : null,
+      event.relatedCandidateId != null ? context.candidates.get(event.relatedCandidateId) : null
+    );
+  }
+}
+
+export const alertRuleService = new AlertRuleService();
@@ -0,0 +1,244 @@
+/**
+ * Ballot Measure Service
+ * Storage for propositions and local measures: listing and search, the
+ * measures on an election's ballot, endorsements, yes/no results and the
+ * measure side of user watchlists and recommendations.
+ */
+
+import { db } from '../db';
+import { and, asc, desc, eq, gte, ilike, isNull, lt, or } from 'drizzle-orm';
+import { ballotMeasures, measureWatchlist } from '@shared/schema';
+import type { BallotMeasure, MeasureWatchlistItem } from '@shared/schema';
+import { storage } from '../storage';
+import {
+  measureOutcome,
+  scoreMeasureForUser,
+  upsertEndorsement,
+  type MeasureEndorsement,
+  type MeasureInterest
+} from '../lib/ballot-measures';
+
+/** Bad request data - reported back as a 400 */
+export class BallotMeasureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BallotMeasureError';
+  }
+}
+
+export interface MeasureFilters {
+  state?: string;
+  electionId?: number;
+  from?: Date;
+  to?: Date;
+  status?: string;
+  search?: string;
+  limit?: number;
+}
+
+export type MeasureInput = Partial<Omit<BallotMeasure, 'id' | 'createdAt' | 'updatedAt' | 'electionDate'>> & {
+  electionDate?: Date | string;
+};
+
+export interface MeasureRecommendation {
+  measure: BallotMeasure;
+  score: number;
+  reason: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayBounds(date: Date | string): [Date, Date] {
+  const start = new Date(date);
+  start.setUTCHours(0, 0, 0, 0);
+  return [start, new Date(start.getTime() + DAY_MS)];
+}
+
+export class BallotMeasureService {
+  async list(filters: MeasureFilters = {}): Promise<BallotMeasure[]> {
+    const conditions = [];
+    if (filters.state) conditions.push(eq(ballotMeasures.state, filters.state.toUpperCase()));
+    if (filters.status) conditions.push(eq(ballotMeasures.status, filters.status));
+    if (filters.from) conditions.push(gte(ballotMeasures.electionDate, filters.from));
+    if (filters.to) conditions.push(lt(ballotMeasures.electionDate, filters.to));
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(ballotMeasures.title, pattern),
+        ilike(ballotMeasures.measureNumber, pattern),
+        ilike(ballotMeasures.summary, pattern)
+      )!);
+    }
+
+    if (filters.electionId !== undefined) {
+      const election = await storage.getElection(filters.electionId);
+      if (!election) return [];
+      conditions.push(this.onElectionBallot(election));
+    }
+
+    return db.select().from(ballotMeasures)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(ballotMeasures.electionDate), asc(ballotMeasures.state), asc(ballotMeasures.measureNumber))
+      .limit(filters.limit ?? 200);
+  }
+
+  /**
+   * Measures linked to the election, plus unlinked measures voted on the
+   * same day in the same state
+   */
+  private onElectionBallot(election: { id: number; state: string; date: Date }) {
+    const [start, end] = dayBounds(election.date);
+    return or(
+      eq(ballotMeasures.electionId, election.id),
+      and(
+        isNull(ballotMeasures.electionId),
+        eq(ballotMeasures.state, election.state),
+        gte(ballotMeasures.electionDate, start),
+        lt(ballotMeasures.electionDate, end)
+      )
+    )!;
+  }
+
+  async get(id: number): Promise<BallotMeasure | null> {
+    const [measure] = await db.select().from(ballotMeasures).where(eq(ballotMeasures.id, id));
+    return measure ?? null;
+  }
+
+  /** Every measure voted in the state that day, local ones included */
+  async forBallot(state: string, electionDate: string): Promise<BallotMeasure[]> {
+    const [start, end] = dayBounds(electionDate);
+    return db.select().from(ballotMeasures).where(and(
+      eq(ballotMeasures.state, state.toUpperCase()),
+      gte(ballotMeasures.electionDate, start),
+      lt(ballotMeasures.electionDate, end)
+    ));
+  }
+
+  /**
+   * Create a measure, or update it when one with the same state, election
+   * day and title exists, so re-importing a source is safe
+   */
+  async upsert(input: MeasureInput): Promise<BallotMeasure> {
+    if (!input.state || !input.title || !input.electionDate) {
+      throw new BallotMeasureError('state, title and electionDate are required');
+    }
+    const values = { ...input, state: input.state.toUpperCase(), electionDate: new Date(input.electionDate) };
+    await this.checkElectionLink(values.electionId, values.state);
+
+    const [measure] = await db.insert(ballotMeasures)
+      .values(values as any)
+      .onConflictDoUpdate({
+        target: [ballotMeasures.state, ballotMeasures.electionDate, ballotMeasures.title],
+        set: { ...values, updatedAt: new Date() } as any
+      })
+      .returning();
+    return measure;
+  }
+
+  async update(id: number, input: MeasureInput): Promise<BallotMeasure | null> {
+    const updates: Record<string, unknown> = { ...input, updatedAt: new Date() };
+    if (input.state) updates.state = input.state.toUpperCase();
+    if (input.electionDate) updates.electionDate = new Date(input.electionDate);
+    if (input.electionId !== undefined) {
+      const current = await this.get(id);
+      if (!current) return null;
+      await this.checkElectionLink(input.electionId, (updates.state as string) ?? current.state);
+    }
+
+    const [measure] = await db.update(ballotMeasures)
+      .set(updates as any)
+      .where(eq(ballotMeasures.id, id))
+      .returning();
+    return measure ?? null;
+  }
+
+  private async checkElectionLink(electionId: number | null | undefined, state: string): Promise<void> {
+    if (electionId === null || electionId === undefined) return;
+    const election = await storage.getElection(electionId);
+    if (!election) throw new BallotMeasureError(`Election ${electionId} not found`);
+    if (election.state !== state) {
+      throw new BallotMeasureError(`Election ${electionId} is in ${election.state}, not ${state}`);
+    }
+  }
+
+  async remove(id: number): Promise<boolean> {
+    const deleted = await db.delete(ballotMeasures).where(eq(ballotMeasures.id, id)).returning({ id: ballotMeasures.id });
+    return deleted.length > 0;
+  }
+
+  async addEndorsement(id: number, endorsement: MeasureEndorsement): Promise<BallotMeasure | null> {
+    const measure = await this.get(id);
+    if (!measure) return null;
+    const endorsements = upsertEndorsement(measure.endorsements as MeasureEndorsement[], endorsement);
+    return this.update(id, { endorsements });
+  }
+
+  /**
+   * Record the yes/no count. Once the count is final the status is set
+   * from the outcome against the measure's passage threshold.
+   */
+  async recordResults(id: number, results: { yesVotes: number; noVotes: number; final?: boolean }): Promise<BallotMeasure | null> {
+    const measure = await this.get(id);
+    if (!measure) return null;
+
+    const updates: MeasureInput = { yesVotes: results.yesVotes, noVotes: results.noVotes };
+    if (results.final) {
+      const outcome = measureOutcome({ ...results, passageThreshold: measure.passageThreshold });
+      if (outcome.passing === null) throw new BallotMeasureError('A final result needs at least one vote');
+      updates.status = outcome.passing ? 'passed' : 'failed';
+    }
+    return this.update(id, updates);
+  }
+
+  async watch(userId: string, measureId: number, addedVia: string = 'manual'): Promise<MeasureWatchlistItem | null> {
+    if (!await this.get(measureId)) return null;
+    const [item] = await db.insert(measureWatchlist)
+      .values({ userId, measureId, addedVia } as any)
+      .onConflictDoNothing()
+      .returning();
+    if (item) return item;
+
+    const [existing] = await db.select().from(measureWatchlist)
+      .where(and(eq(measureWatchlist.userId, userId), eq(measureWatchlist.measureId, measureId)));
+    return existing;
+  }
+
+  async unwatch(userId: string, measureId: number): Promise<void> {
+    await db.delete(measureWatchlist)
+      .where(and(eq(measureWatchlist.userId, userId), eq(measureWatchlist.measureId, measureId)));
+  }
+
+  async listWatched(userId: string): Promise<Array<MeasureWatchlistItem & { measure: BallotMeasure }>> {
+    const rows = await db.select({ item: measureWatchlist, measure: ballotMeasures })
+      .from(measureWatchlist)
+      .innerJoin(ballotMeasures, eq(measureWatchlist.measureId, ballotMeasures.id))
+      .where(eq(measureWatchlist.userId, userId))
+      .orderBy(asc(ballotMeasures.electionDate), desc(measureWatchlist.createdAt));
+    return rows.map(row => ({ ...row.item, measure: row.measure }));
+  }
+
+  /**
+   * Upcoming measures on the voter's ballot they are not already
+   * watching, best first
+   */
+  async recommend(userId: string, interest: MeasureInterest, limit = 5): Promise<MeasureRecommendation[]> {
+    if (!interest.state) return [];
+
+    const now = new Date();
+    const [upcoming, watched] = await Promise.all([
+      this.list({ state: interest.state, from: now, status: 'pending' }),
+      db.select({ measureId: measureWatchlist.measureId }).from(measureWatchlist).where(eq(measureWatchlist.userId, userId))
+    ]);
+    const watchedIds = new Set(watched.map(w => w.measureId));
+
+    return upcoming
+      .filter(measure => !watchedIds.has(measure.id))
+      .map(measure => ({ measure, ...scoreMeasureForUser(measure, interest, now) }))
+      .filter(scored => scored.score > 0)
+      .sort((a, b) => b.score - a.score || new Date(a.measure.electionDate).getTime() - new Date(b.measure.electionDate).getTime())
+      .slice(0, limit)
+      .map(({ measure, score, reasons }) => ({ measure, score, reason: reasons.join('; ') }));
+  }
+}
+
+export const ballotMeasureService = new BallotMeasureService();
@@ -0,0 +1,417 @@
+/**
+ * Bill Tracker Service
+ * Keeps tracked bills in step with congress.gov - action history,
+ * committee referrals, cosponsors, subjects and lifecycle stage - serves
+ * bill search and detail, and alerts users watching a bill through their
+ * legislation-alert notification subscriptions when it moves.
+ */
+
+import { db } from '../db';
+import { and, desc, eq, inArray, sql, type SQL } from 'drizzle-orm';
+import {
+  billActions,
+  billCommitteeReferrals,
+  billCosponsorships,
+  billWatches,
+  congressBills,
+  congressMembers,
+  notificationEvents,
+  notificationSubscriptions
+} from '@shared/schema';
+import type {
+  BillAction,
+  BillCommitteeReferral,
+  BillCosponsorship,
+  BillWatch,
+  CongressBill,
+  NotificationEvent,
+  NotificationSubscription
+} from '@shared/schema';
+import { getCongressBillService, type CongressBillService } from '../congress-bill-service';
+import { normalizeBillType, normalizeParty } from '../lib/voting-record';
+import {
+  billLabel,
+  billUrl,
+  buildSearchText,
+  currentCongress,
+  deriveStage,
+  describeBillUpdate,
+  latestSummaryText,
+  normalizeActions,
+  normalizeReferrals,
+  originChamberFor,
+  stageLabel
+} from '../lib/bill-tracker';
+import { notificationQueueService } from './notification-queue-service';
+import { alertRuleService } from './alert-rule-service';
+
+// New rows: the columns without defaults, plus any others
+type NewBill = Pick<CongressBill, 'congress' | 'type' | 'billNumber' | 'title'> & Partial<CongressBill>;
+type NewAction = Pick<BillAction, 'billId' | 'actionKey' | 'text'> & Partial<BillAction>;
+type NewReferral = Pick<BillCommitteeReferral, 'billId' | 'systemCode' | 'name'> & Partial<BillCommitteeReferral>;
+type NewCosponsorship = Pick<BillCosponsorship, 'congress' | 'billType' | 'billNumber' | 'sponsorBioguideId' | 'cosponsorBioguideId'>
+  & Partial<BillCosponsorship>;
+type NewWatch = Pick<BillWatch, 'userId' | 'billId'> & Partial<BillWatch>;
+type NewEvent = Pick<NotificationEvent, 'eventType' | 'eventData'> & Partial<NotificationEvent>;
+// Updates: any column, to a value or a SQL expression
+type Changes<Row> = { [K in keyof Row]?: Row[K] | SQL };
+
+const INSERT_CHUNK = 250;
+const UPDATED_PAGE_SIZE = 250;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Bad request data - reported back as a 400 */
+export class BillTrackerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BillTrackerError';
+  }
+}
+
+export interface BillFilters {
+  search?: string;
+  congress?: number;
+  stage?: string;
+  policyArea?: string;
+  subject?: string;
+  sponsor?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface BillDetail extends CongressBill {
+  label: string;
+  stageLabel: string;
+  actions: BillAction[];
+  committees: BillCommitteeReferral[];
+  cosponsors: Array<{
+    bioguideId: string;
+    name: string | null;
+    party: string | null;
+    state: string | null;
+    cosponsoredAt: Date | null;
+  }>;
+}
+
+export interface BillSyncResult {
+  bill: CongressBill;
+  previousStage: string | null;
+  newActions: number;
+  notified: number;
+}
+
+function requireCongressApi(): CongressBillService {
+  const service = getCongressBillService();
+  if (!service) throw new BillTrackerError('Congress API key not configured');
+  return service;
+}
+
+function identity(congress: number, type: string, number: string | number) {
+  const billType = normalizeBillType(type);
+  if (!billType) throw new BillTrackerError(`Unsupported bill type: ${type}`);
+  return { congress, type: billType, billNumber: String(number) };
+}
+
+export class BillTrackerService {
+  private pollingInterval: NodeJS.Timeout | null = null;
+  private cursor: Date | null = null;
+
+  async search(filters: BillFilters = {}): Promise<Array<CongressBill & { label: string; stageLabel: string }>> {
+    const conditions = [];
+    if (filters.congress) conditions.push(eq(congressBills.congress, filters.congress));
+    if (filters.stage) conditions.push(eq(congressBills.stage, filters.stage));
+    if (filters.policyArea) conditions.push(eq(congressBills.policyArea, filters.policyArea));
+    if (filters.subject) conditions.push(sql`${filters.subject} = ANY(${congressBills.subjects})`);
+    if (filters.sponsor) conditions.push(eq(congressBills.sponsorBioguideId, filters.sponsor.toUpperCase()));
+
+    const document = sql`to_tsvector('english', coalesce(${congressBills.searchText}, ''))`;
+    const query = filters.search ? sql`websearch_to_tsquery('english', ${filters.search})` : null;
+    if (query) conditions.push(sql`${document} @@ ${query}`);
+
+    const rows = await db.select().from(congressBills)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(...(query ? [desc(sql`ts_rank(${document}, ${query})`)] : []), desc(congressBills.latestActionDate))
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+    return rows.map(bill => ({ ...bill, label: billLabel(bill.type, bill.billNumber), stageLabel: stageLabel(bill.stage) }));
+  }
+
+  async get(id: number): Promise<BillDetail | null> {
+    const [bill] = await db.select().from(congressBills).where(eq(congressBills.id, id));
+    if (!bill) return null;
+
+    const actions = await db.select().from(billActions)
+      .where(eq(billActions.billId, id))
+      .orderBy(desc(billActions.actionDate), desc(billActions.id));
+    const committees = await db.select().from(billCommitteeReferrals).where(eq(billCommitteeReferrals.billId, id));
+    const cosponsors = await db.select({
+      bioguideId: billCosponsorships.cosponsorBioguideId,
+      name: congressMembers.name,
+      party: billCosponsorships.cosponsorParty,
+      state: congressMembers.state,
+      cosponsoredAt: billCosponsorships.cosponsoredAt
+    })
+      .from(billCosponsorships)
+      .leftJoin(congressMembers, eq(congressMembers.bioguideId, billCosponsorships.cosponsorBioguideId))
+      .where(and(
+        eq(billCosponsorships.congress, bill.congress),
+        eq(billCosponsorships.billType, bill.type),
+        eq(billCosponsorships.billNumber, bill.billNumber)
+      ))
+      .orderBy(billCosponsorships.cosponsoredAt);
+
+    return { ...bill, label: billLabel(bill.type, bill.billNumber), stageLabel: stageLabel(bill.stage), actions, committees, cosponsors };
+  }
+
+  async findByIdentity(congress: number, type: string, number: string | number): Promise<CongressBill | null> {
+    const key = identity(congress, type, number);
+    const [bill] = await db.select().from(congressBills).where(and(
+      eq(congressBills.congress, key.congress),
+      eq(congressBills.type, key.type),
+      eq(congressBills.billNumber, key.billNumber)
+    ));
+    return bill ?? null;
+  }
+
+  /** The tracked bill, syncing it from congress.gov the first time it is asked for */
+  async track(congress: number, type: string, number: string | number): Promise<CongressBill> {
+    return (await this.findByIdentity(congress, type, number)) ?? (await this.syncBill(congress, type, number)).bill;
+  }
+
+  /**
+   * Refresh one bill from congress.gov. New actions are appended, the stage
+   * is re-derived from the full history, and watchers hear about a stage
+   * change (or any new action, if they asked for that).
+   */
+  async syncBill(congress: number, type: string, number: string | number): Promise<BillSyncResult> {
+    const api = requireCongressApi();
+    const key = identity(congress, type, number);
+
+    const detail = await api.fetchBill(key.congress, key.type, key.billNumber);
+    if (!detail) throw new BillTrackerError(`Bill ${billLabel(key.type, key.billNumber)} not found in Congress ${congress}`);
+    const [rawActions, rawCommittees, subjects, summaries, cosponsors] = await Promise.all([
+      api.fetchBillActions(key.congress, key.type, key.billNumber),
+      api.fetchBillCommittees(key.congress, key.type, key.billNumber),
+      api.fetchBillSubjects(key.congress, key.type, key.billNumber),
+      api.fetchBillSummaries(key.congress, key.type, key.billNumber),
+      api.fetchBillCosponsors(key.congress, key.type, key.billNumber)
+    ]);
+
+    const actions = normalizeActions(rawActions);
+    const { stage, stageDate } = deriveStage(key.type, actions);
+    const existing = await this.findByIdentity(key.congress, key.type, key.billNumber);
+    const sponsor = detail.sponsors?.[0] ?? null;
+    const policyArea = subjects.policyArea?.name ?? detail.policyArea?.name ?? null;
+    const subjectNames: string[] = subjects.legislativeSubjects.map((s: any) => s.name).filter(Boolean);
+    const summary = latestSummaryText(summaries) ?? existing?.summary ?? null;
+    const latest = actions[actions.length - 1] ?? null;
+    const now = new Date();
+
+    const values: NewBill = {
+      ...key,
+      title: detail.title,
+      introducedDate: detail.introducedDate ? new Date(detail.introducedDate) : null,
+      latestActionDate: detail.latestAction?.actionDate ? new Date(detail.latestAction.actionDate) : latest?.actionDate ?? null,
+      latestActionText: detail.latestAction?.text ?? latest?.text ?? null,
+      sponsors: detail.sponsors ?? [],
+      originChamber: detail.originChamber ?? originChamberFor(key.type),
+      sponsorBioguideId: sponsor?.bioguideId ?? null,
+      policyArea,
+      subjects: subjectNames,
+      summary,
+      searchText: buildSearchText({ title: detail.title, summary, policyArea, subjects: subjectNames }),
+      stage,
+      stageChangedAt: existing && existing.stage === stage ? existing.stageChangedAt : stageDate ?? now,
+      cosponsorCount: detail.cosponsors?.count ?? cosponsors.length,
+      url: billUrl(key.congress, key.type, key.billNumber),
+      lastSyncedAt: now,
+      updatedAt: now
+    };
+
+    const [bill] = await db.insert(congressBills)
+      .values(values)
+      .onConflictDoUpdate({ target: [congressBills.congress, congressBills.type, congressBills.billNumber], set: values })
+      .returning();
+
+    const inserted: BillAction[] = [];
+    for (let i = 0; i < actions.length; i += INSERT_CHUNK) {
+      const rows: NewAction[] = actions.slice(i, i + INSERT_CHUNK).map(action => ({ billId: bill.id, ...action }));
+      inserted.push(...await db.insert(billActions).values(rows).onConflictDoNothing().returning());
+    }
+
+    for (const referral of normalizeReferrals(rawCommittees)) {
+      const row: NewReferral = { billId: bill.id, ...referral };
+      const changes: Changes<BillCommitteeReferral> = { name: referral.name, chamber: referral.chamber, activities: referral.activities, updatedAt: now };
+      await db.insert(billCommitteeReferrals)
+        .values(row)
+        .onConflictDoUpdate({ target: [billCommitteeReferrals.billId, billCommitteeReferrals.systemCode], set: changes });
+    }
+
+    if (sponsor?.bioguideId && cosponsors.length > 0) {
+      const rows: NewCosponsorship[] = cosponsors.filter((c: any) => c.bioguideId).map((c: any) => ({
+        congress: key.congress,
+        billType: key.type,
+        billNumber: key.billNumber,
+        sponsorBioguideId: sponsor.bioguideId,
+        sponsorParty: normalizeParty(sponsor.party),
+        cosponsorBioguideId: c.bioguideId,
+        cosponsorParty: normalizeParty(c.party),
+        policyArea,
+        cosponsoredAt: c.sponsorshipDate ? new Date(c.sponsorshipDate) : null
+      }));
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+        await db.insert(billCosponsorships).values(rows.slice(i, i + INSERT_CHUNK)).onConflictDoNothing();
+      }
+    }
+
+    // A bill's first sync is its baseline - there is nothing to announce yet
+    const notified = existing ? await this.notifyWatchers(bill, existing.stage, inserted) : 0;
+    return { bill, previousStage: existing?.stage ?? null, newActions: existing ? inserted.length : 0, notified };
+  }
+
+  /**
+   * Sync bills congress.gov reports as updated since the last complete run,
+   * watched bills first. The cursor only advances once a run gets through
+   * every updated bill, so a capped run is finished by the next one.
+   */
+  async syncUpdated(options: { congress?: number; since?: Date; limit?: number } = {}): Promise<{ listed: number; synced: number; skipped: number; failed: number; notified: number }> {
+    const api = requireCongressApi();
+    const congress = options.congress ?? currentCongress();
+    const limit = options.limit ?? 100;
+    const since = options.since ?? this.cursor ?? new Date(Date.now() - DAY_MS);
+    const startedAt = new Date();
+
+    const updated: any[] = [];
+    for (let offset = 0; ; offset += UPDATED_PAGE_SIZE) {
+      const page = await api.fetchBillsUpdatedSince(congress, since, offset, UPDATED_PAGE_SIZE);
+      updated.push(...page);
+      if (page.length < UPDATED_PAGE_SIZE) break;
+    }
+
+    const tracked = updated.length === 0 ? [] : await db.select().from(congressBills).where(eq(congressBills.congress, congress));
+    const trackedByKey = new Map(tracked.map(b => [`${b.type}-${b.billNumber}`, b]));
+    const watched = new Set((await db.selectDistinct({ billId: billWatches.billId }).from(billWatches)).map(w => w.billId));
+
+    const pending = updated
+      .map(item => ({ item, type: normalizeBillType(item.type), bill: trackedByKey.get(`${normalizeBillType(item.type)}-${item.number}`) }))
+      .filter(({ item, type, bill }) => type && !(bill?.lastSyncedAt && item.updateDate && bill.lastSyncedAt >= new Date(item.updateDate)));
+    pending.sort((a, b) => Number(!!b.bill && watched.has(b.bill.id)) - Number(!!a.bill && watched.has(a.bill.id)));
+
+    const report = { listed: updated.length, synced: 0, skipped: updated.length - pending.length, failed: 0, notified: 0 };
+    for (const { item, type } of pending.slice(0, limit)) {
+      try {
+        const result = await this.syncBill(congress, type!, item.number);
+        report.synced++;
+        report.notified += result.notified;
+      } catch (error) {
+        console.error(`[Bill Tracker] Failed to sync ${type} ${item.number}:`, error);
+        report.failed++;
+      }
+    }
+
+    if (pending.length <= limit && report.failed === 0) this.cursor = startedAt;
+    return report;
+  }
+
+  startPolling(intervalMinutes: number = 60): void {
+    if (this.pollingInterval) return;
+    const run = () => this.syncUpdated().catch(error => console.error('[Bill Tracker] Poll failed:', error));
+    run();
+    this.pollingInterval = setInterval(run, intervalMinutes * 60 * 1000);
+  }
+
+  stopPolling(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+  }
+
+  async watch(userId: string, billId: number, notifyOn: 'stage' | 'all_actions' = 'stage'): Promise<BillWatch | null> {
+    const [bill] = await db.select({ id: congressBills.id }).from(congressBills).where(eq(congressBills.id, billId));
+    if (!bill) return null;
+    const row: NewWatch = { userId, billId, notifyOn, notificationsEnabled: true };
+    const changes: Changes<BillWatch> = { notifyOn, notificationsEnabled: true };
+    const [item] = await db.insert(billWatches)
+      .values(row)
+      .onConflictDoUpdate({ target: [billWatches.userId, billWatches.billId], set: changes })
+      .returning();
+    return item;
+  }
+
+  async unwatch(userId: string, billId: number): Promise<void> {
+    await db.delete(billWatches).where(and(eq(billWatches.userId, userId), eq(billWatches.billId, billId)));
+  }
+
+  async listWatched(userId: string): Promise<Array<BillWatch & { bill: CongressBill & { label: string; stageLabel: string } }>> {
+    const rows = await db.select({ watch: billWatches, bill: congressBills })
+      .from(billWatches)
+      .innerJoin(congressBills, eq(billWatches.billId, congressBills.id))
+      .where(eq(billWatches.userId, userId))
+      .orderBy(desc(congressBills.latestActionDate));
+    return rows.map(({ watch, bill }) => ({
+      ...watch,
+      bill: { ...bill, label: billLabel(bill.type, bill.billNumber), stageLabel: stageLabel(bill.stage) }
+    }));
+  }
+
+  /**
+   * Create the bill_update event and queue it for the verified, active
+   * legislation-alert subscriptions of users watching the bill
+   */
+  private async notifyWatchers(bill: CongressBill, previousStage: string | null, newActions: BillAction[]): Promise<number> {
+    const stageChanged = previousStage !== bill.stage;
+    if (!stageChanged && newActions.length === 0) return 0;
+
+    try {
+      const watchers = await db.select().from(billWatches).where(and(
+        eq(billWatches.billId, bill.id),
+        eq(billWatches.notificationsEnabled, true)
+      ));
+      const userIds = Array.from(new Set(watchers
+        .filter(w => stageChanged || w.notifyOn === 'all_actions')
+        .map(w => w.userId)));
+      if (userIds.length === 0) return 0;
+
+      const subscriptions: NotificationSubscription[] = await db.select().from(notificationSubscriptions).where(and(
+        inArray(notificationSubscriptions.userId, userIds),
+        eq(notificationSubscriptions.subscriptionType, 'legislation_alerts'),
+        eq(notificationSubscriptions.isActive, true),
+        eq(notificationSubscriptions.isVerified, true)
+      ));
+      if (subscriptions.length === 0) return 0;
+
+      const latest = [...newActions].sort((a, b) => (a.actionDate?.getTime() ?? 0) - (b.actionDate?.getTime() ?? 0)).pop()
+        ?? (bill.latestActionText ? { text: bill.latestActionText, actionKey: 'latest' } : null);
+      const values: NewEvent = {
+        eventType: 'bill_update',
+        eventData: {
+          billLabel: billLabel(bill.type, bill.billNumber),
+          billTitle: bill.title,
+          stage: bill.stage,
+          previousStage,
+          stageLabel: stageLabel(bill.stage),
+          message: describeBillUpdate(bill, previousStage, bill.stage!, latest),
+          action: stageChanged ? 'stage_changed' : 'new_action',
+          url: bill.url
+        },
+        triggerConditions: { billId: bill.id, stage: bill.stage, newActions: newActions.length },
+        priority: bill.stage === 'law' || bill.stage === 'vetoed' ? 'high' : 'normal',
+        source: 'bill_tracker',
+        sourceId: `${bill.id}:${latest?.actionKey ?? bill.stage}`
+      };
+      const [event] = await db.insert(notificationEvents).values(values).returning();
+      if (!event?.id) return 0;
+      alertRuleService.evaluateEvent(event).catch(error =>
+        console.error(`[Alert Rules] Failed to evaluate event ${event.id}:`, error));
+
+      await notificationQueueService.processElectionEvent(event, subscriptions);
+      return subscriptions.length;
+    } catch (error) {
+      console.error(`[Bill Tracker] Failed to notify watchers of bill ${bill.id}:`, error);
+      return 0;
+    }
+  }
+}
+
+export const billTrackerService = new BillTrackerService();
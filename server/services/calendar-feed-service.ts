@@ -0,0 +1,299 @@
+/**
+ * Calendar Feed Service
+ * iCalendar feeds of election dates and voter deadlines: one per user
+ * behind a secret URL, built from their watchlist with each entry's
+ * reminder as an alarm, and a public one per state. Also keeps the
+ * deadlines themselves, bumping a deadline's sequence whenever it changes
+ * so subscribed calendars pick the change up.
+ */
+
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { and, eq, gte, inArray, isNull, notInArray, or, sql, type SQL } from 'drizzle-orm';
+import {
+  calendarFeeds,
+  electionDateVersions,
+  electionDeadlines,
+  electionFacts,
+  elections,
+  watchlist,
+  type CalendarFeed,
+  type ElectionDeadline
+} from '@shared/schema';
+import {
+  buildCalendar,
+  calendarHost,
+  electionEvents,
+  isDeadlineKind,
+  type DeadlineKind,
+  type FeedElection
+} from '../lib/icalendar';
+import { BASELINE_REASON, ELECTION_CREATED_REASON } from '../lib/election-facts';
+import { getStateElectionLaw } from '../validators/state-election-rules';
+
+/** Bad request data - reported back as a 400 */
+export class CalendarFeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarFeedError';
+  }
+}
+
+/** How far back feeds reach, so last cycle's elections drop off */
+export const FEED_PAST_DAYS = 90;
+
+export interface DeadlineInput {
+  startsOn?: Date | null;
+  endsOn: Date;
+  note?: string | null;
+  sourceUrl?: string | null;
+}
+
+export interface CalendarFeedLinks {
+  url: string;
+  webcalUrl: string;
+  createdAt: Date | null;
+  rotatedAt: Date | null;
+  lastFetchedAt: Date | null;
+}
+
+type ElectionRow = typeof elections.$inferSelect;
+type DeadlineChanges = { [K in keyof ElectionDeadline]?: ElectionDeadline[K] | SQL };
+type NewDeadline = Pick<ElectionDeadline, 'electionId' | 'kind' | 'endsOn'> & Partial<ElectionDeadline>;
+
+export class CalendarFeedService {
+  private get baseUrl(): string {
+    return (process.env.BASE_URL || 'http://localhost:5000').replace(/\/$/, '');
+  }
+
+  /**
+   * The user's feed links, creating the feed on first use
+   */
+  async getFeed(userId: string): Promise<CalendarFeedLinks> {
+    const created: Pick<CalendarFeed, 'userId' | 'token'> = { userId, token: this.newToken() };
+    await db.insert(calendarFeeds)
+      .values(created)
+      .onConflictDoNothing({ target: calendarFeeds.userId });
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+    return this.links(feed);
+  }
+
+  /**
+   * Replace the secret URL - the old one stops working straight away
+   */
+  async rotate(userId: string): Promise<CalendarFeedLinks> {
+    const created: Pick<CalendarFeed, 'userId' | 'token'> = { userId, token: this.newToken() };
+    const rotated: Partial<CalendarFeed> = { token: this.newToken(), rotatedAt: new Date(), lastFetchedAt: null };
+    const [feed] = await db.insert(calendarFeeds)
+      .values(created)
+      .onConflictDoUpdate({ target: calendarFeeds.userId, set: rotated })
+      .returning();
+    return this.links(feed);
+  }
+
+  /**
+   * The calendar behind a secret feed token, or null for an unknown token
+   */
+  async userCalendar(token: string, now: Date = new Date()): Promise<string | null> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    if (!feed) return null;
+    const fetched: Partial<CalendarFeed> = { lastFetchedAt: now };
+    await db.update(calendarFeeds).set(fetched).where(eq(calendarFeeds.id, feed.id));
+
+    const rows = await db.select({ election: elections, entry: watchlist })
+      .from(watchlist)
+      .innerJoin(elections, eq(watchlist.electionId, elections.id))
+      .where(and(
+        eq(watchlist.userId, feed.userId),
+        eq(watchlist.status, 'active'),
+        gte(elections.date, this.horizon(now))
+      ));
+
+    const alarms = new Map(rows.map(({ election, entry }) => [
+      election.id,
+      entry.notificationsEnabled === false ? null : entry.reminderDaysBefore ?? 7
+    ] as const));
+    return this.render(rows.map(row => row.election), alarms, {
+      name: 'My election watchlist',
+      description: 'Election dates and voter deadlines for the elections you follow'
+    }, now);
+  }
+
+  /**
+   * The public calendar of a state's elections
+   */
+  async stateCalendar(state: string, now: Date = new Date()): Promise<string> {
+    const law = getStateElectionLaw(state.toUpperCase());
+    if (!law) throw new CalendarFeedError(`Unknown state: ${state}`);
+
+    // Elections are stored under the code or the full name. Inactive ones
+    // stay in so calendars show them as cancelled.
+    const rows = await db.select().from(elections)
+      .where(and(inArray(elections.state, [law.code, law.name]), gte(elections.date, this.horizon(now))));
+    return this.render(rows, new Map(), {
+      name: `${law.name} elections`,
+      description: `Election dates and voter deadlines in ${law.name}`
+    }, now);
+  }
+
+  async listDeadlines(electionId: number): Promise<ElectionDeadline[]> {
+    return db.select().from(electionDeadlines)
+      .where(and(eq(electionDeadlines.electionId, electionId), isNull(electionDeadlines.removedAt)))
+      .orderBy(electionDeadlines.endsOn);
+  }
+
+  /**
+   * Record or change one of an election's deadlines. Returns null when the
+   * election does not exist. Re-adding a removed deadline carries on from
+   * its last sequence.
+   */
+  async setDeadline(electionId: number, kind: string, input: DeadlineInput, actor: string): Promise<ElectionDeadline | null> {
+    if (!isDeadlineKind(kind)) throw new CalendarFeedError(`Unknown deadline kind: ${kind}`);
+    if (input.startsOn && input.startsOn > input.endsOn) {
+      throw new CalendarFeedError('A window cannot start after it ends');
+    }
+    const [election] = await db.select({ id: elections.id }).from(elections).where(eq(elections.id, electionId));
+    if (!election) return null;
+
+    const values: Partial<ElectionDeadline> = {
+      startsOn: input.startsOn ?? null,
+      endsOn: input.endsOn,
+      note: input.note ?? null,
+      sourceUrl: input.sourceUrl ?? null,
+      removedAt: null,
+      updatedBy: actor,
+      updatedAt: new Date()
+    };
+    const inserted: NewDeadline = { ...values, electionId, kind: kind as DeadlineKind, endsOn: input.endsOn };
+    const changed: DeadlineChanges = { ...values, sequence: sql`${electionDeadlines.sequence} + 1` };
+    const [deadline] = await db.insert(electionDeadlines)
+      .values(inserted)
+      .onConflictDoUpdate({ target: [electionDeadlines.electionId, electionDeadlines.kind], set: changed })
+      .returning();
+    return deadline;
+  }
+
+  /**
+   * Remove a deadline. The row stays behind as a tombstone with its
+   * sequence raised, so feeds can cancel the event calendars already have.
+   */
+  async removeDeadline(electionId: number, kind: string, actor: string): Promise<boolean> {
+    if (!isDeadlineKind(kind)) throw new CalendarFeedError(`Unknown deadline kind: ${kind}`);
+    const changes: DeadlineChanges = {
+      removedAt: new Date(),
+      sequence: sql`${electionDeadlines.sequence} + 1`,
+      updatedBy: actor,
+      updatedAt: new Date()
+    };
+    const removed = await db.update(electionDeadlines)
+      .set(changes)
+      .where(and(
+        eq(electionDeadlines.electionId, electionId),
+        eq(electionDeadlines.kind, kind),
+        isNull(electionDeadlines.removedAt)
+      ))
+      .returning({ id: electionDeadlines.id });
+    return removed.length > 0;
+  }
+
+  private async render(
+    rows: ElectionRow[],
+    alarms: Map<number, number | null>,
+    calendar: { name: string; description: string },
+    now: Date
+  ): Promise<string> {
+    const ids = rows.map(row => row.id);
+    const [deadlines, revisions] = await Promise.all([
+      ids.length > 0 ? db.select().from(electionDeadlines).where(inArray(electionDeadlines.electionId, ids)) : [],
+      this.revisions(ids)
+    ]);
+
+    const options = { baseUrl: this.baseUrl, host: calendarHost(this.baseUrl) };
+    const events = rows
+      .slice()
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .flatMap(row => {
+        const revision = revisions.get(row.id);
+        const election: FeedElection = {
+          ...row,
+          sequence: revision?.sequence ?? 0,
+          lastModified: revision?.lastModified ?? null
+        };
+        return electionEvents(election, deadlines, { ...options, alarmDaysBefore: alarms.get(row.id) ?? null });
+      });
+    return buildCalendar(events, { ...calendar, generatedAt: now });
+  }
+
+  /**
+   * How many times each election has changed, and when it last did - from
+   * its recorded facts and date versions, so the DATE_DRIFT fix and admin
+   * edits both raise the events' SEQUENCE. Dates moved by the database's
+   * authority reconcile only reach the election_date_changes ledger, so
+   * those count too.
+   */
+  private async revisions(ids: number[]): Promise<Map<number, { sequence: number; lastModified: Date | null }>> {
+    const result = new Map<number, { sequence: number; lastModified: Date | null }>();
+    if (ids.length === 0) return result;
+
+    const [facts, versions, ledger] = await Promise.all([
+      db.select({
+        electionId: electionFacts.electionId,
+        count: sql<number>`count(*)::int`,
+        latest: sql<string>`max(${electionFacts.observedAt})`
+      })
+        .from(electionFacts)
+        .where(and(
+          inArray(electionFacts.electionId, ids),
+          or(isNull(electionFacts.reason), notInArray(electionFacts.reason, [ELECTION_CREATED_REASON, BASELINE_REASON]))
+        ))
+        .groupBy(electionFacts.electionId),
+      db.select({
+        electionId: electionDateVersions.electionId,
+        count: sql<number>`count(*)::int`,
+        latest: sql<string>`max(${electionDateVersions.changedAt})`
+      })
+        .from(electionDateVersions)
+        .where(inArray(electionDateVersions.electionId, ids))
+        .groupBy(electionDateVersions.electionId),
+      db.execute(sql`
+        SELECT election_id::int AS "electionId", count(*)::int AS count, max(recorded_at) AS latest
+        FROM election_date_changes
+        WHERE election_id IN (${sql.join(ids.map(id => sql`${id}`), sql`, `)})
+        GROUP BY election_id
+      `)
+    ]);
+
+    const changes = (ledger.rows ?? []) as Array<{ electionId: number; count: number; latest: string | null }>;
+    for (const row of [...facts, ...versions, ...changes]) {
+      if (row.electionId == null) continue;
+      const current = result.get(row.electionId) ?? { sequence: 0, lastModified: null };
+      const latest = row.latest ? new Date(row.latest) : null;
+      result.set(row.electionId, {
+        sequence: current.sequence + Number(row.count),
+        lastModified: latest && (!current.lastModified || latest > current.lastModified) ? latest : current.lastModified
+      });
+    }
+    return result;
+  }
+
+  private horizon(now: Date): Date {
+    return new Date(now.getTime() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  private newToken(): string {
+    return randomBytes(24).toString('base64url');
+  }
+
+  private links(feed: CalendarFeed): CalendarFeedLinks {
+    const url = `${this.baseUrl}/api/calendar/feeds/${feed.token}.ics`;
+    return {
+      url,
+      webcalUrl: url.replace(/^https?:/, 'webcal:'),
+      createdAt: feed.createdAt,
+      rotatedAt: feed.rotatedAt,
+      lastFetchedAt: feed.lastFetchedAt
+    };
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
@@ -0,0 +1,268 @@
+/**
+ * Candidate Status Service
+ * Moves candidates through the filing lifecycle, recording each change
+ * with its effective date and source, carries runoff advancers into the
+ * runoff, and announces changes on the event processor, where watchers
+ * of the race are notified and live streams pick up withdrawals.
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import {
+  candidates,
+  candidateStatusChanges,
+  elections,
+  notificationEvents,
+  notificationSubscriptions,
+  watchlist
+} from '@shared/schema';
+import type { Candidate, CandidateStatusChange, NotificationSubscription } from '@shared/schema';
+import {
+  STATUS_LABELS,
+  ballotAppearance,
+  transitionError,
+  type CandidateStatus
+} from '../lib/candidate-status';
+import { eventProcessingService } from '../event-processing-service';
+import { notificationQueueService } from './notification-queue-service';
+import { alertRuleService } from './alert-rule-service';
+
+/** Bad request data - reported back as a 400 */
+export class CandidateStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CandidateStatusError';
+  }
+}
+
+export interface StatusChangeInput {
+  status: CandidateStatus;
+  effectiveDate?: Date;
+  source: string;
+  sourceUrl?: string | null;
+  reason?: string | null;
+  onBallot?: boolean | null;
+  advancedToElectionId?: number | null;
+  actor: string;
+}
+
+export interface CandidateStatusChangedEvent {
+  electionId: number | null;
+  candidateId: number;
+  candidateName: string;
+  previousStatus: string;
+  status: CandidateStatus;
+  effectiveDate: Date;
+  onBallot: boolean;
+  source: string;
+  reason: string | null;
+  advancedToElectionId: number | null;
+}
+
+export class CandidateStatusService {
+  constructor() {
+    eventProcessingService.on('candidate_status_changed', (payload: CandidateStatusChangedEvent) => {
+      this.notifyWatchers(payload).catch(error =>
+        console.error(`[Candidate Status] Failed to notify watchers of candidate ${payload.candidateId}:`, error));
+    });
+  }
+
+  /**
+   * Apply a status change. Advancing to a runoff also enters the
+   * candidate in the runoff election if they are not there already.
+   */
+  async changeStatus(candidateId: number, input: StatusChangeInput): Promise<{ candidate: Candidate; change: CandidateStatusChange; runoffCandidate: Candidate | null }> {
+    const [candidate] = await db.select().from(candidates).where(eq(candidates.id, candidateId));
+    if (!candidate) {
+      throw new CandidateStatusError(`Candidate ${candidateId} not found`);
+    }
+    const problem = transitionError(candidate.status, input.status);
+    if (problem) {
+      throw new CandidateStatusError(problem);
+    }
+    if (input.status === 'advanced' && !input.advancedToElectionId) {
+      throw new CandidateStatusError('Advancing to a runoff needs the runoff election');
+    }
+    if (input.status !== 'advanced' && input.advancedToElectionId) {
+      throw new CandidateStatusError('Only advancing candidates take a runoff election');
+    }
+
+    let runoffCandidate: Candidate | null = null;
+    if (input.advancedToElectionId) {
+      if (input.advancedToElectionId === candidate.electionId) {
+        throw new CandidateStatusError('The runoff must be a different election');
+      }
+      const [runoff] = await db.select({ id: elections.id }).from(elections).where(eq(elections.id, input.advancedToElectionId));
+      if (!runoff) {
+        throw new CandidateStatusError(`Runoff election ${input.advancedToElectionId} not found`);
+      }
+      runoffCandidate = await this.enterRunoff(candidate, input.advancedToElectionId);
+    }
+
+    const effectiveDate = input.effectiveDate ?? new Date();
+    const onBallot = ballotAppearance(input.status, candidate.onBallot !== false, input.onBallot);
+    const [change] = await db.insert(candidateStatusChanges).values({
+      candidateId,
+      electionId: candidate.electionId,
+      fromStatus: candidate.status,
+      toStatus: input.status,
+      effectiveDate,
+      onBallot,
+      source: input.source,
+      sourceUrl: input.sourceUrl ?? null,
+      reason: input.reason ?? null,
+      actor: input.actor
+    } as any).returning();
+
+    const [updated] = await db.update(candidates)
+      .set({
+        status: input.status,
+        statusEffectiveDate: effectiveDate,
+        onBallot,
+        isWriteIn: input.status === 'write_in' ? true : candidate.isWriteIn,
+        advancedToElectionId: input.advancedToElectionId ?? candidate.advancedToElectionId,
+        updatedAt: new Date()
+      } as any)
+      .where(eq(candidates.id, candidateId))
+      .returning();
+
+    this.announce(updated, candidate.status, change);
+    return { candidate: updated, change, runoffCandidate };
+  }
+
+  async getHistory(candidateId: number): Promise<CandidateStatusChange[]> {
+    return db.select().from(candidateStatusChanges)
+      .where(eq(candidateStatusChanges.candidateId, candidateId))
+      .orderBy(desc(candidateStatusChanges.effectiveDate), desc(candidateStatusChanges.id));
+  }
+
+  /** The runoff's row for the candidate, created as qualified when missing */
+  private async enterRunoff(candidate: Candidate, runoffElectionId: number): Promise<Candidate> {
+    const [existing] = await db.select().from(candidates).where(and(
+      eq(candidates.electionId, runoffElectionId),
+      sql`lower(${candidates.name}) = lower(${candidate.name})`
+    ));
+    if (existing) return existing;
+
+    const [created] = await db.insert(candidates).values({
+      name: candidate.name,
+      party: candidate.party,
+      electionId: runoffElectionId,
+      isIncumbent: candidate.isIncumbent,
+      description: candidate.description,
+      website: candidate.website,
+      bioguideId: candidate.bioguideId,
+      openstatesId: candidate.openstatesId,
+      fecCandidateId: candidate.fecCandidateId,
+      profileImageUrl: candidate.profileImageUrl,
+      isWriteIn: candidate.isWriteIn,
+      status: 'qualified',
+      statusEffectiveDate: new Date(),
+      onBallot: true
+    } as any).returning();
+    return created;
+  }
+
+  /**
+   * Emit the change on the event processor; a withdrawal is also emitted
+   * as candidate_withdrawn for the live streams
+   */
+  private announce(candidate: Candidate, previousStatus: string, change: CandidateStatusChange): void {
+    const payload: CandidateStatusChangedEvent = {
+      electionId: candidate.electionId,
+      candidateId: candidate.id,
+      candidateName: candidate.name,
+      previousStatus,
+      status: change.toStatus as CandidateStatus,
+      effectiveDate: change.effectiveDate,
+      onBallot: candidate.onBallot !== false,
+      source: change.source,
+      reason: change.reason,
+      advancedToElectionId: candidate.advancedToElectionId
+    };
+    eventProcessingService.emit('candidate_status_changed', payload);
+    if (change.toStatus === 'withdrawn') {
+      eventProcessingService.emit('candidate_withdrawn', {
+        electionId: candidate.electionId,
+        candidateId: candidate.id,
+        candidateName: candidate.name,
+        effectiveDate: change.effectiveDate,
+        reason: change.reason,
+        onBallot: payload.onBallot
+      });
+    }
+  }
+
+  /**
+   * Create the notification event and queue it for every verified,
+   * active election-alert subscription of users watching the race
+   */
+  private async notifyWatchers(payload: CandidateStatusChangedEvent): Promise<number | null> {
+    if (!payload.electionId) return null;
+    const election = await storage.getElection(payload.electionId);
+    if (!election) return null;
+
+    const label = STATUS_LABELS[payload.status].toLowerCase();
+    const ballotNote = !payload.onBallot || payload.status === 'qualified' || payload.status === 'advanced'
+      ? ''
+      : ' Their name will still appear on the ballot.';
+    const message = payload.status === 'advanced'
+      ? `${payload.candidateName} has advanced to the runoff in ${election.title}.`
+      : `${payload.candidateName} is now ${label} in ${election.title}.${ballotNote}`;
+
+    const [event] = await db.insert(notificationEvents).values({
+      eventType: 'candidate_update',
+      eventData: {
+        electionTitle: election.title,
+        candidateName: payload.candidateName,
+        message,
+        action: 'status_changed',
+        previousStatus: payload.previousStatus,
+        status: payload.status,
+        effectiveDate: payload.effectiveDate,
+        onBallot: payload.onBallot,
+        reason: payload.reason
+      },
+      triggerConditions: { status: payload.status },
+      relatedElectionId: payload.electionId,
+      relatedCandidateId: payload.candidateId,
+      priority: payload.status === 'withdrawn' || payload.status === 'disqualified' ? 'high' : 'normal',
+      source: payload.source,
+      sourceId: `candidate-status:${payload.candidateId}:${payload.status}`
+    } as any).returning();
+    if (!event?.id) return null;
+    alertRuleService.evaluateEvent(event).catch(error =>
+      console.error(`[Alert Rules] Failed to evaluate event ${event.id}:`, error));
+
+    const subscriptions = await this.getWatcherSubscriptions(payload.electionId);
+    if (subscriptions.length > 0) {
+      await notificationQueueService.processElectionEvent(event, subscriptions);
+    }
+    return event.id;
+  }
+
+  private async getWatcherSubscriptions(electionId: number): Promise<NotificationSubscription[]> {
+    const watchers = await db
+      .select({ userId: watchlist.userId })
+      .from(watchlist)
+      .where(and(
+        eq(watchlist.electionId, electionId),
+        eq(watchlist.notificationsEnabled, true),
+        eq(watchlist.status, 'active')
+      ));
+    if (watchers.length === 0) return [];
+
+    return db
+      .select()
+      .from(notificationSubscriptions)
+      .where(and(
+        inArray(notificationSubscriptions.userId, Array.from(new Set(watchers.map(w => w.userId)))),
+        eq(notificationSubscriptions.subscriptionType, 'election_alerts'),
+        eq(notificationSubscriptions.isActive, true),
+        eq(notificationSubscriptions.isVerified, true)
+      ));
+  }
+}
+
+export const candidateStatusService = new CandidateStatusService();
@@ -23,7 +23,7 @@ export interface ConsentRecord {
 
 export interface SubscriptionRequest {
   userId: string;
-  subscriptionType: 'election_alerts' | 'candidate_updates' | 'breaking_news' | 'weekly_digest' | 'deadline_reminders';
+  subscriptionType: 'election_alerts' | 'candidate_updates' | 'breaking_news' | 'weekly_digest' | 'deadline_reminders' | 'legislation_alerts';
   channel: 'email' | 'sms';
   targetValue: string; // email or phone
   preferences?: {
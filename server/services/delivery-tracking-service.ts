@@ -24,6 +24,8 @@ export interface DeliveryMetrics {
   channelBreakdown: {
     email: DeliveryChannelMetrics;
     sms: DeliveryChannelMetrics;
+    push: DeliveryChannelMetrics;
+    inbox: DeliveryChannelMetrics;
   };
 }
 
@@ -102,6 +104,15 @@ export class DeliveryTrackingService {
     }
   }
 
+  /**
+   * Track a delivery the notification queue has already stored, as it is
+   * now - called again whenever its status changes
+   */
+  trackDelivery(delivery: NotificationDelivery): void {
+    this.deliveryCache.set(delivery.id.toString(), delivery);
+    this.invalidateMetricsCache(delivery.campaignId);
+  }
+
   /**
    * Update delivery status (sent, delivered, failed, etc.)
    */
@@ -226,10 +237,14 @@ export class DeliveryTrackingService {
       // Channel breakdown
       const emailDeliveries = deliveries.filter(d => d.channel === 'email');
       const smsDeliveries = deliveries.filter(d => d.channel === 'sms');
+      const pushDeliveries = deliveries.filter(d => d.channel === 'push');
+      const inboxDeliveries = deliveries.filter(d => d.channel === 'inbox');
 
       const channelBreakdown = {
         email: this.calculateChannelMetrics(emailDeliveries),
-        sms: this.calculateChannelMetrics(smsDeliveries)
+        sms: this.calculateChannelMetrics(smsDeliveries),
+        push: this.calculateChannelMetrics(pushDeliveries),
+        inbox: this.calculateChannelMetrics(inboxDeliveries)
       };
 
       const metrics: DeliveryMetrics = {
@@ -0,0 +1,406 @@
+/**
+ * Digest Service
+ * Builds each user's daily or weekly digest from what changed on their
+ * watchlist since the last one - election date and office changes,
+ * deadlines, elections coming up, race calls, new polls and candidate
+ * status updates - renders it through the digest notification templates
+ * and queues it as an email at the user's local delivery time. Every
+ * period is recorded once, empty or not, so a digest goes out at most
+ * once and empty ones never do.
+ */
+
+import { db } from '../db';
+import { and, desc, eq, gt, inArray, isNotNull, lte, or, sql } from 'drizzle-orm';
+import {
+  candidateStatusChanges,
+  candidates,
+  electionFacts,
+  elections,
+  notificationDigests,
+  notificationEvents,
+  notificationPreferences,
+  notificationSubscriptions,
+  notificationTemplates,
+  pollingData,
+  raceCalls,
+  watchlist,
+  type NotificationPreferences,
+  type NotificationTemplate
+} from '@shared/schema';
+import {
+  buildDigestSections,
+  DEFAULT_DIGEST_TEMPLATES,
+  digestCadence,
+  digestTemplateData,
+  duePeriod,
+  windowStart,
+  DIGEST_PERIOD_MS,
+  type DigestCadence,
+  type DigestInput,
+  type DigestSection,
+  type DigestWindow
+} from '../lib/digest';
+import { BASELINE_REASON, buildFactHistory, ELECTION_CREATED_REASON } from '../lib/election-facts';
+import { renderTemplate, TemplateSyntaxError } from '../lib/notification-templates';
+import { notificationQueueService } from './notification-queue-service';
+
+/** Bad request data - reported back as a 400 */
+export class DigestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DigestError';
+  }
+}
+
+export interface ComposedDigest {
+  userId: string;
+  cadence: DigestCadence;
+  since: Date;
+  until: Date;
+  sections: DigestSection[];
+  itemCount: number;
+  empty: boolean;
+  subject: string;
+  text: string;
+  html: string;
+  templateId: number | null;
+}
+
+export interface DigestPreview extends ComposedDigest {
+  recipient: string | null;
+  periodKey: string | null; // the period that would go out now, or null when not yet due
+}
+
+export interface DigestRunSummary {
+  considered: number;
+  queued: number;
+  empty: number;
+  skipped: number;
+}
+
+export class DigestService {
+  private pollingInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  private get baseUrl(): string {
+    return (process.env.BASE_URL || 'http://localhost:5000').replace(/\/$/, '');
+  }
+
+  startPolling(intervalMinutes: number = 5): void {
+    if (this.pollingInterval) return;
+    const run = () => this.runDue().catch(error => console.error('[Digests] Digest run failed:', error));
+    run();
+    this.pollingInterval = setInterval(run, intervalMinutes * 60 * 1000);
+  }
+
+  stopPolling(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+  }
+
+  /**
+   * Build and queue every digest that is due. Safe to run from several
+   * workers - the period row is claimed before anything is queued.
+   */
+  async runDue(now: Date = new Date()): Promise<DigestRunSummary> {
+    const summary: DigestRunSummary = { considered: 0, queued: 0, empty: 0, skipped: 0 };
+    if (this.isRunning) return summary;
+    this.isRunning = true;
+
+    try {
+      const subscribers = await db.select().from(notificationPreferences)
+        .where(or(eq(notificationPreferences.dailyDigest, true), eq(notificationPreferences.weeklyDigest, true)));
+
+      const due = subscribers
+        .map(preferences => {
+          const cadence = digestCadence(preferences);
+          const periodKey = cadence ? duePeriod(now, preferences, cadence) : null;
+          return cadence && periodKey ? { preferences, cadence, periodKey } : null;
+        })
+        .filter((entry): entry is { preferences: NotificationPreferences; cadence: DigestCadence; periodKey: string } => entry !== null);
+      if (due.length === 0) return summary;
+
+      const last = await this.lastDigests(due.map(d => d.preferences.userId));
+      for (const { preferences, cadence, periodKey } of due) {
+        const previous = last.get(`${preferences.userId}:${cadence}`);
+        if (previous && previous.periodKey >= periodKey) continue;
+
+        summary.considered++;
+        try {
+          const outcome = await this.sendDigest(preferences, cadence, periodKey, previous?.periodEnd ?? null, now);
+          summary[outcome]++;
+        } catch (error) {
+          console.error(`[Digests] Failed to build ${cadence} digest for user ${preferences.userId}:`, error);
+        }
+      }
+
+      if (summary.considered > 0) {
+        console.log(`📰 Digests: ${summary.queued} queued, ${summary.empty} empty, ${summary.skipped} skipped`);
+      }
+      return summary;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * The digest the user would get next, built as of now - for admins
+   * checking what a user will receive. Nothing is recorded or sent.
+   */
+  async preview(userId: string, cadence?: DigestCadence, now: Date = new Date()): Promise<DigestPreview> {
+    const [preferences] = await db.select().from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    const effective = cadence ?? (preferences ? digestCadence(preferences) : null);
+    if (!effective) {
+      throw new DigestError('User has no digest turned on - pass a cadence to preview one anyway');
+    }
+
+    const last = await this.lastDigests([userId]);
+    const previous = last.get(`${userId}:${effective}`);
+    const digest = await this.compose(userId, effective, windowStart(now, effective, previous?.periodEnd), now, preferences?.timezone);
+    const periodKey = preferences ? duePeriod(now, preferences, effective) : null;
+    return {
+      ...digest,
+      recipient: await this.recipientFor(userId, preferences),
+      periodKey: periodKey && !(previous && previous.periodKey >= periodKey) ? periodKey : null
+    };
+  }
+
+  /**
+   * Gather the window's changes for the user's watchlist and render them
+   */
+  async compose(userId: string, cadence: DigestCadence, since: Date, until: Date, timezone?: string | null): Promise<ComposedDigest> {
+    const window: DigestWindow = { cadence, since, until, timezone };
+    const sections = buildDigestSections(await this.gather(userId, window), window, this.baseUrl);
+    const data = digestTemplateData(sections, window, this.baseUrl);
+    const template = await this.templateFor(cadence);
+
+    let rendered: { subject: string; text: string; html: string };
+    try {
+      rendered = this.render(template, data);
+    } catch (error) {
+      // An admin's edit broke the stored template - fall back rather than skip the digest
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      console.error(`[Digests] Template ${template.name} is invalid, using the default:`, error.message);
+      rendered = this.render(DEFAULT_DIGEST_TEMPLATES[cadence], data);
+    }
+
+    const itemCount = sections.reduce((sum, section) => sum + section.items.length, 0);
+    return {
+      userId,
+      cadence,
+      since,
+      until,
+      sections,
+      itemCount,
+      empty: sections.length === 0,
+      ...rendered,
+      templateId: 'id' in template ? template.id : null
+    };
+  }
+
+  private async sendDigest(
+    preferences: NotificationPreferences,
+    cadence: DigestCadence,
+    periodKey: string,
+    lastPeriodEnd: Date | null,
+    now: Date
+  ): Promise<'queued' | 'empty' | 'skipped'> {
+    const recipient = await this.recipientFor(preferences.userId, preferences);
+    // No verified address yet - leave the period open in case one is added today
+    if (!recipient) return 'skipped';
+
+    const since = windowStart(now, cadence, lastPeriodEnd);
+    const digest = await this.compose(preferences.userId, cadence, since, now, preferences.timezone);
+
+    const [claimed] = await db.insert(notificationDigests).values({
+      userId: preferences.userId,
+      cadence,
+      periodKey,
+      periodStart: since,
+      periodEnd: now,
+      status: digest.empty ? 'empty' : 'queued',
+      itemCount: digest.itemCount
+    } as any)
+      .onConflictDoNothing()
+      .returning({ id: notificationDigests.id });
+    if (!claimed) return 'skipped';
+    if (digest.empty) return 'empty';
+
+    try {
+      const deliveryId = await notificationQueueService.queueNotification({
+        type: 'email',
+        priority: 'low',
+        recipient,
+        content: { subject: digest.subject, message: digest.text, html: digest.html },
+        metadata: { userId: preferences.userId, templateId: digest.templateId ?? undefined },
+        maxRetries: 3,
+        scheduledAt: now,
+        // Tomorrow's daily digest supersedes today's
+        expiresAt: new Date(now.getTime() + DIGEST_PERIOD_MS[cadence])
+      });
+      await db.update(notificationDigests)
+        .set({ deliveryId: Number(deliveryId) } as any)
+        .where(eq(notificationDigests.id, claimed.id));
+      return 'queued';
+    } catch (error) {
+      // Give the period back so the next run tries again
+      await db.delete(notificationDigests).where(eq(notificationDigests.id, claimed.id));
+      throw error;
+    }
+  }
+
+  private async lastDigests(userIds: string[]): Promise<Map<string, { periodKey: string; periodEnd: Date }>> {
+    if (userIds.length === 0) return new Map();
+    const rows = await db.select({
+      userId: notificationDigests.userId,
+      cadence: notificationDigests.cadence,
+      periodKey: sql<string>`max(${notificationDigests.periodKey})`,
+      periodEnd: sql<Date>`max(${notificationDigests.periodEnd})`
+    })
+      .from(notificationDigests)
+      .where(inArray(notificationDigests.userId, userIds))
+      .groupBy(notificationDigests.userId, notificationDigests.cadence);
+    return new Map(rows.map(row => [
+      `${row.userId}:${row.cadence}`,
+      { periodKey: row.periodKey, periodEnd: new Date(row.periodEnd) }
+    ] as const));
+  }
+
+  private async recipientFor(userId: string, preferences?: NotificationPreferences | null): Promise<string | null> {
+    if (preferences && preferences.emailEnabled === false) return null;
+    const subscriptions = await db.select().from(notificationSubscriptions)
+      .where(and(
+        eq(notificationSubscriptions.userId, userId),
+        eq(notificationSubscriptions.channel, 'email'),
+        eq(notificationSubscriptions.isActive, true),
+        eq(notificationSubscriptions.isVerified, true)
+      ));
+    return subscriptions.find(s => s.targetValue)?.targetValue ?? null;
+  }
+
+  private async gather(userId: string, window: DigestWindow): Promise<DigestInput> {
+    const watched = await db.select({
+      id: elections.id,
+      title: elections.title,
+      state: elections.state,
+      date: elections.date,
+      reminderDaysBefore: watchlist.reminderDaysBefore
+    })
+      .from(watchlist)
+      .innerJoin(elections, eq(watchlist.electionId, elections.id))
+      .where(and(eq(watchlist.userId, userId), eq(watchlist.status, 'active')));
+
+    const input: DigestInput = { elections: watched, factChanges: [], deadlines: [], polls: [], raceCalls: [], candidateChanges: [] };
+    if (watched.length === 0) return input;
+    const ids = watched.map(e => e.id);
+    const inWindow = (column: any) => and(gt(column, window.since), lte(column, window.until));
+
+    const [facts, deadlines, polls, calls, changes] = await Promise.all([
+      // Whole histories, so each change in the window knows the value it replaced
+      db.select().from(electionFacts).where(inArray(electionFacts.electionId, ids)),
+      db.select().from(notificationEvents).where(and(
+        eq(notificationEvents.eventType, 'deadline_reminder'),
+        inArray(notificationEvents.relatedElectionId, ids),
+        inWindow(notificationEvents.createdAt)
+      )),
+      db.select().from(pollingData).where(and(inArray(pollingData.electionId, ids), inWindow(pollingData.createdAt))),
+      db.select({ call: raceCalls, candidateName: candidates.name })
+        .from(raceCalls)
+        .innerJoin(candidates, eq(raceCalls.candidateId, candidates.id))
+        .where(and(
+          inArray(raceCalls.electionId, ids),
+          or(inWindow(raceCalls.calledAt), and(isNotNull(raceCalls.retractedAt), inWindow(raceCalls.retractedAt)))
+        )),
+      db.select({ change: candidateStatusChanges, candidateName: candidates.name })
+        .from(candidateStatusChanges)
+        .innerJoin(candidates, eq(candidateStatusChanges.candidateId, candidates.id))
+        .where(and(inArray(candidateStatusChanges.electionId, ids), inWindow(candidateStatusChanges.createdAt)))
+        .orderBy(desc(candidateStatusChanges.createdAt))
+    ]);
+
+    for (const id of ids) {
+      const history = buildFactHistory(facts
+        .filter(fact => fact.electionId === id)
+        .map(fact => ({ ...fact, factValue: fact.factValue as unknown, observedAt: new Date(fact.observedAt) })));
+      for (const entry of history) {
+        if (!entry.changed || entry.reason === ELECTION_CREATED_REASON || entry.reason === BASELINE_REASON) continue;
+        input.factChanges.push({
+          electionId: id,
+          field: entry.field,
+          previous: entry.previous,
+          value: entry.value,
+          observedAt: new Date(entry.observedAt)
+        });
+      }
+    }
+
+    input.deadlines = deadlines.map(event => ({
+      electionId: event.relatedElectionId,
+      message: (event.eventData as any)?.message ?? null,
+      createdAt: event.createdAt ?? window.until
+    }));
+    input.polls = polls;
+    input.raceCalls = calls.map(({ call, candidateName }) => ({
+      electionId: call.electionId,
+      candidateName,
+      callType: call.callType,
+      calledAt: call.calledAt,
+      retractedAt: call.retractedAt
+    }));
+    input.candidateChanges = changes.map(({ change, candidateName }) => ({
+      electionId: change.electionId,
+      candidateName,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      createdAt: change.createdAt ?? change.effectiveDate
+    }));
+    return input;
+  }
+
+  /**
+   * The stored template for the cadence, stored from the defaults the
+   * first time so admins can edit it alongside the other templates
+   */
+  private async templateFor(cadence: DigestCadence): Promise<NotificationTemplate | typeof DEFAULT_DIGEST_TEMPLATES[DigestCadence]> {
+    const defaults = DEFAULT_DIGEST_TEMPLATES[cadence];
+    const [stored] = await db.select().from(notificationTemplates)
+      .where(eq(notificationTemplates.name, defaults.name));
+    if (stored) return stored.isActive ? stored : defaults;
+
+    const [created] = await db.insert(notificationTemplates).values({
+      name: defaults.name,
+      type: 'email',
+      category: 'digest',
+      subject: defaults.subject,
+      textContent: defaults.textContent,
+      htmlContent: defaults.htmlContent,
+      variables: {
+        title: 'Digest heading, e.g. "Your daily election digest"',
+        dateLabel: 'Day the digest is for',
+        periodLabel: 'What the digest covers',
+        sections: 'List of {heading, items: [{text, url}]}',
+        itemCount: 'Total number of items',
+        preferencesUrl: 'Link to notification preferences',
+        cadence: '"daily" or "weekly"'
+      },
+      createdBy: 'system',
+      tags: ['digest', cadence]
+    } as any)
+      .onConflictDoNothing({ target: notificationTemplates.name })
+      .returning();
+    return created ?? defaults;
+  }
+
+  private render(template: { subject?: string | null; textContent: string; htmlContent?: string | null }, data: Record<string, unknown>) {
+    return {
+      subject: renderTemplate(template.subject || '{{title}}', data).trim(),
+      text: renderTemplate(template.textContent, data).replace(/\n{3,}/g, '\n\n').trim(),
+      html: renderTemplate(template.htmlContent || DEFAULT_DIGEST_TEMPLATES.daily.htmlContent, data, { html: true })
+    };
+  }
+}
+
+export const digestService = new DigestService();
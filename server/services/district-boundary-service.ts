@@ -0,0 +1,220 @@
+/**
+ * District Boundary Service
+ * Loads Census TIGER boundaries - congressional, state legislative upper
+ * and lower, and county - from GeoJSON files or unzipped shapefiles in
+ * the boundaries directory into an in-memory spatial index, and answers
+ * "which districts contain this point" and "which races are on this
+ * voter's ballot" for geocoded addresses. Files are read at startup and on
+ * an admin reload only; lookups use whatever index is loaded.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { storage } from '../storage';
+import { mapQuestService } from '../mapquest-service';
+import type { Election } from '@shared/schema';
+import {
+  DistrictIndex,
+  boundingBox,
+  districtFromProperties,
+  racesOnBallot,
+  ringsFromGeometry,
+  type BallotRace,
+  type District,
+  type DistrictType
+} from '../lib/district-boundaries';
+import { readShapefile } from '../lib/shapefile';
+
+export interface BoundaryLoadReport {
+  directory: string;
+  files: Array<{ file: string; features: number; skipped: number; error?: string }>;
+  features: number;
+  coverage: Record<DistrictType, string[]>;
+  loadedAt: string;
+}
+
+export interface VoterLocation {
+  latitude: number;
+  longitude: number;
+  state: string;
+  county: string;
+  city: string;
+  postalCode?: string;
+  street?: string;
+  quality?: string;
+}
+
+export interface VoterBallot {
+  location: VoterLocation;
+  districts: District[];
+  races: BallotRace<Election>[];
+  coverage: Record<DistrictType, string[]>;
+}
+
+const BOUNDARY_EXTENSIONS = ['.geojson', '.json', '.shp'];
+
+/**
+ * District type from TIGER file names (tl_2024_us_cd119, tl_2024_06_sldu,
+ * cb_2023_us_county_500k); attribute names decide when this does not
+ */
+function typeFromFileName(file: string): DistrictType | null {
+  const name = path.basename(file).toLowerCase();
+  if (/_cd\d+/.test(name)) return 'congressional';
+  if (/_sldu/.test(name)) return 'state_upper';
+  if (/_sldl/.test(name)) return 'state_lower';
+  if (/_county/.test(name)) return 'county';
+  return null;
+}
+
+export class DistrictBoundaryService {
+  private index = new DistrictIndex();
+  private report: BoundaryLoadReport | null = null;
+  private loading: Promise<BoundaryLoadReport> | null = null;
+
+  get directory(): string {
+    return process.env.DISTRICT_BOUNDARIES_DIR || path.join(process.cwd(), 'data', 'boundaries');
+  }
+
+  /**
+   * Load the boundaries once - called at startup and by the admin status
+   * route, never from a lookup
+   */
+  async ensureLoaded(): Promise<BoundaryLoadReport> {
+    if (this.report) return this.report;
+    if (!this.loading) {
+      this.loading = this.reload().finally(() => { this.loading = null; });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Rebuild the index from every boundary file in the directory
+   */
+  async reload(): Promise<BoundaryLoadReport> {
+    const directory = this.directory;
+    const index = new DistrictIndex();
+    const files: BoundaryLoadReport['files'] = [];
+
+    let entries: string[] = [];
+    try {
+      entries = (await fs.readdir(directory)).sort();
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+      console.warn(`District boundaries directory not found: ${directory}`);
+    }
+
+    for (const entry of entries.filter(file => BOUNDARY_EXTENSIONS.includes(path.extname(file).toLowerCase()))) {
+      const file = path.join(directory, entry);
+      try {
+        const { features, skipped } = await this.loadFile(file, index);
+        files.push({ file: entry, features, skipped });
+      } catch (error) {
+        console.error(`Failed to load district boundaries from ${entry}:`, error);
+        files.push({ file: entry, features: 0, skipped: 0, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    this.index = index;
+    this.report = {
+      directory,
+      files,
+      features: index.size,
+      coverage: index.coverage(),
+      loadedAt: new Date().toISOString()
+    };
+    console.log(`📍 Loaded ${index.size} district boundaries from ${files.length} files`);
+    return this.report;
+  }
+
+  private async loadFile(file: string, index: DistrictIndex): Promise<{ features: number; skipped: number }> {
+    const hint = typeFromFileName(file);
+    let raw: Array<{ properties: Record<string, any>; rings: number[][][] }>;
+
+    if (path.extname(file).toLowerCase() === '.shp') {
+      const base = file.slice(0, -4);
+      const [shp, dbf, cpg] = await Promise.all([
+        fs.readFile(file),
+        fs.readFile(`${base}.dbf`),
+        fs.readFile(`${base}.cpg`, 'utf8').catch(() => 'UTF-8')
+      ]);
+      raw = readShapefile(shp, dbf, /8859|latin/i.test(cpg) ? 'latin1' : 'utf8');
+    } else {
+      const collection = JSON.parse(await fs.readFile(file, 'utf8'));
+      const features: any[] = collection?.type === 'FeatureCollection' ? collection.features : [collection];
+      raw = features.map(feature => ({ properties: feature?.properties ?? {}, rings: ringsFromGeometry(feature?.geometry) }));
+    }
+
+    let added = 0;
+    let skipped = 0;
+    for (const feature of raw) {
+      const district = districtFromProperties(feature.properties, hint);
+      if (!district || feature.rings.length === 0) {
+        skipped++;
+        continue;
+      }
+      index.add({ ...district, bbox: boundingBox(feature.rings), rings: feature.rings });
+      added++;
+    }
+    return { features: added, skipped };
+  }
+
+  getLoadReport(): BoundaryLoadReport | null {
+    return this.report;
+  }
+
+  /**
+   * Every loaded district containing the point - empty until the startup
+   * load finishes
+   */
+  async lookup(latitude: number, longitude: number): Promise<District[]> {
+    return this.index.lookup(latitude, longitude);
+  }
+
+  /**
+   * Geocode an address (or take coordinates), find its districts and the
+   * state's upcoming elections that are on that voter's ballot
+   */
+  async getBallotForLocation(query: { address?: string; latitude?: number; longitude?: number }): Promise<VoterBallot | null> {
+    let location: VoterLocation | null = null;
+    if (query.address) {
+      location = await mapQuestService.geocodeAddress(query.address);
+    } else if (query.latitude !== undefined && query.longitude !== undefined) {
+      location = await mapQuestService.reverseGeocode(query.latitude, query.longitude);
+    }
+    if (!location || !location.state) return null;
+
+    // Before the boundaries load, nothing counts as covered and races are
+    // matched on the geocoded place alone
+    const coverage = this.report?.coverage ?? ({} as Record<DistrictType, string[]>);
+    const districts = this.index.lookup(location.latitude, location.longitude);
+    const state = districts[0]?.state ?? location.state;
+
+    const elections = await storage.getElections({
+      state,
+      level: ["Local", "State", "Federal"],
+      timeframe: undefined,
+      timeRange: undefined,
+      party: undefined,
+      electionType: undefined,
+      search: undefined,
+      type: undefined
+    });
+
+    return {
+      location: { ...location, state },
+      districts,
+      races: racesOnBallot(elections, districts, { state, city: location.city, county: location.county }, coverage),
+      coverage
+    };
+  }
+
+  /**
+   * The voter's congressional district code, e.g. 'CA-12'
+   */
+  async congressionalDistrictAt(latitude: number, longitude: number): Promise<string | null> {
+    const districts = await this.lookup(latitude, longitude);
+    return districts.find(d => d.type === 'congressional')?.code ?? null;
+  }
+}
+
+export const districtBoundaryService = new DistrictBoundaryService();
@@ -14,6 +14,10 @@ import type {
   DataProvenance,
   InsertDataProvenance 
 } from '@shared/schema';
+import { evaluateStateElectionRules, getStateElectionLaw } from '../validators/state-election-rules';
+
+// Coordinated-calendar checks for local and municipal generals
+const COORDINATED_DATE_CODES = ['unexpected_coordinated_date', 'general_not_tuesday'];
 
 export interface ElectionValidation {
   isValid: boolean;
@@ -24,122 +28,20 @@ export interface ElectionValidation {
   sourcesChecked: string[];
 }
 
-export interface StateElectionRule {
-  state: string;
-  generalElectionDay: string; // e.g., "Tuesday after first Monday in November"
-  primaryElectionMonth?: string;
-  allowedDaysOfWeek?: number[]; // 0=Sunday, 1=Monday, etc.
-  specialElectionRules?: string;
-  runoffRules?: string;
-  notes?: string;
-}
-
-/**
- * Federal Coordinated Election Rule:
- * Tuesday following the first Monday in November (even years for federal elections)
- */
-function getExpectedCoordinatedElectionDate(year: number): Date {
-  // Find first Monday in November
-  const nov1 = new Date(Date.UTC(year, 10, 1)); // Month 10 = November
-  const dayOfWeek = nov1.getUTCDay();
-  
-  // Calculate days until Monday (1)
-  let daysToMonday = (1 - dayOfWeek + 7) % 7;
-  if (daysToMonday === 0) daysToMonday = 0; // Nov 1 is Monday
-  
-  const firstMonday = new Date(Date.UTC(year, 10, 1 + daysToMonday));
-  
-  // Election is the Tuesday after first Monday
-  const electionDate = new Date(firstMonday);
-  electionDate.setUTCDate(firstMonday.getUTCDate() + 1);
-  
-  return electionDate;
-}
-
-/**
- * State-specific election rules database
- */
-const STATE_ELECTION_RULES: Record<string, StateElectionRule> = {
-  // Federal coordinated states (use Tuesday-after-first-Monday in November)
-  AL: { state: 'Alabama', generalElectionDay: 'Tuesday after first Monday in November' },
-  AK: { state: 'Alaska', generalElectionDay: 'Tuesday after first Monday in November' },
-  AZ: { state: 'Arizona', generalElectionDay: 'Tuesday after first Monday in November' },
-  AR: { state: 'Arkansas', generalElectionDay: 'Tuesday after first Monday in November' },
-  CA: { state: 'California', generalElectionDay: 'Tuesday after first Monday in November' },
-  CO: { 
-    state: 'Colorado', 
-    generalElectionDay: 'Tuesday after first Monday in November',
-    notes: 'Coordinated elections in odd years typically first Tuesday in November'
-  },
-  CT: { state: 'Connecticut', generalElectionDay: 'Tuesday after first Monday in November' },
-  DE: { state: 'Delaware', generalElectionDay: 'Tuesday after first Monday in November' },
-  FL: { state: 'Florida', generalElectionDay: 'Tuesday after first Monday in November' },
-  GA: { state: 'Georgia', generalElectionDay: 'Tuesday after first Monday in November' },
-  HI: { state: 'Hawaii', generalElectionDay: 'Tuesday after first Monday in November' },
-  ID: { state: 'Idaho', generalElectionDay: 'Tuesday after first Monday in November' },
-  IL: { state: 'Illinois', generalElectionDay: 'Tuesday after first Monday in November' },
-  IN: { state: 'Indiana', generalElectionDay: 'Tuesday after first Monday in November' },
-  IA: { state: 'Iowa', generalElectionDay: 'Tuesday after first Monday in November' },
-  KS: { state: 'Kansas', generalElectionDay: 'Tuesday after first Monday in November' },
-  KY: { state: 'Kentucky', generalElectionDay: 'Tuesday after first Monday in November' },
-  
-  // Louisiana - SPECIAL CASE: Saturday elections
-  LA: { 
-    state: 'Louisiana', 
-    generalElectionDay: 'Saturday in November (varies)',
-    allowedDaysOfWeek: [6], // Only Saturdays
-    specialElectionRules: 'All elections must be on Saturday',
-    notes: 'Federal special elections require gubernatorial proclamation'
-  },
-  
-  ME: { state: 'Maine', generalElectionDay: 'Tuesday after first Monday in November' },
-  MD: { state: 'Maryland', generalElectionDay: 'Tuesday after first Monday in November' },
-  MA: { state: 'Massachusetts', generalElectionDay: 'Tuesday after first Monday in November' },
-  MI: { state: 'Michigan', generalElectionDay: 'Tuesday after first Monday in November' },
-  MN: { state: 'Minnesota', generalElectionDay: 'Tuesday after first Monday in November' },
-  MS: { state: 'Mississippi', generalElectionDay: 'Tuesday after first Monday in November' },
-  MO: { state: 'Missouri', generalElectionDay: 'Tuesday after first Monday in November' },
-  MT: { state: 'Montana', generalElectionDay: 'Tuesday after first Monday in November' },
-  NE: { state: 'Nebraska', generalElectionDay: 'Tuesday after first Monday in November' },
-  NV: { state: 'Nevada', generalElectionDay: 'Tuesday after first Monday in November' },
-  NH: { state: 'New Hampshire', generalElectionDay: 'Tuesday after first Monday in November' },
-  NJ: { state: 'New Jersey', generalElectionDay: 'Tuesday after first Monday in November' },
-  NM: { state: 'New Mexico', generalElectionDay: 'Tuesday after first Monday in November' },
-  NY: { state: 'New York', generalElectionDay: 'Tuesday after first Monday in November' },
-  NC: { state: 'North Carolina', generalElectionDay: 'Tuesday after first Monday in November' },
-  ND: { state: 'North Dakota', generalElectionDay: 'Tuesday after first Monday in November' },
-  OH: { state: 'Ohio', generalElectionDay: 'Tuesday after first Monday in November' },
-  OK: { state: 'Oklahoma', generalElectionDay: 'Tuesday after first Monday in November' },
-  OR: { state: 'Oregon', generalElectionDay: 'Tuesday after first Monday in November' },
-  PA: { state: 'Pennsylvania', generalElectionDay: 'Tuesday after first Monday in November' },
-  RI: { state: 'Rhode Island', generalElectionDay: 'Tuesday after first Monday in November' },
-  SC: { state: 'South Carolina', generalElectionDay: 'Tuesday after first Monday in November' },
-  SD: { state: 'South Dakota', generalElectionDay: 'Tuesday after first Monday in November' },
-  TN: { state: 'Tennessee', generalElectionDay: 'Tuesday after first Monday in November' },
-  TX: { state: 'Texas', generalElectionDay: 'Tuesday after first Monday in November' },
-  UT: { state: 'Utah', generalElectionDay: 'Tuesday after first Monday in November' },
-  VT: { state: 'Vermont', generalElectionDay: 'Tuesday after first Monday in November' },
-  VA: { state: 'Virginia', generalElectionDay: 'Tuesday after first Monday in November' },
-  WA: { state: 'Washington', generalElectionDay: 'Tuesday after first Monday in November' },
-  WV: { state: 'West Virginia', generalElectionDay: 'Tuesday after first Monday in November' },
-  WI: { state: 'Wisconsin', generalElectionDay: 'Tuesday after first Monday in November' },
-  WY: { state: 'Wyoming', generalElectionDay: 'Tuesday after first Monday in November' },
-};
-
 /**
  * Layer 1: Rules-Based Validation
  * Fast, deterministic validation using known state laws
  */
 export class ElectionRulesValidator {
   /**
-   * Validate election date against state-specific rules
+   * Validate election date against the state election-law rules
    */
   validateElectionDate(
     state: string,
     date: Date | string,
     electionType: string,
     electionLevel: string,
-    electionTitle?: string
+    electionTitle?: string | null
   ): ElectionValidation {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -147,11 +49,9 @@ export class ElectionRulesValidator {
     
     const dateObj = typeof date === 'string' ? new Date(date) : date;
     const year = dateObj.getUTCFullYear();
-    const dayOfWeek = dateObj.getUTCDay();
     
-    // Get state rules
-    const stateRule = STATE_ELECTION_RULES[state];
-    if (!stateRule) {
+    const law = getStateElectionLaw(state);
+    if (!law) {
       warnings.push(`No validation rules found for state: ${state}`);
       return {
         isValid: true,
@@ -163,60 +63,33 @@ export class ElectionRulesValidator {
       };
     }
     
-    // Check Louisiana Saturday rule
-    if (state === 'LA') {
-      if (dayOfWeek !== 6) {
-        errors.push(
-          `Louisiana elections must be on Saturday (found ${this.getDayName(dayOfWeek)})`
-        );
-      }
-      
-      // Federal special elections need proclamation
-      if (electionLevel?.toLowerCase() === 'federal' && 
-          electionType?.toLowerCase().includes('special')) {
-        warnings.push(
-          'Louisiana federal special elections require gubernatorial proclamation'
-        );
-      }
-    }
+    // Coordinated elections follow the general election calendar
+    const type = this.isCoordinatedElection(electionType, electionTitle) && !electionType?.toLowerCase().includes('general')
+      ? `${electionType} general`
+      : electionType;
     
-    // Check coordinated elections (General elections on Tuesday after first Monday)
-    if (this.isCoordinatedElection(electionType, electionTitle)) {
-      const expectedDate = getExpectedCoordinatedElectionDate(year);
-      const actualDate = dateObj.toISOString().split('T')[0];
-      const expectedDateStr = expectedDate.toISOString().split('T')[0];
-      
-      if (actualDate !== expectedDateStr) {
-        // For coordinated elections in odd years (local/state), there's more flexibility
-        if (year % 2 === 1 && state === 'CO') {
-          // Colorado coordinated elections in odd years are typically first Tuesday in November
-          const firstTuesdayNov = this.getFirstTuesdayOfNovember(year);
-          const firstTuesdayStr = firstTuesdayNov.toISOString().split('T')[0];
-          
-          if (actualDate !== firstTuesdayStr && actualDate !== expectedDateStr) {
-            errors.push(
-              `Colorado coordinated election should be ${this.formatDate(firstTuesdayNov)} ` +
-              `or ${this.formatDate(expectedDate)} (found ${this.formatDate(dateObj)})`
-            );
-          }
-        } else {
-          errors.push(
-            `Expected coordinated election date: ${this.formatDate(expectedDate)} ` +
-            `(found ${this.formatDate(dateObj)})`
-          );
-        }
-      }
-      
-      // Coordinated elections should be on Tuesday
-      if (dayOfWeek !== 2 && state !== 'LA') {
-        errors.push(
-          `Coordinated elections must be on Tuesday (found ${this.getDayName(dayOfWeek)})`
-        );
+    for (const violation of evaluateStateElectionRules({
+      state,
+      date: dateObj,
+      level: electionLevel,
+      type,
+      title: electionTitle
+    })) {
+      // A missing proclamation is a provenance gap, not a bad date. Local
+      // generals off the coordinated calendar only warn when an election is
+      // stored, but this validator has always failed them.
+      const failed = (violation.severity === 'error' && violation.code !== 'missing_proclamation')
+        || COORDINATED_DATE_CODES.includes(violation.code);
+      if (failed) {
+        errors.push(violation.message);
+      } else {
+        warnings.push(violation.message);
       }
+      if (!sources.includes(violation.statute)) sources.push(violation.statute);
     }
     
     // Check for special election rules
-    if (electionType?.toLowerCase().includes('special')) {
+    if (electionType?.toLowerCase().includes('special') && !law.specialElectionNotice) {
       warnings.push(
         'Special elections may have different date requirements - verify with official proclamation'
       );
@@ -245,7 +118,7 @@ export class ElectionRulesValidator {
   /**
    * Determine if this is a coordinated election
    */
-  private isCoordinatedElection(electionType: string, electionTitle?: string): boolean {
+  private isCoordinatedElection(electionType: string, electionTitle?: string | null): boolean {
     const type = electionType?.toLowerCase() || '';
     const title = electionTitle?.toLowerCase() || '';
     
@@ -257,20 +130,6 @@ export class ElectionRulesValidator {
     );
   }
   
-  /**
-   * Get first Tuesday of November for a given year
-   */
-  private getFirstTuesdayOfNovember(year: number): Date {
-    const nov1 = new Date(Date.UTC(year, 10, 1));
-    const dayOfWeek = nov1.getUTCDay();
-    
-    // Calculate days until Tuesday (2)
-    let daysToTuesday = (2 - dayOfWeek + 7) % 7;
-    if (daysToTuesday === 0) daysToTuesday = 0; // Nov 1 is Tuesday
-    
-    return new Date(Date.UTC(year, 10, 1 + daysToTuesday));
-  }
-  
   /**
    * Calculate confidence score based on validation results
    */
@@ -284,32 +143,10 @@ export class ElectionRulesValidator {
     score -= warningCount * 10;
     
     // Reduce score if state rules are incomplete
-    const stateRule = STATE_ELECTION_RULES[state];
-    if (!stateRule) score -= 40;
+    if (!getStateElectionLaw(state)) score -= 40;
     
     return Math.max(0, Math.min(100, score));
   }
-  
-  /**
-   * Format date for display
-   */
-  private formatDate(date: Date): string {
-    return date.toLocaleDateString('en-US', {
-      weekday: 'short',
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      timeZone: 'UTC'
-    });
-  }
-  
-  /**
-   * Get day name from day number
-   */
-  private getDayName(day: number): string {
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    return days[day];
-  }
 }
 
 /**
@@ -0,0 +1,448 @@
+/**
+ * Entity Resolution Service
+ * Links our candidates to the same people in other data sources - sitting
+ * members of Congress (bioguide), FEC filers, OpenStates legislators,
+ * VoteSmart and Ballotpedia - through a crosswalk of external IDs.
+ * Confident matches are linked automatically; close calls are queued in
+ * the manual review queue for a data steward to confirm or reject.
+ */
+
+import { db } from '../db';
+import { and, desc, eq, inArray, isNull, sql, type SQL } from 'drizzle-orm';
+import {
+  candidateExternalIds,
+  candidates,
+  congressMembers,
+  elections,
+  fecCandidates,
+  manualReviewQueue,
+  stateLegislators
+} from '@shared/schema';
+import type { Candidate, CandidateExternalId, Election, ManualReviewQueue } from '@shared/schema';
+import { nanoid } from 'nanoid';
+import {
+  DEFAULT_THRESHOLDS,
+  officeKind,
+  resolveMatch,
+  type ExternalIdSystem,
+  type OfficeKind,
+  type PersonRecord
+} from '../lib/entity-resolution';
+import { cycleForYear, fecSeatForElection } from '../lib/fec-bulk';
+import { seatForElection } from '../lib/openstates-bulk';
+import { voteSmartService } from './votesmart-service';
+
+/** Bad request data - reported back as a 400 */
+export class EntityResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EntityResolutionError';
+  }
+}
+
+export interface ExternalPerson extends PersonRecord {
+  externalId: string;
+}
+
+export interface ResolutionReport {
+  system: ExternalIdSystem;
+  checked: number;
+  linked: number;
+  queued: number;
+  unmatched: number;
+}
+
+interface CandidateSubject extends PersonRecord {
+  candidateId: number;
+  year: number;
+}
+
+// New rows: the columns without defaults, plus any others
+type NewExternalId = Pick<CandidateExternalId, 'candidateId' | 'system' | 'externalId' | 'method'> & Partial<CandidateExternalId>;
+type NewReview = Pick<ManualReviewQueue, 'reviewId' | 'entityType' | 'entityId' | 'issueType' | 'issueSeverity' | 'issueDescription'>
+  & Partial<ManualReviewQueue>;
+// Updates: any column, to a value or a SQL expression
+type Changes<Row> = { [K in keyof Row]?: Row[K] | SQL };
+
+const ISSUE_TYPE = 'entity_match';
+
+const SYSTEM_LABELS: Record<ExternalIdSystem, string> = {
+  bioguide: 'Bioguide',
+  fec: 'FEC',
+  votesmart: 'VoteSmart',
+  openstates: 'OpenStates',
+  ballotpedia: 'Ballotpedia'
+};
+
+/** Candidate columns that mirror a crosswalk entry */
+const ID_COLUMNS = {
+  bioguide: 'bioguideId',
+  fec: 'fecCandidateId',
+  openstates: 'openstatesId'
+} as const;
+
+const FEC_OFFICES: Record<string, OfficeKind> = { H: 'us_house', S: 'us_senate', P: 'president' };
+const LEGISLATIVE_OFFICES: Record<string, OfficeKind> = { upper: 'state_upper', lower: 'state_lower', legislature: 'legislature' };
+
+function hasIdColumn(system: ExternalIdSystem): system is keyof typeof ID_COLUMNS {
+  return system in ID_COLUMNS;
+}
+
+/** The office and district an election is for, as the resolver compares them */
+function officeOf(election: Election): { office: OfficeKind | null; district: string | null } {
+  const federal = fecSeatForElection(election);
+  if (federal) return { office: FEC_OFFICES[federal.office], district: federal.office === 'H' ? federal.district : null };
+  const legislative = seatForElection(election);
+  if (legislative) return { office: LEGISLATIVE_OFFICES[legislative.chamber], district: legislative.district };
+  return { office: officeKind([election.title, ...(election.offices ?? [])].join(' ')), district: null };
+}
+
+export class EntityResolutionService {
+  // ============================================================================
+  // CROSSWALK
+  // ============================================================================
+
+  /**
+   * Copy IDs already set on candidate rows (by the bioguide, FEC and
+   * OpenStates linkers) into the crosswalk
+   */
+  async seedFromCandidateColumns(): Promise<{ added: number }> {
+    let added = 0;
+    for (const [system, key] of Object.entries(ID_COLUMNS) as Array<[ExternalIdSystem, typeof ID_COLUMNS[keyof typeof ID_COLUMNS]]>) {
+      const column = candidates[key];
+      const rows = await db.select({ candidateId: candidates.id, externalId: column, name: candidates.name })
+        .from(candidates)
+        .where(sql`${column} IS NOT NULL`);
+      if (rows.length === 0) continue;
+      const links: NewExternalId[] = rows.map(row => ({
+        candidateId: row.candidateId,
+        system,
+        externalId: row.externalId,
+        confidence: '1',
+        method: 'linked'
+      }));
+      const inserted = await db.insert(candidateExternalIds)
+        .values(links)
+        .onConflictDoNothing()
+        .returning({ id: candidateExternalIds.id });
+      added += inserted.length;
+    }
+    return { added };
+  }
+
+  async getCrosswalk(candidateId: number): Promise<CandidateExternalId[]> {
+    return db.select().from(candidateExternalIds)
+      .where(eq(candidateExternalIds.candidateId, candidateId))
+      .orderBy(candidateExternalIds.system);
+  }
+
+  /** Our candidates linked to an external ID - one per election they ran in */
+  async findByExternalId(system: ExternalIdSystem, externalId: string) {
+    return db.select({
+      candidateId: candidates.id,
+      name: candidates.name,
+      party: candidates.party,
+      electionId: candidates.electionId,
+      confidence: candidateExternalIds.confidence,
+      method: candidateExternalIds.method
+    })
+      .from(candidateExternalIds)
+      .innerJoin(candidates, eq(candidateExternalIds.candidateId, candidates.id))
+      .where(and(eq(candidateExternalIds.system, system), eq(candidateExternalIds.externalId, externalId)));
+  }
+
+  /**
+   * Record a link, mirroring it onto the candidate's ID column when it has
+   * one. A manual confirmation replaces whatever was linked before.
+   */
+  private async link(
+    candidateId: number,
+    system: ExternalIdSystem,
+    person: { externalId: string; name: string },
+    confidence: number,
+    method: 'auto' | 'manual',
+    confirmedBy: string | null = null
+  ): Promise<void> {
+    const values: Partial<CandidateExternalId> = {
+      externalId: person.externalId,
+      externalName: person.name,
+      confidence: confidence.toFixed(3),
+      method,
+      confirmedBy,
+      updatedAt: new Date()
+    };
+    const row: NewExternalId = { ...values, candidateId, system, externalId: person.externalId, method };
+    await db.insert(candidateExternalIds)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [candidateExternalIds.candidateId, candidateExternalIds.system],
+        set: values,
+        setWhere: method === 'manual' ? undefined : sql`${candidateExternalIds.method} = 'auto'`
+      });
+
+    if (hasIdColumn(system)) {
+      const key = ID_COLUMNS[system];
+      const column = candidates[key];
+      const mirrored: Changes<Candidate> = { [key]: person.externalId, updatedAt: new Date() };
+      await db.update(candidates)
+        .set(mirrored)
+        .where(method === 'manual' ? eq(candidates.id, candidateId) : and(eq(candidates.id, candidateId), isNull(column)));
+    }
+  }
+
+  // ============================================================================
+  // RESOLUTION
+  // ============================================================================
+
+  /**
+   * Match candidates without an ID in a system against that system's
+   * people. Ballotpedia has no local source, so its records - and records
+   * for any other system - can be passed in.
+   */
+  async resolve(
+    system: ExternalIdSystem,
+    options: { state?: string; electionId?: number; records?: ExternalPerson[] } = {}
+  ): Promise<ResolutionReport> {
+    if (system === 'ballotpedia' && !options.records) {
+      throw new EntityResolutionError('Ballotpedia records must be supplied');
+    }
+    await this.seedFromCandidateColumns();
+    const subjects = await this.unlinkedCandidates(system, options);
+    const report: ResolutionReport = { system, checked: subjects.length, linked: 0, queued: 0, unmatched: 0 };
+    if (subjects.length === 0) return report;
+
+    const pool = options.records ?? await this.externalPeople(system, subjects);
+    const byState = new Map<string, ExternalPerson[]>();
+    pool.forEach(person => {
+      const key = (person.state ?? '').toUpperCase();
+      const people = byState.get(key) ?? [];
+      people.push(person);
+      byState.set(key, people);
+    });
+
+    for (const subject of subjects) {
+      // Records without a state are compared with everyone
+      const candidatesPool = [...(byState.get((subject.state ?? '').toUpperCase()) ?? []), ...(subject.state ? byState.get('') ?? [] : [])];
+      const resolution = resolveMatch(subject, candidatesPool, DEFAULT_THRESHOLDS);
+      if (resolution.decision === 'match' && resolution.best) {
+        await this.link(subject.candidateId, system, resolution.best.record, resolution.best.score, 'auto');
+        report.linked++;
+      } else if (resolution.decision === 'review' && resolution.best) {
+        if (await this.queueReview(system, subject, resolution.best, resolution.alternatives)) report.queued++;
+      } else {
+        report.unmatched++;
+      }
+    }
+    return report;
+  }
+
+  private async unlinkedCandidates(
+    system: ExternalIdSystem,
+    options: { state?: string; electionId?: number }
+  ): Promise<CandidateSubject[]> {
+    const rows = await db.select({ candidate: candidates, election: elections })
+      .from(candidates)
+      .innerJoin(elections, eq(candidates.electionId, elections.id))
+      .leftJoin(candidateExternalIds, and(
+        eq(candidateExternalIds.candidateId, candidates.id),
+        eq(candidateExternalIds.system, system)
+      ))
+      .where(and(
+        isNull(candidateExternalIds.id),
+        options.state ? eq(elections.state, options.state.toUpperCase()) : undefined,
+        options.electionId ? eq(elections.id, options.electionId) : undefined
+      ));
+
+    return rows.map(({ candidate, election }) => ({
+      candidateId: candidate.id,
+      name: candidate.name,
+      party: candidate.party,
+      state: election.state,
+      year: new Date(election.date).getUTCFullYear(),
+      ...officeOf(election)
+    }));
+  }
+
+  /** The people a system knows about, from our synced copies of its data */
+  private async externalPeople(system: ExternalIdSystem, subjects: CandidateSubject[]): Promise<ExternalPerson[]> {
+    const states = Array.from(new Set(subjects.map(s => (s.state ?? '').toUpperCase()).filter(Boolean)));
+    switch (system) {
+      case 'bioguide': {
+        const members = await db.select().from(congressMembers)
+          .where(states.length > 0 ? inArray(congressMembers.state, states) : undefined);
+        return members.map(member => ({
+          externalId: member.bioguideId,
+          name: member.name,
+          state: member.state,
+          office: member.chamber.toLowerCase() === 'senate' ? 'us_senate' as const : 'us_house' as const,
+          district: member.district,
+          party: member.party
+        }));
+      }
+      case 'fec': {
+        const cycles = Array.from(new Set(subjects.map(s => cycleForYear(s.year))));
+        const filers = await db.select().from(fecCandidates)
+          .where(and(
+            inArray(fecCandidates.cycle, cycles),
+            states.length > 0 ? inArray(fecCandidates.officeState, [...states, 'US']) : undefined
+          ));
+        const latest = new Map<string, typeof filers[number]>();
+        filers.forEach(filer => {
+          const seen = latest.get(filer.fecCandidateId);
+          if (!seen || seen.cycle < filer.cycle) latest.set(filer.fecCandidateId, filer);
+        });
+        return Array.from(latest.values()).map(filer => ({
+          externalId: filer.fecCandidateId,
+          name: filer.name,
+          // Presidential filers are national; compare them on name and party alone
+          state: filer.office === 'P' ? null : filer.officeState,
+          office: FEC_OFFICES[filer.office ?? ''] ?? null,
+          district: filer.office === 'H' ? filer.district : null,
+          party: filer.party
+        }));
+      }
+      case 'openstates': {
+        const legislators = await db.select().from(stateLegislators)
+          .where(states.length > 0 ? inArray(stateLegislators.state, states) : undefined);
+        return legislators.map(legislator => ({
+          externalId: legislator.openstatesId,
+          name: legislator.name,
+          state: legislator.state,
+          office: LEGISLATIVE_OFFICES[legislator.chamber ?? ''] ?? null,
+          district: legislator.district,
+          party: legislator.party
+        }));
+      }
+      case 'votesmart': {
+        if (!voteSmartService) {
+          throw new EntityResolutionError('VOTESMART_API_KEY is not configured');
+        }
+        const people: ExternalPerson[] = [];
+        const searches = Array.from(new Set(subjects.filter(s => s.state).map(s => `${s.state!.toUpperCase()}|${s.year}`)));
+        for (const search of searches) {
+          const [state, electionYear] = search.split('|');
+          const found = await voteSmartService.searchCandidates({ state, electionYear });
+          people.push(...found.map(person => ({
+            externalId: person.candidateId,
+            name: [person.firstName, person.nickname ? `"${person.nickname}"` : null, person.middleName, person.lastName, person.suffix].filter(Boolean).join(' '),
+            state: person.electionStateId ?? state,
+            office: officeKind(person.electionOffice),
+            district: person.electionDistrictName ?? null,
+            party: person.electionParties ?? null
+          })));
+        }
+        return people;
+      }
+      default:
+        return [];
+    }
+  }
+
+  // ============================================================================
+  // REVIEW QUEUE
+  // ============================================================================
+
+  /** Queue a possible match unless the same pairing was queued before */
+  private async queueReview(
+    system: ExternalIdSystem,
+    subject: CandidateSubject,
+    best: { record: ExternalPerson; score: number; name: number; state: string; office: string; party: string },
+    alternatives: Array<{ record: ExternalPerson; score: number }>
+  ): Promise<boolean> {
+    const fieldName = `external_id:${system}`;
+    const [existing] = await db.select({ id: manualReviewQueue.id })
+      .from(manualReviewQueue)
+      .where(and(
+        eq(manualReviewQueue.entityType, 'candidate'),
+        eq(manualReviewQueue.entityId, subject.candidateId),
+        eq(manualReviewQueue.issueType, ISSUE_TYPE),
+        eq(manualReviewQueue.fieldName, fieldName),
+        eq(manualReviewQueue.suggestedValue, best.record.externalId)
+      ))
+      .limit(1);
+    if (existing) return false;
+
+    const severity = best.score >= 0.8 ? 'low' : 'medium';
+    const review: NewReview = {
+      reviewId: nanoid(),
+      entityType: 'candidate',
+      entityId: subject.candidateId,
+      fieldName,
+      issueType: ISSUE_TYPE,
+      issueSeverity: severity,
+      issueDescription: `Possible ${SYSTEM_LABELS[system]} match for ${subject.name}: ${best.record.name} (${Math.round(best.score * 100)}% confidence)`,
+      issueDetails: {
+        system,
+        candidate: { name: subject.name, state: subject.state, office: subject.office, district: subject.district, party: subject.party },
+        match: { ...best.record, score: best.score, name: best.name, state: best.state, office: best.office, party: best.party },
+        alternatives: alternatives.map(alt => ({ ...alt.record, score: alt.score }))
+      },
+      currentValue: subject.name,
+      suggestedValue: best.record.externalId,
+      priority: severity === 'medium' ? 40 : 30,
+      autoReviewAttempted: true,
+      autoReviewConfidence: (best.score * 100).toFixed(2)
+    };
+    await db.insert(manualReviewQueue).values(review);
+    return true;
+  }
+
+  async listReviews(options: { status?: string; system?: ExternalIdSystem; limit?: number } = {}) {
+    return db.select().from(manualReviewQueue)
+      .where(and(
+        eq(manualReviewQueue.entityType, 'candidate'),
+        eq(manualReviewQueue.issueType, ISSUE_TYPE),
+        eq(manualReviewQueue.reviewStatus, options.status ?? 'pending'),
+        options.system ? eq(manualReviewQueue.fieldName, `external_id:${options.system}`) : undefined
+      ))
+      .orderBy(desc(manualReviewQueue.priority), manualReviewQueue.createdAt)
+      .limit(options.limit ?? 100);
+  }
+
+  /**
+   * Confirm or reject a queued match. Confirming links the ID and closes
+   * the candidate's other open suggestions for that system.
+   */
+  async decideReview(reviewId: string, decision: 'confirm' | 'reject', reviewer: string, notes?: string) {
+    const [review] = await db.select().from(manualReviewQueue).where(eq(manualReviewQueue.reviewId, reviewId));
+    if (!review || review.issueType !== ISSUE_TYPE) {
+      return null;
+    }
+    if (review.reviewStatus !== 'pending' && review.reviewStatus !== 'in_review') {
+      throw new EntityResolutionError(`Review ${reviewId} is already ${review.reviewStatus}`);
+    }
+
+    const details = (review.issueDetails ?? {}) as { system: ExternalIdSystem; match: ExternalPerson & { score: number } };
+    const now = new Date();
+    if (decision === 'confirm') {
+      await this.link(review.entityId, details.system, details.match, details.match.score, 'manual', reviewer);
+      const superseded: Changes<ManualReviewQueue> = { reviewStatus: 'dismissed', resolution: 'dismissed_duplicate', resolvedBy: reviewer, resolvedAt: now, updatedAt: now };
+      await db.update(manualReviewQueue)
+        .set(superseded)
+        .where(and(
+          eq(manualReviewQueue.entityType, 'candidate'),
+          eq(manualReviewQueue.entityId, review.entityId),
+          eq(manualReviewQueue.issueType, ISSUE_TYPE),
+          eq(manualReviewQueue.fieldName, review.fieldName!),
+          eq(manualReviewQueue.reviewStatus, 'pending')
+        ));
+    }
+
+    const resolved: Changes<ManualReviewQueue> = {
+      reviewStatus: 'resolved',
+      resolution: decision === 'confirm' ? 'fixed' : 'dismissed_incorrect',
+      resolvedBy: reviewer,
+      resolvedAt: now,
+      resolutionNotes: notes ?? null,
+      fixApplied: decision === 'confirm' ? { system: details.system, externalId: details.match.externalId } : null,
+      updatedAt: now
+    };
+    const [updated] = await db.update(manualReviewQueue)
+      .set(resolved)
+      .where(eq(manualReviewQueue.reviewId, reviewId))
+      .returning();
+    return updated;
+  }
+}
+
+export const entityResolutionService = new EntityResolutionService();
@@ -0,0 +1,563 @@
+/**
+ * FEC Bulk Service
+ * Loads FEC bulk files from disk - one directory per two-year cycle under
+ * the FEC bulk directory - into local tables, links FEC candidate IDs to
+ * our federal candidates, and serves each candidate's quarterly money
+ * series and fundraising metrics and each federal race's money
+ * comparison without calling the OpenFEC API.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { db } from '../db';
+import { and, desc, eq, inArray, isNotNull, isNull, sql, type SQL } from 'drizzle-orm';
+import {
+  candidates,
+  elections,
+  fecBulkFiles,
+  fecCandidateTotals,
+  fecCandidates,
+  fecCommittees,
+  fecContributionAggregates
+} from '@shared/schema';
+import type {
+  Candidate,
+  Election,
+  FecBulkFile,
+  FecCandidate,
+  FecCandidateTotals,
+  FecCommittee,
+  FecContributionAggregate
+} from '@shared/schema';
+import { matchCandidate } from '../lib/results-feeds';
+import { displayName } from '../lib/voting-record';
+import {
+  addContribution,
+  bulkFileKind,
+  cycleForYear,
+  fecSeatForElection,
+  fundraisingMetrics,
+  parseCandidateMaster,
+  parseCommitteeMaster,
+  parseContribution,
+  parseWeball,
+  quarterlySeries,
+  rankRaceMoney,
+  type ContributionAggregate,
+  type FecBulkKind,
+  type FecSeat,
+  type FundraisingMetrics,
+  type QuarterPoint
+} from '../lib/fec-bulk';
+
+/** Bad request data - reported back as a 400 */
+export class FecBulkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FecBulkError';
+  }
+}
+
+export interface BulkFileReport {
+  file: string;
+  kind: FecBulkKind;
+  status: 'loaded' | 'unchanged' | 'failed';
+  rows: number;
+  error?: string;
+}
+
+export interface CandidateMoney {
+  candidateId: number;
+  fecCandidateId: string | null;
+  cycle: number;
+  totals: {
+    coverageEndDate: string;
+    receipts: number;
+    disbursements: number;
+    cashOnHand: number;
+    debts: number;
+  } | null;
+  metrics: FundraisingMetrics;
+  series: QuarterPoint[];
+}
+
+export interface RaceMoneyComparison {
+  electionId: number;
+  cycle: number;
+  seat: FecSeat;
+  totalReceipts: number;
+  candidates: Array<{
+    candidateId: number;
+    name: string;
+    party: string;
+    fecCandidateId: string;
+    coverageEndDate: string | null;
+    receipts: number;
+    disbursements: number;
+    cashOnHand: number;
+    receiptsShare: number | null;
+    rank: number;
+    smallDonorShare: number | null;
+    inStateShare: number | null;
+    selfFundingShare: number | null;
+  }>;
+  unlinked: Array<{ candidateId: number; name: string }>;
+}
+
+// New rows: the columns without defaults, plus any others
+type NewBulkFile = Pick<FecBulkFile, 'cycle' | 'kind' | 'fileName' | 'signature'> & Partial<FecBulkFile>;
+type NewFecCandidate = Pick<FecCandidate, 'fecCandidateId' | 'cycle' | 'name'> & Partial<FecCandidate>;
+type NewCommittee = Pick<FecCommittee, 'committeeId' | 'cycle' | 'name'> & Partial<FecCommittee>;
+type NewTotals = Pick<FecCandidateTotals, 'fecCandidateId' | 'cycle' | 'coverageEndDate' | 'totalReceipts' | 'totalDisbursements'>
+  & Partial<FecCandidateTotals>;
+type NewAggregate = Omit<FecContributionAggregate, 'id'>;
+// Updates: any column, to a value or a SQL expression
+type Changes<Row> = { [K in keyof Row]?: Row[K] | SQL };
+
+const BATCH_SIZE = 500;
+
+// Principal and authorized campaign committees carry the candidate's own money
+const CAMPAIGN_DESIGNATIONS = ['P', 'A'];
+
+function toNumber(value: string | number | null | undefined): number {
+  const number = Number(value ?? 0);
+  return Number.isFinite(number) ? number : 0;
+}
+
+function isoDate(value: Date | string): string {
+  return (value instanceof Date ? value.toISOString() : value).slice(0, 10);
+}
+
+async function* readLines(file: string): AsyncGenerator<string> {
+  const lines = readline.createInterface({ input: createReadStream(file, { encoding: 'latin1' }), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line) yield line;
+  }
+}
+
+export class FecBulkService {
+  get directory(): string {
+    return process.env.FEC_BULK_DIR || path.join(process.cwd(), 'data', 'fec');
+  }
+
+  private electionCycle(election: Pick<Election, 'date'>): number {
+    return cycleForYear(new Date(election.date).getUTCFullYear());
+  }
+
+  // ============================================================================
+  // INGEST
+  // ============================================================================
+
+  /** Cycles with a directory of bulk files */
+  async availableCycles(): Promise<number[]> {
+    try {
+      const entries = await fs.readdir(this.directory, { withFileTypes: true });
+      return entries.filter(e => e.isDirectory() && /^\d{4}$/.test(e.name)).map(e => Number(e.name)).sort();
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Load a cycle's bulk files, skipping files already loaded unchanged.
+   * Masters load before weball and itemized contributions, which need to
+   * know the candidates' committees. Itemized files are re-aggregated
+   * together whenever any of them changes.
+   */
+  async ingestCycle(cycle: number, options: { kinds?: FecBulkKind[] } = {}): Promise<BulkFileReport[]> {
+    if (!Number.isInteger(cycle) || cycle % 2 !== 0) {
+      throw new FecBulkError('Cycle must be an even year');
+    }
+    const cycleDir = path.join(this.directory, String(cycle));
+    let names: string[];
+    try {
+      names = (await fs.readdir(cycleDir)).sort();
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') throw new FecBulkError(`No FEC bulk files for ${cycle} in ${this.directory}`);
+      throw error;
+    }
+
+    const wanted = options.kinds ?? ['cn', 'cm', 'weball', 'itcont'];
+    const reports: BulkFileReport[] = [];
+    const files = await Promise.all(names
+      .map(name => ({ name, kind: bulkFileKind(name) }))
+      .filter((f): f is { name: string; kind: FecBulkKind } => !!f.kind && wanted.includes(f.kind))
+      .map(async f => {
+        const stat = await fs.stat(path.join(cycleDir, f.name));
+        return { ...f, file: path.join(cycleDir, f.name), signature: `${stat.size}:${Math.round(stat.mtimeMs)}` };
+      }));
+
+    const loaded = await db.select().from(fecBulkFiles).where(eq(fecBulkFiles.cycle, cycle));
+    const isUnchanged = (f: { name: string; signature: string }) =>
+      loaded.some(row => row.fileName === f.name && row.signature === f.signature);
+
+    for (const kind of ['cn', 'cm', 'weball'] as const) {
+      for (const f of files.filter(f => f.kind === kind)) {
+        if (isUnchanged(f)) {
+          reports.push({ file: f.name, kind, status: 'unchanged', rows: 0 });
+          continue;
+        }
+        try {
+          const rows = kind === 'cn' ? await this.loadCandidates(f.file, cycle)
+            : kind === 'cm' ? await this.loadCommittees(f.file, cycle)
+            : await this.loadTotals(f.file, cycle);
+          await this.recordFile(cycle, kind, f.name, f.signature, rows);
+          reports.push({ file: f.name, kind, status: 'loaded', rows });
+        } catch (error) {
+          console.error(`[FEC Bulk] Failed to load ${f.name}:`, error);
+          reports.push({ file: f.name, kind, status: 'failed', rows: 0, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    const itemizedFiles = files.filter(f => f.kind === 'itcont');
+    if (itemizedFiles.length > 0 && itemizedFiles.every(isUnchanged)) {
+      reports.push(...itemizedFiles.map(f => ({ file: f.name, kind: f.kind, status: 'unchanged' as const, rows: 0 })));
+    } else if (itemizedFiles.length > 0) {
+      try {
+        const counts = await this.loadContributions(itemizedFiles.map(f => f.file), cycle);
+        for (const f of itemizedFiles) {
+          await this.recordFile(cycle, 'itcont', f.name, f.signature, counts.get(f.file) ?? 0);
+          reports.push({ file: f.name, kind: 'itcont', status: 'loaded', rows: counts.get(f.file) ?? 0 });
+        }
+      } catch (error) {
+        console.error(`[FEC Bulk] Failed to load itemized contributions for ${cycle}:`, error);
+        reports.push(...itemizedFiles.map(f => ({
+          file: f.name, kind: f.kind, status: 'failed' as const, rows: 0,
+          error: error instanceof Error ? error.message : String(error)
+        })));
+      }
+    }
+
+    return reports;
+  }
+
+  private async recordFile(cycle: number, kind: FecBulkKind, fileName: string, signature: string, rowCount: number): Promise<void> {
+    const values: Partial<FecBulkFile> = { kind, signature, rowCount, ingestedAt: new Date() };
+    const row: NewBulkFile = { ...values, cycle, fileName, kind, signature };
+    await db.insert(fecBulkFiles)
+      .values(row)
+      .onConflictDoUpdate({ target: [fecBulkFiles.cycle, fecBulkFiles.fileName], set: values });
+  }
+
+  /** Stream a file in batches of parsed rows */
+  private async loadBatches<T>(file: string, parse: (line: string) => T | null, write: (batch: T[]) => Promise<void>): Promise<number> {
+    let batch: T[] = [];
+    let rows = 0;
+    for await (const line of readLines(file)) {
+      const record = parse(line);
+      if (!record) continue;
+      batch.push(record);
+      if (batch.length >= BATCH_SIZE) {
+        await write(batch);
+        rows += batch.length;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await write(batch);
+      rows += batch.length;
+    }
+    return rows;
+  }
+
+  private loadCandidates(file: string, cycle: number): Promise<number> {
+    return this.loadBatches(file, line => parseCandidateMaster(line, cycle), async batch => {
+      const rows: NewFecCandidate[] = batch.map(record => ({ ...record, updatedAt: new Date() }));
+      const replaced: Changes<FecCandidate> = {
+        name: sql`excluded.name`,
+        party: sql`excluded.party`,
+        electionYear: sql`excluded.election_year`,
+        office: sql`excluded.office`,
+        officeState: sql`excluded.office_state`,
+        district: sql`excluded.district`,
+        incumbentChallenge: sql`excluded.incumbent_challenge`,
+        status: sql`excluded.status`,
+        principalCommitteeId: sql`excluded.principal_committee_id`,
+        updatedAt: new Date()
+      };
+      await db.insert(fecCandidates)
+        .values(rows)
+        .onConflictDoUpdate({ target: [fecCandidates.fecCandidateId, fecCandidates.cycle], set: replaced });
+    });
+  }
+
+  private loadCommittees(file: string, cycle: number): Promise<number> {
+    return this.loadBatches(file, line => parseCommitteeMaster(line, cycle), async batch => {
+      const rows: NewCommittee[] = batch.map(record => ({ ...record, updatedAt: new Date() }));
+      const replaced: Changes<FecCommittee> = {
+        name: sql`excluded.name`,
+        designation: sql`excluded.designation`,
+        type: sql`excluded.type`,
+        party: sql`excluded.party`,
+        state: sql`excluded.state`,
+        fecCandidateId: sql`excluded.fec_candidate_id`,
+        updatedAt: new Date()
+      };
+      await db.insert(fecCommittees)
+        .values(rows)
+        .onConflictDoUpdate({ target: [fecCommittees.committeeId, fecCommittees.cycle], set: replaced });
+    });
+  }
+
+  /** Each weball load adds a snapshot per candidate; reloading the same file is a no-op */
+  private loadTotals(file: string, cycle: number): Promise<number> {
+    return this.loadBatches(file, line => parseWeball(line, cycle), async batch => {
+      const rows: NewTotals[] = batch.map(record => ({
+        fecCandidateId: record.fecCandidateId,
+        cycle: record.cycle,
+        coverageEndDate: new Date(`${record.coverageEndDate}T00:00:00Z`),
+        totalReceipts: record.totalReceipts.toFixed(2),
+        totalDisbursements: record.totalDisbursements.toFixed(2),
+        cashOnHandStart: record.cashOnHandStart.toFixed(2),
+        cashOnHand: record.cashOnHand.toFixed(2),
+        individualContributions: record.individualContributions.toFixed(2),
+        candidateContributions: record.candidateContributions.toFixed(2),
+        candidateLoans: record.candidateLoans.toFixed(2),
+        otherCommitteeContributions: record.otherCommitteeContributions.toFixed(2),
+        partyContributions: record.partyContributions.toFixed(2),
+        debts: record.debts.toFixed(2)
+      }));
+      await db.insert(fecCandidateTotals)
+        .values(rows)
+        .onConflictDoNothing();
+    });
+  }
+
+  /**
+   * Aggregate itemized contributions to candidates' campaign committees
+   * by quarter and contributor state, replacing the cycle's aggregates
+   */
+  private async loadContributions(files: string[], cycle: number): Promise<Map<string, number>> {
+    const committees = await db.select({ committeeId: fecCommittees.committeeId })
+      .from(fecCommittees)
+      .where(and(
+        eq(fecCommittees.cycle, cycle),
+        isNotNull(fecCommittees.fecCandidateId),
+        inArray(fecCommittees.designation, CAMPAIGN_DESIGNATIONS)
+      ));
+    if (committees.length === 0) {
+      throw new FecBulkError(`Load the ${cycle} committee master before itemized contributions`);
+    }
+    const campaignCommittees = new Set(committees.map(c => c.committeeId));
+
+    const aggregates = new Map<string, ContributionAggregate>();
+    const counts = new Map<string, number>();
+    for (const file of files) {
+      let count = 0;
+      for await (const line of readLines(file)) {
+        // The committee id leads the line; skip everyone else's receipts before parsing
+        if (!campaignCommittees.has(line.slice(0, line.indexOf('|')))) continue;
+        const contribution = parseContribution(line);
+        if (!contribution) continue;
+        addContribution(aggregates, contribution);
+        count++;
+      }
+      counts.set(file, count);
+    }
+
+    await db.delete(fecContributionAggregates).where(eq(fecContributionAggregates.cycle, cycle));
+    const rows: NewAggregate[] = Array.from(aggregates.values()).map(a => ({ ...a, cycle, total: a.total.toFixed(2) }));
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      await db.insert(fecContributionAggregates).values(rows.slice(i, i + BATCH_SIZE));
+    }
+    return counts;
+  }
+
+  // ============================================================================
+  // CANDIDATE LINKING
+  // ============================================================================
+
+  /**
+   * Set fecCandidateId on federal candidates from the candidate master of
+   * their election's cycle, matching by name among the filers for the seat
+   */
+  async linkCandidates(cycle?: number): Promise<{ checked: number; linked: number; unmatched: Array<{ candidateId: number; name: string }> }> {
+    const rows = await db.select({ candidate: candidates, election: elections })
+      .from(candidates)
+      .innerJoin(elections, eq(candidates.electionId, elections.id))
+      .where(and(isNull(candidates.fecCandidateId), sql`lower(${elections.level}) = 'federal'`));
+
+    const unmatched: Array<{ candidateId: number; name: string }> = [];
+    let checked = 0;
+    let linked = 0;
+    for (const { candidate, election } of rows) {
+      if (cycle && this.electionCycle(election) !== cycle) continue;
+      checked++;
+      const fecCandidateId = await this.findFecCandidate(candidate, election);
+      if (fecCandidateId) {
+        const link: Changes<Candidate> = { fecCandidateId };
+        await db.update(candidates).set(link).where(eq(candidates.id, candidate.id));
+        linked++;
+      } else {
+        unmatched.push({ candidateId: candidate.id, name: candidate.name });
+      }
+    }
+    return { checked, linked, unmatched };
+  }
+
+  private async findFecCandidate(candidate: Pick<Candidate, 'name'>, election: Election): Promise<string | null> {
+    const seat = fecSeatForElection(election);
+    if (!seat) return null;
+    const filers = await this.seatFilers(seat, this.electionCycle(election));
+    const match = matchCandidate(candidate.name, filers.map(f => ({ id: f.id, name: displayName(f.name) })));
+    return match ? filers.find(f => f.id === match.id)!.fecCandidateId : null;
+  }
+
+  private seatFilers(seat: FecSeat, cycle: number): Promise<FecCandidate[]> {
+    return db.select().from(fecCandidates)
+      .where(and(
+        eq(fecCandidates.cycle, cycle),
+        eq(fecCandidates.office, seat.office),
+        eq(fecCandidates.officeState, seat.state),
+        seat.office === 'H' ? eq(fecCandidates.district, seat.district) : undefined
+      ));
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  private async campaignCommitteeIds(fecCandidateId: string, cycle: number): Promise<string[]> {
+    const rows = await db.select({ committeeId: fecCommittees.committeeId })
+      .from(fecCommittees)
+      .where(and(
+        eq(fecCommittees.fecCandidateId, fecCandidateId),
+        eq(fecCommittees.cycle, cycle),
+        inArray(fecCommittees.designation, CAMPAIGN_DESIGNATIONS)
+      ));
+    return rows.map(r => r.committeeId);
+  }
+
+  private async itemizedFor(fecCandidateId: string, cycle: number): Promise<Array<{ quarter: string; contributorState: string; total: number }>> {
+    const committeeIds = await this.campaignCommitteeIds(fecCandidateId, cycle);
+    if (committeeIds.length === 0) return [];
+    const rows = await db.select({
+      quarter: fecContributionAggregates.quarter,
+      contributorState: fecContributionAggregates.contributorState,
+      total: fecContributionAggregates.total
+    })
+      .from(fecContributionAggregates)
+      .where(and(eq(fecContributionAggregates.cycle, cycle), inArray(fecContributionAggregates.committeeId, committeeIds)));
+    return rows.map(r => ({ ...r, total: toNumber(r.total) }));
+  }
+
+  private async snapshotsFor(fecCandidateId: string, cycle: number): Promise<FecCandidateTotals[]> {
+    return db.select().from(fecCandidateTotals)
+      .where(and(eq(fecCandidateTotals.fecCandidateId, fecCandidateId), eq(fecCandidateTotals.cycle, cycle)))
+      .orderBy(desc(fecCandidateTotals.coverageEndDate));
+  }
+
+  private async moneyFor(candidateId: number, fecCandidateId: string, cycle: number): Promise<CandidateMoney> {
+    const [snapshots, itemized, [filer]] = await Promise.all([
+      this.snapshotsFor(fecCandidateId, cycle),
+      this.itemizedFor(fecCandidateId, cycle),
+      db.select().from(fecCandidates).where(and(eq(fecCandidates.fecCandidateId, fecCandidateId), eq(fecCandidates.cycle, cycle)))
+    ]);
+    const latest = snapshots[0] ?? null;
+    const totals = latest ? {
+      totalReceipts: toNumber(latest.totalReceipts),
+      individualContributions: toNumber(latest.individualContributions),
+      candidateContributions: toNumber(latest.candidateContributions),
+      candidateLoans: toNumber(latest.candidateLoans)
+    } : null;
+
+    return {
+      candidateId,
+      fecCandidateId,
+      cycle,
+      totals: latest ? {
+        coverageEndDate: isoDate(latest.coverageEndDate),
+        receipts: toNumber(latest.totalReceipts),
+        disbursements: toNumber(latest.totalDisbursements),
+        cashOnHand: toNumber(latest.cashOnHand),
+        debts: toNumber(latest.debts)
+      } : null,
+      metrics: fundraisingMetrics(totals, itemized, filer?.officeState ?? null),
+      series: quarterlySeries(
+        snapshots.map(s => ({
+          coverageEndDate: isoDate(s.coverageEndDate),
+          totalReceipts: toNumber(s.totalReceipts),
+          totalDisbursements: toNumber(s.totalDisbursements),
+          cashOnHand: s.cashOnHand === null ? null : toNumber(s.cashOnHand)
+        })),
+        itemized
+      )
+    };
+  }
+
+  /**
+   * A candidate's quarterly series and fundraising metrics. Unlinked
+   * federal candidates are linked on the way.
+   */
+  async getCandidateMoney(candidateId: number, options: { cycle?: number } = {}): Promise<CandidateMoney | null> {
+    const [row] = await db.select({ candidate: candidates, election: elections })
+      .from(candidates)
+      .leftJoin(elections, eq(candidates.electionId, elections.id))
+      .where(eq(candidates.id, candidateId));
+    if (!row) return null;
+
+    const cycle = options.cycle ?? (row.election ? this.electionCycle(row.election) : null);
+    if (!cycle) {
+      throw new FecBulkError('Candidate has no election; pass a cycle');
+    }
+
+    let fecCandidateId = row.candidate.fecCandidateId;
+    if (!fecCandidateId && row.election) {
+      fecCandidateId = await this.findFecCandidate(row.candidate, row.election);
+      if (fecCandidateId) {
+        const link: Changes<Candidate> = { fecCandidateId };
+        await db.update(candidates).set(link).where(eq(candidates.id, candidateId));
+      }
+    }
+    if (!fecCandidateId) {
+      return { candidateId, fecCandidateId: null, cycle, totals: null, metrics: fundraisingMetrics(null, [], null), series: [] };
+    }
+    return this.moneyFor(candidateId, fecCandidateId, cycle);
+  }
+
+  /** Every linked candidate's latest totals and metrics side by side, ranked by receipts */
+  async getRaceComparison(electionId: number): Promise<RaceMoneyComparison | null> {
+    const [election] = await db.select().from(elections).where(eq(elections.id, electionId));
+    if (!election) return null;
+    const seat = fecSeatForElection(election);
+    if (!seat) {
+      throw new FecBulkError('Election is not a federal race');
+    }
+
+    const cycle = this.electionCycle(election);
+    const raceCandidates = await db.select().from(candidates).where(eq(candidates.electionId, electionId));
+    const linked = raceCandidates.filter(c => c.fecCandidateId);
+    const money = await Promise.all(linked.map(c => this.moneyFor(c.id, c.fecCandidateId!, cycle)));
+
+    const entries = linked.map((candidate, index) => {
+      const { totals, metrics } = money[index];
+      return {
+        candidateId: candidate.id,
+        name: candidate.name,
+        party: candidate.party,
+        fecCandidateId: candidate.fecCandidateId!,
+        coverageEndDate: totals?.coverageEndDate ?? null,
+        receipts: totals?.receipts ?? 0,
+        disbursements: totals?.disbursements ?? 0,
+        cashOnHand: totals?.cashOnHand ?? 0,
+        smallDonorShare: metrics.smallDonorShare,
+        inStateShare: metrics.inStateShare,
+        selfFundingShare: metrics.selfFundingShare
+      };
+    });
+
+    return {
+      electionId,
+      cycle,
+      seat,
+      totalReceipts: Math.round(entries.reduce((sum, e) => sum + e.receipts, 0) * 100) / 100,
+      candidates: rankRaceMoney(entries),
+      unlinked: raceCandidates.filter(c => !c.fecCandidateId).map(c => ({ candidateId: c.id, name: c.name }))
+    };
+  }
+}
+
+export const fecBulkService = new FecBulkService();
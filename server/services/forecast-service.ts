@@ -0,0 +1,444 @@
+/**
+ * Forecast Service
+ *
+ * Builds model inputs (polling average, incumbency, FEC receipts, prior
+ * results) for each race, runs the Monte Carlo model and stores every run
+ * so forecast movement can be charted over time.
+ */
+
+import { db, pool } from '../db';
+import { elections, candidates, forecastRuns, raceForecasts } from '@shared/schema';
+import type { Election, Candidate, ForecastRun } from '@shared/schema';
+import { and, asc, desc, eq, gte, lte } from 'drizzle-orm';
+import { differenceInCalendarDays } from 'date-fns';
+import {
+  chamberCoverage,
+  runForecast,
+  type ChamberCoverage,
+  type ChamberSetup,
+  type ContenderInput,
+  type ForecastChamber,
+  type ForecastParameters,
+  type ForecastResult,
+  type RaceInput
+} from '../lib/forecast-model';
+import { computeCurrentAverages, toPartyCode } from '../lib/polling-average';
+import { pollingTrendService } from '../polling-trend-service';
+import { pollsterRatingService } from './pollster-rating-service';
+import { getOpenFECService } from '../openfec-service';
+
+export const FORECAST_MODEL_VERSION = 'mc-1.0';
+
+// 119th Congress seats not up in 2026; the Vice President breaks Senate ties.
+// A chamber is only forecast once every seat up has a modeled race.
+const MIDTERM_2026_CHAMBERS: ChamberSetup[] = [
+  { chamber: 'senate', seats: 100, majority: 51, holdover: { D: 34, R: 31 }, tiebreaker: 'R' },
+  { chamber: 'house', seats: 435, majority: 218, holdover: {} }
+];
+
+const MIDTERM_2026_WINDOW = {
+  start: new Date('2026-11-01T00:00:00Z'),
+  end: new Date('2026-11-05T23:59:59Z')
+};
+
+// Historical error needs a reasonable sample before we trust it over the default
+const MIN_ACCURACY_RECORDS = 10;
+
+export interface ForecastOptions {
+  simulations?: number;
+  seed?: number;
+  includeFinance?: boolean;
+}
+
+export interface StoredRaceForecast {
+  runId: number;
+  electionId: number;
+  createdAt: Date;
+  contenders: Array<{
+    candidateId: number;
+    name: string;
+    party: string;
+    winProbability: number;
+    meanShare: number;
+    p10: number | null;
+    p50: number | null;
+    p90: number | null;
+    pollWeight: number | null;
+  }>;
+  tippingPointProbability: number | null;
+}
+
+export function classifyChamber(election: Pick<Election, 'title' | 'offices' | 'level'>): ForecastChamber {
+  const text = [election.title, ...(election.offices || [])].join(' ').toLowerCase();
+  if (text.includes('governor')) return 'governor';
+  if (election.level?.toLowerCase() !== 'federal') return 'other';
+  if (text.includes('senate')) return 'senate';
+  if (text.includes('house') || text.includes('representative') || text.includes('congress')) return 'house';
+  return 'other';
+}
+
+/** Runs share an in-flight forecast only when asked for the same options */
+function optionsKey(options: ForecastOptions): string {
+  return [options.simulations ?? '', options.seed ?? '', options.includeFinance ?? ''].join('|');
+}
+
+export class ForecastService {
+  private midtermRefreshInFlight = new Map<string, Promise<{ run: ForecastRun; result: ForecastResult }>>();
+  private raceRefreshInFlight = new Map<string, Promise<{ run: ForecastRun; result: ForecastResult } | null>>();
+  private pollingInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Refresh the joint midterm forecast on a schedule - reads only ever
+   * serve stored runs
+   */
+  startPolling(intervalHours: number = 6): void {
+    if (this.pollingInterval) return;
+    const intervalMs = intervalHours * 60 * 60 * 1000;
+    const run = () => this.forecastMidterms().catch(error => console.error('Scheduled midterm forecast failed:', error));
+
+    // Skip the boot-time run when a restart lands soon after the last one
+    this.getLatestMidtermRun()
+      .then(latest => {
+        if (!latest?.createdAt || Date.now() - new Date(latest.createdAt).getTime() > intervalMs) run();
+      })
+      .catch(error => console.error('Failed to check the latest midterm forecast:', error));
+    this.pollingInterval = setInterval(run, intervalMs);
+  }
+
+  stopPolling(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+  }
+
+  /**
+   * Historical polling error on the margin, from pollster accuracy records
+   */
+  async getHistoricalPollError(): Promise<number | undefined> {
+    try {
+      const records = await pollsterRatingService.getAccuracyRecords();
+      if (records.length < MIN_ACCURACY_RECORDS) return undefined;
+      const meanSquared = records.reduce(
+        (sum, r) => sum + Math.pow(r.pollMargin - r.actualMargin, 2), 0
+      ) / records.length;
+      return Math.sqrt(meanSquared);
+    } catch (error) {
+      console.error('Failed to load historical polling error, using default:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Each party's share in the most recent completed race for the same
+   * state and chamber before this one
+   */
+  private async getPriorPartyShares(election: Election, chamber: ForecastChamber): Promise<Partial<Record<string, number>>> {
+    if (chamber === 'other') return {};
+
+    const { rows } = await pool.query(`
+      SELECT c.party, c.vote_percentage::float AS pct, e.id AS election_id, e.title, e.offices, e.level
+      FROM elections e
+      JOIN election_results er ON er.election_id = e.id AND er.is_complete = true
+      JOIN candidates c ON c.election_id = e.id AND c.vote_percentage IS NOT NULL
+      WHERE e.state = $1 AND e.date < $2 AND e.id <> $3
+      ORDER BY e.date DESC
+      LIMIT 200
+    `, [election.state, election.date, election.id]);
+
+    const match = rows.find(row => classifyChamber(row) === chamber);
+    if (!match) return {};
+
+    const shares: Partial<Record<string, number>> = {};
+    for (const row of rows.filter(r => r.election_id === match.election_id)) {
+      const party = toPartyCode(row.party);
+      shares[party] = Math.max(shares[party] ?? 0, row.pct);
+    }
+    return shares;
+  }
+
+  private async getReceipts(candidate: Candidate, election: Election, chamber: ForecastChamber): Promise<number | null> {
+    if (chamber !== 'senate' && chamber !== 'house') return null;
+    const fecService = getOpenFECService();
+    if (!fecService) return null;
+
+    try {
+      const data = await fecService.enrichCandidateWithFECData(
+        candidate.name,
+        chamber === 'senate' ? 'S' : 'H',
+        election.state
+      );
+      return data?.totalRaised ?? null;
+    } catch (error) {
+      console.error(`FEC lookup failed for ${candidate.name}:`, error);
+      return null;
+    }
+  }
+
+  async buildRaceInput(election: Election, options: ForecastOptions = {}): Promise<RaceInput> {
+    const chamber = classifyChamber(election);
+    const [raceCandidates, observations, priorShares] = await Promise.all([
+      db.select().from(candidates).where(eq(candidates.electionId, election.id)),
+      pollingTrendService.loadObservations(election.id, 150),
+      this.getPriorPartyShares(election, chamber)
+    ]);
+    const averages = computeCurrentAverages(observations, new Date());
+
+    const contenders: ContenderInput[] = [];
+    for (const candidate of raceCandidates) {
+      const average = averages.find(a => a.candidateId === candidate.id);
+      const party = toPartyCode(candidate.party);
+      contenders.push({
+        candidateId: candidate.id,
+        name: candidate.name,
+        party,
+        isIncumbent: !!candidate.isIncumbent,
+        pollAverage: average?.average ?? null,
+        pollStandardError: average?.standardError ?? null,
+        pollCount: average?.pollCount ?? 0,
+        receipts: options.includeFinance ? await this.getReceipts(candidate, election, chamber) : null,
+        priorPartyShare: priorShares[party] ?? null
+      });
+    }
+
+    return {
+      raceId: election.id,
+      title: election.title,
+      state: election.state,
+      chamber,
+      daysUntilElection: Math.max(0, differenceInCalendarDays(new Date(election.date), new Date())),
+      contenders
+    };
+  }
+
+  private async buildParameters(options: ForecastOptions): Promise<ForecastParameters> {
+    const historicalPollError = await this.getHistoricalPollError();
+    return {
+      simulations: options.simulations,
+      seed: options.seed,
+      ...(historicalPollError !== undefined ? { historicalPollError } : {})
+    };
+  }
+
+  private async storeRun(
+    scope: 'race' | 'midterms',
+    result: ForecastResult,
+    extra: { electionId?: number; cycle?: number; unsupportedChambers?: ChamberCoverage[] }
+  ): Promise<ForecastRun> {
+    const [run] = await db
+      .insert(forecastRuns)
+      .values({
+        scope,
+        electionId: extra.electionId ?? null,
+        cycle: extra.cycle ?? null,
+        modelVersion: FORECAST_MODEL_VERSION,
+        simulations: result.simulations,
+        parameters: extra.unsupportedChambers?.length
+          ? { ...result.parameters, unsupportedChambers: extra.unsupportedChambers }
+          : result.parameters,
+        chambers: result.chambers.length > 0 ? result.chambers : null
+      } as any)
+      .returning();
+
+    const rows = result.races.flatMap(race => race.contenders.map(c => ({
+      runId: run.id,
+      electionId: race.raceId,
+      candidateId: c.candidateId,
+      winProbability: c.winProbability.toString(),
+      meanShare: c.meanShare.toString(),
+      shareP10: c.p10.toString(),
+      shareP50: c.p50.toString(),
+      shareP90: c.p90.toString(),
+      pollWeight: c.pollWeight.toString(),
+      tippingPointProbability: race.tippingPointProbability.toString()
+    })));
+
+    // Keep individual inserts small for large midterm runs
+    for (let i = 0; i < rows.length; i += 500) {
+      await db.insert(raceForecasts).values(rows.slice(i, i + 500) as any);
+    }
+
+    return run;
+  }
+
+  /**
+   * Forecast a single race and store the run. A request that arrives while
+   * the race is already being forecast with the same options shares that
+   * run.
+   */
+  forecastElection(electionId: number, options: ForecastOptions = {}): Promise<{ run: ForecastRun; result: ForecastResult } | null> {
+    const key = `${electionId}:${optionsKey(options)}`;
+    let inFlight = this.raceRefreshInFlight.get(key);
+    if (!inFlight) {
+      inFlight = this.runElectionForecast(electionId, options)
+        .finally(() => this.raceRefreshInFlight.delete(key));
+      this.raceRefreshInFlight.set(key, inFlight);
+    }
+    return inFlight;
+  }
+
+  private async runElectionForecast(electionId: number, options: ForecastOptions): Promise<{ run: ForecastRun; result: ForecastResult } | null> {
+    const [election] = await db.select().from(elections).where(eq(elections.id, electionId));
+    if (!election) return null;
+
+    const [race, parameters] = await Promise.all([
+      this.buildRaceInput(election, options),
+      this.buildParameters(options)
+    ]);
+    const result = runForecast([race], [], parameters);
+    const run = await this.storeRun('race', result, { electionId });
+
+    return { run, result };
+  }
+
+  /**
+   * Joint simulation of every 2026 general-election race we track so
+   * chamber control and tipping points reflect correlated error. Concurrent
+   * calls with the same options share one run.
+   */
+  forecastMidterms(options: ForecastOptions = {}): Promise<{ run: ForecastRun; result: ForecastResult }> {
+    const key = optionsKey(options);
+    let inFlight = this.midtermRefreshInFlight.get(key);
+    if (!inFlight) {
+      inFlight = this.runMidtermForecast(options)
+        .finally(() => this.midtermRefreshInFlight.delete(key));
+      this.midtermRefreshInFlight.set(key, inFlight);
+    }
+    return inFlight;
+  }
+
+  private async runMidtermForecast(options: ForecastOptions): Promise<{ run: ForecastRun; result: ForecastResult }> {
+    const midtermElections = await db
+      .select()
+      .from(elections)
+      .where(and(
+        gte(elections.date, MIDTERM_2026_WINDOW.start),
+        lte(elections.date, MIDTERM_2026_WINDOW.end),
+        eq(elections.type, 'general')
+      ))
+      .orderBy(asc(elections.state));
+
+    const races: RaceInput[] = [];
+    for (const election of midtermElections) {
+      const race = await this.buildRaceInput(election, options);
+      if (race.chamber !== 'other' && race.contenders.length > 0) {
+        races.push(race);
+      }
+    }
+
+    const { covered, uncovered } = chamberCoverage(races, MIDTERM_2026_CHAMBERS);
+    for (const chamber of uncovered) {
+      console.log(`Midterm forecast: ${chamber.chamber} left out - ${chamber.modeledSeats} of ${chamber.seats - chamber.heldOver} seats up have race data`);
+    }
+
+    const parameters = await this.buildParameters(options);
+    const result = runForecast(races, covered, parameters);
+    const run = await this.storeRun('midterms', result, { cycle: 2026, unsupportedChambers: uncovered });
+
+    return { run, result };
+  }
+
+  async getLatestMidtermRun(): Promise<ForecastRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(forecastRuns)
+      .where(and(eq(forecastRuns.scope, 'midterms'), eq(forecastRuns.cycle, 2026)))
+      .orderBy(desc(forecastRuns.createdAt))
+      .limit(1);
+    return run;
+  }
+
+  /**
+   * Latest stored midterm forecast. Never computes - the scheduled refresh
+   * and the admin run do that.
+   */
+  async getMidtermForecast(): Promise<{ run: ForecastRun; races: StoredRaceForecast[] } | null> {
+    const run = await this.getLatestMidtermRun();
+    if (!run) return null;
+    return { run, races: await this.getRunRaces(run.id) };
+  }
+
+  async getRunRaces(runId: number): Promise<StoredRaceForecast[]> {
+    const rows = await db
+      .select({ forecast: raceForecasts, candidate: candidates })
+      .from(raceForecasts)
+      .innerJoin(candidates, eq(candidates.id, raceForecasts.candidateId))
+      .where(eq(raceForecasts.runId, runId));
+
+    return this.groupRows(rows);
+  }
+
+  /**
+   * Latest forecast for a race, from either a race-level or midterm run
+   */
+  async getLatestForecast(electionId: number): Promise<StoredRaceForecast | null> {
+    const [latest] = await db
+      .select({ runId: raceForecasts.runId })
+      .from(raceForecasts)
+      .where(eq(raceForecasts.electionId, electionId))
+      .orderBy(desc(raceForecasts.createdAt))
+      .limit(1);
+    if (!latest) return null;
+
+    const rows = await db
+      .select({ forecast: raceForecasts, candidate: candidates })
+      .from(raceForecasts)
+      .innerJoin(candidates, eq(candidates.id, raceForecasts.candidateId))
+      .where(and(eq(raceForecasts.runId, latest.runId), eq(raceForecasts.electionId, electionId)));
+
+    return this.groupRows(rows)[0] ?? null;
+  }
+
+  /**
+   * Every stored forecast for a race, oldest first
+   */
+  async getForecastHistory(electionId: number, since?: Date): Promise<StoredRaceForecast[]> {
+    const conditions = [eq(raceForecasts.electionId, electionId)];
+    if (since) conditions.push(gte(raceForecasts.createdAt, since));
+
+    const rows = await db
+      .select({ forecast: raceForecasts, candidate: candidates })
+      .from(raceForecasts)
+      .innerJoin(candidates, eq(candidates.id, raceForecasts.candidateId))
+      .where(and(...conditions))
+      .orderBy(asc(raceForecasts.createdAt));
+
+    return this.groupRows(rows);
+  }
+
+  private groupRows(rows: Array<{ forecast: typeof raceForecasts.$inferSelect; candidate: Candidate }>): StoredRaceForecast[] {
+    const groups = new Map<string, StoredRaceForecast>();
+    const toNumber = (value: string | null) => value === null ? null : Number(value);
+
+    for (const { forecast, candidate } of rows) {
+      const key = `${forecast.runId}:${forecast.electionId}`;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          runId: forecast.runId,
+          electionId: forecast.electionId,
+          createdAt: forecast.createdAt,
+          contenders: [],
+          tippingPointProbability: toNumber(forecast.tippingPointProbability)
+        });
+      }
+      groups.get(key)!.contenders.push({
+        candidateId: candidate.id,
+        name: candidate.name,
+        party: candidate.party,
+        winProbability: Number(forecast.winProbability),
+        meanShare: Number(forecast.meanShare),
+        p10: toNumber(forecast.shareP10),
+        p50: toNumber(forecast.shareP50),
+        p90: toNumber(forecast.shareP90),
+        pollWeight: toNumber(forecast.pollWeight)
+      });
+    }
+
+    return Array.from(groups.values()).map(group => ({
+      ...group,
+      contenders: group.contenders.sort((a, b) => b.winProbability - a.winProbability)
+    }));
+  }
+}
+
+export const forecastService = new ForecastService();
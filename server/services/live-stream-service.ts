@@ -0,0 +1,517 @@
+/**
+ * Live Stream Service
+ * Pushes result deltas, race calls, election date changes and candidate
+ * withdrawals from the EventProcessingService to browsers over
+ * Server-Sent Events or WebSocket, so clients stop polling live results
+ * and countdowns. Connections subscribe by election or state, can resume
+ * from a Last-Event-ID and are dropped when they fall too far behind.
+ */
+
+import type { Request, Response } from 'express';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { db } from '../db';
+import { storage } from '../storage';
+import { elections, electionResults } from '@shared/schema';
+import { and, eq, gt, inArray, or, asc } from 'drizzle-orm';
+import { eventProcessingService } from '../event-processing-service';
+import {
+  ReplayBuffer,
+  OutboundQueue,
+  SubscriptionLimitError,
+  parseSubscription,
+  mergeSubscription,
+  removeFromSubscription,
+  isEmptySubscription,
+  matchesSubscription,
+  diffResults,
+  formatSseEvent,
+  type StreamEvent,
+  type StreamEventInput,
+  type StreamSubscription,
+  type ResultsSnapshot
+} from '../lib/live-stream';
+
+export const STREAM_WS_PATH = '/api/stream/ws';
+
+const MAX_SUBSCRIPTIONS = parseInt(process.env.LIVE_STREAM_MAX_SUBSCRIPTIONS || '25', 10);
+const MAX_CONNECTIONS = parseInt(process.env.LIVE_STREAM_MAX_CONNECTIONS || '5000', 10);
+const REPLAY_CAPACITY = parseInt(process.env.LIVE_STREAM_REPLAY_CAPACITY || '2000', 10);
+const MAX_PENDING_EVENTS = 200;
+const HEARTBEAT_MS = 25000;
+const WS_HIGH_WATER_BYTES = 1024 * 1024;
+const MAX_COUNTDOWNS = 200;
+
+export interface ElectionCountdown {
+  id: number;
+  title: string;
+  state: string;
+  date: string;
+  timeRemaining: number;
+  isActive: boolean;
+}
+
+interface StreamConnection {
+  id: number;
+  transport: 'sse' | 'websocket';
+  subscription: StreamSubscription;
+  queue: OutboundQueue;
+  blocked: boolean;
+  connectedAt: Date;
+  delivered: number;
+  /** Write one event; false when the transport is backed up */
+  write(event: StreamEvent): boolean;
+  control(name: string, payload: unknown): void;
+  close(reason: string): void;
+}
+
+export class LiveStreamService {
+  private buffer = new ReplayBuffer(REPLAY_CAPACITY);
+  private connections = new Map<number, StreamConnection>();
+  private nextConnectionId = 1;
+  private electionStates = new Map<number, string | null>();
+  private lastResults = new Map<number, ResultsSnapshot>();
+  private wss: WebSocketServer | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private started = false;
+  private droppedSlowConsumers = 0;
+
+  /**
+   * Listen to the event processor and accept WebSocket upgrades on the
+   * HTTP server
+   */
+  start(server?: Server): void {
+    if (!this.started) {
+      this.started = true;
+      this.listen();
+      this.heartbeat = setInterval(() => this.sendHeartbeats(), HEARTBEAT_MS);
+      this.heartbeat.unref?.();
+    }
+    if (server && !this.wss) {
+      this.attachWebSocket(server);
+    }
+  }
+
+  /**
+   * Record an event and fan it out to every matching connection
+   */
+  async publish(input: Omit<StreamEventInput, 'state'> & { state?: string | null }): Promise<StreamEvent> {
+    const state = input.state !== undefined ? input.state : await this.stateFor(input.electionId);
+    const event = this.buffer.append({ ...input, state });
+    for (const connection of Array.from(this.connections.values())) {
+      if (matchesSubscription(connection.subscription, event)) {
+        this.deliver(connection, event);
+      }
+    }
+    return event;
+  }
+
+  /**
+   * Publish whatever changed in an election's stored results since the
+   * last results event
+   */
+  async publishResults(electionId: number): Promise<StreamEvent | null> {
+    const results = await storage.getElectionResults(electionId);
+    const [totals] = await db.select().from(electionResults).where(eq(electionResults.electionId, electionId));
+    const raceCandidates: any[] = results?.candidates ?? [];
+
+    const snapshot: ResultsSnapshot = {
+      totalVotes: totals?.totalVotes ?? results?.totalVotes ?? 0,
+      percentReporting: totals?.percentReporting ? parseFloat(totals.percentReporting) : null,
+      candidates: raceCandidates.map(c => ({
+        candidateId: c.id,
+        name: c.name,
+        party: c.party ?? null,
+        votes: c.votesReceived || 0,
+        percentage: c.votePercentage ? parseFloat(c.votePercentage) : 0
+      }))
+    };
+
+    const delta = diffResults(this.lastResults.get(electionId), snapshot);
+    this.lastResults.set(electionId, snapshot);
+    await this.stateFor(electionId);
+    const event = delta
+      ? await this.publish({ type: 'results', electionId, data: delta as unknown as Record<string, unknown> })
+      : null;
+
+    // Certified results are final, and nobody needs deltas for an election no one follows
+    if (totals?.isCertified || !this.isWatched(electionId)) {
+      this.forget(electionId);
+    }
+    return event;
+  }
+
+  /**
+   * GET /api/stream - hold the response open as an event stream
+   */
+  async handleSse(req: Request, res: Response): Promise<void> {
+    let subscription: StreamSubscription;
+    try {
+      subscription = parseSubscription(req.query as Record<string, unknown>, MAX_SUBSCRIPTIONS);
+    } catch (error) {
+      if (error instanceof SubscriptionLimitError) {
+        res.status(400).json({ error: error.message, limit: error.limit });
+        return;
+      }
+      throw error;
+    }
+    if (isEmptySubscription(subscription)) {
+      res.status(400).json({ error: 'Subscribe to at least one election or state' });
+      return;
+    }
+    if (this.atCapacity()) {
+      res.set('Retry-After', '30');
+      res.status(503).json({ error: 'Too many live connections, try again shortly', limit: MAX_CONNECTIONS });
+      return;
+    }
+
+    // no-transform keeps the compression middleware from buffering the stream
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write('retry: 5000\n\n');
+
+    const connection: StreamConnection = {
+      id: this.nextConnectionId++,
+      transport: 'sse',
+      subscription,
+      queue: new OutboundQueue(MAX_PENDING_EVENTS),
+      blocked: false,
+      connectedAt: new Date(),
+      delivered: 0,
+      write: event => res.write(formatSseEvent(event)),
+      // Control messages carry no id so they never move the client's Last-Event-ID
+      control: (name, payload) => {
+        res.write(`event: ${name}\ndata: ${JSON.stringify(payload)}\n\n`);
+      },
+      close: reason => {
+        if (!res.writableEnded) {
+          res.write(`event: close\ndata: ${JSON.stringify({ reason })}\n\n`);
+          res.end();
+        }
+        this.removeConnection(connection.id);
+      }
+    };
+
+    res.on('drain', () => this.flush(connection));
+    req.on('close', () => this.removeConnection(connection.id));
+
+    const lastEventId = this.lastEventIdFrom(req.headers['last-event-id'], req.query.lastEventId);
+    await this.open(connection, lastEventId);
+  }
+
+  /**
+   * Upcoming elections covered by a subscription with time remaining
+   */
+  async getCountdowns(subscription: StreamSubscription): Promise<ElectionCountdown[]> {
+    const ids = Array.from(subscription.electionIds);
+    const states = Array.from(subscription.states);
+    const scope = [
+      ids.length > 0 ? inArray(elections.id, ids) : undefined,
+      states.length > 0 ? inArray(elections.state, states) : undefined
+    ].filter(Boolean);
+    if (scope.length === 0) return [];
+
+    const rows = await db
+      .select({ id: elections.id, title: elections.title, state: elections.state, date: elections.date })
+      .from(elections)
+      .where(and(eq(elections.isActive, true), gt(elections.date, new Date()), or(...scope)))
+      .orderBy(asc(elections.date))
+      .limit(MAX_COUNTDOWNS);
+
+    return rows.map(row => this.toCountdown(row));
+  }
+
+  getStatus() {
+    const connections = Array.from(this.connections.values());
+    return {
+      connections: connections.length,
+      sse: connections.filter(c => c.transport === 'sse').length,
+      websocket: connections.filter(c => c.transport === 'websocket').length,
+      blocked: connections.filter(c => c.blocked).length,
+      lastEventId: this.buffer.lastId,
+      droppedSlowConsumers: this.droppedSlowConsumers,
+      trackedElections: this.lastResults.size,
+      maxConnections: MAX_CONNECTIONS,
+      maxSubscriptionsPerConnection: MAX_SUBSCRIPTIONS
+    };
+  }
+
+  private listen(): void {
+    eventProcessingService.on('results_updated', (payload: { electionId: number }) => {
+      this.safely(() => this.publishResults(payload.electionId));
+    });
+
+    eventProcessingService.on('race_called', (payload: { electionId: number } & Record<string, unknown>) => {
+      const { electionId, ...data } = payload;
+      this.safely(() => this.publish({ type: 'race_call', electionId, data: { action: 'called', ...data } }));
+    });
+
+    eventProcessingService.on('race_call_retracted', (payload: { electionId: number } & Record<string, unknown>) => {
+      const { electionId, ...data } = payload;
+      this.safely(() => this.publish({ type: 'race_call', electionId, data: { action: 'retracted', ...data } }));
+    });
+
+    eventProcessingService.on('district_called', (call: { electionId: number; districtId: string; winner: string; margin: number; confidence: number }) => {
+      this.safely(() => this.publish({
+        type: 'race_call',
+        electionId: call.electionId,
+        data: { action: 'district_called', districtId: call.districtId, winner: call.winner, margin: call.margin, confidence: call.confidence }
+      }));
+    });
+
+    eventProcessingService.on('election_date_changed', (payload: { electionId: number; previousDate: Date | string | null; newDate: Date | string; reason?: string }) => {
+      const newDate = new Date(payload.newDate);
+      this.safely(() => this.publish({
+        type: 'date_change',
+        electionId: payload.electionId,
+        data: {
+          previousDate: payload.previousDate ? new Date(payload.previousDate).toISOString() : null,
+          newDate: newDate.toISOString(),
+          timeRemaining: Math.max(0, newDate.getTime() - Date.now()),
+          reason: payload.reason ?? null
+        }
+      }));
+    });
+
+    eventProcessingService.on('candidate_withdrawn', (payload: { electionId: number } & Record<string, unknown>) => {
+      const { electionId, ...data } = payload;
+      this.safely(() => this.publish({ type: 'candidate_withdrawal', electionId, data }));
+    });
+
+    eventProcessingService.on('recount_declared', (payload: { electionId: number; reason?: string; deadline?: string }) => {
+      this.safely(() => this.publish({
+        type: 'recount',
+        electionId: payload.electionId,
+        data: { reason: payload.reason ?? null, deadline: payload.deadline ?? null }
+      }));
+    });
+  }
+
+  private attachWebSocket(server: Server): void {
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: 16 * 1024 });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      // Leave every other upgrade (e.g. the Vite HMR socket) alone
+      if (url.pathname !== STREAM_WS_PATH) return;
+
+      if (this.atCapacity()) {
+        socket.end('HTTP/1.1 503 Service Unavailable\r\nRetry-After: 30\r\nConnection: close\r\n\r\n');
+        return;
+      }
+      this.wss!.handleUpgrade(req, socket, head, ws => {
+        this.safely(() => this.handleWebSocket(ws, url));
+      });
+    });
+  }
+
+  private async handleWebSocket(ws: WebSocket, url: URL): Promise<void> {
+    const query = Object.fromEntries(url.searchParams.entries());
+    let subscription: StreamSubscription;
+    try {
+      subscription = parseSubscription(query, MAX_SUBSCRIPTIONS);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid subscription';
+      ws.send(JSON.stringify({ type: 'error', error: message }));
+      ws.close(1008, 'Invalid subscription');
+      return;
+    }
+
+    const connection: StreamConnection = {
+      id: this.nextConnectionId++,
+      transport: 'websocket',
+      subscription,
+      queue: new OutboundQueue(MAX_PENDING_EVENTS),
+      blocked: false,
+      connectedAt: new Date(),
+      delivered: 0,
+      write: event => {
+        ws.send(JSON.stringify({ type: 'event', event }), () => {
+          if (connection.blocked && ws.bufferedAmount < WS_HIGH_WATER_BYTES / 2) {
+            this.flush(connection);
+          }
+        });
+        return ws.bufferedAmount < WS_HIGH_WATER_BYTES;
+      },
+      control: (name, payload) => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify({ type: name, ...(payload as object) }));
+        }
+      },
+      close: reason => {
+        this.removeConnection(connection.id);
+        if (ws.readyState === WebSocket.OPEN) ws.close(1013, reason);
+      }
+    };
+
+    ws.on('message', raw => this.safely(() => this.handleWebSocketMessage(connection, raw.toString())));
+    ws.on('close', () => this.removeConnection(connection.id));
+    ws.on('error', () => this.removeConnection(connection.id));
+
+    await this.open(connection, this.lastEventIdFrom(undefined, query.lastEventId));
+  }
+
+  /**
+   * Clients can change what they follow without reconnecting:
+   * {"action":"subscribe"|"unsubscribe","elections":[1],"states":["GA"]}
+   */
+  private async handleWebSocketMessage(connection: StreamConnection, raw: string): Promise<void> {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      connection.control('error', { error: 'Messages must be JSON' });
+      return;
+    }
+
+    try {
+      const change = parseSubscription(message, MAX_SUBSCRIPTIONS);
+      if (message.action === 'subscribe') {
+        connection.subscription = mergeSubscription(connection.subscription, change, MAX_SUBSCRIPTIONS);
+        connection.control('countdowns', { countdowns: await this.getCountdowns(change) });
+      } else if (message.action === 'unsubscribe') {
+        connection.subscription = removeFromSubscription(connection.subscription, change);
+        this.evictUnwatched();
+      } else {
+        connection.control('error', { error: 'Unknown action' });
+        return;
+      }
+      connection.control('subscribed', { subscription: this.describe(connection.subscription) });
+    } catch (error) {
+      connection.control('error', { error: error instanceof Error ? error.message : 'Invalid subscription' });
+    }
+  }
+
+  /**
+   * Register the connection, replay anything missed since the client's
+   * last event and send current countdowns
+   */
+  private async open(connection: StreamConnection, lastEventId: number | null): Promise<void> {
+    this.connections.set(connection.id, connection);
+    connection.control('ready', {
+      connectionId: connection.id,
+      transport: connection.transport,
+      lastEventId: this.buffer.lastId,
+      subscription: this.describe(connection.subscription)
+    });
+
+    if (lastEventId !== null) {
+      const missed = this.buffer.since(lastEventId);
+      if (missed === null) {
+        connection.control('resync', { reason: 'Events since the last id are not buffered' });
+      } else {
+        for (const event of missed) {
+          if (matchesSubscription(connection.subscription, event)) this.deliver(connection, event);
+        }
+      }
+    }
+
+    try {
+      connection.control('countdowns', { countdowns: await this.getCountdowns(connection.subscription) });
+    } catch (error) {
+      console.error('[Live Stream] Failed to load countdowns:', error);
+    }
+  }
+
+  private deliver(connection: StreamConnection, event: StreamEvent): void {
+    if (connection.blocked) {
+      if (!connection.queue.push(event)) {
+        this.droppedSlowConsumers++;
+        console.warn(`[Live Stream] Dropping slow ${connection.transport} connection ${connection.id} (${connection.queue.size} events pending)`);
+        connection.queue.clear();
+        connection.close('slow_consumer');
+      }
+      return;
+    }
+    connection.delivered++;
+    if (!connection.write(event)) {
+      connection.blocked = true;
+    }
+  }
+
+  private flush(connection: StreamConnection): void {
+    connection.blocked = false;
+    let event: StreamEvent | undefined;
+    while (!connection.blocked && (event = connection.queue.shift())) {
+      connection.delivered++;
+      if (!connection.write(event)) connection.blocked = true;
+    }
+  }
+
+  private atCapacity(): boolean {
+    return this.connections.size >= MAX_CONNECTIONS;
+  }
+
+  private removeConnection(id: number): void {
+    if (this.connections.delete(id)) this.evictUnwatched();
+  }
+
+  /**
+   * Drop cached results and states for elections no connection follows any
+   * more, directly or through their state
+   */
+  private evictUnwatched(): void {
+    const cached = new Set(Array.from(this.lastResults.keys()).concat(Array.from(this.electionStates.keys())));
+    for (const electionId of Array.from(cached)) {
+      if (!this.isWatched(electionId)) this.forget(electionId);
+    }
+  }
+
+  private isWatched(electionId: number): boolean {
+    const state = this.electionStates.get(electionId);
+    return Array.from(this.connections.values()).some(c =>
+      c.subscription.electionIds.has(electionId) || (!!state && c.subscription.states.has(state))
+    );
+  }
+
+  private forget(electionId: number): void {
+    this.lastResults.delete(electionId);
+    this.electionStates.delete(electionId);
+  }
+
+  private sendHeartbeats(): void {
+    for (const connection of Array.from(this.connections.values())) {
+      if (connection.blocked) continue;
+      connection.control('heartbeat', { lastEventId: this.buffer.lastId, at: new Date().toISOString() });
+    }
+  }
+
+  private async stateFor(electionId: number): Promise<string | null> {
+    if (this.electionStates.has(electionId)) return this.electionStates.get(electionId)!;
+    const election = await storage.getElection(electionId);
+    const state = election?.state ?? null;
+    this.electionStates.set(electionId, state);
+    return state;
+  }
+
+  private lastEventIdFrom(header: string | string[] | undefined, query: unknown): number | null {
+    const raw = Array.isArray(header) ? header[0] : header ?? (typeof query === 'string' ? query : undefined);
+    if (!raw) return null;
+    const id = parseInt(raw, 10);
+    return Number.isInteger(id) && id >= 0 ? id : null;
+  }
+
+  private toCountdown(row: { id: number; title: string; state: string; date: Date }): ElectionCountdown {
+    const timeRemaining = Math.max(0, row.date.getTime() - Date.now());
+    return { id: row.id, title: row.title, state: row.state, date: row.date.toISOString(), timeRemaining, isActive: timeRemaining > 0 };
+  }
+
+  private describe(subscription: StreamSubscription) {
+    return {
+      elections: Array.from(subscription.electionIds),
+      states: Array.from(subscription.states),
+      types: subscription.types ? Array.from(subscription.types) : null
+    };
+  }
+
+  private safely(task: () => Promise<unknown>): void {
+    task().catch(error => console.error('[Live Stream] Error:', error));
+  }
+}
+
+export const liveStreamService = new LiveStreamService();
@@ -0,0 +1,119 @@
+/**
+ * Notification Inbox Service
+ * The in-app inbox: each inbox delivery from the notification queue
+ * becomes one message the user can read and archive. Reading a message
+ * marks its delivery opened, so the inbox reports to delivery tracking
+ * the way email opens do.
+ */
+
+import { db } from '../db';
+import { and, desc, eq, inArray, isNotNull, isNull, lt, sql } from 'drizzle-orm';
+import {
+  notificationDeliveries,
+  notificationInbox,
+  type InboxMessage,
+  type NotificationDelivery
+} from '@shared/schema';
+import { deliveryTrackingService } from './delivery-tracking-service';
+
+export type InboxView = 'inbox' | 'unread' | 'archived';
+
+export interface InboxQuery {
+  view?: InboxView;
+  before?: number; // message ID to page back from
+  limit?: number;
+}
+
+export class NotificationInboxService {
+  /**
+   * Store an inbox delivery as a message. A delivery retried after its
+   * message was stored gets the same message back.
+   */
+  async deliver(delivery: NotificationDelivery): Promise<InboxMessage> {
+    const data = (delivery.templateData as Record<string, any> | null) ?? {};
+    const [message] = await db.insert(notificationInbox).values({
+      userId: delivery.recipient,
+      deliveryId: delivery.id,
+      eventId: delivery.eventId,
+      title: delivery.subject ?? 'Election Tracker Alert',
+      body: delivery.content,
+      url: data.url ?? null,
+      category: data.eventType ?? null,
+      priority: delivery.priority ?? 'normal'
+    } as any)
+      .onConflictDoNothing({ target: notificationInbox.deliveryId })
+      .returning();
+    if (message) return message;
+
+    const [existing] = await db.select().from(notificationInbox)
+      .where(eq(notificationInbox.deliveryId, delivery.id));
+    return existing;
+  }
+
+  async list(userId: string, query: InboxQuery = {}): Promise<InboxMessage[]> {
+    const view = query.view ?? 'inbox';
+    return db.select().from(notificationInbox)
+      .where(and(
+        eq(notificationInbox.userId, userId),
+        view === 'archived' ? isNotNull(notificationInbox.archivedAt) : isNull(notificationInbox.archivedAt),
+        view === 'unread' ? isNull(notificationInbox.readAt) : undefined,
+        query.before ? lt(notificationInbox.id, query.before) : undefined
+      ))
+      .orderBy(desc(notificationInbox.id))
+      .limit(query.limit ?? 50);
+  }
+
+  async unreadCount(userId: string): Promise<number> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(notificationInbox)
+      .where(and(
+        eq(notificationInbox.userId, userId),
+        isNull(notificationInbox.readAt),
+        isNull(notificationInbox.archivedAt)
+      ));
+    return count;
+  }
+
+  /**
+   * Mark messages read - the given ones, or every unread message when no
+   * IDs are passed. Returns how many changed.
+   */
+  async markRead(userId: string, ids?: number[]): Promise<number> {
+    const read = await db.update(notificationInbox)
+      .set({ readAt: new Date() } as any)
+      .where(and(
+        eq(notificationInbox.userId, userId),
+        isNull(notificationInbox.readAt),
+        ids ? inArray(notificationInbox.id, ids) : undefined
+      ))
+      .returning({ deliveryId: notificationInbox.deliveryId });
+
+    const deliveryIds = read.map(r => r.deliveryId).filter((id): id is number => id != null);
+    if (deliveryIds.length > 0) {
+      const opened = await db.update(notificationDeliveries)
+        .set({ openedAt: new Date(), updatedAt: new Date() } as any)
+        .where(and(inArray(notificationDeliveries.id, deliveryIds), isNull(notificationDeliveries.openedAt)))
+        .returning();
+      opened.forEach(delivery => deliveryTrackingService.trackDelivery(delivery));
+    }
+    return read.length;
+  }
+
+  /**
+   * Archive messages, which also marks them read
+   */
+  async archive(userId: string, ids: number[]): Promise<number> {
+    await this.markRead(userId, ids);
+    const archived = await db.update(notificationInbox)
+      .set({ archivedAt: new Date() } as any)
+      .where(and(
+        eq(notificationInbox.userId, userId),
+        inArray(notificationInbox.id, ids),
+        isNull(notificationInbox.archivedAt)
+      ))
+      .returning({ id: notificationInbox.id });
+    return archived.length;
+  }
+}
+
+export const notificationInboxService = new NotificationInboxService();
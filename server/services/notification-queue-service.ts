@@ -1,18 +1,45 @@
-import { 
-  NotificationDelivery, 
-  InsertNotificationDelivery, 
-  NotificationTemplate,
-  NotificationCampaign,
-  NotificationEvent,
-  NotificationSubscription
+/**
+ * Notification Queue Service
+ * A durable queue over notification_deliveries. Workers lease due rows,
+ * send them through SendGrid, Twilio or Web Push (or file them in the
+ * in-app inbox), and either mark them sent, put them back with
+ * exponential backoff, or move them to the dead-letter table. Leases
+ * expire, so rows held by a crashed worker are picked up again, and each
+ * (user, event, channel) is queued at most once. Non-urgent email, SMS
+ * and push wait out the user's quiet hours, and every outcome is
+ * reported to delivery tracking.
+ */
+
+import { hostname } from 'os';
+import { nanoid } from 'nanoid';
+import { db } from '../db';
+import { and, desc, eq, gte, inArray, isNull, lt, lte, or, sql, type SQL } from 'drizzle-orm';
+import {
+  notificationDeadLetters,
+  notificationDeliveries,
+  notificationPreferences,
+  type NotificationDeadLetter,
+  type NotificationDelivery,
+  type NotificationTemplate,
+  type NotificationEvent,
+  type NotificationSubscription
 } from '@shared/schema';
 import { sendGridNotificationService } from './sendgrid-notification-service';
 import { twilioNotificationService } from './twilio-notification-service';
-import { storage } from '../storage';
+import { webPushNotificationService } from './web-push-notification-service';
+import { notificationInboxService } from './notification-inbox-service';
+import { deliveryTrackingService } from './delivery-tracking-service';
+import {
+  backoffDelay,
+  deadLetterReason,
+  idempotencyKey,
+  type DeadLetterReason
+} from '../lib/notification-queue';
+import { quietUntil } from '../lib/quiet-hours';
 
 export interface QueuedNotification {
   id: string;
-  type: 'email' | 'sms';
+  type: 'email' | 'sms' | 'push' | 'inbox';
   priority: 'low' | 'normal' | 'high' | 'urgent';
   recipient: string;
   content: {
@@ -39,53 +66,106 @@ export interface NotificationQueueStats {
   processing: number;
   completed: number;
   failed: number;
+  deadLetters: number;
   totalProcessed: number;
   averageProcessingTime: number;
   successRate: number;
 }
 
+export interface DeadLetterFilters {
+  reason?: DeadLetterReason;
+  channel?: string;
+  includeReplayed?: boolean;
+  limit?: number;
+}
+
+/** Bad request data - reported back as a 400 */
+export class NotificationQueueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationQueueError';
+  }
+}
+
+// Column updates, some computed in SQL from the row's current values
+type DeliveryChanges = { [K in keyof NotificationDelivery]?: NotificationDelivery[K] | SQL };
+// A new row: the columns without defaults, plus any others
+type NewDelivery = Pick<NotificationDelivery, 'channel' | 'recipient' | 'content'> & Partial<NotificationDelivery>;
+
+const LEASE_MS = 5 * 60 * 1000;
+const LEASE_LAPSED_MESSAGE = 'Lease expired before the send was confirmed';
+const BATCH_SIZE = 50;
+const COMPLETED_STATUSES = ['sent', 'delivered', 'opened', 'clicked'];
+const FAILED_STATUSES = ['failed', 'bounced'];
+// Channels that wait for quiet hours to end; the inbox is silent anyway
+const QUIET_HOURS_CHANNELS = ['email', 'sms', 'push'];
+
 export class NotificationQueueService {
+  readonly workerId = `${hostname()}:${process.pid}:${nanoid(6)}`;
   private isProcessing = false;
-  private rateLimits = {
+  private processorTimer: NodeJS.Timeout | null = null;
+  private rateLimits: Record<string, number> = {
     email: 100, // per minute
-    sms: 60    // per minute
-  };
-  
-  private lastProcessed = {
-    email: 0,
-    sms: 0
+    sms: 60,    // per minute
+    push: 300,  // per minute
+    inbox: 1000 // per minute
   };
+  // Sends per channel in the current one-minute window
+  private window = { startedAt: 0, sent: {} as Record<string, number> };
 
   constructor() {
     this.startQueueProcessor();
-    this.startCleanupTask();
-    console.log('✅ Database-backed Notification Queue Service initialized');
+    console.log(`✅ Database-backed Notification Queue Service initialized (worker ${this.workerId})`);
   }
 
   /**
-   * Add notification to queue
+   * Add notification to queue. Returns the existing delivery's ID when the
+   * same user was already queued this event on this channel.
    */
   async queueNotification(notification: Omit<QueuedNotification, 'id' | 'retryCount'>): Promise<string> {
+    const key = idempotencyKey({
+      userId: notification.metadata.userId,
+      recipient: notification.recipient,
+      eventId: notification.metadata.eventId,
+      channel: notification.type
+    });
+
     try {
-      // Create database delivery record
-      const deliveryData: InsertNotificationDelivery = {
-        campaignId: notification.metadata.campaignId || null,
-        userId: notification.metadata.userId || null,
-        subscriptionId: notification.metadata.subscriptionId || null,
-        templateId: notification.metadata.templateId || null,
+      const values: NewDelivery = {
+        campaignId: notification.metadata.campaignId ?? null,
+        userId: notification.metadata.userId ?? null,
+        subscriptionId: notification.metadata.subscriptionId ?? null,
+        templateId: notification.metadata.templateId ?? null,
+        eventId: notification.metadata.eventId ?? null,
+        idempotencyKey: key,
         channel: notification.type,
         recipient: notification.recipient,
-        subject: notification.content.subject || null,
+        subject: notification.content.subject ?? null,
         content: notification.content.message,
+        html: notification.content.html ?? null,
+        templateData: notification.content.templateData ?? null,
+        priority: notification.priority,
         status: 'queued',
         retryCount: 0,
-        queuedAt: notification.scheduledAt || new Date()
+        maxRetries: notification.maxRetries,
+        // Not sent before this; also reused as the retry time
+        nextRetryAt: notification.scheduledAt ?? null,
+        expiresAt: notification.expiresAt ?? null,
+        queuedAt: new Date()
       };
-      
-      const delivery = await storage.createNotificationDelivery(deliveryData);
-      
-      console.log(`📬 Notification queued: ${delivery.id} (${notification.type})`);
-      return delivery.id.toString();
+      const [delivery] = await db.insert(notificationDeliveries).values(values)
+        .onConflictDoNothing({ target: notificationDeliveries.idempotencyKey })
+        .returning({ id: notificationDeliveries.id });
+
+      if (delivery) {
+        console.log(`📬 Notification queued: ${delivery.id} (${notification.type})`);
+        return delivery.id.toString();
+      }
+
+      const [existing] = await db.select({ id: notificationDeliveries.id })
+        .from(notificationDeliveries)
+        .where(eq(notificationDeliveries.idempotencyKey, key!));
+      return existing.id.toString();
     } catch (error) {
       console.error('Failed to queue notification:', error);
       throw new Error('Failed to queue notification');
@@ -97,12 +177,12 @@ export class NotificationQueueService {
    */
   async queueBulkNotifications(notifications: Omit<QueuedNotification, 'id' | 'retryCount'>[]): Promise<string[]> {
     const ids: string[] = [];
-    
+
     for (const notification of notifications) {
       const id = await this.queueNotification(notification);
       ids.push(id);
     }
-    
+
     console.log(`📬 Bulk notifications queued: ${ids.length} notifications`);
     return ids;
   }
@@ -116,13 +196,19 @@ export class NotificationQueueService {
     template?: NotificationTemplate
   ): Promise<string[]> {
     const notifications: Omit<QueuedNotification, 'id' | 'retryCount'>[] = [];
-    
+    const priority = event.priority as any || 'normal';
+    const alertedUsers = new Set<string>();
+
     for (const subscription of subscriptions) {
       if (!subscription.isActive || !subscription.isVerified) continue;
-      
-      const priority = event.priority as any || 'normal';
+      // Push is sent to a user's registered browsers, so it needs a user
+      if (subscription.channel === 'push' && !subscription.userId) {
+        console.warn(`⚠️ Skipping push subscription ${subscription.id} for event ${event.id}: no user`);
+        continue;
+      }
+
       const scheduledAt = new Date();
-      
+
       // Set urgency-based scheduling
       if (priority === 'urgent') {
         // Immediate delivery
@@ -133,7 +219,7 @@ export class NotificationQueueService {
       }
 
       let content: any = {};
-      
+
       if (subscription.channel === 'email') {
         content = {
           subject: this.generateSubjectFromEvent(event),
@@ -145,12 +231,16 @@ export class NotificationQueueService {
         content = {
           message: this.generateSMSFromEvent(event)
         };
+      } else if (subscription.channel === 'push') {
+        content = this.generateInAppFromEvent(event);
       }
 
+      if (subscription.userId) alertedUsers.add(subscription.userId);
       notifications.push({
-        type: subscription.channel as 'email' | 'sms',
+        type: subscription.channel as QueuedNotification['type'],
         priority,
-        recipient: subscription.targetValue!,
+        // Push goes to all of the user's registered browsers
+        recipient: subscription.channel === 'push' ? subscription.userId : subscription.targetValue!,
         content,
         metadata: {
           userId: subscription.userId,
@@ -163,7 +253,24 @@ export class NotificationQueueService {
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
       });
     }
-    
+
+    // Everyone alerted on any channel also finds the event in their inbox
+    alertedUsers.forEach(userId => {
+      notifications.push({
+        type: 'inbox',
+        priority,
+        recipient: userId,
+        content: this.generateInAppFromEvent(event),
+        metadata: {
+          userId,
+          templateId: template?.id,
+          eventId: event.id
+        },
+        maxRetries: 3,
+        scheduledAt: new Date()
+      });
+    });
+
     return this.queueBulkNotifications(notifications);
   }
 
@@ -171,11 +278,11 @@ export class NotificationQueueService {
    * Start the queue processor
    */
   private startQueueProcessor() {
-    setInterval(async () => {
+    this.processorTimer = setInterval(async () => {
       if (this.isProcessing) return;
-      
+
       this.isProcessing = true;
-      
+
       try {
         await this.processQueue();
       } catch (error) {
@@ -187,207 +294,422 @@ export class NotificationQueueService {
   }
 
   /**
-   * Process queued notifications
+   * Stop processing and hand back this worker's leases so another worker
+   * can send them straight away
+   */
+  async stop(): Promise<void> {
+    if (this.processorTimer) {
+      clearInterval(this.processorTimer);
+      this.processorTimer = null;
+    }
+    const released: DeliveryChanges = { status: 'queued', leasedBy: null, leaseExpiresAt: null, updatedAt: new Date() };
+    await db.update(notificationDeliveries)
+      .set(released)
+      .where(and(eq(notificationDeliveries.status, 'sending'), eq(notificationDeliveries.leasedBy, this.workerId)));
+  }
+
+  /**
+   * Lease and send due notifications, each channel within its rate limit
    */
   private async processQueue() {
-    try {
-      // Get queued notifications from database
-      const queuedDeliveries = await storage.getQueuedNotifications(50); // Limit to 50 at a time
-      
-      if (queuedDeliveries.length === 0) return;
-      
-      // Filter by rate limits
-      const emailDeliveries = queuedDeliveries
-        .filter(d => d.channel === 'email')
-        .slice(0, this.getRemainingRateLimit('email'));
-        
-      const smsDeliveries = queuedDeliveries
-        .filter(d => d.channel === 'sms')
-        .slice(0, this.getRemainingRateLimit('sms'));
-      
-      // Process both types
-      const allDeliveries = [...emailDeliveries, ...smsDeliveries];
-      
-      for (const delivery of allDeliveries) {
+    for (const channel of Object.keys(this.rateLimits)) {
+      const remaining = Math.min(BATCH_SIZE, this.getRemainingRateLimit(channel));
+      if (remaining === 0) continue;
+
+      const deliveries = await this.lease(channel, remaining);
+      for (const delivery of deliveries) {
         await this.processNotificationDelivery(delivery);
       }
-    } catch (error) {
-      console.error('Error processing queue:', error);
     }
   }
 
   /**
-   * Process individual notification
+   * Claim due rows - queued ones whose time has come, and rows whose
+   * lease has lapsed. The update re-checks the claim condition, so when
+   * two workers select the same row only one of them gets it. A lapsed
+   * lease counts as an attempt: the send may have gone out or may crash
+   * the worker again, so it cannot be retried forever.
+   */
+  private async lease(channel: string, limit: number): Promise<NotificationDelivery[]> {
+    const now = new Date();
+    const claimable = or(
+      and(
+        eq(notificationDeliveries.status, 'queued'),
+        or(isNull(notificationDeliveries.nextRetryAt), lte(notificationDeliveries.nextRetryAt, now))
+      ),
+      and(eq(notificationDeliveries.status, 'sending'), lt(notificationDeliveries.leaseExpiresAt, now))
+    );
+
+    const due = await db.select({ id: notificationDeliveries.id })
+      .from(notificationDeliveries)
+      .where(and(eq(notificationDeliveries.channel, channel), claimable))
+      .orderBy(
+        sql`case ${notificationDeliveries.priority} when 'urgent' then 0 when 'high' then 1 when 'low' then 3 else 2 end`,
+        notificationDeliveries.queuedAt
+      )
+      .limit(limit);
+    if (due.length === 0) return [];
+
+    const lapsed = sql`${notificationDeliveries.status} = 'sending'`;
+    const leased: DeliveryChanges = {
+      status: 'sending',
+      retryCount: sql`case when ${lapsed} then coalesce(${notificationDeliveries.retryCount}, 0) + 1 else ${notificationDeliveries.retryCount} end`,
+      errorMessage: sql`case when ${lapsed} then ${LEASE_LAPSED_MESSAGE} else ${notificationDeliveries.errorMessage} end`,
+      leasedBy: this.workerId,
+      leaseExpiresAt: new Date(now.getTime() + LEASE_MS),
+      updatedAt: now
+    };
+    return db.update(notificationDeliveries)
+      .set(leased)
+      .where(and(inArray(notificationDeliveries.id, due.map(d => d.id)), claimable))
+      .returning();
+  }
+
+  /**
+   * Send one leased delivery and record the outcome
    */
-  private async processNotification(notification: QueuedNotification) {
-    const startTime = Date.now();
-    this.processing.add(notification.id);
-    
+  private async processNotificationDelivery(delivery: NotificationDelivery) {
+    if (delivery.expiresAt && delivery.expiresAt < new Date()) {
+      await this.deadLetter(delivery, 'expired', delivery.retryCount ?? 0, null, 'Expired before it could be sent');
+      return;
+    }
+    // Only lapsed leases reach the limit here - failed sends are dead-lettered as they fail
+    if (deadLetterReason(delivery.retryCount ?? 0, delivery.maxRetries ?? 3) === 'retries_exhausted') {
+      await this.deadLetter(delivery, 'retries_exhausted', delivery.retryCount ?? 0, null, delivery.errorMessage);
+      return;
+    }
+
+    const mine = and(eq(notificationDeliveries.id, delivery.id), eq(notificationDeliveries.leasedBy, this.workerId));
+
+    const quietEnds = await this.quietHoursEnd(delivery);
+    if (quietEnds) {
+      // Held, not retried - the attempt count stays as it was
+      const held: DeliveryChanges = { status: 'queued', nextRetryAt: quietEnds, leasedBy: null, leaseExpiresAt: null, updatedAt: new Date() };
+      await db.update(notificationDeliveries)
+        .set(held)
+        .where(mine);
+      console.log(`🌙 Notification ${delivery.id} held for quiet hours until ${quietEnds.toISOString()}`);
+      return;
+    }
+
+    let result: { success: boolean; messageId?: string; error?: string; statusCode?: number };
     try {
-      let result: any;
-      
-      if (notification.type === 'email') {
+      if (delivery.channel === 'email') {
         result = await sendGridNotificationService.sendEmail({
-          to: notification.recipient,
+          to: delivery.recipient,
           from: 'notifications@electiontracker.app',
-          subject: notification.content.subject!,
-          text: notification.content.message,
-          html: notification.content.html,
-          templateData: notification.content.templateData
+          subject: delivery.subject ?? 'Election Tracker Alert',
+          text: delivery.content,
+          html: delivery.html ?? undefined,
+          templateData: (delivery.templateData as Record<string, any>) ?? undefined
         });
-      } else if (notification.type === 'sms') {
+      } else if (delivery.channel === 'sms') {
         result = await twilioNotificationService.sendSMS({
-          to: notification.recipient,
-          message: notification.content.message
+          to: delivery.recipient,
+          message: delivery.content
         });
-      }
-
-      const processingTime = Date.now() - startTime;
-      
-      if (result.success) {
-        this.completed.set(notification.id, {
-          success: true,
-          timestamp: new Date(),
-          processingTime
-        });
-        
-        console.log(`✅ Notification sent: ${notification.id} (${processingTime}ms)`);
+      } else if (delivery.channel === 'push') {
+        result = await webPushNotificationService.sendToUser(delivery.recipient, {
+          title: delivery.subject ?? 'Election Tracker Alert',
+          body: delivery.content,
+          url: (delivery.templateData as { url?: string } | null)?.url,
+          tag: delivery.eventId ? `event-${delivery.eventId}` : undefined,
+          deliveryId: delivery.id
+        }, delivery.priority ?? 'normal');
+      } else if (delivery.channel === 'inbox') {
+        const message = await notificationInboxService.deliver(delivery);
+        result = { success: true, messageId: String(message.id) };
       } else {
-        throw new Error(result.error || 'Unknown delivery error');
+        result = { success: false, error: `Unsupported channel ${delivery.channel}`, statusCode: 400 };
       }
-      
-      // Remove from queue
-      this.queue.delete(notification.id);
-      
     } catch (error: any) {
-      console.error(`❌ Notification failed: ${notification.id}`, error.message);
-      
-      notification.retryCount++;
-      
-      if (notification.retryCount >= notification.maxRetries) {
-        // Max retries reached, mark as failed
-        this.failed.set(notification.id, {
-          error: error.message,
-          timestamp: new Date(),
-          retryCount: notification.retryCount
-        });
-        
-        this.queue.delete(notification.id);
-      } else {
-        // Retry with exponential backoff
-        const backoffMinutes = Math.pow(2, notification.retryCount) * 5; // 5, 10, 20, 40 minutes
-        notification.scheduledAt = new Date(Date.now() + backoffMinutes * 60 * 1000);
-        
-        console.log(`🔄 Retrying notification ${notification.id} in ${backoffMinutes} minutes (attempt ${notification.retryCount}/${notification.maxRetries})`);
-      }
+      result = { success: false, error: error?.message ?? 'Unknown delivery error' };
     } finally {
-      this.processing.delete(notification.id);
-      this.updateRateLimit(notification.type);
+      this.updateRateLimit(delivery.channel);
+    }
+
+    if (result.success) {
+      // Landing in the inbox is delivery; the other channels hear back later
+      const delivered = delivery.channel === 'inbox';
+      const sentChanges: DeliveryChanges = {
+        status: delivered ? 'delivered' : 'sent',
+        sentAt: new Date(),
+        deliveredAt: delivered ? new Date() : null,
+        externalId: result.messageId ?? null,
+        providerResponse: { statusCode: result.statusCode ?? null },
+        leasedBy: null,
+        leaseExpiresAt: null,
+        updatedAt: new Date()
+      };
+      const [sent] = await db.update(notificationDeliveries)
+        .set(sentChanges)
+        .where(mine)
+        .returning();
+      if (sent) deliveryTrackingService.trackDelivery(sent);
+      console.log(`✅ Notification sent: ${delivery.id}`);
+      return;
+    }
+
+    const attempts = (delivery.retryCount ?? 0) + 1;
+    const errorCode = result.statusCode ? String(result.statusCode) : null;
+    console.error(`❌ Notification failed: ${delivery.id} (attempt ${attempts})`, result.error);
+
+    const reason = deadLetterReason(attempts, delivery.maxRetries ?? 3, result.statusCode);
+    if (reason) {
+      await this.deadLetter(delivery, reason, attempts, errorCode, result.error ?? null);
+      return;
+    }
+
+    const delayMs = backoffDelay(attempts);
+    const retry: DeliveryChanges = {
+      status: 'queued',
+      retryCount: attempts,
+      nextRetryAt: new Date(Date.now() + delayMs),
+      errorCode,
+      errorMessage: result.error ?? null,
+      leasedBy: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date()
+    };
+    const [retrying] = await db.update(notificationDeliveries)
+      .set(retry)
+      .where(mine)
+      .returning();
+    if (retrying) deliveryTrackingService.trackDelivery(retrying);
+    console.log(`🔄 Retrying notification ${delivery.id} in ${Math.round(delayMs / 1000)}s (attempt ${attempts}/${delivery.maxRetries ?? 3})`);
+  }
+
+  /**
+   * Fail the delivery and record it in the dead-letter table
+   */
+  private async deadLetter(delivery: NotificationDelivery, reason: DeadLetterReason, attempts: number, errorCode: string | null, errorMessage: string | null) {
+    const failure: DeliveryChanges = {
+      status: 'failed',
+      failedAt: new Date(),
+      retryCount: attempts,
+      errorCode,
+      errorMessage,
+      leasedBy: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date()
+    };
+    const [failed] = await db.update(notificationDeliveries)
+      .set(failure)
+      .where(and(eq(notificationDeliveries.id, delivery.id), eq(notificationDeliveries.leasedBy, this.workerId)))
+      .returning();
+    // Lost the lease to another worker - theirs to record
+    if (!failed) return;
+    deliveryTrackingService.trackDelivery(failed);
+
+    const letter: Omit<NotificationDeadLetter, 'id' | 'failedAt' | 'replayedAt' | 'replayedBy' | 'createdAt'> = {
+      deliveryId: delivery.id,
+      userId: delivery.userId,
+      eventId: delivery.eventId,
+      channel: delivery.channel,
+      recipient: delivery.recipient,
+      subject: delivery.subject,
+      reason,
+      attempts,
+      errorCode,
+      errorMessage
+    };
+    await db.insert(notificationDeadLetters).values(letter);
+    console.log(`🪦 Notification ${delivery.id} dead-lettered (${reason})`);
+  }
+
+  /**
+   * When the user's quiet hours end, if this delivery falls inside them.
+   * Urgent alerts and the inbox go straight through.
+   */
+  private async quietHoursEnd(delivery: NotificationDelivery): Promise<Date | null> {
+    if (!delivery.userId || delivery.priority === 'urgent' || !QUIET_HOURS_CHANNELS.includes(delivery.channel)) {
+      return null;
+    }
+    const [preferences] = await db.select({
+      quietHoursStart: notificationPreferences.quietHoursStart,
+      quietHoursEnd: notificationPreferences.quietHoursEnd,
+      timezone: notificationPreferences.timezone
+    })
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, delivery.userId));
+    return preferences ? quietUntil(new Date(), preferences) : null;
+  }
+
+  /**
+   * Record what a browser reported about a push it received: shown, or
+   * clicked. Only the user the push was for can report on it.
+   */
+  async recordPushReceipt(userId: string, deliveryId: number, receipt: 'delivered' | 'clicked'): Promise<boolean> {
+    const deliveredAt = sql`coalesce(${notificationDeliveries.deliveredAt}, now())`;
+    const changes: DeliveryChanges = receipt === 'clicked'
+      ? { status: 'clicked', clickedAt: new Date(), deliveredAt, updatedAt: new Date() }
+      // The click can be reported before the display; it is not undone
+      : { status: sql`case when ${notificationDeliveries.status} = 'sent' then 'delivered' else ${notificationDeliveries.status} end`, deliveredAt, updatedAt: new Date() };
+    const [updated] = await db.update(notificationDeliveries)
+      .set(changes)
+      .where(and(
+        eq(notificationDeliveries.id, deliveryId),
+        eq(notificationDeliveries.userId, userId),
+        eq(notificationDeliveries.channel, 'push')
+      ))
+      .returning();
+    if (!updated) return false;
+    deliveryTrackingService.trackDelivery(updated);
+    return true;
+  }
+
+  async listDeadLetters(filters: DeadLetterFilters = {}): Promise<NotificationDeadLetter[]> {
+    const conditions = [];
+    if (filters.reason) conditions.push(eq(notificationDeadLetters.reason, filters.reason));
+    if (filters.channel) conditions.push(eq(notificationDeadLetters.channel, filters.channel));
+    if (!filters.includeReplayed) conditions.push(isNull(notificationDeadLetters.replayedAt));
+
+    return db.select().from(notificationDeadLetters)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(notificationDeadLetters.failedAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  /**
+   * Put a dead letter's delivery back on the queue with a fresh set of
+   * retries. The expiry is dropped - the admin asked for it to go out.
+   * The dead letter is claimed first, so of two concurrent replays only
+   * one re-queues the delivery.
+   */
+  async replayDeadLetter(id: number, actor: string): Promise<NotificationDeadLetter | null> {
+    return db.transaction(async tx => {
+      const replay: Partial<NotificationDeadLetter> = { replayedAt: new Date(), replayedBy: actor };
+      const [replayed] = await tx.update(notificationDeadLetters)
+        .set(replay)
+        .where(and(eq(notificationDeadLetters.id, id), isNull(notificationDeadLetters.replayedAt)))
+        .returning();
+      if (!replayed) {
+        const [letter] = await tx.select({ id: notificationDeadLetters.id })
+          .from(notificationDeadLetters)
+          .where(eq(notificationDeadLetters.id, id));
+        if (!letter) return null;
+        throw new NotificationQueueError(`Dead letter ${id} was already replayed`);
+      }
+
+      const requeued: DeliveryChanges = {
+        status: 'queued',
+        retryCount: 0,
+        nextRetryAt: null,
+        expiresAt: null,
+        failedAt: null,
+        errorCode: null,
+        errorMessage: null,
+        updatedAt: new Date()
+      };
+      await tx.update(notificationDeliveries)
+        .set(requeued)
+        .where(eq(notificationDeliveries.id, replayed.deliveryId));
+      return replayed;
+    });
+  }
+
+  /**
+   * Delete dead letters by ID or everything that failed before a date.
+   * The failed deliveries themselves stay as history.
+   */
+  async purgeDeadLetters(options: { ids?: number[]; before?: Date }): Promise<number> {
+    if (!options.ids?.length && !options.before) {
+      throw new NotificationQueueError('Purging needs dead letter IDs or a cutoff date');
     }
+    const conditions = [];
+    if (options.ids?.length) conditions.push(inArray(notificationDeadLetters.id, options.ids));
+    if (options.before) conditions.push(lt(notificationDeadLetters.failedAt, options.before));
+
+    const deleted = await db.delete(notificationDeadLetters)
+      .where(and(...conditions))
+      .returning({ id: notificationDeadLetters.id });
+    return deleted.length;
   }
 
   /**
-   * Get remaining rate limit for type
+   * Get remaining rate limit for a channel in the current minute
    */
-  private getRemainingRateLimit(type: 'email' | 'sms'): number {
-    const now = Date.now();
-    const oneMinuteAgo = now - 60 * 1000;
-    
-    if (this.lastProcessed[type] < oneMinuteAgo) {
-      // Reset counter if more than a minute has passed
-      return this.rateLimits[type];
+  private getRemainingRateLimit(channel: string): number {
+    if (Date.now() - this.window.startedAt >= 60 * 1000) {
+      this.window = { startedAt: Date.now(), sent: {} };
     }
-    
-    // Calculate based on current processing
-    const currentProcessing = Array.from(this.processing.values()).filter(id => {
-      const notification = this.queue.get(id);
-      return notification?.type === type;
-    }).length;
-    
-    return Math.max(0, this.rateLimits[type] - currentProcessing);
+    return Math.max(0, (this.rateLimits[channel] ?? 0) - (this.window.sent[channel] ?? 0));
   }
 
   /**
    * Update rate limit tracking
    */
-  private updateRateLimit(type: 'email' | 'sms') {
-    this.lastProcessed[type] = Date.now();
+  private updateRateLimit(channel: string) {
+    this.window.sent[channel] = (this.window.sent[channel] ?? 0) + 1;
   }
 
   /**
-   * Get queue statistics
+   * Get queue statistics: everything waiting or in flight, and the last
+   * 24 hours of outcomes
    */
-  getQueueStats(): NotificationQueueStats {
-    const queued = this.queue.size;
-    const processing = this.processing.size;
-    const completedEntries = Array.from(this.completed.values());
-    const failedEntries = Array.from(this.failed.values());
-    
-    const totalProcessed = completedEntries.length + failedEntries.length;
-    const successful = completedEntries.length;
-    
-    const averageProcessingTime = completedEntries.length > 0
-      ? completedEntries.reduce((sum, entry) => sum + entry.processingTime, 0) / completedEntries.length
-      : 0;
-    
-    const successRate = totalProcessed > 0 ? (successful / totalProcessed) * 100 : 0;
+  async getQueueStats(): Promise<NotificationQueueStats> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const rows = await db
+      .select({
+        status: notificationDeliveries.status,
+        count: sql<number>`count(*)::int`,
+        averageMs: sql<number>`coalesce(avg(extract(epoch from (${notificationDeliveries.sentAt} - ${notificationDeliveries.queuedAt})) * 1000), 0)::float`
+      })
+      .from(notificationDeliveries)
+      .where(or(
+        inArray(notificationDeliveries.status, ['queued', 'sending']),
+        gte(notificationDeliveries.queuedAt, since)
+      ))
+      .groupBy(notificationDeliveries.status);
+    const [deadLetters] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notificationDeadLetters)
+      .where(isNull(notificationDeadLetters.replayedAt));
+
+    const count = (statuses: string[]) => rows
+      .filter(row => statuses.includes(row.status))
+      .reduce((sum, row) => sum + row.count, 0);
+    const completed = count(COMPLETED_STATUSES);
+    const failed = count(FAILED_STATUSES);
+    const totalProcessed = completed + failed;
+    const sentRows = rows.filter(row => COMPLETED_STATUSES.includes(row.status));
 
     return {
-      queued,
-      processing,
-      completed: successful,
-      failed: failedEntries.length,
+      queued: count(['queued']),
+      processing: count(['sending']),
+      completed,
+      failed,
+      deadLetters: deadLetters?.count ?? 0,
       totalProcessed,
-      averageProcessingTime,
-      successRate
+      averageProcessingTime: completed > 0
+        ? sentRows.reduce((sum, row) => sum + row.averageMs * row.count, 0) / completed
+        : 0,
+      successRate: totalProcessed > 0 ? (completed / totalProcessed) * 100 : 0
     };
   }
 
   /**
    * Get detailed queue status
    */
-  getDetailedStatus() {
+  async getDetailedStatus() {
+    const [stats, queuedNotifications, recentDeadLetters] = await Promise.all([
+      this.getQueueStats(),
+      db.select().from(notificationDeliveries)
+        .where(inArray(notificationDeliveries.status, ['queued', 'sending']))
+        .orderBy(notificationDeliveries.queuedAt)
+        .limit(50),
+      this.listDeadLetters({ limit: 10 })
+    ]);
     return {
-      stats: this.getQueueStats(),
-      queuedNotifications: Array.from(this.queue.values()),
-      recentCompleted: Array.from(this.completed.entries()).slice(-10),
-      recentFailed: Array.from(this.failed.entries()).slice(-10),
+      stats,
+      queuedNotifications,
+      recentDeadLetters,
       rateLimits: this.rateLimits,
-      isProcessing: this.isProcessing
+      isProcessing: this.isProcessing,
+      workerId: this.workerId
     };
   }
 
-  /**
-   * Clear completed and failed entries (cleanup task)
-   */
-  private startCleanupTask() {
-    setInterval(() => {
-      const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-      
-      // Clean completed entries older than 1 hour
-      for (const [id, entry] of this.completed.entries()) {
-        if (entry.timestamp < oneHourAgo) {
-          this.completed.delete(id);
-        }
-      }
-      
-      // Clean failed entries older than 1 hour
-      for (const [id, entry] of this.failed.entries()) {
-        if (entry.timestamp < oneHourAgo) {
-          this.failed.delete(id);
-        }
-      }
-      
-      // Remove expired notifications from queue
-      for (const [id, notification] of this.queue.entries()) {
-        if (notification.expiresAt && notification.expiresAt < new Date()) {
-          this.queue.delete(id);
-          console.log(`🗑️ Expired notification removed: ${id}`);
-        }
-      }
-    }, 15 * 60 * 1000); // Every 15 minutes
-  }
-
   /**
    * Generate event-based content
    */
@@ -401,6 +723,8 @@ export class NotificationQueueService {
         return `🚨 Breaking Election News`;
       case 'deadline_reminder':
         return `⏰ Election Deadline Reminder`;
+      case 'bill_update':
+        return `📜 Bill Update: ${(event.eventData as { billLabel?: string }).billLabel}`;
       default:
         return 'Election Tracker Alert';
     }
@@ -417,27 +741,39 @@ export class NotificationQueueService {
     </div>`;
   }
 
-  private generateSMSFromEvent(event: NotificationEvent): string {
-    const emoji = event.eventType === 'election_result' ? '🗳️' : 
-                  event.eventType === 'breaking_news' ? '🚨' : 
-                  event.eventType === 'deadline_reminder' ? '⏰' : '📢';
-    
-    return `${emoji} ${event.eventData.message || 'Election update'}\n\nReply STOP to unsubscribe`;
-  }
-
   /**
-   * Generate unique ID
+   * Title, body and link for push and the inbox
    */
-  private generateId(): string {
-    return `notification_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private generateInAppFromEvent(event: NotificationEvent) {
+    return {
+      subject: this.generateSubjectFromEvent(event),
+      message: this.generateTextFromEvent(event),
+      templateData: {
+        url: event.relatedElectionId ? `/elections/${event.relatedElectionId}` : '/',
+        eventType: event.eventType
+      }
+    };
+  }
+
+  private generateSMSFromEvent(event: NotificationEvent): string {
+    const emoji = event.eventType === 'election_result' ? '🗳️' :
+                  event.eventType === 'breaking_news' ? '🚨' :
+                  event.eventType === 'deadline_reminder' ? '⏰' :
+                  event.eventType === 'bill_update' ? '📜' : '📢';
+
+    return `${emoji} ${event.eventData.message || 'Election update'}\n\nReply STOP to unsubscribe`;
   }
 
   /**
-   * Cancel queued notification
+   * Cancel a notification that has not been leased yet
    */
-  cancelNotification(id: string): boolean {
-    if (this.queue.has(id) && !this.processing.has(id)) {
-      this.queue.delete(id);
+  async cancelNotification(id: string): Promise<boolean> {
+    const changes: DeliveryChanges = { status: 'cancelled', updatedAt: new Date() };
+    const cancelled = await db.update(notificationDeliveries)
+      .set(changes)
+      .where(and(eq(notificationDeliveries.id, Number(id)), eq(notificationDeliveries.status, 'queued')))
+      .returning({ id: notificationDeliveries.id });
+    if (cancelled.length > 0) {
       console.log(`❌ Notification cancelled: ${id}`);
       return true;
     }
@@ -456,4 +792,4 @@ export class NotificationQueueService {
 
 // Export singleton instance
 export const notificationQueueService = new NotificationQueueService();
-export default notificationQueueService;
\ No newline at end of file
+export default notificationQueueService;
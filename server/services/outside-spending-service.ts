@@ -0,0 +1,401 @@
+/**
+ * Outside Spending Service
+ * Ingests independent expenditures - the FEC independent expenditure
+ * bulk file from disk and, between bulk loads, 24- and 48-hour notices
+ * from the OpenFEC Schedule E endpoint - attributes them to federal races
+ * and candidates, serves each race's outside spending, and raises an
+ * outside-spending alert through the alert engine when a race's total
+ * crosses a threshold.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { db } from '../db';
+import { and, eq, gte, inArray, lte, sql, type SQL } from 'drizzle-orm';
+import { candidates, elections, fecBulkFiles, independentExpenditures } from '@shared/schema';
+import type { Election, FecBulkFile, IndependentExpenditure } from '@shared/schema';
+import { parseCsvLines } from '../lib/csv';
+import { cycleForYear, fecSeatForElection } from '../lib/fec-bulk';
+import {
+  attributeExpenditure,
+  crossedThreshold,
+  parseExpenditureCsvRow,
+  parseScheduleE,
+  summarizeOutsideSpending,
+  type ExpenditureRecord,
+  type OutsideSpendingSummary,
+  type RaceForAttribution
+} from '../lib/outside-spending';
+import { alertEngineService } from './alert-engine-service';
+
+/** Bad request data - reported back as a 400 */
+export class OutsideSpendingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutsideSpendingError';
+  }
+}
+
+export interface ExpenditureIngestReport {
+  source: string;
+  status: 'loaded' | 'unchanged';
+  rows: number;
+  attributed: number;
+  alerts: number;
+}
+
+export interface RaceOutsideSpending extends OutsideSpendingSummary {
+  electionId: number;
+  cycle: number;
+  lastExpenditureDate: string | null;
+}
+
+// New rows: the columns without defaults, plus any others
+type NewBulkFile = Pick<FecBulkFile, 'cycle' | 'kind' | 'fileName' | 'signature'> & Partial<FecBulkFile>;
+type NewExpenditure = Pick<IndependentExpenditure, 'committeeId' | 'transactionId' | 'cycle' | 'spenderName' | 'supportOppose' | 'amount'>
+  & Partial<IndependentExpenditure>;
+
+const API_BASE_URL = 'https://api.open.fec.gov/v1';
+const BATCH_SIZE = 500;
+const DEFAULT_THRESHOLDS = [1_000_000, 5_000_000, 10_000_000, 25_000_000];
+
+function toDate(value: string | null): Date | null {
+  return value ? new Date(`${value}T00:00:00Z`) : null;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export class OutsideSpendingService {
+  private pollingInterval: NodeJS.Timeout | null = null;
+
+  get directory(): string {
+    return process.env.FEC_BULK_DIR || path.join(process.cwd(), 'data', 'fec');
+  }
+
+  /** Race totals that raise an alert as they are crossed */
+  get thresholds(): number[] {
+    const configured = (process.env.OUTSIDE_SPENDING_ALERT_THRESHOLDS || '')
+      .split(',')
+      .map(value => Number(value.trim()))
+      .filter(value => Number.isFinite(value) && value > 0);
+    return configured.length > 0 ? configured : DEFAULT_THRESHOLDS;
+  }
+
+  // ============================================================================
+  // INGEST
+  // ============================================================================
+
+  /**
+   * Load a cycle's independent_expenditure_{cycle}.csv, skipping it when
+   * unchanged since the last load
+   */
+  async ingestBulkFile(cycle: number): Promise<ExpenditureIngestReport> {
+    if (!Number.isInteger(cycle) || cycle % 2 !== 0) {
+      throw new OutsideSpendingError('Cycle must be an even year');
+    }
+    const cycleDir = path.join(this.directory, String(cycle));
+    const names = await fs.readdir(cycleDir).catch((error: any) => {
+      if (error?.code === 'ENOENT') return [] as string[];
+      throw error;
+    });
+    const fileName = names.find(name => /^independent_expenditure.*\.csv$/i.test(name));
+    if (!fileName) {
+      throw new OutsideSpendingError(`No independent expenditure file for ${cycle} in ${cycleDir}`);
+    }
+
+    const file = path.join(cycleDir, fileName);
+    const stat = await fs.stat(file);
+    const signature = `${stat.size}:${Math.round(stat.mtimeMs)}`;
+    const [previous] = await db.select().from(fecBulkFiles)
+      .where(and(eq(fecBulkFiles.cycle, cycle), eq(fecBulkFiles.fileName, fileName)));
+    if (previous?.signature === signature) {
+      return { source: fileName, status: 'unchanged', rows: 0, attributed: 0, alerts: 0 };
+    }
+
+    // Parsed records are a fraction of the raw file, which is never held whole
+    const records: ExpenditureRecord[] = [];
+    const lines = readline.createInterface({ input: createReadStream(file, { encoding: 'utf8' }), crlfDelay: Infinity });
+    for await (const row of parseCsvLines(lines)) {
+      const record = parseExpenditureCsvRow(row, cycle);
+      if (record) records.push(record);
+    }
+    const { attributed, alerts } = await this.store(records);
+
+    const values: Partial<FecBulkFile> = { kind: 'ie', signature, rowCount: records.length, ingestedAt: new Date() };
+    const ingested: NewBulkFile = { ...values, cycle, fileName, kind: 'ie', signature };
+    await db.insert(fecBulkFiles)
+      .values(ingested)
+      .onConflictDoUpdate({ target: [fecBulkFiles.cycle, fecBulkFiles.fileName], set: values });
+    return { source: fileName, status: 'loaded', rows: records.length, attributed, alerts };
+  }
+
+  /**
+   * Fetch 24- and 48-hour notices filed in the last few days. Re-fetching
+   * is harmless: notices are keyed by spender transaction.
+   */
+  async syncNotices(options: { days?: number; maxPages?: number } = {}): Promise<ExpenditureIngestReport> {
+    const apiKey = process.env.OPENFEC_API_KEY;
+    if (!apiKey) {
+      throw new OutsideSpendingError('OPENFEC_API_KEY is not configured');
+    }
+    const days = options.days ?? 3;
+    const maxPages = options.maxPages ?? 20;
+    const minDate = isoDate(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+    const cycle = cycleForYear(new Date().getUTCFullYear());
+
+    const records: ExpenditureRecord[] = [];
+    let lastIndex: string | null = null;
+    let lastDate: string | null = null;
+    for (let page = 0; page < maxPages; page++) {
+      const params = new URLSearchParams({ api_key: apiKey, is_notice: 'true', min_date: minDate, per_page: '100', sort: '-expenditure_date' });
+      if (lastIndex) params.set('last_index', lastIndex);
+      if (lastDate) params.set('last_expenditure_date', lastDate);
+
+      const response = await fetch(`${API_BASE_URL}/schedules/schedule_e/?${params}`);
+      if (!response.ok) {
+        throw new Error(`OpenFEC Schedule E request failed: ${response.status} ${response.statusText}`);
+      }
+      const body = await response.json();
+      const results: any[] = body.results ?? [];
+      records.push(...results.map(item => parseScheduleE(item, cycle)).filter((r): r is ExpenditureRecord => r !== null));
+
+      const next = body.pagination?.last_indexes;
+      if (results.length === 0 || !next?.last_index) break;
+      lastIndex = String(next.last_index);
+      lastDate = next.last_expenditure_date ?? null;
+    }
+
+    const { attributed, alerts } = await this.store(records);
+    return { source: 'schedule_e_notices', status: 'loaded', rows: records.length, attributed, alerts };
+  }
+
+  startPolling(intervalMinutes: number = 30): void {
+    if (this.pollingInterval || !process.env.OPENFEC_API_KEY) return;
+    const run = () => this.syncNotices().catch(error => console.error('[Outside Spending] Notice sync failed:', error));
+    run();
+    this.pollingInterval = setInterval(run, intervalMinutes * 60 * 1000);
+  }
+
+  stopPolling(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+  }
+
+  /** Federal races in the given cycles, with their candidates' FEC IDs */
+  private async racesFor(cycles: number[]): Promise<RaceForAttribution[]> {
+    if (cycles.length === 0) return [];
+    const first = Math.min(...cycles) - 1;
+    const last = Math.max(...cycles);
+    const federal = await db.select().from(elections)
+      .where(and(
+        sql`lower(${elections.level}) = 'federal'`,
+        gte(elections.date, new Date(Date.UTC(first, 0, 1))),
+        lte(elections.date, new Date(Date.UTC(last, 11, 31, 23, 59, 59)))
+      ));
+    if (federal.length === 0) return [];
+
+    const raceCandidates = await db.select({ id: candidates.id, electionId: candidates.electionId, fecCandidateId: candidates.fecCandidateId })
+      .from(candidates)
+      .where(inArray(candidates.electionId, federal.map(e => e.id)));
+
+    return federal.map(election => ({
+      electionId: election.id,
+      type: election.type,
+      date: isoDate(new Date(election.date)),
+      cycle: cycleForYear(new Date(election.date).getUTCFullYear()),
+      seat: fecSeatForElection(election),
+      candidates: raceCandidates
+        .filter(c => c.electionId === election.id)
+        .map(c => ({ candidateId: c.id, fecCandidateId: c.fecCandidateId }))
+    }));
+  }
+
+  private async totalsByElection(electionIds: number[]): Promise<Map<number, number>> {
+    if (electionIds.length === 0) return new Map();
+    const rows = await db.select({
+      electionId: independentExpenditures.electionId,
+      total: sql<string>`sum(${independentExpenditures.amount})`
+    })
+      .from(independentExpenditures)
+      .where(inArray(independentExpenditures.electionId, electionIds))
+      .groupBy(independentExpenditures.electionId);
+    return new Map(rows.map(row => [row.electionId!, Number(row.total)]));
+  }
+
+  /**
+   * Attribute and upsert expenditures. A stored regular filing is only
+   * replaced by a later regular filing; a stored notice by anything.
+   */
+  private async store(records: ExpenditureRecord[]): Promise<{ attributed: number; alerts: number }> {
+    const races = await this.racesFor(Array.from(new Set(records.map(r => r.cycle))));
+    const rows = records.map(record => ({ record, attribution: attributeExpenditure(record, races) }));
+    const touched = Array.from(new Set(rows.map(r => r.attribution?.electionId).filter((id): id is number => id != null)));
+    const before = await this.totalsByElection(touched);
+
+    const now = new Date();
+    // Columns a later filing replaces - everything but the key and createdAt
+    const replaced: { [K in keyof IndependentExpenditure]?: IndependentExpenditure[K] | SQL } = {
+      cycle: sql`excluded.cycle`,
+      spenderName: sql`excluded.spender_name`,
+      fecCandidateId: sql`excluded.fec_candidate_id`,
+      candidateName: sql`excluded.candidate_name`,
+      candidateOffice: sql`excluded.candidate_office`,
+      candidateState: sql`excluded.candidate_state`,
+      candidateDistrict: sql`excluded.candidate_district`,
+      electionType: sql`excluded.election_type`,
+      supportOppose: sql`excluded.support_oppose`,
+      amount: sql`excluded.amount`,
+      expenditureDate: sql`excluded.expenditure_date`,
+      disseminationDate: sql`excluded.dissemination_date`,
+      purpose: sql`excluded.purpose`,
+      payee: sql`excluded.payee`,
+      reportType: sql`excluded.report_type`,
+      isNotice: sql`excluded.is_notice`,
+      fileNumber: sql`excluded.file_number`,
+      electionId: sql`excluded.election_id`,
+      candidateId: sql`excluded.candidate_id`,
+      updatedAt: now
+    };
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const batch: NewExpenditure[] = rows.slice(i, i + BATCH_SIZE).map(({ record, attribution }) => ({
+        ...record,
+        amount: record.amount.toFixed(2),
+        expenditureDate: toDate(record.expenditureDate),
+        disseminationDate: toDate(record.disseminationDate),
+        electionId: attribution?.electionId ?? null,
+        candidateId: attribution?.candidateId ?? null,
+        updatedAt: now
+      }));
+      await db.insert(independentExpenditures)
+        .values(batch)
+        .onConflictDoUpdate({
+          target: [independentExpenditures.committeeId, independentExpenditures.transactionId],
+          set: replaced,
+          setWhere: sql`${independentExpenditures.isNotice} OR (NOT excluded.is_notice AND coalesce(excluded.file_number, 0) >= coalesce(${independentExpenditures.fileNumber}, 0))`
+        });
+    }
+
+    const after = await this.totalsByElection(touched);
+    let alerts = 0;
+    for (const electionId of touched) {
+      const previousTotal = before.get(electionId) ?? 0;
+      const total = after.get(electionId) ?? 0;
+      const threshold = crossedThreshold(previousTotal, total, this.thresholds);
+      if (threshold !== null && await this.raiseThresholdAlert(electionId, threshold, previousTotal, total)) {
+        alerts++;
+      }
+    }
+
+    return { attributed: rows.filter(r => r.attribution).length, alerts };
+  }
+
+  private async raiseThresholdAlert(electionId: number, threshold: number, previousTotal: number, total: number): Promise<boolean> {
+    try {
+      const [election] = await db.select().from(elections).where(eq(elections.id, electionId));
+      if (!election) return false;
+      const summary = await this.getRaceOutsideSpending(electionId);
+      const topSpender = summary?.bySpender[0];
+      await alertEngineService.processEvent('outside_spending', {
+        id: `${electionId}:${threshold}`,
+        election_id: electionId,
+        threshold,
+        total,
+        previous_total: previousTotal,
+        support: summary?.support ?? 0,
+        oppose: summary?.oppose ?? 0,
+        top_spender: topSpender?.name ?? null,
+        top_spender_total: topSpender?.total ?? null
+      }, {
+        election: election as Election,
+        timestamp: new Date(),
+        source: 'fec_independent_expenditures'
+      });
+      return true;
+    } catch (error) {
+      console.error(`[Outside Spending] Failed to raise alert for election ${electionId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Re-attribute a cycle's expenditures, after candidates have been linked
+   * to FEC IDs or races added
+   */
+  async reattribute(cycle: number): Promise<{ checked: number; attributed: number }> {
+    const races = await this.racesFor([cycle]);
+    const rows = await db.select().from(independentExpenditures).where(eq(independentExpenditures.cycle, cycle));
+    let attributed = 0;
+    for (const row of rows) {
+      const attribution = attributeExpenditure({
+        ...row,
+        expenditureDate: row.expenditureDate ? isoDate(row.expenditureDate) : null,
+        disseminationDate: row.disseminationDate ? isoDate(row.disseminationDate) : null
+      }, races);
+      if (attribution) attributed++;
+      if ((attribution?.electionId ?? null) !== row.electionId || (attribution?.candidateId ?? null) !== row.candidateId) {
+        const changes: Partial<IndependentExpenditure> = {
+          electionId: attribution?.electionId ?? null,
+          candidateId: attribution?.candidateId ?? null,
+          updatedAt: new Date()
+        };
+        await db.update(independentExpenditures)
+          .set(changes)
+          .where(eq(independentExpenditures.id, row.id));
+      }
+    }
+    return { checked: rows.length, attributed };
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  /** A race's outside spending by candidate, spender and week */
+  async getRaceOutsideSpending(electionId: number): Promise<RaceOutsideSpending | null> {
+    const [election] = await db.select().from(elections).where(eq(elections.id, electionId));
+    if (!election) return null;
+    if (!fecSeatForElection(election)) {
+      throw new OutsideSpendingError('Election is not a federal race');
+    }
+
+    const rows = await db.select({
+      committeeId: independentExpenditures.committeeId,
+      spenderName: independentExpenditures.spenderName,
+      candidateId: independentExpenditures.candidateId,
+      fecCandidateId: independentExpenditures.fecCandidateId,
+      candidateName: independentExpenditures.candidateName,
+      supportOppose: independentExpenditures.supportOppose,
+      amount: independentExpenditures.amount,
+      isNotice: independentExpenditures.isNotice,
+      expenditureDate: independentExpenditures.expenditureDate,
+      ourCandidateName: candidates.name
+    })
+      .from(independentExpenditures)
+      .leftJoin(candidates, eq(independentExpenditures.candidateId, candidates.id))
+      .where(eq(independentExpenditures.electionId, electionId));
+
+    const expenditures = rows.map(row => ({
+      ...row,
+      candidateName: row.ourCandidateName ?? row.candidateName,
+      supportOppose: row.supportOppose === 'oppose' ? 'oppose' as const : 'support' as const,
+      amount: Number(row.amount),
+      isNotice: !!row.isNotice,
+      expenditureDate: row.expenditureDate ? isoDate(row.expenditureDate) : null
+    }));
+    const dates = expenditures.map(e => e.expenditureDate).filter((d): d is string => !!d).sort();
+
+    return {
+      electionId,
+      cycle: cycleForYear(new Date(election.date).getUTCFullYear()),
+      lastExpenditureDate: dates[dates.length - 1] ?? null,
+      ...summarizeOutsideSpending(expenditures)
+    };
+  }
+}
+
+export const outsideSpendingService = new OutsideSpendingService();
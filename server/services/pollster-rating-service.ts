@@ -0,0 +1,334 @@
+/**
+ * Pollster Rating Service
+ *
+ * Maintains the pollster registry (canonical names + aliases), scores each
+ * pollster's historical accuracy against certified results and estimates
+ * house effects relative to the polling consensus.
+ */
+
+import { db, pool } from '../db';
+import { pollsters, pollsterHouseEffects } from '@shared/schema';
+import type { Pollster, PollsterHouseEffect } from '@shared/schema';
+import { and, eq, asc, notInArray } from 'drizzle-orm';
+import {
+  normalizePopulation,
+  toPartyCode,
+  type PollObservation
+} from '../lib/polling-average';
+import {
+  estimateHouseEffects,
+  normalizePollsterName,
+  scorePollster,
+  type HouseEffectEstimate,
+  type PollAccuracyRecord
+} from '../lib/pollster-ratings';
+
+export interface PollsterInput {
+  name: string;
+  aliases?: string[];
+  methodology?: string | null;
+  isPartisanSponsor?: boolean;
+  sponsorParty?: string | null;
+  website?: string | null;
+}
+
+// Only polls finishing within this many days of election day count as "final"
+const FINAL_POLL_WINDOW_DAYS = 21;
+
+// SQL twin of normalizePollsterName - keep the two in step
+export const POLLSTER_NAME_SQL = (column: string) =>
+  `btrim(regexp_replace(replace(lower(${column}), '&', ' and '), '[^a-z0-9]+', ' ', 'g'))`;
+
+/**
+ * Lateral join resolving a poll's free-text pollster to its registry row
+ */
+export const pollsterJoinSql = (pollsterColumn: string, alias: string = 'ps') => `
+  LEFT JOIN LATERAL (
+    SELECT id, grade FROM pollsters
+    WHERE ${POLLSTER_NAME_SQL(pollsterColumn)} = ANY(pollsters.aliases)
+    ORDER BY id
+    LIMIT 1
+  ) ${alias} ON true`;
+
+export const partyCodeSql = (column: string) => `
+  CASE
+    WHEN lower(${column}) = 'd' OR lower(${column}) LIKE '%democrat%' THEN 'D'
+    WHEN lower(${column}) = 'r' OR lower(${column}) LIKE '%republican%' THEN 'R'
+    ELSE 'I'
+  END`;
+
+export class PollsterRatingService {
+  async listPollsters(): Promise<Pollster[]> {
+    return db.select().from(pollsters).orderBy(asc(pollsters.name));
+  }
+
+  async getPollster(id: number): Promise<Pollster | undefined> {
+    const [pollster] = await db.select().from(pollsters).where(eq(pollsters.id, id));
+    return pollster;
+  }
+
+  async getHouseEffects(pollsterId: number): Promise<PollsterHouseEffect[]> {
+    return db.select().from(pollsterHouseEffects).where(eq(pollsterHouseEffects.pollsterId, pollsterId));
+  }
+
+  /**
+   * Resolve any spelling of a pollster name to its registry entry
+   */
+  async resolvePollster(name: string): Promise<Pollster | undefined> {
+    const normalized = normalizePollsterName(name);
+    const all = await this.listPollsters();
+    return all.find(p => p.aliases.includes(normalized));
+  }
+
+  /**
+   * Create or update a registry entry. The canonical name is always
+   * included in the (normalized) alias list.
+   */
+  async registerPollster(input: PollsterInput): Promise<Pollster> {
+    const aliases = Array.from(new Set(
+      [input.name, ...(input.aliases || [])].map(normalizePollsterName).filter(Boolean)
+    ));
+
+    const [pollster] = await db
+      .insert(pollsters)
+      .values({ ...input, aliases })
+      .onConflictDoUpdate({
+        target: pollsters.name,
+        set: {
+          aliases,
+          methodology: input.methodology,
+          isPartisanSponsor: input.isPartisanSponsor,
+          sponsorParty: input.sponsorParty,
+          website: input.website,
+          updatedAt: new Date()
+        } as any
+      })
+      .returning();
+
+    return pollster;
+  }
+
+  /**
+   * Add any pollster seen in the polls table that the registry can't resolve
+   */
+  async registerUnknownPollsters(): Promise<number> {
+    const { rows } = await pool.query(`
+      SELECT DISTINCT ON (${POLLSTER_NAME_SQL('p.pollster')}) p.pollster
+      FROM polls p
+      ${pollsterJoinSql('p.pollster')}
+      WHERE ps.id IS NULL
+    `);
+
+    for (const row of rows) {
+      await this.registerPollster({ name: row.pollster, aliases: [] });
+    }
+    return rows.length;
+  }
+
+  /**
+   * Final pre-election polls compared with certified results.
+   * Margins use the top two certified finishers.
+   */
+  async getAccuracyRecords(): Promise<PollAccuracyRecord[]> {
+    const { rows } = await pool.query(`
+      WITH finished AS (
+        SELECT e.id AS election_id, e.date::date AS election_date
+        FROM elections e
+        JOIN election_results er ON er.election_id = e.id
+        WHERE er.is_complete = true
+      ),
+      final_polls AS (
+        SELECT DISTINCT ON (p.election_id, ${POLLSTER_NAME_SQL('p.pollster')})
+               p.id, p.election_id, p.pollster, p.end_date
+        FROM polls p
+        JOIN finished f ON f.election_id = p.election_id
+        WHERE p.end_date <= f.election_date
+          AND p.end_date >= f.election_date - ($1::int * INTERVAL '1 day')
+        ORDER BY p.election_id, ${POLLSTER_NAME_SQL('p.pollster')}, p.end_date DESC, p.id DESC
+      )
+      SELECT fp.id AS poll_id, fp.election_id, fp.pollster, fp.end_date,
+             c.id AS candidate_id, c.party,
+             c.vote_percentage::float AS actual_pct,
+             pr.pct::float AS poll_pct
+      FROM final_polls fp
+      JOIN candidates c ON c.election_id = fp.election_id AND c.vote_percentage IS NOT NULL
+      JOIN poll_results pr ON pr.poll_id = fp.id AND pr.candidate_id = c.id
+    `, [FINAL_POLL_WINDOW_DAYS]);
+
+    const byPoll = new Map<number, any[]>();
+    for (const row of rows) {
+      const list = byPoll.get(row.poll_id) ?? [];
+      list.push(row);
+      byPoll.set(row.poll_id, list);
+    }
+
+    const records: PollAccuracyRecord[] = [];
+    for (const [pollId, results] of Array.from(byPoll.entries())) {
+      if (results.length < 2) continue;
+      const [first, second] = [...results].sort((a, b) => b.actual_pct - a.actual_pct);
+
+      const dem = results.find(r => toPartyCode(r.party) === 'D');
+      const rep = results.find(r => toPartyCode(r.party) === 'R');
+      const demMarginError = dem && rep
+        ? (dem.poll_pct - rep.poll_pct) - (dem.actual_pct - rep.actual_pct)
+        : null;
+
+      records.push({
+        electionId: first.election_id,
+        pollId,
+        pollster: first.pollster,
+        endDate: new Date(first.end_date),
+        pollMargin: first.poll_pct - second.poll_pct,
+        actualMargin: first.actual_pct - second.actual_pct,
+        demMarginError
+      });
+    }
+
+    return records;
+  }
+
+  /**
+   * Recompute accuracy statistics and grades for every registered pollster.
+   * Pollsters are scored against the field-wide average error, shrunk toward
+   * zero when they have few rated polls.
+   */
+  async recomputeRatings(): Promise<Pollster[]> {
+    await this.registerUnknownPollsters();
+    const [registry, records] = await Promise.all([this.listPollsters(), this.getAccuracyRecords()]);
+
+    if (records.length === 0) return registry;
+
+    const errors = records.map(r => Math.abs(r.pollMargin - r.actualMargin));
+    const fieldMeanError = errors.reduce((sum, e) => sum + e, 0) / errors.length;
+    const now = new Date();
+
+    for (const pollster of registry) {
+      const own = records.filter(r => pollster.aliases.includes(normalizePollsterName(r.pollster)));
+      const score = scorePollster(own, fieldMeanError, pollster.isPartisanSponsor ?? false);
+      if (!score) continue;
+
+      await db
+        .update(pollsters)
+        .set({
+          ratedPollCount: score.ratedPollCount,
+          meanAbsoluteError: score.meanAbsoluteError.toString(),
+          meanSignedError: score.meanSignedError !== null ? score.meanSignedError.toString() : null,
+          plusMinus: score.plusMinus.toString(),
+          grade: score.grade,
+          ratingsUpdatedAt: now,
+          updatedAt: now
+        } as any)
+        .where(eq(pollsters.id, pollster.id));
+    }
+
+    return this.listPollsters();
+  }
+
+  /**
+   * Load candidate-level poll results across elections for house-effect work
+   */
+  private async loadObservations(windowDays: number, electionId?: number): Promise<PollObservation[]> {
+    const params: any[] = [windowDays];
+    let electionFilter = '';
+    if (electionId) {
+      params.push(electionId);
+      electionFilter = 'AND p.election_id = $2';
+    }
+
+    const { rows } = await pool.query(`
+      SELECT p.id AS poll_id, p.pollster, p.end_date, p.sample_size, p.population,
+             p.margin_of_error::float AS margin_of_error,
+             COALESCE(ps.grade, p.pollster_grade) AS pollster_grade,
+             c.id AS candidate_id, c.name AS candidate_name, c.party,
+             pr.pct::float AS pct
+      FROM polls p
+      JOIN poll_results pr ON pr.poll_id = p.id
+      JOIN candidates c ON c.id = pr.candidate_id
+      ${pollsterJoinSql('p.pollster')}
+      WHERE p.end_date >= current_date - ($1::int * INTERVAL '1 day')
+      ${electionFilter}
+    `, params);
+
+    return rows.map(row => ({
+      pollId: `poll-${row.poll_id}`,
+      candidateId: row.candidate_id,
+      candidateName: row.candidate_name,
+      party: row.party || 'Independent',
+      pollster: row.pollster,
+      endDate: new Date(row.end_date),
+      support: Number(row.pct),
+      sampleSize: row.sample_size,
+      marginOfError: row.margin_of_error,
+      population: normalizePopulation(row.population),
+      pollsterGrade: row.pollster_grade,
+      source: 'polls' as const
+    }));
+  }
+
+  /**
+   * Estimate a pollster's house effect from recent polls
+   */
+  async estimateHouseEffect(
+    pollster: Pollster,
+    options: { windowDays?: number; electionId?: number } = {}
+  ): Promise<HouseEffectEstimate[]> {
+    const windowDays = options.windowDays ?? 365;
+    const observations = await this.loadObservations(windowDays, options.electionId);
+    return estimateHouseEffects(pollster, observations, windowDays);
+  }
+
+  /**
+   * Recompute and persist house effects for every registered pollster,
+   * replacing the stored set so effects that no longer have enough polls
+   * behind them are dropped. The polls summary endpoint subtracts these
+   * from raw numbers.
+   */
+  async refreshHouseEffects(windowDays: number = 365): Promise<HouseEffectEstimate[]> {
+    await this.registerUnknownPollsters();
+    const [registry, observations] = await Promise.all([
+      this.listPollsters(),
+      this.loadObservations(windowDays)
+    ]);
+
+    const estimates: HouseEffectEstimate[] = [];
+    await db.transaction(async tx => {
+      for (const pollster of registry) {
+        const effects = estimateHouseEffects(pollster, observations, windowDays);
+        for (const effect of effects) {
+          const changes: Partial<PollsterHouseEffect> = {
+            effect: effect.effect.toString(),
+            pollCount: effect.pollCount,
+            windowDays,
+            computedAt: new Date()
+          };
+          await tx
+            .insert(pollsterHouseEffects)
+            .values({
+              pollsterId: pollster.id,
+              party: effect.party,
+              effect: effect.effect.toString(),
+              pollCount: effect.pollCount,
+              windowDays
+            })
+            .onConflictDoUpdate({
+              target: [pollsterHouseEffects.pollsterId, pollsterHouseEffects.party],
+              set: changes
+            });
+        }
+
+        const parties = effects.map(effect => effect.party);
+        await tx
+          .delete(pollsterHouseEffects)
+          .where(and(
+            eq(pollsterHouseEffects.pollsterId, pollster.id),
+            parties.length > 0 ? notInArray(pollsterHouseEffects.party, parties) : undefined
+          ));
+        estimates.push(...effects);
+      }
+    });
+
+    return estimates;
+  }
+}
+
+export const pollsterRatingService = new PollsterRatingService();
@@ -0,0 +1,430 @@
+/**
+ * Race Call Service
+ *
+ * Runs the projection engine against stored results, records calls and
+ * retractions with the rule and data snapshot behind them, keeps the
+ * candidate winner flags in sync and alerts users watching the race.
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  raceCalls,
+  raceCallAuditLog,
+  candidates,
+  electionResults,
+  watchlist,
+  notificationEvents,
+  notificationSubscriptions
+} from '@shared/schema';
+import type { Candidate, RaceCall, RaceCallAuditEntry, NotificationEvent, NotificationSubscription } from '@shared/schema';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import {
+  evaluateProjection,
+  retractionReason,
+  type ProjectionEvaluation,
+  type ProjectionOptions,
+  type ProjectionUnit
+} from '../lib/race-projection';
+import { resultsHierarchyService } from './results-hierarchy-service';
+import { notificationQueueService } from './notification-queue-service';
+import { alertRuleService } from './alert-rule-service';
+import { eventProcessingService } from '../event-processing-service';
+
+export const ENGINE_ACTOR = 'engine';
+
+// Advisory lock namespace for race calls; the second key is the election
+const RACE_CALL_LOCK = 7201;
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// New rows: the columns without defaults, plus any others
+type NewRaceCall = Pick<RaceCall, 'electionId' | 'candidateId' | 'callType' | 'confidence' | 'rule' | 'snapshot' | 'calledBy'>
+  & Partial<RaceCall>;
+type NewAuditEntry = Pick<RaceCallAuditEntry, 'raceCallId' | 'electionId' | 'action' | 'actor'> & Partial<RaceCallAuditEntry>;
+type NewEvent = Pick<NotificationEvent, 'eventType' | 'eventData'> & Partial<NotificationEvent>;
+
+// Winner flags cleared across a race when its call goes
+const NO_WINNER: Partial<Candidate> = { isWinner: false, isProjectedWinner: false };
+
+/** A call or retraction written in a transaction, announced after it commits */
+type CallChange =
+  | { action: 'call'; call: RaceCall; actor: string; reason: string }
+  | { action: 'retract'; call: RaceCall; actor: string; reason: string; evaluation: ProjectionEvaluation | null; notify: boolean };
+
+export interface RaceCallOutcome {
+  evaluation: ProjectionEvaluation;
+  action: 'called' | 'retracted' | 'unchanged';
+  call: RaceCall | null;
+}
+
+export class RaceCallService {
+  /**
+   * Build projection input from the stored results and evaluate it
+   */
+  async evaluate(electionId: number, options: Partial<ProjectionOptions> = {}): Promise<ProjectionEvaluation | null> {
+    const results = await storage.getElectionResults(electionId);
+    const raceCandidates: any[] = results?.candidates ?? [];
+    if (raceCandidates.length === 0) return null;
+
+    const [totals] = await db.select().from(electionResults).where(eq(electionResults.electionId, electionId));
+    const hierarchy = await resultsHierarchyService.getHierarchy(electionId);
+    const rolled = Array.from(hierarchy.units.values());
+
+    // Project from counties when we have them, else whatever top level was reported
+    const level = rolled.some(u => u.level === 'county') ? 'county' : rolled.some(u => u.level === 'district') ? 'district' : null;
+    const units: ProjectionUnit[] = level
+      ? rolled.filter(u => u.level === level).map(u => ({
+          key: u.key,
+          name: u.name,
+          reportingPrecincts: u.reportingPrecincts,
+          totalPrecincts: u.totalPrecincts,
+          candidates: u.candidates.map(c => ({ candidateId: c.candidateId, votes: c.votes, voteTypes: c.voteTypes }))
+        }))
+      : [];
+
+    return evaluateProjection({
+      candidates: raceCandidates.map(c => ({ candidateId: c.id, name: c.name, votes: c.votesReceived || 0 })),
+      units,
+      percentReporting: totals?.percentReporting ? parseFloat(totals.percentReporting) : 0,
+      expectedPrecincts: totals?.totalPrecincts ?? null
+    }, options);
+  }
+
+  async getActiveCall(electionId: number, executor: DbExecutor = db): Promise<RaceCall | null> {
+    const [call] = await executor
+      .select()
+      .from(raceCalls)
+      .where(and(eq(raceCalls.electionId, electionId), eq(raceCalls.status, 'active')))
+      .orderBy(desc(raceCalls.calledAt))
+      .limit(1);
+    return call ?? null;
+  }
+
+  /**
+   * Evaluate the race and call or retract as the projection dictates.
+   * Manual calls are never retracted automatically.
+   */
+  async runProjection(electionId: number, options: Partial<ProjectionOptions> = {}): Promise<RaceCallOutcome | null> {
+    let evaluation = await this.evaluate(electionId, options);
+    if (!evaluation) return null;
+
+    // Without a first-choice majority an RCV race is decided by the tabulation
+    const election = await storage.getElection(electionId);
+    if (election?.votingMethod === 'rcv' && evaluation.leader && evaluation.leader.votes * 2 <= evaluation.countedVotes) {
+      evaluation = {
+        ...evaluation,
+        shouldCall: false,
+        rule: 'rcv_pending',
+        reason: 'No first-choice majority; the winner will come from the ranked-choice tabulation'
+      };
+    }
+
+    // Serialized per election, so concurrent feeds cannot both make a call
+    const { outcome, changes } = await this.withRaceLock(electionId, async tx => {
+      const changes: CallChange[] = [];
+      const active = await this.getActiveCall(electionId, tx);
+
+      if (active) {
+        if (active.calledBy !== ENGINE_ACTOR) {
+          return { outcome: { evaluation, action: 'unchanged', call: active } as RaceCallOutcome, changes };
+        }
+        const reason = retractionReason(active.candidateId, evaluation, options);
+        if (reason) {
+          const retracted = await this.markRetracted(tx, active.id, ENGINE_ACTOR, reason);
+          if (retracted) changes.push({ action: 'retract', call: retracted, actor: ENGINE_ACTOR, reason, evaluation, notify: true });
+          return { outcome: { evaluation, action: 'retracted', call: retracted } as RaceCallOutcome, changes };
+        }
+        // Upgrade a projection to a declaration once every vote is in
+        if (evaluation.rule === 'all_votes_counted' && active.callType !== 'declared') {
+          const superseded = await this.markRetracted(tx, active.id, ENGINE_ACTOR, 'Superseded by declaration');
+          if (superseded) {
+            changes.push({ action: 'retract', call: superseded, actor: ENGINE_ACTOR, reason: 'Superseded by declaration', evaluation, notify: false });
+          }
+        } else {
+          return { outcome: { evaluation, action: 'unchanged', call: active } as RaceCallOutcome, changes };
+        }
+      }
+
+      if (!evaluation.shouldCall || !evaluation.leader) {
+        return { outcome: { evaluation, action: 'unchanged', call: null } as RaceCallOutcome, changes };
+      }
+
+      const call = await this.insertCall(tx, electionId, {
+        candidateId: evaluation.leader.candidateId,
+        callType: evaluation.rule === 'all_votes_counted' ? 'declared' : 'projected',
+        confidence: evaluation.confidence,
+        rule: evaluation.rule,
+        reason: evaluation.reason,
+        snapshot: evaluation,
+        calledBy: ENGINE_ACTOR
+      });
+      changes.push({ action: 'call', call, actor: ENGINE_ACTOR, reason: evaluation.reason });
+      return { outcome: { evaluation, action: 'called', call } as RaceCallOutcome, changes };
+    });
+
+    await this.publish(changes);
+    return outcome;
+  }
+
+  /**
+   * Record a call made by an admin (e.g. following the AP or a concession)
+   */
+  async manualCall(electionId: number, candidateId: number, actor: string, reason: string, callType: 'projected' | 'declared' = 'projected'): Promise<RaceCall> {
+    const raceCandidates = await storage.getCandidatesByElection(electionId);
+    if (!raceCandidates.some(c => c.id === candidateId)) {
+      throw new Error(`Candidate ${candidateId} is not running in election ${electionId}`);
+    }
+
+    const evaluation = await this.evaluate(electionId);
+    const { call, changes } = await this.withRaceLock(electionId, async tx => {
+      const changes: CallChange[] = [];
+      const active = await this.getActiveCall(electionId, tx);
+      if (active) {
+        const supersededReason = `Superseded by manual call: ${reason}`;
+        const superseded = await this.markRetracted(tx, active.id, actor, supersededReason);
+        if (superseded) {
+          changes.push({
+            action: 'retract', call: superseded, actor, reason: supersededReason, evaluation: null,
+            notify: active.candidateId !== candidateId
+          });
+        }
+      }
+
+      const call = await this.insertCall(tx, electionId, {
+        candidateId,
+        callType,
+        confidence: 1,
+        rule: 'manual',
+        reason,
+        snapshot: evaluation ?? {},
+        calledBy: actor
+      });
+      changes.push({ action: 'call', call, actor, reason });
+      return { call, changes };
+    });
+
+    await this.publish(changes);
+    return call;
+  }
+
+  /**
+   * Retract a call, clearing the candidate's winner flags
+   */
+  async retractCall(
+    callId: number,
+    actor: string,
+    reason: string,
+    evaluation?: ProjectionEvaluation,
+    options: { notify?: boolean } = {}
+  ): Promise<RaceCall | null> {
+    const call = await db.transaction(tx => this.markRetracted(tx, callId, actor, reason));
+    if (!call) return null;
+    await this.publish([{ action: 'retract', call, actor, reason, evaluation: evaluation ?? null, notify: options.notify !== false }]);
+    return call;
+  }
+
+  async getCallHistory(electionId: number): Promise<{ active: RaceCall | null; calls: RaceCall[]; audit: RaceCallAuditEntry[] }> {
+    const [calls, audit] = await Promise.all([
+      db.select().from(raceCalls).where(eq(raceCalls.electionId, electionId)).orderBy(desc(raceCalls.calledAt)),
+      db.select().from(raceCallAuditLog).where(eq(raceCallAuditLog.electionId, electionId)).orderBy(desc(raceCallAuditLog.createdAt))
+    ]);
+    return { active: calls.find(c => c.status === 'active') ?? null, calls, audit };
+  }
+
+  /**
+   * Hold the election's race-call lock for the length of a transaction
+   */
+  private async withRaceLock<T>(electionId: number, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+    return db.transaction(async tx => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${RACE_CALL_LOCK}, ${electionId})`);
+      return fn(tx);
+    });
+  }
+
+  /**
+   * Retract an active call and clear the race's winner flags. Null when the
+   * call was no longer active.
+   */
+  private async markRetracted(tx: DbExecutor, callId: number, actor: string, reason: string): Promise<RaceCall | null> {
+    const retraction: Partial<RaceCall> = { status: 'retracted', retractedAt: new Date(), retractedBy: actor, retractionReason: reason };
+    const [call] = await tx
+      .update(raceCalls)
+      .set(retraction)
+      .where(and(eq(raceCalls.id, callId), eq(raceCalls.status, 'active')))
+      .returning();
+    if (!call) return null;
+
+    await tx
+      .update(candidates)
+      .set(NO_WINNER)
+      .where(eq(candidates.electionId, call.electionId));
+    return call;
+  }
+
+  private async insertCall(
+    tx: DbExecutor,
+    electionId: number,
+    input: {
+      candidateId: number;
+      callType: 'projected' | 'declared';
+      confidence: number;
+      rule: string;
+      reason: string;
+      snapshot: unknown;
+      calledBy: string;
+    }
+  ): Promise<RaceCall> {
+    const row: NewRaceCall = {
+      electionId,
+      candidateId: input.candidateId,
+      callType: input.callType,
+      status: 'active',
+      confidence: input.confidence.toFixed(4),
+      rule: input.rule,
+      reason: input.reason,
+      snapshot: input.snapshot,
+      calledBy: input.calledBy
+    };
+    const [call] = await tx
+      .insert(raceCalls)
+      .values(row)
+      .returning();
+
+    const winner: Partial<Candidate> = { isWinner: input.callType === 'declared', isProjectedWinner: true };
+    await tx
+      .update(candidates)
+      .set(NO_WINNER)
+      .where(eq(candidates.electionId, electionId));
+    await tx
+      .update(candidates)
+      .set(winner)
+      .where(eq(candidates.id, input.candidateId));
+    return call;
+  }
+
+  /**
+   * Alert watchers, audit and announce committed calls and retractions
+   */
+  private async publish(changes: CallChange[]) {
+    for (const change of changes) {
+      const { call, actor, reason } = change;
+      if (change.action === 'retract') {
+        const eventId = change.notify ? await this.broadcast(call, 'retract', reason) : null;
+        await this.audit(call, 'retract', actor, { reason, evaluation: change.evaluation }, eventId);
+        this.announce('race_call_retracted', call, reason);
+        console.log(`[Race Calling] RETRACTED call ${call.id} for election ${call.electionId}: ${reason}`);
+      } else {
+        const eventId = await this.broadcast(call, 'call', reason);
+        await this.audit(call, 'call', actor, { reason }, eventId);
+        this.announce('race_called', call, reason);
+        console.log(`[Race Calling] ${call.callType.toUpperCase()} election ${call.electionId} for candidate ${call.candidateId} (${call.rule}, ${(parseFloat(call.confidence) * 100).toFixed(2)}%)`);
+      }
+    }
+  }
+
+  private async audit(call: RaceCall, action: 'call' | 'retract', actor: string, details: unknown, notificationEventId: number | null) {
+    const entry: NewAuditEntry = {
+      raceCallId: call.id,
+      electionId: call.electionId,
+      action,
+      actor,
+      confidence: call.confidence,
+      rule: call.rule,
+      details,
+      notificationEventId
+    };
+    await db.insert(raceCallAuditLog).values(entry);
+  }
+
+  /**
+   * Hand the call to the event processor so live streams pick it up
+   */
+  private announce(eventName: 'race_called' | 'race_call_retracted', call: RaceCall, reason: string) {
+    eventProcessingService.emit(eventName, {
+      electionId: call.electionId,
+      callId: call.id,
+      candidateId: call.candidateId,
+      callType: call.callType,
+      confidence: parseFloat(call.confidence),
+      rule: call.rule,
+      calledBy: call.calledBy,
+      reason
+    });
+  }
+
+  /**
+   * Create the notification event and queue it for every verified,
+   * active election-alert subscription of users watching the race
+   */
+  private async broadcast(call: RaceCall, action: 'call' | 'retract', reason: string): Promise<number | null> {
+    try {
+      const election = await storage.getElection(call.electionId);
+      const raceCandidates = await storage.getCandidatesByElection(call.electionId);
+      const candidate = raceCandidates.find(c => c.id === call.candidateId);
+      if (!election || !candidate) return null;
+
+      const verb = call.callType === 'declared' ? 'wins' : 'is projected to win';
+      const message = action === 'call'
+        ? `${candidate.name} (${candidate.party}) ${verb} ${election.title}.`
+        : `The call for ${candidate.name} in ${election.title} has been retracted: ${reason}`;
+
+      const values: NewEvent = {
+        eventType: 'election_result',
+        eventData: {
+          electionTitle: election.title,
+          candidateName: candidate.name,
+          message,
+          action: action === 'call' ? 'race_called' : 'race_call_retracted',
+          callType: call.callType,
+          confidence: parseFloat(call.confidence),
+          rule: call.rule,
+          reason
+        },
+        triggerConditions: { raceCallId: call.id, rule: call.rule },
+        relatedElectionId: call.electionId,
+        relatedCandidateId: call.candidateId,
+        priority: 'urgent',
+        source: 'race_call_engine',
+        sourceId: String(call.id)
+      };
+      const [event] = await db.insert(notificationEvents).values(values).returning();
+      if (!event?.id) return null;
+      alertRuleService.evaluateEvent(event).catch(error =>
+        console.error(`[Alert Rules] Failed to evaluate event ${event.id}:`, error));
+
+      const subscriptions = await this.getWatcherSubscriptions(call.electionId);
+      if (subscriptions.length > 0) {
+        await notificationQueueService.processElectionEvent(event, subscriptions);
+      }
+      return event.id;
+    } catch (error) {
+      console.error(`[Race Calling] Failed to broadcast ${action} for call ${call.id}:`, error);
+      return null;
+    }
+  }
+
+  private async getWatcherSubscriptions(electionId: number): Promise<NotificationSubscription[]> {
+    const watchers = await db
+      .select({ userId: watchlist.userId })
+      .from(watchlist)
+      .where(and(
+        eq(watchlist.electionId, electionId),
+        eq(watchlist.notificationsEnabled, true),
+        eq(watchlist.status, 'active')
+      ));
+    if (watchers.length === 0) return [];
+
+    return db
+      .select()
+      .from(notificationSubscriptions)
+      .where(and(
+        inArray(notificationSubscriptions.userId, Array.from(new Set(watchers.map(w => w.userId)))),
+        eq(notificationSubscriptions.subscriptionType, 'election_alerts'),
+        eq(notificationSubscriptions.isActive, true),
+        eq(notificationSubscriptions.isVerified, true)
+      ));
+  }
+}
+
+export const raceCallService = new RaceCallService();
@@ -0,0 +1,193 @@
+/**
+ * Ranked-Choice Voting Service
+ * Keeps each election's voting method, tabulates cast vote records for
+ * RCV contests and stores the round-by-round results against our
+ * candidates. First-choice counts feed the normal results tables; the
+ * winner comes from the final round.
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import { elections, candidates, rcvTabulations } from '@shared/schema';
+import type { Candidate, Election, RcvTabulationRecord } from '@shared/schema';
+import { desc, eq } from 'drizzle-orm';
+import { tabulateRcv, resolveRcvOptions, type RcvOptions, type RcvTabulation } from '../lib/rcv-tabulation';
+import { parseCvr, type CvrContest, type CvrFormat, type CvrManifests } from '../lib/cvr-formats';
+import { matchCandidate } from '../lib/results-feeds';
+import { raceCallService } from './race-call-service';
+import { eventProcessingService } from '../event-processing-service';
+
+export const VOTING_METHODS = ['plurality', 'rcv', 'top_two', 'runoff'] as const;
+export type VotingMethod = typeof VOTING_METHODS[number];
+
+export interface RcvRules extends Partial<RcvOptions> {
+  preset?: string | null;
+}
+
+export interface TabulateCvrInput {
+  payload: unknown;
+  format?: CvrFormat | null;
+  manifests?: CvrManifests;
+  contest?: string | null; // contest id or name inside the CVR
+  options?: Partial<RcvOptions>;
+  status?: 'preliminary' | 'final';
+  source?: string | null;
+  actor: string;
+}
+
+/** Bad CVR or an election that is not set up for RCV - reported back as a 400 */
+export class RcvInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RcvInputError';
+  }
+}
+
+export class RcvService {
+  async setVotingMethod(electionId: number, votingMethod: VotingMethod, rcvRules: RcvRules | null = null): Promise<Election | null> {
+    const changes: Partial<Election> = { votingMethod, rcvRules: votingMethod === 'rcv' ? rcvRules ?? {} : null };
+    const [election] = await db
+      .update(elections)
+      .set(changes)
+      .where(eq(elections.id, electionId))
+      .returning();
+    return election ?? null;
+  }
+
+  /**
+   * Parse a CVR export, tabulate the contest and store the rounds
+   */
+  async tabulate(electionId: number, input: TabulateCvrInput): Promise<RcvTabulationRecord> {
+    const election = await storage.getElection(electionId);
+    if (!election) throw new RcvInputError(`Election ${electionId} not found`);
+    if (election.votingMethod !== 'rcv') {
+      throw new RcvInputError(`Election ${electionId} is not configured for ranked-choice voting`);
+    }
+
+    let parsed;
+    try {
+      parsed = parseCvr(input.payload, input.format, input.manifests);
+    } catch (error) {
+      throw new RcvInputError(error instanceof Error ? error.message : 'Unreadable cast vote record');
+    }
+    const contest = this.selectContest(parsed.contests, input.contest);
+
+    const rules = (election.rcvRules ?? {}) as RcvRules;
+    const { preset, ...electionOverrides } = rules;
+    const options = resolveRcvOptions(preset, {
+      maxRankings: contest.maxRankings ?? undefined,
+      ...electionOverrides,
+      ...(input.options ?? {})
+    });
+    const tabulation = tabulateRcv(contest.ballots, options, contest.candidates);
+
+    const raceCandidates = await storage.getCandidatesByElection(electionId);
+    const candidateMap: Record<string, number | null> = {};
+    for (const name of tabulation.candidates) {
+      candidateMap[name] = matchCandidate(name, raceCandidates)?.id ?? null;
+    }
+
+    const values: Omit<RcvTabulationRecord, 'id' | 'tabulatedAt'> = {
+      electionId,
+      contestName: contest.contestName,
+      status: input.status ?? 'preliminary',
+      method: tabulation.method,
+      seats: tabulation.seats,
+      cvrFormat: parsed.format,
+      source: input.source ?? null,
+      totalBallots: tabulation.totalBallots,
+      undervotes: tabulation.undervotes,
+      exhaustedBallots: tabulation.exhaustedBallots.toFixed(4),
+      exhaustedBy: tabulation.exhaustedBy,
+      winners: tabulation.winners.map(name => ({ name, candidateId: candidateMap[name] })),
+      candidateMap,
+      rounds: this.withCandidateIds(tabulation, candidateMap),
+      options: tabulation.options,
+      tabulatedBy: input.actor
+    };
+    const [record] = await db.insert(rcvTabulations).values(values).returning();
+
+    await this.storeFirstChoices(tabulation, candidateMap);
+
+    if (record.status === 'final' && tabulation.seats === 1) {
+      const winnerId = candidateMap[tabulation.winners[0]];
+      if (winnerId) {
+        const lastRound = tabulation.rounds[tabulation.rounds.length - 1];
+        await raceCallService.manualCall(
+          electionId,
+          winnerId,
+          input.actor,
+          `Won the ranked-choice tabulation in round ${lastRound.round}`,
+          'declared'
+        );
+      }
+    }
+
+    eventProcessingService.emit('results_updated', { electionId, timestamp: new Date() });
+    console.log(`[RCV] Tabulated election ${electionId} (${contest.contestName}): ${tabulation.totalBallots} ballots, ${tabulation.rounds.length} rounds, winners ${tabulation.winners.join(', ')}`);
+    return record;
+  }
+
+  async getLatest(electionId: number): Promise<RcvTabulationRecord | null> {
+    const [record] = await db
+      .select()
+      .from(rcvTabulations)
+      .where(eq(rcvTabulations.electionId, electionId))
+      .orderBy(desc(rcvTabulations.tabulatedAt))
+      .limit(1);
+    return record ?? null;
+  }
+
+  async listTabulations(electionId: number): Promise<RcvTabulationRecord[]> {
+    return db
+      .select()
+      .from(rcvTabulations)
+      .where(eq(rcvTabulations.electionId, electionId))
+      .orderBy(desc(rcvTabulations.tabulatedAt));
+  }
+
+  private selectContest(contests: CvrContest[], wanted?: string | null): CvrContest {
+    if (contests.length === 0) throw new RcvInputError('Cast vote record contains no contests');
+    if (wanted) {
+      const needle = wanted.trim().toLowerCase();
+      const contest = contests.find(c => c.contestId.toLowerCase() === needle || c.contestName.toLowerCase() === needle);
+      if (!contest) throw new RcvInputError(`Contest "${wanted}" not found in cast vote record`);
+      return contest;
+    }
+    if (contests.length > 1) {
+      throw new RcvInputError(`Cast vote record has ${contests.length} contests; choose one of: ${contests.map(c => c.contestName).join(', ')}`);
+    }
+    return contests[0];
+  }
+
+  private withCandidateIds(tabulation: RcvTabulation, candidateMap: Record<string, number | null>) {
+    return tabulation.rounds.map(round => ({
+      ...round,
+      tallies: round.tallies.map(tally => ({ ...tally, candidateId: candidateMap[tally.candidate] ?? null })),
+      transfers: round.transfers.map(transfer => ({
+        ...transfer,
+        fromCandidateId: candidateMap[transfer.from] ?? null,
+        toCandidateId: transfer.to ? candidateMap[transfer.to] ?? null : null
+      }))
+    }));
+  }
+
+  /**
+   * First-round counts are the figures reported as each candidate's votes
+   */
+  private async storeFirstChoices(tabulation: RcvTabulation, candidateMap: Record<string, number | null>) {
+    const firstRound = tabulation.rounds[0];
+    if (!firstRound) return;
+    for (const tally of firstRound.tallies) {
+      const candidateId = candidateMap[tally.candidate];
+      if (!candidateId) continue;
+      const counts: Partial<Candidate> = { votesReceived: Math.round(tally.votes), votePercentage: tally.percentage.toFixed(2) };
+      await db
+        .update(candidates)
+        .set(counts)
+        .where(eq(candidates.id, candidateId));
+    }
+  }
+}
+
+export const rcvService = new RcvService();
@@ -0,0 +1,287 @@
+/**
+ * Results Ingestion Adapters
+ *
+ * Pluggable feed adapters (Google Civic, Secretary of State JSON, Clarity/
+ * Scytl ENR XML, NIST SP 1500-100 CDF) and the registry that assigns feed
+ * sources to states and counties. Sources are stored in results_sources
+ * and cached here. Adapters only fetch and parse; matching and storage stay
+ * in ResultsIngestionService.
+ */
+
+import fetch from 'node-fetch';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { resultsSources, type ResultsSource } from '@shared/schema';
+import {
+  parseClarityDetailXml,
+  parseNistCdfJson,
+  parseNistCdfXml,
+  parseSosJson,
+  DEFAULT_SOS_MAPPING,
+  type ResultsFeed,
+  type SosFieldMapping
+} from '../lib/results-feeds';
+
+export interface ResultsSourceConfig {
+  id: string;
+  adapter: string;
+  state: string; // two-letter code, or '*' for nationwide sources
+  county?: string | null;
+  url?: string | null;
+  electionIds?: number[]; // restrict matching to these elections
+  contestMap?: Record<string, number>; // feed contest name -> election id
+  mapping?: SosFieldMapping;
+  enabled: boolean;
+}
+
+export interface ResultsAdapter {
+  id: string;
+  name: string;
+  formats: string[];
+  /** Adapters without vote counts (e.g. Google Civic) only report availability */
+  providesCounts: boolean;
+  parse(payload: string, source: ResultsSourceConfig): ResultsFeed;
+  fetchFeed(source: ResultsSourceConfig): Promise<ResultsFeed | null>;
+}
+
+export interface SourceRunStatus {
+  sourceId: string;
+  lastRunAt: string;
+  ok: boolean;
+  contestsParsed: number;
+  electionsUpdated: number;
+  error?: string;
+}
+
+const FEED_TIMEOUT_MS = 20000;
+
+async function fetchFeedText(url: string): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FEED_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal as any });
+    if (!response.ok) {
+      throw new Error(`Feed returned ${response.status}`);
+    }
+    return await response.text();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function feedAdapter(
+  id: string,
+  name: string,
+  formats: string[],
+  parse: (payload: string, source: ResultsSourceConfig) => ResultsFeed
+): ResultsAdapter {
+  return {
+    id,
+    name,
+    formats,
+    providesCounts: true,
+    parse,
+    async fetchFeed(source) {
+      if (!source.url) {
+        throw new Error(`Source ${source.id} has no feed URL`);
+      }
+      if (source.url.toLowerCase().endsWith('.zip')) {
+        throw new Error(`Source ${source.id} points at a zip archive; configure the extracted feed URL`);
+      }
+      return parse(await fetchFeedText(source.url), source);
+    }
+  };
+}
+
+const googleCivicAdapter: ResultsAdapter = {
+  id: 'google-civic',
+  name: 'Google Civic Information API',
+  formats: ['json'],
+  providesCounts: false,
+  parse() {
+    throw new Error('Google Civic does not publish vote counts');
+  },
+  async fetchFeed() {
+    const apiKey = process.env.GOOGLE_CIVIC_API_KEY;
+    if (!apiKey) {
+      console.log('[Google Civic] API key not configured, skipping');
+      return null;
+    }
+
+    // Google Civic provides election dates and polling places, not counts,
+    // so this adapter only confirms the election is listed
+    const response = await fetch(`https://www.googleapis.com/civicinfo/v2/elections?key=${apiKey}`);
+    if (!response.ok) {
+      console.log(`[Google Civic] API returned ${response.status}`);
+      return null;
+    }
+    const data: any = await response.json();
+    console.log(`[Google Civic] Found ${data.elections?.length || 0} elections in API`);
+    return null;
+  }
+};
+
+const BUILT_IN_ADAPTERS: ResultsAdapter[] = [
+  googleCivicAdapter,
+  feedAdapter('sos-json', 'Secretary of State JSON feed', ['json'],
+    (payload, source) => parseSosJson(payload, source.mapping ?? DEFAULT_SOS_MAPPING)),
+  feedAdapter('clarity-enr', 'Clarity/Scytl ENR detail XML', ['xml'],
+    payload => parseClarityDetailXml(payload)),
+  feedAdapter('nist-cdf', 'NIST SP 1500-100 Election Results CDF', ['json', 'xml'],
+    payload => payload.trimStart().startsWith('<') ? parseNistCdfXml(payload) : parseNistCdfJson(payload))
+];
+
+export type ResultsSourceInput = Omit<ResultsSourceConfig, 'id' | 'enabled'> & { id?: string; enabled?: boolean };
+
+// Seeded into an empty results_sources table
+const DEFAULT_SOURCES: ResultsSourceInput[] = [{ adapter: 'google-civic', state: '*' }];
+
+function toSourceConfig(row: ResultsSource): ResultsSourceConfig {
+  return {
+    id: row.id,
+    adapter: row.adapter,
+    state: row.state,
+    county: row.county,
+    url: row.url,
+    electionIds: row.electionIds ?? undefined,
+    contestMap: (row.contestMap as Record<string, number> | null) ?? undefined,
+    mapping: (row.mapping as SosFieldMapping | null) ?? undefined,
+    enabled: row.enabled
+  };
+}
+
+export class ResultsAdapterRegistry {
+  private adapters = new Map<string, ResultsAdapter>();
+  private sources = new Map<string, ResultsSourceConfig>();
+  private runStatus = new Map<string, SourceRunStatus>();
+  private loading: Promise<void> | null = null;
+
+  constructor() {
+    for (const adapter of BUILT_IN_ADAPTERS) {
+      this.registerAdapter(adapter);
+    }
+  }
+
+  /**
+   * Load the stored sources once; every source read and write waits on it
+   */
+  ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadSources().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadSources(): Promise<void> {
+    let rows = await db.select().from(resultsSources);
+    if (rows.length === 0) {
+      rows = await db.insert(resultsSources)
+        .values(DEFAULT_SOURCES.map(input => this.toRow(this.normalize(input), 'system')))
+        .onConflictDoNothing()
+        .returning();
+    }
+    this.sources.clear();
+    for (const row of rows) {
+      this.sources.set(row.id, toSourceConfig(row));
+    }
+  }
+
+  registerAdapter(adapter: ResultsAdapter): void {
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  getAdapter(id: string): ResultsAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  listAdapters() {
+    return Array.from(this.adapters.values()).map(a => ({
+      id: a.id,
+      name: a.name,
+      formats: a.formats,
+      providesCounts: a.providesCounts
+    }));
+  }
+
+  private normalize(input: ResultsSourceInput): ResultsSourceConfig {
+    const state = input.state === '*' ? '*' : input.state.toUpperCase();
+    const county = input.county?.trim() || null;
+    const id = input.id ?? [input.adapter, state, county].filter(Boolean).join(':').toLowerCase().replace(/\s+/g, '-');
+    return { ...input, id, state, county, enabled: input.enabled ?? true };
+  }
+
+  private toRow(source: ResultsSourceConfig, updatedBy: string) {
+    return {
+      id: source.id,
+      adapter: source.adapter,
+      state: source.state,
+      county: source.county ?? null,
+      url: source.url ?? null,
+      electionIds: source.electionIds ?? null,
+      contestMap: source.contestMap ?? null,
+      mapping: source.mapping ?? null,
+      enabled: source.enabled,
+      updatedBy,
+      updatedAt: new Date()
+    };
+  }
+
+  /**
+   * Register (or replace) a feed source for a state or county
+   */
+  async registerSource(input: ResultsSourceInput, updatedBy: string = 'system'): Promise<ResultsSourceConfig> {
+    if (!this.adapters.has(input.adapter)) {
+      throw new Error(`Unknown results adapter: ${input.adapter}`);
+    }
+    await this.ready();
+
+    const row = this.toRow(this.normalize(input), updatedBy);
+    const { id: _id, ...changes } = row;
+    const [saved] = await db.insert(resultsSources)
+      .values(row)
+      .onConflictDoUpdate({ target: resultsSources.id, set: changes })
+      .returning();
+
+    const source = toSourceConfig(saved);
+    this.sources.set(source.id, source);
+    return source;
+  }
+
+  async removeSource(id: string): Promise<boolean> {
+    await this.ready();
+    const removed = await db.delete(resultsSources).where(eq(resultsSources.id, id)).returning({ id: resultsSources.id });
+    this.runStatus.delete(id);
+    this.sources.delete(id);
+    return removed.length > 0;
+  }
+
+  async listSources(): Promise<Array<ResultsSourceConfig & { lastRun: SourceRunStatus | null }>> {
+    await this.ready();
+    return Array.from(this.sources.values()).map(s => ({ ...s, lastRun: this.runStatus.get(s.id) ?? null }));
+  }
+
+  /**
+   * Enabled sources covering a state, most specific first: county feeds,
+   * then statewide feeds, then nationwide ones
+   */
+  async getSourcesFor(state: string, adapterIds?: string[]): Promise<ResultsSourceConfig[]> {
+    await this.ready();
+    const code = state.toUpperCase();
+    return Array.from(this.sources.values())
+      .filter(s => s.enabled && (s.state === code || s.state === '*'))
+      .filter(s => !adapterIds || adapterIds.length === 0 || adapterIds.includes(s.adapter))
+      .sort((a, b) => {
+        const rank = (s: ResultsSourceConfig) => (s.county ? 0 : s.state === '*' ? 2 : 1);
+        return rank(a) - rank(b);
+      });
+  }
+
+  recordRun(status: SourceRunStatus): void {
+    this.runStatus.set(status.sourceId, status);
+  }
+}
+
+export const resultsAdapterRegistry = new ResultsAdapterRegistry();
@@ -0,0 +1,365 @@
+/**
+ * Results Hierarchy Service
+ *
+ * Stores per-candidate counts for precinct, county, district and state
+ * reporting units, rolls them up to election totals and serves county
+ * drill-downs for the live results view.
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import { resultReportingUnits, unitCandidateResults, electionResults } from '@shared/schema';
+import type { ResultReportingUnit, UnitCandidateResult } from '@shared/schema';
+import { eq, inArray } from 'drizzle-orm';
+import {
+  coversRace,
+  rollUpResults,
+  type ReportingLevel,
+  type ReportingUnitInput,
+  type RolledUpUnit,
+  type RollUpResult
+} from '../lib/results-rollup';
+import type { FeedContest, VoteType } from '../lib/results-feeds';
+
+export interface UnitResultInput {
+  key?: string;
+  level: ReportingLevel;
+  name: string;
+  parentKey?: string | null;
+  reportingPrecincts?: number | null;
+  totalPrecincts?: number | null;
+  candidates: Array<{
+    candidateId: number;
+    votes: number;
+    voteTypes?: Partial<Record<VoteType, number>>;
+  }>;
+}
+
+export interface StoredRollUp extends RollUpResult {
+  /** False when the stored units cover only part of the race */
+  electionUpdated: boolean;
+}
+
+export interface UpsertUnitsOptions {
+  resultsSource?: string;
+  /** Recompute election_results and candidate totals from the roots */
+  updateElection?: boolean;
+}
+
+const VOTE_TYPE_COLUMNS: Record<VoteType, keyof UnitCandidateResult> = {
+  'election-day': 'electionDayVotes',
+  early: 'earlyVotes',
+  mail: 'mailVotes',
+  provisional: 'provisionalVotes',
+  other: 'otherVotes'
+};
+
+export function reportingUnitKey(level: ReportingLevel, name: string, parentKey?: string | null): string {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const parentSlug = parentKey ? `${parentKey.split(':').pop()}/` : '';
+  return `${level}:${level === 'precinct' ? parentSlug : ''}${slug}`;
+}
+
+function toVoteTypes(row: UnitCandidateResult): Partial<Record<VoteType, number>> {
+  const voteTypes: Partial<Record<VoteType, number>> = {};
+  for (const [type, column] of Object.entries(VOTE_TYPE_COLUMNS)) {
+    const value = row[column];
+    if (value !== null && value !== undefined) voteTypes[type as VoteType] = value as number;
+  }
+  return voteTypes;
+}
+
+export class ResultsHierarchyService {
+  /**
+   * Upsert reporting units and their candidate counts, then roll up
+   */
+  async upsertUnits(electionId: number, units: UnitResultInput[], options: UpsertUnitsOptions = {}): Promise<StoredRollUp> {
+    const { resultsSource, updateElection = true } = options;
+
+    for (const unit of units) {
+      const unitKey = unit.key ?? reportingUnitKey(unit.level, unit.name, unit.parentKey);
+      const [row] = await db
+        .insert(resultReportingUnits)
+        .values({
+          electionId,
+          unitKey,
+          level: unit.level,
+          name: unit.name,
+          parentKey: unit.parentKey ?? null,
+          reportingPrecincts: unit.reportingPrecincts ?? null,
+          totalPrecincts: unit.totalPrecincts ?? null,
+          resultsSource: resultsSource ?? null,
+          lastUpdated: new Date()
+        } as any)
+        .onConflictDoUpdate({
+          target: [resultReportingUnits.electionId, resultReportingUnits.unitKey],
+          set: {
+            level: unit.level,
+            name: unit.name,
+            parentKey: unit.parentKey ?? null,
+            reportingPrecincts: unit.reportingPrecincts ?? null,
+            totalPrecincts: unit.totalPrecincts ?? null,
+            resultsSource: resultsSource ?? null,
+            lastUpdated: new Date()
+          } as any
+        })
+        .returning();
+
+      for (const count of unit.candidates) {
+        const columns: Record<string, number | null> = {};
+        for (const [type, column] of Object.entries(VOTE_TYPE_COLUMNS)) {
+          columns[column] = count.voteTypes?.[type as VoteType] ?? null;
+        }
+        await db
+          .insert(unitCandidateResults)
+          .values({ unitId: row.id, candidateId: count.candidateId, votes: count.votes, ...columns, updatedAt: new Date() } as any)
+          .onConflictDoUpdate({
+            target: [unitCandidateResults.unitId, unitCandidateResults.candidateId],
+            set: { votes: count.votes, ...columns, updatedAt: new Date() } as any
+          });
+      }
+    }
+
+    return this.rollUp(electionId, { updateElection });
+  }
+
+  /**
+   * Recompute every unit's totals from its children and, optionally, the
+   * election-wide totals from the root units. The race totals are only
+   * replaced when the units cover the whole race - the precinct count a
+   * statewide feed reported, or a statewide unit - so a county feed never
+   * stands in for the race or marks it complete.
+   */
+  async rollUp(electionId: number, options: { updateElection?: boolean } = {}): Promise<StoredRollUp> {
+    const { rows, counts } = await this.loadUnits(electionId);
+    const result = rollUpResults(this.toInputs(rows, counts));
+
+    for (const row of rows) {
+      const rolled = result.units.get(row.unitKey);
+      if (!rolled) continue;
+
+      await db
+        .update(resultReportingUnits)
+        .set({
+          reportingPrecincts: rolled.reportingPrecincts,
+          totalPrecincts: rolled.totalPrecincts,
+          percentReporting: rolled.percentReporting.toString(),
+          totalVotes: rolled.totalVotes
+        } as any)
+        .where(eq(resultReportingUnits.id, row.id));
+
+      for (const candidate of rolled.candidates) {
+        const columns: Record<string, number | null> = {};
+        for (const [type, column] of Object.entries(VOTE_TYPE_COLUMNS)) {
+          columns[column] = candidate.voteTypes[type as VoteType] ?? null;
+        }
+        await db
+          .insert(unitCandidateResults)
+          .values({
+            unitId: row.id,
+            candidateId: candidate.candidateId,
+            votes: candidate.votes,
+            ...columns,
+            votePercentage: candidate.votePercentage.toString(),
+            updatedAt: new Date()
+          } as any)
+          .onConflictDoUpdate({
+            target: [unitCandidateResults.unitId, unitCandidateResults.candidateId],
+            set: { votes: candidate.votes, ...columns, votePercentage: candidate.votePercentage.toString(), updatedAt: new Date() } as any
+          });
+      }
+    }
+
+    if (options.updateElection === false || rows.length === 0) {
+      return { ...result, electionUpdated: false };
+    }
+
+    const existing = await storage.getElectionResults(electionId);
+    if (!coversRace(result, existing?.totalPrecincts)) {
+      return { ...result, electionUpdated: false };
+    }
+
+    const current = new Map<number, any>((existing?.candidates ?? []).map((c: any) => [c.id, c]));
+    const { totals } = result;
+
+    await storage.updateElectionResults(electionId, {
+      totalVotes: totals.totalVotes,
+      reportingPrecincts: totals.reportingPrecincts,
+      totalPrecincts: totals.totalPrecincts,
+      percentReporting: totals.percentReporting,
+      isComplete: totals.totalPrecincts > 0 && totals.reportingPrecincts >= totals.totalPrecincts,
+      resultsSource: rows.find(r => r.resultsSource)?.resultsSource ?? undefined,
+      candidateResults: totals.candidates.map(c => ({
+        candidateId: c.candidateId,
+        votesReceived: c.votes,
+        votePercentage: c.votePercentage,
+        isWinner: !!current.get(c.candidateId)?.isWinner,
+        isProjectedWinner: !!current.get(c.candidateId)?.isProjectedWinner
+      }))
+    });
+    return { ...result, electionUpdated: true };
+  }
+
+  /**
+   * Store the unit breakdown carried by a parsed feed contest. Only the
+   * highest level in the feed is kept as roots so counties and loose
+   * precincts are not double counted; precincts from a county-level feed
+   * hang under that county.
+   */
+  async storeFeedContest(
+    electionId: number,
+    contest: FeedContest,
+    candidateIds: Map<string, number>,
+    options: { county?: string | null; resultsSource?: string; updateElection?: boolean } = {}
+  ): Promise<StoredRollUp | null> {
+    const byUnit = new Map<string, UnitResultInput>();
+    const countyKey = options.county ? reportingUnitKey('county', options.county) : null;
+
+    for (const feedCandidate of contest.candidates) {
+      const candidateId = candidateIds.get(feedCandidate.name);
+      if (candidateId === undefined) continue;
+
+      for (const unitCount of feedCandidate.units) {
+        if (unitCount.level === 'state' || unitCount.level === 'other') continue;
+        const parentKey = unitCount.level === 'precinct' ? countyKey : null;
+        const key = reportingUnitKey(unitCount.level, unitCount.unit, parentKey);
+        const reporting = contest.reportingUnits.find(u => u.name === unitCount.unit && u.level === unitCount.level);
+        const unit = byUnit.get(key) ?? {
+          key,
+          level: unitCount.level,
+          name: unitCount.unit,
+          parentKey,
+          reportingPrecincts: reporting?.reportingPrecincts ?? null,
+          totalPrecincts: reporting?.totalPrecincts ?? null,
+          candidates: []
+        };
+        unit.candidates.push({ candidateId, votes: unitCount.votes, voteTypes: unitCount.voteTypes });
+        byUnit.set(key, unit);
+      }
+    }
+
+    let units = Array.from(byUnit.values());
+    if (!countyKey) {
+      const rank: Record<ReportingLevel, number> = { state: 0, district: 1, county: 2, precinct: 3 };
+      const top = Math.min(...units.map(u => rank[u.level]));
+      units = units.filter(u => rank[u.level] === top);
+    } else {
+      units = units.filter(u => u.level === 'precinct');
+      if (units.length > 0) units.unshift({ key: countyKey, level: 'county', name: options.county!, parentKey: null, candidates: [] });
+    }
+
+    if (units.length === 0) return null;
+    return this.upsertUnits(electionId, units, {
+      resultsSource: options.resultsSource,
+      updateElection: options.updateElection ?? false
+    });
+  }
+
+  /**
+   * Rolled-up hierarchy for an election, read fresh from the stored leaves
+   */
+  async getHierarchy(electionId: number): Promise<RollUpResult> {
+    const { rows, counts } = await this.loadUnits(electionId);
+    return rollUpResults(this.toInputs(rows, counts));
+  }
+
+  /**
+   * Live-results breakdown: county summaries plus, when a county is
+   * requested, its candidates and precincts
+   */
+  async getCountyDrillDown(electionId: number, county?: string) {
+    const [hierarchy, [totalsRow]] = await Promise.all([
+      this.getHierarchy(electionId),
+      db.select().from(electionResults).where(eq(electionResults.electionId, electionId))
+    ]);
+
+    const all = Array.from(hierarchy.units.values());
+    const counties = all
+      .filter(u => u.level === 'county')
+      .sort((a, b) => b.totalVotes - a.totalVotes)
+      .map(u => this.summarizeUnit(u));
+
+    let drillDown: (RolledUpUnit & { children: ReturnType<ResultsHierarchyService['summarizeUnit']>[] }) | null = null;
+    if (county) {
+      const wanted = county.toLowerCase();
+      const unit = all.find(u => u.level === 'county' && (u.key === wanted || u.name.toLowerCase() === wanted));
+      if (unit) {
+        drillDown = {
+          ...unit,
+          children: all
+            .filter(u => u.parentKey === unit.key)
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(u => this.summarizeUnit(u))
+        };
+      }
+    }
+
+    return {
+      percentReporting: totalsRow?.percentReporting !== undefined && totalsRow?.percentReporting !== null
+        ? parseFloat(totalsRow.percentReporting)
+        : hierarchy.units.size > 0 ? hierarchy.totals.percentReporting : null,
+      reportingPrecincts: totalsRow?.reportingPrecincts ?? null,
+      totalPrecincts: totalsRow?.totalPrecincts ?? null,
+      resultsSource: totalsRow?.resultsSource ?? null,
+      voteTypes: hierarchy.totals.voteTypes,
+      counties,
+      drillDown
+    };
+  }
+
+  private summarizeUnit(unit: RolledUpUnit) {
+    const leader = unit.candidates[0];
+    return {
+      key: unit.key,
+      name: unit.name,
+      level: unit.level,
+      percentReporting: unit.percentReporting,
+      totalVotes: unit.totalVotes,
+      leader: leader ? { candidateId: leader.candidateId, votes: leader.votes, votePercentage: leader.votePercentage } : null,
+      candidates: unit.candidates
+    };
+  }
+
+  private async loadUnits(electionId: number) {
+    const rows: ResultReportingUnit[] = await db
+      .select()
+      .from(resultReportingUnits)
+      .where(eq(resultReportingUnits.electionId, electionId));
+
+    const counts: UnitCandidateResult[] = rows.length === 0
+      ? []
+      : await db
+          .select()
+          .from(unitCandidateResults)
+          .where(inArray(unitCandidateResults.unitId, rows.map(r => r.id)));
+
+    return { rows, counts };
+  }
+
+  private toInputs(rows: ResultReportingUnit[], counts: UnitCandidateResult[]): ReportingUnitInput[] {
+    const countsByUnit = new Map<number, UnitCandidateResult[]>();
+    for (const count of counts) {
+      const list = countsByUnit.get(count.unitId) ?? [];
+      list.push(count);
+      countsByUnit.set(count.unitId, list);
+    }
+
+    const parents = new Set(rows.map(r => r.parentKey).filter(Boolean));
+    return rows.map(row => ({
+      key: row.unitKey,
+      level: row.level as ReportingLevel,
+      name: row.name,
+      parentKey: row.parentKey,
+      // Parents are recomputed from children, so only leaves keep their figures
+      reportingPrecincts: parents.has(row.unitKey) ? null : row.reportingPrecincts,
+      totalPrecincts: parents.has(row.unitKey) ? null : row.totalPrecincts,
+      candidates: (countsByUnit.get(row.id) ?? []).map(c => ({
+        candidateId: c.candidateId,
+        votes: c.votes,
+        voteTypes: toVoteTypes(c)
+      }))
+    }));
+  }
+}
+
+export const resultsHierarchyService = new ResultsHierarchyService();
@@ -0,0 +1,240 @@
+/**
+ * Sample Ballot Service
+ * Builds "what's on my ballot" for an address: Google Civic voterinfo and
+ * the enhanced ballot sources supply contests and measures, our district
+ * lookup supplies the races in our own tables, our ballot measures fill in
+ * the propositions, and candidate profiles and positions are merged in.
+ * Users can save their picks against a ballot and print them as a PDF
+ * cheat sheet.
+ */
+
+import { db } from '../db';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { candidatePositions, candidateProfiles, savedBallots } from '@shared/schema';
+import type { SavedBallot } from '@shared/schema';
+import { storage } from '../storage';
+import { getGoogleCivicService } from '../google-civic-service';
+import { globalElectionService } from '../global-election-service';
+import { getBrowserAutomationService } from '../browser-automation-service';
+import { districtBoundaryService } from './district-boundary-service';
+import { ballotMeasureService } from './ballot-measure-service';
+import { measureToSourceContest, measuresForPlaces } from '../lib/ballot-measures';
+import {
+  composeBallot,
+  reconcilePicks,
+  renderBallotCheatSheet,
+  type BallotPicks,
+  type LocalBallotRace,
+  type SampleBallot,
+  type SourceContest
+} from '../lib/sample-ballot';
+
+const POSITIONS_PER_CANDIDATE = 3;
+
+/** Bad request data - reported back as a 400 */
+export class SampleBallotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SampleBallotError';
+  }
+}
+
+const dayOf = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Contests from the enhanced ballot sources, where a source returns them
+ * in the voterinfo contest shape
+ */
+function enhancedSourceContests(enhanced: any): Array<{ source: string; contest: SourceContest }> {
+  const contests: Array<{ source: string; contest: SourceContest }> = [];
+  for (const entry of enhanced?.sources ?? []) {
+    const list = Array.isArray(entry?.data?.contests) ? entry.data.contests : [];
+    for (const contest of list) {
+      if (contest && (contest.office || contest.referendumTitle)) {
+        contests.push({ source: entry.provider ?? 'Ballot source', contest });
+      }
+    }
+  }
+  return contests;
+}
+
+export class SampleBallotService {
+  /**
+   * Compose the ballot for an address. Without an election date the
+   * election Google Civic reports is used, else our next election day for
+   * the voter's races.
+   */
+  async buildBallot(address: string, electionDate?: string | null): Promise<SampleBallot> {
+    const [civic, enhanced, local] = await Promise.all([
+      this.fetchCivicBallot(address),
+      globalElectionService.getEnhancedBallotInfo(address).catch(() => null),
+      districtBoundaryService.getBallotForLocation({ address }).catch(error => {
+        console.error('Sample ballot district lookup failed:', error);
+        return null;
+      })
+    ]);
+
+    if (!civic && !local) {
+      throw new SampleBallotError('Could not find that address');
+    }
+
+    const today = dayOf(new Date());
+    const civicDate = civic ? dayOf(civic.election.date) : null;
+    const upcomingRaceDates = (local?.races ?? [])
+      .map(race => dayOf(race.election.date))
+      .filter(date => date >= today)
+      .sort();
+    const date = electionDate ?? civicDate ?? upcomingRaceDates[0] ?? null;
+
+    // Civic contests only belong on the ballot for the election they came from
+    const sourceContests: Array<{ source: string; contest: SourceContest }> = [];
+    if (civic && civicDate === date) {
+      for (const contest of civic.contests) {
+        sourceContests.push({
+          source: 'Google Civic',
+          contest: { ...contest, candidates: contest.candidates.map(c => ({ name: c.name, party: c.party, website: c.website })) }
+        });
+      }
+    }
+    sourceContests.push(...enhancedSourceContests(enhanced));
+
+    const state = local?.location.state ?? (civic?.election.state !== 'Unknown' ? civic?.election.state ?? null : null);
+    if (state && date) {
+      const measures = await ballotMeasureService.forBallot(state, date);
+      const places = [local?.location.city, local?.location.county, ...(local?.districts ?? []).filter(d => d.type === 'county').map(d => d.name)];
+      for (const measure of measuresForPlaces(measures, places)) {
+        sourceContests.push({ source: 'Ballot measures', contest: measureToSourceContest(measure) });
+      }
+    }
+
+    const races = (local?.races ?? []).filter(race => date !== null && dayOf(race.election.date) === date);
+    const localRaces: LocalBallotRace[] = await Promise.all(races.map(async race => ({
+      election: race.election,
+      district: race.district,
+      candidates: await storage.getCandidatesByElection(race.election.id)
+    })));
+
+    const ballot = composeBallot({
+      address,
+      state,
+      electionDate: date,
+      electionName: civic && civicDate === date ? civic.election.title : races[0]?.election.title ?? null,
+      sourceContests,
+      localRaces
+    });
+
+    await this.attachCandidateDetails(ballot);
+    return ballot;
+  }
+
+  private async fetchCivicBallot(address: string) {
+    const civicService = getGoogleCivicService();
+    if (!civicService) return null;
+    try {
+      return await civicService.fetchVoterInfo(address);
+    } catch (error) {
+      console.error('Sample ballot Google Civic lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Merge our candidate profiles and top positions into the ballot choices
+   */
+  private async attachCandidateDetails(ballot: SampleBallot): Promise<void> {
+    const candidateIds = Array.from(new Set(
+      ballot.contests.flatMap(contest => contest.choices.map(choice => choice.candidateId)).filter((id): id is number => id !== null)
+    ));
+    if (candidateIds.length === 0) return;
+
+    const [profiles, positions] = await Promise.all([
+      db.select().from(candidateProfiles).where(inArray(candidateProfiles.candidateId, candidateIds)),
+      db.select().from(candidatePositions).where(inArray(candidatePositions.candidateId, candidateIds))
+    ]);
+
+    for (const contest of ballot.contests) {
+      for (const choice of contest.choices) {
+        if (choice.candidateId === null) continue;
+        const profile = profiles.find(p => p.candidateId === choice.candidateId);
+        choice.profile = profile ? {
+          slogan: profile.campaignSlogan,
+          occupation: profile.currentOccupation,
+          topPriorities: profile.topPriorities
+        } : null;
+        choice.website = choice.website ?? profile?.campaignWebsite ?? null;
+        choice.positions = positions
+          .filter(p => p.candidateId === choice.candidateId)
+          .sort((a, b) => Number(b.isVerified) - Number(a.isVerified))
+          .slice(0, POSITIONS_PER_CANDIDATE)
+          .map(p => ({ category: p.category, position: p.position }));
+      }
+    }
+  }
+
+  async listSaved(userId: string): Promise<SavedBallot[]> {
+    return db.select().from(savedBallots)
+      .where(eq(savedBallots.userId, userId))
+      .orderBy(desc(savedBallots.updatedAt));
+  }
+
+  async getSaved(userId: string, id: number): Promise<SavedBallot | null> {
+    const [row] = await db.select().from(savedBallots)
+      .where(and(eq(savedBallots.id, id), eq(savedBallots.userId, userId)));
+    return row ?? null;
+  }
+
+  /**
+   * Save picks for an address and election day against the ballot composed
+   * here - never one sent by the client. Picks that do not match a contest
+   * and choice on the ballot are dropped and reported.
+   */
+  async savePicks(userId: string, input: {
+    address: string;
+    electionDate?: string | null;
+    picks: BallotPicks;
+  }): Promise<{ saved: SavedBallot; dropped: string[] }> {
+    const ballot = await this.buildBallot(input.address, input.electionDate);
+    if (!ballot.electionDate) {
+      throw new SampleBallotError('No upcoming election found for this address');
+    }
+
+    const { picks, dropped } = reconcilePicks(ballot, input.picks);
+    const values = {
+      userId,
+      address: ballot.address,
+      electionDate: ballot.electionDate,
+      electionName: ballot.electionName,
+      state: ballot.state,
+      ballot,
+      picks,
+      updatedAt: new Date()
+    };
+
+    const [saved] = await db.insert(savedBallots)
+      .values(values as any)
+      .onConflictDoUpdate({
+        target: [savedBallots.userId, savedBallots.address, savedBallots.electionDate],
+        set: { ballot, picks, electionName: ballot.electionName, state: ballot.state, updatedAt: new Date() } as any
+      })
+      .returning();
+
+    return { saved, dropped };
+  }
+
+  async deleteSaved(userId: string, id: number): Promise<boolean> {
+    const deleted = await db.delete(savedBallots)
+      .where(and(eq(savedBallots.id, id), eq(savedBallots.userId, userId)))
+      .returning({ id: savedBallots.id });
+    return deleted.length > 0;
+  }
+
+  renderCheatSheet(saved: Pick<SavedBallot, 'ballot' | 'picks'>): string {
+    return renderBallotCheatSheet(saved.ballot as SampleBallot, (saved.picks ?? {}) as BallotPicks);
+  }
+
+  async renderCheatSheetPdf(saved: Pick<SavedBallot, 'ballot' | 'picks'>): Promise<Buffer> {
+    return getBrowserAutomationService().renderPdf(this.renderCheatSheet(saved));
+  }
+}
+
+export const sampleBallotService = new SampleBallotService();
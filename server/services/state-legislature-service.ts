@@ -0,0 +1,610 @@
+/**
+ * State Legislature Service
+ * Syncs state legislators, chambers, districts, session calendars and
+ * bills from OpenStates bulk data - files dropped in the OpenStates bulk
+ * directory when present (so a state can be loaded offline), otherwise
+ * the published people CSVs and the v3 API - and links the legislators
+ * holding a seat to the candidates in that seat's race.
+ *
+ * Syncs are incremental: unchanged downloads are skipped by ETag or
+ * content hash, and unchanged rows by their source hash.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { db } from '../db';
+import { and, asc, desc, eq, ilike, inArray, or, sql, type SQL } from 'drizzle-orm';
+import {
+  candidates,
+  elections,
+  openstatesSyncState,
+  stateBills,
+  stateLegislativeChambers,
+  stateLegislativeDistricts,
+  stateLegislativeSessions,
+  stateLegislators
+} from '@shared/schema';
+import type {
+  Candidate,
+  OpenstatesSyncState,
+  StateBill,
+  StateLegislativeChamber,
+  StateLegislativeDistrict,
+  StateLegislativeSession,
+  StateLegislator
+} from '@shared/schema';
+import { matchCandidate } from '../lib/results-feeds';
+import {
+  OPENSTATES_JURISDICTIONS,
+  jurisdictionId,
+  parseApiBill,
+  parseBillsCsv,
+  parseJurisdiction,
+  parsePeopleCsv,
+  recordHash,
+  seatForElection,
+  seatHolders,
+  type LegislativeChamber,
+  type StateBillRecord
+} from '../lib/openstates-bulk';
+
+/** Bad request data - reported back as a 400 */
+export class StateLegislatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StateLegislatureError';
+  }
+}
+
+export type OpenstatesDataset = 'jurisdiction' | 'people' | 'bills';
+
+export interface DatasetReport {
+  dataset: string;
+  source: 'file' | 'http' | null;
+  status: 'synced' | 'unchanged' | 'unavailable' | 'failed';
+  rows: number;
+  written: number;
+  retired?: number;
+  error?: string;
+}
+
+export interface StateSyncReport {
+  state: string;
+  datasets: DatasetReport[];
+}
+
+export interface SeatIncumbents {
+  electionId: number;
+  chamber: LegislativeChamber;
+  district: string;
+  incumbents: Array<StateLegislator & { candidateId: number | null }>;
+}
+
+interface LoadedDataset {
+  text: string;
+  source: 'file' | 'http';
+  contentHash: string;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+// New rows: the columns without defaults, plus any others
+type NewSyncState = Pick<OpenstatesSyncState, 'state' | 'dataset'> & Partial<OpenstatesSyncState>;
+type NewChamber = Pick<StateLegislativeChamber, 'state' | 'chamber' | 'name'> & Partial<StateLegislativeChamber>;
+type NewDistrict = Pick<StateLegislativeDistrict, 'state' | 'chamber' | 'district'> & Partial<StateLegislativeDistrict>;
+type NewSession = Pick<StateLegislativeSession, 'state' | 'identifier' | 'name'> & Partial<StateLegislativeSession>;
+type NewLegislator = Pick<StateLegislator, 'openstatesId' | 'state' | 'name'> & Partial<StateLegislator>;
+type NewStateBill = Pick<StateBill, 'openstatesId' | 'state' | 'session' | 'identifier' | 'title'> & Partial<StateBill>;
+// Updates: any column, to a value or a SQL expression
+type Changes<Row> = { [K in keyof Row]?: Row[K] | SQL };
+
+const PEOPLE_CSV_URL = 'https://data.openstates.org/people/current';
+const API_BASE_URL = 'https://v3.openstates.org';
+const UPSERT_CHUNK = 200;
+
+function sha1(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export class StateLegislatureService {
+  private pollingInterval: NodeJS.Timeout | null = null;
+
+  get directory(): string {
+    return process.env.OPENSTATES_BULK_DIR || path.join(process.cwd(), 'data', 'openstates');
+  }
+
+  private get apiKey(): string {
+    return process.env.OPENSTATES_API_KEY || '';
+  }
+
+  private normalizeState(state: string): string {
+    const abbr = state.trim().toUpperCase();
+    if (!OPENSTATES_JURISDICTIONS.includes(abbr)) {
+      throw new StateLegislatureError(`Unknown state: ${state}`);
+    }
+    return abbr;
+  }
+
+  // ============================================================================
+  // SYNC
+  // ============================================================================
+
+  /**
+   * Sync one state's datasets. Jurisdiction runs first so a fresh state
+   * has its chambers and districts before its legislators.
+   */
+  async syncState(state: string, options: { datasets?: OpenstatesDataset[] } = {}): Promise<StateSyncReport> {
+    const abbr = this.normalizeState(state);
+    const wanted = options.datasets ?? ['jurisdiction', 'people', 'bills'];
+    const datasets: DatasetReport[] = [];
+
+    const run = async (dataset: OpenstatesDataset, sync: () => Promise<DatasetReport[]>) => {
+      if (!wanted.includes(dataset)) return;
+      try {
+        datasets.push(...await sync());
+      } catch (error) {
+        console.error(`[OpenStates] ${abbr} ${dataset} sync failed:`, error);
+        datasets.push({
+          dataset, source: null, status: 'failed', rows: 0, written: 0,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    };
+
+    await run('jurisdiction', async () => [await this.syncJurisdiction(abbr)]);
+    await run('people', async () => [await this.syncPeople(abbr)]);
+    await run('bills', () => this.syncBills(abbr));
+    return { state: abbr, datasets };
+  }
+
+  async syncAllStates(options: { datasets?: OpenstatesDataset[] } = {}): Promise<StateSyncReport[]> {
+    const reports: StateSyncReport[] = [];
+    for (const state of OPENSTATES_JURISDICTIONS) {
+      reports.push(await this.syncState(state, options));
+    }
+    return reports;
+  }
+
+  startPolling(intervalHours: number = 24): void {
+    if (this.pollingInterval) return;
+    const run = () => this.syncAllStates()
+      .then(() => this.linkIncumbents())
+      .catch(error => console.error('[OpenStates] Scheduled sync failed:', error));
+    this.pollingInterval = setInterval(run, intervalHours * 60 * 60 * 1000);
+  }
+
+  stopPolling(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+  }
+
+  private async getSyncState(state: string, dataset: string): Promise<OpenstatesSyncState | null> {
+    const [row] = await db.select().from(openstatesSyncState)
+      .where(and(eq(openstatesSyncState.state, state), eq(openstatesSyncState.dataset, dataset)));
+    return row ?? null;
+  }
+
+  private async saveSyncState(
+    state: string,
+    dataset: string,
+    loaded: { source: 'file' | 'http'; contentHash: string | null; etag: string | null; lastModified: string | null },
+    rowCount: number,
+    syncedAt: Date = new Date()
+  ): Promise<void> {
+    const values: Partial<OpenstatesSyncState> = {
+      source: loaded.source,
+      etag: loaded.etag,
+      lastModified: loaded.lastModified,
+      contentHash: loaded.contentHash,
+      rowCount,
+      syncedAt
+    };
+    const row: NewSyncState = { ...values, state, dataset };
+    await db.insert(openstatesSyncState)
+      .values(row)
+      .onConflictDoUpdate({ target: [openstatesSyncState.state, openstatesSyncState.dataset], set: values });
+  }
+
+  /**
+   * Read a dataset from the bulk directory, or download it with the
+   * validators from the last sync. Returns 'unchanged' when the content is
+   * what we last loaded and null when neither source has it.
+   */
+  private async loadDataset(
+    state: string,
+    dataset: string,
+    files: string[],
+    download: { url: string; headers?: Record<string, string> } | null
+  ): Promise<LoadedDataset | 'unchanged' | null> {
+    const previous = await this.getSyncState(state, dataset);
+
+    for (const file of files) {
+      const text = await readIfExists(path.join(this.directory, file));
+      if (text === null) continue;
+      const contentHash = sha1(text);
+      if (previous?.contentHash === contentHash) return 'unchanged';
+      return { text, source: 'file', contentHash, etag: null, lastModified: null };
+    }
+
+    if (!download) return null;
+    const headers: Record<string, string> = { ...download.headers };
+    if (previous?.source === 'http' && previous.etag) headers['If-None-Match'] = previous.etag;
+    if (previous?.source === 'http' && previous.lastModified) headers['If-Modified-Since'] = previous.lastModified;
+
+    const response = await fetch(download.url, { headers });
+    if (response.status === 304) return 'unchanged';
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`OpenStates ${dataset} download failed: ${response.status} ${response.statusText}`);
+    }
+    const text = await response.text();
+    const contentHash = sha1(text);
+    if (previous?.contentHash === contentHash) return 'unchanged';
+    return {
+      text,
+      source: 'http',
+      contentHash,
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified')
+    };
+  }
+
+  private apiDownload(url: string): { url: string; headers: Record<string, string> } | null {
+    return this.apiKey ? { url, headers: { 'X-API-KEY': this.apiKey } } : null;
+  }
+
+  /**
+   * Chambers, districts and session calendar from {st}-jurisdiction.json
+   * or the v3 jurisdiction endpoint
+   */
+  private async syncJurisdiction(state: string): Promise<DatasetReport> {
+    const abbr = state.toLowerCase();
+    const url = `${API_BASE_URL}/jurisdictions/${encodeURIComponent(jurisdictionId(state))}?include=organizations&include=legislative_sessions`;
+    const loaded = await this.loadDataset(state, 'jurisdiction', [`${abbr}-jurisdiction.json`, path.join('jurisdictions', `${abbr}.json`)], this.apiDownload(url));
+    if (!loaded || loaded === 'unchanged') {
+      return { dataset: 'jurisdiction', source: null, status: loaded ? 'unchanged' : 'unavailable', rows: 0, written: 0 };
+    }
+
+    const { chambers, districts, sessions } = parseJurisdiction(JSON.parse(loaded.text), state);
+    const now = new Date();
+
+    for (const chamber of chambers) {
+      const { state: _state, chamber: _chamber, ...fields } = chamber;
+      const row: NewChamber = { ...chamber, updatedAt: now };
+      const changes: Changes<StateLegislativeChamber> = { ...fields, updatedAt: now };
+      await db.insert(stateLegislativeChambers)
+        .values(row)
+        .onConflictDoUpdate({ target: [stateLegislativeChambers.state, stateLegislativeChambers.chamber], set: changes });
+    }
+    const districtChanges: Changes<StateLegislativeDistrict> = { divisionId: sql`excluded.division_id`, seats: sql`excluded.seats`, updatedAt: now };
+    for (let i = 0; i < districts.length; i += UPSERT_CHUNK) {
+      const rows: NewDistrict[] = districts.slice(i, i + UPSERT_CHUNK).map(d => ({ ...d, updatedAt: now }));
+      await db.insert(stateLegislativeDistricts)
+        .values(rows)
+        .onConflictDoUpdate({
+          target: [stateLegislativeDistricts.state, stateLegislativeDistricts.chamber, stateLegislativeDistricts.district],
+          set: districtChanges
+        });
+    }
+    for (const session of sessions) {
+      const { state: _state, identifier, ...fields } = session;
+      const row: NewSession = { ...session, updatedAt: now };
+      const changes: Changes<StateLegislativeSession> = { ...fields, updatedAt: now };
+      await db.insert(stateLegislativeSessions)
+        .values(row)
+        .onConflictDoUpdate({ target: [stateLegislativeSessions.state, stateLegislativeSessions.identifier], set: changes });
+    }
+
+    const rows = chambers.length + districts.length + sessions.length;
+    await this.saveSyncState(state, 'jurisdiction', loaded, rows);
+    return { dataset: 'jurisdiction', source: loaded.source, status: 'synced', rows, written: rows };
+  }
+
+  /**
+   * Current legislators from {st}.csv. Anyone no longer in the current
+   * dump has left office and is marked not current.
+   */
+  private async syncPeople(state: string): Promise<DatasetReport> {
+    const abbr = state.toLowerCase();
+    const loaded = await this.loadDataset(state, 'people', [`${abbr}.csv`, path.join('people', `${abbr}.csv`)], { url: `${PEOPLE_CSV_URL}/${abbr}.csv` });
+    if (!loaded || loaded === 'unchanged') {
+      return { dataset: 'people', source: null, status: loaded ? 'unchanged' : 'unavailable', rows: 0, written: 0 };
+    }
+
+    const records = parsePeopleCsv(loaded.text, state);
+    if (records.length === 0) {
+      throw new Error(`OpenStates people file for ${state} has no legislators`);
+    }
+
+    const existing = await db.select({ openstatesId: stateLegislators.openstatesId, sourceHash: stateLegislators.sourceHash, isCurrent: stateLegislators.isCurrent })
+      .from(stateLegislators)
+      .where(eq(stateLegislators.state, state));
+    const known = new Map(existing.map(row => [row.openstatesId, row]));
+    const now = new Date();
+
+    let written = 0;
+    for (const record of records) {
+      const sourceHash = recordHash(record);
+      const current = known.get(record.openstatesId);
+      if (current && current.sourceHash === sourceHash && current.isCurrent) continue;
+      const { openstatesId, ...fields } = record;
+      const row: NewLegislator = { ...record, isCurrent: true, sourceHash, updatedAt: now };
+      const changes: Changes<StateLegislator> = { ...fields, isCurrent: true, sourceHash, updatedAt: now };
+      await db.insert(stateLegislators)
+        .values(row)
+        .onConflictDoUpdate({ target: stateLegislators.openstatesId, set: changes });
+      written++;
+    }
+
+    const inDump = new Set(records.map(r => r.openstatesId));
+    const departed = existing.filter(row => row.isCurrent && !inDump.has(row.openstatesId)).map(row => row.openstatesId);
+    if (departed.length > 0) {
+      const retired: Changes<StateLegislator> = { isCurrent: false, updatedAt: now };
+      await db.update(stateLegislators)
+        .set(retired)
+        .where(inArray(stateLegislators.openstatesId, departed));
+    }
+
+    await this.saveSyncState(state, 'people', loaded, records.length);
+    return { dataset: 'people', source: loaded.source, status: 'synced', rows: records.length, written, retired: departed.length };
+  }
+
+  /**
+   * Bills from the per-session bulk CSVs in {ST}/{session}/ when the state
+   * has a bulk directory, otherwise the bills the v3 API reports as
+   * updated since the last sync
+   */
+  private async syncBills(state: string): Promise<DatasetReport[]> {
+    const stateDir = path.join(this.directory, state);
+    let sessions: string[] = [];
+    try {
+      sessions = (await fs.readdir(stateDir, { withFileTypes: true })).filter(e => e.isDirectory()).map(e => e.name).sort();
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+
+    if (sessions.length === 0) return [await this.syncUpdatedBills(state)];
+
+    const reports: DatasetReport[] = [];
+    for (const session of sessions) {
+      const files = await fs.readdir(path.join(stateDir, session));
+      const find = (suffix: string) => files.find(f => f.endsWith(suffix));
+      const billsFile = find('_bills.csv');
+      if (!billsFile) continue;
+
+      const dataset = `bills:${session}`;
+      const read = (file: string | undefined) => file ? fs.readFile(path.join(stateDir, session, file), 'utf8') : Promise.resolve(null);
+      const [bills, actions, sponsorships] = await Promise.all([read(billsFile), read(find('_bill_actions.csv')), read(find('_bill_sponsorships.csv'))]);
+      const contentHash = sha1([bills, actions ?? '', sponsorships ?? ''].join('\u0000'));
+
+      const previous = await this.getSyncState(state, dataset);
+      if (previous?.contentHash === contentHash) {
+        reports.push({ dataset, source: 'file', status: 'unchanged', rows: 0, written: 0 });
+        continue;
+      }
+
+      const records = parseBillsCsv(state, { bills: bills!, actions, sponsorships });
+      const written = await this.upsertBills(records);
+      await this.saveSyncState(state, dataset, { source: 'file', contentHash, etag: null, lastModified: null }, records.length);
+      reports.push({ dataset, source: 'file', status: 'synced', rows: records.length, written });
+    }
+    return reports;
+  }
+
+  private async syncUpdatedBills(state: string, maxPages: number = 20): Promise<DatasetReport> {
+    if (!this.apiKey) {
+      return { dataset: 'bills', source: null, status: 'unavailable', rows: 0, written: 0 };
+    }
+
+    const startedAt = new Date();
+    const previous = await this.getSyncState(state, 'bills');
+    const records: StateBillRecord[] = [];
+    let lastUpdatedAt: string | null = null;
+    let capped = true;
+
+    for (let page = 1; page <= maxPages; page++) {
+      const params = new URLSearchParams({ jurisdiction: jurisdictionId(state), sort: 'updated_asc', per_page: '20', page: String(page) });
+      params.append('include', 'sponsorships');
+      params.append('include', 'actions');
+      if (previous?.syncedAt) params.set('updated_since', previous.syncedAt.toISOString().slice(0, 19));
+
+      const response = await fetch(`${API_BASE_URL}/bills?${params}`, { headers: { 'X-API-KEY': this.apiKey } });
+      if (!response.ok) {
+        throw new Error(`OpenStates bills request failed: ${response.status} ${response.statusText}`);
+      }
+      const body = await response.json();
+      for (const bill of body.results ?? []) {
+        records.push(parseApiBill(bill, state));
+        lastUpdatedAt = bill.updated_at ?? lastUpdatedAt;
+      }
+      if (page >= (body.pagination?.max_page ?? page)) {
+        capped = false;
+        break;
+      }
+    }
+
+    const written = await this.upsertBills(records);
+    // A capped run resumes from the last bill it reached, oldest updates first
+    const cursor = capped && lastUpdatedAt ? new Date(lastUpdatedAt) : startedAt;
+    await this.saveSyncState(state, 'bills', { source: 'http', contentHash: null, etag: null, lastModified: null }, records.length, cursor);
+    return { dataset: 'bills', source: 'http', status: 'synced', rows: records.length, written };
+  }
+
+  private async upsertBills(records: StateBillRecord[]): Promise<number> {
+    let written = 0;
+    const now = new Date();
+    for (let i = 0; i < records.length; i += UPSERT_CHUNK) {
+      const chunk = records.slice(i, i + UPSERT_CHUNK);
+      const existing = await db.select({ openstatesId: stateBills.openstatesId, sourceHash: stateBills.sourceHash })
+        .from(stateBills)
+        .where(inArray(stateBills.openstatesId, chunk.map(r => r.openstatesId)));
+      const hashes = new Map(existing.map(row => [row.openstatesId, row.sourceHash]));
+
+      for (const record of chunk) {
+        const sourceHash = recordHash(record);
+        if (hashes.get(record.openstatesId) === sourceHash) continue;
+        const { openstatesId, ...fields } = record;
+        const row: NewStateBill = { ...record, sourceHash, updatedAt: now };
+        const changes: Changes<StateBill> = { ...fields, sourceHash, updatedAt: now };
+        await db.insert(stateBills)
+          .values(row)
+          .onConflictDoUpdate({ target: stateBills.openstatesId, set: changes });
+        written++;
+      }
+    }
+    return written;
+  }
+
+  // ============================================================================
+  // INCUMBENTS
+  // ============================================================================
+
+  /**
+   * Link each state legislative race's candidates to the legislators
+   * currently holding that seat, marking them as incumbents
+   */
+  async linkIncumbents(state?: string): Promise<{ checked: number; linked: number; unmatched: Array<{ electionId: number; legislator: string }> }> {
+    const abbr = state ? this.normalizeState(state) : null;
+    const races = await db.select().from(elections)
+      .where(and(
+        sql`lower(${elections.level}) = 'state'`,
+        eq(elections.isActive, true),
+        abbr ? eq(elections.state, abbr) : undefined
+      ));
+
+    const unmatched: Array<{ electionId: number; legislator: string }> = [];
+    let checked = 0;
+    let linked = 0;
+    for (const election of races) {
+      const seat = seatForElection(election);
+      if (!seat) continue;
+      checked++;
+
+      const holders = await this.findSeatHolders(election.state, seat.chamber, seat.district);
+      const running = await db.select({ id: candidates.id, name: candidates.name, openstatesId: candidates.openstatesId })
+        .from(candidates)
+        .where(eq(candidates.electionId, election.id));
+
+      for (const legislator of holders) {
+        const already = running.find(c => c.openstatesId === legislator.openstatesId);
+        const match = already ?? matchCandidate(legislator.name, running.filter(c => !c.openstatesId));
+        if (!match) {
+          unmatched.push({ electionId: election.id, legislator: legislator.name });
+          continue;
+        }
+        if (!already) {
+          const incumbent: Changes<Candidate> = { openstatesId: legislator.openstatesId, isIncumbent: true };
+          await db.update(candidates)
+            .set(incumbent)
+            .where(eq(candidates.id, match.id));
+          running.find(c => c.id === match.id)!.openstatesId = legislator.openstatesId;
+          linked++;
+        }
+      }
+    }
+    return { checked, linked, unmatched };
+  }
+
+  private async findSeatHolders(state: string, chamber: LegislativeChamber, district: string): Promise<StateLegislator[]> {
+    const legislators = await db.select().from(stateLegislators)
+      .where(and(eq(stateLegislators.state, state), eq(stateLegislators.chamber, chamber), eq(stateLegislators.isCurrent, true)));
+    return seatHolders(legislators, chamber, district);
+  }
+
+  /**
+   * The legislators currently holding the seat a race is for, with the
+   * candidate each is linked to when they are running again
+   */
+  async getIncumbents(electionId: number): Promise<SeatIncumbents | null> {
+    const [election] = await db.select().from(elections).where(eq(elections.id, electionId));
+    if (!election) return null;
+    const seat = seatForElection(election);
+    if (!seat) {
+      throw new StateLegislatureError('Election is not a state legislative race');
+    }
+
+    const holders = await this.findSeatHolders(election.state, seat.chamber, seat.district);
+    const linked = holders.length > 0
+      ? await db.select({ id: candidates.id, openstatesId: candidates.openstatesId })
+        .from(candidates)
+        .where(and(eq(candidates.electionId, electionId), inArray(candidates.openstatesId, holders.map(h => h.openstatesId))))
+      : [];
+
+    return {
+      electionId,
+      ...seat,
+      incumbents: holders.map(legislator => ({
+        ...legislator,
+        candidateId: linked.find(c => c.openstatesId === legislator.openstatesId)?.id ?? null
+      }))
+    };
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  async listChambers(state: string): Promise<Array<StateLegislativeChamber & { districts: number }>> {
+    const abbr = this.normalizeState(state);
+    const chambers = await db.select().from(stateLegislativeChambers)
+      .where(eq(stateLegislativeChambers.state, abbr))
+      .orderBy(asc(stateLegislativeChambers.chamber));
+    const counts = await db.select({ chamber: stateLegislativeDistricts.chamber, count: sql<number>`count(*)::int` })
+      .from(stateLegislativeDistricts)
+      .where(eq(stateLegislativeDistricts.state, abbr))
+      .groupBy(stateLegislativeDistricts.chamber);
+    return chambers.map(chamber => ({ ...chamber, districts: counts.find(c => c.chamber === chamber.chamber)?.count ?? 0 }));
+  }
+
+  async listLegislators(state: string, filters: { chamber?: LegislativeChamber; district?: string; includeFormer?: boolean } = {}): Promise<StateLegislator[]> {
+    const abbr = this.normalizeState(state);
+    const legislators = await db.select().from(stateLegislators)
+      .where(and(
+        eq(stateLegislators.state, abbr),
+        filters.chamber ? eq(stateLegislators.chamber, filters.chamber) : undefined,
+        filters.includeFormer ? undefined : eq(stateLegislators.isCurrent, true)
+      ))
+      .orderBy(asc(stateLegislators.chamber), asc(stateLegislators.familyName), asc(stateLegislators.name));
+    return filters.district && filters.chamber ? seatHolders(legislators, filters.chamber, filters.district) : legislators;
+  }
+
+  async listSessions(state: string): Promise<StateLegislativeSession[]> {
+    const abbr = this.normalizeState(state);
+    return db.select().from(stateLegislativeSessions)
+      .where(eq(stateLegislativeSessions.state, abbr))
+      .orderBy(desc(stateLegislativeSessions.startDate));
+  }
+
+  async searchBills(
+    state: string,
+    filters: { session?: string; search?: string; subject?: string; sponsor?: string; limit?: number; offset?: number } = {}
+  ): Promise<StateBill[]> {
+    const abbr = this.normalizeState(state);
+    const term = filters.search?.trim();
+    return db.select().from(stateBills)
+      .where(and(
+        eq(stateBills.state, abbr),
+        filters.session ? eq(stateBills.session, filters.session) : undefined,
+        term ? or(ilike(stateBills.title, `%${term}%`), ilike(stateBills.identifier, `%${term}%`)) : undefined,
+        filters.subject ? sql`${filters.subject} = ANY(${stateBills.subjects})` : undefined,
+        filters.sponsor ? sql`${stateBills.sponsors} @> ${JSON.stringify([{ personId: filters.sponsor }])}::jsonb` : undefined
+      ))
+      .orderBy(sql`${stateBills.latestActionDate} DESC NULLS LAST`)
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+  }
+}
+
+export const stateLegislatureService = new StateLegislatureService();
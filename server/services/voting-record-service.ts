@@ -0,0 +1,419 @@
+/**
+ * Voting Record Service
+ * Stores House and Senate roll calls per member (by bioguide ID), links
+ * sitting members to the incumbent candidates running again, and serves
+ * each incumbent's voting-record analytics.
+ */
+
+import { db } from '../db';
+import { and, desc, eq, inArray, isNull, or, sql, type SQL } from 'drizzle-orm';
+import {
+  billCosponsorships,
+  candidates,
+  congressMembers,
+  elections,
+  memberVotes,
+  rollCallVotes
+} from '@shared/schema';
+import type {
+  BillCosponsorship,
+  Candidate,
+  CongressMember as CongressMemberRow,
+  MemberVote,
+  RollCallVote
+} from '@shared/schema';
+import { getCongressBillService, type CongressBillService } from '../congress-bill-service';
+import { matchCandidate } from '../lib/results-feeds';
+import {
+  bipartisanIndex,
+  computeVotingMetrics,
+  displayName,
+  keyVotePositions,
+  normalizeParty,
+  parseHouseVoteListItem,
+  parseHouseVoteMembers,
+  parseSenateVoteMenu,
+  parseSenateVoteXml,
+  partyMajorities,
+  policyAreaToCategory,
+  type BipartisanIndex,
+  type CosponsorshipRow,
+  type KeyVotePosition,
+  type ParsedMemberVote,
+  type ParsedRollCall,
+  type PartyTally,
+  type VotePosition,
+  type VotingMetrics
+} from '../lib/voting-record';
+
+// New rows: the columns without defaults, plus any others
+type NewRollCall = Pick<RollCallVote, 'chamber' | 'congress' | 'session' | 'rollCallNumber'> & Partial<RollCallVote>;
+type NewMemberVote = Omit<MemberVote, 'id'>;
+type NewCosponsorship = Pick<BillCosponsorship, 'congress' | 'billType' | 'billNumber' | 'sponsorBioguideId' | 'cosponsorBioguideId'>
+  & Partial<BillCosponsorship>;
+// Updates: any column, to a value or a SQL expression
+type Changes<Row> = { [K in keyof Row]?: Row[K] | SQL };
+
+const SENATE_LIS_URL = 'https://www.senate.gov/legislative/LIS';
+const HOUSE_PAGE_SIZE = 250;
+const INSERT_CHUNK = 500;
+const RECENT_VOTES = 10;
+
+/** Bad request data - reported back as a 400 */
+export class VotingRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VotingRecordError';
+  }
+}
+
+export interface SyncReport {
+  chamber: 'House' | 'Senate';
+  congress: number;
+  session: number;
+  listed: number;
+  stored: number;
+  skipped: number;
+  unresolvedMembers: number;
+}
+
+export interface VotingRecord {
+  candidateId: number;
+  bioguideId: string | null;
+  member: CongressMemberRow | null;
+  metrics: VotingMetrics | null;
+  bipartisan: BipartisanIndex | null;
+  keyVotes: Record<string, KeyVotePosition[]>;
+  recentVotes: Array<{
+    rollCallId: number;
+    chamber: string;
+    rollCallNumber: number;
+    voteDate: string | null;
+    question: string | null;
+    result: string | null;
+    position: VotePosition;
+  }>;
+}
+
+function requireCongressApi(): CongressBillService {
+  const service = getCongressBillService();
+  if (!service) throw new VotingRecordError('Congress API key not configured');
+  return service;
+}
+
+/** 'Senate' or 'House' for a federal race, from its title and offices */
+function chamberForElection(election: { title: string; offices: string[] | null }): 'House' | 'Senate' | null {
+  const text = [election.title, ...(election.offices ?? [])].join(' ').toLowerCase();
+  if (text.includes('senate') || text.includes('senator')) return 'Senate';
+  if (text.includes('house') || text.includes('representative') || text.includes('congress')) return 'House';
+  return null;
+}
+
+export class VotingRecordService {
+  /**
+   * Store House roll calls for a session that are not stored yet, with
+   * every member's vote. The bill's policy area sets the issue category.
+   */
+  async syncHouseVotes(congress: number, session: number, options: { limit?: number } = {}): Promise<SyncReport> {
+    const api = requireCongressApi();
+    const limit = options.limit ?? 100;
+    const report: SyncReport = { chamber: 'House', congress, session, listed: 0, stored: 0, skipped: 0, unresolvedMembers: 0 };
+
+    const stored = await this.storedRollCallNumbers('House', congress, session);
+    const policyAreas = new Map<string, string | null>();
+
+    for (let offset = 0; report.stored < limit; offset += HOUSE_PAGE_SIZE) {
+      const page = await api.fetchHouseVotes(String(congress), String(session), offset, HOUSE_PAGE_SIZE);
+      if (page.length === 0) break;
+      report.listed += page.length;
+
+      for (const item of page) {
+        if (report.stored >= limit) break;
+        const rollCall = parseHouseVoteListItem(item);
+        if (stored.has(rollCall.rollCallNumber)) {
+          report.skipped++;
+          continue;
+        }
+
+        const members = parseHouseVoteMembers(await api.fetchHouseVoteMembers(congress, session, rollCall.rollCallNumber));
+        if (members.votes.length === 0) {
+          report.skipped++;
+          continue;
+        }
+        rollCall.question = rollCall.question ?? members.question;
+        report.unresolvedMembers += members.votes.filter(v => !v.bioguideId).length;
+
+        const policyArea = await this.policyAreaFor(api, rollCall, policyAreas);
+        await this.storeRollCall(rollCall, members.votes, policyArea);
+        report.stored++;
+      }
+      if (page.length < HOUSE_PAGE_SIZE) break;
+    }
+
+    return report;
+  }
+
+  /**
+   * Store Senate roll calls from senate.gov. The XML identifies senators
+   * by LIS id and name only, so votes are matched to bioguide IDs through
+   * congressMembers by state and surname.
+   */
+  async syncSenateVotes(congress: number, session: number, options: { limit?: number } = {}): Promise<SyncReport> {
+    const limit = options.limit ?? 100;
+    const report: SyncReport = { chamber: 'Senate', congress, session, listed: 0, stored: 0, skipped: 0, unresolvedMembers: 0 };
+
+    const menu = await this.fetchText(`${SENATE_LIS_URL}/roll_call_lists/vote_menu_${congress}_${session}.xml`);
+    const numbers = parseSenateVoteMenu(menu).sort((a, b) => a - b);
+    report.listed = numbers.length;
+
+    const stored = await this.storedRollCallNumbers('Senate', congress, session);
+    const senators = await db.select().from(congressMembers).where(sql`lower(${congressMembers.chamber}) = 'senate'`);
+    const api = getCongressBillService();
+    const policyAreas = new Map<string, string | null>();
+
+    for (const number of numbers) {
+      if (report.stored >= limit) break;
+      if (stored.has(number)) {
+        report.skipped++;
+        continue;
+      }
+
+      const padded = String(number).padStart(5, '0');
+      const xml = await this.fetchText(`${SENATE_LIS_URL}/roll_call_votes/vote${congress}${session}/vote_${congress}_${session}_${padded}.xml`);
+      const { rollCall, votes } = parseSenateVoteXml(xml);
+      for (const vote of votes) {
+        vote.bioguideId = this.resolveSenator(vote, senators);
+        if (!vote.bioguideId) report.unresolvedMembers++;
+      }
+
+      const policyArea = api ? await this.policyAreaFor(api, rollCall, policyAreas) : null;
+      await this.storeRollCall(rollCall, votes, policyArea);
+      report.stored++;
+    }
+
+    return report;
+  }
+
+  private resolveSenator(vote: ParsedMemberVote, senators: CongressMemberRow[]): string | null {
+    if (!vote.lastName || !vote.state) return null;
+    const inState = senators.filter(s => s.state === vote.state);
+    const match = matchCandidate(`${vote.firstName ?? ''} ${vote.lastName}`, inState.map(s => ({ id: s.id, name: displayName(s.name) })));
+    return match ? inState.find(s => s.id === match.id)!.bioguideId : null;
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(30000) });
+    if (!response.ok) throw new VotingRecordError(`Fetch failed for ${url}: ${response.status}`);
+    return response.text();
+  }
+
+  private async storedRollCallNumbers(chamber: string, congress: number, session: number): Promise<Set<number>> {
+    const rows = await db.select({ number: rollCallVotes.rollCallNumber }).from(rollCallVotes).where(and(
+      eq(rollCallVotes.chamber, chamber),
+      eq(rollCallVotes.congress, congress),
+      eq(rollCallVotes.session, session)
+    ));
+    return new Set(rows.map(row => row.number));
+  }
+
+  private async policyAreaFor(api: CongressBillService, rollCall: ParsedRollCall, cache: Map<string, string | null>): Promise<string | null> {
+    if (!rollCall.billType || !rollCall.billNumber) return null;
+    const key = `${rollCall.congress}-${rollCall.billType}-${rollCall.billNumber}`;
+    if (!cache.has(key)) {
+      const bill = await api.fetchBill(rollCall.congress, rollCall.billType, rollCall.billNumber);
+      cache.set(key, bill?.policyArea?.name ?? null);
+    }
+    return cache.get(key) ?? null;
+  }
+
+  private async storeRollCall(rollCall: ParsedRollCall, votes: ParsedMemberVote[], policyArea: string | null): Promise<void> {
+    const values: NewRollCall = { ...rollCall, policyArea, issueCategory: policyAreaToCategory(policyArea) };
+    const changes: Changes<RollCallVote> = { question: values.question, result: values.result, policyArea };
+    const [row] = await db.insert(rollCallVotes)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [rollCallVotes.chamber, rollCallVotes.congress, rollCallVotes.session, rollCallVotes.rollCallNumber],
+        set: changes
+      })
+      .returning({ id: rollCallVotes.id });
+
+    const memberRows: NewMemberVote[] = votes
+      .filter(vote => vote.bioguideId)
+      .map(vote => ({ rollCallId: row.id, bioguideId: vote.bioguideId, party: vote.party, state: vote.state, position: vote.position }));
+    for (let i = 0; i < memberRows.length; i += INSERT_CHUNK) {
+      await db.insert(memberVotes).values(memberRows.slice(i, i + INSERT_CHUNK)).onConflictDoNothing();
+    }
+  }
+
+  /**
+   * Store sponsor/cosponsor pairs for the member's sponsored and
+   * cosponsored bills (most recent first, up to `limit` of each)
+   */
+  async syncCosponsorships(bioguideId: string, options: { limit?: number } = {}): Promise<{ sponsored: number; cosponsored: number; rows: number }> {
+    const api = requireCongressApi();
+    const limit = options.limit ?? 50;
+    const [member] = await db.select().from(congressMembers).where(eq(congressMembers.bioguideId, bioguideId));
+    if (!member) throw new VotingRecordError(`No congress member with bioguide ID ${bioguideId}`);
+    const party = normalizeParty(member.party);
+
+    const rows: Array<CosponsorshipRow & NewCosponsorship> = [];
+    const sponsored = (await api.fetchSponsoredLegislation(bioguideId, limit)).filter(bill => bill.type && bill.number);
+    for (const bill of sponsored) {
+      for (const cosponsor of await api.fetchBillCosponsors(bill.congress, bill.type, bill.number)) {
+        rows.push({
+          congress: bill.congress,
+          billType: String(bill.type).toLowerCase(),
+          billNumber: String(bill.number),
+          sponsorBioguideId: bioguideId,
+          sponsorParty: party,
+          cosponsorBioguideId: cosponsor.bioguideId,
+          cosponsorParty: normalizeParty(cosponsor.party),
+          policyArea: bill.policyArea?.name ?? null,
+          cosponsoredAt: cosponsor.sponsorshipDate ? new Date(cosponsor.sponsorshipDate) : null
+        });
+      }
+    }
+
+    const cosponsored = (await api.fetchCosponsoredLegislation(bioguideId, limit)).filter(bill => bill.type && bill.number);
+    for (const bill of cosponsored) {
+      const detail = await api.fetchBill(bill.congress, bill.type, bill.number);
+      const sponsor = detail?.sponsors?.[0];
+      if (!sponsor?.bioguideId) continue;
+      rows.push({
+        congress: bill.congress,
+        billType: String(bill.type).toLowerCase(),
+        billNumber: String(bill.number),
+        sponsorBioguideId: sponsor.bioguideId,
+        sponsorParty: normalizeParty(sponsor.party),
+        cosponsorBioguideId: bioguideId,
+        cosponsorParty: party,
+        policyArea: bill.policyArea?.name ?? detail?.policyArea?.name ?? null,
+        cosponsoredAt: null
+      });
+    }
+
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+      await db.insert(billCosponsorships).values(rows.slice(i, i + INSERT_CHUNK)).onConflictDoNothing();
+    }
+    return { sponsored: sponsored.length, cosponsored: cosponsored.length, rows: rows.length };
+  }
+
+  /**
+   * Link incumbent candidates in federal races to their congressMembers
+   * row by state, chamber and name
+   */
+  async linkIncumbents(): Promise<{ checked: number; linked: number; unmatched: Array<{ candidateId: number; name: string }> }> {
+    const rows = await db.select({ candidate: candidates, election: elections })
+      .from(candidates)
+      .innerJoin(elections, eq(candidates.electionId, elections.id))
+      .where(and(
+        eq(candidates.isIncumbent, true),
+        isNull(candidates.bioguideId),
+        sql`lower(${elections.level}) = 'federal'`
+      ));
+
+    const unmatched: Array<{ candidateId: number; name: string }> = [];
+    let linked = 0;
+    for (const { candidate, election } of rows) {
+      const bioguideId = await this.findMember(candidate, election);
+      if (bioguideId) {
+        const link: Changes<Candidate> = { bioguideId };
+        await db.update(candidates).set(link).where(eq(candidates.id, candidate.id));
+        linked++;
+      } else {
+        unmatched.push({ candidateId: candidate.id, name: candidate.name });
+      }
+    }
+    return { checked: rows.length, linked, unmatched };
+  }
+
+  private async findMember(
+    candidate: Pick<Candidate, 'name'>,
+    election: { state: string; title: string; offices: string[] | null }
+  ): Promise<string | null> {
+    const chamber = chamberForElection(election);
+    const members = await db.select().from(congressMembers).where(eq(congressMembers.state, election.state));
+    const eligible = members.filter(m => !chamber || m.chamber.toLowerCase() === chamber.toLowerCase());
+    const match = matchCandidate(candidate.name, eligible.map(m => ({ id: m.id, name: displayName(m.name) })));
+    return match ? eligible.find(m => m.id === match.id)!.bioguideId : null;
+  }
+
+  async setKeyVote(rollCallId: number, updates: { isKeyVote?: boolean; issueCategory?: string | null }): Promise<RollCallVote | null> {
+    const changes: Changes<RollCallVote> = updates;
+    const [row] = await db.update(rollCallVotes).set(changes).where(eq(rollCallVotes.id, rollCallId)).returning();
+    return row ?? null;
+  }
+
+  /**
+   * The candidate's voting record. An unlinked incumbent is linked on the
+   * way; candidates who have never served get an empty record.
+   */
+  async getVotingRecord(candidateId: number, options: { congress?: number } = {}): Promise<VotingRecord | null> {
+    const [row] = await db.select({ candidate: candidates, election: elections })
+      .from(candidates)
+      .leftJoin(elections, eq(candidates.electionId, elections.id))
+      .where(eq(candidates.id, candidateId));
+    if (!row) return null;
+
+    let bioguideId = row.candidate.bioguideId;
+    if (!bioguideId && row.candidate.isIncumbent && row.election) {
+      bioguideId = await this.findMember(row.candidate, row.election);
+      if (bioguideId) {
+        const link: Changes<Candidate> = { bioguideId };
+        await db.update(candidates).set(link).where(eq(candidates.id, candidateId));
+      }
+    }
+
+    const empty: VotingRecord = { candidateId, bioguideId, member: null, metrics: null, bipartisan: null, keyVotes: {}, recentVotes: [] };
+    if (!bioguideId) return empty;
+
+    const [member] = await db.select().from(congressMembers).where(eq(congressMembers.bioguideId, bioguideId));
+    const party = normalizeParty(member?.party ?? row.candidate.party);
+
+    const votes = await db.select({ rollCall: rollCallVotes, position: memberVotes.position })
+      .from(memberVotes)
+      .innerJoin(rollCallVotes, eq(memberVotes.rollCallId, rollCallVotes.id))
+      .where(and(
+        eq(memberVotes.bioguideId, bioguideId),
+        options.congress ? eq(rollCallVotes.congress, options.congress) : undefined
+      ))
+      .orderBy(desc(rollCallVotes.voteDate));
+
+    const rollCallIds = votes.map(v => v.rollCall.id);
+    const tallies: PartyTally[] = rollCallIds.length === 0 ? [] : (await db.select({
+      rollCallId: memberVotes.rollCallId,
+      party: memberVotes.party,
+      position: memberVotes.position,
+      count: sql<number>`count(*)::int`
+    })
+      .from(memberVotes)
+      .where(inArray(memberVotes.rollCallId, rollCallIds))
+      .groupBy(memberVotes.rollCallId, memberVotes.party, memberVotes.position)) as PartyTally[];
+    const majorities = partyMajorities(tallies);
+
+    const positions = votes.map(v => ({ rollCallId: v.rollCall.id, position: v.position as VotePosition }));
+    const cosponsorships = await db.select().from(billCosponsorships).where(or(
+      eq(billCosponsorships.sponsorBioguideId, bioguideId),
+      eq(billCosponsorships.cosponsorBioguideId, bioguideId)
+    ));
+
+    return {
+      ...empty,
+      member: member ?? null,
+      metrics: computeVotingMetrics(positions, party, majorities),
+      bipartisan: cosponsorships.length > 0 ? bipartisanIndex(bioguideId, party, cosponsorships) : null,
+      keyVotes: keyVotePositions(votes.filter(v => v.rollCall.isKeyVote).map(v => v.rollCall), positions, party, majorities),
+      recentVotes: votes.slice(0, RECENT_VOTES).map(v => ({
+        rollCallId: v.rollCall.id,
+        chamber: v.rollCall.chamber,
+        rollCallNumber: v.rollCall.rollCallNumber,
+        voteDate: v.rollCall.voteDate ? v.rollCall.voteDate.toISOString().slice(0, 10) : null,
+        question: v.rollCall.question,
+        result: v.rollCall.result,
+        position: v.position as VotePosition
+      }))
+    };
+  }
+}
+
+export const votingRecordService = new VotingRecordService();
@@ -0,0 +1,265 @@
+/**
+ * Web Push Notification Service
+ * Browser push over VAPID. Users register each browser's push endpoint;
+ * a push delivery goes to every active device the user has. Endpoints the
+ * push service reports gone are switched off, and a user's push
+ * subscriptions follow whether any device is left.
+ */
+
+import webpush from 'web-push';
+import { db } from '../db';
+import { and, eq, sql, type SQL } from 'drizzle-orm';
+import {
+  notificationPreferences,
+  notificationSubscriptions,
+  pushSubscriptions,
+  type NotificationPreferences,
+  type NotificationSubscription,
+  type WebPushSubscription
+} from '@shared/schema';
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string;
+  tag?: string;
+  deliveryId?: number;
+}
+
+export interface PushDeliveryResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  statusCode?: number;
+  devices: number;
+}
+
+export interface PushDeviceRegistration {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+// New rows: the columns without defaults, plus any others
+type NewDevice = Pick<WebPushSubscription, 'userId' | 'endpoint' | 'p256dh' | 'auth'> & Partial<WebPushSubscription>;
+type NewSubscription = Pick<NotificationSubscription, 'userId' | 'subscriptionType' | 'channel'> & Partial<NotificationSubscription>;
+// Updates: any column, to a value or a SQL expression
+type DeviceChanges = { [K in keyof WebPushSubscription]?: WebPushSubscription[K] | SQL };
+
+// Alert streams a browser joins when it is registered for push
+const PUSH_SUBSCRIPTION_TYPES = ['election_alerts', 'legislation_alerts'];
+const GONE_STATUSES = [404, 410];
+const URGENCY: Record<string, 'low' | 'normal' | 'high'> = { low: 'low', normal: 'normal', high: 'high', urgent: 'high' };
+
+export class WebPushNotificationService {
+  private isConfigured: boolean = false;
+  private publicKey: string = '';
+
+  constructor() {
+    this.initialize();
+  }
+
+  private initialize() {
+    try {
+      const publicKey = process.env.VAPID_PUBLIC_KEY;
+      const privateKey = process.env.VAPID_PRIVATE_KEY;
+      const subject = process.env.VAPID_SUBJECT || 'mailto:notifications@electiontracker.app';
+
+      if (!publicKey || !privateKey) {
+        console.warn('VAPID keys not found - push notifications will be disabled');
+        console.warn('Required: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY (optional: VAPID_SUBJECT)');
+        return;
+      }
+
+      webpush.setVapidDetails(subject, publicKey, privateKey);
+      this.publicKey = publicKey;
+      this.isConfigured = true;
+      console.log('✅ Web Push notification service initialized');
+    } catch (error) {
+      console.error('❌ Failed to initialize Web Push service:', error);
+    }
+  }
+
+  /**
+   * The application server key browsers subscribe with
+   */
+  getPublicKey(): string | null {
+    return this.isConfigured ? this.publicKey : null;
+  }
+
+  /**
+   * Register a browser, or hand an endpoint that changed owner to the
+   * user now signed in on it. The previous owner may have lost their last
+   * device, so their subscriptions are brought in step too.
+   */
+  async registerDevice(userId: string, registration: PushDeviceRegistration, userAgent?: string): Promise<WebPushSubscription> {
+    const [previous] = await db.select({ userId: pushSubscriptions.userId })
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.endpoint, registration.endpoint));
+
+    const row: NewDevice = {
+      userId,
+      endpoint: registration.endpoint,
+      p256dh: registration.keys.p256dh,
+      auth: registration.keys.auth,
+      userAgent: userAgent ?? null
+    };
+    const changes: DeviceChanges = {
+      userId,
+      p256dh: registration.keys.p256dh,
+      auth: registration.keys.auth,
+      userAgent: userAgent ?? null,
+      isActive: true,
+      failureCount: 0,
+      updatedAt: new Date()
+    };
+    const [device] = await db.insert(pushSubscriptions).values(row)
+      .onConflictDoUpdate({ target: pushSubscriptions.endpoint, set: changes })
+      .returning();
+
+    await this.syncSubscriptions(userId);
+    if (previous && previous.userId !== userId) await this.syncSubscriptions(previous.userId);
+    return device;
+  }
+
+  async unregisterDevice(userId: string, endpoint: string): Promise<boolean> {
+    const removal: DeviceChanges = { isActive: false, updatedAt: new Date() };
+    const removed = await db.update(pushSubscriptions)
+      .set(removal)
+      .where(and(eq(pushSubscriptions.userId, userId), eq(pushSubscriptions.endpoint, endpoint)))
+      .returning({ id: pushSubscriptions.id });
+    if (removed.length > 0) await this.syncSubscriptions(userId);
+    return removed.length > 0;
+  }
+
+  async listDevices(userId: string): Promise<WebPushSubscription[]> {
+    return db.select().from(pushSubscriptions)
+      .where(and(eq(pushSubscriptions.userId, userId), eq(pushSubscriptions.isActive, true)));
+  }
+
+  /**
+   * Push to every active device the user has. Succeeds when any device was
+   * accepted; when none was, the status code tells the queue whether to
+   * retry (throttled, server error) or give up (no devices left).
+   */
+  async sendToUser(userId: string, payload: PushPayload, priority: string = 'normal'): Promise<PushDeliveryResult> {
+    if (!this.isConfigured) {
+      return { success: false, error: 'Web Push service not configured - missing VAPID keys', devices: 0 };
+    }
+
+    const devices = await this.listDevices(userId);
+    if (devices.length === 0) {
+      return { success: false, error: 'No active push devices', statusCode: 410, devices: 0 };
+    }
+
+    const body = JSON.stringify(payload);
+    let accepted = 0;
+    let gone = 0;
+    let lastError: { message: string; statusCode?: number } | null = null;
+
+    for (const device of devices) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: device.endpoint, keys: { p256dh: device.p256dh, auth: device.auth } },
+          body,
+          { TTL: 24 * 60 * 60, urgency: URGENCY[priority] ?? 'normal', topic: payload.tag }
+        );
+        accepted++;
+        const success: DeviceChanges = { lastSuccessAt: new Date(), failureCount: 0 };
+        await db.update(pushSubscriptions)
+          .set(success)
+          .where(eq(pushSubscriptions.id, device.id));
+      } catch (error: any) {
+        const statusCode: number | undefined = error?.statusCode;
+        lastError = { message: error?.body || error?.message || 'Unknown push error', statusCode };
+        if (statusCode && GONE_STATUSES.includes(statusCode)) {
+          gone++;
+          const expired: DeviceChanges = { isActive: false, updatedAt: new Date() };
+          await db.update(pushSubscriptions)
+            .set(expired)
+            .where(eq(pushSubscriptions.id, device.id));
+        } else {
+          const failure: DeviceChanges = { failureCount: sql`${pushSubscriptions.failureCount} + 1` };
+          await db.update(pushSubscriptions)
+            .set(failure)
+            .where(eq(pushSubscriptions.id, device.id));
+        }
+      }
+    }
+
+    if (gone > 0) await this.syncSubscriptions(userId);
+    if (accepted > 0) {
+      return { success: true, statusCode: 201, devices: accepted };
+    }
+    return {
+      success: false,
+      error: lastError?.message,
+      // Every device gone is as final as having none
+      statusCode: gone === devices.length ? 410 : lastError?.statusCode,
+      devices: 0
+    };
+  }
+
+  /**
+   * Keep the user's push alert subscriptions and pushEnabled preference in
+   * step with their devices: created and verified with the first device
+   * (the browser's permission prompt is the opt-in), switched off when the
+   * last one goes
+   */
+  private async syncSubscriptions(userId: string): Promise<void> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(pushSubscriptions)
+      .where(and(eq(pushSubscriptions.userId, userId), eq(pushSubscriptions.isActive, true)));
+    const active = count > 0;
+
+    const existing = await db.select().from(notificationSubscriptions)
+      .where(and(eq(notificationSubscriptions.userId, userId), eq(notificationSubscriptions.channel, 'push')));
+    for (const type of PUSH_SUBSCRIPTION_TYPES) {
+      const subscription = existing.find(s => s.subscriptionType === type);
+      if (subscription) {
+        if (subscription.isActive !== active) {
+          const changes: Partial<NotificationSubscription> = { isActive: active, unsubscribedAt: active ? null : new Date(), updatedAt: new Date() };
+          await db.update(notificationSubscriptions)
+            .set(changes)
+            .where(eq(notificationSubscriptions.id, subscription.id));
+        }
+      } else if (active) {
+        const row: NewSubscription = {
+          userId,
+          subscriptionType: type,
+          channel: 'push',
+          targetValue: userId,
+          isVerified: true,
+          verifiedAt: new Date(),
+          isActive: true
+        };
+        await db.insert(notificationSubscriptions).values(row);
+      }
+    }
+
+    const preferences: Partial<NotificationPreferences> = { pushEnabled: active, updatedAt: new Date() };
+    await db.update(notificationPreferences)
+      .set(preferences)
+      .where(eq(notificationPreferences.userId, userId));
+  }
+
+  /**
+   * Check if service is properly configured
+   */
+  isReady(): boolean {
+    return this.isConfigured;
+  }
+
+  /**
+   * Get service status
+   */
+  getStatus(): { configured: boolean; error?: string } {
+    return {
+      configured: this.isConfigured,
+      error: !this.isConfigured ? 'Missing VAPID keys (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY)' : undefined
+    };
+  }
+}
+
+// Export singleton instance
+export const webPushNotificationService = new WebPushNotificationService();
+export default webPushNotificationService;
@@ -6,6 +6,9 @@ CREATE TABLE IF NOT EXISTS polls (
   end_date DATE NOT NULL,
   sample_size INT,
   method TEXT,
+  population TEXT,              -- 'lv', 'rv', 'a', 'v'
+  margin_of_error NUMERIC(4,2),
+  pollster_grade TEXT,          -- published rating, e.g. 'A-', 'B/C'
   created_at TIMESTAMPTZ DEFAULT now()
 );
 
@@ -19,4 +22,4 @@ CREATE TABLE IF NOT EXISTS poll_results (
 );
 
 CREATE INDEX IF NOT EXISTS idx_polls_election_end
-  ON polls(election_id, end_date DESC, id DESC);
\ No newline at end of file
+  ON polls(election_id, end_date DESC, id DESC);
@@ -1,6 +1,7 @@
 import { MemStorage } from "./mem-storage";
 import type { IStorage } from "./storage";
-import { type Election, type InsertElection, type Candidate, type InsertCandidate, type ElectionFilters, type CongressMember, type InsertCongressMember, type User, type UpsertUser, type WatchlistItem, type InsertWatchlistItem, type CandidateAccount, type InsertCandidateAccount, type CandidateProfile, type InsertCandidateProfile, type CandidateDataSource, type InsertCandidateDataSource, type CandidatePosition, type InsertCandidatePosition, type CandidateQA, type InsertCandidateQA } from "@shared/schema";
+import { type Election, type InsertElection, type Candidate, type InsertCandidate, type ElectionFilters, type CongressMember, type InsertCongressMember, type User, type UpsertUser, type WatchlistItem, type InsertWatchlistItem, type CandidateAccount, type InsertCandidateAccount, type CandidateProfile, type InsertCandidateProfile, type CandidateDataSource, type InsertCandidateDataSource, type CandidatePosition, type InsertCandidatePosition, type CandidateQA, type InsertCandidateQA, type CongressionalDistrict } from "@shared/schema";
+import type { FactProvenance, FactHistoryEntry } from "./lib/election-facts";
 
 export enum StorageMode {
   DATABASE = 'database',
@@ -866,12 +867,12 @@ export class StorageFactory implements IStorage {
     return this.currentStorage.getElection(id);
   }
 
-  async createElection(election: InsertElection): Promise<Election> {
+  async createElection(election: InsertElection, provenance?: FactProvenance): Promise<Election> {
     if (this.isReadOnlyMode) {
       throw new Error('Cannot perform write operation in read-only mode');
     }
-    const result = await this.currentStorage.createElection(election);
-    this.queueWriteOperation('createElection', [election]);
+    const result = await this.currentStorage.createElection(election, provenance);
+    this.queueWriteOperation('createElection', [election, provenance]);
     return result;
   }
 
@@ -883,6 +884,35 @@ export class StorageFactory implements IStorage {
     this.queueWriteOperation('deleteElection', [id]);
   }
 
+  async updateElection(id: number, updates: Partial<InsertElection>, provenance: FactProvenance): Promise<Election | undefined> {
+    if (this.isReadOnlyMode) {
+      throw new Error('Cannot perform write operation in read-only mode');
+    }
+    const result = await this.currentStorage.updateElection(id, updates, provenance);
+    this.queueWriteOperation('updateElection', [id, updates, provenance]);
+    return result;
+  }
+
+  async getElectionHistory(electionId: number): Promise<FactHistoryEntry[]> {
+    return this.currentStorage.getElectionHistory(electionId);
+  }
+
+  async getElectionsAsOf(asOf: Date, filters?: ElectionFilters): Promise<Election[]> {
+    return this.currentStorage.getElectionsAsOf(asOf, filters);
+  }
+
+  async getCongressionalDistricts(state?: string): Promise<CongressionalDistrict[]> {
+    return this.currentStorage.getCongressionalDistricts(state);
+  }
+
+  async getCongressionalDistrictByCode(districtCode: string): Promise<CongressionalDistrict | null> {
+    return this.currentStorage.getCongressionalDistrictByCode(districtCode);
+  }
+
+  async lookupCongressionalDistrict(state: string, city?: string, zipCode?: string): Promise<CongressionalDistrict | null> {
+    return this.currentStorage.lookupCongressionalDistrict(state, city, zipCode);
+  }
+
   async getCandidatesByElection(electionId: number): Promise<Candidate[]> {
     return this.currentStorage.getCandidatesByElection(electionId);
   }
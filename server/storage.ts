@@ -1,4 +1,4 @@
-import { elections, candidates, congressMembers, congressBills, congressCommittees, users, sessions, watchlist, electionResults, electionCycles, campaignAccounts, candidateAccounts, candidateProfiles, candidateDataSources, candidatePositions, candidateQA, notificationPreferences, notificationConsents, notificationSubscriptions, notificationTemplates, notificationCampaigns, notificationDeliveries, notificationEvents, notificationWebhooks, userPreferences, congressionalDistricts, backupStorageLocations, backupRetentionPolicies, backupOperations, schemaVersions, restoreValidations, backupSystemConfig, failoverDrillConfigurations, drillExecutions, drillSteps, backupMonitoringConfigurations, backupAlerts, backupHealthMetrics, rtoRpoTargets, rtoRpoMeasurements, performanceBenchmarks, incidentRunbooks, runbookSteps, runbookContacts, contactEscalationTrees, runbookExecutions, type Election, type InsertElection, type Candidate, type InsertCandidate, type ElectionFilters, type CongressMember, type InsertCongressMember, type User, type UpsertUser, type WatchlistItem, type InsertWatchlistItem, type UserPreferences, type InsertUserPreferences, type UpdateUserPreferences, type CongressionalDistrict, type InsertCongressionalDistrict, type CandidateAccount, type InsertCandidateAccount, type CandidateProfile, type InsertCandidateProfile, type CandidateDataSource, type InsertCandidateDataSource, type CandidatePosition, type InsertCandidatePosition, type CandidateQA, type InsertCandidateQA, type NotificationPreferences, type InsertNotificationPreferences, type NotificationConsent, type InsertNotificationConsent, type NotificationSubscription, type InsertNotificationSubscription, type NotificationTemplate, type InsertNotificationTemplate, type NotificationCampaign, type InsertNotificationCampaign, type NotificationDelivery, type InsertNotificationDelivery, type NotificationEvent, type InsertNotificationEvent, type NotificationWebhook, type InsertNotificationWebhook, type BackupStorageLocation, type InsertBackupStorageLocation, type BackupRetentionPolicy, type InsertBackupRetentionPolicy, type BackupOperation, type InsertBackupOperation, type SchemaVersion, type InsertSchemaVersion, type RestoreValidation, type InsertRestoreValidation, type BackupSystemConfig, type InsertBackupSystemConfig, type FailoverDrillConfiguration, type InsertFailoverDrillConfiguration, type DrillExecution, type InsertDrillExecution, type DrillStep, type InsertDrillStep, type BackupMonitoringConfiguration, type InsertBackupMonitoringConfiguration, type BackupAlert, type InsertBackupAlert, type BackupHealthMetric, type InsertBackupHealthMetric, type RtoRpoTarget, type InsertRtoRpoTarget, type RtoRpoMeasurement, type InsertRtoRpoMeasurement, type PerformanceBenchmark, type InsertPerformanceBenchmark, type IncidentRunbook, type InsertIncidentRunbook, type RunbookStep, type InsertRunbookStep, type RunbookContact, type InsertRunbookContact, type ContactEscalationTree, type InsertContactEscalationTree, type RunbookExecution, type InsertRunbookExecution } from "@shared/schema";
+import { elections, candidates, factSources, electionFacts, electionTruth, electionDateVersions, congressMembers, congressBills, congressCommittees, users, sessions, watchlist, electionResults, electionCycles, campaignAccounts, candidateAccounts, candidateProfiles, candidateDataSources, candidatePositions, candidateQA, notificationPreferences, notificationConsents, notificationSubscriptions, notificationTemplates, notificationCampaigns, notificationDeliveries, notificationEvents, notificationWebhooks, userPreferences, congressionalDistricts, backupStorageLocations, backupRetentionPolicies, backupOperations, schemaVersions, restoreValidations, backupSystemConfig, failoverDrillConfigurations, drillExecutions, drillSteps, backupMonitoringConfigurations, backupAlerts, backupHealthMetrics, rtoRpoTargets, rtoRpoMeasurements, performanceBenchmarks, incidentRunbooks, runbookSteps, runbookContacts, contactEscalationTrees, runbookExecutions, type Election, type InsertElection, type Candidate, type InsertCandidate, type ElectionFilters, type CongressMember, type InsertCongressMember, type User, type UpsertUser, type WatchlistItem, type InsertWatchlistItem, type UserPreferences, type InsertUserPreferences, type UpdateUserPreferences, type CongressionalDistrict, type InsertCongressionalDistrict, type CandidateAccount, type InsertCandidateAccount, type CandidateProfile, type InsertCandidateProfile, type CandidateDataSource, type InsertCandidateDataSource, type CandidatePosition, type InsertCandidatePosition, type CandidateQA, type InsertCandidateQA, type NotificationPreferences, type InsertNotificationPreferences, type NotificationConsent, type InsertNotificationConsent, type NotificationSubscription, type InsertNotificationSubscription, type NotificationTemplate, type InsertNotificationTemplate, type NotificationCampaign, type InsertNotificationCampaign, type NotificationDelivery, type InsertNotificationDelivery, type NotificationEvent, type InsertNotificationEvent, type NotificationWebhook, type InsertNotificationWebhook, type BackupStorageLocation, type InsertBackupStorageLocation, type BackupRetentionPolicy, type InsertBackupRetentionPolicy, type BackupOperation, type InsertBackupOperation, type SchemaVersion, type InsertSchemaVersion, type RestoreValidation, type InsertRestoreValidation, type BackupSystemConfig, type InsertBackupSystemConfig, type FailoverDrillConfiguration, type InsertFailoverDrillConfiguration, type DrillExecution, type InsertDrillExecution, type DrillStep, type InsertDrillStep, type BackupMonitoringConfiguration, type InsertBackupMonitoringConfiguration, type BackupAlert, type InsertBackupAlert, type BackupHealthMetric, type InsertBackupHealthMetric, type RtoRpoTarget, type InsertRtoRpoTarget, type RtoRpoMeasurement, type InsertRtoRpoMeasurement, type PerformanceBenchmark, type InsertPerformanceBenchmark, type IncidentRunbook, type InsertIncidentRunbook, type RunbookStep, type InsertRunbookStep, type RunbookContact, type InsertRunbookContact, type ContactEscalationTree, type InsertContactEscalationTree, type RunbookExecution, type InsertRunbookExecution } from "@shared/schema";
 import { db } from "./db";
 import { eq, and, gte, lte, ilike, or, desc, inArray, isNotNull } from "drizzle-orm";
 import { getGoogleCivicService } from "./google-civic-service";
@@ -7,6 +7,24 @@ import { getPerplexityService } from './perplexity-service';
 import { censusService } from './census-service';
 import bcrypt from 'bcryptjs';
 import { validateElectionData, validateNotMockData } from './validators/state-election-rules';
+import { electionFactValues, changedFactTypes, electionAsOf, buildFactHistory, withinTimeframe, matchesJurisdiction, TRACKED_FACT_TYPES, ELECTION_CREATED_REASON, BASELINE_REASON, type ElectionFactType, type FactProvenance, type FactHistoryEntry, type FactObservation } from './lib/election-facts';
+
+// The database or an open transaction - fact writes join the election write's transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Full state names accepted by the state filter
+const STATE_ABBREVIATIONS: { [key: string]: string } = {
+  'Alabama': 'AL', 'Alaska': 'AK', 'Arizona': 'AZ', 'Arkansas': 'AR', 'California': 'CA',
+  'Colorado': 'CO', 'Connecticut': 'CT', 'Delaware': 'DE', 'Florida': 'FL', 'Georgia': 'GA',
+  'Hawaii': 'HI', 'Idaho': 'ID', 'Illinois': 'IL', 'Indiana': 'IN', 'Iowa': 'IA',
+  'Kansas': 'KS', 'Kentucky': 'KY', 'Louisiana': 'LA', 'Maine': 'ME', 'Maryland': 'MD',
+  'Massachusetts': 'MA', 'Michigan': 'MI', 'Minnesota': 'MN', 'Mississippi': 'MS', 'Missouri': 'MO',
+  'Montana': 'MT', 'Nebraska': 'NE', 'Nevada': 'NV', 'New Hampshire': 'NH', 'New Jersey': 'NJ',
+  'New Mexico': 'NM', 'New York': 'NY', 'North Carolina': 'NC', 'North Dakota': 'ND', 'Ohio': 'OH',
+  'Oklahoma': 'OK', 'Oregon': 'OR', 'Pennsylvania': 'PA', 'Rhode Island': 'RI', 'South Carolina': 'SC',
+  'South Dakota': 'SD', 'Tennessee': 'TN', 'Texas': 'TX', 'Utah': 'UT', 'Vermont': 'VT',
+  'Virginia': 'VA', 'Washington': 'WA', 'West Virginia': 'WV', 'Wisconsin': 'WI', 'Wyoming': 'WY'
+};
 
 export interface IStorage {
   // Health checking
@@ -15,8 +33,14 @@ export interface IStorage {
   // Elections
   getElections(filters?: ElectionFilters): Promise<Election[]>;
   getElection(id: number): Promise<Election | undefined>;
-  createElection(election: InsertElection): Promise<Election>;
+  createElection(election: InsertElection, provenance?: FactProvenance): Promise<Election>;
   deleteElection(id: number): Promise<void>;
+
+  // Election fact history - date, jurisdiction and office changes are
+  // recorded as sourced facts; never update those columns directly
+  updateElection(id: number, updates: Partial<InsertElection>, provenance: FactProvenance): Promise<Election | undefined>;
+  getElectionHistory(electionId: number): Promise<FactHistoryEntry[]>;
+  getElectionsAsOf(asOf: Date, filters?: ElectionFilters): Promise<Election[]>;
   
   // Candidates
   getCandidatesByElection(electionId: number): Promise<Candidate[]>;
@@ -571,21 +595,7 @@ export class DatabaseStorage implements IStorage {
 
       // Filter by state - handle both full names and abbreviations
       if (filters.state && filters.state !== 'all') {
-        // Map full state names to abbreviations
-        const stateAbbreviations: { [key: string]: string } = {
-          'Alabama': 'AL', 'Alaska': 'AK', 'Arizona': 'AZ', 'Arkansas': 'AR', 'California': 'CA',
-          'Colorado': 'CO', 'Connecticut': 'CT', 'Delaware': 'DE', 'Florida': 'FL', 'Georgia': 'GA',
-          'Hawaii': 'HI', 'Idaho': 'ID', 'Illinois': 'IL', 'Indiana': 'IN', 'Iowa': 'IA',
-          'Kansas': 'KS', 'Kentucky': 'KY', 'Louisiana': 'LA', 'Maine': 'ME', 'Maryland': 'MD',
-          'Massachusetts': 'MA', 'Michigan': 'MI', 'Minnesota': 'MN', 'Mississippi': 'MS', 'Missouri': 'MO',
-          'Montana': 'MT', 'Nebraska': 'NE', 'Nevada': 'NV', 'New Hampshire': 'NH', 'New Jersey': 'NJ',
-          'New Mexico': 'NM', 'New York': 'NY', 'North Carolina': 'NC', 'North Dakota': 'ND', 'Ohio': 'OH',
-          'Oklahoma': 'OK', 'Oregon': 'OR', 'Pennsylvania': 'PA', 'Rhode Island': 'RI', 'South Carolina': 'SC',
-          'South Dakota': 'SD', 'Tennessee': 'TN', 'Texas': 'TX', 'Utah': 'UT', 'Vermont': 'VT',
-          'Virginia': 'VA', 'Washington': 'WA', 'West Virginia': 'WV', 'Wisconsin': 'WI', 'Wyoming': 'WY'
-        };
-        
-        const stateValue = stateAbbreviations[filters.state] || filters.state;
+        const stateValue = STATE_ABBREVIATIONS[filters.state] || filters.state;
         conditions.push(eq(elections.state, stateValue));
       }
 
@@ -652,6 +662,8 @@ export class DatabaseStorage implements IStorage {
           pollsClose: elections.pollsClose,
           timezone: elections.timezone,
           isActive: elections.isActive,
+          votingMethod: elections.votingMethod,
+          rcvRules: elections.rcvRules,
           candidateId: candidates.id,
         })
         .from(elections)
@@ -719,13 +731,14 @@ export class DatabaseStorage implements IStorage {
     return election;
   }
 
-  async createElection(insertElection: InsertElection): Promise<Election> {
+  async createElection(insertElection: InsertElection, provenance: FactProvenance = { source: 'Unattributed' }): Promise<Election> {
     // Validate election data before inserting
     const validationErrors = validateElectionData({
       state: insertElection.state,
       date: insertElection.date,
       level: insertElection.level,
-      type: insertElection.type
+      type: insertElection.type,
+      title: insertElection.title
     });
     
     if (validationErrors.length > 0) {
@@ -738,11 +751,17 @@ export class DatabaseStorage implements IStorage {
       throw new Error(`Mock data detected: ${mockCheck.message}`);
     }
     
-    const [election] = await db
-      .insert(elections)
-      .values(insertElection)
-      .returning();
-    return election;
+    return db.transaction(async tx => {
+      const [election] = await tx
+        .insert(elections)
+        .values(insertElection)
+        .returning();
+
+      const sourceId = await this.resolveFactSource(tx, provenance);
+      await this.insertFacts(tx, election, TRACKED_FACT_TYPES, sourceId, { ...provenance, reason: ELECTION_CREATED_REASON });
+      await this.upsertElectionTruth(tx, election, provenance);
+      return election;
+    });
   }
 
   async deleteElection(id: number): Promise<void> {
@@ -752,6 +771,166 @@ export class DatabaseStorage implements IStorage {
     await db.delete(elections).where(eq(elections.id, id));
   }
 
+  async updateElection(id: number, updates: Partial<InsertElection>, provenance: FactProvenance): Promise<Election | undefined> {
+    return db.transaction(async tx => {
+      const [current] = await tx.select().from(elections).where(eq(elections.id, id));
+      if (!current) return undefined;
+
+      const changed = changedFactTypes(current, { ...current, ...updates } as Election);
+
+      // The first recorded change of a fact snapshots the value it replaces,
+      // so "as of" lookups before it still see what we had then
+      if (changed.length > 0) {
+        const existing = await tx
+          .select({ factType: electionFacts.factType })
+          .from(electionFacts)
+          .where(and(eq(electionFacts.electionId, id), inArray(electionFacts.factType, changed)));
+        const seen = new Set(existing.map(row => row.factType));
+        const unseen = changed.filter(type => !seen.has(type));
+        if (unseen.length > 0) {
+          await this.insertFacts(tx, current, unseen, null, { source: 'baseline', actor: provenance.actor, reason: BASELINE_REASON });
+        }
+      }
+
+      const [election] = await tx
+        .update(elections)
+        .set(updates as any)
+        .where(eq(elections.id, id))
+        .returning();
+      if (changed.length === 0) return election;
+
+      const sourceId = await this.resolveFactSource(tx, provenance);
+      await this.insertFacts(tx, election, changed, sourceId, provenance);
+
+      if (changed.includes('date')) {
+        await tx.insert(electionDateVersions).values({
+          electionId: id,
+          dateFrom: current.date,
+          dateTo: election.date,
+          changeReason: provenance.reason ?? `Reported by ${provenance.source}`,
+          sourceId,
+          changedBy: provenance.actor ?? null
+        } as any);
+      }
+
+      // reconcile_election_dates() copies truth back onto elections, so it
+      // has to follow every change or the next run would undo it
+      await this.upsertElectionTruth(tx, election, provenance);
+      return election;
+    });
+  }
+
+  async getElectionHistory(electionId: number): Promise<FactHistoryEntry[]> {
+    const facts = await this.loadFactObservations([electionId]);
+    return buildFactHistory(facts.get(electionId) ?? []);
+  }
+
+  /**
+   * The calendar as it looked at `asOf`. Date windows (timeframe, cycle)
+   * are applied to the historical dates, measured from `asOf`.
+   */
+  async getElectionsAsOf(asOf: Date, filters?: ElectionFilters): Promise<Election[]> {
+    // Jurisdiction and title filters match the historical values, so they
+    // are applied after the overlay rather than in the query
+    const { timeframe, cycle, state, level, search, ...rest } = filters ?? ({} as ElectionFilters);
+    const current = await this.getElections(rest as ElectionFilters);
+    const facts = await this.loadFactObservations(current.map(e => e.id));
+    const jurisdiction = { state: state ? STATE_ABBREVIATIONS[state] || state : undefined, level, search };
+
+    return current
+      .map(election => electionAsOf(election, facts.get(election.id) ?? [], asOf))
+      .filter((election): election is Election => election !== null)
+      .filter(election => matchesJurisdiction(election, jurisdiction))
+      .filter(election => withinTimeframe(election.date, timeframe, asOf))
+      .filter(election => !cycle || election.date.getFullYear() === cycle)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private async loadFactObservations(electionIds: number[]): Promise<Map<number, FactObservation[]>> {
+    const byElection = new Map<number, FactObservation[]>();
+    if (electionIds.length === 0) return byElection;
+
+    const rows = await db
+      .select({
+        electionId: electionFacts.electionId,
+        factId: electionFacts.factId,
+        factType: electionFacts.factType,
+        factValue: electionFacts.factValue,
+        observedAt: electionFacts.observedAt,
+        sourceName: factSources.name,
+        sourceUrl: electionFacts.sourceUrl,
+        authority: factSources.authority,
+        confidence: electionFacts.confidence,
+        recordedBy: electionFacts.recordedBy,
+        reason: electionFacts.reason
+      })
+      .from(electionFacts)
+      .leftJoin(factSources, eq(electionFacts.sourceId, factSources.id))
+      .where(inArray(electionFacts.electionId, electionIds));
+
+    for (const { electionId, ...fact } of rows) {
+      if (electionId === null) continue;
+      if (!byElection.has(electionId)) byElection.set(electionId, []);
+      byElection.get(electionId)!.push(fact);
+    }
+    return byElection;
+  }
+
+  private async resolveFactSource(tx: DbExecutor, provenance: FactProvenance): Promise<string> {
+    const [existing] = await tx
+      .select({ id: factSources.id })
+      .from(factSources)
+      .where(eq(factSources.name, provenance.source))
+      .limit(1);
+    if (existing) return existing.id;
+
+    const [created] = await tx
+      .insert(factSources)
+      .values({
+        name: provenance.source,
+        url: provenance.sourceUrl ?? null,
+        authority: provenance.source,
+        reliability: provenance.confidence ?? 80
+      } as any)
+      .returning({ id: factSources.id });
+    return created.id;
+  }
+
+  private async insertFacts(
+    tx: DbExecutor,
+    election: Election,
+    types: readonly ElectionFactType[],
+    sourceId: string | null,
+    provenance: FactProvenance
+  ): Promise<void> {
+    const values = electionFactValues(election);
+    await tx.insert(electionFacts).values(types.map(type => ({
+      electionId: election.id,
+      factType: type,
+      factValue: values[type],
+      sourceId,
+      sourceUrl: provenance.sourceUrl ?? null,
+      confidence: provenance.confidence ?? 80,
+      recordedBy: provenance.actor ?? null,
+      reason: provenance.reason ?? null
+    })) as any);
+  }
+
+  private async upsertElectionTruth(tx: DbExecutor, election: Election, provenance: FactProvenance): Promise<void> {
+    const truth = {
+      dateUtc: election.date,
+      jurisdiction: election.location,
+      office: election.offices?.length ? election.offices.join(', ') : election.title,
+      confidence: provenance.confidence ?? 80,
+      updatedAt: new Date(),
+      updatedBy: provenance.actor ?? provenance.source
+    };
+    await tx
+      .insert(electionTruth)
+      .values({ electionId: election.id, ...truth } as any)
+      .onConflictDoUpdate({ target: electionTruth.electionId, set: truth as any });
+  }
+
   async getCandidatesByElection(electionId: number): Promise<Candidate[]> {
     return await db
       .select()
@@ -838,6 +1017,7 @@ export class DatabaseStorage implements IStorage {
           totalPrecincts: resultsData.totalPrecincts,
           percentReporting: resultsData.percentReporting,
           isComplete: resultsData.isComplete,
+          resultsSource: resultsData.resultsSource,
           lastUpdated: new Date()
         })
         .where(eq(electionResults.electionId, electionId));
@@ -852,6 +1032,7 @@ export class DatabaseStorage implements IStorage {
           totalPrecincts: resultsData.totalPrecincts,
           percentReporting: resultsData.percentReporting,
           isComplete: resultsData.isComplete,
+          resultsSource: resultsData.resultsSource,
           lastUpdated: new Date()
         });
     }
@@ -1,117 +1,676 @@
 // State-specific election date validation rules
 // Ensures elections comply with state laws
+//
+// The rules are declarative: STATE_ELECTION_LAWS holds, for all 50 states
+// and DC, the statutory primary dates, runoff windows, special-election
+// notice periods, filing and certification deadlines, and any local
+// election calendars (California UDEL). evaluateStateElectionRules checks
+// an election against them and every violation cites its statute.
 
 interface ValidationResult {
   ok: boolean;
   code?: string;
   message?: string;
+  severity?: RuleSeverity;
+  statute?: string;
 }
 
-// Louisiana elections must be on Saturday per R.S. 18:402
-const SATURDAY_STATES = new Set(['LA']);
+export type RuleSeverity = 'error' | 'warning';
 
-// Federal elections are typically on Tuesday after first Monday in November
-const FEDERAL_ELECTION_DAY = 2; // Tuesday
+export interface RuleViolation extends ValidationResult {
+  ok: false;
+  code: string;
+  message: string;
+  severity: RuleSeverity;
+  statute: string;
+}
 
-export function validateElectionDateByState(state: string, date: Date, level: string, type: string): ValidationResult {
-  const dayOfWeek = date.getUTCDay(); // 0 = Sunday, 6 = Saturday
-  
-  // Louisiana specific rules
-  if (SATURDAY_STATES.has(state)) {
-    if (dayOfWeek !== 6) {
-      return {
-        ok: false,
-        code: 'invalid_louisiana_date',
-        message: `Louisiana elections must be held on Saturday per R.S. 18:402. Got ${getDayName(dayOfWeek)}.`
-      };
+// Months are 1-12 as written in the statutes
+export type DateRule =
+  | { kind: 'nth_weekday'; month: number; weekday: number; nth: number } // nth -1 = last
+  | { kind: 'tuesday_after_monday'; month: number; nthMonday: number; offsetWeeks?: number }
+  | { kind: 'days_before_general'; days: number };
+
+export type YearPattern = 'all' | 'even' | 'odd' | 'presidential' | 'midterm';
+
+export interface ScheduledDate {
+  rule: DateRule;
+  years: YearPattern;
+  statute: string;
+}
+
+export interface DayWindow {
+  minDays: number;
+  maxDays: number | null;
+  statute: string;
+}
+
+export interface LocalElectionCalendar extends ScheduledDate {
+  code: string;
+  name: string;
+  titlePattern: RegExp;
+}
+
+export interface StateElectionLaw {
+  code: string;
+  name: string;
+  electionWeekdays?: { days: number[]; statute: string };
+  general?: ScheduledDate[];                 // state generals, when not the federal date
+  primary: ScheduledDate[];                  // empty = no statewide partisan primary date
+  primaryRunoff?: DayWindow | { minDays: null; maxDays: null; statute: string } | null;
+  specialElectionNotice?: DayWindow;         // days from proclamation/writ to election
+  filingDeadline?: DayWindow;                // days before the primary
+  certification?: { maxDaysAfter: number; statute: string };
+  localElections?: LocalElectionCalendar[];
+}
+
+export interface ElectionRuleInput {
+  state: string;
+  date: Date | string;
+  level: string;
+  type: string;
+  title?: string | null;
+  provenanceType?: string;
+  provenanceUrl?: string;
+  noticeDate?: Date | string | null;            // proclamation or writ for special elections
+  filingDeadline?: Date | string | null;
+  certificationDate?: Date | string | null;
+  precedingElectionDate?: Date | string | null; // the primary or general a runoff follows
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUNDAY = 0, MONDAY = 1, TUESDAY = 2, THURSDAY = 4, SATURDAY = 6;
+
+const FEDERAL_ELECTION_DAY: ScheduledDate = {
+  rule: { kind: 'tuesday_after_monday', month: 11, nthMonday: 1 },
+  years: 'even',
+  statute: '2 U.S.C. § 7; 3 U.S.C. § 1'
+};
+
+// Shorthand for the table below
+const nth = (n: number, weekday: number, month: number): DateRule => ({ kind: 'nth_weekday', month, weekday, nth: n });
+const tue = (n: number, month: number): DateRule => nth(n, TUESDAY, month);
+const tueAfterMon = (month: number, nthMonday = 1, offsetWeeks = 0): DateRule =>
+  ({ kind: 'tuesday_after_monday', month, nthMonday, offsetWeeks });
+const on = (rule: DateRule, years: YearPattern, statute: string): ScheduledDate => ({ rule, years, statute });
+const within = (minDays: number, maxDays: number | null, statute: string): DayWindow => ({ minDays, maxDays, statute });
+
+export const STATE_ELECTION_LAWS: Record<string, StateElectionLaw> = {
+  AL: {
+    code: 'AL', name: 'Alabama',
+    primary: [
+      on(tue(1, 3), 'presidential', 'Ala. Code § 17-13-3'),
+      on(tue(4, 5), 'midterm', 'Ala. Code § 17-13-3')
+    ],
+    primaryRunoff: within(28, 42, 'Ala. Code § 17-13-18')
+  },
+  AK: {
+    code: 'AK', name: 'Alaska',
+    primary: [on(tue(3, 8), 'even', 'AS 15.25.020')]
+  },
+  AZ: {
+    code: 'AZ', name: 'Arizona',
+    primary: [
+      on(tue(1, 8), 'even', 'A.R.S. § 16-201'),
+      on(tue(-1, 7), 'even', 'A.R.S. § 16-201')
+    ],
+    filingDeadline: within(90, 120, 'A.R.S. § 16-311'),
+    certification: { maxDaysAfter: 28, statute: 'A.R.S. § 16-648' }
+  },
+  AR: {
+    code: 'AR', name: 'Arkansas',
+    primary: [
+      on(tue(1, 3), 'even', 'A.C.A. § 7-7-203'),
+      on(tue(4, 5), 'midterm', 'A.C.A. § 7-7-203')
+    ],
+    primaryRunoff: within(21, 35, 'A.C.A. § 7-7-203')
+  },
+  CA: {
+    code: 'CA', name: 'California',
+    primary: [
+      on(tue(1, 3), 'presidential', 'Cal. Elec. Code § 1001'),
+      on(tueAfterMon(6), 'midterm', 'Cal. Elec. Code § 1000')
+    ],
+    specialElectionNotice: within(126, 140, 'Cal. Elec. Code § 10703'),
+    filingDeadline: within(88, 88, 'Cal. Elec. Code § 8020'),
+    certification: { maxDaysAfter: 38, statute: 'Cal. Elec. Code § 15501' },
+    localElections: [{
+      code: 'ca_udel_date',
+      name: 'Uniform District Election',
+      titlePattern: /uniform district/i,
+      rule: tueAfterMon(11),
+      years: 'odd',
+      statute: 'Cal. Elec. Code § 1500'
+    }]
+  },
+  CO: {
+    code: 'CO', name: 'Colorado',
+    general: [
+      FEDERAL_ELECTION_DAY,
+      on(tue(1, 11), 'odd', 'C.R.S. § 1-1-104(6.5)')
+    ],
+    primary: [on(tue(-1, 6), 'even', 'C.R.S. § 1-4-101')]
+  },
+  CT: {
+    code: 'CT', name: 'Connecticut',
+    primary: [on(tue(2, 8), 'even', 'Conn. Gen. Stat. § 9-423')]
+  },
+  DE: {
+    code: 'DE', name: 'Delaware',
+    primary: [on(tue(2, 9), 'even', '15 Del. C. § 3101')]
+  },
+  DC: {
+    code: 'DC', name: 'District of Columbia',
+    primary: [
+      on(tue(1, 6), 'presidential', 'D.C. Code § 1-1001.05'),
+      on(tue(3, 6), 'midterm', 'D.C. Code § 1-1001.05')
+    ]
+  },
+  FL: {
+    code: 'FL', name: 'Florida',
+    primary: [on({ kind: 'days_before_general', days: 77 }, 'even', 'Fla. Stat. § 100.061')],
+    filingDeadline: within(71, 120, 'Fla. Stat. § 99.061'),
+    certification: { maxDaysAfter: 14, statute: 'Fla. Stat. § 102.111' }
+  },
+  GA: {
+    code: 'GA', name: 'Georgia',
+    primary: [on({ kind: 'days_before_general', days: 168 }, 'even', 'O.C.G.A. § 21-2-150')],
+    primaryRunoff: within(28, 28, 'O.C.G.A. § 21-2-501'),
+    specialElectionNotice: within(29, null, 'O.C.G.A. § 21-2-540'),
+    certification: { maxDaysAfter: 17, statute: 'O.C.G.A. § 21-2-499' }
+  },
+  HI: {
+    code: 'HI', name: 'Hawaii',
+    primary: [on(nth(2, SATURDAY, 8), 'even', 'HRS § 12-2')]
+  },
+  ID: {
+    code: 'ID', name: 'Idaho',
+    primary: [on(tue(3, 5), 'even', 'Idaho Code § 34-102')]
+  },
+  IL: {
+    code: 'IL', name: 'Illinois',
+    primary: [
+      on(tue(3, 3), 'even', '10 ILCS 5/2A-1.1'),
+      on(tue(-1, 6), 'midterm', '10 ILCS 5/2A-1.1')
+    ]
+  },
+  IN: {
+    code: 'IN', name: 'Indiana',
+    primary: [on(tueAfterMon(5), 'even', 'IC 3-10-1-3')]
+  },
+  IA: {
+    code: 'IA', name: 'Iowa',
+    primary: [on(tue(1, 6), 'even', 'Iowa Code § 43.7')]
+  },
+  KS: {
+    code: 'KS', name: 'Kansas',
+    primary: [on(tue(1, 8), 'even', 'K.S.A. 25-203')]
+  },
+  KY: {
+    code: 'KY', name: 'Kentucky',
+    primary: [on(tueAfterMon(5, 3), 'all', 'KRS 118.025')]
+  },
+  LA: {
+    code: 'LA', name: 'Louisiana',
+    electionWeekdays: { days: [SATURDAY], statute: 'La. R.S. 18:402' },
+    general: [],
+    primary: []
+  },
+  ME: {
+    code: 'ME', name: 'Maine',
+    primary: [on(tue(2, 6), 'even', '21-A M.R.S. § 339')]
+  },
+  MD: {
+    code: 'MD', name: 'Maryland',
+    primary: [
+      on(tueAfterMon(5, 1, 1), 'presidential', 'Md. Code, Elec. Law § 8-201'),
+      on(tue(-1, 6), 'midterm', 'Md. Code, Elec. Law § 8-201')
+    ]
+  },
+  MA: {
+    code: 'MA', name: 'Massachusetts',
+    primary: [on(tue(1, 9), 'even', 'M.G.L. c. 53, § 28')]
+  },
+  MI: {
+    code: 'MI', name: 'Michigan',
+    primary: [on(tueAfterMon(8), 'even', 'MCL 168.534')],
+    filingDeadline: within(105, 105, 'MCL 168.133'),
+    certification: { maxDaysAfter: 20, statute: 'MCL 168.842' }
+  },
+  MN: {
+    code: 'MN', name: 'Minnesota',
+    primary: [on(tue(2, 8), 'even', 'Minn. Stat. § 204D.03')],
+    certification: { maxDaysAfter: 21, statute: 'Minn. Stat. § 204C.33' }
+  },
+  MS: {
+    code: 'MS', name: 'Mississippi',
+    primary: [
+      on(tue(2, 3), 'presidential', 'Miss. Code § 23-15-1031'),
+      on(tueAfterMon(6), 'midterm', 'Miss. Code § 23-15-1031'),
+      on(tueAfterMon(8), 'odd', 'Miss. Code § 23-15-1031')
+    ],
+    primaryRunoff: within(21, 28, 'Miss. Code § 23-15-1083')
+  },
+  MO: {
+    code: 'MO', name: 'Missouri',
+    primary: [on(tueAfterMon(8), 'even', 'RSMo 115.121')]
+  },
+  MT: {
+    code: 'MT', name: 'Montana',
+    primary: [on(tueAfterMon(6), 'even', 'MCA 13-1-107')]
+  },
+  NE: {
+    code: 'NE', name: 'Nebraska',
+    primary: [on(tueAfterMon(5, 2), 'even', 'Neb. Rev. Stat. § 32-401')]
+  },
+  NV: {
+    code: 'NV', name: 'Nevada',
+    primary: [on(tue(2, 6), 'even', 'NRS 293.175')],
+    certification: { maxDaysAfter: 28, statute: 'NRS 293.395' }
+  },
+  NH: {
+    code: 'NH', name: 'New Hampshire',
+    primary: [on(tue(2, 9), 'even', 'RSA 653:8')]
+  },
+  NJ: {
+    code: 'NJ', name: 'New Jersey',
+    primary: [on(tueAfterMon(6), 'all', 'N.J.S.A. 19:2-1')]
+  },
+  NM: {
+    code: 'NM', name: 'New Mexico',
+    primary: [on(tue(1, 6), 'even', 'NMSA § 1-8-11')]
+  },
+  NY: {
+    code: 'NY', name: 'New York',
+    primary: [on(tue(4, 6), 'all', 'N.Y. Elec. Law § 8-100')],
+    specialElectionNotice: within(70, 80, 'N.Y. Pub. Off. Law § 42')
+  },
+  NC: {
+    code: 'NC', name: 'North Carolina',
+    primary: [on(tueAfterMon(3), 'even', 'N.C.G.S. § 163-1')],
+    primaryRunoff: within(49, 70, 'N.C.G.S. § 163-111'),
+    certification: { maxDaysAfter: 21, statute: 'N.C.G.S. § 163-192' }
+  },
+  ND: {
+    code: 'ND', name: 'North Dakota',
+    primary: [on(tue(2, 6), 'even', 'N.D.C.C. § 16.1-11-01')]
+  },
+  OH: {
+    code: 'OH', name: 'Ohio',
+    primary: [
+      on(tueAfterMon(3, 1, 2), 'presidential', 'R.C. 3501.01'),
+      on(tueAfterMon(5), 'midterm', 'R.C. 3501.01')
+    ],
+    filingDeadline: within(90, 90, 'R.C. 3513.05'),
+    certification: { maxDaysAfter: 21, statute: 'R.C. 3505.32' }
+  },
+  OK: {
+    code: 'OK', name: 'Oklahoma',
+    primary: [
+      on(tue(-1, 6), 'even', '26 O.S. § 1-102'),
+      on(tue(3, 6), 'even', '26 O.S. § 1-102')
+    ],
+    primaryRunoff: within(56, 70, '26 O.S. § 1-103')
+  },
+  OR: {
+    code: 'OR', name: 'Oregon',
+    primary: [on(tue(3, 5), 'even', 'ORS 254.056')]
+  },
+  PA: {
+    code: 'PA', name: 'Pennsylvania',
+    primary: [
+      on(tue(4, 4), 'presidential', '25 P.S. § 2753'),
+      on(tue(3, 5), 'midterm', '25 P.S. § 2753'),
+      on(tue(3, 5), 'odd', '25 P.S. § 2753')
+    ],
+    specialElectionNotice: within(60, null, '25 P.S. § 2778'),
+    filingDeadline: within(70, 70, '25 P.S. § 2873'),
+    certification: { maxDaysAfter: 20, statute: '25 P.S. § 2642' }
+  },
+  RI: {
+    code: 'RI', name: 'Rhode Island',
+    primary: [on(tue(2, 9), 'even', 'R.I. Gen. Laws § 17-15-1')]
+  },
+  SC: {
+    code: 'SC', name: 'South Carolina',
+    primary: [on(tue(2, 6), 'even', 'S.C. Code § 7-13-15')],
+    primaryRunoff: within(14, 14, 'S.C. Code § 7-17-600')
+  },
+  SD: {
+    code: 'SD', name: 'South Dakota',
+    primary: [on(tue(1, 6), 'even', 'SDCL 12-6-3')],
+    primaryRunoff: { minDays: null, maxDays: null, statute: 'SDCL 12-6-51.1' }
+  },
+  TN: {
+    code: 'TN', name: 'Tennessee',
+    primary: [on(nth(1, THURSDAY, 8), 'even', 'T.C.A. § 2-13-202')]
+  },
+  TX: {
+    code: 'TX', name: 'Texas',
+    primary: [on(tue(1, 3), 'even', 'Tex. Elec. Code § 41.007(a)')],
+    primaryRunoff: within(77, 91, 'Tex. Elec. Code § 41.007(b)')
+  },
+  UT: {
+    code: 'UT', name: 'Utah',
+    primary: [on(tue(4, 6), 'even', 'Utah Code § 20A-9-403')]
+  },
+  VT: {
+    code: 'VT', name: 'Vermont',
+    primary: [on(tue(2, 8), 'even', '17 V.S.A. § 2351')]
+  },
+  VA: {
+    code: 'VA', name: 'Virginia',
+    primary: [on(tue(3, 6), 'all', 'Va. Code § 24.2-515')]
+  },
+  WA: {
+    code: 'WA', name: 'Washington',
+    primary: [on(tue(1, 8), 'all', 'RCW 29A.04.311')]
+  },
+  WV: {
+    code: 'WV', name: 'West Virginia',
+    primary: [on(tue(2, 5), 'even', 'W. Va. Code § 3-1-31')]
+  },
+  WI: {
+    code: 'WI', name: 'Wisconsin',
+    primary: [on(tue(2, 8), 'even', 'Wis. Stat. § 5.02(12s)')],
+    specialElectionNotice: within(62, 77, 'Wis. Stat. § 8.50(2)(a)')
+  },
+  WY: {
+    code: 'WY', name: 'Wyoming',
+    primary: [on(tue(3, 8), 'even', 'W.S. § 22-2-104')]
+  }
+};
+
+export function getStateElectionLaw(state: string): StateElectionLaw | undefined {
+  return STATE_ELECTION_LAWS[state?.toUpperCase()];
+}
+
+// Date helpers - election days are calendar dates, compared in UTC
+function utcDay(year: number, monthIndex: number, day: number): Date {
+  return new Date(Date.UTC(year, monthIndex, day));
+}
+
+function toDay(value: Date | string): Date {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return utcDay(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((toDay(to).getTime() - toDay(from).getTime()) / DAY_MS);
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function nthWeekdayOf(year: number, month: number, weekday: number, n: number): Date {
+  if (n > 0) {
+    const first = utcDay(year, month - 1, 1);
+    const offset = (weekday - first.getUTCDay() + 7) % 7;
+    return utcDay(year, month - 1, 1 + offset + (n - 1) * 7);
+  }
+  const last = utcDay(year, month, 0);
+  const back = (last.getUTCDay() - weekday + 7) % 7;
+  return utcDay(year, month - 1, last.getUTCDate() - back);
+}
+
+export function resolveDateRule(rule: DateRule, year: number): Date {
+  switch (rule.kind) {
+    case 'nth_weekday':
+      return nthWeekdayOf(year, rule.month, rule.weekday, rule.nth);
+    case 'tuesday_after_monday': {
+      const monday = nthWeekdayOf(year, rule.month, MONDAY, rule.nthMonday);
+      return new Date(monday.getTime() + (1 + 7 * (rule.offsetWeeks ?? 0)) * DAY_MS);
+    }
+    case 'days_before_general': {
+      const general = resolveDateRule(FEDERAL_ELECTION_DAY.rule, year);
+      return new Date(general.getTime() - rule.days * DAY_MS);
     }
   }
-  
-  // Federal general elections (non-Louisiana) should be on Tuesday
-  if (level?.toLowerCase() === 'federal' && 
-      type?.toLowerCase() === 'general' && 
-      !SATURDAY_STATES.has(state)) {
-    // Check if it's the first Tuesday after first Monday in November
-    if (isNovember(date) && dayOfWeek !== FEDERAL_ELECTION_DAY) {
-      return {
-        ok: false,
-        code: 'invalid_federal_date',
-        message: `Federal general elections must be on Tuesday after first Monday in November.`
-      };
+}
+
+export function matchesYearPattern(pattern: YearPattern, year: number): boolean {
+  switch (pattern) {
+    case 'all': return true;
+    case 'even': return year % 2 === 0;
+    case 'odd': return year % 2 === 1;
+    case 'presidential': return year % 4 === 0;
+    case 'midterm': return year % 2 === 0 && year % 4 !== 0;
+  }
+}
+
+const ORDINALS = ['', 'first', 'second', 'third', 'fourth', 'fifth'];
+const MONTHS = ['', 'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function describeDateRule(rule: DateRule): string {
+  switch (rule.kind) {
+    case 'nth_weekday':
+      return `${rule.nth < 0 ? 'last' : ORDINALS[rule.nth]} ${DAY_NAMES[rule.weekday]} in ${MONTHS[rule.month]}`;
+    case 'tuesday_after_monday': {
+      const base = `Tuesday after the ${ORDINALS[rule.nthMonday]} Monday in ${MONTHS[rule.month]}`;
+      return rule.offsetWeeks ? `${ORDINALS[rule.offsetWeeks + 1]} ${base}` : base;
     }
+    case 'days_before_general':
+      return `${rule.days / 7} weeks before the general election`;
   }
-  
-  return { ok: true };
+}
+
+/**
+ * Statutory dates that apply in a year - any one of them satisfies the rule
+ */
+export function expectedDates(schedule: ScheduledDate[], year: number): Array<{ date: Date; schedule: ScheduledDate }> {
+  return schedule
+    .filter(entry => matchesYearPattern(entry.years, year))
+    .map(entry => ({ date: resolveDateRule(entry.rule, year), schedule: entry }));
+}
+
+function violation(code: string, severity: RuleSeverity, statute: string, message: string): RuleViolation {
+  return { ok: false, code, severity, statute, message: `${message} (${statute})` };
+}
+
+function checkScheduledDate(
+  date: Date,
+  schedule: ScheduledDate[],
+  code: string,
+  severity: RuleSeverity,
+  label: string
+): RuleViolation | null {
+  const candidates = expectedDates(schedule, date.getUTCFullYear());
+  if (candidates.length === 0) return null;
+  if (candidates.some(c => isoDay(c.date) === isoDay(date))) return null;
+
+  const expected = candidates.map(c => `${describeDateRule(c.schedule.rule)} (${isoDay(c.date)})`).join(' or ');
+  const statutes = Array.from(new Set(candidates.map(c => c.schedule.statute))).join('; ');
+  return violation(code, severity, statutes, `${label} should fall on the ${expected}; got ${isoDay(date)}`);
+}
+
+function checkWindow(days: number, window: DayWindow, code: string, label: string, severity: { short: RuleSeverity; long: RuleSeverity }): RuleViolation | null {
+  if (days < window.minDays) {
+    return violation(code, severity.short, window.statute, `${label} is ${days} days; the minimum is ${window.minDays}`);
+  }
+  if (window.maxDays !== null && days > window.maxDays) {
+    return violation(code, severity.long, window.statute, `${label} is ${days} days; the maximum is ${window.maxDays}`);
+  }
+  return null;
+}
+
+const isType = (type: string | undefined, word: string) => (type ?? '').toLowerCase().includes(word);
+
+/**
+ * Evaluate every applicable state-law rule. Errors are dates the law does
+ * not allow; warnings are dates that differ from the usual statutory
+ * calendar, which legislatures and courts do move.
+ */
+export function evaluateStateElectionRules(election: ElectionRuleInput): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const state = election.state?.toUpperCase();
+  const law = getStateElectionLaw(state);
+  const date = toDay(election.date);
+  const year = date.getUTCFullYear();
+  const level = (election.level ?? '').toLowerCase();
+  const title = election.title ?? '';
+  const special = isType(election.type, 'special');
+  const runoff = isType(election.type, 'runoff') || /\brunoff\b/i.test(title);
+  const primary = !runoff && (isType(election.type, 'primary') || /\bprimary\b/i.test(title));
+  const general = !runoff && !special && isType(election.type, 'general');
+  const statewide = level === 'federal' || level === 'state';
+  const push = (v: RuleViolation | null) => { if (v) violations.push(v); };
+
+  // Day of the week
+  if (law?.electionWeekdays && !law.electionWeekdays.days.includes(date.getUTCDay())) {
+    push(violation(
+      `invalid_${law.name.toLowerCase()}_date`, 'error', law.electionWeekdays.statute,
+      `${law.name} elections must be held on ${law.electionWeekdays.days.map(d => DAY_NAMES[d]).join(' or ')}. Got ${DAY_NAMES[date.getUTCDay()]}.`
+    ));
+  }
+
+  // General election day. Local and municipal generals are held with the
+  // state's coordinated general unless a local calendar below covers them;
+  // they are warnings because cities do hold generals on their own dates.
+  const localCalendar = (law?.localElections ?? []).some(calendar => calendar.titlePattern.test(title));
+  if (general && level === 'federal' && !law?.electionWeekdays) {
+    push(checkScheduledDate(date, [FEDERAL_ELECTION_DAY], 'invalid_federal_date', 'error', 'Federal general election'));
+  } else if (general && level !== 'federal' && law && !localCalendar && (law.general ?? [FEDERAL_ELECTION_DAY]).length > 0) {
+    const schedule = (law.general ?? [FEDERAL_ELECTION_DAY]).map(entry => ({ ...entry, years: 'all' as YearPattern }));
+    push(level === 'state'
+      ? checkScheduledDate(date, schedule, 'unexpected_general_date', 'warning', `${law.name} general election`)
+      : checkScheduledDate(date, schedule, 'unexpected_coordinated_date', 'warning', `${law.name} coordinated election`));
+  }
+  if (general && law && !law.electionWeekdays && !localCalendar && date.getUTCDay() !== TUESDAY) {
+    push(violation(
+      'general_not_tuesday', statewide ? 'error' : 'warning', `${law.name} election code`,
+      `${law.name} general elections are held on Tuesday. Got ${DAY_NAMES[date.getUTCDay()]}.`
+    ));
+  }
+
+  // Statewide primary - presidential preference primaries run on their own calendars
+  if (primary && !special && statewide && law && law.primary.length > 0 && !/presidential/i.test(title)) {
+    push(checkScheduledDate(date, law.primary, 'unexpected_primary_date', 'warning', `${law.name} primary`));
+  }
+
+  // Runoffs
+  if (runoff && law) {
+    if (!law.primaryRunoff && isType(election.type, 'primary')) {
+      push(violation('no_runoff_law', 'warning', `${law.name} election code`, `${law.name} does not hold primary runoffs`));
+    } else if (law.primaryRunoff && law.primaryRunoff.minDays !== null && election.precedingElectionDate) {
+      const days = daysBetween(toDay(election.precedingElectionDate), date);
+      push(checkWindow(days, law.primaryRunoff as DayWindow, 'runoff_window', `${law.name} runoff gap after the first round`, { short: 'warning', long: 'warning' }));
+    }
+  }
+
+  // Local calendars such as California's UDEL
+  for (const calendar of law?.localElections ?? []) {
+    if (!calendar.titlePattern.test(title)) continue;
+    const expected = resolveDateRule(calendar.rule, year);
+    if (!matchesYearPattern(calendar.years, year) || isoDay(expected) !== isoDay(date)) {
+      const nextYear = matchesYearPattern(calendar.years, year) ? year : year + 1;
+      const correct = resolveDateRule(calendar.rule, nextYear);
+      push(violation(
+        calendar.code, 'error', calendar.statute,
+        `${calendar.name} must be held on the ${describeDateRule(calendar.rule)} of ${calendar.years}-numbered years (expected ${isoDay(correct)}); got ${isoDay(date)}`
+      ));
+    }
+  }
+
+  // Special-election notice period
+  if (special && law?.specialElectionNotice && election.noticeDate) {
+    const days = daysBetween(toDay(election.noticeDate), date);
+    push(checkWindow(days, law.specialElectionNotice, 'special_notice_period', `${law.name} special election notice period`, { short: 'error', long: 'warning' }));
+  }
+
+  // Filing deadline, measured back from the primary
+  if (primary && law?.filingDeadline && election.filingDeadline) {
+    const days = daysBetween(toDay(election.filingDeadline), date);
+    push(checkWindow(days, law.filingDeadline, 'filing_deadline', `${law.name} candidate filing deadline before the primary`, { short: 'warning', long: 'warning' }));
+  }
+
+  // Certification deadline
+  if (law?.certification && election.certificationDate) {
+    const days = daysBetween(date, toDay(election.certificationDate));
+    if (days > law.certification.maxDaysAfter) {
+      push(violation(
+        'late_certification', 'warning', law.certification.statute,
+        `${law.name} results certified ${days} days after the election; the deadline is ${law.certification.maxDaysAfter} days`
+      ));
+    }
+  }
+
+  // Proclamation requirement
+  const provenance = requireProvenanceForSpecialElections(election.state, election.level, election.type, election.provenanceType, election.provenanceUrl);
+  if (!provenance.ok) violations.push(provenance as RuleViolation);
+
+  return violations;
+}
+
+/**
+ * Deadlines implied by state law for an election, where the law fixes them
+ */
+export function computeElectionDeadlines(election: Pick<ElectionRuleInput, 'state' | 'date' | 'type' | 'noticeDate'>): {
+  filingDeadline: { earliest: Date; latest: Date; statute: string } | null;
+  certificationDeadline: { date: Date; statute: string } | null;
+  noticeWindow: { earliest: Date; latest: Date | null; statute: string } | null;
+} {
+  const law = getStateElectionLaw(election.state);
+  const date = toDay(election.date);
+  const shift = (days: number) => new Date(date.getTime() + days * DAY_MS);
+
+  const filing = law?.filingDeadline && isType(election.type, 'primary')
+    ? {
+        earliest: shift(-(law.filingDeadline.maxDays ?? law.filingDeadline.minDays)),
+        latest: shift(-law.filingDeadline.minDays),
+        statute: law.filingDeadline.statute
+      }
+    : null;
+  const certification = law?.certification
+    ? { date: shift(law.certification.maxDaysAfter), statute: law.certification.statute }
+    : null;
+  // Latest proclamation date is minDays before the election
+  const notice = law?.specialElectionNotice && isType(election.type, 'special')
+    ? {
+        earliest: shift(-(law.specialElectionNotice.maxDays ?? law.specialElectionNotice.minDays)),
+        latest: law.specialElectionNotice.maxDays !== null ? shift(-law.specialElectionNotice.minDays) : null,
+        statute: law.specialElectionNotice.statute
+      }
+    : null;
+
+  return { filingDeadline: filing, certificationDeadline: certification, noticeWindow: notice };
+}
+
+export function validateElectionDateByState(state: string, date: Date, level: string, type: string): ValidationResult {
+  const dateError = evaluateStateElectionRules({ state, date, level, type })
+    .find(v => v.severity === 'error' && (v.code === 'invalid_federal_date' || v.code.startsWith('invalid_')));
+  return dateError ?? { ok: true };
 }
 
 export function requireProvenanceForSpecialElections(
-  state: string, 
-  level: string, 
+  state: string,
+  level: string,
   type: string,
   provenanceType?: string,
   provenanceUrl?: string
 ): ValidationResult {
   // Louisiana federal special elections require governor's proclamation per R.S. 18:591
-  if (state === 'LA' && 
-      level?.toLowerCase() === 'federal' && 
+  if (state === 'LA' &&
+      level?.toLowerCase() === 'federal' &&
       type?.toLowerCase().includes('special')) {
     if (!provenanceType || provenanceType !== 'governor_proclamation' || !provenanceUrl) {
       return {
         ok: false,
         code: 'missing_proclamation',
+        severity: 'error',
+        statute: 'La. R.S. 18:591',
         message: 'Louisiana federal special elections require a governor\'s proclamation per R.S. 18:591'
       };
     }
   }
-  
+
   return { ok: true };
 }
 
-export function validateElectionData(election: {
-  state: string;
-  date: Date | string;
-  level: string;
-  type: string;
-  provenanceType?: string;
-  provenanceUrl?: string;
-}): ValidationResult[] {
-  const errors: ValidationResult[] = [];
-  const date = typeof election.date === 'string' ? new Date(election.date) : election.date;
-  
-  // Validate date by state rules
-  const dateValidation = validateElectionDateByState(
-    election.state, 
-    date, 
-    election.level, 
-    election.type
-  );
-  if (!dateValidation.ok) {
-    errors.push(dateValidation);
-  }
-  
-  // Validate provenance for special elections
-  const provenanceValidation = requireProvenanceForSpecialElections(
-    election.state,
-    election.level,
-    election.type,
-    election.provenanceType,
-    election.provenanceUrl
-  );
-  if (!provenanceValidation.ok) {
-    errors.push(provenanceValidation);
-  }
-  
-  return errors;
-}
-
-// Helper functions
-function getDayName(day: number): string {
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  return days[day];
-}
-
-function isNovember(date: Date): boolean {
-  return date.getUTCMonth() === 10; // 0-indexed, November = 10
+// Blocking violations only - warnings are reported by evaluateStateElectionRules
+export function validateElectionData(election: ElectionRuleInput): ValidationResult[] {
+  return evaluateStateElectionRules(election).filter(v => v.severity === 'error');
 }
 
 // Validate that election is not mock/placeholder data
@@ -119,10 +678,10 @@ export function validateNotMockData(election: any): ValidationResult {
   const mockIndicators = [
     'test', 'demo', 'example', 'placeholder', 'mock', 'sample', 'dummy'
   ];
-  
+
   const titleLower = (election.title || '').toLowerCase();
   const descLower = (election.description || '').toLowerCase();
-  
+
   for (const indicator of mockIndicators) {
     if (titleLower.includes(indicator) || descLower.includes(indicator)) {
       return {
@@ -132,7 +691,7 @@ export function validateNotMockData(election: any): ValidationResult {
       };
     }
   }
-  
+
   // Check for obviously fake data patterns
   if (!election.state || election.state.length !== 2) {
     return {
@@ -141,12 +700,12 @@ export function validateNotMockData(election: any): ValidationResult {
       message: 'Election must have a valid 2-letter state code'
     };
   }
-  
+
   // Ensure date is reasonable (not too far in future or past)
   const date = new Date(election.date);
   const now = new Date();
   const yearsDiff = Math.abs(date.getFullYear() - now.getFullYear());
-  
+
   if (yearsDiff > 4) {
     return {
       ok: false,
@@ -154,13 +713,14 @@ export function validateNotMockData(election: any): ValidationResult {
       message: `Election date is unrealistic (${yearsDiff} years from now)`
     };
   }
-  
+
   return { ok: true };
 }
 
 export default {
+  evaluateStateElectionRules,
   validateElectionDateByState,
   requireProvenanceForSpecialElections,
   validateElectionData,
   validateNotMockData
-};
\ No newline at end of file
+};
@@ -1,5 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar, numeric, bigint, index } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar, numeric, bigint, bigserial, uuid, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -18,6 +18,8 @@ export const elections = pgTable("elections", {
   pollsClose: text("polls_close"),
   timezone: text("timezone"),
   isActive: boolean("is_active").default(true),
+  votingMethod: text("voting_method").default('plurality'), // 'plurality', 'rcv', 'top_two', 'runoff'
+  rcvRules: jsonb("rcv_rules"), // {preset, seats, overvoteRule, maxConsecutiveSkips, ...} for RCV contests
 });
 
 export const candidates = pgTable("candidates", {
@@ -32,6 +34,15 @@ export const candidates = pgTable("candidates", {
   isIncumbent: boolean("is_incumbent").default(false),
   description: text("description"),
   website: text("website"),
+  bioguideId: varchar("bioguide_id", { length: 20 }), // congressMembers.bioguideId when the candidate is a sitting member
+  openstatesId: varchar("openstates_id", { length: 100 }), // stateLegislators.openstatesId when the candidate is a sitting state legislator
+  fecCandidateId: varchar("fec_candidate_id", { length: 9 }), // fecCandidates.fecCandidateId for federal candidates
+  // Lifecycle - see candidateStatusChanges for the history behind the current status
+  status: text("status").notNull().default('qualified'), // 'filed', 'qualified', 'write_in', 'advanced', 'withdrawn', 'disqualified'
+  statusEffectiveDate: timestamp("status_effective_date"),
+  onBallot: boolean("on_ballot").default(true), // name printed on the ballot - stays true after a late withdrawal
+  isWriteIn: boolean("is_write_in").default(false),
+  advancedToElectionId: integer("advanced_to_election_id").references(() => elections.id), // the runoff a candidate advanced to
   votesReceived: integer("votes_received"), // actual vote count
   votePercentage: numeric("vote_percentage", { precision: 5, scale: 2 }), // percentage of total votes
   isWinner: boolean("is_winner").default(false), // election winner
@@ -61,6 +72,202 @@ export const electionResults = pgTable("election_results", {
   resultsSource: text("results_source"), // 'Associated Press', 'Secretary of State', etc.
 });
 
+// Results hierarchy - precinct -> county -> district -> state reporting units
+export const resultReportingUnits = pgTable("result_reporting_units", {
+  id: serial("id").primaryKey(),
+  electionId: integer("election_id").references(() => elections.id, { onDelete: "cascade" }).notNull(),
+  unitKey: text("unit_key").notNull(), // e.g. 'county:fulton', 'precinct:fulton/sc01'
+  level: text("level").notNull(), // 'state', 'district', 'county', 'precinct'
+  name: text("name").notNull(),
+  parentKey: text("parent_key"),
+  reportingPrecincts: integer("reporting_precincts"),
+  totalPrecincts: integer("total_precincts"),
+  percentReporting: numeric("percent_reporting", { precision: 5, scale: 2 }),
+  totalVotes: integer("total_votes"),
+  resultsSource: text("results_source"),
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => [
+  uniqueIndex("result_reporting_units_election_key_idx").on(table.electionId, table.unitKey),
+  index("result_reporting_units_parent_idx").on(table.electionId, table.parentKey),
+]);
+
+// Per-candidate counts within a reporting unit, with vote type breakdown
+export const unitCandidateResults = pgTable("unit_candidate_results", {
+  id: serial("id").primaryKey(),
+  unitId: integer("unit_id").references(() => resultReportingUnits.id, { onDelete: "cascade" }).notNull(),
+  candidateId: integer("candidate_id").references(() => candidates.id, { onDelete: "cascade" }).notNull(),
+  votes: integer("votes").notNull().default(0),
+  electionDayVotes: integer("election_day_votes"),
+  earlyVotes: integer("early_votes"),
+  mailVotes: integer("mail_votes"),
+  provisionalVotes: integer("provisional_votes"),
+  otherVotes: integer("other_votes"),
+  votePercentage: numeric("vote_percentage", { precision: 5, scale: 2 }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("unit_candidate_results_unit_candidate_idx").on(table.unitId, table.candidateId),
+]);
+
+// Results feed sources configured by admins - loaded into the adapter
+// registry at boot so polling survives restarts
+export const resultsSources = pgTable("results_sources", {
+  id: text("id").primaryKey(), // e.g. 'clarity-enr:ga:fulton'
+  adapter: text("adapter").notNull(), // 'sos-json', 'clarity-enr', 'nist-cdf', 'google-civic'
+  state: varchar("state", { length: 2 }).notNull(), // '*' for nationwide sources
+  county: text("county"),
+  url: text("url"),
+  electionIds: integer("election_ids").array(),
+  contestMap: jsonb("contest_map"), // feed contest name -> election id
+  mapping: jsonb("mapping"), // SoS JSON field mapping
+  enabled: boolean("enabled").notNull().default(true),
+  updatedBy: text("updated_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Race calls - projections/declarations with the rule and data behind them
+export const raceCalls = pgTable("race_calls", {
+  id: serial("id").primaryKey(),
+  electionId: integer("election_id").references(() => elections.id, { onDelete: "cascade" }).notNull(),
+  candidateId: integer("candidate_id").references(() => candidates.id, { onDelete: "cascade" }).notNull(),
+  callType: text("call_type").notNull(), // 'projected', 'declared'
+  status: text("status").notNull().default('active'), // 'active', 'retracted'
+  confidence: numeric("confidence", { precision: 5, scale: 4 }).notNull(),
+  rule: text("rule").notNull(), // 'all_votes_counted', 'insurmountable_lead', 'projected_margin', 'manual'
+  reason: text("reason"),
+  snapshot: jsonb("snapshot").notNull(), // counts, outstanding vote and reporting at call time
+  calledBy: text("called_by").notNull(), // 'engine' or admin user id
+  calledAt: timestamp("called_at").defaultNow().notNull(),
+  retractedAt: timestamp("retracted_at"),
+  retractedBy: text("retracted_by"),
+  retractionReason: text("retraction_reason"),
+}, (table) => [
+  index("race_calls_election_idx").on(table.electionId, table.status),
+  // At most one active call per race
+  uniqueIndex("race_calls_active_idx").on(table.electionId).where(sql`${table.status} = 'active'`),
+]);
+
+// Append-only audit trail of every race call and retraction
+export const raceCallAuditLog = pgTable("race_call_audit_log", {
+  id: serial("id").primaryKey(),
+  raceCallId: integer("race_call_id").references(() => raceCalls.id, { onDelete: "cascade" }).notNull(),
+  electionId: integer("election_id").references(() => elections.id, { onDelete: "cascade" }).notNull(),
+  action: text("action").notNull(), // 'call', 'retract'
+  actor: text("actor").notNull(),
+  confidence: numeric("confidence", { precision: 5, scale: 4 }),
+  rule: text("rule"),
+  details: jsonb("details"),
+  notificationEventId: integer("notification_event_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("race_call_audit_log_election_idx").on(table.electionId),
+]);
+
+// Ranked-choice tabulations - round-by-round tallies, eliminations and transfers
+export const rcvTabulations = pgTable("rcv_tabulations", {
+  id: serial("id").primaryKey(),
+  electionId: integer("election_id").references(() => elections.id, { onDelete: "cascade" }).notNull(),
+  contestName: text("contest_name").notNull(),
+  status: text("status").notNull().default('preliminary'), // 'preliminary', 'final'
+  method: text("method").notNull(), // 'irv', 'stv'
+  seats: integer("seats").notNull().default(1),
+  cvrFormat: text("cvr_format").notNull(), // 'simple', 'dominion', 'nist'
+  source: text("source"),
+  totalBallots: integer("total_ballots").notNull(),
+  undervotes: integer("undervotes").notNull().default(0),
+  exhaustedBallots: numeric("exhausted_ballots", { precision: 14, scale: 4 }).notNull(),
+  exhaustedBy: jsonb("exhausted_by").notNull(),
+  winners: jsonb("winners").notNull(), // [{name, candidateId}]
+  candidateMap: jsonb("candidate_map").notNull(), // CVR name -> our candidate id (or null)
+  rounds: jsonb("rounds").notNull(),
+  options: jsonb("options").notNull(),
+  tabulatedBy: text("tabulated_by"),
+  tabulatedAt: timestamp("tabulated_at").defaultNow().notNull(),
+}, (table) => [
+  index("rcv_tabulations_election_idx").on(table.electionId, table.tabulatedAt),
+]);
+
+// Temporal facts (migrations/001_temporal_facts.sql, 012_election_fact_history.sql)
+// Data provenance - who told us
+export const factSources = pgTable("sources", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  url: text("url"),
+  authority: text("authority"), // "CA SOS", "Sonoma County ROV", "ProPublica", etc.
+  reliability: integer("reliability").notNull().default(80),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("sources_name_url_key").on(table.name, table.url),
+]);
+
+// Append-only observations of an election's hard facts
+export const electionFacts = pgTable("election_facts", {
+  factId: bigserial("fact_id", { mode: "number" }).primaryKey(),
+  electionId: bigint("election_id", { mode: "number" }).references(() => elections.id),
+  factType: text("fact_type").notNull(), // 'date', 'jurisdiction', 'office', 'candidate_list'
+  factValue: jsonb("fact_value").notNull(),
+  sourceId: uuid("source_id").references(() => factSources.id),
+  sourceUrl: text("source_url"),
+  observedAt: timestamp("observed_at", { withTimezone: true }).defaultNow().notNull(),
+  verifiedAt: timestamp("verified_at", { withTimezone: true }),
+  verifierName: text("verifier_name"),
+  confidence: integer("confidence").notNull().default(80),
+  recordedBy: text("recorded_by"),
+  reason: text("reason"),
+}, (table) => [
+  index("idx_election_facts_election").on(table.electionId),
+  index("idx_election_facts_type").on(table.factType),
+  index("idx_election_facts_observed").on(table.electionId, table.observedAt),
+]);
+
+// Current canonical values - reconcile_election_dates() pushes these onto elections
+export const electionTruth = pgTable("election_truth", {
+  electionId: bigint("election_id", { mode: "number" }).primaryKey().references(() => elections.id),
+  dateUtc: timestamp("date_utc", { withTimezone: true }).notNull(),
+  jurisdiction: text("jurisdiction").notNull(),
+  office: text("office").notNull(),
+  district: text("district"),
+  status: text("status").notNull().default('scheduled'),
+  confidence: integer("confidence").notNull().default(80),
+  lockReason: text("lock_reason"), // e.g. "County certified", "State UDEL rule"
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedBy: text("updated_by"),
+}, (table) => [
+  index("idx_election_truth_date").on(table.dateUtc),
+]);
+
+export const electionDateVersions = pgTable("election_date_versions", {
+  versionId: bigserial("version_id", { mode: "number" }).primaryKey(),
+  electionId: bigint("election_id", { mode: "number" }).references(() => elections.id).notNull(),
+  dateFrom: timestamp("date_from", { withTimezone: true }).notNull(),
+  dateTo: timestamp("date_to", { withTimezone: true }).notNull(),
+  changeReason: text("change_reason").notNull(),
+  sourceId: uuid("source_id").references(() => factSources.id),
+  changedAt: timestamp("changed_at", { withTimezone: true }).defaultNow().notNull(),
+  changedBy: text("changed_by"),
+}, (table) => [
+  index("idx_date_versions_election").on(table.electionId),
+]);
+
+// Voter-facing deadlines for an election - one of each kind. Windows
+// (early voting) have a first day; single deadlines only a last day.
+export const electionDeadlines = pgTable("election_deadlines", {
+  id: serial("id").primaryKey(),
+  electionId: integer("election_id").references(() => elections.id, { onDelete: "cascade" }).notNull(),
+  kind: varchar("kind", { length: 30 }).notNull(), // 'registration', 'early_voting', 'mail_ballot_request', 'mail_ballot_return'
+  startsOn: timestamp("starts_on"), // first day of a window
+  endsOn: timestamp("ends_on").notNull(), // the deadline, or last day of a window
+  note: text("note"), // e.g. "Postmarked by election day"
+  sourceUrl: text("source_url"),
+  sequence: integer("sequence").notNull().default(0), // bumped on each change, for calendar feeds
+  removedAt: timestamp("removed_at"), // kept as a tombstone so feeds can cancel the event
+  updatedBy: text("updated_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("election_deadlines_kind_idx").on(table.electionId, table.kind),
+]);
+
 // Session storage table for auth
 export const sessions = pgTable(
   "sessions",
@@ -118,6 +325,72 @@ export const watchlist = pgTable("watchlist", {
   index("watchlist_priority_idx").on(table.priority),
 ]);
 
+// Sample ballots a user has filled in - the composed ballot is kept with
+// the picks so the printed cheat sheet matches what they marked
+export const savedBallots = pgTable("saved_ballots", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  address: text("address").notNull(),
+  electionDate: text("election_date").notNull(), // YYYY-MM-DD
+  electionName: text("election_name"),
+  state: text("state"),
+  ballot: jsonb("ballot").notNull(),             // SampleBallot snapshot
+  picks: jsonb("picks").notNull().default({}),   // {contestKey: {choice, note}}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("saved_ballots_user_idx").on(table.userId),
+  uniqueIndex("saved_ballots_user_address_date_key").on(table.userId, table.address, table.electionDate),
+]);
+
+// Ballot measures - propositions, initiatives, referenda, bond and charter
+// questions. Voted on yes/no rather than by candidate, so they are not
+// elections rows; electionId links the election day they appear with.
+export const ballotMeasures = pgTable("ballot_measures", {
+  id: serial("id").primaryKey(),
+  electionId: integer("election_id").references(() => elections.id),
+  state: text("state").notNull(),
+  jurisdiction: text("jurisdiction"),              // null for statewide, else 'Sonoma County', 'City of Austin'
+  level: text("level").notNull().default('state'), // 'state', 'county', 'local'
+  electionDate: timestamp("election_date").notNull(),
+  measureNumber: text("measure_number"),           // 'Proposition 1', 'Measure K', 'Question 3'
+  title: text("title").notNull(),
+  measureType: text("measure_type").default('initiative'), // 'initiative', 'referendum', 'legislative', 'bond', 'charter', 'advisory'
+  summary: text("summary"),
+  fullTextUrl: text("full_text_url"),
+  fiscalImpact: text("fiscal_impact"),
+  yesMeaning: text("yes_meaning"),
+  noMeaning: text("no_meaning"),
+  passageThreshold: text("passage_threshold").default('majority'), // 'majority', 'three_fifths', 'two_thirds', '55_percent'
+  supportingCommittees: jsonb("supporting_committees").default([]), // [{name, fecId?, url?, raised?}]
+  opposingCommittees: jsonb("opposing_committees").default([]),
+  endorsements: jsonb("endorsements").default([]),                  // [{name, position: 'support'|'oppose', type?, url?}]
+  yesVotes: integer("yes_votes"),
+  noVotes: integer("no_votes"),
+  status: text("status").default('pending'),       // 'pending', 'passed', 'failed', 'withdrawn'
+  tags: text("tags").array(),                       // issue areas for recommendations: ['housing', 'education']
+  sourceUrl: text("source_url"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("ballot_measures_state_date_idx").on(table.state, table.electionDate),
+  index("ballot_measures_election_idx").on(table.electionId),
+  uniqueIndex("ballot_measures_identity_key").on(table.state, table.electionDate, table.title),
+]);
+
+// Measures on a user's watchlist, alongside the election watchlist
+export const measureWatchlist = pgTable("measure_watchlist", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  measureId: integer("measure_id").references(() => ballotMeasures.id, { onDelete: 'cascade' }).notNull(),
+  notificationsEnabled: boolean("notifications_enabled").default(true),
+  reminderDaysBefore: integer("reminder_days_before").default(7),
+  addedVia: text("added_via").default('manual'), // 'manual', 'recommendation'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("measure_watchlist_user_measure_key").on(table.userId, table.measureId),
+]);
+
 // =============================================================================
 // POLITICAL ANALYSIS & MOMENTUM TRACKING SCHEMA
 // =============================================================================
@@ -205,6 +478,78 @@ export const politicalMomentum = pgTable("political_momentum", {
   index("political_momentum_calculated_at_idx").on(table.calculatedAt),
 ]);
 
+// Pollster registry - canonical pollster names, aliases and computed accuracy
+export const pollsters = pgTable("pollsters", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  aliases: text("aliases").array().notNull(), // normalized names that resolve to this pollster
+  
+  // Methodology & sponsorship
+  methodology: text("methodology"), // 'live_phone', 'online_panel', 'ivr', 'text', 'mixed'
+  isPartisanSponsor: boolean("is_partisan_sponsor").default(false),
+  sponsorParty: text("sponsor_party"), // 'D', 'R' when partisan
+  website: text("website"),
+  
+  // Historical accuracy vs certified results (final pre-election polls)
+  ratedPollCount: integer("rated_poll_count").default(0),
+  meanAbsoluteError: numeric("mean_absolute_error", { precision: 5, scale: 2 }), // margin error, points
+  meanSignedError: numeric("mean_signed_error", { precision: 5, scale: 2 }), // + overstates Democrats
+  plusMinus: numeric("plus_minus", { precision: 5, scale: 2 }), // vs field average, negative is better
+  grade: text("grade"), // 'A+' .. 'F', null when unrated
+  ratingsUpdatedAt: timestamp("ratings_updated_at"),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// House effects - how far a pollster runs from the polling consensus, by party
+export const pollsterHouseEffects = pgTable("pollster_house_effects", {
+  id: serial("id").primaryKey(),
+  pollsterId: integer("pollster_id").references(() => pollsters.id, { onDelete: "cascade" }).notNull(),
+  party: text("party").notNull(), // 'D', 'R', 'I'
+  effect: numeric("effect", { precision: 5, scale: 2 }).notNull(), // points above consensus
+  pollCount: integer("poll_count").notNull(),
+  windowDays: integer("window_days").notNull(),
+  computedAt: timestamp("computed_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("pollster_house_effects_pollster_party_idx").on(table.pollsterId, table.party),
+]);
+
+// Forecast runs - one row per Monte Carlo run (single race or full midterm)
+export const forecastRuns = pgTable("forecast_runs", {
+  id: serial("id").primaryKey(),
+  scope: text("scope").notNull(), // 'race', 'midterms'
+  electionId: integer("election_id").references(() => elections.id), // set for race-scope runs
+  cycle: integer("cycle"), // e.g. 2026 for midterm runs
+  modelVersion: text("model_version").notNull(),
+  simulations: integer("simulations").notNull(),
+  parameters: jsonb("parameters"), // model parameters incl. seed
+  chambers: jsonb("chambers"), // ChamberForecast[] for midterm runs
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("forecast_runs_scope_created_idx").on(table.scope, table.createdAt),
+  index("forecast_runs_election_id_idx").on(table.electionId),
+]);
+
+// Per-candidate forecast outcomes for each run - queried over time for history charts
+export const raceForecasts = pgTable("race_forecasts", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").references(() => forecastRuns.id, { onDelete: "cascade" }).notNull(),
+  electionId: integer("election_id").references(() => elections.id).notNull(),
+  candidateId: integer("candidate_id").references(() => candidates.id).notNull(),
+  winProbability: numeric("win_probability", { precision: 5, scale: 4 }).notNull(), // 0-1
+  meanShare: numeric("mean_share", { precision: 5, scale: 2 }).notNull(),
+  shareP10: numeric("share_p10", { precision: 5, scale: 2 }),
+  shareP50: numeric("share_p50", { precision: 5, scale: 2 }),
+  shareP90: numeric("share_p90", { precision: 5, scale: 2 }),
+  pollWeight: numeric("poll_weight", { precision: 4, scale: 3 }),
+  tippingPointProbability: numeric("tipping_point_probability", { precision: 5, scale: 4 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("race_forecasts_election_created_idx").on(table.electionId, table.createdAt),
+  index("race_forecasts_run_id_idx").on(table.runId),
+]);
+
 // =============================================================================
 // RECOMMENDATION SYSTEM SCHEMA
 // =============================================================================
@@ -609,15 +954,72 @@ export const congressBills = pgTable("congress_bills", {
   congress: integer("congress").notNull(),
   billNumber: varchar("bill_number", { length: 50 }).notNull(),
   title: text("title").notNull(),
-  type: varchar("type", { length: 50 }).notNull(),
+  type: varchar("type", { length: 50 }).notNull(), // congress.gov form: 'hr', 's', 'hjres'
   introducedDate: timestamp("introduced_date"),
   latestActionDate: timestamp("latest_action_date"),
   latestActionText: text("latest_action_text"),
   sponsors: jsonb("sponsors").default([]),
+  // Tracker fields
+  originChamber: varchar("origin_chamber", { length: 20 }), // 'House' or 'Senate'
+  sponsorBioguideId: varchar("sponsor_bioguide_id", { length: 20 }),
+  policyArea: text("policy_area"),
+  subjects: text("subjects").array(),
+  summary: text("summary"),
+  searchText: text("search_text"), // title, summary, policy area and subjects, for full-text search
+  stage: varchar("stage", { length: 20 }).default('introduced'), // see BILL_STAGES in server/lib/bill-tracker
+  stageChangedAt: timestamp("stage_changed_at"),
+  cosponsorCount: integer("cosponsor_count").default(0),
+  url: text("url"),
+  lastSyncedAt: timestamp("last_synced_at"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("congress_bills_identity_key").on(table.congress, table.type, table.billNumber),
+  index("congress_bills_stage_idx").on(table.stage),
+  index("congress_bills_search_idx").using("gin", sql`to_tsvector('english', coalesce(${table.searchText}, ''))`),
+]);
+
+// Every action on a tracked bill, as congress.gov lists them
+export const billActions = pgTable("bill_actions", {
+  id: serial("id").primaryKey(),
+  billId: integer("bill_id").references(() => congressBills.id, { onDelete: 'cascade' }).notNull(),
+  actionKey: varchar("action_key", { length: 80 }).notNull(), // date, code, chamber and text digest
+  actionDate: timestamp("action_date"),
+  chamber: varchar("chamber", { length: 20 }),
+  actionCode: varchar("action_code", { length: 20 }),
+  actionType: varchar("action_type", { length: 50 }), // 'IntroReferral', 'Committee', 'Floor', 'President', 'BecameLaw'
+  text: text("text").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("bill_actions_bill_key").on(table.billId, table.actionKey),
+  index("bill_actions_bill_date_idx").on(table.billId, table.actionDate),
+]);
+
+// Committees a bill was referred to, with what each did with it
+export const billCommitteeReferrals = pgTable("bill_committee_referrals", {
+  id: serial("id").primaryKey(),
+  billId: integer("bill_id").references(() => congressBills.id, { onDelete: 'cascade' }).notNull(),
+  systemCode: varchar("system_code", { length: 50 }).notNull(),
+  name: text("name").notNull(),
+  chamber: varchar("chamber", { length: 20 }),
+  activities: jsonb("activities").default([]), // [{ name: 'Referred To', date }]
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("bill_committee_referrals_key").on(table.billId, table.systemCode),
+]);
+
+// Bills a user follows; alerts go out through their notification subscriptions
+export const billWatches = pgTable("bill_watches", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  billId: integer("bill_id").references(() => congressBills.id, { onDelete: 'cascade' }).notNull(),
+  notificationsEnabled: boolean("notifications_enabled").default(true),
+  notifyOn: varchar("notify_on", { length: 20 }).default('stage'), // 'stage' or 'all_actions'
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("bill_watches_user_bill_key").on(table.userId, table.billId),
+]);
 
 export const congressCommittees = pgTable("congress_committees", {
   id: serial("id").primaryKey(),
@@ -631,6 +1033,320 @@ export const congressCommittees = pgTable("congress_committees", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Roll-call votes in either chamber. House votes come from the
+// congress.gov house-vote API, Senate votes from senate.gov's LIS XML.
+export const rollCallVotes = pgTable("roll_call_votes", {
+  id: serial("id").primaryKey(),
+  chamber: varchar("chamber", { length: 20 }).notNull(), // 'House' or 'Senate'
+  congress: integer("congress").notNull(),
+  session: integer("session").notNull(),
+  rollCallNumber: integer("roll_call_number").notNull(),
+  voteDate: timestamp("vote_date"),
+  question: text("question"),
+  description: text("description"),
+  result: text("result"),
+  voteType: text("vote_type"),                 // 'Yea-and-Nay', '2/3 Yea-And-Nay', 'Recorded Vote'
+  billType: varchar("bill_type", { length: 20 }),
+  billNumber: varchar("bill_number", { length: 20 }),
+  policyArea: text("policy_area"),             // congress.gov policy area of the bill
+  issueCategory: text("issue_category"),       // our comparison category, e.g. 'Healthcare'
+  isKeyVote: boolean("is_key_vote").default(false),
+  url: text("url"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("roll_call_votes_identity_key").on(table.chamber, table.congress, table.session, table.rollCallNumber),
+  index("roll_call_votes_key_vote_idx").on(table.isKeyVote),
+]);
+
+// How each member voted on a roll call
+export const memberVotes = pgTable("member_votes", {
+  id: serial("id").primaryKey(),
+  rollCallId: integer("roll_call_id").references(() => rollCallVotes.id, { onDelete: 'cascade' }).notNull(),
+  bioguideId: varchar("bioguide_id", { length: 20 }).notNull(),
+  party: varchar("party", { length: 10 }),     // 'D', 'R', 'I'
+  state: varchar("state", { length: 10 }),
+  position: varchar("position", { length: 20 }).notNull(), // 'yea', 'nay', 'present', 'not_voting'
+}, (table) => [
+  uniqueIndex("member_votes_roll_call_member_key").on(table.rollCallId, table.bioguideId),
+  index("member_votes_bioguide_idx").on(table.bioguideId),
+]);
+
+// Sponsor/cosponsor pairs, for the bipartisan co-sponsorship index
+export const billCosponsorships = pgTable("bill_cosponsorships", {
+  id: serial("id").primaryKey(),
+  congress: integer("congress").notNull(),
+  billType: varchar("bill_type", { length: 20 }).notNull(),
+  billNumber: varchar("bill_number", { length: 20 }).notNull(),
+  sponsorBioguideId: varchar("sponsor_bioguide_id", { length: 20 }).notNull(),
+  sponsorParty: varchar("sponsor_party", { length: 10 }),
+  cosponsorBioguideId: varchar("cosponsor_bioguide_id", { length: 20 }).notNull(),
+  cosponsorParty: varchar("cosponsor_party", { length: 10 }),
+  policyArea: text("policy_area"),
+  cosponsoredAt: timestamp("cosponsored_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("bill_cosponsorships_key").on(table.congress, table.billType, table.billNumber, table.cosponsorBioguideId),
+  index("bill_cosponsorships_sponsor_idx").on(table.sponsorBioguideId),
+  index("bill_cosponsorships_cosponsor_idx").on(table.cosponsorBioguideId),
+]);
+
+// State legislatures, synced from OpenStates bulk data. Chambers are
+// OpenStates org classifications: 'upper', 'lower', or 'legislature' for
+// Nebraska's unicameral body.
+export const stateLegislativeChambers = pgTable("state_legislative_chambers", {
+  id: serial("id").primaryKey(),
+  state: varchar("state", { length: 2 }).notNull(),
+  chamber: varchar("chamber", { length: 20 }).notNull(),
+  name: text("name").notNull(),              // 'Senate', 'House of Delegates'
+  memberTitle: text("member_title"),         // 'Senator', 'Delegate'
+  seats: integer("seats"),
+  openstatesOrgId: varchar("openstates_org_id", { length: 100 }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("state_legislative_chambers_key").on(table.state, table.chamber),
+]);
+
+export const stateLegislativeDistricts = pgTable("state_legislative_districts", {
+  id: serial("id").primaryKey(),
+  state: varchar("state", { length: 2 }).notNull(),
+  chamber: varchar("chamber", { length: 20 }).notNull(),
+  district: varchar("district", { length: 100 }).notNull(), // OpenStates label: '12', '1A', 'Chittenden-1'
+  divisionId: text("division_id"),                          // OCD division id
+  seats: integer("seats").default(1),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("state_legislative_districts_key").on(table.state, table.chamber, table.district),
+]);
+
+export const stateLegislators = pgTable("state_legislators", {
+  id: serial("id").primaryKey(),
+  openstatesId: varchar("openstates_id", { length: 100 }).notNull().unique(), // ocd-person/...
+  state: varchar("state", { length: 2 }).notNull(),
+  chamber: varchar("chamber", { length: 20 }),
+  district: varchar("district", { length: 100 }),
+  name: text("name").notNull(),
+  givenName: text("given_name"),
+  familyName: text("family_name"),
+  party: text("party"),
+  email: text("email"),
+  imageUrl: text("image_url"),
+  capitolPhone: text("capitol_phone"),
+  links: text("links").array(),
+  isCurrent: boolean("is_current").default(true),
+  sourceHash: varchar("source_hash", { length: 40 }), // skips rewriting unchanged rows on incremental syncs
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("state_legislators_seat_idx").on(table.state, table.chamber, table.district),
+]);
+
+export const stateLegislativeSessions = pgTable("state_legislative_sessions", {
+  id: serial("id").primaryKey(),
+  state: varchar("state", { length: 2 }).notNull(),
+  identifier: varchar("identifier", { length: 50 }).notNull(), // '2025', '2025S1'
+  name: text("name").notNull(),
+  classification: varchar("classification", { length: 20 }),  // 'primary', 'special'
+  startDate: timestamp("start_date"),
+  endDate: timestamp("end_date"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("state_legislative_sessions_key").on(table.state, table.identifier),
+]);
+
+export const stateBills = pgTable("state_bills", {
+  id: serial("id").primaryKey(),
+  openstatesId: varchar("openstates_id", { length: 100 }).notNull().unique(), // ocd-bill/...
+  state: varchar("state", { length: 2 }).notNull(),
+  session: varchar("session", { length: 50 }).notNull(),
+  identifier: varchar("identifier", { length: 50 }).notNull(), // 'HB 1'
+  title: text("title").notNull(),
+  chamber: varchar("chamber", { length: 20 }),
+  classification: text("classification").array(),
+  subjects: text("subjects").array(),
+  sponsors: jsonb("sponsors").default([]),  // [{ name, personId, primary, classification }]
+  actions: jsonb("actions").default([]),    // [{ date, description, classification, chamber }]
+  firstActionDate: timestamp("first_action_date"),
+  latestActionDate: timestamp("latest_action_date"),
+  latestActionDescription: text("latest_action_description"),
+  latestPassageDate: timestamp("latest_passage_date"),
+  sourceHash: varchar("source_hash", { length: 40 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("state_bills_identity_key").on(table.state, table.session, table.identifier),
+]);
+
+// Where each state's last OpenStates sync left off, per dataset
+// ('people', 'jurisdiction', 'bills:{session}')
+export const openstatesSyncState = pgTable("openstates_sync_state", {
+  id: serial("id").primaryKey(),
+  state: varchar("state", { length: 2 }).notNull(),
+  dataset: varchar("dataset", { length: 80 }).notNull(),
+  source: varchar("source", { length: 10 }),   // 'file' or 'http'
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+  contentHash: varchar("content_hash", { length: 40 }),
+  rowCount: integer("row_count"),
+  syncedAt: timestamp("synced_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("openstates_sync_state_key").on(table.state, table.dataset),
+]);
+
+// FEC bulk data (candidate master, committee master, weball, itemized
+// individual contributions), loaded from disk per two-year cycle
+export const fecCandidates = pgTable("fec_candidates", {
+  id: serial("id").primaryKey(),
+  fecCandidateId: varchar("fec_candidate_id", { length: 9 }).notNull(),
+  cycle: integer("cycle").notNull(),
+  name: text("name").notNull(),               // 'SMITH, JANE A.' as filed
+  party: varchar("party", { length: 3 }),
+  electionYear: integer("election_year"),
+  office: varchar("office", { length: 1 }),   // 'H', 'S', 'P'
+  officeState: varchar("office_state", { length: 2 }),
+  district: varchar("district", { length: 2 }), // '00' for at-large and statewide
+  incumbentChallenge: varchar("incumbent_challenge", { length: 1 }), // 'I', 'C', 'O'
+  status: varchar("status", { length: 1 }),
+  principalCommitteeId: varchar("principal_committee_id", { length: 9 }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("fec_candidates_cycle_key").on(table.fecCandidateId, table.cycle),
+  index("fec_candidates_seat_idx").on(table.cycle, table.office, table.officeState, table.district),
+]);
+
+export const fecCommittees = pgTable("fec_committees", {
+  id: serial("id").primaryKey(),
+  committeeId: varchar("committee_id", { length: 9 }).notNull(),
+  cycle: integer("cycle").notNull(),
+  name: text("name").notNull(),
+  designation: varchar("designation", { length: 1 }), // 'P' principal, 'A' authorized, 'U' unauthorized...
+  type: varchar("type", { length: 1 }),               // 'H', 'S', 'P', 'O' super PAC, 'Q' PAC...
+  party: varchar("party", { length: 3 }),
+  state: varchar("state", { length: 2 }),
+  fecCandidateId: varchar("fec_candidate_id", { length: 9 }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("fec_committees_cycle_key").on(table.committeeId, table.cycle),
+  index("fec_committees_candidate_idx").on(table.fecCandidateId),
+]);
+
+// Cycle-to-date totals from each weball file loaded; successive loads
+// build up the per-candidate series
+export const fecCandidateTotals = pgTable("fec_candidate_totals", {
+  id: serial("id").primaryKey(),
+  fecCandidateId: varchar("fec_candidate_id", { length: 9 }).notNull(),
+  cycle: integer("cycle").notNull(),
+  coverageEndDate: timestamp("coverage_end_date").notNull(),
+  totalReceipts: numeric("total_receipts", { precision: 14, scale: 2 }).notNull(),
+  totalDisbursements: numeric("total_disbursements", { precision: 14, scale: 2 }).notNull(),
+  cashOnHandStart: numeric("cash_on_hand_start", { precision: 14, scale: 2 }),
+  cashOnHand: numeric("cash_on_hand", { precision: 14, scale: 2 }),
+  individualContributions: numeric("individual_contributions", { precision: 14, scale: 2 }),
+  candidateContributions: numeric("candidate_contributions", { precision: 14, scale: 2 }),
+  candidateLoans: numeric("candidate_loans", { precision: 14, scale: 2 }),
+  otherCommitteeContributions: numeric("other_committee_contributions", { precision: 14, scale: 2 }),
+  partyContributions: numeric("party_contributions", { precision: 14, scale: 2 }),
+  debts: numeric("debts", { precision: 14, scale: 2 }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("fec_candidate_totals_snapshot_key").on(table.fecCandidateId, table.cycle, table.coverageEndDate),
+]);
+
+// Itemized individual contributions to candidate committees, rolled up by
+// quarter and contributor state - the raw files run to tens of millions of rows
+export const fecContributionAggregates = pgTable("fec_contribution_aggregates", {
+  id: serial("id").primaryKey(),
+  committeeId: varchar("committee_id", { length: 9 }).notNull(),
+  cycle: integer("cycle").notNull(),
+  quarter: varchar("quarter", { length: 7 }).notNull(),                   // '2024-Q1'
+  contributorState: varchar("contributor_state", { length: 2 }).notNull(), // '' when not given
+  total: numeric("total", { precision: 14, scale: 2 }).notNull(),
+  count: integer("count").notNull(),
+}, (table) => [
+  uniqueIndex("fec_contribution_aggregates_key").on(table.committeeId, table.cycle, table.quarter, table.contributorState),
+]);
+
+// Bulk files already loaded, so unchanged files are skipped
+export const fecBulkFiles = pgTable("fec_bulk_files", {
+  id: serial("id").primaryKey(),
+  cycle: integer("cycle").notNull(),
+  kind: varchar("kind", { length: 10 }).notNull(), // 'cn', 'cm', 'weball', 'itcont', 'ie'
+  fileName: text("file_name").notNull(),
+  signature: text("signature").notNull(),          // size and modification time
+  rowCount: integer("row_count"),
+  ingestedAt: timestamp("ingested_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("fec_bulk_files_key").on(table.cycle, table.fileName),
+]);
+
+// Independent expenditures (Schedule E, including 24- and 48-hour
+// notices), attributed to our races and candidates. One row per spender
+// transaction: amendments and the regular filing replace earlier notices.
+export const independentExpenditures = pgTable("independent_expenditures", {
+  id: serial("id").primaryKey(),
+  committeeId: varchar("committee_id", { length: 9 }).notNull(), // the spender
+  transactionId: varchar("transaction_id", { length: 60 }).notNull(),
+  cycle: integer("cycle").notNull(),
+  spenderName: text("spender_name").notNull(),
+  fecCandidateId: varchar("fec_candidate_id", { length: 9 }),
+  candidateName: text("candidate_name"),
+  candidateOffice: varchar("candidate_office", { length: 1 }),
+  candidateState: varchar("candidate_state", { length: 2 }),
+  candidateDistrict: varchar("candidate_district", { length: 2 }),
+  electionType: varchar("election_type", { length: 1 }),
+  supportOppose: varchar("support_oppose", { length: 10 }).notNull(), // 'support', 'oppose'
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull(),
+  expenditureDate: timestamp("expenditure_date"),
+  disseminationDate: timestamp("dissemination_date"),
+  purpose: text("purpose"),
+  payee: text("payee"),
+  reportType: varchar("report_type", { length: 10 }), // '24', '48' for notices
+  isNotice: boolean("is_notice").default(false),
+  fileNumber: integer("file_number"),
+  electionId: integer("election_id").references(() => elections.id),
+  candidateId: integer("candidate_id").references(() => candidates.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("independent_expenditures_transaction_key").on(table.committeeId, table.transactionId),
+  index("independent_expenditures_election_idx").on(table.electionId),
+  index("independent_expenditures_candidate_idx").on(table.fecCandidateId, table.cycle),
+]);
+
+// Candidate status transitions with the date they took effect and who reported them
+export const candidateStatusChanges = pgTable("candidate_status_changes", {
+  id: serial("id").primaryKey(),
+  candidateId: integer("candidate_id").references(() => candidates.id).notNull(),
+  electionId: integer("election_id").references(() => elections.id),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  effectiveDate: timestamp("effective_date").notNull(),
+  onBallot: boolean("on_ballot"),
+  source: text("source").notNull(), // 'secretary_of_state', 'county_clerk', 'campaign', 'news', ...
+  sourceUrl: text("source_url"),
+  reason: text("reason"),
+  actor: varchar("actor"), // admin or process that recorded the change
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("candidate_status_changes_candidate_idx").on(table.candidateId, table.effectiveDate),
+]);
+
+// Crosswalk of candidates to their IDs in other data sources
+export const candidateExternalIds = pgTable("candidate_external_ids", {
+  id: serial("id").primaryKey(),
+  candidateId: integer("candidate_id").references(() => candidates.id).notNull(),
+  system: varchar("system", { length: 20 }).notNull(), // 'bioguide', 'fec', 'votesmart', 'openstates', 'ballotpedia'
+  externalId: varchar("external_id", { length: 200 }).notNull(),
+  externalName: text("external_name"), // the person's name as that source spells it
+  confidence: numeric("confidence", { precision: 4, scale: 3 }),
+  method: varchar("method", { length: 20 }).notNull(), // 'linked' (from an ID column), 'auto', 'manual'
+  confirmedBy: varchar("confirmed_by"), // data steward who confirmed a queued match
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("candidate_external_ids_candidate_system_key").on(table.candidateId, table.system),
+  index("candidate_external_ids_lookup_idx").on(table.system, table.externalId),
+]);
+
 // Candidate biographical data storage for scraped/researched information
 export const candidateBiography = pgTable("candidate_biography", {
   id: serial("id").primaryKey(),
@@ -743,6 +1459,26 @@ export const insertElectionResultSchema = createInsertSchema(electionResults).om
   lastUpdated: true,
 });
 
+export const insertResultReportingUnitSchema = createInsertSchema(resultReportingUnits).omit({
+  id: true,
+  lastUpdated: true,
+});
+
+export const insertUnitCandidateResultSchema = createInsertSchema(unitCandidateResults).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertRaceCallSchema = createInsertSchema(raceCalls).omit({
+  id: true,
+  calledAt: true,
+});
+
+export const insertRaceCallAuditLogSchema = createInsertSchema(raceCallAuditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Candidate engagement schemas
 export const insertCandidatePositionSchema = createInsertSchema(candidatePositions).omit({
   id: true,
@@ -799,8 +1535,49 @@ export const insertDataPurchaseSchema = createInsertSchema(dataPurchases).omit({
 export type Election = typeof elections.$inferSelect;
 export type InsertElection = z.infer<typeof insertElectionSchema>;
 export type Candidate = typeof candidates.$inferSelect;
+// As candidate listings return it, with the status-derived active flag
+export type ListedCandidate = Candidate & { isActive: boolean };
 export type ElectionResult = typeof electionResults.$inferSelect;
+export type ResultsSource = typeof resultsSources.$inferSelect;
 export type InsertElectionResult = z.infer<typeof insertElectionResultSchema>;
+export type RcvTabulationRecord = typeof rcvTabulations.$inferSelect;
+export type FactSource = typeof factSources.$inferSelect;
+export type ElectionFact = typeof electionFacts.$inferSelect;
+export type ElectionDeadline = typeof electionDeadlines.$inferSelect;
+export type ElectionTruth = typeof electionTruth.$inferSelect;
+export type ElectionDateVersion = typeof electionDateVersions.$inferSelect;
+export type SavedBallot = typeof savedBallots.$inferSelect;
+export type BallotMeasure = typeof ballotMeasures.$inferSelect;
+export type MeasureWatchlistItem = typeof measureWatchlist.$inferSelect;
+export type RollCallVote = typeof rollCallVotes.$inferSelect;
+export type MemberVote = typeof memberVotes.$inferSelect;
+export type BillCosponsorship = typeof billCosponsorships.$inferSelect;
+export type CongressBill = typeof congressBills.$inferSelect;
+export type BillAction = typeof billActions.$inferSelect;
+export type BillCommitteeReferral = typeof billCommitteeReferrals.$inferSelect;
+export type BillWatch = typeof billWatches.$inferSelect;
+export type StateLegislativeChamber = typeof stateLegislativeChambers.$inferSelect;
+export type StateLegislativeDistrict = typeof stateLegislativeDistricts.$inferSelect;
+export type StateLegislator = typeof stateLegislators.$inferSelect;
+export type StateLegislativeSession = typeof stateLegislativeSessions.$inferSelect;
+export type StateBill = typeof stateBills.$inferSelect;
+export type OpenstatesSyncState = typeof openstatesSyncState.$inferSelect;
+export type FecCandidate = typeof fecCandidates.$inferSelect;
+export type FecCommittee = typeof fecCommittees.$inferSelect;
+export type FecCandidateTotals = typeof fecCandidateTotals.$inferSelect;
+export type FecContributionAggregate = typeof fecContributionAggregates.$inferSelect;
+export type FecBulkFile = typeof fecBulkFiles.$inferSelect;
+export type IndependentExpenditure = typeof independentExpenditures.$inferSelect;
+export type CandidateExternalId = typeof candidateExternalIds.$inferSelect;
+export type CandidateStatusChange = typeof candidateStatusChanges.$inferSelect;
+export type ResultReportingUnit = typeof resultReportingUnits.$inferSelect;
+export type InsertResultReportingUnit = z.infer<typeof insertResultReportingUnitSchema>;
+export type UnitCandidateResult = typeof unitCandidateResults.$inferSelect;
+export type InsertUnitCandidateResult = z.infer<typeof insertUnitCandidateResultSchema>;
+export type RaceCall = typeof raceCalls.$inferSelect;
+export type InsertRaceCall = z.infer<typeof insertRaceCallSchema>;
+export type RaceCallAuditEntry = typeof raceCallAuditLog.$inferSelect;
+export type InsertRaceCallAuditEntry = z.infer<typeof insertRaceCallAuditLogSchema>;
 export type InsertCandidate = z.infer<typeof insertCandidateSchema>;
 export type ElectionFilters = z.infer<typeof filterSchema>;
 export type User = typeof users.$inferSelect;
@@ -854,6 +1631,7 @@ export const notificationPreferences = pgTable("notification_preferences", {
   userId: varchar("user_id").references(() => users.id).notNull(),
   emailEnabled: boolean("email_enabled").default(true),
   smsEnabled: boolean("sms_enabled").default(false),
+  pushEnabled: boolean("push_enabled").default(false),
   phoneNumber: varchar("phone_number"),
   // Granular notification types
   electionResultsEnabled: boolean("election_results_enabled").default(true),
@@ -872,6 +1650,10 @@ export const notificationPreferences = pgTable("notification_preferences", {
   // Timing preferences
   preferredDeliveryTime: text("preferred_delivery_time").default("09:00"), // HH:MM format
   timezone: text("timezone").default("America/New_York"),
+  // Non-urgent email, SMS and push held until the end of this window
+  // (HH:MM local time, may wrap midnight); null when unset
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -896,7 +1678,7 @@ export const notificationConsents = pgTable("notification_consents", {
 export const notificationSubscriptions = pgTable("notification_subscriptions", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id).notNull(),
-  subscriptionType: text("subscription_type").notNull(), // 'election_alerts', 'candidate_updates', 'breaking_news'
+  subscriptionType: text("subscription_type").notNull(), // 'election_alerts', 'candidate_updates', 'breaking_news', 'legislation_alerts'
   channel: text("channel").notNull(), // 'email', 'sms', 'push'
   targetValue: text("target_value"), // email address or phone number
   isVerified: boolean("is_verified").default(false),
@@ -972,9 +1754,9 @@ export const notificationDeliveries = pgTable("notification_deliveries", {
   userId: varchar("user_id").references(() => users.id),
   subscriptionId: integer("subscription_id").references(() => notificationSubscriptions.id),
   templateId: integer("template_id").references(() => notificationTemplates.id),
-  channel: text("channel").notNull(), // 'email', 'sms'
-  recipient: text("recipient").notNull(), // email address or phone number
-  status: text("status").notNull().default('queued'), // 'queued', 'sending', 'sent', 'delivered', 'failed', 'bounced'
+  channel: text("channel").notNull(), // 'email', 'sms', 'push', 'inbox'
+  recipient: text("recipient").notNull(), // email address, phone number, or user ID for push and inbox
+  status: text("status").notNull().default('queued'), // 'queued', 'sending', 'sent', 'delivered', 'failed', 'bounced', 'cancelled'
   externalId: varchar("external_id"), // Provider message ID (SendGrid/Twilio)
   subject: text("subject"),
   content: text("content").notNull(),
@@ -991,12 +1773,48 @@ export const notificationDeliveries = pgTable("notification_deliveries", {
   errorMessage: text("error_message"),
   retryCount: integer("retry_count").default(0),
   nextRetryAt: timestamp("next_retry_at"),
+  // Queue state - a worker leases a row while sending it; a lease left to
+  // expire by a crashed worker makes the row claimable again
+  eventId: integer("event_id").references(() => notificationEvents.id),
+  idempotencyKey: varchar("idempotency_key", { length: 200 }), // one delivery per (user, event, channel)
+  priority: text("priority").default('normal'), // 'low', 'normal', 'high', 'urgent'
+  html: text("html"),
+  templateData: jsonb("template_data"),
+  maxRetries: integer("max_retries").default(3),
+  expiresAt: timestamp("expires_at"),
+  leasedBy: varchar("leased_by", { length: 100 }),
+  leaseExpiresAt: timestamp("lease_expires_at"),
   // Provider response
   providerResponse: jsonb("provider_response"),
   cost: numeric("cost", { precision: 10, scale: 4 }), // Cost in dollars
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("notification_deliveries_idempotency_idx").on(table.idempotencyKey),
+  index("notification_deliveries_queue_idx").on(table.status, table.nextRetryAt),
+]);
+
+// Deliveries that ran out of retries, failed permanently or expired,
+// kept for admins to inspect, replay or purge
+export const notificationDeadLetters = pgTable("notification_dead_letters", {
+  id: serial("id").primaryKey(),
+  deliveryId: integer("delivery_id").references(() => notificationDeliveries.id).notNull(),
+  userId: varchar("user_id"),
+  eventId: integer("event_id"),
+  channel: text("channel").notNull(),
+  recipient: text("recipient").notNull(),
+  subject: text("subject"),
+  reason: varchar("reason", { length: 20 }).notNull(), // 'retries_exhausted', 'permanent', 'expired'
+  attempts: integer("attempts").notNull().default(0),
+  errorCode: varchar("error_code"),
+  errorMessage: text("error_message"),
+  failedAt: timestamp("failed_at").defaultNow().notNull(),
+  replayedAt: timestamp("replayed_at"),
+  replayedBy: varchar("replayed_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("notification_dead_letters_failed_idx").on(table.failedAt),
+]);
 
 export const notificationEvents = pgTable("notification_events", {
   id: serial("id").primaryKey(),
@@ -1029,6 +1847,93 @@ export const notificationWebhooks = pgTable("notification_webhooks", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Browsers registered for Web Push - one row per push service endpoint
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  endpoint: text("endpoint").notNull(),
+  p256dh: text("p256dh").notNull(),
+  auth: text("auth").notNull(),
+  userAgent: text("user_agent"),
+  isActive: boolean("is_active").notNull().default(true),
+  lastSuccessAt: timestamp("last_success_at"),
+  failureCount: integer("failure_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("push_subscriptions_endpoint_idx").on(table.endpoint),
+  index("push_subscriptions_user_idx").on(table.userId),
+]);
+
+// In-app notification inbox - one message per inbox delivery
+export const notificationInbox = pgTable("notification_inbox", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  deliveryId: integer("delivery_id").references(() => notificationDeliveries.id),
+  eventId: integer("event_id").references(() => notificationEvents.id),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  url: text("url"),
+  category: text("category"), // the event type
+  priority: text("priority").default('normal'), // 'low', 'normal', 'high', 'urgent'
+  readAt: timestamp("read_at"),
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("notification_inbox_delivery_idx").on(table.deliveryId),
+  index("notification_inbox_user_idx").on(table.userId, table.archivedAt, table.createdAt),
+]);
+
+// Daily and weekly digests, one row per user, cadence and local date -
+// empty ones are recorded too, so the period is not reconsidered
+export const notificationDigests = pgTable("notification_digests", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  cadence: varchar("cadence", { length: 10 }).notNull(), // 'daily', 'weekly'
+  periodKey: varchar("period_key", { length: 10 }).notNull(), // local date the digest is for (YYYY-MM-DD)
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  status: varchar("status", { length: 10 }).notNull(), // 'queued', 'empty'
+  itemCount: integer("item_count").notNull().default(0),
+  deliveryId: integer("delivery_id").references(() => notificationDeliveries.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("notification_digests_period_idx").on(table.userId, table.cadence, table.periodKey),
+]);
+
+// Secret token behind each user's watchlist calendar feed URL
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  token: varchar("token", { length: 64 }).notNull(),
+  lastFetchedAt: timestamp("last_fetched_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  rotatedAt: timestamp("rotated_at"),
+}, (table) => [
+  uniqueIndex("calendar_feeds_user_idx").on(table.userId),
+  uniqueIndex("calendar_feeds_token_idx").on(table.token),
+]);
+
+// User-written alert rules - an expression in the rule language of
+// server/lib/alert-rules, checked against each notification event
+export const alertRules = pgTable("alert_rules", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  name: varchar("name", { length: 200 }).notNull(),
+  expression: text("expression").notNull(),
+  eventTypes: text("event_types").array(), // null matches every event type
+  channels: text("channels").array().notNull(), // ['email', 'sms', 'push']
+  priority: text("priority").notNull().default('normal'), // 'low', 'normal', 'high', 'urgent'
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(60),
+  isActive: boolean("is_active").notNull().default(true),
+  lastTriggeredAt: timestamp("last_triggered_at"),
+  triggerCount: integer("trigger_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("alert_rules_user_idx").on(table.userId),
+]);
+
 // Insert schemas for notification system
 export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
   id: true,
@@ -1089,6 +1994,12 @@ export type NotificationCampaign = typeof notificationCampaigns.$inferSelect;
 export type InsertNotificationCampaign = z.infer<typeof insertNotificationCampaignSchema>;
 export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
 export type InsertNotificationDelivery = z.infer<typeof insertNotificationDeliverySchema>;
+export type NotificationDeadLetter = typeof notificationDeadLetters.$inferSelect;
+export type WebPushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InboxMessage = typeof notificationInbox.$inferSelect;
+export type NotificationDigest = typeof notificationDigests.$inferSelect;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type AlertRule = typeof alertRules.$inferSelect;
 export type NotificationEvent = typeof notificationEvents.$inferSelect;
 export type InsertNotificationEvent = z.infer<typeof insertNotificationEventSchema>;
 export type NotificationWebhook = typeof notificationWebhooks.$inferSelect;
@@ -2592,6 +3503,19 @@ export const recommendationResponseSchema = z.object({
     isAddedToWatchlist: z.boolean().default(false),
     isDismissed: z.boolean().default(false),
   })),
+  measures: z.array(z.object({
+    measure: z.object({
+      id: z.number(),
+      state: z.string(),
+      jurisdiction: z.string().nullable(),
+      electionDate: z.union([z.string(), z.date()]),
+      measureNumber: z.string().nullable(),
+      title: z.string(),
+      summary: z.string().nullable(),
+    }).passthrough(),
+    score: z.number(),
+    reason: z.string(),
+  })).optional(),
   totalCount: z.number(),
   cacheKey: z.string().optional(),
   generatedAt: z.string(),
@@ -3430,6 +4354,27 @@ export const insertPoliticalMomentumSchema = createInsertSchema(politicalMomentu
   calculatedAt: true,
 });
 
+export const insertPollsterSchema = createInsertSchema(pollsters).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPollsterHouseEffectSchema = createInsertSchema(pollsterHouseEffects).omit({
+  id: true,
+  computedAt: true,
+});
+
+export const insertForecastRunSchema = createInsertSchema(forecastRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRaceForecastSchema = createInsertSchema(raceForecasts).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Political Analysis Types
 export type PollingData = typeof pollingData.$inferSelect;
 export type InsertPollingData = z.infer<typeof insertPollingDataSchema>;
@@ -3440,6 +4385,18 @@ export type InsertUserVotingIntention = z.infer<typeof insertUserVotingIntention
 export type PoliticalMomentum = typeof politicalMomentum.$inferSelect;
 export type InsertPoliticalMomentum = z.infer<typeof insertPoliticalMomentumSchema>;
 
+export type Pollster = typeof pollsters.$inferSelect;
+export type InsertPollster = z.infer<typeof insertPollsterSchema>;
+
+export type PollsterHouseEffect = typeof pollsterHouseEffects.$inferSelect;
+export type InsertPollsterHouseEffect = z.infer<typeof insertPollsterHouseEffectSchema>;
+
+export type ForecastRun = typeof forecastRuns.$inferSelect;
+export type InsertForecastRun = z.infer<typeof insertForecastRunSchema>;
+
+export type RaceForecastRow = typeof raceForecasts.$inferSelect;
+export type InsertRaceForecast = z.infer<typeof insertRaceForecastSchema>;
+
 // Political Analysis API Schemas
 export const politicalAnalysisResponseSchema = z.object({
   leaning: z.enum(['left', 'right', 'split', 'neutral']),
@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for the alert rule language: parsing, validation and evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateCondition,
+  evaluateRule,
+  eventFields,
+  parseRule,
+  ruleFields,
+  validateRule
+} from '../../server/lib/alert-rules';
+import { pollingMargin } from '../../server/lib/polling-average';
+
+const senateLeadChange = eventFields(
+  {
+    eventType: 'lead_change',
+    eventData: { leader: 'Ana Rivera', previousLeader: 'Bob Smith', margin: 1.4 },
+    priority: 'high'
+  },
+  { id: 1, title: 'U.S. Senate - Arizona', state: 'AZ', level: 'federal', type: 'general', offices: ['U.S. Senate'], date: new Date('2026-11-03') }
+);
+
+describe('parsing', () => {
+  it('builds and/or/not trees with and binding tighter', () => {
+    const tree = parseRule('a == 1 or b == 2 and not c exists');
+    expect(tree.kind).toBe('or');
+    expect(ruleFields(tree)).toEqual(['a', 'b', 'c']);
+    expect(parseRule('state in ("AZ", \'GA\')')).toEqual({
+      kind: 'condition',
+      condition: { field: 'state', operator: 'in', value: ['AZ', 'GA'] }
+    });
+  });
+
+  it('reports where a rule goes wrong', () => {
+    expect(validateRule('margin < 3')).toBeNull();
+    expect(validateRule('margin <')).toBe('Expected a value at position 9');
+    expect(validateRule('margin ~ 3')).toMatch(/Unexpected "~"/);
+    expect(validateRule('(a == 1')).toMatch(/Expected "\)"/);
+    expect(validateRule('a constructor 1')).toMatch(/Unknown comparison/);
+    expect(validateRule('state == "AZ')).toMatch(/Unterminated string/);
+    expect(validateRule(Array(21).fill('a exists').join(' and '))).toMatch(/limited to 20 conditions/);
+  });
+});
+
+describe('evaluation', () => {
+  it('matches the Senate lead change example', () => {
+    const rule = parseRule('election.office contains "senate" and election.state in ("AZ", "GA") and leader changed');
+    expect(evaluateRule(rule, senateLeadChange)).toBe(true);
+    expect(evaluateRule(rule, { ...senateLeadChange, previousLeader: 'Ana Rivera' })).toBe(false);
+    expect(evaluateRule(parseRule('margin < 3 and not priority == "low"'), senateLeadChange)).toBe(true);
+  });
+
+  it('compares numeric strings as numbers and strings without case', () => {
+    expect(evaluateCondition({ field: 'total', operator: 'at_least', value: 2.5 }, { total: '2.50' })).toBe(true);
+    expect(evaluateCondition({ field: 'state', operator: 'equals', value: 'az' }, { state: 'AZ' })).toBe(true);
+    expect(evaluateCondition({ field: 'missing', operator: 'not_equals', value: 'x' }, {})).toBe(false);
+    expect(evaluateCondition({ field: 'status', operator: 'changed', value: null, previous: 'filed' }, { status: 'qualified' })).toBe(true);
+  });
+
+  it('matches a polling margin dropping below 3 points', () => {
+    const pollUpdate = (previous: number[], current: number[]) => eventFields(
+      {
+        eventType: 'poll_update',
+        eventData: { leader: 'Ana Rivera', margin: pollingMargin(current), previousMargin: pollingMargin(previous) }
+      },
+      { id: 2, title: 'U.S. House - Arizona District 6', state: 'AZ', level: 'federal', type: 'general', offices: null, date: new Date('2026-11-03') }
+    );
+    const rule = parseRule('eventType == "poll_update" and election.state == "AZ" and margin < 3 and margin changed');
+
+    expect(pollUpdate([48, 43, 5], [47, 45, 4])).toMatchObject({ margin: 2, previousMargin: 5 });
+    expect(evaluateRule(rule, pollUpdate([48, 43], [47, 45]))).toBe(true);
+    expect(evaluateRule(rule, pollUpdate([47, 45], [47, 45]))).toBe(false);
+    expect(evaluateRule(rule, pollUpdate([48, 43], [49, 42]))).toBe(false);
+    expect(pollingMargin([51, null])).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit Tests for ballot measure outcomes, ballot placement and recommendation scoring
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  measureOutcome,
+  measureToSourceContest,
+  measuresForPlaces,
+  scoreMeasureForUser,
+  upsertEndorsement,
+  type MeasureLike
+} from '../../server/lib/ballot-measures';
+import { composeBallot } from '../../server/lib/sample-ballot';
+
+function measure(overrides: Partial<MeasureLike> = {}): MeasureLike {
+  return {
+    id: 1,
+    state: 'CA',
+    jurisdiction: null,
+    level: 'state',
+    electionDate: '2026-11-03T00:00:00Z',
+    measureNumber: 'Proposition 1',
+    title: 'Housing Bond',
+    summary: 'Authorizes $10 billion in bonds for affordable housing.',
+    passageThreshold: 'majority',
+    yesVotes: null,
+    noVotes: null,
+    status: 'pending',
+    tags: ['housing'],
+    ...overrides
+  };
+}
+
+describe('measureOutcome', () => {
+  it('has no outcome before votes are counted', () => {
+    expect(measureOutcome(measure())).toMatchObject({ totalVotes: 0, yesShare: null, passing: null });
+  });
+
+  it('passes a simple-majority measure only with more yes than no', () => {
+    expect(measureOutcome(measure({ yesVotes: 501, noVotes: 499 })).passing).toBe(true);
+    expect(measureOutcome(measure({ yesVotes: 500, noVotes: 500 })).passing).toBe(false);
+  });
+
+  it('holds supermajority measures to their share', () => {
+    expect(measureOutcome(measure({ passageThreshold: 'two_thirds', yesVotes: 660, noVotes: 340 })).passing).toBe(false);
+    expect(measureOutcome(measure({ passageThreshold: 'two_thirds', yesVotes: 2, noVotes: 1 })).passing).toBe(true);
+    expect(measureOutcome(measure({ passageThreshold: '55_percent', yesVotes: 55, noVotes: 45 })).passing).toBe(true);
+  });
+});
+
+describe('measure on the sample ballot', () => {
+  it('lands on the same contest Google Civic reports for the proposition', () => {
+    const ballot = composeBallot({
+      address: '1 Main St', state: 'CA', electionDate: '2026-11-03', electionName: null, localRaces: [],
+      sourceContests: [
+        { source: 'Google Civic', contest: { type: 'Referendum', referendumTitle: 'Proposition 1' } },
+        { source: 'Ballot measures', contest: measureToSourceContest(measure({ id: 9 })) }
+      ]
+    });
+    expect(ballot.contests).toHaveLength(1);
+    expect(ballot.contests[0]).toMatchObject({
+      key: 'measure-proposition-1',
+      measureId: 9,
+      subtitle: 'Housing Bond',
+      sources: ['Google Civic', 'Ballot measures']
+    });
+  });
+
+  it('keeps statewide measures and the local ones for the voter', () => {
+    const measures = [
+      measure({ id: 1 }),
+      measure({ id: 2, jurisdiction: 'Sonoma County', level: 'county' }),
+      measure({ id: 3, jurisdiction: 'City of Oakland', level: 'local' })
+    ];
+    expect(measuresForPlaces(measures, ['Santa Rosa', 'Sonoma']).map(m => m.id)).toEqual([1, 2]);
+    expect(measuresForPlaces(measures, ['Oakland city']).map(m => m.id)).toEqual([1, 3]);
+  });
+});
+
+describe('upsertEndorsement', () => {
+  it('replaces an earlier position from the same endorser', () => {
+    const endorsements = upsertEndorsement(
+      [{ name: 'League of Women Voters', position: 'oppose' }, { name: 'Chamber of Commerce', position: 'oppose' }],
+      { name: 'league of women voters ', position: 'support' }
+    );
+    expect(endorsements.map(e => [e.name, e.position])).toEqual([
+      ['Chamber of Commerce', 'oppose'],
+      ['league of women voters ', 'support']
+    ]);
+  });
+});
+
+describe('scoreMeasureForUser', () => {
+  const now = new Date('2026-10-20T00:00:00Z');
+
+  it('ignores measures outside the voter state or city', () => {
+    expect(scoreMeasureForUser(measure({ state: 'NV' }), { state: 'CA' }, now).score).toBe(0);
+    expect(scoreMeasureForUser(measure({ jurisdiction: 'City of Oakland' }), { state: 'CA', city: 'Fresno' }, now).score).toBe(0);
+  });
+
+  it('ranks statewide measures on matching issues that are voted on soon', () => {
+    const scored = scoreMeasureForUser(measure(), { state: 'CA', issueInterests: ['Housing'] }, now);
+    expect(scored.score).toBe(85);
+    expect(scored.reasons).toEqual(['Statewide measure in CA', 'Matches your interest in housing', 'Vote coming soon']);
+  });
+});
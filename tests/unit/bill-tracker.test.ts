@@ -0,0 +1,104 @@
+/**
+ * Unit Tests for bill action normalizing and lifecycle stage derivation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  billLabel,
+  billUrl,
+  currentCongress,
+  deriveStage,
+  describeBillUpdate,
+  latestSummaryText,
+  normalizeActions,
+  normalizeReferrals
+} from '../../server/lib/bill-tracker';
+
+// congress.gov lists actions newest first
+const HR_ACTIONS = [
+  { actionDate: '2023-06-30', text: 'Became Public Law No: 118-10.', type: 'BecameLaw', actionCode: '36000', sourceSystem: { name: 'Library of Congress' } },
+  { actionDate: '2023-06-28', text: 'Presented to President.', type: 'President', actionCode: '28000', sourceSystem: { name: 'Library of Congress' } },
+  { actionDate: '2023-06-22', text: 'Passed Senate without amendment by Voice Vote.', type: 'Floor', actionCode: '17000', sourceSystem: { name: 'Senate' } },
+  { actionDate: '2023-05-10', text: 'Passed/agreed to in House: On passage Passed by recorded vote: 220 - 210.', type: 'Floor', actionCode: '8000', sourceSystem: { name: 'Library of Congress' } },
+  { actionDate: '2023-05-02', text: 'Placed on the Union Calendar, Calendar No. 42.', type: 'Calendars', actionCode: 'H12410', sourceSystem: { name: 'House floor actions' } },
+  { actionDate: '2023-03-01', text: 'Referred to the House Committee on Energy and Commerce.', type: 'IntroReferral', actionCode: 'H11100', sourceSystem: { name: 'House floor actions' } },
+  { actionDate: '2023-03-01', text: 'Introduced in House', type: 'IntroReferral', actionCode: 'Intro-H', sourceSystem: { name: 'Library of Congress' } }
+];
+
+describe('normalizeActions', () => {
+  it('orders actions oldest first with stable keys', () => {
+    const actions = normalizeActions(HR_ACTIONS);
+    expect(actions[0].text).toBe('Introduced in House');
+    expect(actions[actions.length - 1].actionType).toBe('BecameLaw');
+    expect(actions[1].chamber).toBe('House');
+    expect(normalizeActions(HR_ACTIONS).map(a => a.actionKey)).toEqual(actions.map(a => a.actionKey));
+  });
+
+  it('drops exact repeats', () => {
+    expect(normalizeActions([HR_ACTIONS[0], { ...HR_ACTIONS[0] }])).toHaveLength(1);
+  });
+});
+
+describe('deriveStage', () => {
+  it('walks a bill from introduction to law', () => {
+    const actions = normalizeActions(HR_ACTIONS);
+    const stageAfter = (count: number) => deriveStage('hr', actions.slice(0, count)).stage;
+    expect(stageAfter(1)).toBe('introduced');
+    expect(stageAfter(2)).toBe('committee');
+    expect(stageAfter(3)).toBe('floor');
+    expect(stageAfter(4)).toBe('other_chamber');
+    expect(stageAfter(5)).toBe('other_chamber');
+    expect(stageAfter(6)).toBe('president');
+
+    const { stage, stageDate } = deriveStage('hr', actions);
+    expect(stage).toBe('law');
+    expect(stageDate?.toISOString().slice(0, 10)).toBe('2023-06-30');
+  });
+
+  it('ends simple resolutions at agreed to and keeps vetoes', () => {
+    const resolution = normalizeActions([{ actionDate: '2023-02-01', text: 'Resolution agreed to in Senate without amendment by Unanimous Consent.', sourceSystem: { name: 'Senate' } }]);
+    expect(deriveStage('sres', resolution).stage).toBe('agreed_to');
+
+    const vetoed = normalizeActions([
+      { actionDate: '2023-07-05', text: 'Vetoed by President.', type: 'Veto' },
+      ...HR_ACTIONS.slice(1)
+    ]);
+    expect(deriveStage('hr', vetoed).stage).toBe('vetoed');
+  });
+});
+
+describe('bill text helpers', () => {
+  it('labels and links bills', () => {
+    expect(billLabel('hjres', '7')).toBe('H.J.Res. 7');
+    expect(billUrl(121, 's', 5)).toBe('https://www.congress.gov/bill/121st-congress/senate-bill/5');
+    expect(currentCongress(new Date('2026-10-18T00:00:00Z'))).toBe(119);
+    expect(currentCongress(new Date('2027-01-02T00:00:00Z'))).toBe(119);
+    expect(currentCongress(new Date('2027-01-03T12:00:00Z'))).toBe(120);
+  });
+
+  it('takes the latest summary as plain text', () => {
+    expect(latestSummaryText([
+      { updateDate: '2023-03-01', text: '<p>Old</p>' },
+      { updateDate: '2023-05-01', text: '<p><strong>Lower Costs Act</strong></p><p>This bill caps insulin &amp; other costs.</p>' }
+    ])).toBe('Lower Costs Act This bill caps insulin & other costs.');
+  });
+
+  it('folds subcommittee activity into the committee', () => {
+    const [referral] = normalizeReferrals([{
+      systemCode: 'hsif00', name: 'Energy and Commerce Committee', chamber: 'House',
+      activities: [{ name: 'Referred To', date: '2023-03-01T14:00:00Z' }],
+      subcommittees: [{ name: 'Health Subcommittee', activities: [{ name: 'Markup By', date: '2023-04-01T14:00:00Z' }] }]
+    }]);
+    expect(referral.activities).toEqual([
+      { name: 'Referred To', date: '2023-03-01' },
+      { name: 'Markup By (Health Subcommittee)', date: '2023-04-01' }
+    ]);
+  });
+
+  it('describes stage changes and new actions', () => {
+    const bill = { type: 'hr', billNumber: '21', title: 'Lower Costs Act' };
+    expect(describeBillUpdate(bill, 'committee', 'floor', { text: 'Placed on the Union Calendar.' }))
+      .toBe('H.R. 21 (Lower Costs Act) is now on the floor. Latest action: Placed on the Union Calendar.');
+    expect(describeBillUpdate(bill, 'floor', 'floor', null)).toBe('H.R. 21 (Lower Costs Act) has a new action.');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for the candidate status lifecycle, ballot appearance and listings
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ballotAppearance,
+  listedCandidates,
+  statusFields,
+  transitionError
+} from '../../server/lib/candidate-status';
+
+describe('transitions', () => {
+  it('allows the filing lifecycle and reinstatement', () => {
+    expect(transitionError('filed', 'qualified')).toBeNull();
+    expect(transitionError('qualified', 'advanced')).toBeNull();
+    expect(transitionError('advanced', 'withdrawn')).toBeNull();
+    expect(transitionError('disqualified', 'qualified')).toBeNull();
+  });
+
+  it('rejects repeats and skipped steps', () => {
+    expect(transitionError('qualified', 'qualified')).toBe('Candidate is already qualified');
+    expect(transitionError('filed', 'advanced')).toMatch(/Cannot move/);
+    expect(transitionError('withdrawn', 'advanced')).toMatch(/Cannot move/);
+    // Unknown legacy values count as filed
+    expect(transitionError(null, 'qualified')).toBeNull();
+  });
+});
+
+describe('ballot appearance', () => {
+  it('keeps a late withdrawal on the printed ballot', () => {
+    expect(ballotAppearance('withdrawn', true)).toBe(true);
+    expect(ballotAppearance('withdrawn', true, false)).toBe(false);
+    expect(ballotAppearance('qualified', false)).toBe(true);
+    expect(ballotAppearance('write_in', true, true)).toBe(false);
+  });
+});
+
+describe('listings', () => {
+  const field = [
+    { id: 1, status: 'qualified', onBallot: true },
+    { id: 2, status: 'withdrawn', onBallot: false },
+    { id: 3, status: 'disqualified', onBallot: true },
+    { id: 4, status: null, onBallot: null }
+  ];
+
+  it('drops inactive candidates that are off the ballot', () => {
+    expect(listedCandidates(field).map(c => c.id)).toEqual([1, 3, 4]);
+    expect(listedCandidates(field, true)).toHaveLength(4);
+  });
+
+  it('defaults status fields for rows without them', () => {
+    expect(statusFields({})).toEqual({
+      status: 'qualified',
+      statusEffectiveDate: null,
+      onBallot: true,
+      isWriteIn: false,
+      isActive: true,
+      advancedToElectionId: null
+    });
+    expect(statusFields(field[2]).isActive).toBe(false);
+  });
+});
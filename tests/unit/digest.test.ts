@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for digests: template rendering, when a digest is due in the
+ * user's timezone, and how the window's changes become sections
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, TemplateSyntaxError } from '../../server/lib/notification-templates';
+import {
+  buildDigestSections,
+  digestCadence,
+  duePeriod,
+  windowStart,
+  MAX_SECTION_ITEMS,
+  type DigestInput,
+  type DigestWindow
+} from '../../server/lib/digest';
+
+const emptyInput = (): DigestInput => ({
+  elections: [], factChanges: [], deadlines: [], polls: [], raceCalls: [], candidateChanges: []
+});
+
+describe('notification templates', () => {
+  it('renders values, sections and inverted sections', () => {
+    const template = '{{title}}\n{{#items}}\n- {{text}}{{#url}} ({{url}}){{/url}}\n{{/items}}\n{{^items}}Nothing new{{/items}}';
+    expect(renderTemplate(template, { title: 'Digest', items: [{ text: 'A', url: 'http://x/1' }, { text: 'B', url: null }] }))
+      .toBe('Digest\n- A (http://x/1)\n- B\n');
+    expect(renderTemplate(template, { title: 'Digest', items: [] })).toBe('Digest\nNothing new');
+  });
+
+  it('escapes in HTML bodies unless the value is triple-braced', () => {
+    const data = { name: '<b>R&D</b>', user: { first: 'Ann' } };
+    expect(renderTemplate('{{name}} {{{name}}} {{user.first}}', data, { html: true }))
+      .toBe('&lt;b&gt;R&amp;D&lt;/b&gt; <b>R&D</b> Ann');
+  });
+
+  it('rejects unbalanced sections', () => {
+    expect(() => renderTemplate('{{#items}}open', { items: [1] })).toThrow(TemplateSyntaxError);
+    expect(() => renderTemplate('stray{{/items}}', {})).toThrow(TemplateSyntaxError);
+  });
+});
+
+describe('digest scheduling', () => {
+  it('is due from the delivery time in the user timezone', () => {
+    const preferences = { dailyDigest: true, preferredDeliveryTime: '08:00', timezone: 'America/New_York' };
+    // 11:59 UTC is 07:59 in New York
+    expect(duePeriod(new Date('2026-10-20T11:59:00Z'), preferences, 'daily')).toBeNull();
+    expect(duePeriod(new Date('2026-10-20T12:00:00Z'), preferences, 'daily')).toBe('2026-10-20');
+    // 02:00 UTC is still the evening before in New York
+    expect(duePeriod(new Date('2026-10-21T02:00:00Z'), preferences, 'daily')).toBe('2026-10-20');
+  });
+
+  it('sends weekly digests on Mondays only, and daily wins over weekly', () => {
+    const preferences = { weeklyDigest: true, timezone: 'UTC' };
+    expect(digestCadence(preferences)).toBe('weekly');
+    expect(digestCadence({ ...preferences, dailyDigest: true })).toBe('daily');
+    expect(digestCadence({ ...preferences, weeklyDigestEnabled: false })).toBeNull();
+    expect(duePeriod(new Date('2026-10-19T10:00:00Z'), preferences, 'weekly')).toBe('2026-10-19');
+    expect(duePeriod(new Date('2026-10-20T10:00:00Z'), preferences, 'weekly')).toBeNull();
+  });
+
+  it('starts the window at the last digest but no more than a period back', () => {
+    const now = new Date('2026-10-20T12:00:00Z');
+    expect(windowStart(now, 'daily', new Date('2026-10-20T01:00:00Z'))).toEqual(new Date('2026-10-20T01:00:00Z'));
+    expect(windowStart(now, 'daily', new Date('2026-09-01T00:00:00Z'))).toEqual(new Date('2026-10-19T12:00:00Z'));
+    expect(windowStart(now, 'weekly')).toEqual(new Date('2026-10-13T12:00:00Z'));
+  });
+});
+
+describe('digest sections', () => {
+  const window: DigestWindow = {
+    cadence: 'daily',
+    since: new Date('2026-10-19T12:00:00Z'),
+    until: new Date('2026-10-20T12:00:00Z'),
+    timezone: 'UTC'
+  };
+
+  it('is empty when nothing changed and no election is close', () => {
+    const input = emptyInput();
+    input.elections.push({ id: 1, title: 'Ohio Senate', state: 'OH', date: new Date('2026-11-03T00:00:00Z'), reminderDaysBefore: 7 });
+    input.polls.push({
+      electionId: 1, pollsterName: 'Old Poll', democraticSupport: '45', republicanSupport: '47',
+      fieldDates: null, createdAt: new Date('2026-10-18T00:00:00Z')
+    });
+    expect(buildDigestSections(input, window, 'http://app')).toEqual([]);
+  });
+
+  it('lists the window changes with links, leaving out empty sections', () => {
+    const input = emptyInput();
+    input.elections.push({ id: 1, title: 'Ohio Senate', state: 'OH', date: new Date('2026-10-23T00:00:00Z'), reminderDaysBefore: 7 });
+    input.factChanges.push({
+      electionId: 1, field: 'date', previous: { date: '2026-11-03T00:00:00.000Z' },
+      value: { date: '2026-10-23T00:00:00.000Z' }, observedAt: new Date('2026-10-20T09:00:00Z')
+    });
+    input.raceCalls.push({
+      electionId: 1, candidateName: 'Jane Doe', callType: 'projected',
+      calledAt: new Date('2026-10-18T00:00:00Z'), retractedAt: new Date('2026-10-20T10:00:00Z')
+    });
+
+    const sections = buildDigestSections(input, window, 'http://app');
+    expect(sections.map(s => s.key)).toEqual(['countdowns', 'watchlist', 'race_calls']);
+    expect(sections[0].items[0]).toEqual({ text: 'Ohio Senate - Fri, Oct 23 (in 3 days)', url: 'http://app/elections/1' });
+    expect(sections[1].items[0].text).toBe('Ohio Senate: date moved from Tue, Nov 3 to Fri, Oct 23');
+    expect(sections[2].items[0].text).toBe('Ohio Senate: call for Jane Doe retracted');
+  });
+
+  it('caps long sections', () => {
+    const input = emptyInput();
+    for (let i = 0; i < MAX_SECTION_ITEMS + 3; i++) {
+      input.deadlines.push({ electionId: null, message: `Deadline ${i}`, createdAt: new Date('2026-10-20T00:00:00Z') });
+    }
+    const [deadlines] = buildDigestSections(input, window, 'http://app');
+    expect(deadlines.items).toHaveLength(MAX_SECTION_ITEMS + 1);
+    expect(deadlines.items[MAX_SECTION_ITEMS]).toEqual({ text: '…and 3 more', url: null });
+  });
+});
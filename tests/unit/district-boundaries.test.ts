@@ -0,0 +1,174 @@
+/**
+ * Unit Tests for district boundary lookup and ballot matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DistrictIndex,
+  boundingBox,
+  districtFromProperties,
+  electionScope,
+  pointInRings,
+  racesOnBallot,
+  ringsFromGeometry,
+  type BallotElection
+} from '../../server/lib/district-boundaries';
+import { readShapefile } from '../../server/lib/shapefile';
+
+const square = (x0: number, y0: number, x1: number, y1: number) => [[x0, y0], [x1, y0], [x1, y1], [x0, y1], [x0, y0]];
+
+// Two congressional districts splitting a county down lng -122.5, the west
+// one with a hole cut out of it; one Senate and one Assembly district
+const FEATURES = [
+  { properties: { STATEFP: '06', CD119FP: '02', GEOID: '0602', NAMELSAD: 'Congressional District 2' },
+    geometry: { type: 'Polygon', coordinates: [square(-123, 38, -122.5, 39), square(-122.9, 38.1, -122.8, 38.2)] } },
+  { properties: { STATEFP: '06', CD119FP: '04', GEOID: '0604', NAMELSAD: 'Congressional District 4' },
+    geometry: { type: 'MultiPolygon', coordinates: [[square(-122.5, 38, -122, 39)], [square(-122.9, 38.1, -122.8, 38.2)]] } },
+  { properties: { STATEFP: '06', SLDUST: '003', GEOID: '06003', NAMELSAD: 'State Senate District 3' },
+    geometry: { type: 'Polygon', coordinates: [square(-123, 38, -122, 39)] } },
+  { properties: { STATEFP: '06', SLDLST: '012', GEOID: '06012', NAMELSAD: 'Assembly District 12' },
+    geometry: { type: 'Polygon', coordinates: [square(-123, 38, -122, 39)] } },
+  { properties: { STATEFP: '06', COUNTYFP: '097', GEOID: '06097', NAME: 'Sonoma', NAMELSAD: 'Sonoma County' },
+    geometry: { type: 'Polygon', coordinates: [square(-123, 38, -122, 39)] } }
+];
+
+function buildIndex() {
+  const index = new DistrictIndex();
+  for (const feature of FEATURES) {
+    const district = districtFromProperties(feature.properties)!;
+    const rings = ringsFromGeometry(feature.geometry);
+    index.add({ ...district, bbox: boundingBox(rings), rings });
+  }
+  return index;
+}
+
+describe('districtFromProperties', () => {
+  it('reads TIGER attributes into district codes', () => {
+    expect(districtFromProperties(FEATURES[0].properties)).toMatchObject({ type: 'congressional', state: 'CA', number: '2', code: 'CA-2' });
+    expect(districtFromProperties(FEATURES[2].properties)).toMatchObject({ type: 'state_upper', code: 'CA-SD-3' });
+    expect(districtFromProperties(FEATURES[3].properties)).toMatchObject({ type: 'state_lower', code: 'CA-AD-12' });
+    expect(districtFromProperties(FEATURES[4].properties)).toMatchObject({ type: 'county', code: 'CA-Sonoma', name: 'Sonoma County' });
+    expect(districtFromProperties({ STATEFP: '56', CD119FP: '00' })).toMatchObject({ code: 'WY-AL' });
+  });
+});
+
+describe('DistrictIndex', () => {
+  const index = buildIndex();
+
+  it('returns every district containing the point', () => {
+    expect(index.lookup(38.5, -122.7).map(d => d.code)).toEqual(['CA-2', 'CA-SD-3', 'CA-AD-12', 'CA-Sonoma']);
+    expect(index.lookup(38.5, -122.2).map(d => d.code)).toEqual(['CA-4', 'CA-SD-3', 'CA-AD-12', 'CA-Sonoma']);
+  });
+
+  it('honours holes and exclaves', () => {
+    expect(index.lookup(38.15, -122.85).filter(d => d.type === 'congressional').map(d => d.code)).toEqual(['CA-4']);
+  });
+
+  it('finds nothing outside the boundaries', () => {
+    expect(index.lookup(40, -100)).toEqual([]);
+    expect(pointInRings(0, 0, [square(1, 1, 2, 2)])).toBe(false);
+  });
+
+  it('reports coverage by district type', () => {
+    expect(index.coverage()).toEqual({ congressional: ['CA'], state_upper: ['CA'], state_lower: ['CA'], county: ['CA'] });
+  });
+});
+
+describe('racesOnBallot', () => {
+  const election = (id: number, title: string, level: string, extra: Partial<BallotElection> = {}): BallotElection =>
+    ({ id, title, level, location: 'California', state: 'CA', ...extra });
+
+  const elections = [
+    election(1, 'U.S. Senate - California', 'Federal'),
+    election(2, "California's 2nd Congressional District", 'Federal'),
+    election(3, "California's 4th Congressional District", 'Federal'),
+    election(4, 'State Senate District 3', 'State'),
+    election(5, 'Assembly District 40', 'State'),
+    election(6, 'Sonoma County Board of Supervisors', 'Local', { location: 'Sonoma County' }),
+    election(7, 'Los Angeles Mayor', 'Local', { location: 'Los Angeles' }),
+    election(8, 'Santa Rosa City Council', 'Local', { location: 'Santa Rosa' }),
+    election(9, 'Governor', 'State', { state: 'NV' })
+  ];
+
+  it('keeps exactly the races for the districts containing the voter', () => {
+    const index = buildIndex();
+    const races = racesOnBallot(elections, index.lookup(38.5, -122.7), { state: 'CA', city: 'Santa Rosa', county: 'Sonoma County' }, index.coverage());
+    expect(races.map(r => [r.election.id, r.matchedBy, r.district])).toEqual([
+      [1, 'statewide', null],
+      [2, 'district', 'CA-2'],
+      [4, 'district', 'CA-SD-3'],
+      [6, 'county', 'CA-Sonoma'],
+      [8, 'city', null]
+    ]);
+  });
+
+  it('keeps district races it cannot place when boundaries are missing', () => {
+    const races = racesOnBallot(elections, [], { state: 'CA', city: 'Santa Rosa', county: 'Sonoma County' });
+    expect(races.filter(r => r.matchedBy === 'unresolved').map(r => r.election.id)).toEqual([2, 3, 4, 5]);
+  });
+
+  it('reads district scope from titles and offices', () => {
+    expect(electionScope(election(1, 'Special Election', 'Federal', { offices: ['U.S. House CA-12'] })))
+      .toEqual({ kind: 'district', type: 'congressional', number: '12' });
+    expect(electionScope(election(1, 'At-Large Congressional Seat', 'Federal', { state: 'WY' })))
+      .toEqual({ kind: 'district', type: 'congressional', number: 'AL' });
+    expect(electionScope(election(1, 'House District 7', 'State'))).toEqual({ kind: 'district', type: 'state_lower', number: '7' });
+  });
+});
+
+describe('readShapefile', () => {
+  // One polygon record and its attribute row, laid out as the ESRI and dBASE specs describe
+  function polygonShp(ring: number[][]): Buffer {
+    const content = 44 + 4 + ring.length * 16;
+    const buf = Buffer.alloc(100 + 8 + content);
+    buf.writeInt32BE(9994, 0);
+    buf.writeInt32BE(buf.length / 2, 24);
+    buf.writeInt32LE(1000, 28);
+    buf.writeInt32LE(5, 32);
+    buf.writeInt32BE(1, 100);
+    buf.writeInt32BE(content / 2, 104);
+    buf.writeInt32LE(5, 108);
+    buf.writeInt32LE(1, 108 + 36);
+    buf.writeInt32LE(ring.length, 108 + 40);
+    buf.writeInt32LE(0, 108 + 44);
+    ring.forEach(([x, y], i) => {
+      buf.writeDoubleLE(x, 108 + 48 + i * 16);
+      buf.writeDoubleLE(y, 108 + 56 + i * 16);
+    });
+    return buf;
+  }
+
+  function dbf(fields: Array<[string, number]>, row: string[]): Buffer {
+    const headerLength = 32 + fields.length * 32 + 1;
+    const recordLength = 1 + fields.reduce((sum, [, length]) => sum + length, 0);
+    const buf = Buffer.alloc(headerLength + recordLength, 0x20);
+    buf.fill(0, 0, headerLength);
+    buf.writeUInt8(3, 0);
+    buf.writeUInt32LE(1, 4);
+    buf.writeUInt16LE(headerLength, 8);
+    buf.writeUInt16LE(recordLength, 10);
+    fields.forEach(([name, length], i) => {
+      buf.write(name, 32 + i * 32, 'ascii');
+      buf.write('C', 32 + i * 32 + 11, 'ascii');
+      buf.writeUInt8(length, 32 + i * 32 + 16);
+    });
+    buf.writeUInt8(0x0d, headerLength - 1);
+    let at = headerLength + 1;
+    fields.forEach(([, length], i) => {
+      buf.write(row[i], at, 'ascii');
+      at += length;
+    });
+    return buf;
+  }
+
+  it('reads polygons with their TIGER attributes', () => {
+    const features = readShapefile(
+      polygonShp(square(-123, 38, -122, 39)),
+      dbf([['STATEFP', 2], ['SLDLST', 3], ['NAMELSAD', 20]], ['06', '012', 'Assembly District 12'])
+    );
+    expect(features).toHaveLength(1);
+    expect(features[0].properties).toEqual({ STATEFP: '06', SLDLST: '012', NAMELSAD: 'Assembly District 12' });
+    expect(districtFromProperties(features[0].properties)?.code).toBe('CA-AD-12');
+    expect(pointInRings(-122.5, 38.5, features[0].rings)).toBe(true);
+  });
+});
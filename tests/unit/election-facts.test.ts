@@ -0,0 +1,113 @@
+/**
+ * Unit Tests for election fact history and "as of" reconstruction
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  changedFactTypes,
+  electionAsOf,
+  buildFactHistory,
+  electionFactValues,
+  withinTimeframe,
+  matchesJurisdiction,
+  ELECTION_CREATED_REASON,
+  BASELINE_REASON,
+  type FactObservation
+} from '../../server/lib/election-facts';
+
+const election = {
+  id: 804,
+  title: 'Sonoma County Uniform District Election',
+  state: 'CA',
+  location: 'Sonoma County',
+  level: 'Local',
+  offices: ['School Board'],
+  date: new Date('2025-11-04T16:00:00Z')
+};
+
+let nextId = 1;
+function fact(factType: string, factValue: unknown, observedAt: string, extra: Partial<FactObservation> = {}): FactObservation {
+  return { factId: nextId++, factType, factValue, observedAt: new Date(observedAt), confidence: 80, ...extra };
+}
+
+describe('changedFactTypes', () => {
+  it('reports only the facts whose values differ', () => {
+    expect(changedFactTypes(election, { ...election, description: 'x' } as any)).toEqual([]);
+    expect(changedFactTypes(election, { ...election, date: new Date('2025-11-05T16:00:00Z') })).toEqual(['date']);
+    expect(changedFactTypes(election, { ...election, location: 'Marin County', offices: ['Council'] })).toEqual(['jurisdiction', 'office']);
+  });
+});
+
+describe('electionAsOf', () => {
+  const created = '2025-01-10T00:00:00Z';
+  const moved = '2025-06-01T00:00:00Z';
+  const facts = [
+    fact('date', { date: '2025-08-25T16:00:00.000Z' }, created, { reason: ELECTION_CREATED_REASON }),
+    fact('jurisdiction', electionFactValues(election).jurisdiction, created, { reason: ELECTION_CREATED_REASON }),
+    fact('date', { date: '2025-11-04T16:00:00.000Z' }, moved, { sourceName: 'Sonoma County ROV', reason: 'CA UDEL rule' })
+  ];
+
+  it('returns the values that stood at the requested moment', () => {
+    expect(electionAsOf(election, facts, new Date('2025-03-01'))!.date.toISOString()).toBe('2025-08-25T16:00:00.000Z');
+    expect(electionAsOf(election, facts, new Date('2025-07-01'))!.date.toISOString()).toBe('2025-11-04T16:00:00.000Z');
+  });
+
+  it('leaves out elections created after the moment', () => {
+    expect(electionAsOf(election, facts, new Date('2024-12-31'))).toBeNull();
+  });
+
+  it('uses the baseline snapshot before the first recorded change', () => {
+    const legacy = [
+      fact('date', { date: '2025-08-25T16:00:00.000Z' }, moved, { reason: BASELINE_REASON }),
+      fact('date', { date: '2025-11-04T16:00:00.000Z' }, moved, { reason: 'CA UDEL rule' })
+    ];
+    expect(electionAsOf(election, legacy, new Date('2020-01-01'))!.date.toISOString()).toBe('2025-08-25T16:00:00.000Z');
+    expect(electionAsOf(election, [], new Date('2020-01-01'))).toEqual(election);
+  });
+});
+
+describe('buildFactHistory', () => {
+  it('lists changes newest first with the value each replaced', () => {
+    const history = buildFactHistory([
+      fact('date', { date: 'A' }, '2025-01-01T00:00:00Z', { reason: ELECTION_CREATED_REASON }),
+      fact('date', { date: 'B' }, '2025-02-01T00:00:00Z', { sourceName: 'CA SOS', recordedBy: 'admin@example.org' }),
+      fact('date', { date: 'B' }, '2025-03-01T00:00:00Z')
+    ]);
+
+    expect(history.map(entry => entry.value)).toEqual([{ date: 'B' }, { date: 'B' }, { date: 'A' }]);
+    expect(history[1]).toMatchObject({
+      previous: { date: 'A' },
+      changed: true,
+      source: { name: 'CA SOS' },
+      recordedBy: 'admin@example.org'
+    });
+    expect(history[0].changed).toBe(false);
+    expect(history[2].previous).toBeNull();
+  });
+});
+
+describe('withinTimeframe', () => {
+  it('measures the window from the given moment', () => {
+    const now = new Date('2024-10-01T00:00:00Z');
+    expect(withinTimeframe(new Date('2024-10-05T00:00:00Z'), 'week', now)).toBe(true);
+    expect(withinTimeframe(new Date('2024-11-05T00:00:00Z'), 'week', now)).toBe(false);
+    expect(withinTimeframe(new Date('2024-11-05T00:00:00Z'), 'quarter', now)).toBe(true);
+    expect(withinTimeframe(new Date('2030-01-01T00:00:00Z'), undefined, now)).toBe(true);
+  });
+});
+
+describe('matchesJurisdiction', () => {
+  it('filters on the historical jurisdiction after the overlay', () => {
+    const facts = [
+      fact('jurisdiction', { state: 'CA', location: 'Marin County', level: 'State' }, '2025-01-10T00:00:00Z', { reason: ELECTION_CREATED_REASON }),
+      fact('jurisdiction', electionFactValues(election).jurisdiction, '2025-06-01T00:00:00Z')
+    ];
+    const then = electionAsOf(election, facts, new Date('2025-03-01'))!;
+
+    expect(matchesJurisdiction(then, { level: 'state' })).toBe(true);
+    expect(matchesJurisdiction(election, { level: 'state' })).toBe(false);
+    expect(matchesJurisdiction(then, { state: 'ca', search: 'marin' })).toBe(true);
+    expect(matchesJurisdiction(then, { state: 'NV' })).toBe(false);
+    expect(matchesJurisdiction(then, { level: ['Federal', 'Local'] })).toBe(false);
+  });
+});
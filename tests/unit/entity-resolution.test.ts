@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for candidate name parsing, similarity scoring and match resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  jaroWinkler,
+  nameSimilarity,
+  officeKind,
+  parsePersonName,
+  partyCode,
+  resolveMatch,
+  scoreMatch,
+  type PersonRecord
+} from '../../server/lib/entity-resolution';
+
+describe('name parsing', () => {
+  it('reads "LAST, FIRST" order, suffixes and nicknames', () => {
+    expect(parsePersonName('RIVERA, ANA MARIA JR.')).toEqual({ first: 'ana', middle: ['maria'], last: 'rivera', suffix: 'jr', nickname: null });
+    expect(parsePersonName('Robert "Bob" Smith, III')).toEqual({ first: 'robert', middle: [], last: 'smith', suffix: 'iii', nickname: 'bob' });
+    expect(parsePersonName('Rep. María de la Cruz')).toMatchObject({ first: 'maria', last: 'de la cruz' });
+  });
+});
+
+describe('name similarity', () => {
+  it('treats nicknames, initials and spellings as the same person', () => {
+    expect(nameSimilarity('Bob Smith', 'SMITH, ROBERT')).toBeGreaterThanOrEqual(0.9);
+    expect(nameSimilarity('J. Michael Smith', 'Michael Smith')).toBe(1);
+    expect(nameSimilarity('Ana Rivera', 'Ana Rivera-Lopez')).toBeGreaterThan(0.9);
+    expect(nameSimilarity('Jon Kowalsky', 'John Kowalski')).toBeGreaterThan(0.8);
+  });
+
+  it('keeps apart different surnames, middle initials and generations', () => {
+    expect(nameSimilarity('Ana Rivera', 'Ana Romero')).toBe(0);
+    expect(nameSimilarity('John A. Smith', 'John B. Smith')).toBeLessThan(0.9);
+    expect(nameSimilarity('John Smith Jr.', 'John Smith Sr.')).toBeLessThan(0.7);
+    expect(jaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+  });
+});
+
+describe('attributes', () => {
+  it('normalizes offices and parties', () => {
+    expect(officeKind('U.S. House')).toBe('us_house');
+    expect(officeKind('State Senate District 4')).toBe('state_upper');
+    expect(officeKind('Lieutenant Governor')).toBe('other');
+    expect(partyCode('Democratic')).toBe('D');
+    expect(partyCode('GOP')).toBe('R');
+  });
+
+  it('halves the score for a different state', () => {
+    const subject: PersonRecord = { name: 'Ana Rivera', state: 'XX', office: 'us_house', district: '7', party: 'D' };
+    expect(scoreMatch(subject, { ...subject, name: 'RIVERA, ANA' }).score).toBe(1);
+    expect(scoreMatch(subject, { ...subject, state: 'YY' }).score).toBeLessThan(0.5);
+    expect(scoreMatch(subject, { ...subject, district: '8' }).office).toBe('mismatch');
+  });
+});
+
+describe('resolution', () => {
+  const subject: PersonRecord = { name: 'Bob Smith', state: 'XX', office: 'us_senate', party: 'R' };
+
+  it('links a confident match and queues a weaker one', () => {
+    const pool = [
+      { id: 'a', name: 'SMITH, ROBERT', state: 'XX', office: 'us_senate' as const, party: 'REP' },
+      { id: 'b', name: 'SMITH, ROBERTA', state: 'XX', office: 'us_house' as const, party: 'DEM' }
+    ];
+    const result = resolveMatch(subject, pool);
+    expect(result.decision).toBe('match');
+    expect(result.best?.record.id).toBe('a');
+
+    expect(resolveMatch(subject, [{ ...pool[0], office: 'us_house' as const, party: null }]).decision).toBe('review');
+    expect(resolveMatch(subject, [{ ...pool[0], name: 'Jones, Robert' }]).decision).toBe('none');
+  });
+
+  it('sends near-ties to review', () => {
+    const pool = [
+      { id: 'a', name: 'Robert Smith', state: 'XX', office: 'us_senate' as const, party: 'R' },
+      { id: 'b', name: 'Bobby Smith', state: 'XX', office: 'us_senate' as const, party: 'R' }
+    ];
+    const result = resolveMatch(subject, pool);
+    expect(result.decision).toBe('review');
+    expect(result.alternatives).toHaveLength(1);
+  });
+});
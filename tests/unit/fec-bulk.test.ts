@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for FEC bulk file parsing, quarterly series and fundraising metrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addContribution,
+  bulkFileKind,
+  cycleForYear,
+  fecSeatForElection,
+  fundraisingMetrics,
+  parseCandidateMaster,
+  parseContribution,
+  parseWeball,
+  quarterlySeries,
+  rankRaceMoney,
+  type ContributionAggregate
+} from '../../server/lib/fec-bulk';
+
+const CN_LINE = 'H4XX01234|RIVERA, ANA M.|DEM|2024|XX|H|07|C|C|C00123456|1 MAIN ST||SPRINGFIELD|XX|00001';
+const WEBALL_LINE = 'H4XX01234|RIVERA, ANA M.|C|1|DEM|1250000.50|0|900000|0|0|350000.50|50000|100000|0|0|0|25000|800000|XX|07||||||20000|5000|06/30/2024|1000|0';
+
+function itcont(committee: string, state: string, date: string, amount: number, extra: Partial<{ type: string; memo: string; entity: string }> = {}) {
+  return [committee, 'N', 'Q2', 'P2024', '202407159000000001', extra.type ?? '15', extra.entity ?? 'IND', 'DOE, JOHN', 'CAPITAL CITY', state, '000010000',
+    'ACME', 'ENGINEER', date, String(amount), '', 'A1', '1', extra.memo ?? '', '', '4071520240000000001'].join('|');
+}
+
+describe('bulk file parsing', () => {
+  it('recognises bulk file names', () => {
+    expect(bulkFileKind('cn24.txt')).toBe('cn');
+    expect(bulkFileKind('weball24.txt')).toBe('weball');
+    expect(bulkFileKind('itcont_2024_20240101_20240630.txt')).toBe('itcont');
+    expect(bulkFileKind('cn_header_file.csv')).toBeNull();
+  });
+
+  it('reads candidate master and weball lines', () => {
+    expect(parseCandidateMaster(CN_LINE, 2024)).toMatchObject({
+      fecCandidateId: 'H4XX01234', name: 'RIVERA, ANA M.', office: 'H', officeState: 'XX', district: '07', principalCommitteeId: 'C00123456'
+    });
+    expect(parseWeball(WEBALL_LINE, 2024)).toMatchObject({
+      coverageEndDate: '2024-06-30', totalReceipts: 1250000.5, cashOnHand: 350000.5, candidateLoans: 100000, individualContributions: 800000
+    });
+    expect(parseCandidateMaster('H4XX01234|too short', 2024)).toBeNull();
+  });
+
+  it('keeps individual receipts and skips memos and transfers', () => {
+    expect(parseContribution(itcont('C00123456', 'xx', '04152024', 500))).toEqual({ committeeId: 'C00123456', state: 'XX', date: '2024-04-15', amount: 500 });
+    expect(parseContribution(itcont('C00123456', 'XX', '04152024', 500, { memo: 'X' }))).toBeNull();
+    expect(parseContribution(itcont('C00123456', 'XX', '04152024', 500, { type: '18G', entity: 'CCM' }))).toBeNull();
+  });
+
+  it('rolls contributions up by committee, quarter and state', () => {
+    const aggregates = new Map<string, ContributionAggregate>();
+    for (const line of [itcont('C1', 'XX', '01052024', 300), itcont('C1', 'XX', '03302024', 250), itcont('C1', 'YY', '04012024', 1000)]) {
+      addContribution(aggregates, parseContribution(line)!);
+    }
+    expect(Array.from(aggregates.values())).toEqual([
+      { committeeId: 'C1', quarter: '2024-Q1', contributorState: 'XX', total: 550, count: 2 },
+      { committeeId: 'C1', quarter: '2024-Q2', contributorState: 'YY', total: 1000, count: 1 }
+    ]);
+  });
+});
+
+describe('series and metrics', () => {
+  it('turns cycle-to-date snapshots into quarterly amounts', () => {
+    const series = quarterlySeries([
+      { coverageEndDate: '2024-06-30', totalReceipts: 900, totalDisbursements: 500, cashOnHand: 400 },
+      { coverageEndDate: '2023-12-31', totalReceipts: 300, totalDisbursements: 100, cashOnHand: 200 },
+      { coverageEndDate: '2024-02-15', totalReceipts: 500, totalDisbursements: 250, cashOnHand: 250 },
+      { coverageEndDate: '2024-03-31', totalReceipts: 600, totalDisbursements: 300, cashOnHand: 300 }
+    ], [{ quarter: '2024-Q1', total: 120 }, { quarter: '2023-Q3', total: 40 }]);
+
+    expect(series.map(p => [p.quarter, p.receipts, p.disbursements, p.cashOnHand, p.itemizedIndividual, p.cumulative])).toEqual([
+      ['2023-Q3', null, null, null, 40, false],
+      ['2023-Q4', 300, 100, 200, 0, true],
+      ['2024-Q1', 300, 200, 300, 120, false],
+      ['2024-Q2', 300, 200, 400, 0, false]
+    ]);
+  });
+
+  it('leaves quarters without a snapshot the quarter before unmeasured', () => {
+    const series = quarterlySeries([
+      { coverageEndDate: '2023-09-30', totalReceipts: 200, totalDisbursements: 50, cashOnHand: 150 },
+      { coverageEndDate: '2024-03-31', totalReceipts: 800, totalDisbursements: 350, cashOnHand: 450 },
+      { coverageEndDate: '2024-06-30', totalReceipts: 1000, totalDisbursements: 400, cashOnHand: 600 }
+    ], [{ quarter: '2023-Q4', total: 90 }]);
+
+    expect(series.map(p => [p.quarter, p.receipts, p.disbursements, p.cashOnHand, p.cumulative])).toEqual([
+      ['2023-Q3', 200, 50, 150, true],
+      ['2023-Q4', null, null, null, false],
+      ['2024-Q1', null, null, 450, false],
+      ['2024-Q2', 200, 50, 600, false]
+    ]);
+  });
+
+  it('measures small-donor, in-state and self-funding shares', () => {
+    const totals = { totalReceipts: 1000, individualContributions: 800, candidateContributions: 50, candidateLoans: 100 };
+    const itemized = [{ contributorState: 'XX', total: 300 }, { contributorState: 'YY', total: 200 }];
+    expect(fundraisingMetrics(totals, itemized, 'XX')).toEqual({
+      smallDonorShare: 0.375, inStateShare: 0.6, selfFundingShare: 0.15, itemizedIndividual: 500
+    });
+    expect(fundraisingMetrics(totals, [], 'XX')).toMatchObject({ smallDonorShare: null, inStateShare: null, selfFundingShare: 0.15 });
+    expect(fundraisingMetrics(totals, itemized, 'US').inStateShare).toBeNull();
+  });
+
+  it('ranks a race by receipts', () => {
+    const ranked = rankRaceMoney([
+      { candidateId: 1, receipts: 250, disbursements: 0, cashOnHand: 0 },
+      { candidateId: 2, receipts: 750, disbursements: 0, cashOnHand: 0 }
+    ]);
+    expect(ranked.map(r => [r.candidateId, r.rank, r.receiptsShare])).toEqual([[2, 1, 0.75], [1, 2, 0.25]]);
+  });
+});
+
+describe('federal seats', () => {
+  const race = (title: string) => ({ id: 1, title, location: 'XX', state: 'XX', level: 'Federal', offices: null });
+
+  it('maps races to FEC offices and cycles', () => {
+    expect(fecSeatForElection(race('Congressional District 7'))).toEqual({ office: 'H', state: 'XX', district: '07' });
+    expect(fecSeatForElection(race('U.S. Senate'))).toEqual({ office: 'S', state: 'XX', district: '00' });
+    expect(fecSeatForElection(race('Presidential General Election'))).toEqual({ office: 'P', state: 'US', district: '00' });
+    expect(fecSeatForElection({ ...race('State Senate District 4'), level: 'state' })).toBeNull();
+    expect(cycleForYear(2025)).toBe(2026);
+    expect(cycleForYear(2026)).toBe(2026);
+  });
+});
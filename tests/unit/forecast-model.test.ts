@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for the Monte Carlo race forecast model
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chamberCoverage, runForecast, createRandom, type RaceInput } from '../../server/lib/forecast-model';
+
+function race(raceId: number, demPoll: number | null, repPoll: number | null, overrides: Partial<RaceInput> = {}): RaceInput {
+  return {
+    raceId,
+    title: `Race ${raceId}`,
+    state: 'AZ',
+    chamber: 'senate',
+    daysUntilElection: 10,
+    contenders: [
+      { candidateId: raceId * 10 + 1, name: `Dem ${raceId}`, party: 'D', isIncumbent: false, pollAverage: demPoll, pollStandardError: 1.5, pollCount: demPoll === null ? 0 : 8 },
+      { candidateId: raceId * 10 + 2, name: `Rep ${raceId}`, party: 'R', isIncumbent: false, pollAverage: repPoll, pollStandardError: 1.5, pollCount: repPoll === null ? 0 : 8 }
+    ],
+    ...overrides
+  };
+}
+
+describe('createRandom', () => {
+  it('is reproducible for a given seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+  });
+});
+
+describe('runForecast', () => {
+  it('gives a clear polling leader a high win probability', () => {
+    const result = runForecast([race(1, 56, 42)], [], { simulations: 4000, seed: 7 });
+    const [leader, trailer] = result.races[0].contenders;
+
+    expect(leader.name).toBe('Dem 1');
+    expect(leader.winProbability).toBeGreaterThan(0.9);
+    expect(leader.winProbability + trailer.winProbability).toBeCloseTo(1, 3);
+    expect(leader.p10).toBeLessThanOrEqual(leader.p50);
+    expect(leader.p50).toBeLessThanOrEqual(leader.p90);
+  });
+
+  it('falls back to fundamentals when there are no polls', () => {
+    const input = race(2, null, null);
+    input.contenders[1].isIncumbent = true;
+
+    const result = runForecast([input], [], { simulations: 4000, seed: 11 });
+    const incumbent = result.races[0].contenders.find(c => c.party === 'R')!;
+
+    expect(incumbent.pollWeight).toBe(0);
+    expect(incumbent.winProbability).toBeGreaterThan(0.5);
+  });
+
+  it('is deterministic for a fixed seed', () => {
+    const first = runForecast([race(3, 49, 48)], [], { simulations: 2000, seed: 99 });
+    const second = runForecast([race(3, 49, 48)], [], { simulations: 2000, seed: 99 });
+
+    expect(first.races).toEqual(second.races);
+  });
+
+  it('rolls races up into chamber control with holdover seats', () => {
+    const races = [race(1, 60, 38), race(2, 38, 60), race(3, 50, 49)];
+    const result = runForecast(
+      races,
+      [{ chamber: 'senate', majority: 3, holdover: { D: 1, R: 1 } }],
+      { simulations: 4000, seed: 5 }
+    );
+    const [senate] = result.chambers;
+
+    expect(senate.modeledSeats).toBe(3);
+    expect(senate.controlProbability.D + senate.controlProbability.R).toBeCloseTo(1, 3);
+    // Safe seats split, so the close race decides control nearly every time
+    expect(senate.tippingPoints[0].raceId).toBe(3);
+    expect(senate.tippingPoints[0].probability).toBeGreaterThan(0.9);
+  });
+
+  it('lets the tiebreaker party control a tied chamber', () => {
+    const races = [race(1, 70, 28), race(2, 28, 70)];
+    const result = runForecast(
+      races,
+      [{ chamber: 'senate', majority: 2, holdover: {}, tiebreaker: 'R' }],
+      { simulations: 1000, seed: 3 }
+    );
+
+    expect(result.chambers[0].controlProbability.R).toBeGreaterThan(0.99);
+  });
+});
+
+describe('chamberCoverage', () => {
+  it('leaves out chambers whose seats up are not all modeled', () => {
+    const races = [race(1, 50, 45), race(2, 45, 50), race(3, 48, 48, { chamber: 'house' })];
+    const { covered, uncovered } = chamberCoverage(races, [
+      { chamber: 'senate', seats: 4, majority: 3, holdover: { D: 1, R: 1 } },
+      { chamber: 'house', seats: 435, majority: 218, holdover: {} }
+    ]);
+
+    expect(covered.map(c => c.chamber)).toEqual(['senate']);
+    expect(uncovered).toEqual([{ chamber: 'house', seats: 435, modeledSeats: 1, heldOver: 0 }]);
+  });
+
+  it('trusts chambers without a seat count', () => {
+    const { covered } = chamberCoverage([], [{ chamber: 'senate', majority: 51, holdover: {} }]);
+    expect(covered).toHaveLength(1);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for iCalendar feeds: RFC 5545 escaping and folding, all-day
+ * events with alarms, and UIDs that survive date changes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCalendar,
+  calendarHost,
+  electionEvents,
+  escapeText,
+  foldLine,
+  type FeedElection
+} from '../../server/lib/icalendar';
+
+const election = (overrides: Partial<FeedElection> = {}): FeedElection => ({
+  id: 42,
+  title: 'Ohio Senate General',
+  state: 'OH',
+  location: 'Statewide',
+  date: new Date('2026-11-03T00:00:00Z'),
+  type: 'general',
+  level: 'federal',
+  pollsOpen: '6:30 AM',
+  pollsClose: '7:30 PM',
+  isActive: true,
+  sequence: 0,
+  lastModified: null,
+  ...overrides
+});
+
+const options = { baseUrl: 'https://elections.example', host: 'elections.example' };
+
+describe('iCalendar serialization', () => {
+  it('escapes TEXT values', () => {
+    expect(escapeText('Polls; early, mail\\other\nline')).toBe('Polls\\; early\\, mail\\\\other\\nline');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+    const folded = foldLine(line);
+    const parts = folded.split('\r\n');
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+    expect(parts.slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(parts.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+    expect(foldLine('SHORT:line')).toBe('SHORT:line');
+  });
+
+  it('writes all-day events with an alarm and CRLF endings', () => {
+    const generatedAt = new Date('2026-10-18T12:00:00Z');
+    const ics = buildCalendar(electionEvents(election(), [], { ...options, alarmDaysBefore: 7 }), { name: 'Watchlist', generatedAt });
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(ics).toContain('UID:election-42@elections.example\r\n');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261103\r\n');
+    expect(ics).toContain('DTEND;VALUE=DATE:20261104\r\n');
+    expect(ics).toContain('DTSTAMP:20261018T120000Z\r\n');
+    expect(ics).toContain('BEGIN:VALARM\r\nACTION:DISPLAY\r\nDESCRIPTION:Ohio Senate General\r\nTRIGGER:-P7D\r\nEND:VALARM');
+  });
+});
+
+describe('election events', () => {
+  it('keeps UIDs when the date moves and raises the sequence', () => {
+    const before = electionEvents(election(), [], options)[0];
+    const after = electionEvents(election({ date: new Date('2026-11-10T00:00:00Z'), sequence: 1 }), [], options)[0];
+    expect(after.uid).toBe(before.uid);
+    expect(after.sequence).toBeGreaterThan(before.sequence);
+  });
+
+  it('adds deadlines and windows keyed by kind', () => {
+    const events = electionEvents(election({ sequence: 2 }), [
+      { electionId: 42, kind: 'registration', endsOn: new Date('2026-10-05T00:00:00Z'), sequence: 1 },
+      {
+        electionId: 42, kind: 'early_voting', startsOn: new Date('2026-10-07T00:00:00Z'),
+        endsOn: new Date('2026-11-02T00:00:00Z'), note: 'At county boards of elections', sequence: 0
+      },
+      { electionId: 7, kind: 'registration', endsOn: new Date('2026-10-01T00:00:00Z'), sequence: 0 },
+      { electionId: 42, kind: 'unknown', endsOn: new Date('2026-10-01T00:00:00Z'), sequence: 0 }
+    ], { ...options, alarmDaysBefore: 3 });
+
+    expect(events.map(e => e.uid)).toEqual([
+      'election-42@elections.example',
+      'election-42-registration@elections.example',
+      'election-42-early-voting@elections.example'
+    ]);
+    expect(events[1]).toMatchObject({ summary: 'Voter registration deadline: Ohio Senate General', sequence: 3, alarmDaysBefore: 3 });
+
+    const ics = buildCalendar(events, { name: 'OH', generatedAt: new Date('2026-10-18T00:00:00Z') });
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261007\r\nDTEND;VALUE=DATE:20261103\r\n');
+  });
+
+  it('cancels removed deadlines under the same UID with a higher sequence', () => {
+    const deadline = { electionId: 42, kind: 'registration', endsOn: new Date('2026-10-05T00:00:00Z'), sequence: 1 };
+    const [, before] = electionEvents(election(), [deadline], { ...options, alarmDaysBefore: 3 });
+    const [, removed] = electionEvents(election(), [
+      { ...deadline, sequence: 2, removedAt: new Date('2026-10-10T00:00:00Z') }
+    ], { ...options, alarmDaysBefore: 3 });
+
+    expect(removed.uid).toBe(before.uid);
+    expect(removed.sequence).toBeGreaterThan(before.sequence);
+    const ics = buildCalendar([removed], { name: 'OH', generatedAt: new Date('2026-10-18T00:00:00Z') });
+    expect(ics).toContain('SEQUENCE:2\r\n');
+    expect(ics).toContain('STATUS:CANCELLED');
+    expect(ics).not.toContain('BEGIN:VALARM');
+  });
+
+  it('marks inactive elections as cancelled without alarms', () => {
+    const [event] = electionEvents(election({ isActive: false }), [], { ...options, alarmDaysBefore: 7 });
+    const ics = buildCalendar([event], { name: 'OH', generatedAt: new Date('2026-10-18T00:00:00Z') });
+    expect(ics).toContain('STATUS:CANCELLED');
+    expect(ics).not.toContain('BEGIN:VALARM');
+  });
+
+  it('takes the UID domain from the base URL', () => {
+    expect(calendarHost('https://elections.example:8443/app')).toBe('elections.example:8443');
+    expect(calendarHost('not a url')).toBe('localhost');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Unit Tests for the live update stream
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ReplayBuffer,
+  OutboundQueue,
+  SubscriptionLimitError,
+  parseSubscription,
+  mergeSubscription,
+  matchesSubscription,
+  diffResults,
+  formatSseEvent,
+  type ResultsSnapshot,
+  type StreamEvent
+} from '../../server/lib/live-stream';
+
+function event(id: number, electionId: number, state: string | null, type: StreamEvent['type'] = 'results', data: Record<string, unknown> = {}): StreamEvent {
+  return { id, type, electionId, state, data, timestamp: '2026-11-03T20:00:00.000Z' };
+}
+
+function snapshot(votes: Array<[number, number]>, percentReporting: number | null = 50): ResultsSnapshot {
+  return {
+    totalVotes: votes.reduce((sum, [, v]) => sum + v, 0),
+    percentReporting,
+    candidates: votes.map(([candidateId, v]) => ({ candidateId, name: `C${candidateId}`, party: null, votes: v, percentage: 0 }))
+  };
+}
+
+describe('ReplayBuffer', () => {
+  it('replays events after the last id a client saw', () => {
+    const buffer = new ReplayBuffer(10);
+    for (let i = 0; i < 5; i++) buffer.append({ type: 'results', electionId: 1, state: 'GA', data: {} });
+
+    expect(buffer.lastId).toBe(5);
+    expect(buffer.since(3)!.map(e => e.id)).toEqual([4, 5]);
+    expect(buffer.since(5)).toEqual([]);
+    expect(buffer.since(0)!.map(e => e.id)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('asks for a resync once the missed events were evicted', () => {
+    const buffer = new ReplayBuffer(3);
+    for (let i = 0; i < 6; i++) buffer.append({ type: 'results', electionId: 1, state: 'GA', data: {} });
+
+    expect(buffer.since(3)!.map(e => e.id)).toEqual([4, 5, 6]);
+    expect(buffer.since(2)).toBeNull();
+  });
+
+  it('asks for a resync when the last id is ahead of the buffer after a restart', () => {
+    const buffer = new ReplayBuffer(10);
+    for (let i = 0; i < 2; i++) buffer.append({ type: 'results', electionId: 1, state: 'GA', data: {} });
+
+    expect(buffer.since(250)).toBeNull();
+    expect(new ReplayBuffer(10).since(3)).toBeNull();
+  });
+});
+
+describe('subscriptions', () => {
+  it('parses comma separated elections, states and types', () => {
+    const subscription = parseSubscription({ elections: '1, 2,x', states: ['ga', 'PA,zz1'], types: 'results,bogus' }, 10);
+
+    expect([...subscription.electionIds]).toEqual([1, 2]);
+    expect([...subscription.states]).toEqual(['GA', 'PA']);
+    expect([...subscription.types!]).toEqual(['results']);
+  });
+
+  it('enforces the per-connection limit', () => {
+    expect(() => parseSubscription({ elections: '1,2,3', states: 'GA' }, 3)).toThrow(SubscriptionLimitError);
+
+    const current = parseSubscription({ elections: '1,2' }, 3);
+    expect(() => mergeSubscription(current, parseSubscription({ states: 'GA,PA' }, 3), 3)).toThrow(/limit/);
+    expect([...mergeSubscription(current, parseSubscription({ elections: '2,3' }, 3), 3).electionIds]).toEqual([1, 2, 3]);
+  });
+
+  it('matches by election id or state and respects type filters', () => {
+    const subscription = parseSubscription({ elections: '7', states: 'GA', types: 'results,race_call' }, 10);
+
+    expect(matchesSubscription(subscription, event(1, 7, 'PA'))).toBe(true);
+    expect(matchesSubscription(subscription, event(2, 9, 'GA'))).toBe(true);
+    expect(matchesSubscription(subscription, event(3, 9, 'PA'))).toBe(false);
+    expect(matchesSubscription(subscription, event(4, 7, 'PA', 'date_change'))).toBe(false);
+  });
+});
+
+describe('diffResults', () => {
+  it('sends the full table first, then only candidates that moved', () => {
+    const first = diffResults(undefined, snapshot([[1, 100], [2, 80]]));
+    expect(first!.full).toBe(true);
+    expect(first!.changed).toHaveLength(2);
+
+    const delta = diffResults(snapshot([[1, 100], [2, 80]]), snapshot([[1, 150], [2, 80]], 60));
+    expect(delta!.full).toBe(false);
+    expect(delta!.changed.map(c => [c.candidateId, c.votes, c.previousVotes])).toEqual([[1, 150, 100]]);
+    expect(delta!.percentReporting).toBe(60);
+  });
+
+  it('returns null when nothing changed', () => {
+    expect(diffResults(snapshot([[1, 100]]), snapshot([[1, 100]]))).toBeNull();
+  });
+});
+
+describe('OutboundQueue', () => {
+  it('coalesces result events for the same election', () => {
+    const queue = new OutboundQueue(10);
+    queue.push(event(1, 1, 'GA', 'results', { totalVotes: 10, percentReporting: 5, full: false, changed: [{ candidateId: 1, votes: 10, previousVotes: 0 }] }));
+    queue.push(event(2, 1, 'GA', 'race_call'));
+    queue.push(event(3, 1, 'GA', 'results', { totalVotes: 30, percentReporting: 9, full: false, changed: [{ candidateId: 1, votes: 20, previousVotes: 10 }, { candidateId: 2, votes: 10, previousVotes: 0 }] }));
+
+    expect(queue.size).toBe(2);
+    expect(queue.shift()!.id).toBe(2);
+    const merged = queue.shift()!;
+    expect(merged.id).toBe(3);
+    expect((merged.data as any).changed.map((c: any) => [c.candidateId, c.votes, c.previousVotes])).toEqual([[1, 20, 0], [2, 10, 0]]);
+  });
+
+  it('reports overflow so the transport can drop a slow client', () => {
+    const queue = new OutboundQueue(2);
+    expect(queue.push(event(1, 1, 'GA', 'race_call'))).toBe(true);
+    expect(queue.push(event(2, 2, 'GA', 'race_call'))).toBe(true);
+    expect(queue.push(event(3, 3, 'GA', 'race_call'))).toBe(false);
+  });
+});
+
+describe('formatSseEvent', () => {
+  it('frames the event with its id and type', () => {
+    const text = formatSseEvent(event(42, 1, 'GA', 'date_change', { newDate: '2026-11-03' }));
+    expect(text.startsWith('id: 42\nevent: date_change\ndata: {')).toBe(true);
+    expect(text.endsWith('\n\n')).toBe(true);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit Tests for notification queue idempotency keys, backoff and dead-lettering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  backoffDelay,
+  deadLetterReason,
+  idempotencyKey,
+  isPermanentFailure
+} from '../../server/lib/notification-queue';
+
+describe('idempotency keys', () => {
+  it('keys on user, event and channel', () => {
+    expect(idempotencyKey({ userId: 'u1', recipient: 'a@example.com', eventId: 7, channel: 'email' })).toBe('u1:7:email');
+    expect(idempotencyKey({ userId: 'u1', recipient: 'a@example.com', eventId: 7, channel: 'sms' })).not.toBe('u1:7:email');
+    expect(idempotencyKey({ recipient: ' A@Example.com ', eventId: 7, channel: 'email' })).toBe('a@example.com:7:email');
+  });
+
+  it('leaves ad-hoc sends without a key', () => {
+    expect(idempotencyKey({ userId: 'u1', recipient: 'a@example.com', channel: 'email' })).toBeNull();
+  });
+});
+
+describe('backoff', () => {
+  const options = { baseMs: 1000, maxMs: 10000 };
+
+  it('doubles per attempt up to the cap', () => {
+    expect(backoffDelay(1, options, () => 1)).toBe(1000);
+    expect(backoffDelay(3, options, () => 1)).toBe(4000);
+    expect(backoffDelay(10, options, () => 1)).toBe(10000);
+  });
+
+  it('jitters within the upper half', () => {
+    expect(backoffDelay(3, options, () => 0)).toBe(2000);
+    expect(backoffDelay(3, options, () => 0.5)).toBe(3000);
+  });
+});
+
+describe('dead-lettering', () => {
+  it('gives up at once on permanent rejections', () => {
+    expect(isPermanentFailure(400)).toBe(true);
+    expect(isPermanentFailure(429)).toBe(false);
+    expect(isPermanentFailure(503)).toBe(false);
+    expect(deadLetterReason(1, 3, 400)).toBe('permanent');
+  });
+
+  it('retries until the attempts run out', () => {
+    expect(deadLetterReason(1, 3, 503)).toBeNull();
+    expect(deadLetterReason(2, 3)).toBeNull();
+    expect(deadLetterReason(3, 3)).toBe('retries_exhausted');
+  });
+});
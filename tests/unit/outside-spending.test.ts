@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for independent expenditure parsing, race attribution and outside spending summaries
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  attributeExpenditure,
+  crossedThreshold,
+  expenditureDate,
+  parseExpenditureCsvRow,
+  parseScheduleE,
+  summarizeOutsideSpending,
+  type RaceForAttribution
+} from '../../server/lib/outside-spending';
+
+const CSV_ROW = {
+  cand_id: 'H4XX01234', cand_name: 'RIVERA, ANA', spe_id: 'C00900001', spe_nam: 'Better Future PAC',
+  ele_type: 'G2024', can_office_state: 'XX', can_office_dis: '7', can_office: 'H', exp_amo: '$250,000.00',
+  exp_date: '03-OCT-24', sup_opp: 'O', pur: 'TV AD', pay: 'MEDIA CO', file_num: '1800001', tran_id: 'SE.1234',
+  image_num: '202410039000000001', fec_election_yr: '2024', dissem_dt: '10/04/2024'
+};
+
+const races: RaceForAttribution[] = [
+  { electionId: 10, type: 'Primary', date: '2024-03-05', cycle: 2024, seat: { office: 'H', state: 'XX', district: '07' }, candidates: [{ candidateId: 1, fecCandidateId: 'H4XX01234' }] },
+  { electionId: 11, type: 'General', date: '2024-11-05', cycle: 2024, seat: { office: 'H', state: 'XX', district: '07' }, candidates: [{ candidateId: 2, fecCandidateId: 'H4XX01234' }] },
+  { electionId: 12, type: 'General', date: '2024-11-05', cycle: 2024, seat: { office: 'S', state: 'XX', district: '00' }, candidates: [] }
+];
+
+describe('expenditure parsing', () => {
+  it('reads the dates FEC files use', () => {
+    expect(expenditureDate('2024-10-03T00:00:00')).toBe('2024-10-03');
+    expect(expenditureDate('10/3/2024')).toBe('2024-10-03');
+    expect(expenditureDate('03-OCT-24')).toBe('2024-10-03');
+    expect(expenditureDate('soon')).toBeNull();
+  });
+
+  it('normalizes bulk file rows', () => {
+    expect(parseExpenditureCsvRow(CSV_ROW, 2024)).toMatchObject({
+      committeeId: 'C00900001', transactionId: 'SE.1234', cycle: 2024, candidateDistrict: '07', electionType: 'G',
+      supportOppose: 'oppose', amount: 250000, expenditureDate: '2024-10-03', disseminationDate: '2024-10-04', isNotice: false, fileNumber: 1800001
+    });
+    expect(parseExpenditureCsvRow({ ...CSV_ROW, sup_opp: '' }, 2024)).toBeNull();
+  });
+
+  it('normalizes 24- and 48-hour notices from the API', () => {
+    const notice = parseScheduleE({
+      committee_id: 'C00900002', committee: { name: 'Forward Action' }, candidate_id: 'S4XX00001', support_oppose_indicator: 'S',
+      expenditure_amount: 75000, expenditure_date: '2024-10-20', is_notice: true, report_type: '24', sub_id: 4242, candidate_office: 'S',
+      candidate_office_state: 'XX', election_type: 'G2024'
+    }, 2024);
+    expect(notice).toMatchObject({ transactionId: 'sub:4242', spenderName: 'Forward Action', supportOppose: 'support', isNotice: true, reportType: '24', cycle: 2024 });
+  });
+});
+
+describe('attribution', () => {
+  it('prefers the linked candidate and the race of the election type', () => {
+    expect(attributeExpenditure(parseExpenditureCsvRow(CSV_ROW, 2024)!, races)).toEqual({ electionId: 11, candidateId: 2 });
+  });
+
+  it('falls back to the seat and the next race after dissemination', () => {
+    const record = { ...parseExpenditureCsvRow(CSV_ROW, 2024)!, fecCandidateId: 'H4XX09999', electionType: null, disseminationDate: '2024-02-01' };
+    expect(attributeExpenditure(record, races)).toEqual({ electionId: 10, candidateId: null });
+    expect(attributeExpenditure({ ...record, candidateOffice: 'S', candidateDistrict: null }, races)).toEqual({ electionId: 12, candidateId: null });
+    expect(attributeExpenditure({ ...record, candidateState: 'YY' }, races)).toBeNull();
+  });
+});
+
+describe('summaries', () => {
+  it('totals support and oppose by candidate, spender and week', () => {
+    const summary = summarizeOutsideSpending([
+      { committeeId: 'C1', spenderName: 'PAC One', candidateId: 1, fecCandidateId: 'H1', candidateName: 'Ana Rivera', supportOppose: 'support', amount: 100, isNotice: false, expenditureDate: '2024-10-01' },
+      { committeeId: 'C1', spenderName: 'PAC One', candidateId: 2, fecCandidateId: 'H2', candidateName: 'Ben Ortiz', supportOppose: 'oppose', amount: 300, isNotice: true, expenditureDate: '2024-10-03' },
+      { committeeId: 'C2', spenderName: 'PAC Two', candidateId: 1, fecCandidateId: 'H1', candidateName: 'Ana Rivera', supportOppose: 'support', amount: 50.5, isNotice: false, expenditureDate: '2024-10-08' }
+    ]);
+    expect(summary).toMatchObject({ total: 450.5, support: 150.5, oppose: 300, noticeTotal: 300 });
+    expect(summary.byCandidate.map(c => [c.name, c.support, c.oppose])).toEqual([['Ben Ortiz', 0, 300], ['Ana Rivera', 150.5, 0]]);
+    expect(summary.bySpender.map(s => [s.committeeId, s.total, s.expenditures])).toEqual([['C1', 400, 2], ['C2', 50.5, 1]]);
+    expect(summary.byWeek).toEqual([{ week: '2024-09-30', support: 100, oppose: 300 }, { week: '2024-10-07', support: 50.5, oppose: 0 }]);
+  });
+
+  it('reports the highest threshold crossed', () => {
+    const thresholds = [1_000_000, 5_000_000, 10_000_000];
+    expect(crossedThreshold(900_000, 6_000_000, thresholds)).toBe(5_000_000);
+    expect(crossedThreshold(1_200_000, 4_000_000, thresholds)).toBeNull();
+    expect(crossedThreshold(0, 1_000_000, thresholds)).toBe(1_000_000);
+  });
+});
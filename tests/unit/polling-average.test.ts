@@ -0,0 +1,131 @@
+/**
+ * Unit Tests for the weighted polling average engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeCandidateAverage,
+  computeAverageSeries,
+  computeCurrentAverages,
+  normalizePopulation,
+  pollsterGradeWeight,
+  type PollObservation
+} from '../../server/lib/polling-average';
+
+const AS_OF = new Date('2026-10-01T00:00:00Z');
+
+function poll(overrides: Partial<PollObservation> = {}): PollObservation {
+  return {
+    pollId: 'poll-1',
+    candidateId: 1,
+    candidateName: 'Jane Doe',
+    party: 'D',
+    pollster: 'Test Pollster',
+    endDate: new Date('2026-09-30T00:00:00Z'),
+    support: 50,
+    sampleSize: 800,
+    marginOfError: 3.5,
+    population: 'lv',
+    pollsterGrade: 'B',
+    source: 'polls',
+    ...overrides
+  };
+}
+
+describe('computeCandidateAverage', () => {
+  it('returns null when no polls fall inside the window', () => {
+    const future = poll({ endDate: new Date('2026-10-05T00:00:00Z') });
+    const stale = poll({ endDate: new Date('2025-01-01T00:00:00Z') });
+
+    expect(computeCandidateAverage([future, stale], AS_OF)).toBeNull();
+  });
+
+  it('weights recent polls more heavily than old ones', () => {
+    const recent = poll({ pollId: 'recent', support: 52, endDate: new Date('2026-09-30T00:00:00Z') });
+    const old = poll({ pollId: 'old', support: 40, endDate: new Date('2026-08-01T00:00:00Z') });
+
+    const avg = computeCandidateAverage([recent, old], AS_OF)!;
+
+    expect(avg.average).toBeGreaterThan(46);
+    expect(avg.contributions[0].pollId).toBe('recent');
+  });
+
+  it('favors likely-voter, larger and better-rated polls', () => {
+    const strong = poll({ pollId: 'strong', support: 48, sampleSize: 1500, marginOfError: 2.5, pollsterGrade: 'A+' });
+    const weak = poll({ pollId: 'weak', support: 56, sampleSize: 300, marginOfError: 6, population: 'a', pollsterGrade: 'C-' });
+
+    const avg = computeCandidateAverage([strong, weak], AS_OF)!;
+
+    expect(avg.average).toBeLessThan(52);
+    const strongShare = avg.contributions.find(c => c.pollId === 'strong')!.weight;
+    expect(strongShare).toBeGreaterThan(0.7);
+  });
+
+  it('produces a band that widens when polls disagree', () => {
+    const agreeing = [poll({ pollId: 'a', support: 50 }), poll({ pollId: 'b', support: 50 })];
+    const disagreeing = [poll({ pollId: 'a', support: 42 }), poll({ pollId: 'b', support: 58 })];
+
+    const tight = computeCandidateAverage(agreeing, AS_OF)!;
+    const wide = computeCandidateAverage(disagreeing, AS_OF)!;
+
+    expect(tight.lower).toBeLessThan(tight.average);
+    expect(tight.upper).toBeGreaterThan(tight.average);
+    expect(wide.upper - wide.lower).toBeGreaterThan(tight.upper - tight.lower);
+  });
+
+  it('normalizes contribution weights to sum to one', () => {
+    const polls = [
+      poll({ pollId: 'a', support: 47 }),
+      poll({ pollId: 'b', support: 51, endDate: new Date('2026-09-20T00:00:00Z') }),
+      poll({ pollId: 'c', support: 49, endDate: new Date('2026-09-10T00:00:00Z') })
+    ];
+
+    const avg = computeCandidateAverage(polls, AS_OF)!;
+    const total = avg.contributions.reduce((sum, c) => sum + c.weight, 0);
+
+    expect(total).toBeCloseTo(1, 2);
+  });
+});
+
+describe('computeAverageSeries', () => {
+  it('emits one point per poll date per candidate plus the as-of date', () => {
+    const polls = [
+      poll({ pollId: 'a', endDate: new Date('2026-09-01T00:00:00Z') }),
+      poll({ pollId: 'b', endDate: new Date('2026-09-15T00:00:00Z') }),
+      poll({ pollId: 'c', candidateId: 2, candidateName: 'John Roe', party: 'R', endDate: new Date('2026-09-15T00:00:00Z') })
+    ];
+
+    const series = computeAverageSeries(polls, AS_OF);
+
+    expect(series.filter(p => p.candidateId === 1)).toHaveLength(3);
+    expect(series.filter(p => p.candidateId === 2)).toHaveLength(2);
+    expect(series[series.length - 1].date).toBe(AS_OF.toISOString());
+  });
+});
+
+describe('computeCurrentAverages', () => {
+  it('orders candidates by current average', () => {
+    const polls = [
+      poll({ pollId: 'a', candidateId: 1, support: 44 }),
+      poll({ pollId: 'a', candidateId: 2, candidateName: 'John Roe', party: 'R', support: 49 })
+    ];
+
+    const averages = computeCurrentAverages(polls, AS_OF);
+
+    expect(averages.map(a => a.candidateId)).toEqual([2, 1]);
+  });
+});
+
+describe('input normalization', () => {
+  it('maps population labels', () => {
+    expect(normalizePopulation('Likely Voters')).toBe('lv');
+    expect(normalizePopulation('RV')).toBe('rv');
+    expect(normalizePopulation('adults')).toBe('a');
+    expect(normalizePopulation(null)).toBe('unknown');
+  });
+
+  it('treats unknown grades as unrated', () => {
+    expect(pollsterGradeWeight('A+')).toBeGreaterThan(pollsterGradeWeight('C'));
+    expect(pollsterGradeWeight('Z')).toBe(pollsterGradeWeight(null));
+  });
+});
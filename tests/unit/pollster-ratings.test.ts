@@ -0,0 +1,107 @@
+/**
+ * Unit Tests for pollster ratings: grade cutoffs, alias normalization,
+ * accuracy scores and house effects
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  estimateHouseEffects,
+  gradeFromPlusMinus,
+  normalizePollsterName,
+  scorePollster,
+  PARTISAN_SPONSOR_PENALTY,
+  type PollAccuracyRecord
+} from '../../server/lib/pollster-ratings';
+import type { PollObservation } from '../../server/lib/polling-average';
+
+const record = (pollMargin: number, actualMargin: number, demMarginError: number | null = null): PollAccuracyRecord => ({
+  electionId: 1,
+  pollId: 1,
+  pollster: 'Acme',
+  endDate: new Date('2024-11-01'),
+  pollMargin,
+  actualMargin,
+  demMarginError
+});
+
+const observation = (pollster: string, party: string, support: number, candidateId: number = 1): PollObservation => ({
+  pollId: `${pollster}-${candidateId}`,
+  candidateId,
+  candidateName: `Candidate ${candidateId}`,
+  party,
+  pollster,
+  endDate: new Date('2026-10-01T00:00:00Z'),
+  support,
+  sampleSize: 800,
+  population: 'lv',
+  source: 'polls'
+});
+
+describe('pollster grades', () => {
+  it('maps plus-minus to grades with inclusive cutoffs', () => {
+    expect(gradeFromPlusMinus(-3)).toBe('A+');
+    expect(gradeFromPlusMinus(-1.5)).toBe('A+');
+    expect(gradeFromPlusMinus(-1.49)).toBe('A');
+    expect(gradeFromPlusMinus(-0.5)).toBe('A-');
+    expect(gradeFromPlusMinus(0)).toBe('B+');
+    expect(gradeFromPlusMinus(0.01)).toBe('B');
+    expect(gradeFromPlusMinus(1)).toBe('B-');
+    expect(gradeFromPlusMinus(2.5)).toBe('C-');
+    expect(gradeFromPlusMinus(3.5)).toBe('D');
+    expect(gradeFromPlusMinus(3.51)).toBe('F');
+  });
+
+  it('normalizes pollster names for alias matching', () => {
+    expect(normalizePollsterName('Siena College/NYT')).toBe('siena college nyt');
+    expect(normalizePollsterName('  Marist  Poll ')).toBe('marist poll');
+    expect(normalizePollsterName('Selzer & Co.')).toBe('selzer and co');
+    expect(normalizePollsterName('SELZER AND CO')).toBe(normalizePollsterName('Selzer & Co'));
+  });
+});
+
+describe('pollster scores', () => {
+  it('shrinks toward the field and withholds a grade below the minimum', () => {
+    const few = scorePollster([record(5, 3), record(4, 3)], 2)!;
+    expect(few.meanAbsoluteError).toBe(1.5);
+    // (1.5 - 2) * 2/7
+    expect(few.plusMinus).toBe(-0.14);
+    expect(few.grade).toBeNull();
+
+    const enough = scorePollster([record(5, 3, 1), record(4, 3, -1), record(3, 3, 2)], 2)!;
+    expect(enough.grade).toBe('B+');
+    expect(enough.meanSignedError).toBe(0.67);
+    expect(scorePollster([], 2)).toBeNull();
+  });
+
+  it('docks partisan sponsors', () => {
+    const records = [record(5, 3), record(4, 3), record(3, 3)];
+    const plain = scorePollster(records, 2)!;
+    const partisan = scorePollster(records, 2, true)!;
+    expect(partisan.plusMinus).toBeCloseTo(plain.plusMinus + PARTISAN_SPONSOR_PENALTY, 2);
+  });
+});
+
+describe('house effects', () => {
+  it('measures a pollster against every other pollster, shrunk by poll count', () => {
+    const observations = [
+      observation('Acme Polling', 'Democratic', 50),
+      observation('Other One', 'Democratic', 45),
+      observation('Other Two', 'Democratic', 45),
+      observation('Acme Polling', 'Republican', 44, 2),
+      observation('Other One', 'Republican', 46, 2)
+    ];
+    const effects = estimateHouseEffects({ id: 7, name: 'Acme Polling', aliases: ['acme polling'] }, observations, 365);
+
+    expect(effects.map(e => e.party)).toEqual(['D', 'R']);
+    const dem = effects.find(e => e.party === 'D')!;
+    expect(dem.rawMeanResidual).toBe(5);
+    // One poll - shrunk by 1 / (1 + 3)
+    expect(dem.effect).toBe(1.25);
+    expect(effects.find(e => e.party === 'R')!.rawMeanResidual).toBe(-2);
+  });
+
+  it('is empty when no other pollster covers the race', () => {
+    const observations = [observation('Acme Polling', 'Democratic', 50)];
+    expect(estimateHouseEffects({ id: 7, name: 'Acme Polling', aliases: ['acme polling'] }, observations, 365)).toEqual([]);
+  });
+});
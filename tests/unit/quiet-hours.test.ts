@@ -0,0 +1,32 @@
+/**
+ * Unit Tests for quiet hours: windows in the user's timezone, including
+ * ones that wrap midnight
+ */
+
+import { describe, it, expect } from 'vitest';
+import { localMinutes, parseClock, quietUntil } from '../../server/lib/quiet-hours';
+
+describe('quiet hours', () => {
+  it('reads local time in the given timezone', () => {
+    // 03:30 UTC in October is 23:30 the evening before in New York
+    expect(localMinutes(new Date('2026-10-18T03:30:00Z'), 'America/New_York')).toBe(23 * 60 + 30);
+    expect(localMinutes(new Date('2026-10-18T03:30:00Z'), 'Not/AZone')).toBe(23 * 60 + 30);
+    expect(parseClock('7:00')).toBeNull();
+    expect(parseClock('24:00')).toBeNull();
+  });
+
+  it('holds until the end of a window that wraps midnight', () => {
+    const hours = { quietHoursStart: '22:00', quietHoursEnd: '07:00', timezone: 'America/New_York' };
+    expect(quietUntil(new Date('2026-10-18T03:30:45Z'), hours)).toEqual(new Date('2026-10-18T11:00:00Z'));
+    expect(quietUntil(new Date('2026-10-18T10:59:00Z'), hours)).toEqual(new Date('2026-10-18T11:00:00Z'));
+    expect(quietUntil(new Date('2026-10-18T11:00:00Z'), hours)).toBeNull();
+    expect(quietUntil(new Date('2026-10-18T18:00:00Z'), hours)).toBeNull();
+  });
+
+  it('ignores unset and empty windows', () => {
+    const now = new Date('2026-10-18T03:30:00Z');
+    expect(quietUntil(now, { timezone: 'UTC' })).toBeNull();
+    expect(quietUntil(now, { quietHoursStart: '01:00', quietHoursEnd: '01:00', timezone: 'UTC' })).toBeNull();
+    expect(quietUntil(now, { quietHoursStart: '01:00', quietHoursEnd: '05:00', timezone: 'UTC' })).toEqual(new Date('2026-10-18T05:00:00Z'));
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit Tests for the race projection engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateProjection,
+  retractionReason,
+  normalCdf,
+  type ProjectionUnit
+} from '../../server/lib/race-projection';
+
+const LEADER = { candidateId: 1, name: 'Leader' };
+const TRAILER = { candidateId: 2, name: 'Trailer' };
+
+function county(key: string, reporting: number, total: number, leaderDay: number, trailerDay: number, leaderMail = 0, trailerMail = 0): ProjectionUnit {
+  return {
+    key,
+    name: key,
+    reportingPrecincts: reporting,
+    totalPrecincts: total,
+    candidates: [
+      { candidateId: 1, votes: leaderDay + leaderMail, voteTypes: { 'election-day': leaderDay, mail: leaderMail } },
+      { candidateId: 2, votes: trailerDay + trailerMail, voteTypes: { 'election-day': trailerDay, mail: trailerMail } }
+    ]
+  };
+}
+
+function totals(units: ProjectionUnit[]) {
+  return [LEADER, TRAILER].map(c => ({
+    ...c,
+    votes: units.reduce((sum, u) => sum + (u.candidates.find(x => x.candidateId === c.candidateId)?.votes ?? 0), 0)
+  }));
+}
+
+describe('normalCdf', () => {
+  it('matches known values', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+  });
+});
+
+describe('evaluateProjection', () => {
+  it('declares the race once every precinct is in', () => {
+    const units = [county('a', 10, 10, 600, 400), county('b', 5, 5, 300, 350)];
+    const evaluation = evaluateProjection({ candidates: totals(units), units, percentReporting: 100, expectedPrecincts: 15 });
+
+    expect(evaluation.shouldCall).toBe(true);
+    expect(evaluation.rule).toBe('all_votes_counted');
+    expect(evaluation.leader?.candidateId).toBe(1);
+    expect(evaluation.confidence).toBe(1);
+  });
+
+  it('calls an insurmountable lead before everything is counted', () => {
+    const units = [county('a', 9, 10, 9000, 1000), county('b', 10, 10, 500, 500)];
+    const evaluation = evaluateProjection({ candidates: totals(units), units, percentReporting: 95, expectedPrecincts: 20 });
+
+    // ~1,111 votes outstanding in county a against an 8,000 vote lead
+    expect(evaluation.outstandingVotes).toBeGreaterThan(1000);
+    expect(evaluation.rule).toBe('insurmountable_lead');
+    expect(evaluation.shouldCall).toBe(true);
+  });
+
+  it('weighs outstanding vote by county', () => {
+    // Leader is up on the count, but the trailer's stronghold is mostly out
+    const units = [county('stronghold', 1, 10, 100, 900), county('leader-base', 10, 10, 3000, 1500)];
+    const evaluation = evaluateProjection({ candidates: totals(units), units, percentReporting: 55 });
+
+    expect(evaluation.currentMargin).toBe(700);
+    expect(evaluation.projectedMargin).toBeLessThan(0);
+    expect(evaluation.shouldCall).toBe(false);
+    expect(evaluation.confidence).toBeLessThan(0.5);
+  });
+
+  it('applies the margin of each outstanding vote type', () => {
+    const units: ProjectionUnit[] = [{
+      ...county('a', 10, 10, 5000, 4000, 100, 400),
+      outstandingByType: { mail: 4000 }
+    }];
+    const evaluation = evaluateProjection({ candidates: totals(units), units, percentReporting: 100 });
+    const mail = evaluation.slices.find(s => s.voteType === 'mail')!;
+
+    expect(mail.outstandingVotes).toBe(4000);
+    expect(mail.leaderMarginShare).toBeCloseTo(-0.6, 5);
+    expect(evaluation.projectedMargin).toBe(700 - 2400);
+    expect(evaluation.shouldCall).toBe(false);
+  });
+
+  it('never completes the count from some of the counties', () => {
+    const units = [county('a', 300, 300, 60000, 30000)];
+    const evaluation = evaluateProjection({ candidates: totals(units), units, percentReporting: 100, expectedPrecincts: 900 });
+
+    expect(evaluation.percentReporting).toBeCloseTo(33.33, 2);
+    expect(evaluation.outstandingVotes).toBeGreaterThan(0);
+    expect(evaluation.rule).not.toBe('all_votes_counted');
+    expect(evaluation.rule).not.toBe('insurmountable_lead');
+
+    // Without the race's precinct count the units cannot be shown to cover it
+    const unknown = evaluateProjection({ candidates: totals(units), units, percentReporting: 100 });
+    expect(unknown.rule).not.toBe('all_votes_counted');
+    expect(unknown.rule).not.toBe('insurmountable_lead');
+  });
+
+  it('holds off while too few precincts are reporting', () => {
+    const units = [county('a', 1, 20, 900, 100)];
+    const evaluation = evaluateProjection({ candidates: totals(units), units, percentReporting: 5 });
+
+    expect(evaluation.rule).toBe('too_early');
+    expect(evaluation.shouldCall).toBe(false);
+  });
+
+  it('reports no result without votes', () => {
+    const evaluation = evaluateProjection({ candidates: [{ ...LEADER, votes: 0 }, { ...TRAILER, votes: 0 }], units: [], percentReporting: 0 });
+    expect(evaluation.rule).toBe('no_results');
+  });
+});
+
+describe('retractionReason', () => {
+  it('retracts when the called candidate loses the lead or confidence drops', () => {
+    const behind = evaluateProjection({
+      candidates: [{ ...LEADER, votes: 400 }, { ...TRAILER, votes: 600 }],
+      units: [],
+      percentReporting: 100
+    });
+    expect(retractionReason(1, behind)).toMatch(/overtaken/);
+
+    const units = [county('stronghold', 1, 10, 100, 900), county('leader-base', 10, 10, 3000, 1500)];
+    const shaky = evaluateProjection({ candidates: totals(units), units, percentReporting: 55 });
+    expect(retractionReason(1, shaky)).toMatch(/Confidence fell/);
+
+    const solid = evaluateProjection({ candidates: [{ ...LEADER, votes: 600 }, { ...TRAILER, votes: 400 }], units: [], percentReporting: 100 });
+    expect(retractionReason(1, solid)).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit Tests for ranked-choice tabulation and CVR parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { tabulateRcv, resolveRcvOptions, type RankedBallot } from '../../server/lib/rcv-tabulation';
+import { parseCvr, detectCvrFormat } from '../../server/lib/cvr-formats';
+
+const fixture = (name: string) => JSON.parse(readFileSync(join(__dirname, '../fixtures/rcv', name), 'utf8'));
+
+function ballots(spec: Array<[number, RankedBallot['rankings']]>): RankedBallot[] {
+  return spec.map(([count, rankings]) => ({ rankings, count }));
+}
+
+describe('tabulateRcv', () => {
+  it('eliminates the last-place candidate and transfers their ballots', () => {
+    const result = tabulateRcv(ballots([
+      [8, ['A']],
+      [4, ['B', 'C']],
+      [3, ['B']],
+      [3, ['C', 'B']],
+      [1, ['C', 'A']],
+      [1, ['C']]
+    ]));
+
+    expect(result.winners).toEqual(['B']);
+    expect(result.rounds).toHaveLength(2);
+
+    const [first, second] = result.rounds;
+    expect(first.tallies.map(t => [t.candidate, t.votes])).toEqual([['A', 8], ['B', 7], ['C', 5]]);
+    expect(first.threshold).toBe(11);
+    expect(first.eliminated).toEqual(['C']);
+    expect(first.transfers).toEqual(expect.arrayContaining([
+      { from: 'C', to: 'B', votes: 3 },
+      { from: 'C', to: 'A', votes: 1 },
+      { from: 'C', to: null, votes: 1 }
+    ]));
+
+    expect(second.tallies.map(t => [t.candidate, t.votes])).toEqual([['B', 10], ['A', 9]]);
+    expect(second.continuingVotes).toBe(19);
+    expect(second.exhausted).toBe(1);
+    expect(second.elected).toEqual(['B']);
+    expect(result.exhaustedBy.no_more_rankings).toBe(1);
+  });
+
+  it('applies the skipped-ranking rule', () => {
+    const spec = ballots([[5, ['A']], [4, ['B']], [3, ['C', null, null, 'A']]]);
+
+    const maine = tabulateRcv(spec, resolveRcvOptions('maine'));
+    expect(maine.winners).toEqual(['A']);
+    expect(maine.rounds[1].tallies.find(t => t.candidate === 'A')!.votes).toBe(5);
+    expect(maine.exhaustedBy.skipped_rankings).toBe(3);
+
+    const lenient = tabulateRcv(spec, { maxConsecutiveSkips: null });
+    expect(lenient.rounds[1].tallies.find(t => t.candidate === 'A')!.votes).toBe(8);
+  });
+
+  it('exhausts or skips overvoted rankings', () => {
+    const spec = ballots([[5, ['A']], [4, ['B']], [3, ['C', ['A', 'B'], 'A']]]);
+
+    expect(tabulateRcv(spec, { overvoteRule: 'exhaust' }).exhaustedBy.overvote).toBe(3);
+    const skipped = tabulateRcv(spec, { overvoteRule: 'skip' });
+    expect(skipped.exhaustedBy.overvote).toBe(0);
+    expect(skipped.rounds[1].tallies.find(t => t.candidate === 'A')!.votes).toBe(8);
+  });
+
+  it('eliminates hopeless candidates together under batch elimination', () => {
+    const spec = ballots([[10, ['A']], [9, ['B']], [2, ['C', 'B']], [1, ['D', 'C']]]);
+
+    expect(tabulateRcv(spec).rounds[0].eliminated).toEqual(['D']);
+    const batch = tabulateRcv(spec, { batchElimination: true });
+    expect(batch.rounds[0].eliminated.sort()).toEqual(['C', 'D']);
+    expect(batch.rounds).toHaveLength(2);
+    expect(batch.winners).toEqual(['B']);
+  });
+
+  it('breaks ties for last place on the previous round', () => {
+    const result = tabulateRcv(ballots([[10, ['A']], [5, ['B']], [6, ['C']], [1, ['D', 'B']], [2, ['D']]]));
+
+    const second = result.rounds[1];
+    expect(second.tallies.find(t => t.candidate === 'B')!.votes).toBe(6);
+    expect(second.tallies.find(t => t.candidate === 'C')!.votes).toBe(6);
+    expect(second.tieBreak).toEqual({ candidates: expect.arrayContaining(['B', 'C']), method: 'previous_round', loser: 'B' });
+    expect(result.winners).toEqual(['A']);
+  });
+
+  it('keeps counting until two remain when asked', () => {
+    const spec = ballots([[6, ['A']], [3, ['B']], [2, ['C', 'B']]]);
+
+    expect(tabulateRcv(spec).rounds).toHaveLength(1);
+    const full = tabulateRcv(spec, { continueUntilTwoRemain: true });
+    expect(full.winners).toEqual(['A']);
+    expect(full.rounds).toHaveLength(2);
+    expect(full.rounds[1].tallies.map(t => [t.candidate, t.votes])).toEqual([['A', 6], ['B', 5]]);
+  });
+
+  it('transfers fractional surpluses in multi-seat contests', () => {
+    const result = tabulateRcv(ballots([[8, ['A', 'B']], [4, ['C']], [3, ['B']]]), { seats: 2 });
+
+    expect(result.method).toBe('stv');
+    expect(result.rounds[0].threshold).toBe(6);
+    expect(result.rounds[0].elected).toEqual(['A']);
+    expect(result.rounds[0].transfers).toEqual([{ from: 'A', to: 'B', votes: 2 }]);
+    expect(result.rounds[1].tallies.find(t => t.candidate === 'B')!.votes).toBe(5);
+    expect(result.winners).toEqual(['A', 'B']);
+  });
+
+  it('counts blank ballots as undervotes rather than exhausted', () => {
+    const result = tabulateRcv(ballots([[3, ['A']], [1, ['B']], [2, [null, null]]]));
+    expect(result.totalBallots).toBe(6);
+    expect(result.undervotes).toBe(2);
+    expect(result.exhaustedBallots).toBe(0);
+  });
+});
+
+describe('parseCvr', () => {
+  it('reads Dominion CVR exports with manifests and adjudicated cards', () => {
+    const payload = fixture('dominion-cvr-export.json');
+    expect(detectCvrFormat(payload)).toBe('dominion');
+
+    const { contests } = parseCvr(payload, null, {
+      candidates: fixture('dominion-candidate-manifest.json'),
+      contests: fixture('dominion-contest-manifest.json')
+    });
+    expect(contests).toHaveLength(1);
+
+    const [contest] = contests;
+    expect(contest.contestName).toBe('US REPRESENTATIVE');
+    expect(contest.maxRankings).toBe(4);
+    expect(contest.candidates).toEqual(['Begich, Nick', 'Palin, Sarah', 'Peltola, Mary S.']);
+    expect(contest.ballots.map(b => b.rankings)).toEqual([
+      ['Begich, Nick', 'Palin, Sarah'],
+      ['Peltola, Mary S.', 'Begich, Nick'],
+      [['Palin, Sarah', 'Peltola, Mary S.']],
+      ['Palin, Sarah'],
+      ['Begich, Nick', null, 'Peltola, Mary S.']
+    ]);
+  });
+
+  it('reads NIST 1500-103 CVR reports using the current snapshot', () => {
+    const payload = fixture('nist-cvr.json');
+    expect(detectCvrFormat(payload)).toBe('nist');
+
+    const [contest] = parseCvr(payload).contests;
+    expect(contest.contestName).toBe('Mayor');
+    expect(contest.ballots.map(b => b.rankings)).toEqual([
+      ['Alice Able', 'Cara Cole'],
+      ['Cara Cole'],
+      [null, null, 'Bob Baker']
+    ]);
+  });
+
+  it('reads the simple format', () => {
+    const { format, contests } = parseCvr({
+      contest: 'Council',
+      candidates: ['A', 'B'],
+      ballots: [['A', 'B'], { rankings: ['B', '', 'A'], count: 3 }]
+    });
+    expect(format).toBe('simple');
+    expect(contests[0].ballots).toEqual([
+      { rankings: ['A', 'B'], count: 1 },
+      { rankings: ['B', null, 'A'], count: 3 }
+    ]);
+  });
+});
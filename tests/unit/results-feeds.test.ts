@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for the election results feed parsers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  parseClarityDetailXml,
+  parseNistCdfJson,
+  parseNistCdfXml,
+  parseSosJson,
+  normalizeVoteType,
+  matchContestToElection,
+  buildElectionResult
+} from '../../server/lib/results-feeds';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '../fixtures/results', name), 'utf8');
+
+describe('parseClarityDetailXml', () => {
+  const feed = parseClarityDetailXml(fixture('clarity-detail.xml'));
+
+  it('skips ballot questions and reads candidate totals', () => {
+    expect(feed.jurisdiction).toBe('GA');
+    expect(feed.contests).toHaveLength(1);
+
+    const [senate] = feed.contests;
+    expect(senate.contestName).toBe('US Senate');
+    expect(senate.totalVotes).toBe(14100);
+    expect(senate.reportingPrecincts).toBe(25);
+    expect(senate.totalPrecincts).toBe(30);
+  });
+
+  it('breaks votes down by vote type and county', () => {
+    const warnock = feed.contests[0].candidates[0];
+    expect(warnock.party).toBe('DEM');
+    expect(warnock.voteTypes).toEqual({ 'election-day': 3000, early: 3000, mail: 900, provisional: 100 });
+
+    const bibb = warnock.units.find(u => u.unit === 'Bibb')!;
+    expect(bibb.level).toBe('county');
+    expect(bibb.votes).toBe(4460);
+  });
+});
+
+describe('parseNistCdf', () => {
+  it('sums the highest reported unit level without double counting precincts', () => {
+    const feed = parseNistCdfJson(fixture('nist-cdf.json'));
+    const [senate] = feed.contests;
+
+    expect(feed.jurisdiction).toBe('Arizona');
+    expect(feed.contests).toHaveLength(1);
+    expect(senate.candidates.map(c => [c.name, c.party, c.votes])).toEqual([
+      ['Ruben Gallego', 'DEM', 1260],
+      ['Kari Lake', 'REP', 1145]
+    ]);
+    expect(senate.candidates[0].voteTypes).toEqual({ 'election-day': 650, mail: 600, provisional: 10 });
+    expect(senate.reportingPrecincts).toBe(1050);
+    expect(senate.totalPrecincts).toBe(1250);
+  });
+
+  it('reads the XML serialization, preferring scope-level totals', () => {
+    const feed = parseNistCdfXml(fixture('nist-cdf.xml'));
+    const [senate] = feed.contests;
+
+    expect(senate.contestName).toBe('U.S. Senate');
+    expect(senate.candidates.map(c => c.votes)).toEqual([1250, 1140]);
+    expect(senate.candidates[1].voteTypes).toEqual({ 'election-day': 690, mail: 450 });
+    expect(senate.candidates[0].units).toEqual([
+      { unit: 'Maricopa', level: 'county', votes: 1000, voteTypes: {} }
+    ]);
+    expect(senate.reportingPrecincts).toBe(1050);
+  });
+});
+
+describe('parseSosJson', () => {
+  it('follows a per-source field mapping', () => {
+    const feed = parseSosJson(
+      { data: { races: [{ title: 'Governor', pr: 40, pt: 50, choices: [{ n: 'Ann Smith', v: '1,200' }, { n: 'Write-ins', v: 5 }] }] } },
+      { contests: 'data.races', contestName: 'title', candidates: 'choices', candidateName: 'n', votes: 'v', reportingPrecincts: 'pr', totalPrecincts: 'pt' }
+    );
+
+    expect(feed.contests[0].candidates).toHaveLength(1);
+    expect(feed.contests[0].totalVotes).toBe(1200);
+    expect(feed.contests[0].reportingPrecincts).toBe(40);
+  });
+
+  it('rejects feeds without a contest list', () => {
+    expect(() => parseSosJson({})).toThrow(/no contest list/);
+  });
+});
+
+describe('normalizeVoteType', () => {
+  it('maps vendor and CDF labels onto our buckets', () => {
+    expect(normalizeVoteType('Advance Voting Votes')).toBe('early');
+    expect(normalizeVoteType('absentee-in-person')).toBe('early');
+    expect(normalizeVoteType('Absentee by Mail Votes')).toBe('mail');
+    expect(normalizeVoteType('total')).toBe('total');
+  });
+});
+
+describe('matching', () => {
+  const feed = parseClarityDetailXml(fixture('clarity-detail.xml'));
+  const elections = [
+    { id: 1, title: 'Georgia Governor', state: 'GA' },
+    { id: 2, title: 'Georgia U.S. Senate General Election', state: 'GA', offices: ['US Senate'] }
+  ];
+
+  it('matches contests to elections by office name', () => {
+    expect(matchContestToElection(feed.contests[0], elections)?.id).toBe(2);
+  });
+
+  it('builds an ElectionResult with matched candidates only', () => {
+    const { result, unmatchedCandidates } = buildElectionResult(
+      2,
+      feed.contests[0],
+      [{ id: 10, name: 'Raphael Warnock' }, { id: 11, name: 'Herschel Walker' }],
+      'clarity-enr'
+    );
+
+    expect(result.candidateResults.map(c => c.candidateId)).toEqual([10, 11]);
+    expect(result.candidateResults[0].votePercentage).toBeCloseTo(49.65, 2);
+    expect(result.percentReporting).toBeCloseTo(83.33, 2);
+    expect(result.isComplete).toBe(false);
+    expect(unmatchedCandidates).toEqual(['Chase Oliver']);
+  });
+});
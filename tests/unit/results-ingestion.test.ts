@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for results ingestion: a county feed stores its county's
+ * units but leaves the race totals and race calls alone until the stored
+ * counties cover the whole race, and a statewide feed stores its units
+ * before the race is projected
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ResultsFeed } from '../../server/lib/results-feeds';
+
+const { db, storage, raceCallService, parse } = vi.hoisted(() => {
+  // Every query builder call chains; awaiting a chain gives no rows
+  const chain: any = {};
+  for (const method of ['insert', 'values', 'onConflictDoUpdate', 'update', 'set', 'where', 'select', 'from']) {
+    chain[method] = () => chain;
+  }
+  chain.returning = async () => [{ id: 1 }];
+  chain.then = (resolve: (rows: unknown[]) => unknown) => resolve([]);
+
+  return {
+    db: chain,
+    storage: {
+      getElectionResults: vi.fn(),
+      updateElectionResults: vi.fn(),
+      getElection: vi.fn(),
+      getElections: vi.fn()
+    },
+    raceCallService: { runProjection: vi.fn() },
+    parse: vi.fn()
+  };
+});
+
+vi.mock('../../server/db', () => ({ db }));
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/services/race-call-service', () => ({ raceCallService }));
+vi.mock('../../server/event-processing-service', () => ({ eventProcessingService: { emit: vi.fn() } }));
+vi.mock('../../server/services/alert-rule-service', () => ({ alertRuleService: { publish: vi.fn() } }));
+vi.mock('../../server/services/results-adapters', () => ({
+  resultsAdapterRegistry: { getAdapter: () => ({ parse }) }
+}));
+
+import { resultsIngestionService } from '../../server/results-ingestion-service';
+import { resultsHierarchyService } from '../../server/services/results-hierarchy-service';
+
+const precincts = ['P1', 'P2', 'P3'];
+
+// Franklin County, fully counted - one of three 3-precinct counties
+const countyFeed: ResultsFeed = {
+  format: 'clarity-xml',
+  electionName: null,
+  jurisdiction: 'Franklin',
+  generatedAt: null,
+  contests: [{
+    contestName: 'Governor',
+    totalVotes: 900,
+    reportingPrecincts: 3,
+    totalPrecincts: 3,
+    reportingUnits: precincts.map(name => ({ name, level: 'precinct', reportingPrecincts: 1, totalPrecincts: 1 })),
+    candidates: [
+      { name: 'Jane Doe', party: null, votes: 600, voteTypes: {}, units: precincts.map(unit => ({ unit, level: 'precinct', votes: 200, voteTypes: {} })) },
+      { name: 'John Roe', party: null, votes: 300, voteTypes: {}, units: precincts.map(unit => ({ unit, level: 'precinct', votes: 100, voteTypes: {} })) }
+    ]
+  }]
+} as ResultsFeed;
+
+function storedUnits() {
+  const unit = (id: number, unitKey: string, level: string, parentKey: string | null) => ({
+    id, electionId: 7, unitKey, level, name: unitKey, parentKey,
+    reportingPrecincts: level === 'precinct' ? 1 : null,
+    totalPrecincts: level === 'precinct' ? 1 : null,
+    resultsSource: 'clarity-enr (Franklin)'
+  });
+  const rows = [
+    unit(1, 'county:franklin', 'county', null),
+    ...precincts.map((name, i) => unit(i + 2, `precinct:franklin/${name.toLowerCase()}`, 'precinct', 'county:franklin'))
+  ];
+  const counts = rows.slice(1).flatMap(row => [
+    { unitId: row.id, candidateId: 1, votes: 200 },
+    { unitId: row.id, candidateId: 2, votes: 100 }
+  ]);
+  return { rows, counts };
+}
+
+describe('county results feeds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    parse.mockReturnValue(countyFeed);
+    storage.getElections.mockResolvedValue([]);
+    storage.getElectionResults.mockResolvedValue({
+      totalPrecincts: 9,
+      candidates: [
+        { id: 1, name: 'Jane Doe', votesReceived: 0 },
+        { id: 2, name: 'John Roe', votesReceived: 0 }
+      ]
+    });
+    vi.spyOn(resultsHierarchyService as any, 'loadUnits').mockResolvedValue(storedUnits());
+  });
+
+  it('does not replace race totals or run the projection for one county of several', async () => {
+    const summary = await resultsIngestionService.importFeed('clarity-enr', '', {
+      state: 'OH',
+      county: 'Franklin',
+      contestMap: { Governor: 7 }
+    });
+
+    expect(summary.electionsUpdated).toBe(1);
+    expect(storage.updateElectionResults).not.toHaveBeenCalled();
+    expect(raceCallService.runProjection).not.toHaveBeenCalled();
+  });
+
+  it('rolls the counties up into the race once they cover every precinct', async () => {
+    storage.getElectionResults.mockResolvedValue({
+      totalPrecincts: 3,
+      candidates: [
+        { id: 1, name: 'Jane Doe', votesReceived: 0 },
+        { id: 2, name: 'John Roe', votesReceived: 0 }
+      ]
+    });
+
+    await resultsIngestionService.importFeed('clarity-enr', '', { state: 'OH', county: 'Franklin', contestMap: { Governor: 7 } });
+
+    expect(storage.updateElectionResults).toHaveBeenCalledWith(7, expect.objectContaining({ totalVotes: 900, isComplete: true }));
+    expect(raceCallService.runProjection).toHaveBeenCalledWith(7);
+  });
+});
+
+describe('statewide results feeds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    parse.mockReturnValue(countyFeed);
+    storage.getElections.mockResolvedValue([]);
+    storage.getElectionResults.mockResolvedValue({
+      totalPrecincts: 3,
+      candidates: [
+        { id: 1, name: 'Jane Doe', votesReceived: 0 },
+        { id: 2, name: 'John Roe', votesReceived: 0 }
+      ]
+    });
+    vi.spyOn(resultsHierarchyService as any, 'loadUnits').mockResolvedValue(storedUnits());
+  });
+
+  it('stores the units before updating the race and running the projection', async () => {
+    const store = vi.spyOn(resultsHierarchyService, 'storeFeedContest');
+
+    await resultsIngestionService.importFeed('clarity-enr', '', { state: 'OH', contestMap: { Governor: 7 } });
+
+    expect(store).toHaveBeenCalledTimes(1);
+    expect(store.mock.invocationCallOrder[0]).toBeLessThan(storage.updateElectionResults.mock.invocationCallOrder[0]);
+    expect(storage.updateElectionResults.mock.invocationCallOrder[0]).toBeLessThan(raceCallService.runProjection.mock.invocationCallOrder[0]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for the results hierarchy roll-up
+ */
+
+import { describe, it, expect } from 'vitest';
+import { coversRace, rollUpResults, type ReportingUnitInput } from '../../server/lib/results-rollup';
+
+function unit(key: string, parentKey: string | null, counts: Array<[number, number]>, extra: Partial<ReportingUnitInput> = {}): ReportingUnitInput {
+  return {
+    key,
+    level: key.startsWith('precinct') ? 'precinct' : 'county',
+    name: key,
+    parentKey,
+    reportingPrecincts: null,
+    totalPrecincts: null,
+    candidates: counts.map(([candidateId, votes]) => ({ candidateId, votes, voteTypes: { 'election-day': votes } })),
+    ...extra
+  };
+}
+
+describe('rollUpResults', () => {
+  it('sums precincts into counties and counties into election totals', () => {
+    const { units, totals } = rollUpResults([
+      unit('county:a', null, [[1, 999]]), // stale county figure, replaced by its precincts
+      unit('precinct:a/1', 'county:a', [[1, 60], [2, 40]]),
+      unit('precinct:a/2', 'county:a', [[1, 0], [2, 0]]),
+      unit('county:b', null, [[1, 100], [2, 300]], { reportingPrecincts: 3, totalPrecincts: 4 })
+    ]);
+
+    const countyA = units.get('county:a')!;
+    expect(countyA.totalVotes).toBe(100);
+    expect(countyA.reportingPrecincts).toBe(1);
+    expect(countyA.totalPrecincts).toBe(2);
+    expect(countyA.percentReporting).toBe(50);
+
+    expect(totals.totalVotes).toBe(500);
+    expect(totals.reportingPrecincts).toBe(4);
+    expect(totals.totalPrecincts).toBe(6);
+    expect(totals.percentReporting).toBeCloseTo(66.67, 2);
+    expect(totals.candidates.map(c => [c.candidateId, c.votes, c.votePercentage])).toEqual([
+      [2, 340, 68],
+      [1, 160, 32]
+    ]);
+    expect(totals.voteTypes['election-day']).toBe(500);
+  });
+
+  it('treats units with a missing parent as roots', () => {
+    const { totals } = rollUpResults([unit('precinct:x/1', 'county:x', [[1, 10]])]);
+    expect(totals.totalVotes).toBe(10);
+    expect(totals.percentReporting).toBe(100);
+  });
+
+  it('rejects cycles', () => {
+    expect(() => rollUpResults([
+      unit('county:a', 'county:b', [[1, 1]]),
+      unit('county:b', 'county:a', [[1, 1]])
+    ])).toThrow(/cycle/);
+  });
+});
+
+describe('coversRace', () => {
+  const county = (key: string, reporting: number, total: number) =>
+    unit(key, null, [[1, 100]], { reportingPrecincts: reporting, totalPrecincts: total });
+
+  it('does not treat some counties as the whole race', () => {
+    const oneCounty = rollUpResults([county('county:a', 300, 300)]);
+    expect(oneCounty.totals.percentReporting).toBe(100);
+    expect(coversRace(oneCounty, 900)).toBe(false);
+    expect(coversRace(oneCounty, null)).toBe(false);
+  });
+
+  it('covers the race once every expected precinct is stored, or with a statewide unit', () => {
+    const all = rollUpResults([county('county:a', 300, 300), county('county:b', 100, 300), county('county:c', 0, 300)]);
+    expect(coversRace(all, 900)).toBe(true);
+    expect(coversRace(rollUpResults([{ ...county('state:oh', 10, 20), level: 'state' }]), null)).toBe(true);
+  });
+});
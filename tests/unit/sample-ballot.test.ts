@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for sample ballot composition and the printable cheat sheet
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  composeBallot,
+  reconcilePicks,
+  renderBallotCheatSheet,
+  type LocalBallotRace,
+  type SourceContest
+} from '../../server/lib/sample-ballot';
+
+const civic: SourceContest[] = [
+  { type: 'Referendum', referendumTitle: 'Proposition 1', referendumSubtitle: 'Housing bond', referendumBallotResponses: ['Yes', 'No'] },
+  { type: 'General', office: 'Mayor', level: ['locality'], district: { name: 'Santa Rosa city', scope: 'citywide' },
+    candidates: [{ name: 'Dana Lee', party: 'Nonpartisan' }] },
+  { type: 'General', office: 'U.S. Representative', level: ['country'], district: { name: "California's 4th congressional district", scope: 'congressional' },
+    candidates: [{ name: 'Mike Thompson', party: 'Democratic Party' }, { name: 'John Munn', party: 'Republican Party' }] },
+  { type: 'General', office: 'Governor', level: ['administrativeArea1'], district: { name: 'California', scope: 'statewide' },
+    candidates: [{ name: 'Gavin Newsom', party: 'Democratic Party' }] },
+  { type: 'General', office: 'U.S. Senator', level: ['country'], district: { name: 'California', scope: 'statewide' },
+    candidates: [{ name: 'Alex Padilla', party: 'Democratic Party' }] }
+];
+
+const localRaces: LocalBallotRace[] = [
+  {
+    election: { id: 42, title: "California's 4th Congressional District", location: 'California', level: 'Federal' },
+    district: 'CA-4',
+    candidates: [
+      { id: 7, name: 'Mike Thompson', party: 'D', isIncumbent: true },
+      { id: 8, name: 'Jane Write-In', party: 'I' }
+    ]
+  },
+  {
+    election: { id: 43, title: 'Sonoma County Sheriff', location: 'Sonoma County', level: 'Local' },
+    district: 'CA-Sonoma',
+    candidates: [{ id: 9, name: 'Pat Doe', party: 'Nonpartisan' }]
+  }
+];
+
+function ballot() {
+  return composeBallot({
+    address: '100 Main St, Santa Rosa, CA',
+    state: 'CA',
+    electionDate: '2026-11-03',
+    electionName: 'California General Election',
+    sourceContests: civic.map(contest => ({ source: 'Google Civic', contest })),
+    localRaces,
+    now: new Date('2026-10-01T00:00:00Z')
+  });
+}
+
+describe('composeBallot', () => {
+  it('orders contests the way the ballot prints them', () => {
+    expect(ballot().contests.map(c => `${c.section}:${c.office}`)).toEqual([
+      'federal:U.S. Senator',
+      'federal:U.S. Representative',
+      'state:Governor',
+      'county:Sonoma County Sheriff',
+      'local:Mayor',
+      'measures:Proposition 1'
+    ]);
+  });
+
+  it('merges our race into the matching source contest', () => {
+    const house = ballot().contests.find(c => c.office === 'U.S. Representative')!;
+    expect(house).toMatchObject({ key: 'election-42', electionId: 42, sources: ['Google Civic', 'Election database'] });
+    expect(house.choices.map(c => [c.key, c.name, c.candidateId])).toEqual([
+      ['candidate-7', 'Mike Thompson', 7],
+      ['name-john-munn', 'John Munn', null],
+      ['candidate-8', 'Jane Write-In', 8]
+    ]);
+  });
+
+  it('turns referenda into measures with their responses', () => {
+    const measure = ballot().contests.find(c => c.kind === 'measure')!;
+    expect(measure).toMatchObject({ key: 'measure-proposition-1', subtitle: 'Housing bond' });
+    expect(measure.choices.map(c => c.key)).toEqual(['yes', 'no']);
+  });
+
+  it('honours printed ballot placement within a section', () => {
+    const placed = composeBallot({
+      address: 'x', state: 'CA', electionDate: null, electionName: null, localRaces: [],
+      sourceContests: [
+        { source: 'Google Civic', contest: { office: 'Governor', level: ['administrativeArea1'], ballotPlacement: '2' } },
+        { source: 'Google Civic', contest: { office: 'Controller', level: ['administrativeArea1'], ballotPlacement: '1' } }
+      ]
+    });
+    expect(placed.contests.map(c => c.office)).toEqual(['Controller', 'Governor']);
+  });
+});
+
+describe('reconcilePicks', () => {
+  it('drops picks that are not on the ballot', () => {
+    const result = reconcilePicks(ballot(), {
+      'election-42': { choice: 'candidate-7', note: 'Incumbent' },
+      'measure-proposition-1': { choice: 'maybe' },
+      'election-999': { choice: 'candidate-1' }
+    });
+    expect(Object.keys(result.picks)).toEqual(['election-42']);
+    expect(result.dropped).toEqual(['measure-proposition-1', 'election-999']);
+  });
+});
+
+describe('renderBallotCheatSheet', () => {
+  it('marks picks and escapes user text', () => {
+    const html = renderBallotCheatSheet(ballot(), {
+      'election-42': { choice: 'candidate-7', note: '<script>alert(1)</script>' },
+      'measure-proposition-1': { choice: 'no' }
+    });
+    expect(html).toContain('<li class="chosen"><span class="box">&#10003;</span>Mike Thompson');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html.indexOf('<h2>Federal</h2>')).toBeLessThan(html.indexOf('<h2>Ballot Measures</h2>'));
+  });
+});
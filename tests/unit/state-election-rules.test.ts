@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for the state election-law rule engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  STATE_ELECTION_LAWS,
+  evaluateStateElectionRules,
+  validateElectionData,
+  validateElectionDateByState,
+  computeElectionDeadlines,
+  expectedDates,
+  resolveDateRule,
+  type ElectionRuleInput
+} from '../../server/validators/state-election-rules';
+import { ElectionRulesValidator } from '../../server/services/election-validation-service';
+
+// Elections that were held as the statutes require
+const KNOWN_GOOD: Array<ElectionRuleInput & { label: string }> = [
+  { label: 'TX 2022 primary', state: 'TX', date: '2022-03-01', level: 'state', type: 'primary' },
+  { label: 'TX 2024 primary', state: 'TX', date: '2024-03-05', level: 'federal', type: 'primary' },
+  { label: 'TX 2022 primary runoff', state: 'TX', date: '2022-05-24', level: 'state', type: 'primary runoff', precedingElectionDate: '2022-03-01' },
+  { label: 'GA 2022 primary', state: 'GA', date: '2022-05-24', level: 'state', type: 'primary', certificationDate: '2022-06-03' },
+  { label: 'GA 2022 primary runoff', state: 'GA', date: '2022-06-21', level: 'federal', type: 'primary runoff', precedingElectionDate: '2022-05-24' },
+  { label: 'CA 2022 primary', state: 'CA', date: '2022-06-07', level: 'state', type: 'primary', filingDeadline: '2022-03-11', certificationDate: '2022-07-15' },
+  { label: 'CA 2024 primary', state: 'CA', date: '2024-03-05', level: 'federal', type: 'primary' },
+  { label: 'CA 2025 UDEL', state: 'CA', date: '2025-11-04', level: 'local', type: 'general', title: 'Sonoma County Uniform District Election' },
+  { label: 'NY 2022 primary', state: 'NY', date: '2022-06-28', level: 'state', type: 'primary' },
+  { label: 'PA 2022 primary', state: 'PA', date: '2022-05-17', level: 'state', type: 'primary', filingDeadline: '2022-03-08' },
+  { label: 'PA 2024 primary', state: 'PA', date: '2024-04-23', level: 'federal', type: 'primary' },
+  { label: 'FL 2022 primary', state: 'FL', date: '2022-08-23', level: 'state', type: 'primary' },
+  { label: 'FL 2024 primary', state: 'FL', date: '2024-08-20', level: 'federal', type: 'primary' },
+  { label: 'HI 2022 primary', state: 'HI', date: '2022-08-13', level: 'state', type: 'primary' },
+  { label: 'TN 2022 primary', state: 'TN', date: '2022-08-04', level: 'state', type: 'primary' },
+  { label: 'KY 2022 primary', state: 'KY', date: '2022-05-17', level: 'federal', type: 'primary' },
+  { label: 'NE 2022 primary', state: 'NE', date: '2022-05-10', level: 'state', type: 'primary' },
+  { label: 'OH 2024 primary', state: 'OH', date: '2024-03-19', level: 'federal', type: 'primary' },
+  { label: 'MD 2024 primary', state: 'MD', date: '2024-05-14', level: 'federal', type: 'primary' },
+  { label: 'WA 2023 primary', state: 'WA', date: '2023-08-01', level: 'state', type: 'primary' },
+  { label: 'CO 2023 coordinated', state: 'CO', date: '2023-11-07', level: 'state', type: 'general' },
+  { label: '2024 federal general', state: 'MI', date: '2024-11-05', level: 'federal', type: 'general', certificationDate: '2024-11-22' },
+  { label: 'NY-3 2024 special', state: 'NY', date: '2024-02-13', level: 'federal', type: 'special', noticeDate: '2023-12-01' },
+  { label: 'LA 2023 primary', state: 'LA', date: '2023-10-14', level: 'state', type: 'primary' }
+];
+
+describe('evaluateStateElectionRules', () => {
+  it.each(KNOWN_GOOD)('accepts $label', (election) => {
+    expect(evaluateStateElectionRules(election)).toEqual([]);
+  });
+
+  it('rejects Louisiana elections off Saturday', () => {
+    const [violation] = evaluateStateElectionRules({ state: 'LA', date: '2023-10-17', level: 'state', type: 'general' });
+    expect(violation).toMatchObject({ code: 'invalid_louisiana_date', severity: 'error', statute: 'La. R.S. 18:402' });
+  });
+
+  it('rejects a federal general off the statutory Tuesday', () => {
+    const [violation] = evaluateStateElectionRules({ state: 'OH', date: '2024-11-12', level: 'federal', type: 'general' });
+    expect(violation).toMatchObject({ code: 'invalid_federal_date', severity: 'error' });
+    expect(violation.message).toContain('2024-11-05');
+  });
+
+  it('rejects a California UDEL off its date', () => {
+    const [violation] = evaluateStateElectionRules({
+      state: 'CA', date: '2025-08-26', level: 'local', type: 'general', title: 'Marin Uniform District Election'
+    });
+    expect(violation).toMatchObject({ code: 'ca_udel_date', severity: 'error', statute: 'Cal. Elec. Code § 1500' });
+    expect(violation.message).toContain('2025-11-04');
+  });
+
+  it('rejects special elections called on short notice', () => {
+    const [violation] = evaluateStateElectionRules({
+      state: 'CA', date: '2024-05-21', level: 'state', type: 'special', noticeDate: '2024-03-01'
+    });
+    expect(violation).toMatchObject({ code: 'special_notice_period', severity: 'error', statute: 'Cal. Elec. Code § 10703' });
+  });
+
+  it('warns on primaries, runoffs and certifications off the statutory calendar', () => {
+    const codes = (input: ElectionRuleInput) => evaluateStateElectionRules(input).map(v => `${v.code}:${v.severity}`);
+    expect(codes({ state: 'TX', date: '2022-03-08', level: 'state', type: 'primary' })).toEqual(['unexpected_primary_date:warning']);
+    expect(codes({ state: 'SC', date: '2022-06-21', level: 'state', type: 'primary runoff', precedingElectionDate: '2022-06-14' }))
+      .toEqual(['runoff_window:warning']);
+    expect(codes({ state: 'OH', date: '2022-05-03', level: 'state', type: 'primary runoff' })).toEqual(['no_runoff_law:warning']);
+    expect(codes({ state: 'PA', date: '2022-11-08', level: 'state', type: 'general', certificationDate: '2022-12-20' }))
+      .toEqual(['late_certification:warning']);
+  });
+
+  it('skips presidential preference primaries', () => {
+    expect(evaluateStateElectionRules({
+      state: 'NY', date: '2024-04-02', level: 'federal', type: 'primary', title: 'New York Presidential Primary'
+    })).toEqual([]);
+  });
+
+  it('requires a proclamation for Louisiana federal specials', () => {
+    const [violation] = evaluateStateElectionRules({ state: 'LA', date: '2024-03-23', level: 'federal', type: 'special' });
+    expect(violation).toMatchObject({ code: 'missing_proclamation', statute: 'La. R.S. 18:591' });
+  });
+});
+
+describe('local and municipal generals', () => {
+  const codes = (election: ElectionRuleInput) => evaluateStateElectionRules(election).map(v => `${v.code}:${v.severity}`);
+
+  it('flags a local general off the coordinated Tuesday without blocking storage', () => {
+    expect(codes({ state: 'TX', date: '2026-11-05', level: 'local', type: 'general' }))
+      .toEqual(['unexpected_coordinated_date:warning', 'general_not_tuesday:warning']);
+    expect(codes({ state: 'CA', date: '2025-11-10', level: 'municipal', type: 'general' }))
+      .toEqual(['unexpected_coordinated_date:warning', 'general_not_tuesday:warning']);
+    expect(codes({ state: 'TX', date: '2026-11-03', level: 'local', type: 'general' })).toEqual([]);
+    expect(validateElectionData({ state: 'TX', date: '2026-11-05', level: 'local', type: 'general' })).toEqual([]);
+  });
+
+  it('keeps a state general off Tuesday as an error', () => {
+    expect(codes({ state: 'OH', date: '2026-11-05', level: 'state', type: 'general' }))
+      .toEqual(['unexpected_general_date:warning', 'general_not_tuesday:error']);
+  });
+
+  it('fails wrong-weekday local generals in the rules validator', () => {
+    const validator = new ElectionRulesValidator();
+    const result = validator.validateElectionDate('TX', new Date('2026-11-05T00:00:00Z'), 'general', 'local');
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+    expect(result.confidenceScore).toBe(40);
+    expect(validator.validateElectionDate('TX', new Date('2026-11-03T00:00:00Z'), 'general', 'local').isValid).toBe(true);
+  });
+});
+
+describe('validateElectionData', () => {
+  it('returns only blocking violations', () => {
+    expect(validateElectionData({ state: 'TX', date: '2022-03-08', level: 'state', type: 'primary' })).toEqual([]);
+    expect(validateElectionData({ state: 'LA', date: '2023-10-17', level: 'state', type: 'general' })).toHaveLength(1);
+  });
+
+  it('keeps the date-by-state result shape', () => {
+    expect(validateElectionDateByState('LA', new Date('2023-10-14'), 'state', 'general')).toEqual({ ok: true });
+    expect(validateElectionDateByState('OH', new Date('2024-11-12'), 'federal', 'general').code).toBe('invalid_federal_date');
+  });
+});
+
+describe('rule table', () => {
+  it('covers all 50 states and DC', () => {
+    expect(Object.keys(STATE_ELECTION_LAWS)).toHaveLength(51);
+  });
+
+  it('resolves every primary rule to a date in its own year', () => {
+    for (const law of Object.values(STATE_ELECTION_LAWS)) {
+      for (const year of [2022, 2023, 2024]) {
+        for (const { date } of expectedDates(law.primary, year)) {
+          expect(date.getUTCFullYear()).toBe(year);
+        }
+      }
+    }
+  });
+
+  it('resolves last-weekday rules', () => {
+    expect(resolveDateRule({ kind: 'nth_weekday', month: 6, weekday: 2, nth: -1 }, 2022).toISOString().slice(0, 10)).toBe('2022-06-28');
+  });
+});
+
+describe('computeElectionDeadlines', () => {
+  it('derives filing, notice and certification dates from the law', () => {
+    const deadlines = computeElectionDeadlines({ state: 'CA', date: '2022-06-07', type: 'primary' });
+    expect(deadlines.filingDeadline?.latest.toISOString().slice(0, 10)).toBe('2022-03-11');
+    expect(deadlines.certificationDeadline?.date.toISOString().slice(0, 10)).toBe('2022-07-15');
+    expect(deadlines.noticeWindow).toBeNull();
+  });
+});
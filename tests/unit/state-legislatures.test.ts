@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for OpenStates bulk data parsing and state legislative seat matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCsv, parseCsvLines } from '../../server/lib/csv';
+import {
+  districtKey,
+  parseBillsCsv,
+  parseJurisdiction,
+  parsePeopleCsv,
+  parsePgArray,
+  recordHash,
+  seatForElection,
+  seatHolders
+} from '../../server/lib/openstates-bulk';
+
+const PEOPLE_CSV = [
+  'id,name,current_party,current_district,current_chamber,given_name,family_name,gender,email,biography,birth_date,death_date,image,links,sources,capitol_address,capitol_voice,capitol_fax,district_address,district_voice,district_fax,twitter,youtube,instagram,facebook,wikidata',
+  'ocd-person/0001,Maria Alvarez,Democratic,012,upper,Maria,Alvarez,Female,maria.alvarez@senate.example.gov,,,,https://example.gov/alvarez.jpg,https://example.gov/alvarez;https://alvarez.example.com,,"100 Capitol Ave, Room 4",555-0101,,,,,,,,,',
+  'ocd-person/0002,"James ""Jim"" Porter",Republican,3A,lower,James,Porter,Male,,,,,,,,,555-0102,,,,,,,,,'
+].join('\r\n');
+
+describe('parseCsv', () => {
+  it('handles quoted fields, doubled quotes and other delimiters', () => {
+    expect(parseCsv('a,b\n"x, y","say ""hi"""\n')).toEqual([{ a: 'x, y', b: 'say "hi"' }]);
+    expect(parseCsv('\uFEFFCAND_ID|CAND_NAME\nH0XX00001|SMITH, JOHN', '|')).toEqual([{ CAND_ID: 'H0XX00001', CAND_NAME: 'SMITH, JOHN' }]);
+  });
+
+  it('streams rows from lines, rejoining quoted fields that span lines', async () => {
+    async function* lines() {
+      yield* ['\uFEFFa,b', '1,"first', 'second"', '', '2,"say ""hi"""'];
+    }
+    const rows: Array<Record<string, string>> = [];
+    for await (const row of parseCsvLines(lines())) rows.push(row);
+    expect(rows).toEqual([{ a: '1', b: 'first\nsecond' }, { a: '2', b: 'say "hi"' }]);
+  });
+});
+
+describe('parsePeopleCsv', () => {
+  it('reads current legislators', () => {
+    const [alvarez, porter] = parsePeopleCsv(PEOPLE_CSV, 'mn');
+    expect(alvarez).toMatchObject({
+      openstatesId: 'ocd-person/0001',
+      state: 'MN',
+      chamber: 'upper',
+      district: '012',
+      party: 'Democratic',
+      capitolPhone: '555-0101',
+      links: ['https://example.gov/alvarez', 'https://alvarez.example.com']
+    });
+    expect(porter.name).toBe('James "Jim" Porter');
+    expect(porter.email).toBeNull();
+  });
+
+  it('hashes records independently of key order', () => {
+    const [record] = parsePeopleCsv(PEOPLE_CSV, 'MN');
+    const reordered = Object.fromEntries(Object.entries(record).reverse());
+    expect(recordHash(reordered)).toBe(recordHash(record));
+    expect(recordHash({ ...record, party: 'Independent' })).not.toBe(recordHash(record));
+  });
+});
+
+describe('parseJurisdiction', () => {
+  it('reads chambers, districts and sessions', () => {
+    const { chambers, districts, sessions } = parseJurisdiction({
+      id: 'ocd-jurisdiction/country:us/state:nh/government',
+      organizations: [
+        { id: 'ocd-organization/1', name: 'General Court', classification: 'legislature', districts: [] },
+        {
+          id: 'ocd-organization/2', name: 'House', classification: 'lower',
+          districts: [
+            { label: 'Hillsborough 1', role: 'Representative', division_id: 'ocd-division/country:us/state:nh/sldl:hillsborough_1', maximum_memberships: 4 },
+            { label: 'Coos 2', role: 'Representative', division_id: 'ocd-division/country:us/state:nh/sldl:coos_2', maximum_memberships: 1 }
+          ]
+        },
+        { id: 'ocd-organization/3', name: 'Governor', classification: 'executive' }
+      ],
+      legislative_sessions: [
+        { identifier: '2025', name: '2025 Regular Session', classification: 'primary', start_date: '2025-01-01', end_date: '2025-06-30' }
+      ]
+    }, 'nh');
+
+    expect(chambers.map(c => c.chamber)).toEqual(['legislature', 'lower']);
+    expect(chambers[1]).toMatchObject({ name: 'House', memberTitle: 'Representative', seats: 5 });
+    expect(districts).toHaveLength(2);
+    expect(districts[0]).toMatchObject({ state: 'NH', district: 'Hillsborough 1', seats: 4 });
+    expect(sessions[0].startDate?.toISOString().slice(0, 10)).toBe('2025-01-01');
+  });
+});
+
+describe('parseBillsCsv', () => {
+  it('joins actions and sponsorships to their bills', () => {
+    const bills = parseBillsCsv('MN', {
+      bills: [
+        'id,session_identifier,jurisdiction_id,organization_classification,identifier,title,classification,subject,first_action_date,latest_action_date,latest_action_description,latest_passage_date',
+        'ocd-bill/1,2025,ocd-jurisdiction/country:us/state:mn/government,upper,SF 1,"Education funding, omnibus","{bill}","{Education,""School Finance""}",2025-01-14,2025-03-02,Referred to Finance,'
+      ].join('\n'),
+      actions: [
+        'id,bill_id,organization_id,organization_classification,description,date,classification,order',
+        'a2,ocd-bill/1,org,upper,Referred to Finance,2025-03-02,"{referral-committee}",2',
+        'a1,ocd-bill/1,org,upper,Introduction and first reading,2025-01-14,"{introduction,reading-1}",1'
+      ].join('\n'),
+      sponsorships: [
+        'id,bill_id,name,entity_type,organization_id,person_id,primary,classification',
+        's1,ocd-bill/1,Alvarez,person,,ocd-person/0001,True,primary'
+      ].join('\n')
+    });
+
+    expect(bills).toHaveLength(1);
+    expect(bills[0]).toMatchObject({ identifier: 'SF 1', session: '2025', chamber: 'upper', subjects: ['Education', 'School Finance'] });
+    expect(bills[0].actions.map(a => a.classification)).toEqual([['introduction', 'reading-1'], ['referral-committee']]);
+    expect(bills[0].sponsors).toEqual([{ name: 'Alvarez', personId: 'ocd-person/0001', primary: true, classification: 'primary' }]);
+    expect(bills[0].latestPassageDate).toBeNull();
+  });
+
+  it('parses Postgres array literals', () => {
+    expect(parsePgArray('{}')).toEqual([]);
+    expect(parsePgArray('{a,"b, c","d \\"e\\""}')).toEqual(['a', 'b, c', 'd "e"']);
+  });
+});
+
+describe('state legislative seats', () => {
+  const race = (title: string, state: string = 'MN') => ({ id: 1, title, location: state, state, level: 'State', offices: null });
+
+  it('finds the seat a race is for', () => {
+    expect(seatForElection(race('State Senate District 12'))).toEqual({ chamber: 'upper', district: '12' });
+    expect(seatForElection(race('State House District 4'))).toEqual({ chamber: 'lower', district: '4' });
+    expect(seatForElection(race('Legislative District 39', 'NE'))).toEqual({ chamber: 'legislature', district: '39' });
+    expect(seatForElection(race('Governor'))).toBeNull();
+    expect(seatForElection({ ...race('Congressional District 3'), level: 'federal' })).toBeNull();
+  });
+
+  it('matches seat holders by normalized district', () => {
+    const legislators = [
+      { name: 'Maria Alvarez', chamber: 'upper', district: '012', isCurrent: true },
+      { name: 'Former Senator', chamber: 'upper', district: '12', isCurrent: false },
+      { name: 'James Porter', chamber: 'lower', district: '12', isCurrent: true }
+    ];
+    expect(seatHolders(legislators, 'upper', '12').map(l => l.name)).toEqual(['Maria Alvarez']);
+    expect(districtKey('District 3A')).toBe('3a');
+  });
+});
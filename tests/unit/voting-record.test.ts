@@ -0,0 +1,135 @@
+/**
+ * Unit Tests for roll-call parsing and voting-record metrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  bipartisanIndex,
+  computeVotingMetrics,
+  displayName,
+  keyVotePositions,
+  parseHouseVoteListItem,
+  parseHouseVoteMembers,
+  parseSenateVoteMenu,
+  parseSenateVoteXml,
+  partyMajorities,
+  policyAreaToCategory,
+  type PartyTally
+} from '../../server/lib/voting-record';
+
+const SENATE_VOTE = `<?xml version="1.0" encoding="UTF-8"?>
+<roll_call_vote>
+  <congress>118</congress>
+  <session>1</session>
+  <vote_number>12</vote_number>
+  <vote_date>February 9, 2023,  01:45 PM</vote_date>
+  <vote_question_text>On the Joint Resolution S.J.Res. 9</vote_question_text>
+  <vote_result>Joint Resolution Passed</vote_result>
+  <majority_requirement>1/2</majority_requirement>
+  <document><document_type>S.J.Res.</document_type><document_number>9</document_number></document>
+  <members>
+    <member><last_name>Baldwin</last_name><first_name>Tammy</first_name><party>D</party><state>WI</state><vote_cast>Nay</vote_cast><lis_member_id>S354</lis_member_id></member>
+    <member><last_name>Barrasso</last_name><first_name>John</first_name><party>R</party><state>WY</state><vote_cast>Yea</vote_cast><lis_member_id>S317</lis_member_id></member>
+    <member><last_name>Sanders</last_name><first_name>Bernard</first_name><party>I</party><state>VT</state><vote_cast>Not Voting</vote_cast><lis_member_id>S313</lis_member_id></member>
+  </members>
+</roll_call_vote>`;
+
+describe('roll call parsers', () => {
+  it('reads a congress.gov house vote and its member votes', () => {
+    const rollCall = parseHouseVoteListItem({
+      congress: 118, sessionNumber: 1, rollCallNumber: 42, startDate: '2023-01-20T15:00:00Z',
+      result: 'Passed', voteType: 'Yea-and-Nay', legislationType: 'HR', legislationNumber: '21'
+    });
+    expect(rollCall).toMatchObject({ chamber: 'House', session: 1, rollCallNumber: 42, billType: 'hr', billNumber: '21' });
+
+    const members = parseHouseVoteMembers({
+      houseRollCallVoteMemberVotes: {
+        voteQuestion: 'On Passage',
+        results: [
+          { bioguideID: 'A000370', voteCast: 'Aye', voteParty: 'D', voteState: 'NC' },
+          { bioguideID: 'B000825', voteCast: 'No', voteParty: 'R', voteState: 'CO' }
+        ]
+      }
+    });
+    expect(members.question).toBe('On Passage');
+    expect(members.votes.map(v => [v.bioguideId, v.position])).toEqual([['A000370', 'yea'], ['B000825', 'nay']]);
+  });
+
+  it('reads senate.gov vote XML and menu', () => {
+    const { rollCall, votes } = parseSenateVoteXml(SENATE_VOTE);
+    expect(rollCall).toMatchObject({ chamber: 'Senate', congress: 118, rollCallNumber: 12, billType: 'sjres', billNumber: '9' });
+    expect(rollCall.voteDate?.getFullYear()).toBe(2023);
+    expect(votes.map(v => [v.lastName, v.party, v.position])).toEqual([
+      ['Baldwin', 'D', 'nay'], ['Barrasso', 'R', 'yea'], ['Sanders', 'I', 'not_voting']
+    ]);
+
+    const menu = '<vote_summary><votes><vote><vote_number>00002</vote_number></vote><vote><vote_number>00001</vote_number></vote></votes></vote_summary>';
+    expect(parseSenateVoteMenu(menu)).toEqual([2, 1]);
+  });
+
+  it('maps policy areas and member names', () => {
+    expect(policyAreaToCategory('Health')).toBe('Healthcare');
+    expect(policyAreaToCategory('Native Americans')).toBeNull();
+    expect(displayName('Pelosi, Nancy')).toBe('Nancy Pelosi');
+  });
+});
+
+describe('computeVotingMetrics', () => {
+  const tallies: PartyTally[] = [
+    // 1: party-unity vote, D yea / R nay
+    { rollCallId: 1, party: 'D', position: 'yea', count: 200 },
+    { rollCallId: 1, party: 'D', position: 'nay', count: 10 },
+    { rollCallId: 1, party: 'R', position: 'nay', count: 210 },
+    // 2: both parties mostly yea - not a party-unity vote
+    { rollCallId: 2, party: 'D', position: 'yea', count: 200 },
+    { rollCallId: 2, party: 'R', position: 'yea', count: 190 },
+    // 3: party-unity vote, D nay / R yea
+    { rollCallId: 3, party: 'D', position: 'nay', count: 205 },
+    { rollCallId: 3, party: 'R', position: 'yea', count: 215 }
+  ];
+  const majorities = partyMajorities(tallies);
+
+  it('counts party-line votes over party-unity votes only', () => {
+    const metrics = computeVotingMetrics([
+      { rollCallId: 1, position: 'yea' },
+      { rollCallId: 2, position: 'nay' },
+      { rollCallId: 3, position: 'yea' },
+      { rollCallId: 4, position: 'not_voting' }
+    ], 'D', majorities);
+    expect(metrics).toMatchObject({ totalVotes: 4, missedVotes: 1, missedVoteRate: 0.25, partyUnityVotes: 2, votesWithParty: 1, partyLinePct: 0.5 });
+  });
+
+  it('has no party-line share for independents', () => {
+    expect(computeVotingMetrics([{ rollCallId: 1, position: 'yea' }], 'I', majorities).partyLinePct).toBeNull();
+  });
+
+  it('groups key votes by issue with the party position', () => {
+    const keyVotes = keyVotePositions([
+      { id: 1, chamber: 'House', congress: 118, rollCallNumber: 10, voteDate: '2023-01-10', question: 'On Passage', description: null, result: 'Passed', billType: 'hr', billNumber: '5', issueCategory: 'Healthcare' },
+      { id: 3, chamber: 'House', congress: 118, rollCallNumber: 30, voteDate: '2023-03-01', question: 'On Passage', description: null, result: 'Failed', billType: null, billNumber: null, issueCategory: null }
+    ], [{ rollCallId: 1, position: 'nay' }, { rollCallId: 3, position: 'nay' }], 'D', majorities);
+
+    expect(keyVotes.Healthcare[0]).toMatchObject({ bill: 'HR 5', partyPosition: 'yea', withParty: false });
+    expect(keyVotes.Other[0]).toMatchObject({ rollCallId: 3, withParty: true });
+  });
+});
+
+describe('bipartisanIndex', () => {
+  it('averages cross-party shares for sponsored and cosponsored bills', () => {
+    const bill = (number: string, sponsor: string, sponsorParty: string, cosponsor: string, cosponsorParty: string) => ({
+      congress: 118, billType: 'hr', billNumber: number,
+      sponsorBioguideId: sponsor, sponsorParty, cosponsorBioguideId: cosponsor, cosponsorParty
+    });
+    const index = bipartisanIndex('M1', 'D', [
+      bill('1', 'M1', 'D', 'X1', 'D'),
+      bill('1', 'M1', 'D', 'X2', 'R'),
+      bill('2', 'M1', 'D', 'X1', 'D'),
+      bill('3', 'X2', 'R', 'M1', 'D'),
+      bill('4', 'X1', 'D', 'M1', 'D'),
+      bill('5', 'X3', 'R', 'M1', 'D'),
+      bill('6', 'X4', 'D', 'M1', 'D')
+    ]);
+    expect(index).toMatchObject({ sponsoredBills: 2, sponsoredWithCrossPartyCosponsors: 1, cosponsoredBills: 4, cosponsoredAcrossParty: 2 });
+    expect(index.score).toBe(0.5);
+  });
+});